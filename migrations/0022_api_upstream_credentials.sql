@@ -0,0 +1,21 @@
+-- Create api_upstream_credentials table
+-- One provider-managed credential per API, injected by the /v1/call proxy
+-- into every upstream request (see src/services/upstreamCredentials.ts).
+--
+-- The secret is stored AES-256-GCM sealed (`v1.<iv>.<tag>.<ciphertext>`)
+-- under UPSTREAM_CREDENTIALS_KEY; plaintext never reaches the database.
+-- With UPSTREAM_CREDENTIALS_STORE=postgres the store creates this table on
+-- first use if the migration has not run.
+
+CREATE TABLE IF NOT EXISTS `api_upstream_credentials` (
+  `api_id`        integer PRIMARY KEY NOT NULL,
+  `type`          text    NOT NULL,                 -- 'bearer' | 'header' | 'query' | 'hmac'
+  `name`          text,                             -- header / query-param name; NULL for bearer and hmac
+  `sealed_secret` text    NOT NULL,
+  `version`       integer NOT NULL DEFAULT 1,       -- bumped on every rotation
+  `created_at`    text    NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  `rotated_at`    text,
+  `updated_by`    text    NOT NULL,
+  FOREIGN KEY (`api_id`) REFERENCES `apis`(`id`) ON DELETE CASCADE,
+  CHECK (`type` IN ('bearer', 'header', 'query', 'hmac'))
+);
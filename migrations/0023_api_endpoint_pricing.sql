@@ -0,0 +1,11 @@
+-- Migration: add pricing column to api_endpoints
+-- Lets providers price an endpoint in graduated or volume tiers evaluated per
+-- consumer per billing period (calendar month, UTC). Stored as a JSON text
+-- blob; NULL means every call costs price_per_call_usdc.
+--
+-- Schema: { model: 'graduated' | 'volume',
+--           tiers: [{ up_to: number | null, price_usdc: string }] }
+-- Tiers are ordered by up_to; only the last tier has up_to = null.
+
+ALTER TABLE `api_endpoints`
+  ADD COLUMN `pricing` text;
@@ -0,0 +1,3 @@
+ALTER TABLE invoice_line_items
+  DROP COLUMN IF EXISTS unit_price_usdc,
+  DROP COLUMN IF EXISTS endpoint_id;
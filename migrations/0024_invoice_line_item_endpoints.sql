@@ -0,0 +1,8 @@
+-- Itemise invoices per endpoint
+-- Line items were aggregated per API; they are now one row per endpoint so
+-- tiered (graduated / volume) endpoints show the price actually billed.
+-- unit_price_usdc is the blended per-call price (amount_usdc / usage_count).
+
+ALTER TABLE invoice_line_items
+  ADD COLUMN IF NOT EXISTS endpoint_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS unit_price_usdc DECIMAL(20,7);
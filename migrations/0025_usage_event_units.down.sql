@@ -0,0 +1,2 @@
+ALTER TABLE usage_events
+  DROP COLUMN IF EXISTS units;
@@ -0,0 +1,7 @@
+-- Record upstream-reported compute units on usage events
+-- Unit-priced endpoints are charged units × per-unit price, where the units
+-- come from a trusted upstream response header (X-Callora-Units by default).
+-- NULL for calls to flat and tiered endpoints.
+
+ALTER TABLE usage_events
+  ADD COLUMN IF NOT EXISTS units BIGINT CHECK (units IS NULL OR units >= 0);
@@ -0,0 +1,3 @@
+ALTER TABLE api_keys
+  DROP COLUMN IF EXISTS monthly_spend_limit_usdc,
+  DROP COLUMN IF EXISTS daily_spend_limit_usdc;
@@ -0,0 +1,10 @@
+-- Optional USDC budgets per API key (UTC calendar day / month)
+-- NULL means the key has no budget for that window. Once a key's spend for a
+-- window reaches its budget, the gateway rejects further calls until the
+-- window resets.
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS daily_spend_limit_usdc NUMERIC(20, 7)
+    CHECK (daily_spend_limit_usdc IS NULL OR daily_spend_limit_usdc > 0),
+  ADD COLUMN IF NOT EXISTS monthly_spend_limit_usdc NUMERIC(20, 7)
+    CHECK (monthly_spend_limit_usdc IS NULL OR monthly_spend_limit_usdc > 0);
@@ -0,0 +1,14 @@
+DROP INDEX IF EXISTS idx_api_keys_user_last_activity;
+
+ALTER TABLE api_keys
+  DROP COLUMN IF EXISTS rotated_from_id,
+  DROP COLUMN IF EXISTS revoked_at,
+  DROP COLUMN IF EXISTS expires_at;
+
+-- Fails if any user_id is not an integer or a consumer holds more than one
+-- key for the same API; remove those rows before rolling back.
+ALTER TABLE api_keys
+  ALTER COLUMN user_id TYPE BIGINT USING user_id::bigint;
+
+ALTER TABLE api_keys
+  ADD CONSTRAINT api_keys_user_api_unique UNIQUE (user_id, api_id);
@@ -0,0 +1,25 @@
+-- Durable API keys: expiry, rotation with an overlap window, and revocation
+-- timestamps for the Postgres-backed key store (API_KEY_STORE=postgres).
+--
+-- * expires_at      — the key stops verifying at this instant (NULL: never).
+-- * rotated_from_id — set on the successor key issued by a rotation; the
+--                     rotated-out key keeps verifying until its expires_at.
+-- * user_id becomes TEXT: consumer ids are the authenticated user's id
+--   (a UUID), not an integer.
+-- * A consumer may hold several keys for the same API (and always does
+--   during a rotation overlap), so (user_id, api_id) is no longer unique.
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_user_api_unique;
+
+ALTER TABLE api_keys
+  ALTER COLUMN user_id TYPE TEXT USING user_id::text;
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rotated_from_id BIGINT REFERENCES api_keys (id) ON DELETE SET NULL;
+
+-- Stale-key reports scan a consumer's active keys by last activity.
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_last_activity
+  ON api_keys (user_id, (COALESCE(last_used_at, created_at)))
+  WHERE revoked = FALSE;
@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS api_key_request_nonces;
+
+ALTER TABLE api_keys
+  DROP COLUMN IF EXISTS signing_secret,
+  DROP COLUMN IF EXISTS auth_mode;
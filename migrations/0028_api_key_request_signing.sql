@@ -0,0 +1,27 @@
+-- Signed requests on /v1/call as an alternative to sending the API key on
+-- every call (see docs/request-signing.md).
+--
+-- * auth_mode      — how the gateway accepts the key: 'bearer' (the key in
+--                    X-Api-Key / Authorization), 'signed' (an HMAC signature
+--                    made with the key) or 'both'.
+-- * signing_secret — the key sealed with API_KEY_SECRETS_KEY, so the gateway
+--                    can verify signatures. NULL for keys issued before this
+--                    migration; those keys can only be used as bearer keys.
+-- * api_key_request_nonces — nonces of accepted signed requests, kept until
+--   their timestamp can no longer pass the clock-skew check, so a captured
+--   request cannot be replayed.
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS auth_mode VARCHAR(10) NOT NULL DEFAULT 'bearer'
+    CHECK (auth_mode IN ('bearer', 'signed', 'both')),
+  ADD COLUMN IF NOT EXISTS signing_secret TEXT;
+
+CREATE TABLE IF NOT EXISTS api_key_request_nonces (
+  api_key_id TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (api_key_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_request_nonces_expires_at
+  ON api_key_request_nonces (expires_at);
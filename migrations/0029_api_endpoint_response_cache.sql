@@ -0,0 +1,12 @@
+-- Migration: add response cache policy column to api_endpoints
+-- Lets providers have the gateway cache GET responses of an endpoint. Stored
+-- as a JSON text blob; NULL means responses are never cached.
+--
+-- Schema: { ttl_seconds: number,
+--           vary_headers?: string[],
+--           hit_price_usdc?: string }
+-- hit_price_usdc is charged for calls served from the cache; without it they
+-- cost the same as any other call.
+
+ALTER TABLE `api_endpoints`
+  ADD COLUMN `cache` text;
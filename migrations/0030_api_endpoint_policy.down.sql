@@ -0,0 +1,32 @@
+-- Rollback: remove policy column from api_endpoints
+-- SQLite does not support DROP COLUMN before v3.35. This migration uses the
+-- table-rebuild pattern that is safe on all supported SQLite versions.
+
+PRAGMA foreign_keys = OFF;
+
+CREATE TABLE `api_endpoints_backup` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`api_id` integer NOT NULL,
+	`path` text NOT NULL,
+	`method` text DEFAULT 'GET' NOT NULL,
+	`price_per_call_usdc` text DEFAULT '0.01' NOT NULL,
+	`pricing` text,
+	`cache` text,
+	`description` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`api_id`) REFERENCES `apis`(`id`) ON DELETE CASCADE
+);
+
+INSERT INTO `api_endpoints_backup`
+  SELECT `id`, `api_id`, `path`, `method`, `price_per_call_usdc`, `pricing`, `cache`,
+         `description`, `created_at`, `updated_at`
+  FROM `api_endpoints`;
+
+DROP TABLE `api_endpoints`;
+
+ALTER TABLE `api_endpoints_backup` RENAME TO `api_endpoints`;
+
+CREATE INDEX `idx_api_endpoints_api_id` ON `api_endpoints` (`api_id`);
+
+PRAGMA foreign_keys = ON;
@@ -0,0 +1,14 @@
+-- Migration: add gateway policy column to api_endpoints
+-- Lets providers give an endpoint its own upstream timeout, request and
+-- response size limits and accepted methods. Stored as a JSON text blob;
+-- NULL means the gateway-wide defaults apply.
+--
+-- Schema: { timeout_ms?: number,
+--           max_request_body_bytes?: number,
+--           max_response_bytes?: number,
+--           allowed_methods?: string[] }
+-- max_request_body_bytes can only lower GATEWAY_BODY_LIMIT. Other methods on
+-- the endpoint's path are rejected when allowed_methods is set.
+
+ALTER TABLE `api_endpoints`
+  ADD COLUMN `policy` text;
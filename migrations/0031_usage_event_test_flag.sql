@@ -0,0 +1,7 @@
+-- Flag usage recorded by test-mode API keys (`ck_test_…`)
+-- Test calls are answered by the provider's sandbox and never billed: their
+-- usage events carry amount_usdc = 0 and are left out of settlements and
+-- invoices (see src/services/sandbox.ts).
+
+ALTER TABLE usage_events
+  ADD COLUMN IF NOT EXISTS test BOOLEAN NOT NULL DEFAULT FALSE;
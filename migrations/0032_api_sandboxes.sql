@@ -0,0 +1,18 @@
+-- Create api_sandboxes table
+-- Where test-mode API keys (`ck_test_…`) are answered instead of the API's
+-- live upstream (see src/services/sandbox.ts). One row per API.
+--
+-- `fixtures` is a JSON text array of canned responses:
+--   [{ id, method: string | null, path, status, headers: {}, body,
+--      created_at, updated_at }]
+-- A call matching no fixture is proxied to `base_url`; without one it fails
+-- with 404 SANDBOX_RESPONSE_NOT_FOUND.
+
+CREATE TABLE IF NOT EXISTS `api_sandboxes` (
+  `api_id`     integer PRIMARY KEY NOT NULL,
+  `base_url`   text,
+  `fixtures`   text    NOT NULL DEFAULT '[]',
+  `updated_at` text    NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  `updated_by` text    NOT NULL,
+  FOREIGN KEY (`api_id`) REFERENCES `apis`(`id`) ON DELETE CASCADE
+);
@@ -0,0 +1,20 @@
+-- Create api_transform_rules table
+-- Versioned request/response transform rules per API (see
+-- src/services/transformRules.ts). Every save adds a row with the next
+-- version; the gateway applies the highest one.
+--
+-- `request_rules` and `response_rules` are JSON text arrays of rules, e.g.
+--   [{ "type": "rewrite_path", "from": "/v1", "to": "/api" }]
+--   [{ "type": "map_error", "upstreamStatus": "5xx", "code": "UPSTREAM_ERROR",
+--      "message": "The forecast service failed" }]
+
+CREATE TABLE IF NOT EXISTS `api_transform_rules` (
+  `api_id`         integer NOT NULL,
+  `version`        integer NOT NULL,
+  `request_rules`  text    NOT NULL DEFAULT '[]',
+  `response_rules` text    NOT NULL DEFAULT '[]',
+  `created_at`     text    NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  `created_by`     text    NOT NULL,
+  PRIMARY KEY (`api_id`, `version`),
+  FOREIGN KEY (`api_id`) REFERENCES `apis`(`id`) ON DELETE CASCADE
+);
@@ -0,0 +1,17 @@
+-- Create api_openapi_specs table
+-- Provider-uploaded OpenAPI 3 documents that /v1/call requests are checked
+-- against (see src/services/apiSpecs.ts). Every upload adds a row with the
+-- next version; removing the document adds one with a NULL `document`, so a
+-- version is never reused. The gateway enforces the highest one.
+--
+-- `document` is the JSON text of the document as uploaded.
+
+CREATE TABLE IF NOT EXISTS `api_openapi_specs` (
+  `api_id`     integer NOT NULL,
+  `version`    integer NOT NULL,
+  `document`   text,
+  `created_at` text    NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  `created_by` text    NOT NULL,
+  PRIMARY KEY (`api_id`, `version`),
+  FOREIGN KEY (`api_id`) REFERENCES `apis`(`id`) ON DELETE CASCADE
+);
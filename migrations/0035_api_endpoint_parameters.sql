@@ -0,0 +1,13 @@
+-- Migration: add documented parameters column to api_endpoints
+-- Filled in when endpoints are imported from an OpenAPI document, so buyers
+-- see each endpoint's parameters next to its description. Stored as a JSON
+-- text blob; NULL means none are documented.
+--
+-- Schema: [{ name: string,
+--            in: "path" | "query" | "header" | "cookie",
+--            required: boolean,
+--            description?: string,
+--            schema?: object }]
+
+ALTER TABLE `api_endpoints`
+  ADD COLUMN `parameters` text;
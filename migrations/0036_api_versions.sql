@@ -0,0 +1,25 @@
+-- Create api_versions table and add subscriptions.pinned_version
+-- Published versions of an API listing (see src/services/apiVersions.ts).
+-- A version has its own base URL, endpoints and prices and does not change
+-- once published, except to be deprecated with a sunset date.
+--
+-- `endpoints` is the JSON text of the version's endpoints as the gateway
+-- prices them. `pinned_version` names the version a subscription's calls
+-- without `@version` are answered by; NULL follows the API's listing.
+
+CREATE TABLE IF NOT EXISTS `api_versions` (
+  `api_id`        integer NOT NULL,
+  `version`       text    NOT NULL,
+  `base_url`      text    NOT NULL,
+  `endpoints`     text    NOT NULL,
+  `created_at`    text    NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  `created_by`    text    NOT NULL,
+  `deprecated_at` text,
+  `sunset_at`     text,
+  `successor`     text,
+  PRIMARY KEY (`api_id`, `version`),
+  FOREIGN KEY (`api_id`) REFERENCES `apis`(`id`) ON DELETE CASCADE
+);
+
+ALTER TABLE `subscriptions`
+  ADD COLUMN `pinned_version` text;
@@ -0,0 +1,14 @@
+-- SEP-10 wallet sign-in (see docs/auth-api.md).
+--
+-- * wallet_auth_challenges — nonces of challenge transactions issued by
+--   GET /auth/wallet/challenge, kept until the challenge expires. A login
+--   deletes its challenge's row, so each challenge signs in at most once.
+
+CREATE TABLE IF NOT EXISTS wallet_auth_challenges (
+  nonce TEXT PRIMARY KEY,
+  account TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_auth_challenges_expires_at
+  ON wallet_auth_challenges (expires_at);
@@ -0,0 +1,8 @@
+DROP TABLE IF EXISTS oidc_login_states;
+DROP TABLE IF EXISTS oidc_identities;
+DROP INDEX IF EXISTS idx_users_email_lower;
+ALTER TABLE users DROP COLUMN IF EXISTS email;
+
+-- Users created by SSO have no wallet and cannot survive the NOT NULL.
+DELETE FROM users WHERE stellar_address IS NULL;
+ALTER TABLE users ALTER COLUMN stellar_address SET NOT NULL;
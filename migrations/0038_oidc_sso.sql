@@ -0,0 +1,38 @@
+-- OIDC single sign-on (see docs/sso.md).
+--
+-- * users.email — verified email recorded from an SSO login. A later login
+--   with the same verified email through another provider signs in to the
+--   same user. SSO-only users have no stellar_address.
+-- * oidc_identities — the (provider, subject) pairs linked to each user.
+-- * oidc_login_states — pending authorization requests, keyed by their
+--   state. A callback deletes its row, so each state completes at most once.
+
+ALTER TABLE users ALTER COLUMN stellar_address DROP NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_lower
+  ON users (LOWER(email));
+
+CREATE TABLE IF NOT EXISTS oidc_identities (
+  provider TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_login_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, subject)
+);
+
+CREATE INDEX IF NOT EXISTS idx_oidc_identities_user_id
+  ON oidc_identities (user_id);
+
+CREATE TABLE IF NOT EXISTS oidc_login_states (
+  state TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  code_verifier TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_oidc_login_states_expires_at
+  ON oidc_login_states (expires_at);
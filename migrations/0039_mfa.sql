@@ -0,0 +1,22 @@
+-- TOTP multi-factor authentication (see docs/mfa.md).
+--
+-- * mfa_enrollments — one row per subject (`user:<id>` or `admin:<actor>`).
+--   `secret` is the TOTP secret sealed with MFA_SECRETS_KEY. The row is
+--   pending until `confirmed_at` is set. `last_used_step` is the last TOTP
+--   time step accepted, so each code works once.
+-- * mfa_recovery_codes — SHA-256 hashes of the unused recovery codes. Using a
+--   code deletes its row.
+
+CREATE TABLE IF NOT EXISTS mfa_enrollments (
+  subject TEXT PRIMARY KEY,
+  secret TEXT NOT NULL,
+  confirmed_at TIMESTAMPTZ,
+  last_used_step BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  subject TEXT NOT NULL REFERENCES mfa_enrollments(subject) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  PRIMARY KEY (subject, code_hash)
+);
@@ -0,0 +1,28 @@
+-- Four-eyes approval for sensitive admin actions (see docs/admin-approvals.md).
+--
+-- * admin_approval_requests — one row per change request. `params` holds the
+--   action's validated parameters as JSON, replayed when the request is
+--   approved. `requested_by` / `decided_by` are admin actors
+--   (`<role>:<identity>`); `requester_id` is the requester's identity, which
+--   may not decide on the request. Pending rows past `expires_at` are marked
+--   expired. `result` (JSON) or `error` records how the approved action went.
+
+CREATE TABLE IF NOT EXISTS admin_approval_requests (
+  id TEXT PRIMARY KEY,
+  action TEXT NOT NULL,
+  params TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'executed', 'failed', 'rejected', 'expired')),
+  requested_by TEXT NOT NULL,
+  requester_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  decided_by TEXT,
+  decided_at TIMESTAMPTZ,
+  note TEXT,
+  result TEXT,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_approval_requests_status_created
+  ON admin_approval_requests (status, created_at DESC);
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+
+/**
+ * Runs the stub OpenID Connect provider from tests/helpers for trying SSO
+ * locally.
+ *
+ * Usage:
+ *   npm run sso:stub-idp
+ *
+ * Then start the API with the printed OIDC_PROVIDERS value. Every sign-in is
+ * approved at once as dev@callora.local; add `&login_hint=<email>` to the
+ * authorization URL to sign in as someone else.
+ */
+
+import { startStubIdp } from '../tests/helpers/oidcStubIdp.js';
+
+const logger = console;
+
+const port = Number(process.env.OIDC_STUB_PORT ?? 4010);
+const redirectUri = process.env.OIDC_STUB_REDIRECT_URI ?? 'http://localhost:5173/sso/stub';
+
+const idp = await startStubIdp({
+  clientId: 'callora-local',
+  port,
+  user: { sub: 'dev-user', email: 'dev@callora.local', email_verified: true, name: 'Local Developer' },
+});
+
+logger.info(`Stub IdP listening at ${idp.issuer}`);
+logger.info('Configure the API with:');
+logger.info(`OIDC_PROVIDERS='${JSON.stringify([
+  { id: 'stub', name: 'Stub IdP', issuer: idp.issuer, clientId: 'callora-local', redirectUri },
+])}'`);
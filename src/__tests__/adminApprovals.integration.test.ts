@@ -0,0 +1,154 @@
+/**
+ * Integration tests — four-eyes approval of admin credit grants.
+ *
+ * Verifies that:
+ *   - A grant above the `credits.grant` threshold is held as a pending
+ *     change request (`202`) and no credits move.
+ *   - A grant at or below the threshold goes through at once (`201`).
+ *   - A second admin's approval runs the grant with the original parameters.
+ *   - The requesting admin cannot approve their own request.
+ */
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { adminAuth } from '../middleware/adminAuth.js';
+import { enforceAdminRoutePermissions } from '../middleware/adminPermission.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import type { CreditsRepository } from '../repositories/creditsRepository.js';
+import { createAdminApprovalsRouter } from '../routes/admin/approvals.js';
+import { createAdminCreditGrantsRouter } from '../routes/admin/billing/credits/grant.js';
+import { ADMIN_ROUTE_PERMISSIONS } from '../routes/admin/routePermissions.js';
+import {
+  AdminApprovalService,
+  InMemoryAdminApprovalStore,
+  resetAdminApprovalService,
+  setAdminApprovalService,
+} from '../services/adminApprovals.js';
+import type { AdminRole } from '../services/adminRbac.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'test-jwt-secret';
+
+function asAdmin(role: AdminRole, sub: string): Record<string, string> {
+  const token = jwt.sign({ role, sub }, JWT_SECRET, { expiresIn: '1h' });
+  return { Authorization: `Bearer ${token}` };
+}
+
+function buildApp(creditsRepository: CreditsRepository): express.Express {
+  const admin = express.Router();
+  admin.use(adminAuth);
+  admin.use(enforceAdminRoutePermissions(ADMIN_ROUTE_PERMISSIONS));
+  admin.use('/billing/credits', createAdminCreditGrantsRouter({ creditsRepository }));
+  admin.use('/approvals', createAdminApprovalsRouter());
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', admin);
+  app.use(errorHandler);
+  return app;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('four-eyes approval of credit grants', () => {
+  const alice = asAdmin('finance', 'alice@callora.io');
+  const bob = asAdmin('finance', 'bob@callora.io');
+
+  let grant: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    grant = jest.fn(async (userId: string, amountUsdc: string) => ({
+      user_id: userId,
+      balance_usdc: amountUsdc,
+      updated_at: new Date('2026-10-19T12:00:00Z'),
+    }));
+    app = buildApp({ grant } as unknown as CreditsRepository);
+    setAdminApprovalService(new AdminApprovalService({
+      store: new InMemoryAdminApprovalStore(),
+      policies: [{ action: 'credits.grant', thresholdUsdc: 100 }],
+    }));
+  });
+
+  afterEach(() => {
+    resetAdminApprovalService();
+  });
+
+  it('grants amounts within the threshold at once', async () => {
+    const res = await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set(alice)
+      .send({ user_id: 'user_1', amount_usdc: '100' });
+
+    expect(res.status).toBe(201);
+    expect(grant).toHaveBeenCalledWith('user_1', '104');
+  });
+
+  it('holds larger grants until a second admin approves them', async () => {
+    const submitted = await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set(alice)
+      .send({ user_id: 'user_1', amount_usdc: '250' });
+
+    expect(submitted.status).toBe(202);
+    expect(submitted.body.data.approval).toMatchObject({
+      action: 'credits.grant',
+      status: 'pending',
+      params: { user_id: 'user_1', amount_usdc: '250' },
+      requested_by: 'finance:alice@callora.io',
+    });
+    expect(grant).not.toHaveBeenCalled();
+
+    const id = submitted.body.data.approval.id as string;
+    const listed = await request(app).get('/api/admin/approvals?status=pending').set(bob);
+    expect(listed.status).toBe(200);
+    expect(listed.body.data.map((approval: { id: string }) => approval.id)).toEqual([id]);
+
+    const approved = await request(app)
+      .post(`/api/admin/approvals/${id}/approve`)
+      .set(bob)
+      .send({ note: 'Matches the invoice' });
+
+    expect(approved.status).toBe(200);
+    expect(grant).toHaveBeenCalledWith('user_1', '254');
+    expect(approved.body.data.approval).toMatchObject({
+      status: 'executed',
+      decided_by: 'finance:bob@callora.io',
+      note: 'Matches the invoice',
+    });
+    expect(approved.body.data.result).toMatchObject({ user_id: 'user_1', amount_usdc: '254' });
+  });
+
+  it('refuses to let the requester approve their own grant', async () => {
+    const submitted = await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set(alice)
+      .send({ user_id: 'user_1', amount_usdc: '250' });
+
+    const res = await request(app)
+      .post(`/api/admin/approvals/${submitted.body.data.approval.id}/approve`)
+      .set(alice)
+      .send({});
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('APPROVAL_SELF_DECISION');
+    expect(grant).not.toHaveBeenCalled();
+  });
+
+  it('requires the grant permission to decide', async () => {
+    const submitted = await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set(alice)
+      .send({ user_id: 'user_1', amount_usdc: '250' });
+
+    const res = await request(app)
+      .post(`/api/admin/approvals/${submitted.body.data.approval.id}/reject`)
+      .set(asAdmin('support', 'sam@callora.io'))
+      .send({});
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('ADMIN_PERMISSION_DENIED');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Integration tests — role-based access control on `/api/admin`.
+ *
+ * Verifies that:
+ *   - A route refuses roles without its permission with
+ *     `403 ADMIN_PERMISSION_DENIED`, naming the missing permission.
+ *   - Routes missing from the permission table are open to super-admin only.
+ *   - `GET /api/admin/me/permissions` reports the caller's role and
+ *     effective permissions.
+ *   - Admin routers mounted outside `/api/admin` check permissions too.
+ */
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import adminRouter from '../routes/admin.js';
+import { createDisputesRouter } from '../routes/billing/disputes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { ADMIN_ROLE_PERMISSIONS, type AdminRole } from '../services/adminRbac.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'test-jwt-secret';
+
+function buildApp(): express.Express {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', adminRouter);
+  app.use('/api/billing/disputes', createDisputesRouter());
+  app.use(errorHandler);
+  return app;
+}
+
+function asRole(role: AdminRole | 'admin', sub = `${role}-user`): Record<string, string> {
+  const token = jwt.sign({ role, sub }, JWT_SECRET, { expiresIn: '1h' });
+  return { Authorization: `Bearer ${token}` };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('admin RBAC', () => {
+  const app = buildApp();
+
+  it('refuses a route the role lacks the permission for, naming the permission', async () => {
+    const res = await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set(asRole('support'))
+      .send({ user_id: 'user_1', amount_usdc: '10' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe('ADMIN_PERMISSION_DENIED');
+    expect(res.body.error.message).toContain('"credits:grant"');
+    expect(res.body.error.message).toContain('role: support');
+  });
+
+  it('lets a role through to routes it holds the permission for', async () => {
+    // Validation runs once the permission check has passed.
+    const res = await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set(asRole('finance'))
+      .send({});
+    expect(res.status).toBe(400);
+  });
+
+  it('opens undeclared routes to super-admin only', async () => {
+    const refused = await request(app).get('/api/admin/not-declared').set(asRole('operator'));
+    expect(refused.status).toBe(403);
+    expect(refused.body.error.code).toBe('ADMIN_PERMISSION_DENIED');
+
+    const allowed = await request(app).get('/api/admin/not-declared').set(asRole('super-admin'));
+    expect(allowed.status).toBe(404);
+  });
+
+  it('reports the effective permissions of the caller', async () => {
+    const res = await request(app).get('/api/admin/me/permissions').set(asRole('finance', 'fin@callora.io'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({
+      actor: 'finance:fin@callora.io',
+      role: 'finance',
+      permissions: [...ADMIN_ROLE_PERMISSIONS.finance],
+    });
+
+    const legacy = await request(app).get('/api/admin/me/permissions').set(asRole('admin', 'root'));
+    expect(legacy.body.data.role).toBe('super-admin');
+    expect(legacy.body.data.actor).toBe('super-admin:root');
+  });
+
+  it('checks permissions on admin routes outside /api/admin', async () => {
+    const listed = await request(app).get('/api/billing/disputes/admin/all').set(asRole('support'));
+    expect(listed.status).toBe(200);
+
+    const refused = await request(app)
+      .post('/api/billing/disputes/dispute_1/resolve')
+      .set(asRole('support'))
+      .send({ resolution: 'rejected' });
+    expect(refused.status).toBe(403);
+    expect(refused.body.error.message).toContain('"disputes:resolve"');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Integration tests — keys issued through the key routes in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Keys from the API key repository authenticate at the gateway and have
+ *     their `lastUsedAt` recorded.
+ *   - A rotated-out key keeps working during the overlap window, alongside
+ *     its successor, and is rejected once the window has ended.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { apiKeyRepository, InMemoryApiKeyRepository } from '../repositories/apiKeyRepository.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const DEVELOPER_ID = 'dev_rotation';
+const CONSUMER_ID = 'consumer_rotation';
+const API_ID = '301';
+const API_SLUG = 'rotation-test-api';
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', (_req, res) => res.status(200).json({ ok: true }));
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'ep_free', path: '*', priceUsdc: 0 }],
+  }]);
+
+  const billing = new MockSorobanBilling();
+  billing.setBalance(CONSUMER_ID, 100);
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeyRepository: new InMemoryApiKeyRepository(),
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  apiKeyRepository.clear();
+});
+
+async function call(apiKey: string): Promise<number> {
+  const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/data`, {
+    headers: { 'x-api-key': apiKey },
+  });
+  await res.arrayBuffer();
+  return res.status;
+}
+
+function issueKey() {
+  return apiKeyRepository.create({
+    apiId: API_ID,
+    userId: CONSUMER_ID,
+    scopes: ['*'],
+    rateLimitPerMinute: null,
+  });
+}
+
+const lastUsedAt = (id: string): Date | null | undefined =>
+  apiKeyRepository.listForTesting().find((record) => record.id === id)?.lastUsedAt;
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('repository-backed gateway keys', () => {
+  it('accepts issued keys and records when they were last used', async () => {
+    const created = issueKey();
+    expect(lastUsedAt(created.id)).toBeNull();
+
+    expect(await call(created.key)).toBe(200);
+
+    expect(lastUsedAt(created.id)).toBeInstanceOf(Date);
+  });
+
+  it('accepts both keys during a rotation overlap and only the successor after it', async () => {
+    const created = issueKey();
+    const rotated = apiKeyRepository.rotate(created.id, CONSUMER_ID, { overlapMs: 60_000 });
+    if (!rotated.success) throw new Error('rotation failed');
+
+    expect(await call(created.key)).toBe(200);
+    expect(await call(rotated.newKey)).toBe(200);
+
+    const ended = apiKeyRepository.rotate(rotated.successor.id, CONSUMER_ID, { overlapMs: 0 });
+    if (!ended.success) throw new Error('rotation failed');
+
+    expect(await call(rotated.newKey)).toBe(401);
+    expect(await call(ended.newKey)).toBe(200);
+  });
+
+  it('rejects revoked keys', async () => {
+    const created = issueKey();
+    apiKeyRepository.revoke(created.id, CONSUMER_ID);
+
+    expect(await call(created.key)).toBe(403);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Integration tests — endpoint-level API key scopes in `/v1/call`.
+ *
+ * Verifies that:
+ *   - A key with endpoint scopes reaches the upstream only for the methods
+ *     and paths its scopes name.
+ *   - Other calls get a 403 API_KEY_SCOPE_MISSING naming the missing scope,
+ *     never reach the upstream and are never billed.
+ *   - Keys without endpoint scopes are unaffected.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const SCOPED_KEY = 'scoped-test-key';
+const UNSCOPED_KEY = 'unscoped-test-key';
+const DEVELOPER_ID = 'dev_scopes';
+const API_ID = 'api_scopes';
+const API_SLUG = 'scopes-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [SCOPED_KEY, { key: SCOPED_KEY, developerId: DEVELOPER_ID, apiId: API_ID, scopes: ['GET /v1/search'] }],
+  [UNSCOPED_KEY, { key: UNSCOPED_KEY, developerId: DEVELOPER_ID, apiId: API_ID, scopes: ['read'] }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+const upstreamCalls: string[] = [];
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', (req, res) => {
+      upstreamCalls.push(`${req.method} ${req.path}`);
+      res.status(200).json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'ep_flat', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling();
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeys,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+  upstreamCalls.length = 0;
+});
+
+async function call(apiKey: string, method: string, path: string): Promise<Response> {
+  return fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    method,
+    headers: { 'x-api-key': apiKey },
+  });
+}
+
+/** Billing runs after the response has finished. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('endpoint-scoped API keys', () => {
+  it('forwards and bills calls the key\'s scopes cover', async () => {
+    const res = await call(SCOPED_KEY, 'GET', '/v1/search');
+    await res.arrayBuffer();
+    await settle();
+
+    expect(res.status).toBe(200);
+    expect(upstreamCalls).toEqual(['GET /v1/search']);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(99);
+  });
+
+  it('rejects other methods and paths with the missing scope, unbilled', async () => {
+    const wrongMethod = await call(SCOPED_KEY, 'POST', '/v1/search');
+    const wrongPath = await call(SCOPED_KEY, 'GET', '/v1/search/../admin');
+    const wrongMethodBody = await wrongMethod.json();
+    const wrongPathBody = await wrongPath.json();
+    await settle();
+
+    expect(wrongMethod.status).toBe(403);
+    expect(wrongMethodBody.error.code).toBe('API_KEY_SCOPE_MISSING');
+    expect(wrongMethodBody.error.details).toEqual([
+      { field: 'scopes', message: 'POST /v1/search', code: 'API_KEY_SCOPE_MISSING' },
+    ]);
+    expect(wrongPath.status).toBe(403);
+    expect(wrongPathBody.error.details[0].message).toBe('GET /v1/admin');
+
+    expect(upstreamCalls).toEqual([]);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(100);
+  });
+
+  it('leaves keys without endpoint scopes unaffected', async () => {
+    const res = await call(UNSCOPED_KEY, 'POST', '/v1/anything');
+    await res.arrayBuffer();
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Integration tests — per-API-key spend caps in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Calls are rejected with 429 API_KEY_SPEND_CAP_EXCEEDED (and a
+ *     Retry-After) once the key's daily budget has been spent.
+ *   - The `api_key.spend_cap.reached` webhook is emitted at 80% and 100%.
+ *   - Keys without a budget are unaffected.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { ApiKeySpendCaps, InMemorySpendCounterStore } from '../services/apiKeySpendCaps.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const CAPPED_KEY = 'capped-test-key';
+const UNCAPPED_KEY = 'uncapped-test-key';
+const DEVELOPER_ID = 'dev_caps';
+const API_ID = 'api_caps';
+const API_SLUG = 'caps-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [CAPPED_KEY, { key: CAPPED_KEY, developerId: DEVELOPER_ID, apiId: API_ID, dailySpendLimitUsdc: 5 }],
+  [UNCAPPED_KEY, { key: UNCAPPED_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+let store: InMemorySpendCounterStore;
+const emit = jest.fn().mockReturnValue(true);
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', (_req, res) => res.status(200).json({ ok: true }));
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'ep_flat', path: '*', priceUsdc: 2 }],
+  }]);
+
+  billing = new MockSorobanBilling();
+  store = new InMemorySpendCounterStore();
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeys,
+      spendCaps: new ApiKeySpendCaps({ store, emit }),
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+  store.reset();
+  emit.mockClear();
+});
+
+async function call(apiKey: string): Promise<Response> {
+  const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/data`, {
+    headers: { 'x-api-key': apiKey },
+  });
+  await res.arrayBuffer();
+  return res;
+}
+
+/** Billing (and so spend recording) runs after the response has finished. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('API key spend caps', () => {
+  it('rejects calls once the daily budget has been spent', async () => {
+    for (let i = 0; i < 3; i += 1) {
+      expect((await call(CAPPED_KEY)).status).toBe(200);
+      await settle();
+    }
+
+    const rejected = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/data`, {
+      headers: { 'x-api-key': CAPPED_KEY },
+    });
+    const body = await rejected.json();
+
+    expect(rejected.status).toBe(429);
+    expect(body.error.code).toBe('API_KEY_SPEND_CAP_EXCEEDED');
+    expect(Number(rejected.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(94);
+  });
+
+  it('emits webhooks at 80% and 100% of the budget', async () => {
+    for (let i = 0; i < 3; i += 1) {
+      await call(CAPPED_KEY);
+      await settle();
+    }
+
+    const thresholds = emit.mock.calls.map(([event, developerId, data]) => [event, developerId, data.threshold]);
+    expect(thresholds).toEqual([
+      ['api_key.spend_cap.reached', DEVELOPER_ID, 80],
+      ['api_key.spend_cap.reached', DEVELOPER_ID, 100],
+    ]);
+  });
+
+  it('leaves keys without a budget unaffected', async () => {
+    for (let i = 0; i < 4; i += 1) {
+      expect((await call(UNCAPPED_KEY)).status).toBe(200);
+      await settle();
+    }
+
+    expect(emit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Integration tests — OpenAPI request validation in `/v1/call`.
+ *
+ * Verifies that:
+ *   - A call to an API without a document is forwarded unchecked.
+ *   - A call that does not match the API's document is rejected with
+ *     `400 REQUEST_SCHEMA_INVALID` explaining each violation, without the
+ *     upstream being called, a charge, or usage, and is counted in
+ *     `gateway_request_validation_failures_total`.
+ *   - A matching call's body is checked and still forwarded byte-for-byte.
+ *   - A new version of the document applies to the very next call.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { register } from '../metrics.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { ApiSpecService, InMemoryApiSpecStore, type OpenApiDocument } from '../services/apiSpecs.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'openapi-test-key';
+const DEVELOPER_ID = 'dev_openapi';
+const API_ID = 'api_openapi';
+const API_SLUG = 'openapi-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+const document: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Forecast API', version: '1.0.0' },
+  paths: {
+    '/forecast': {
+      get: {
+        parameters: [{ name: 'days', in: 'query', required: true, schema: { type: 'integer', maximum: 10 } }],
+        responses: { 200: { description: 'A forecast' } },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['city'],
+                properties: { city: { type: 'string', minLength: 2 } },
+              },
+            },
+          },
+        },
+        responses: { 200: { description: 'A forecast' } },
+      },
+    },
+  },
+};
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let received: { url: string; body: string } | null;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+let specStore: InMemoryApiSpecStore;
+let apiSpecs: ApiSpecService;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', express.text({ type: '*/*' }), (req, res) => {
+      received = { url: req.originalUrl, body: typeof req.body === 'string' ? req.body : '' };
+      res.json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'default', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling({ [DEVELOPER_ID]: 1000 });
+  usageStore = new InMemoryUsageStore();
+  specStore = new InMemoryApiSpecStore();
+  apiSpecs = new ApiSpecService(specStore);
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore,
+      registry,
+      apiKeys,
+      apiSpecs,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  received = null;
+  specStore.clear();
+  usageStore.clear();
+  billing.setBalance(DEVELOPER_ID, 1000);
+});
+
+function call(path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    ...init,
+    headers: { 'x-api-key': API_KEY, ...(init.headers as Record<string, string> | undefined) },
+  });
+}
+
+async function validationFailures(): Promise<number> {
+  const metric = register.getSingleMetric('gateway_request_validation_failures_total');
+  if (!metric) return 0;
+  const data = await (metric as { get: () => Promise<{ values: Array<{ labels: Record<string, string>; value: number }> }> }).get();
+  return data.values.find((v) => v.labels.api_id === API_ID)?.value ?? 0;
+}
+
+async function settle(): Promise<void> {
+  await new Promise((r) => setTimeout(r, 50));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('OpenAPI request validation', () => {
+  it('forwards calls unchecked when the API has no document', async () => {
+    const res = await call('/forecast?days=99');
+
+    expect(res.status).toBe(200);
+    expect(received!.url).toBe('/forecast');
+  });
+
+  it('rejects a call that breaks the document before the upstream or billing', async () => {
+    await apiSpecs.save(API_ID, document, 'provider');
+    const failuresBefore = await validationFailures();
+
+    const res = await call('/forecast?days=30');
+    const body = await res.json();
+    await settle();
+
+    expect(res.status).toBe(400);
+    expect(body.error.code).toBe('REQUEST_SCHEMA_INVALID');
+    expect(body.error.message).toContain('query.days must be <= 10');
+    expect(body.error.details).toEqual([{ field: 'query.days', message: 'must be <= 10', code: 'maximum' }]);
+    expect(received).toBeNull();
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(1000);
+    expect(usageStore.getEvents(API_KEY)).toHaveLength(0);
+    expect(await validationFailures()).toBe(failuresBefore + 1);
+  });
+
+  it('checks the body and forwards it unchanged when it matches', async () => {
+    await apiSpecs.save(API_ID, document, 'provider');
+
+    const invalid = await call('/forecast', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ city: 'X' }),
+    });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.details[0]).toMatchObject({ field: 'body.city', code: 'minLength' });
+    expect(received).toBeNull();
+
+    const raw = '{ "city": "Lagos" }';
+    const valid = await call('/forecast', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: raw,
+    });
+    await settle();
+
+    expect(valid.status).toBe(200);
+    expect(received!.body).toBe(raw);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(999);
+  });
+
+  it('applies a new version of the document to the next call', async () => {
+    await apiSpecs.save(API_ID, document, 'provider');
+    expect((await call('/forecast?days=12')).status).toBe(400);
+
+    const relaxed = structuredClone(document);
+    const get = (relaxed.paths as Record<string, { get: { parameters: Array<{ schema: Record<string, unknown> }> } }>)['/forecast'].get;
+    get.parameters[0].schema = { type: 'integer', maximum: 14 };
+    await apiSpecs.save(API_ID, relaxed, 'provider');
+
+    expect((await call('/forecast?days=12')).status).toBe(200);
+
+    await apiSpecs.remove(API_ID, 'provider');
+    expect((await call('/forecast?days=99')).status).toBe(200);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Integration tests — versioned API listings in `/v1/call`.
+ *
+ * Verifies that:
+ *   - `slug@version` calls are proxied to the version's base URL and billed
+ *     at the version's prices, while plain calls use the listing.
+ *   - A caller whose subscription is pinned to a version gets it without
+ *     naming it; naming another version still wins.
+ *   - Unknown versions are `404 API_VERSION_NOT_FOUND` and are not billed.
+ *   - Deprecated versions answer with `Deprecation`, `Sunset` and a
+ *     successor `Link`, and are `410 API_VERSION_SUNSET` once sunset.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { ApiVersionService, InMemoryApiVersionStore } from '../services/apiVersions.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'versions-test-key';
+const DEVELOPER_ID = 'dev_versions';
+const API_ID = 'api_versions';
+const API_SLUG = 'versions-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let received: string | null;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+let now: Date;
+const versionStore = new InMemoryApiVersionStore();
+const apiVersions = new ApiVersionService(versionStore, { now: () => now });
+const pinnedVersions = jest.fn<Promise<string | null>, [string, string]>();
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', (req, res) => {
+      received = req.originalUrl;
+      res.json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: `${upstreamUrl}/listing`,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'default', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling({ [DEVELOPER_ID]: 1000 });
+  usageStore = new InMemoryUsageStore();
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore,
+      registry,
+      apiKeys,
+      apiVersions,
+      pinnedVersions,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(async () => {
+  received = null;
+  usageStore.clear();
+  billing.setBalance(DEVELOPER_ID, 1000);
+  pinnedVersions.mockReset().mockResolvedValue(null);
+  now = new Date();
+  versionStore.clear();
+
+  for (const [version, price] of [['v1', '2'], ['v2', '3']]) {
+    await apiVersions.publish(API_ID, {
+      version,
+      baseUrl: `${upstreamUrl}/${version}`,
+      endpoints: [{ path: '/forecast', method: 'GET', price_per_call_usdc: price }],
+    }, 'provider');
+  }
+});
+
+function call(reference: string, path: string): Promise<Response> {
+  return fetch(`${proxyUrl}/v1/call/${reference}${path}`, { headers: { 'x-api-key': API_KEY } });
+}
+
+async function settle(): Promise<void> {
+  await new Promise((r) => setTimeout(r, 50));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('Versioned API listings', () => {
+  it('proxies slug@version calls to the version at its prices', async () => {
+    const versioned = await call(`${API_SLUG}@v2`, '/forecast');
+    await settle();
+
+    expect(versioned.status).toBe(200);
+    expect(received).toBe('/v2/forecast');
+    expect(versioned.headers.get('deprecation')).toBeNull();
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(997);
+
+    const listed = await call(API_SLUG, '/forecast');
+    await settle();
+
+    expect(listed.status).toBe(200);
+    expect(received).toBe('/listing/forecast');
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(996);
+  });
+
+  it('uses the subscription pin unless the call names a version', async () => {
+    pinnedVersions.mockResolvedValue('v1');
+
+    await call(API_SLUG, '/forecast');
+    expect(received).toBe('/v1/forecast');
+    expect(pinnedVersions).toHaveBeenCalledWith(DEVELOPER_ID, API_ID);
+
+    await call(`${API_SLUG}@v2`, '/forecast');
+    expect(received).toBe('/v2/forecast');
+  });
+
+  it('rejects unknown versions without billing', async () => {
+    const res = await call(`${API_SLUG}@v9`, '/forecast');
+    const body = await res.json();
+    await settle();
+
+    expect(res.status).toBe(404);
+    expect(body.error.code).toBe('API_VERSION_NOT_FOUND');
+    expect(received).toBeNull();
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(1000);
+    expect(usageStore.getEvents(API_KEY)).toHaveLength(0);
+  });
+
+  it('flags deprecated versions and refuses them once sunset', async () => {
+    const sunsetAt = new Date(now.getTime() + 86_400_000);
+    await apiVersions.deprecate(API_ID, 'v1', { sunsetAt, successor: 'v2' });
+
+    const deprecated = await call(`${API_SLUG}@v1`, '/forecast');
+    expect(deprecated.status).toBe(200);
+    expect(deprecated.headers.get('deprecation')).toBe('true');
+    expect(deprecated.headers.get('sunset')).toBe(sunsetAt.toISOString());
+    expect(deprecated.headers.get('link')).toBe(`</v1/call/${API_SLUG}@v2>; rel="successor-version"`);
+
+    now = sunsetAt;
+    received = null;
+    const gone = await call(`${API_SLUG}@v1`, '/forecast');
+    const body = await gone.json();
+
+    expect(gone.status).toBe(410);
+    expect(body.error.code).toBe('API_VERSION_SUNSET');
+    expect(body.error.message).toContain('use v2 instead');
+    expect(received).toBeNull();
+  });
+});
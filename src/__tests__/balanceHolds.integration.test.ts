@@ -0,0 +1,145 @@
+/**
+ * Integration tests — balance holds (authorise-then-capture) in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Concurrent calls cannot all pass the balance check and overdraw the
+ *     caller: each call holds its price until it has been charged.
+ *   - The hold is captured once the call is billed and released when the
+ *     call is not billed (non-recordable upstream status).
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { BalanceHoldService, InMemoryBalanceHoldStore } from '../services/balanceHolds.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'hold-test-key';
+const DEVELOPER_ID = 'dev_holds';
+const API_ID = 'api_holds';
+const API_SLUG = 'hold-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+let balanceHolds: BalanceHoldService;
+let upstreamCalls = 0;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    // /slow answers after a delay so calls overlap; /fail answers 500.
+    upstream.all('/:mode', (req, res) => {
+      upstreamCalls += 1;
+      if (req.params.mode === 'fail') {
+        res.status(500).json({ ok: false });
+        return;
+      }
+      setTimeout(() => res.status(200).json({ ok: true }), 100);
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'ep_flat', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling();
+  usageStore = new InMemoryUsageStore();
+  balanceHolds = new BalanceHoldService(new InMemoryBalanceHoldStore());
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore,
+      registry,
+      apiKeys,
+      balanceHolds,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  usageStore.clear();
+  billing.clear();
+  upstreamCalls = 0;
+});
+
+async function call(path: string): Promise<Response> {
+  const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    headers: { 'x-api-key': API_KEY },
+  });
+  await res.arrayBuffer();
+  return res;
+}
+
+/** Usage recording and billing run after the response has finished. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('balance holds', () => {
+  it('stops concurrent calls from overdrawing the balance', async () => {
+    billing.setBalance(DEVELOPER_ID, 2.5);
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () => call('/slow')));
+    await settle();
+
+    const statuses = responses.map((res) => res.status).sort();
+    expect(statuses).toEqual([200, 200, 402, 402, 402]);
+    expect(upstreamCalls).toBe(2);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(0.5);
+    expect(await balanceHolds.heldFor(DEVELOPER_ID)).toBe(0);
+  });
+
+  it('releases the hold when the call is not billed', async () => {
+    billing.setBalance(DEVELOPER_ID, 1);
+
+    const failed = await call('/fail');
+    await settle();
+
+    expect(failed.status).toBe(500);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(1);
+    expect(await balanceHolds.heldFor(DEVELOPER_ID)).toBe(0);
+    expect((await call('/slow')).status).toBe(200);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Integration tests — per-endpoint policy in `/v1/call`.
+ *
+ * Verifies that an endpoint's own limits are enforced with their own error
+ * codes, and that none of the rejected calls are billed:
+ *   - A method the endpoint does not accept gets 405 with an Allow header.
+ *   - A body over the endpoint's limit gets 413 ENDPOINT_REQUEST_BODY_TOO_LARGE.
+ *   - A slow upstream gets 504 ENDPOINT_TIMEOUT after the endpoint's timeout.
+ *   - A response over the endpoint's limit gets 502 ENDPOINT_RESPONSE_TOO_LARGE,
+ *     or has its connection cut when it was already being streamed.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'policy-test-key';
+const DEVELOPER_ID = 'dev_policy';
+const API_ID = '801';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+let upstreamCalls = 0;
+
+function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      const addr = server.address();
+      const port = addr && typeof addr === 'object' ? addr.port : 0;
+      resolve({ server, url: `http://localhost:${port}` });
+    });
+  });
+}
+
+beforeAll(async () => {
+  const upstream = express();
+  upstream.use((_req, _res, next) => {
+    upstreamCalls += 1;
+    next();
+  });
+  upstream.post('/uploads', express.raw({ type: '*/*' }), (req, res) => {
+    res.json({ received: (req.body as Buffer).length });
+  });
+  upstream.get('/slow', (_req, res) => {
+    setTimeout(() => res.json({ ok: true }), 500);
+  });
+  upstream.get('/large', (_req, res) => {
+    res.json({ data: 'x'.repeat(2_000) });
+  });
+  upstream.get('/large-stream', (_req, res) => {
+    res.type('text/plain');
+    res.write('x'.repeat(1_000));
+    setTimeout(() => res.end('x'.repeat(1_000)), 20);
+  });
+  const upstreamListening = await listen(upstream);
+  upstreamServer = upstreamListening.server;
+
+  const registry = new InMemoryApiRegistry([
+    {
+      id: API_ID,
+      slug: 'policy-api',
+      base_url: upstreamListening.url,
+      developerId: DEVELOPER_ID,
+      endpoints: [
+        {
+          endpointId: 'ep_uploads',
+          path: '/uploads',
+          method: 'POST',
+          priceUsdc: 1,
+          policy: { allowedMethods: ['POST'], maxRequestBodyBytes: 100 },
+        },
+        { endpointId: 'ep_slow', path: '/slow', priceUsdc: 1, policy: { timeoutMs: 100 } },
+        { endpointId: 'ep_large', path: '/large', priceUsdc: 1, policy: { maxResponseBytes: 500 } },
+        { endpointId: 'ep_default', path: '*', priceUsdc: 1 },
+      ],
+    },
+  ]);
+
+  billing = new MockSorobanBilling();
+
+  const app = express();
+  app.use('/v1/call', createProxyRouter({
+    billing,
+    rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+    usageStore: new InMemoryUsageStore(),
+    registry,
+    apiKeys,
+    proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+  }));
+  app.use(errorHandler);
+  const proxyListening = await listen(app);
+  proxyServer = proxyListening.server;
+  proxyUrl = proxyListening.url;
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+  upstreamCalls = 0;
+});
+
+function call(path: string, init: RequestInit = {}) {
+  return fetch(`${proxyUrl}/v1/call/policy-api${path}`, {
+    ...init,
+    headers: { 'x-api-key': API_KEY, ...init.headers },
+  });
+}
+
+async function errorCode(res: globalThis.Response): Promise<string | undefined> {
+  const body = await res.json() as { error?: { code?: string } };
+  return body.error?.code;
+}
+
+/** Billing runs after the response has finished. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('endpoint policy', () => {
+  it('forwards a call within the endpoint limits and bills it', async () => {
+    const res = await call('/uploads', { method: 'POST', body: 'x'.repeat(50) });
+    await settle();
+
+    expect(res.status).toBe(200);
+    await expect(res.json()).resolves.toEqual({ received: 50 });
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(99);
+  });
+
+  it('rejects a method the endpoint does not accept with 405 and Allow', async () => {
+    const res = await call('/uploads', { method: 'GET' });
+    await settle();
+
+    expect(res.status).toBe(405);
+    expect(res.headers.get('allow')).toBe('POST');
+    await expect(errorCode(res)).resolves.toBe('ENDPOINT_METHOD_NOT_ALLOWED');
+    expect(upstreamCalls).toBe(0);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(100);
+  });
+
+  it('rejects a body over the endpoint limit with 413', async () => {
+    const res = await call('/uploads', { method: 'POST', body: 'x'.repeat(101) });
+    await settle();
+
+    expect(res.status).toBe(413);
+    await expect(errorCode(res)).resolves.toBe('ENDPOINT_REQUEST_BODY_TOO_LARGE');
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(100);
+  });
+
+  it('times out after the endpoint timeout with 504', async () => {
+    const res = await call('/slow');
+    await settle();
+
+    expect(res.status).toBe(504);
+    await expect(errorCode(res)).resolves.toBe('ENDPOINT_TIMEOUT');
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(100);
+  });
+
+  it('rejects a response over the endpoint limit with 502', async () => {
+    const res = await call('/large');
+    await settle();
+
+    expect(res.status).toBe(502);
+    await expect(errorCode(res)).resolves.toBe('ENDPOINT_RESPONSE_TOO_LARGE');
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(100);
+  });
+
+  it('cuts off a streamed response once it passes the endpoint limit', async () => {
+    await expect(call('/large-stream').then((res) => res.text())).rejects.toThrow();
+    await settle();
+
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(100);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Integration tests — TOTP MFA through `/api/mfa` and `/api/admin/mfa`, and
+ * the step-up check on a sensitive admin operation (credit grants).
+ *
+ * Verifies that:
+ *   - A developer can enrol, confirm with a code and exchange a later code
+ *     for a step-up token; the step-up-gated routes refuse requests without it.
+ *   - Once an admin has MFA on, `POST /api/admin/billing/credits/grant` is
+ *     `403 MFA_STEP_UP_REQUIRED` until an `X-MFA-Token` is sent.
+ *   - Webhook secret rotation needs the signed-in owner of the webhook, and
+ *     their step-up, whatever developerId the request names.
+ *   - Code checks are throttled like the logins.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createMfaRouter } from '../routes/mfa.js';
+import { createAdminCreditGrantsRouter } from '../routes/admin/billing/credits/grant.js';
+import { createWebhooksRouter } from '../routes/webhooks.js';
+import { adminAuth } from '../middleware/adminAuth.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { InMemoryMfaStore, MfaService, resetMfaService, setMfaService } from '../services/mfa.js';
+import { totpCode, totpStep } from '../services/totp.js';
+import { deriveSecretBoxKey } from '../lib/secretBox.js';
+import type { CreditsRepository } from '../repositories/creditsRepository.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const ADMIN_KEY = process.env.ADMIN_API_KEY ?? 'test-admin-key';
+
+let now: Date;
+let creditsRepository: jest.Mocked<Pick<CreditsRepository, 'grant'>>;
+
+function buildApp(): express.Express {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/mfa', createMfaRouter({ authenticate: requireAuth }));
+  app.use('/api/webhooks', createWebhooksRouter());
+
+  const admin = express.Router();
+  admin.use(adminAuth);
+  admin.use('/mfa', createMfaRouter());
+  admin.use('/billing/credits', createAdminCreditGrantsRouter({
+    creditsRepository: creditsRepository as unknown as CreditsRepository,
+  }));
+  app.use('/api/admin', admin);
+
+  app.use(errorHandler);
+  return app;
+}
+
+/** The current code for `secret`, one TOTP step after the last one used. */
+function nextCode(secret: string): string {
+  now = new Date(now.getTime() + 30_000);
+  return totpCode(secret, totpStep(now));
+}
+
+async function enroll(app: express.Express, base: string, headers: Record<string, string>): Promise<string> {
+  const started = await request(app).post(`${base}/enroll`).set(headers);
+  expect(started.status).toBe(201);
+  const { secret } = started.body.data;
+
+  const confirmed = await request(app).post(`${base}/enroll/confirm`).set(headers).send({ code: nextCode(secret) });
+  expect(confirmed.status).toBe(200);
+  expect(confirmed.body.data.recoveryCodes).toHaveLength(10);
+  return secret;
+}
+
+beforeEach(() => {
+  now = new Date();
+  setMfaService(new MfaService({
+    store: new InMemoryMfaStore(),
+    encryptionKey: deriveSecretBoxKey('mfa-integration-key'),
+    stepUpSecret: 'mfa-integration-secret',
+    now: () => now,
+  }));
+  creditsRepository = {
+    grant: jest.fn().mockResolvedValue({
+      user_id: 'user_1',
+      balance_usdc: '14',
+      updated_at: new Date('2026-10-01T00:00:00Z'),
+    }),
+  };
+});
+
+afterAll(() => resetMfaService());
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('MFA', () => {
+  it('enrols a developer and gates MFA changes behind step-up', async () => {
+    const app = buildApp();
+    const developer = { 'x-user-id': 'dev_1' };
+
+    const started = await request(app).post('/api/mfa/enroll').set(developer);
+    expect(started.body.data.otpauthUri).toMatch(/^otpauth:\/\/totp\/Callora:dev_1\?secret=/);
+    const secret = started.body.data.secret;
+    await request(app).post('/api/mfa/enroll/confirm').set(developer).send({ code: nextCode(secret) }).expect(200);
+
+    const status = await request(app).get('/api/mfa').set(developer);
+    expect(status.body.data).toEqual({ enabled: true, pending: false, recoveryCodesRemaining: 10 });
+
+    const withoutStepUp = await request(app).delete('/api/mfa').set(developer);
+    expect(withoutStepUp.status).toBe(403);
+    expect(withoutStepUp.body.error.code).toBe('MFA_STEP_UP_REQUIRED');
+
+    const verified = await request(app).post('/api/mfa/verify').set(developer).send({ code: nextCode(secret) });
+    expect(verified.status).toBe(200);
+    await request(app)
+      .delete('/api/mfa')
+      .set({ ...developer, 'X-MFA-Token': verified.body.data.stepUpToken })
+      .expect(204);
+  });
+
+  it('requires step-up for credit grants once the admin has MFA on', async () => {
+    const app = buildApp();
+    const admin = { 'x-admin-api-key': ADMIN_KEY };
+    const grant = { user_id: 'user_1', amount_usdc: '10' };
+
+    // Without MFA the grant goes through as before.
+    await request(app).post('/api/admin/billing/credits/grant').set(admin).send(grant).expect(201);
+
+    const secret = await enroll(app, '/api/admin/mfa', admin);
+    const refused = await request(app).post('/api/admin/billing/credits/grant').set(admin).send(grant);
+    expect(refused.status).toBe(403);
+    expect(refused.body.error.code).toBe('MFA_STEP_UP_REQUIRED');
+    expect(creditsRepository.grant).toHaveBeenCalledTimes(1);
+
+    const verified = await request(app).post('/api/admin/mfa/verify').set(admin).send({ code: nextCode(secret) });
+    await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set({ ...admin, 'X-MFA-Token': verified.body.data.stepUpToken })
+      .send(grant)
+      .expect(201);
+
+    // A developer's step-up token does not count for the admin.
+    const devSecret = await enroll(app, '/api/mfa', { 'x-user-id': 'dev_1' });
+    const devToken = await request(app).post('/api/mfa/verify').set({ 'x-user-id': 'dev_1' }).send({ code: nextCode(devSecret) });
+    await request(app)
+      .post('/api/admin/billing/credits/grant')
+      .set({ ...admin, 'X-MFA-Token': devToken.body.data.stepUpToken })
+      .send(grant)
+      .expect(403);
+  });
+
+  it('steps up the signed-in developer before a webhook secret rotation', async () => {
+    const app = buildApp();
+    const owner = { 'x-user-id': 'dev_3' };
+    const secret = await enroll(app, '/api/mfa', owner);
+
+    const anonymous = await request(app).post('/api/webhooks/dev_3/rotate-secret');
+    expect(anonymous.status).toBe(401);
+
+    // Another developer, without MFA, cannot act on dev_3's webhook.
+    const other = await request(app).post('/api/webhooks/dev_3/rotate-secret').set({ 'x-user-id': 'dev_4' });
+    expect(other.status).toBe(403);
+    expect(other.body.error.code).toBe('FORBIDDEN');
+
+    const withoutStepUp = await request(app).post('/api/webhooks/dev_3/rotate-secret').set(owner);
+    expect(withoutStepUp.status).toBe(403);
+    expect(withoutStepUp.body.error.code).toBe('MFA_STEP_UP_REQUIRED');
+
+    const verified = await request(app).post('/api/mfa/verify').set(owner).send({ code: nextCode(secret) });
+    const steppedUp = await request(app)
+      .post('/api/webhooks/dev_3/rotate-secret')
+      .set({ ...owner, 'X-MFA-Token': verified.body.data.stepUpToken });
+    expect(steppedUp.status).toBe(404);
+    expect(steppedUp.body.error.code).toBe('WEBHOOK_NOT_FOUND');
+  });
+
+  it('rejects bad codes and throttles repeated attempts', async () => {
+    const app = buildApp();
+    const developer = { 'x-user-id': 'dev_2' };
+    await enroll(app, '/api/mfa', developer);
+
+    const malformed = await request(app).post('/api/mfa/verify').set(developer).send({ code: '12ab56' });
+    expect(malformed.status).toBe(400);
+
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt < 6; attempt += 1) {
+      const res = await request(app).post('/api/mfa/verify').set(developer).send({ recoveryCode: 'wrong-code' });
+      statuses.push(res.status);
+    }
+    expect(statuses).toContain(401);
+    expect(statuses[statuses.length - 1]).toBe(429);
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(buildApp()).get('/api/mfa');
+    expect(res.status).toBe(401);
+  });
+});
@@ -25,8 +25,10 @@ function createPersistentStoreHarness() {
       api_key_id VARCHAR(255) NOT NULL,
       api_key VARCHAR(255),
       amount_usdc NUMERIC NOT NULL,
+      units BIGINT,
       request_id VARCHAR(255) NOT NULL UNIQUE,
       status_code INTEGER NOT NULL DEFAULT 200,
+      test BOOLEAN NOT NULL DEFAULT FALSE,
       stellar_tx_hash VARCHAR(64),
       created_at TIMESTAMP NOT NULL DEFAULT NOW()
     );
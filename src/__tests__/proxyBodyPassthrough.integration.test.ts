@@ -0,0 +1,269 @@
+/**
+ * Integration tests — raw request body passthrough in the `/v1/call` proxy.
+ *
+ * Verifies that:
+ *   - Multipart, binary and form bodies reach the upstream byte-for-byte.
+ *   - Chunked (no Content-Length) uploads are streamed through.
+ *   - Bodies over `maxBodySize` are rejected with 413 and never billed.
+ *   - Oversized chunked uploads, over the gateway or the endpoint's own
+ *     limit, never count against the upstream's circuit breaker.
+ *   - Usage recording and billing are unchanged for non-JSON bodies.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { CircuitBreakerState, InMemoryCircuitBreakerStore } from '../lib/circuitBreaker.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'body-test-key';
+const DEVELOPER_ID = 'dev_body';
+const API_ID = 'api_body';
+const API_SLUG = 'body-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let received: { body: Buffer; headers: Record<string, string | string[] | undefined> } | null;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+let circuitBreakerStore: InMemoryCircuitBreakerStore;
+
+async function waitFor(predicate: () => boolean, timeoutMs = 1000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate() && Date.now() < deadline) {
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.use(express.raw({ type: () => true, limit: '10mb' }));
+    upstream.all('*', (req, res) => {
+      received = {
+        body: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+        headers: { ...req.headers },
+      };
+      res.status(200).json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [
+      { endpointId: 'capped', path: '/capped', priceUsdc: 1, policy: { maxRequestBodyBytes: 16 * 1024 } },
+      { endpointId: 'default', path: '*', priceUsdc: 1 },
+    ],
+  }]);
+
+  billing = new MockSorobanBilling({ [DEVELOPER_ID]: 1000 });
+  usageStore = new InMemoryUsageStore();
+  circuitBreakerStore = new InMemoryCircuitBreakerStore();
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore,
+      registry,
+      apiKeys,
+      circuitBreakerStore,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'], maxBodySize: '64kb' },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  received = null;
+  usageStore.clear();
+  billing.setBalance(DEVELOPER_ID, 1000);
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('proxy body passthrough', () => {
+  it('forwards a multipart upload byte-for-byte with its boundary intact', async () => {
+    const form = new FormData();
+    form.append('file', new Blob([randomBytes(2048)], { type: 'image/png' }), 'scan.png');
+    form.append('language', 'en');
+    const encoded = new Request('http://localhost', { method: 'POST', body: form });
+    const contentType = encoded.headers.get('content-type')!;
+    const raw = Buffer.from(await encoded.arrayBuffer());
+
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/ocr`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': contentType },
+      body: raw,
+    });
+
+    expect(res.status).toBe(200);
+    expect(received!.headers['content-type']).toBe(contentType);
+    expect(received!.body.equals(raw)).toBe(true);
+  });
+
+  it('forwards an octet-stream body unchanged', async () => {
+    const payload = randomBytes(4096);
+
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/audio`, {
+      method: 'PUT',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'application/octet-stream' },
+      body: payload,
+    });
+
+    expect(res.status).toBe(200);
+    expect(received!.body.equals(payload)).toBe(true);
+  });
+
+  it('forwards a url-encoded form body without re-encoding it as JSON', async () => {
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/form`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'a=1&b=two+words',
+    });
+
+    expect(res.status).toBe(200);
+    expect(received!.body.toString()).toBe('a=1&b=two+words');
+  });
+
+  it('streams a chunked body that has no Content-Length', async () => {
+    const chunks = [Buffer.from('first-'), Buffer.from('second-'), Buffer.from('third')];
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/stream`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'application/x-protobuf' },
+      body: stream,
+      duplex: 'half',
+    } as RequestInit);
+
+    expect(res.status).toBe(200);
+    expect(received!.body.toString()).toBe('first-second-third');
+  });
+
+  it('rejects a declared Content-Length over the limit with 413 without calling upstream', async () => {
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/upload`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'application/octet-stream' },
+      body: randomBytes(65 * 1024),
+    });
+
+    expect(res.status).toBe(413);
+    const body = await res.json();
+    expect(body.error.code).toBe('REQUEST_BODY_TOO_LARGE');
+    expect(received).toBeNull();
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(1000);
+  });
+
+  it('rejects a chunked body that crosses the limit mid-stream with 413', async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < 5; i++) controller.enqueue(randomBytes(16 * 1024));
+        controller.close();
+      },
+    });
+
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/upload`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'application/octet-stream' },
+      body: stream,
+      duplex: 'half',
+    } as RequestInit);
+
+    expect(res.status).toBe(413);
+    await new Promise((r) => setTimeout(r, 50));
+    expect(usageStore.getEvents()).toHaveLength(0);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(1000);
+  });
+
+  it.each([
+    ['the gateway body limit', '/upload', 'REQUEST_BODY_TOO_LARGE'],
+    ["the endpoint's body limit", '/capped', 'ENDPOINT_REQUEST_BODY_TOO_LARGE'],
+  ])('keeps the breaker closed through repeated chunked uploads over %s', async (_limit, path, code) => {
+    const oversized = () => new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < 5; i++) controller.enqueue(randomBytes(16 * 1024));
+        controller.close();
+      },
+    });
+
+    for (let i = 0; i < 7; i++) {
+      const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+        method: 'POST',
+        headers: { 'x-api-key': API_KEY, 'content-type': 'application/octet-stream' },
+        body: oversized(),
+        duplex: 'half',
+      } as RequestInit);
+
+      expect(res.status).toBe(413);
+      expect(((await res.json()) as { error?: { code?: string } }).error?.code).toBe(code);
+    }
+
+    expect((await circuitBreakerStore.get(API_ID))?.state ?? CircuitBreakerState.CLOSED)
+      .toBe(CircuitBreakerState.CLOSED);
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'application/octet-stream' },
+      body: Buffer.from('ok'),
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it('records usage and bills a binary upload exactly like a JSON call', async () => {
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/audio`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'audio/wav' },
+      body: randomBytes(1024),
+    });
+    await res.arrayBuffer();
+
+    await waitFor(() => usageStore.getEvents().length === 1);
+    const events = usageStore.getEvents(API_KEY);
+    expect(events).toHaveLength(1);
+    expect(events[0].statusCode).toBe(200);
+    await waitFor(() => billing.getBalance(DEVELOPER_ID) === 999);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(999);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Integration tests — retries and hedged requests in `/v1/call`.
+ *
+ * Verifies that:
+ *   - An idempotent call that gets a 503 is retried, billed once and reports
+ *     its attempts in `X-Callora-Attempts`.
+ *   - A POST is retried only when it carries an Idempotency-Key, and its
+ *     body is sent again unchanged.
+ *   - A connection error moves the call to the API's next origin.
+ *   - A slow call to a hedging API is answered by the hedged request.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { OriginBalancer } from '../services/upstreamOrigins.js';
+import { RetryBudget, UpstreamLatencyTracker } from '../services/proxyRetry.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'retry-test-key';
+const DEVELOPER_ID = 'dev_retry';
+const API_ID = '701';
+const FAILOVER_API_ID = '702';
+const HEDGED_API_ID = '703';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let deadUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+const latencyTracker = new UpstreamLatencyTracker();
+const retryBudget = new RetryBudget({ ratio: 0, minPerWindow: 100, windowMs: 60_000 });
+let upstreamCalls = 0;
+let receivedBodies: unknown[] = [];
+
+function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      const addr = server.address();
+      const port = addr && typeof addr === 'object' ? addr.port : 0;
+      resolve({ server, url: `http://localhost:${port}` });
+    });
+  });
+}
+
+beforeAll(async () => {
+  const upstream = express();
+  upstream.use(express.json());
+  // Fails the first request of each test with a 503.
+  upstream.all('/flaky', (req, res) => {
+    upstreamCalls += 1;
+    receivedBodies.push(req.body);
+    if (upstreamCalls === 1) {
+      res.status(503).json({ error: 'warming up' });
+      return;
+    }
+    res.json({ call: upstreamCalls });
+  });
+  // Answers the first request of each test slowly.
+  upstream.get('/slow', (_req, res) => {
+    upstreamCalls += 1;
+    const call = upstreamCalls;
+    setTimeout(() => res.json({ call }), call === 1 ? 1_000 : 0);
+  });
+  upstream.all('*', (_req, res) => {
+    upstreamCalls += 1;
+    res.json({ call: upstreamCalls });
+  });
+  ({ server: upstreamServer, url: upstreamUrl } = await listen(upstream));
+
+  const dead = await listen(express());
+  deadUrl = dead.url;
+  await new Promise<void>((resolve) => dead.server.close(() => resolve()));
+
+  const endpoints = [{ endpointId: 'ep_default', path: '*', priceUsdc: 1 }];
+  const registry = new InMemoryApiRegistry([
+    { id: API_ID, slug: 'retry-api', base_url: upstreamUrl, developerId: DEVELOPER_ID, endpoints },
+    {
+      id: FAILOVER_API_ID,
+      slug: 'retry-failover-api',
+      base_url: upstreamUrl,
+      origins: [
+        { id: 'dead', url: deadUrl, weight: 2 },
+        { id: 'live', url: upstreamUrl, weight: 1 },
+      ],
+      developerId: DEVELOPER_ID,
+      endpoints,
+    },
+    {
+      id: HEDGED_API_ID,
+      slug: 'retry-hedged-api',
+      base_url: upstreamUrl,
+      retry: { maxAttempts: 1, hedge: true },
+      developerId: DEVELOPER_ID,
+      endpoints,
+    },
+  ]);
+
+  billing = new MockSorobanBilling();
+  usageStore = new InMemoryUsageStore();
+
+  const app = express();
+  app.use('/v1/call', createProxyRouter({
+    billing,
+    rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+    usageStore,
+    registry,
+    apiKeys: new Map([...apiKeys, ...[FAILOVER_API_ID, HEDGED_API_ID].map((apiId) => {
+      const key = `${API_KEY}-${apiId}`;
+      return [key, { key, developerId: DEVELOPER_ID, apiId }] as [string, ApiKey];
+    })]),
+    originBalancer: new OriginBalancer(),
+    retryBudget,
+    latencyTracker,
+    proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+  }));
+  app.use(errorHandler);
+  ({ server: proxyServer, url: proxyUrl } = await listen(app));
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+  retryBudget.reset();
+  latencyTracker.reset();
+  upstreamCalls = 0;
+  receivedBodies = [];
+});
+
+async function call(slug: string, path: string, init: RequestInit = {}, key = API_KEY) {
+  const res = await fetch(`${proxyUrl}/v1/call/${slug}${path}`, {
+    ...init,
+    headers: { 'x-api-key': key, ...init.headers },
+  });
+  return { status: res.status, attempts: res.headers.get('x-callora-attempts'), body: await res.json() };
+}
+
+/** Billing runs after the response has finished. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('proxy retries', () => {
+  it('retries a 503 and bills the call once', async () => {
+    const res = await call('retry-api', '/flaky');
+    await settle();
+
+    expect(res).toEqual({ status: 200, attempts: '2', body: { call: 2 } });
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(99);
+    expect((await usageStore.getEvents(API_KEY)).filter((event) => event.statusCode === 200)).toHaveLength(1);
+  });
+
+  it('retries a POST only when it carries an Idempotency-Key', async () => {
+    const post = (headers: Record<string, string>) => call('retry-api', '/flaky', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify({ amount: 5 }),
+    });
+
+    const plain = await post({});
+    expect(plain).toEqual({ status: 503, attempts: '1', body: { error: 'warming up' } });
+
+    upstreamCalls = 0;
+    receivedBodies = [];
+    const keyed = await post({ 'idempotency-key': 'order-1' });
+    expect(keyed).toEqual({ status: 200, attempts: '2', body: { call: 2 } });
+    expect(receivedBodies).toEqual([{ amount: 5 }, { amount: 5 }]);
+  });
+
+  it('moves a call to the next origin after a connection error', async () => {
+    const res = await call('retry-failover-api', '/anything', {}, `${API_KEY}-${FAILOVER_API_ID}`);
+
+    expect(res).toEqual({ status: 200, attempts: '2', body: { call: 1 } });
+  });
+
+  it('answers a slow call from the hedged request', async () => {
+    for (let i = 0; i < 20; i++) latencyTracker.record(HEDGED_API_ID, 20);
+
+    const res = await call('retry-hedged-api', '/slow', {}, `${API_KEY}-${HEDGED_API_ID}`);
+    await settle();
+
+    expect(res).toEqual({ status: 200, attempts: '2', body: { call: 2 } });
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(99);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Integration tests — signed requests in `/v1/call`.
+ *
+ * Verifies that:
+ *   - A key in 'signed' mode is accepted with a valid signature, and its
+ *     body reaches the upstream unchanged, without the signing headers.
+ *   - The same key sent as a bearer secret is rejected.
+ *   - Replayed, stale and tampered requests are rejected and never proxied.
+ *   - A key in 'bearer' mode does not accept signatures.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { apiKeyRepository, InMemoryApiKeyRepository } from '../repositories/apiKeyRepository.js';
+import { InMemoryRequestNonceStore, signRequest } from '../services/requestSigning.js';
+import type { ApiKeyAuthMode } from '../services/requestSigning.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const DEVELOPER_ID = 'dev_signing';
+const CONSUMER_ID = 'consumer_signing';
+const API_ID = '401';
+const API_SLUG = 'signing-test-api';
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+interface UpstreamCall {
+  method: string;
+  path: string;
+  body: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+const upstreamCalls: UpstreamCall[] = [];
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.use(express.text({ type: '*/*' }));
+    upstream.all('*', (req, res) => {
+      upstreamCalls.push({
+        method: req.method,
+        path: req.originalUrl,
+        body: typeof req.body === 'string' ? req.body : '',
+        headers: req.headers,
+      });
+      res.status(200).json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'ep_free', path: '*', priceUsdc: 0 }],
+  }]);
+
+  const billing = new MockSorobanBilling();
+  billing.setBalance(CONSUMER_ID, 100);
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeyRepository: new InMemoryApiKeyRepository(),
+      requestNonceStore: new InMemoryRequestNonceStore(),
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  apiKeyRepository.clear();
+  upstreamCalls.length = 0;
+});
+
+function issueKey(authMode: ApiKeyAuthMode): string {
+  return apiKeyRepository.create({
+    apiId: API_ID,
+    userId: CONSUMER_ID,
+    scopes: ['*'],
+    rateLimitPerMinute: null,
+    authMode,
+  }).key;
+}
+
+const PATH = `/v1/call/${API_SLUG}/orders?dry=1`;
+
+async function send(method: string, headers: Record<string, string>, body?: string) {
+  const res = await fetch(`${proxyUrl}${PATH}`, { method, headers, body });
+  const json = await res.json();
+  return { status: res.status, code: json.error?.code as string | undefined };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('signed requests', () => {
+  it('accepts a signed request and forwards the body without the signing headers', async () => {
+    const apiKey = issueKey('signed');
+    const body = JSON.stringify({ item: 'book' });
+    const headers = signRequest({ apiKey, method: 'POST', path: PATH, body });
+
+    const res = await send('POST', { ...headers, 'content-type': 'application/json' }, body);
+
+    expect(res.status).toBe(200);
+    expect(upstreamCalls).toHaveLength(1);
+    expect(upstreamCalls[0]).toEqual(expect.objectContaining({ method: 'POST', path: '/orders', body }));
+    expect(Object.keys(upstreamCalls[0].headers).filter((name) => name.startsWith('x-callora-')))
+      .toEqual([]);
+  });
+
+  it('rejects the key as a bearer secret when it only accepts signed requests', async () => {
+    const apiKey = issueKey('signed');
+
+    await expect(send('GET', { 'x-api-key': apiKey }))
+      .resolves.toEqual({ status: 401, code: 'API_KEY_AUTH_MODE_MISMATCH' });
+  });
+
+  it('rejects replayed, stale and tampered requests', async () => {
+    const apiKey = issueKey('both');
+    const headers = signRequest({ apiKey, method: 'GET', path: PATH });
+
+    await expect(send('GET', headers)).resolves.toEqual({ status: 200, code: undefined });
+    await expect(send('GET', headers)).resolves.toEqual({ status: 401, code: 'REQUEST_SIGNATURE_REPLAYED' });
+
+    const stale = signRequest({ apiKey, method: 'GET', path: PATH, timestamp: new Date(Date.now() - 10 * 60_000) });
+    await expect(send('GET', stale)).resolves.toEqual({ status: 401, code: 'REQUEST_TIMESTAMP_OUT_OF_WINDOW' });
+
+    const signedBody = signRequest({ apiKey, method: 'POST', path: PATH, body: '{"amount":1}' });
+    await expect(send('POST', signedBody, '{"amount":1000}'))
+      .resolves.toEqual({ status: 401, code: 'REQUEST_SIGNATURE_INVALID' });
+
+    expect(upstreamCalls).toHaveLength(1);
+  });
+
+  it('does not accept signatures for bearer-only keys', async () => {
+    const apiKey = issueKey('bearer');
+
+    await expect(send('GET', signRequest({ apiKey, method: 'GET', path: PATH })))
+      .resolves.toEqual({ status: 401, code: 'API_KEY_AUTH_MODE_MISMATCH' });
+    await expect(send('GET', { 'x-api-key': apiKey })).resolves.toEqual({ status: 200, code: undefined });
+  });
+});
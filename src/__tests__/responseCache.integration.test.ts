@@ -0,0 +1,179 @@
+/**
+ * Integration tests — gateway response cache in `/v1/call`.
+ *
+ * Verifies that:
+ *   - A GET to a cache-enabled endpoint is forwarded once (MISS) and then
+ *     replayed from the cache (HIT) at the policy's hit price.
+ *   - Vary headers select separate entries.
+ *   - Upstream `Cache-Control: no-store` and caller `no-cache` are respected.
+ *   - Purging an API sends its next call back to the upstream.
+ *   - Endpoints without a cache policy carry no cache header.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { InMemoryResponseCache } from '../services/responseCache.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'cache-test-key';
+const DEVELOPER_ID = 'dev_cache';
+const API_ID = '501';
+const API_SLUG = 'cache-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+const responseCache = new InMemoryResponseCache({ maxBytes: 1_000_000, maxEntryBytes: 10_000 });
+let upstreamCalls = 0;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.get('/rates', (req, res) => {
+      upstreamCalls += 1;
+      res.set('vary', 'Accept-Language');
+      res.json({ call: upstreamCalls, language: req.get('accept-language') ?? null });
+    });
+    upstream.get('/live', (_req, res) => {
+      upstreamCalls += 1;
+      res.set('cache-control', 'no-store');
+      res.json({ call: upstreamCalls });
+    });
+    upstream.all('*', (_req, res) => {
+      upstreamCalls += 1;
+      res.json({ call: upstreamCalls });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [
+      {
+        endpointId: 'ep_rates',
+        path: '/rates',
+        priceUsdc: 1,
+        cache: { ttlSeconds: 60, varyHeaders: ['Accept-Language'], hitPriceUsdc: 0.25 },
+      },
+      { endpointId: 'ep_live', path: '/live', priceUsdc: 1, cache: { ttlSeconds: 60 } },
+      { endpointId: 'ep_default', path: '*', priceUsdc: 1 },
+    ],
+  }]);
+
+  billing = new MockSorobanBilling();
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeys,
+      responseCache,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+  responseCache.reset();
+  upstreamCalls = 0;
+});
+
+async function call(path: string, headers: Record<string, string> = {}) {
+  const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    headers: { 'x-api-key': API_KEY, ...headers },
+  });
+  return { status: res.status, cache: res.headers.get('x-callora-cache'), body: await res.json() };
+}
+
+/** Billing runs after the response has finished. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('gateway response cache', () => {
+  it('serves repeat calls from the cache and bills hits at the hit price', async () => {
+    const miss = await call('/rates');
+    const hit = await call('/rates');
+    await settle();
+
+    expect(miss).toEqual({ status: 200, cache: 'MISS', body: { call: 1, language: '*' } });
+    expect(hit).toEqual({ status: 200, cache: 'HIT', body: { call: 1, language: '*' } });
+    expect(upstreamCalls).toBe(1);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(98.75);
+  });
+
+  it('keeps a separate entry per vary header value', async () => {
+    await call('/rates', { 'accept-language': 'en' });
+    const french = await call('/rates', { 'accept-language': 'fr' });
+    const english = await call('/rates', { 'accept-language': 'en' });
+
+    expect(french).toEqual(expect.objectContaining({ cache: 'MISS', body: { call: 2, language: 'fr' } }));
+    expect(english).toEqual(expect.objectContaining({ cache: 'HIT', body: { call: 1, language: 'en' } }));
+  });
+
+  it('respects upstream no-store and caller no-cache', async () => {
+    await call('/live');
+    const live = await call('/live');
+    expect(live).toEqual(expect.objectContaining({ cache: 'MISS', body: { call: 2 } }));
+
+    await call('/rates');
+    const refreshed = await call('/rates', { 'cache-control': 'no-cache' });
+    const cached = await call('/rates');
+    expect(refreshed).toEqual(expect.objectContaining({ cache: 'MISS', body: { call: 4, language: '*' } }));
+    expect(cached).toEqual(expect.objectContaining({ cache: 'HIT', body: { call: 4, language: '*' } }));
+  });
+
+  it('goes back to the upstream once the API is purged', async () => {
+    await call('/rates');
+    expect(responseCache.purgeApi(API_ID)).toBe(1);
+
+    await expect(call('/rates')).resolves.toEqual(expect.objectContaining({ cache: 'MISS', body: { call: 2, language: '*' } }));
+  });
+
+  it('leaves endpoints without a cache policy alone', async () => {
+    await call('/other');
+    const res = await call('/other');
+
+    expect(res).toEqual({ status: 200, cache: null, body: { call: 2 } });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Integration tests — sandbox mode for test-mode keys in `/v1/call`.
+ *
+ * Verifies that:
+ *   - A test key is answered by the provider's matching fixture, or proxied
+ *     to the sandbox base URL, and never reaches the live upstream.
+ *   - Test calls are neither balance-checked nor billed, and their usage is
+ *     recorded flagged `test` at no charge, outside the unsettled events.
+ *   - Test keys have their own rate limit.
+ *   - A test call the sandbox cannot answer fails with 404.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { InMemorySandboxStore, SANDBOX_HEADER, SandboxService } from '../services/sandbox.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const LIVE_KEY = 'ck_live_sandbox_live_key';
+const TEST_KEY = 'ck_test_sandbox_test_key';
+const LIMITED_TEST_KEY = 'ck_test_sandbox_limited';
+const DEVELOPER_ID = 'dev_sandbox';
+const API_ID = 'api_sandbox';
+const API_SLUG = 'sandbox-api';
+const SANDBOX_LIMIT = 5;
+
+const apiKeys = new Map<string, ApiKey>(
+  [LIVE_KEY, TEST_KEY, LIMITED_TEST_KEY].map((key) => [key, { key, developerId: DEVELOPER_ID, apiId: API_ID }]),
+);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let liveServer: Server;
+let sandboxServer: Server;
+let proxyServer: Server;
+let liveUrl: string;
+let sandboxUrl: string;
+let proxyUrl: string;
+
+let liveCalls = 0;
+let sandboxCalls = 0;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+let sandboxStore: InMemorySandboxStore;
+let sandboxes: SandboxService;
+
+function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      const addr = server.address();
+      resolve({ server, url: `http://localhost:${addr && typeof addr === 'object' ? addr.port : 0}` });
+    });
+  });
+}
+
+beforeAll(async () => {
+  const live = express();
+  live.all('*', (_req, res) => {
+    liveCalls += 1;
+    res.json({ from: 'live' });
+  });
+  ({ server: liveServer, url: liveUrl } = await listen(live));
+
+  const sandbox = express();
+  sandbox.all('*', (req, res) => {
+    sandboxCalls += 1;
+    res.json({ from: 'sandbox', path: req.path });
+  });
+  ({ server: sandboxServer, url: sandboxUrl } = await listen(sandbox));
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: liveUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'default', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling();
+  usageStore = new InMemoryUsageStore();
+  sandboxStore = new InMemorySandboxStore();
+  sandboxes = new SandboxService(sandboxStore);
+
+  const app = express();
+  app.use('/v1/call', createProxyRouter({
+    billing,
+    rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+    sandboxRateLimiter: new InMemoryRateLimiter(SANDBOX_LIMIT, 60_000),
+    usageStore,
+    registry,
+    apiKeys,
+    sandboxes,
+    proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+  }));
+  app.use(errorHandler);
+  ({ server: proxyServer, url: proxyUrl } = await listen(app));
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => sandboxServer.close(() => r()));
+  await new Promise<void>((r) => liveServer.close(() => r()));
+});
+
+beforeEach(() => {
+  liveCalls = 0;
+  sandboxCalls = 0;
+  billing.clear();
+  usageStore.clear();
+  sandboxStore.clear();
+});
+
+function call(path: string, apiKey = TEST_KEY, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    ...init,
+    headers: { 'x-api-key': apiKey },
+  });
+}
+
+/** Usage is recorded after the response has been sent. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('test-mode keys', () => {
+  it('answers with the matching fixture without calling either upstream', async () => {
+    await sandboxes.addFixture(API_ID, {
+      method: 'GET',
+      path: '/forecast',
+      status: 201,
+      headers: { 'x-example': 'yes' },
+      body: { temperature: 21 },
+    }, 'owner');
+
+    const res = await call('/forecast/today');
+
+    expect(res.status).toBe(201);
+    expect(res.headers.get(SANDBOX_HEADER)).toBe('fixture');
+    expect(res.headers.get('x-example')).toBe('yes');
+    expect(await res.json()).toEqual({ temperature: 21 });
+    expect(liveCalls).toBe(0);
+    expect(sandboxCalls).toBe(0);
+  });
+
+  it('proxies calls without a fixture to the sandbox base URL', async () => {
+    await sandboxStore.put({ apiId: API_ID, baseUrl: sandboxUrl, fixtures: [], updatedAt: null, updatedBy: null });
+
+    const res = await call('/forecast');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get(SANDBOX_HEADER)).toBe('upstream');
+    expect(await res.json()).toEqual({ from: 'sandbox', path: '/forecast' });
+    expect(liveCalls).toBe(0);
+    expect(sandboxCalls).toBe(1);
+  });
+
+  it('needs no balance and records free usage flagged test', async () => {
+    await sandboxes.addFixture(API_ID, { path: '*', status: 200, body: 'ok' }, 'owner');
+
+    const res = await call('/anything', TEST_KEY, { method: 'POST' });
+    await settle();
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('ok');
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(0);
+    const events = usageStore.getEvents(TEST_KEY);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ amountUsdc: 0, test: true, statusCode: 200 });
+    expect(usageStore.getUnsettledEvents()).toHaveLength(0);
+  });
+
+  it('fails with 404 when the sandbox has no answer', async () => {
+    const res = await call('/forecast');
+
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe('SANDBOX_RESPONSE_NOT_FOUND');
+    expect(liveCalls).toBe(0);
+  });
+
+  it('rate limits test keys separately', async () => {
+    await sandboxes.addFixture(API_ID, { path: '*', status: 200, body: 'ok' }, 'owner');
+
+    for (let i = 0; i < SANDBOX_LIMIT; i += 1) {
+      expect((await call('/a', LIMITED_TEST_KEY)).status).toBe(200);
+    }
+    const limited = await call('/a', LIMITED_TEST_KEY);
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).not.toBeNull();
+  });
+});
+
+describe('live keys', () => {
+  it('still reach the live upstream and are billed', async () => {
+    billing.setBalance(DEVELOPER_ID, 10);
+    await sandboxes.addFixture(API_ID, { path: '*', status: 200, body: 'ok' }, 'owner');
+
+    const res = await call('/forecast', LIVE_KEY);
+    await settle();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get(SANDBOX_HEADER)).toBeNull();
+    expect(await res.json()).toEqual({ from: 'live' });
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(9);
+    expect(usageStore.getEvents(LIVE_KEY)[0].test).toBeUndefined();
+  });
+});
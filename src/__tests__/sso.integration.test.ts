@@ -0,0 +1,137 @@
+/**
+ * Integration tests — OIDC single sign-on through `/api/auth/sso` against
+ * the stub identity provider in tests/helpers.
+ *
+ * Verifies that:
+ *   - The authorize → provider → callback round trip issues a Callora token
+ *     pair for the user the identity resolves to.
+ *   - A replayed callback is `401 SSO_STATE_INVALID` and starts no session.
+ *   - Callbacks are validated, and SSO answers `503 SSO_NOT_CONFIGURED`
+ *     when no provider is configured.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { createAuthRouter } from '../routes/auth.js';
+import { AuthController } from '../controllers/authController.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { RefreshTokenService } from '../services/refreshTokenService.js';
+import { InMemoryOidcLoginStore, OidcService } from '../services/oidc.js';
+import type { RefreshTokenRepository } from '../repositories/refreshTokenRepository.js';
+import type { SsoAccountRepository } from '../repositories/ssoAccountRepository.js';
+import { TEST_JWT_SECRET } from '../../tests/helpers/jwt.js';
+import { startStubIdp, type StubIdp } from '../../tests/helpers/oidcStubIdp.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const CLIENT_ID = 'callora-test';
+
+let idp: StubIdp;
+let ssoAccounts: jest.Mocked<SsoAccountRepository>;
+let refreshTokenRepository: jest.Mocked<Pick<RefreshTokenRepository, 'createRefreshToken'>>;
+
+function buildApp(sso?: OidcService): express.Express {
+  const authController = new AuthController({
+    refreshTokenService: new RefreshTokenService({
+      jwtSecret: TEST_JWT_SECRET,
+      accessTokenExpiry: '15m',
+      refreshTokenExpiry: '7d',
+    }),
+    refreshTokenRepository: refreshTokenRepository as unknown as RefreshTokenRepository,
+    sso,
+    ssoAccounts,
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', createAuthRouter({ authController }));
+  app.use(errorHandler);
+  return app;
+}
+
+function stubSso(): OidcService {
+  return new OidcService({
+    providers: [{ id: 'stub', issuer: idp.issuer, clientId: CLIENT_ID, redirectUri: 'http://localhost:5173/sso/stub' }],
+    logins: new InMemoryOidcLoginStore(),
+  });
+}
+
+beforeAll(async () => {
+  idp = await startStubIdp({
+    clientId: CLIENT_ID,
+    user: { sub: 'idp-user-1', email: 'ada@example.com', email_verified: true },
+  });
+});
+
+afterAll(() => idp.close());
+
+beforeEach(() => {
+  ssoAccounts = { resolveUser: jest.fn().mockResolvedValue({ userId: 'user_42', outcome: 'linked' }) };
+  refreshTokenRepository = { createRefreshToken: jest.fn().mockImplementation(async (token) => token) };
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('OIDC single sign-on', () => {
+  it('signs in through the provider and issues a token pair', async () => {
+    const app = buildApp(stubSso());
+
+    const providers = await request(app).get('/api/auth/sso/providers');
+    expect(providers.body.data.providers).toEqual([{ id: 'stub', name: 'stub' }]);
+
+    const authorize = await request(app).get('/api/auth/sso/stub/authorize');
+    expect(authorize.status).toBe(200);
+    const callback = await idp.authorize(authorize.body.data.authorizationUrl);
+    expect(callback.state).toBe(authorize.body.data.state);
+
+    const login = await request(app).post('/api/auth/sso/stub/callback').send(callback);
+
+    expect(login.status).toBe(200);
+    expect(login.body.data.tokenType).toBe('Bearer');
+    expect(jwt.verify(login.body.data.accessToken, TEST_JWT_SECRET)).toMatchObject({ userId: 'user_42', type: 'access' });
+    expect(ssoAccounts.resolveUser).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'stub',
+      subject: 'idp-user-1',
+      email: 'ada@example.com',
+      emailVerified: true,
+    }));
+    expect(refreshTokenRepository.createRefreshToken).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user_42' }));
+  });
+
+  it('refuses a replayed callback', async () => {
+    const app = buildApp(stubSso());
+    const authorize = await request(app).get('/api/auth/sso/stub/authorize');
+    const callback = await idp.authorize(authorize.body.data.authorizationUrl);
+
+    await request(app).post('/api/auth/sso/stub/callback').send(callback).expect(200);
+    const replay = await request(app).post('/api/auth/sso/stub/callback').send(callback);
+
+    expect(replay.status).toBe(401);
+    expect(replay.body.error.code).toBe('SSO_STATE_INVALID');
+    expect(ssoAccounts.resolveUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('validates the callback body and unknown providers', async () => {
+    const app = buildApp(stubSso());
+
+    const missing = await request(app).post('/api/auth/sso/stub/callback').send({ code: 'abc' });
+    expect(missing.status).toBe(400);
+    expect(missing.body.error.code).toBe('VALIDATION_ERROR');
+
+    const unknown = await request(app).get('/api/auth/sso/nope/authorize');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.error.code).toBe('SSO_PROVIDER_NOT_FOUND');
+  });
+
+  it('answers 503 when SSO is not configured', async () => {
+    const app = buildApp();
+
+    const providers = await request(app).get('/api/auth/sso/providers');
+    expect(providers.body.data.providers).toEqual([]);
+
+    const authorize = await request(app).get('/api/auth/sso/stub/authorize');
+    expect(authorize.status).toBe(503);
+    expect(authorize.body.error.code).toBe('SSO_NOT_CONFIGURED');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Integration tests — WebSocket and event-stream passthrough in `/v1/call`.
+ *
+ * Verifies that:
+ *   - An event stream from a streaming endpoint stays open, is billed per
+ *     metering interval for the events it carried, and writes a usage event
+ *     per interval.
+ *   - An event stream is ended with a `callora.close` event (code 4402) once
+ *     the caller's balance runs out.
+ *   - A WebSocket upgrade is authenticated, relayed to the upstream in both
+ *     directions and metered, and closed with 4402 once the balance runs out.
+ *   - Upgrades to endpoints without streaming pricing, and without an API
+ *     key, are refused before the upstream is called.
+ */
+
+import express from 'express';
+import http, { type Server } from 'node:http';
+import type { Socket } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { createHash } from 'node:crypto';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { routeUpgradesThrough } from '../lib/websocket.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'stream-test-key';
+const DEVELOPER_ID = 'dev_stream';
+const API_ID = '901';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// ── Minimal WebSocket framing for the test client and upstream ───────────────
+
+/** A text frame; client frames are masked, here with a zero key. */
+function textFrame(text: string, masked: boolean): Buffer {
+  const payload = Buffer.from(text);
+  return Buffer.concat([
+    Buffer.from([0x81, (masked ? 0x80 : 0) | payload.length]),
+    masked ? Buffer.alloc(4) : Buffer.alloc(0),
+    payload,
+  ]);
+}
+
+interface Frame {
+  opcode: number;
+  payload: Buffer;
+}
+
+/** Reads the small, whole frames these tests exchange. */
+function readFrames(bytes: Buffer): Frame[] {
+  const frames: Frame[] = [];
+  let offset = 0;
+  while (offset + 2 <= bytes.length) {
+    const masked = (bytes[offset + 1] & 0x80) !== 0;
+    const length = bytes[offset + 1] & 0x7f;
+    const start = offset + 2 + (masked ? 4 : 0);
+    frames.push({ opcode: bytes[offset] & 0x0f, payload: bytes.subarray(start, start + length) });
+    offset = start + length;
+  }
+  return frames;
+}
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let proxyServer: Server;
+let proxyPort: number;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+let upstreamUpgrades = 0;
+const openSockets = new Set<Duplex>();
+
+function listen(server: Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, () => {
+      const addr = server.address();
+      resolve(addr && typeof addr === 'object' ? addr.port : 0);
+    });
+  });
+}
+
+beforeAll(async () => {
+  const upstream = express();
+  // Sends an event every 20 ms until the client goes away.
+  upstream.get('/feed', (req, res) => {
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+    res.write(': connected\n\n');
+    let n = 0;
+    const timer = setInterval(() => res.write(`data: ${++n}\n\n`), 20);
+    req.on('close', () => clearInterval(timer));
+  });
+  upstream.get('/plain', (_req, res) => {
+    res.json({ ok: true });
+  });
+  upstreamServer = http.createServer(upstream);
+  // Echoes every text message back.
+  upstreamServer.on('upgrade', (req, socket: Duplex) => {
+    upstreamUpgrades += 1;
+    openSockets.add(socket);
+    const accept = createHash('sha1').update(`${req.headers['sec-websocket-key']}${WEBSOCKET_GUID}`).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n'
+      + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    );
+    socket.on('data', (chunk: Buffer) => {
+      for (const frame of readFrames(chunk)) {
+        if (frame.opcode === 0x1) socket.write(textFrame(frame.payload.toString(), false));
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+  const upstreamPort = await listen(upstreamServer);
+  const upstreamUrl = `http://localhost:${upstreamPort}`;
+
+  const registry = new InMemoryApiRegistry([
+    {
+      id: API_ID,
+      slug: 'stream-api',
+      base_url: upstreamUrl,
+      developerId: DEVELOPER_ID,
+      endpoints: [
+        { endpointId: 'ep_feed', path: '/feed', priceUsdc: 1, streamPricing: { perMessageUsdc: 1 } },
+        { endpointId: 'ep_echo', path: '/echo', priceUsdc: 600, streamPricing: { perMinuteUsdc: 600 } },
+        { endpointId: 'ep_default', path: '*', priceUsdc: 1 },
+      ],
+    },
+  ]);
+
+  billing = new MockSorobanBilling();
+  usageStore = new InMemoryUsageStore();
+
+  const app = express();
+  app.use('/v1/call', createProxyRouter({
+    billing,
+    rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+    usageStore,
+    registry,
+    apiKeys,
+    streamMeteringIntervalMs: 100,
+    proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+  }));
+  app.use(errorHandler);
+  proxyServer = http.createServer(app);
+  proxyServer.on('upgrade', routeUpgradesThrough(app));
+  proxyServer.on('connection', (socket: Socket) => openSockets.add(socket));
+  proxyPort = await listen(proxyServer);
+});
+
+afterAll(async () => {
+  for (const socket of openSockets) socket.destroy();
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 1_000);
+  upstreamUpgrades = 0;
+});
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Opens a WebSocket to the proxy; resolves with the socket, or with the refusal. */
+function connect(path: string, headers: Record<string, string> = { 'x-api-key': API_KEY }) {
+  return new Promise<
+    { upgraded: true; socket: Duplex; headers: http.IncomingHttpHeaders }
+    | { upgraded: false; status: number; body: string }
+  >((resolve, reject) => {
+    const request = http.request({
+      port: proxyPort,
+      path: `/v1/call/stream-api${path}`,
+      headers: {
+        ...headers,
+        connection: 'Upgrade',
+        upgrade: 'websocket',
+        'sec-websocket-key': Buffer.alloc(16, 1).toString('base64'),
+        'sec-websocket-version': '13',
+      },
+    });
+    request.on('upgrade', (res, socket) => {
+      openSockets.add(socket);
+      resolve({ upgraded: true, socket, headers: res.headers });
+    });
+    request.on('response', (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => (body += chunk));
+      res.on('end', () => resolve({ upgraded: false, status: res.statusCode ?? 0, body }));
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/** Collects the frames a socket receives until it closes. */
+function collectFrames(socket: Duplex): Promise<Frame[]> {
+  const chunks: Buffer[] = [];
+  socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+  return new Promise((resolve) => socket.once('close', () => resolve(readFrames(Buffer.concat(chunks)))));
+}
+
+/** The usage events of one connection, one per metering interval. */
+async function streamEvents(requestId: string | string[] | null | undefined) {
+  return (await usageStore.getEvents(API_KEY)).filter((event) => event.requestId.startsWith(`${requestId}:`));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('event streams', () => {
+  it('bills an event stream per interval for the events it carried', async () => {
+    const controller = new AbortController();
+    const res = await fetch(`http://localhost:${proxyPort}/v1/call/stream-api/feed`, {
+      headers: { 'x-api-key': API_KEY },
+      signal: controller.signal,
+    });
+    const reader = res.body!.getReader();
+    let text = '';
+    const started = Date.now();
+    while (Date.now() - started < 350) {
+      const { value } = await reader.read();
+      text += new TextDecoder().decode(value);
+    }
+    controller.abort();
+    await delay(100);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const events = await streamEvents(res.headers.get('x-request-id'));
+    expect(events.length).toBeGreaterThanOrEqual(3);
+    expect(events.every((event) => event.endpointId === 'ep_feed' && event.statusCode === 200)).toBe(true);
+    const billed = events.reduce((sum, event) => sum + event.amountUsdc, 0);
+    expect(billed).toBe(events.reduce((sum, event) => sum + (event.units ?? 0), 0));
+    expect(billed).toBeGreaterThan(0);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(1_000 - billed);
+    expect(text).not.toContain('callora.close');
+  });
+
+  it('ends the stream with a callora.close event once the balance runs out', async () => {
+    billing.setBalance(DEVELOPER_ID, 3);
+
+    const res = await fetch(`http://localhost:${proxyPort}/v1/call/stream-api/feed`, {
+      headers: { 'x-api-key': API_KEY },
+    });
+    const text = await res.text();
+    await delay(50);
+
+    expect(text).toMatch(/event: callora\.close\ndata: {"code":4402,"reason":"Insufficient balance"}\n\n$/);
+    expect(billing.getBalance(DEVELOPER_ID)).toBeGreaterThanOrEqual(0);
+  });
+
+  it('bills nothing for a plain response from a streaming endpoint', async () => {
+    const res = await fetch(`http://localhost:${proxyPort}/v1/call/stream-api/plain`, {
+      headers: { 'x-api-key': API_KEY },
+    });
+    await res.json();
+    await delay(50);
+
+    expect(res.status).toBe(200);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(999);
+  });
+});
+
+describe('WebSocket connections', () => {
+  it('relays messages both ways and bills the connection', async () => {
+    const connection = await connect('/echo');
+    if (!connection.upgraded) throw new Error(`refused: ${connection.status} ${connection.body}`);
+    const frames = collectFrames(connection.socket);
+
+    connection.socket.write(textFrame('hello', true));
+    await delay(150);
+    connection.socket.end();
+    const received = await frames;
+    await delay(50);
+
+    expect(connection.headers['sec-websocket-accept']).toBeDefined();
+    expect(connection.headers['x-request-id']).toBeDefined();
+    expect(received.map((frame) => frame.payload.toString())).toEqual(['hello']);
+    const events = await streamEvents(connection.headers['x-request-id']);
+    expect(events.length).toBeGreaterThanOrEqual(2);
+    expect(events.every((event) => event.endpointId === 'ep_echo' && event.statusCode === 101)).toBe(true);
+    expect(events.reduce((sum, event) => sum + (event.units ?? 0), 0)).toBe(2);
+    const billed = events.reduce((sum, event) => sum + event.amountUsdc, 0);
+    expect(billing.getBalance(DEVELOPER_ID)).toBeCloseTo(1_000 - billed, 6);
+  });
+
+  it('closes the connection with 4402 once the balance runs out', async () => {
+    // 600 USDC a minute is 1 USDC per 100 ms interval.
+    billing.setBalance(DEVELOPER_ID, 1.5);
+
+    const connection = await connect('/echo');
+    if (!connection.upgraded) throw new Error(`refused: ${connection.status} ${connection.body}`);
+    const received = await collectFrames(connection.socket);
+
+    const close = received.find((frame) => frame.opcode === 0x8);
+    expect(close?.payload.readUInt16BE(0)).toBe(4402);
+    expect(close?.payload.subarray(2).toString()).toBe('Insufficient balance');
+  });
+
+  it('refuses upgrades to endpoints without streaming pricing', async () => {
+    const connection = await connect('/plain');
+
+    expect(connection).toMatchObject({ upgraded: false, status: 400 });
+    expect(connection.upgraded || JSON.parse(connection.body).error.code).toBe('ENDPOINT_NOT_STREAMING');
+    expect(upstreamUpgrades).toBe(0);
+  });
+
+  it('authenticates the upgrade before calling the upstream', async () => {
+    const connection = await connect('/echo', {});
+
+    expect(connection).toMatchObject({ upgraded: false, status: 401 });
+    expect(upstreamUpgrades).toBe(0);
+  });
+});
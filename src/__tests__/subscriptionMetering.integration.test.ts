@@ -0,0 +1,188 @@
+/**
+ * Integration tests — `subscriptions.metering_limit` enforcement in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Calls within the monthly allowance succeed and report what is left.
+ *   - Over-limit calls get 429 METERING_LIMIT_EXCEEDED with a Retry-After
+ *     pointing at the next calendar month, and are never proxied or billed.
+ *   - Calls that are not billed (upstream errors) do not use up the allowance.
+ *   - Two gateway instances sharing one counter store enforce a single limit.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import {
+  InMemoryMeteringCounterStore,
+  SubscriptionMeter,
+  type MeteredSubscription,
+} from '../services/subscriptionMetering.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'meter-test-key';
+const DEVELOPER_ID = 'dev_meter';
+const API_ID = '42';
+const API_SLUG = 'meter-test-api';
+const NOW = new Date('2026-05-31T23:00:00.000Z');
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let upstreamStatus = 200;
+let upstreamCalls = 0;
+const proxyServers: Server[] = [];
+const proxyUrls: string[] = [];
+
+let billing: MockSorobanBilling;
+let counters: InMemoryMeteringCounterStore;
+let subscription: MeteredSubscription | undefined;
+
+async function startProxy(registry: InMemoryApiRegistry): Promise<void> {
+  const meter = new SubscriptionMeter({
+    store: counters,
+    lookup: async (userId, apiId) =>
+      userId === DEVELOPER_ID && apiId === API_ID ? subscription : undefined,
+    now: () => NOW,
+  });
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeys,
+      subscriptionMeter: meter,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    const server = app.listen(0, () => {
+      const addr = server.address();
+      if (addr && typeof addr === 'object') proxyUrls.push(`http://localhost:${addr.port}`);
+      resolve();
+    });
+    proxyServers.push(server);
+  });
+}
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', (_req, res) => {
+      upstreamCalls += 1;
+      res.status(upstreamStatus).json({ ok: upstreamStatus < 400 });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'default', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling({ [DEVELOPER_ID]: 1000 });
+  counters = new InMemoryMeteringCounterStore();
+
+  // Two gateway instances backed by the same counter store.
+  await startProxy(registry);
+  await startProxy(registry);
+});
+
+afterAll(async () => {
+  for (const server of proxyServers) {
+    await new Promise<void>((r) => server.close(() => r()));
+  }
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  upstreamStatus = 200;
+  upstreamCalls = 0;
+  counters.reset();
+  subscription = { id: 'sub-1', metering_limit: 2 };
+  billing.setBalance(DEVELOPER_ID, 1000);
+});
+
+async function call(instance = 0): Promise<Response> {
+  const res = await fetch(`${proxyUrls[instance]}/v1/call/${API_SLUG}/data`, {
+    headers: { 'x-api-key': API_KEY },
+  });
+  await res.arrayBuffer();
+  return res;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('subscription metering in /v1/call', () => {
+  it('reports the remaining allowance on successful calls', async () => {
+    const res = await call();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-callora-metering-limit')).toBe('2');
+    expect(res.headers.get('x-callora-metering-remaining')).toBe('1');
+    expect(res.headers.get('x-callora-metering-reset')).toBe('2026-06-01T00:00:00.000Z');
+  });
+
+  it('rejects calls over the monthly limit without proxying them', async () => {
+    await call();
+    await call();
+
+    const res = await fetch(`${proxyUrls[0]}/v1/call/${API_SLUG}/data`, {
+      headers: { 'x-api-key': API_KEY },
+    });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('3600');
+    expect(res.headers.get('x-callora-metering-remaining')).toBe('0');
+    const body = await res.json();
+    expect(body.error.code).toBe('METERING_LIMIT_EXCEEDED');
+    expect(upstreamCalls).toBe(2);
+  });
+
+  it('enforces one limit across gateway instances sharing a counter store', async () => {
+    expect((await call(0)).status).toBe(200);
+    expect((await call(1)).status).toBe(200);
+    expect((await call(0)).status).toBe(429);
+    expect((await call(1)).status).toBe(429);
+  });
+
+  it('does not count calls that are not billed', async () => {
+    upstreamStatus = 500;
+    await call();
+    await call();
+
+    expect(counters.get('sub-1', '2026-05')).toBe(0);
+
+    upstreamStatus = 200;
+    expect((await call()).status).toBe(200);
+  });
+
+  it('leaves callers without a metered subscription untouched', async () => {
+    subscription = { id: 'sub-1', metering_limit: null };
+
+    const res = await call();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-callora-metering-limit')).toBeNull();
+  });
+});
@@ -110,6 +110,7 @@ function makeSubscription(overrides: Record<string, unknown> = {}) {
     status: 'active',
     metering_limit: null,
     retry_policy: null,
+    pinned_version: null,
     created_at: now,
     updated_at: now,
     cancelled_at: null,
@@ -0,0 +1,145 @@
+/**
+ * Integration tests — tiered and per-method endpoint pricing in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Graduated endpoints charge each call at the tier it falls in, counted
+ *     per consumer for the billing period.
+ *   - The price charged is the amount recorded on the usage event.
+ *   - Per-method prices are applied to the matching HTTP method only.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { PricingCallCounter } from '../services/endpointPricing.js';
+import { InMemoryMeteringCounterStore } from '../services/subscriptionMetering.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'tier-test-key';
+const DEVELOPER_ID = 'dev_tier';
+const API_ID = 'api_tier';
+const API_SLUG = 'tier-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', (_req, res) => {
+      res.status(200).json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [
+      {
+        endpointId: 'ep_search',
+        path: '/search',
+        priceUsdc: 1,
+        pricingModel: 'graduated',
+        tiers: [
+          { upTo: 2, priceUsdc: 1 },
+          { upTo: null, priceUsdc: 0.5 },
+        ],
+      },
+      { endpointId: 'ep_items_post', path: '/items', method: 'POST', priceUsdc: 3 },
+      { endpointId: 'ep_items', path: '/items', priceUsdc: 2 },
+    ],
+  }]);
+
+  billing = new MockSorobanBilling();
+  usageStore = new InMemoryUsageStore();
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore,
+      registry,
+      apiKeys,
+      pricingCounter: new PricingCallCounter(new InMemoryMeteringCounterStore()),
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  usageStore.clear();
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+});
+
+async function call(path: string, method = 'GET'): Promise<void> {
+  const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    method,
+    headers: { 'x-api-key': API_KEY },
+  });
+  await res.arrayBuffer();
+  expect(res.status).toBe(200);
+  // Usage recording and billing run after the response has finished.
+  await new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('tiered endpoint pricing', () => {
+  it('charges graduated calls at the tier they fall in', async () => {
+    for (let i = 0; i < 4; i++) await call('/search');
+
+    const amounts = usageStore.getEvents(API_KEY).map((event) => event.amountUsdc);
+    expect(amounts).toEqual([1, 1, 0.5, 0.5]);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(97);
+  });
+
+  it('prices each HTTP method separately', async () => {
+    await call('/items', 'POST');
+    await call('/items', 'GET');
+
+    const events = usageStore.getEvents(API_KEY);
+    expect(events.map((event) => [event.endpointId, event.amountUsdc])).toEqual([
+      ['ep_items_post', 3],
+      ['ep_items', 2],
+    ]);
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(95);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Integration tests — provider transform rules in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Request rules rewrite the path, add query parameters and rename, set
+ *     and remove headers before the call is forwarded.
+ *   - The upstream credential is injected after the rules.
+ *   - Response rules change the headers sent back, and a `map_error` rule
+ *     replaces a matching upstream error body with a Callora error envelope.
+ *   - A saved rule set applies to the very next call.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { InMemoryTransformRuleStore, TransformRuleService } from '../services/transformRules.js';
+import {
+  InMemoryUpstreamCredentialStore,
+  UpstreamCredentialService,
+} from '../services/upstreamCredentials.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'transform-test-key';
+const DEVELOPER_ID = 'dev_transform';
+const API_ID = 'api_transform';
+const API_SLUG = 'transform-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let received: { url: string; headers: Record<string, string | string[] | undefined> } | null;
+
+let billing: MockSorobanBilling;
+let ruleStore: InMemoryTransformRuleStore;
+let transformRules: TransformRuleService;
+let credentialStore: InMemoryUpstreamCredentialStore;
+let credentials: UpstreamCredentialService;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.get('/internal/broken', (req, res) => {
+      received = { url: req.originalUrl, headers: { ...req.headers } };
+      res.status(503).set('x-internal-host', 'db-1').send('java.lang.NullPointerException');
+    });
+    upstream.all('*', (req, res) => {
+      received = { url: req.originalUrl, headers: { ...req.headers } };
+      res.set('x-internal-host', 'db-1').set('x-origin-version', '7').json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'default', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling({ [DEVELOPER_ID]: 1000 });
+  ruleStore = new InMemoryTransformRuleStore();
+  transformRules = new TransformRuleService(ruleStore);
+  credentialStore = new InMemoryUpstreamCredentialStore();
+  credentials = new UpstreamCredentialService(credentialStore, { encryptionKey: 'test-key' });
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeys,
+      transformRules,
+      upstreamCredentials: credentials,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  received = null;
+  ruleStore.clear();
+  credentialStore.clear();
+  billing.setBalance(DEVELOPER_ID, 1000);
+});
+
+function call(path: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    headers: { 'x-api-key': API_KEY, ...headers },
+  });
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('request rules', () => {
+  it('forwards calls unchanged when the API has no rules', async () => {
+    const res = await call('/v1/items', { 'x-client': 'web' });
+
+    expect(res.status).toBe(200);
+    expect(received!.url).toBe('/v1/items');
+    expect(received!.headers['x-client']).toBe('web');
+  });
+
+  it('rewrites the path, adds query parameters and reshapes headers', async () => {
+    await transformRules.save(API_ID, {
+      request: [
+        { type: 'rewrite_path', from: '/v1', to: '/internal' },
+        { type: 'set_query', name: 'format', value: 'json' },
+        { type: 'rename_header', from: 'x-client', to: 'x-origin-client' },
+        { type: 'set_header', name: 'x-tenant', value: 'callora' },
+        { type: 'remove_header', name: 'x-debug' },
+      ],
+      response: [],
+    }, 'owner');
+
+    await call('/v1/items', { 'x-client': 'web', 'x-debug': '1' });
+
+    expect(received!.url).toBe('/internal/items?format=json');
+    expect(received!.headers['x-origin-client']).toBe('web');
+    expect(received!.headers['x-client']).toBeUndefined();
+    expect(received!.headers['x-tenant']).toBe('callora');
+    expect(received!.headers['x-debug']).toBeUndefined();
+    expect(received!.headers['x-request-id']).toEqual(expect.any(String));
+  });
+
+  it('injects the upstream credential after the rules', async () => {
+    await transformRules.save(API_ID, {
+      request: [{ type: 'set_query', name: 'key', value: 'from-rule' }],
+      response: [],
+    }, 'owner');
+    await credentials.set(API_ID, { type: 'query', paramName: 'key', value: 'provider' }, 'owner');
+
+    await call('/data');
+
+    expect(new URL(received!.url, 'http://upstream').searchParams.getAll('key')).toEqual(['provider']);
+  });
+});
+
+describe('response rules', () => {
+  it('renames, sets and removes response headers', async () => {
+    await transformRules.save(API_ID, {
+      request: [],
+      response: [
+        { type: 'remove_header', name: 'x-internal-host' },
+        { type: 'rename_header', from: 'x-origin-version', to: 'x-api-version' },
+        { type: 'set_header', name: 'cache-control', value: 'no-store' },
+      ],
+    }, 'owner');
+
+    const res = await call('/data');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-internal-host')).toBeNull();
+    expect(res.headers.get('x-origin-version')).toBeNull();
+    expect(res.headers.get('x-api-version')).toBe('7');
+    expect(res.headers.get('cache-control')).toBe('no-store');
+    expect(await res.json()).toEqual({ ok: true });
+  });
+
+  it('maps a matching upstream error into the Callora error envelope', async () => {
+    await transformRules.save(API_ID, {
+      request: [{ type: 'rewrite_path', from: '/v1', to: '/internal' }],
+      response: [
+        { type: 'remove_header', name: 'x-internal-host' },
+        { type: 'map_error', upstreamStatus: '5xx', code: 'FORECAST_UNAVAILABLE', message: 'Try again later', status: 502 },
+      ],
+    }, 'owner');
+
+    const res = await call('/v1/broken');
+    const body = await res.json();
+
+    expect(res.status).toBe(502);
+    expect(res.headers.get('x-internal-host')).toBeNull();
+    expect(body).toMatchObject({
+      success: false,
+      error: { code: 'FORECAST_UNAVAILABLE', message: 'Try again later' },
+      requestId: res.headers.get('x-request-id'),
+    });
+    expect(JSON.stringify(body)).not.toContain('NullPointerException');
+  });
+
+  it('applies a newly saved version to the next call', async () => {
+    await transformRules.save(API_ID, { request: [{ type: 'set_header', name: 'x-v', value: '1' }], response: [] }, 'owner');
+    await call('/data');
+    expect(received!.headers['x-v']).toBe('1');
+
+    await transformRules.save(API_ID, { request: [], response: [] }, 'owner');
+    await call('/data');
+    expect(received!.headers['x-v']).toBeUndefined();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Integration tests — upstream-reported compute units in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Unit-priced endpoints charge the units reported in `X-Callora-Units`
+ *     times the unit price, capped at `maxUnitsPerCall`.
+ *   - The unit count is recorded on the usage event.
+ *   - The maximum charge is held before the upstream is called, rejecting
+ *     calls the balance cannot cover, and released once the call is billed.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { BalanceHoldService, InMemoryBalanceHoldStore } from '../services/balanceHolds.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'unit-test-key';
+const DEVELOPER_ID = 'dev_units';
+const API_ID = 'api_units';
+const API_SLUG = 'unit-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let billing: MockSorobanBilling;
+let usageStore: InMemoryUsageStore;
+let balanceHolds: BalanceHoldService;
+let upstreamCalls = 0;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    // /complete/<units> reports <units>; /slow/<units> does so after a delay.
+    upstream.all('/:mode/:units', (req, res) => {
+      upstreamCalls += 1;
+      const delayMs = req.params.mode === 'slow' ? 200 : 0;
+      setTimeout(() => {
+        res.set('X-Callora-Units', req.params.units).status(200).json({ ok: true });
+      }, delayMs);
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [
+      {
+        endpointId: 'ep_units',
+        path: '*',
+        priceUsdc: 0.5,
+        unitPricing: { priceUsdc: 0.5, maxUnitsPerCall: 10 },
+      },
+    ],
+  }]);
+
+  billing = new MockSorobanBilling();
+  usageStore = new InMemoryUsageStore();
+  balanceHolds = new BalanceHoldService(new InMemoryBalanceHoldStore());
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore,
+      registry,
+      apiKeys,
+      balanceHolds,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  usageStore.clear();
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+  upstreamCalls = 0;
+});
+
+async function call(path: string): Promise<Response> {
+  const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    headers: { 'x-api-key': API_KEY },
+  });
+  await res.arrayBuffer();
+  return res;
+}
+
+/** Usage recording and billing run after the response has finished. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 50));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('unit-priced endpoints', () => {
+  it('charges the reported units times the unit price and records them', async () => {
+    const res = await call('/complete/4');
+    await settle();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-callora-units')).toBe('4');
+    const [event] = usageStore.getEvents(API_KEY);
+    expect(event).toMatchObject({ endpointId: 'ep_units', units: 4, amountUsdc: 2 });
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(98);
+    expect(await balanceHolds.heldFor(DEVELOPER_ID)).toBe(0);
+  });
+
+  it('caps the units billed at maxUnitsPerCall', async () => {
+    await call('/complete/25');
+    await settle();
+
+    const [event] = usageStore.getEvents(API_KEY);
+    expect(event).toMatchObject({ units: 10, amountUsdc: 5 });
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(95);
+  });
+
+  it('bills zero units when the upstream does not report a valid count', async () => {
+    await call('/complete/many');
+    await settle();
+
+    const [event] = usageStore.getEvents(API_KEY);
+    expect(event).toMatchObject({ units: 0, amountUsdc: 0 });
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(100);
+  });
+
+  it('rejects calls whose maximum charge the balance cannot cover', async () => {
+    billing.setBalance(DEVELOPER_ID, 4.99);
+
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/complete/1`, {
+      headers: { 'x-api-key': API_KEY },
+    });
+    const body = await res.json();
+    await settle();
+
+    expect(res.status).toBe(402);
+    expect(body.error.code).toBe('PREAUTHORIZATION_FAILED');
+    expect(upstreamCalls).toBe(0);
+    expect(usageStore.getEvents(API_KEY)).toHaveLength(0);
+  });
+
+  it('counts in-flight holds against the balance until the call is billed', async () => {
+    billing.setBalance(DEVELOPER_ID, 8);
+
+    const slow = call('/slow/1');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const concurrent = await call('/complete/1');
+    expect(concurrent.status).toBe(402);
+
+    expect((await slow).status).toBe(200);
+    await settle();
+    expect(await balanceHolds.heldFor(DEVELOPER_ID)).toBe(0);
+
+    const after = await call('/complete/1');
+    expect(after.status).toBe(200);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Integration tests — provider-managed upstream credentials in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Each credential type reaches the upstream on every call.
+ *   - Caller-supplied headers with the same name are overwritten.
+ *   - A credential that cannot be decrypted fails closed with 502 and is not billed.
+ */
+
+import express from 'express';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import {
+  InMemoryUpstreamCredentialStore,
+  UpstreamCredentialService,
+} from '../services/upstreamCredentials.js';
+import { computeSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../webhooks/webhook.signature.js';
+import type { ApiKey } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'cred-test-key';
+const DEVELOPER_ID = 'dev_cred';
+const API_ID = 'api_cred';
+const API_SLUG = 'cred-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+let upstreamServer: Server;
+let upstreamUrl: string;
+let proxyServer: Server;
+let proxyUrl: string;
+
+let received: { url: string; headers: Record<string, string | string[] | undefined> } | null;
+
+let billing: MockSorobanBilling;
+let credentialStore: InMemoryUpstreamCredentialStore;
+let credentials: UpstreamCredentialService;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    const upstream = express();
+    upstream.all('*', (req, res) => {
+      received = { url: req.originalUrl, headers: { ...req.headers } };
+      res.status(200).json({ ok: true });
+    });
+    upstreamServer = upstream.listen(0, () => {
+      const addr = upstreamServer.address();
+      if (addr && typeof addr === 'object') upstreamUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+
+  const registry = new InMemoryApiRegistry([{
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: upstreamUrl,
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'default', path: '*', priceUsdc: 1 }],
+  }]);
+
+  billing = new MockSorobanBilling({ [DEVELOPER_ID]: 1000 });
+  credentialStore = new InMemoryUpstreamCredentialStore();
+  credentials = new UpstreamCredentialService(credentialStore, { encryptionKey: 'test-key' });
+
+  await new Promise<void>((resolve) => {
+    const app = express();
+    app.use('/v1/call', createProxyRouter({
+      billing,
+      rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+      usageStore: new InMemoryUsageStore(),
+      registry,
+      apiKeys,
+      upstreamCredentials: credentials,
+      proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+    }));
+    app.use(errorHandler);
+    proxyServer = app.listen(0, () => {
+      const addr = proxyServer.address();
+      if (addr && typeof addr === 'object') proxyUrl = `http://localhost:${addr.port}`;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await new Promise<void>((r) => upstreamServer.close(() => r()));
+});
+
+beforeEach(() => {
+  received = null;
+  credentialStore.clear();
+  billing.setBalance(DEVELOPER_ID, 1000);
+});
+
+function call(path: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${proxyUrl}/v1/call/${API_SLUG}${path}`, {
+    headers: { 'x-api-key': API_KEY, ...headers },
+  });
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('upstream credential injection', () => {
+  it('forwards no credential when none is configured', async () => {
+    const res = await call('/data');
+
+    expect(res.status).toBe(200);
+    expect(received!.headers.authorization).toBeUndefined();
+  });
+
+  it('injects a bearer token in place of the caller Authorization header', async () => {
+    await credentials.set(API_ID, { type: 'bearer', token: 'provider-token' }, 'owner');
+
+    const res = await call('/data', { authorization: 'Bearer caller-token' });
+
+    expect(res.status).toBe(200);
+    expect(received!.headers.authorization).toBe('Bearer provider-token');
+  });
+
+  it('injects a custom header, overriding a caller-supplied value', async () => {
+    await credentials.set(API_ID, { type: 'header', headerName: 'X-Upstream-Key', value: 'provider' }, 'owner');
+
+    await call('/data', { 'x-upstream-key': 'spoofed' });
+
+    expect(received!.headers['x-upstream-key']).toBe('provider');
+  });
+
+  it('appends a query parameter to the upstream URL', async () => {
+    await credentials.set(API_ID, { type: 'query', paramName: 'key', value: 'provider' }, 'owner');
+
+    await call('/data');
+
+    const url = new URL(received!.url, 'http://upstream');
+    expect(url.pathname).toBe('/data');
+    expect(url.searchParams.getAll('key')).toEqual(['provider']);
+  });
+
+  it('signs the request with the HMAC secret', async () => {
+    await credentials.set(API_ID, { type: 'hmac', secret: 'shared' }, 'owner');
+
+    await call('/data');
+
+    const timestamp = received!.headers[TIMESTAMP_HEADER] as string;
+    expect(received!.headers[SIGNATURE_HEADER]).toBe(
+      `sha256=${computeSignature('shared', timestamp, 'GET /data')}`,
+    );
+  });
+
+  it('uses the new secret immediately after rotation', async () => {
+    await credentials.set(API_ID, { type: 'bearer', token: 'v1' }, 'owner');
+    await credentials.rotate(API_ID, 'v2', 'owner');
+
+    await call('/data');
+
+    expect(received!.headers.authorization).toBe('Bearer v2');
+  });
+
+  it('fails closed with 502 when the credential cannot be decrypted', async () => {
+    await new UpstreamCredentialService(credentialStore, { encryptionKey: 'old-key' })
+      .set(API_ID, { type: 'bearer', token: 'tok' }, 'owner');
+
+    const res = await call('/data');
+
+    expect(res.status).toBe(502);
+    const body = await res.json();
+    expect(body.error.code).toBe('UPSTREAM_CREDENTIAL_UNAVAILABLE');
+    expect(received).toBeNull();
+    expect(billing.getBalance(DEVELOPER_ID)).toBe(1000);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Integration tests — multiple upstream origins in `/v1/call`.
+ *
+ * Verifies that:
+ *   - Calls are spread over an API's origins by weight.
+ *   - An origin whose breaker is open is skipped, and its calls go to the
+ *     next origin.
+ *   - An origin that failed its health probe gets no calls while another
+ *     origin is healthy.
+ *   - The admin circuit-breaker listing reports each origin's breaker with
+ *     its health and latency.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import type { Server } from 'node:http';
+import { createProxyRouter } from '../routes/proxyRoutes.js';
+import { createAdminCircuitBreakerRouter } from '../routes/admin/circuit-breaker.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { MockSorobanBilling } from '../services/billingService.js';
+import { InMemoryRateLimiter } from '../services/rateLimiter.js';
+import { InMemoryUsageStore } from '../services/usageStore.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { BreakerRegistry } from '../lib/circuitBreaker.js';
+import { OriginBalancer, resolveOrigins } from '../services/upstreamOrigins.js';
+import type { ApiKey, ApiRegistryEntry } from '../types/gateway.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const API_KEY = 'origins-test-key';
+const DEVELOPER_ID = 'dev_origins';
+const API_ID = '601';
+const API_SLUG = 'origins-test-api';
+
+const apiKeys = new Map<string, ApiKey>([
+  [API_KEY, { key: API_KEY, developerId: DEVELOPER_ID, apiId: API_ID }],
+]);
+
+// ── Test infrastructure ───────────────────────────────────────────────────────
+
+const upstreams: Server[] = [];
+let proxyServer: Server;
+let proxyUrl: string;
+let entry: ApiRegistryEntry;
+
+let billing: MockSorobanBilling;
+let breakerRegistry: BreakerRegistry;
+let originBalancer: OriginBalancer;
+
+function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, () => {
+      const addr = server.address();
+      const port = addr && typeof addr === 'object' ? addr.port : 0;
+      resolve({ server, url: `http://localhost:${port}` });
+    });
+  });
+}
+
+async function startUpstream(name: string): Promise<string> {
+  const upstream = express();
+  upstream.all('*', (_req, res) => {
+    res.json({ origin: name });
+  });
+  const { server, url } = await listen(upstream);
+  upstreams.push(server);
+  return url;
+}
+
+beforeAll(async () => {
+  const primaryUrl = await startUpstream('primary');
+  const secondaryUrl = await startUpstream('secondary');
+
+  entry = {
+    id: API_ID,
+    slug: API_SLUG,
+    base_url: primaryUrl,
+    origins: [
+      { id: 'primary', url: primaryUrl, weight: 3 },
+      { id: 'secondary', url: secondaryUrl, weight: 1 },
+    ],
+    developerId: DEVELOPER_ID,
+    endpoints: [{ endpointId: 'ep_default', path: '*', priceUsdc: 0.01 }],
+  };
+
+  billing = new MockSorobanBilling();
+  breakerRegistry = new BreakerRegistry();
+  originBalancer = new OriginBalancer();
+
+  const app = express();
+  app.use('/v1/call', createProxyRouter({
+    billing,
+    rateLimiter: new InMemoryRateLimiter(1000, 60_000),
+    usageStore: new InMemoryUsageStore(),
+    registry: new InMemoryApiRegistry([entry]),
+    apiKeys,
+    breakerRegistry,
+    originBalancer,
+    proxyConfig: { timeoutMs: 2000, allowedHosts: ['localhost'] },
+  }));
+  app.use(errorHandler);
+  ({ server: proxyServer, url: proxyUrl } = await listen(app));
+});
+
+afterAll(async () => {
+  await new Promise<void>((r) => proxyServer.close(() => r()));
+  await Promise.all(upstreams.map((server) => new Promise<void>((r) => server.close(() => r()))));
+});
+
+beforeEach(() => {
+  billing.clear();
+  billing.setBalance(DEVELOPER_ID, 100);
+  originBalancer.reset();
+});
+
+async function callOrigins(times: number): Promise<string[]> {
+  const origins: string[] = [];
+  for (let i = 0; i < times; i += 1) {
+    const res = await fetch(`${proxyUrl}/v1/call/${API_SLUG}/quote`, {
+      headers: { 'x-api-key': API_KEY },
+    });
+    expect(res.status).toBe(200);
+    origins.push(((await res.json()) as { origin: string }).origin);
+  }
+  return origins;
+}
+
+const count = (origins: string[], name: string): number => origins.filter((o) => o === name).length;
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('multiple upstream origins', () => {
+  it('spreads calls over the origins by weight', async () => {
+    const origins = await callOrigins(8);
+
+    expect(count(origins, 'primary')).toBe(6);
+    expect(count(origins, 'secondary')).toBe(2);
+  });
+
+  it('fails over to the next origin while an origin breaker is open', async () => {
+    await callOrigins(1);
+    const breakerKey = `${API_ID}-origin-primary`;
+    await breakerRegistry.get(breakerKey)!.trip(breakerKey);
+
+    try {
+      expect(await callOrigins(4)).toEqual(['secondary', 'secondary', 'secondary', 'secondary']);
+    } finally {
+      await breakerRegistry.get(breakerKey)!.reset(breakerKey);
+    }
+  });
+
+  it('keeps calls away from an origin that failed its health probe', async () => {
+    const [primary] = resolveOrigins(entry);
+    originBalancer.recordProbe(primary, { healthy: false, latencyMs: 2000, status: 503 });
+
+    expect(await callOrigins(3)).toEqual(['secondary', 'secondary', 'secondary']);
+  });
+
+  it('lists each origin breaker with its health and latency for admins', async () => {
+    await callOrigins(4);
+
+    const admin = express();
+    admin.use((_req, res, next) => {
+      res.locals.adminActor = 'admin-api-key';
+      next();
+    });
+    admin.use('/api/admin/circuit-breakers', createAdminCircuitBreakerRouter({
+      registry: breakerRegistry,
+      originBalancer,
+    }));
+
+    const res = await request(admin).get('/api/admin/circuit-breakers');
+
+    expect(res.status).toBe(200);
+    const secondary = res.body.data.find((b: { slug: string }) => b.slug === `${API_ID}-origin-secondary`);
+    expect(secondary).toEqual(expect.objectContaining({
+      state: 'closed',
+      origin: expect.objectContaining({
+        apiId: API_ID,
+        id: 'secondary',
+        weight: 1,
+        healthy: true,
+        latencyMs: expect.any(Number),
+      }),
+    }));
+    expect(secondary.metrics.totalSuccesses).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Integration tests — SEP-10 wallet sign-in through `/api/auth`.
+ *
+ * Verifies that:
+ *   - A wallet that co-signs its challenge gets a token pair, and its user is
+ *     created on the first login and reused afterwards.
+ *   - The refresh token is stored so it can be rotated later.
+ *   - A challenge cannot be replayed (`401 WALLET_CHALLENGE_USED`), and a
+ *     wrongly signed one is `401 WALLET_SIGNATURE_INVALID`.
+ */
+
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { Keypair, Networks, NotFoundError, Transaction, TransactionBuilder } from '@stellar/stellar-sdk';
+import { createAuthRouter } from '../routes/auth.js';
+import { AuthController } from '../controllers/authController.js';
+import { errorHandler } from '../middleware/errorHandler.js';
+import { RefreshTokenService } from '../services/refreshTokenService.js';
+import { InMemoryWalletChallengeStore, WalletAuthService } from '../services/walletAuth.js';
+import type { RefreshTokenRepository } from '../repositories/refreshTokenRepository.js';
+import type { UserDto, UserRepository } from '../repositories/userRepository.js';
+import { TEST_JWT_SECRET } from '../../tests/helpers/jwt.js';
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+let users: Map<string, UserDto>;
+let refreshTokenRepository: jest.Mocked<Pick<RefreshTokenRepository, 'createRefreshToken'>>;
+
+const userRepository = {
+  findByStellarAddress: async (address: string) => users.get(address) ?? null,
+  create: async ({ stellarAddress }: { stellarAddress: string }) => {
+    const user = { id: `user_${users.size + 1}`, stellarAddress, createdAt: new Date() };
+    users.set(stellarAddress, user);
+    return user;
+  },
+} as unknown as UserRepository;
+
+function buildApp(): express.Express {
+  const walletAuth = new WalletAuthService({
+    signingKey: Keypair.random(),
+    networkPassphrase: Networks.TESTNET,
+    homeDomain: 'callora.example',
+    accounts: { loadAccount: async () => { throw new NotFoundError('Not Found', { status: 404 }); } },
+    challenges: new InMemoryWalletChallengeStore(),
+  });
+  const authController = new AuthController({
+    refreshTokenService: new RefreshTokenService({
+      jwtSecret: TEST_JWT_SECRET,
+      accessTokenExpiry: '15m',
+      refreshTokenExpiry: '7d',
+    }),
+    refreshTokenRepository: refreshTokenRepository as unknown as RefreshTokenRepository,
+    walletAuth,
+    userRepository,
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', createAuthRouter({ authController }));
+  app.use(errorHandler);
+  return app;
+}
+
+async function signedChallenge(app: express.Express, wallet: Keypair, signer = wallet): Promise<string> {
+  const res = await request(app).get('/api/auth/wallet/challenge').query({ account: wallet.publicKey() });
+  expect(res.status).toBe(200);
+
+  const tx = TransactionBuilder.fromXDR(res.body.data.transaction, res.body.data.networkPassphrase) as Transaction;
+  tx.sign(signer);
+  return tx.toXDR();
+}
+
+beforeEach(() => {
+  users = new Map();
+  refreshTokenRepository = { createRefreshToken: jest.fn().mockImplementation(async (token) => token) };
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('Wallet sign-in', () => {
+  it('creates the user on first login and reuses it afterwards', async () => {
+    const app = buildApp();
+    const wallet = Keypair.random();
+
+    const first = await request(app).post('/api/auth/wallet').send({ transaction: await signedChallenge(app, wallet) });
+    expect(first.status).toBe(200);
+    expect(first.body.data.tokenType).toBe('Bearer');
+
+    const access = jwt.verify(first.body.data.accessToken, TEST_JWT_SECRET) as jwt.JwtPayload;
+    expect(access).toMatchObject({ userId: 'user_1', walletAddress: wallet.publicKey(), type: 'access' });
+    expect(refreshTokenRepository.createRefreshToken).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user_1', isRevoked: false }),
+    );
+
+    const second = await request(app).post('/api/auth/wallet').send({ transaction: await signedChallenge(app, wallet) });
+    expect(second.status).toBe(200);
+    expect(users.size).toBe(1);
+  });
+
+  it('refuses a replayed challenge', async () => {
+    const app = buildApp();
+    const transaction = await signedChallenge(app, Keypair.random());
+
+    await request(app).post('/api/auth/wallet').send({ transaction }).expect(200);
+    const replay = await request(app).post('/api/auth/wallet').send({ transaction });
+
+    expect(replay.status).toBe(401);
+    expect(replay.body.error.code).toBe('WALLET_CHALLENGE_USED');
+  });
+
+  it('refuses a challenge signed by another key', async () => {
+    const app = buildApp();
+    const transaction = await signedChallenge(app, Keypair.random(), Keypair.random());
+
+    const res = await request(app).post('/api/auth/wallet').send({ transaction });
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.code).toBe('WALLET_SIGNATURE_INVALID');
+    expect(users.size).toBe(0);
+    expect(refreshTokenRepository.createRefreshToken).not.toHaveBeenCalled();
+  });
+});
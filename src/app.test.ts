@@ -157,6 +157,10 @@ class FakeApiRepository implements ApiRepository {
         path: endpoint.path,
         method: endpoint.method,
         price_per_call_usdc: endpoint.price_per_call_usdc,
+        pricing: null,
+        cache: null,
+        policy: null,
+        parameters: null,
         description: endpoint.description ?? null,
         created_at: new Date(1000),
         updated_at: new Date(1000),
@@ -246,6 +250,8 @@ class FakeApiRepository implements ApiRepository {
   async bulkCreateEndpoints() {
     return [];
   }
+
+  async applyEndpointChanges() {}
 }
 
 const createDeveloperRepository = (profile?: Developer): DeveloperRepository => ({
@@ -741,6 +747,10 @@ const makeApp = (hasDeveloper = true) =>
         path: ep.path,
         method: ep.method,
         price_per_call_usdc: ep.price_per_call_usdc,
+        pricing: null,
+        cache: null,
+        policy: null,
+        parameters: null,
         description: ep.description ?? null,
         created_at: new Date(),
         updated_at: new Date(),
@@ -82,6 +82,14 @@ import { auditEnrichMiddleware } from "./middleware/auditEnrich.js";
 import { createRouteBodyLimitMiddleware } from "./middleware/routeBodyLimit.js";
 import { metricsMiddleware, metricsEndpoint } from "./metrics.js";
 import { config } from "./config/index.js";
+import {
+  createConfiguredBalanceHoldService,
+  type BalanceHoldService,
+} from "./services/balanceHolds.js";
+import {
+  createConfiguredUpstreamCredentialService,
+  type UpstreamCredentialService,
+} from "./services/upstreamCredentials.js";
 import {
   BadRequestError,
   ForbiddenError,
@@ -107,6 +115,17 @@ interface AppDependencies {
   developerRepository?: DeveloperRepository;
   findDeveloperByUserId?: (userId: string) => Promise<Developer | undefined>;
   createApiWithEndpoints?: (input: CreateApiInput) => Promise<ApiWithEndpoints>;
+  /**
+   * Balance holds reported by /api/credits and the billing portal. Pass the
+   * instance the /v1/call proxy places holds with; defaults to the one
+   * BALANCE_HOLD_STORE configures.
+   */
+  balanceHolds?: BalanceHoldService;
+  /**
+   * Upstream credentials managed under /api/apis/:id/upstream-credentials.
+   * Defaults to the store UPSTREAM_CREDENTIALS_STORE configures.
+   */
+  upstreamCredentials?: UpstreamCredentialService;
 }
 
 /**
@@ -169,6 +188,12 @@ export const createApp = (dependencies?: Partial<AppDependencies>) => {
     dependencies?.vaultRepository ?? new InMemoryVaultRepository();
   const lookupDeveloper = dependencies?.findDeveloperByUserId ?? findByUserId;
   const persistApi = dependencies?.createApiWithEndpoints ?? createApi;
+  const balanceHolds =
+    dependencies?.balanceHolds ??
+    createConfiguredBalanceHoldService(config.balanceHolds, pool);
+  const upstreamCredentials =
+    dependencies?.upstreamCredentials ??
+    createConfiguredUpstreamCredentialService(config.upstreamCredentials, pool);
 
   // Initialize deposit and vault controllers
   const transactionBuilder = new TransactionBuilderService();
@@ -480,6 +505,8 @@ export const createApp = (dependencies?: Partial<AppDependencies>) => {
       apiRepository,
       developerRepository,
       subscriptionRepository: defaultSubscriptionRepository,
+      balanceHolds,
+      upstreamCredentials,
     }),
   );
 
@@ -761,6 +788,9 @@ export const createApp = (dependencies?: Partial<AppDependencies>) => {
             path: ep.path,
             method: ep.method,
             price_per_call_usdc: ep.price_per_call_usdc,
+            pricing: ep.pricing ?? null,
+            cache: ep.cache ?? null,
+            policy: ep.policy ?? null,
             description: ep.description ?? null,
           })),
         });
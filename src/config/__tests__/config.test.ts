@@ -118,6 +118,7 @@ describe('Configuration Network Passphrase', () => {
       upstreamUrl: 'https://api.callora.com',
       timeoutMs: 30000,
       allowedHosts: ['api.callora.com', '*.example.com'],
+      maxBodySize: '1mb',
     });
   });
 
@@ -129,4 +130,28 @@ describe('Configuration Network Passphrase', () => {
       'base_url host "blocked.example.com" is not in the configured upstream allowlist.'
     );
   });
+
+  it('keeps API keys in Postgres by default when DATABASE_URL is set', async () => {
+    process.env.DATABASE_URL = 'postgresql://postgres:postgres@db:5432/callora';
+    delete process.env.API_KEY_STORE;
+
+    const { config } = await import('../index.js');
+    expect(config.apiKeys.store).toBe('postgres');
+  });
+
+  it('keeps API keys in memory by default without DATABASE_URL', async () => {
+    delete process.env.DATABASE_URL;
+    delete process.env.API_KEY_STORE;
+
+    const { config } = await import('../index.js');
+    expect(config.apiKeys.store).toBe('memory');
+  });
+
+  it('lets API_KEY_STORE override the default', async () => {
+    process.env.DATABASE_URL = 'postgresql://postgres:postgres@db:5432/callora';
+    process.env.API_KEY_STORE = 'memory';
+
+    const { config } = await import('../index.js');
+    expect(config.apiKeys.store).toBe('memory');
+  });
 });
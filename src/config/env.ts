@@ -1,5 +1,7 @@
 import "dotenv/config";
 import { z } from "zod";
+import { ADMIN_APPROVAL_ACTIONS, AMOUNT_APPROVAL_ACTIONS } from "../services/adminApprovalPolicy.js";
+import { ADMIN_ROLES } from "../services/adminRbac.js";
 
 const stellarNetworkSchema = z.enum(["testnet", "mainnet"]);
 
@@ -78,6 +80,8 @@ export const envSchema = z
     // Auth
     JWT_SECRET: z.string().min(1, "JWT_SECRET is required"),
     ADMIN_API_KEY: z.string().min(1, "ADMIN_API_KEY is required"),
+    // The admin role ADMIN_API_KEY signs in with (see docs/admin-rbac.md).
+    ADMIN_API_KEY_ROLE: z.enum(ADMIN_ROLES).default("super-admin"),
     METRICS_API_KEY: z.string().min(1, "METRICS_API_KEY is required"),
 
     // Proxy / Gateway
@@ -87,6 +91,45 @@ export const envSchema = z
     PROXY_BREAKER_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
     PROXY_BREAKER_COOLDOWN_MS: z.coerce.number().int().positive().default(30_000),
     PROXY_BREAKER_SUCCESS_THRESHOLD: z.coerce.number().int().positive().default(1),
+    // In-process cache for endpoints with a response cache policy. The least
+    // recently used entries are evicted once RESPONSE_CACHE_MAX_BYTES is
+    // reached; larger responses than RESPONSE_CACHE_MAX_ENTRY_BYTES are never stored.
+    RESPONSE_CACHE_MAX_BYTES: z.coerce.number().int().positive().default(67_108_864),
+    RESPONSE_CACHE_MAX_ENTRY_BYTES: z.coerce.number().int().positive().default(1_048_576),
+    // Health probes of the origins of APIs that list several. An origin is
+    // unhealthy while its last probe got a 5xx, an error or no response
+    // within ORIGIN_HEALTH_PROBE_TIMEOUT_MS.
+    ORIGIN_HEALTH_PROBE_INTERVAL_MS: z.coerce.number().int().positive().default(10_000),
+    ORIGIN_HEALTH_PROBE_TIMEOUT_MS: z.coerce.number().int().positive().default(2_000),
+    // Retries of idempotent proxied calls. Per API, retries and hedged
+    // requests may add at most PROXY_RETRY_BUDGET_RATIO of the calls in each
+    // PROXY_RETRY_BUDGET_WINDOW_MS, or PROXY_RETRY_BUDGET_MIN_PER_WINDOW when
+    // that is more.
+    PROXY_RETRY_MAX_ATTEMPTS: z.coerce.number().int().positive().default(2),
+    PROXY_RETRY_BASE_DELAY_MS: z.coerce.number().int().nonnegative().default(50),
+    PROXY_RETRY_BUDGET_RATIO: z.coerce.number().min(0).max(1).default(0.1),
+    PROXY_RETRY_BUDGET_MIN_PER_WINDOW: z.coerce.number().int().nonnegative().default(10),
+    PROXY_RETRY_BUDGET_WINDOW_MS: z.coerce.number().int().positive().default(10_000),
+    // WebSocket and event-stream connections to streaming endpoints are billed,
+    // and the caller's balance rechecked, once per interval.
+    STREAM_METERING_INTERVAL_MS: z.coerce.number().int().min(1_000).default(60_000),
+    // Test-mode keys (`ck_test_…`) have their own per-key limit on /v1/call,
+    // separate from the live RATE_LIMIT_* and GATEWAY_RATE_LIMIT_* buckets.
+    SANDBOX_RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(30),
+    SANDBOX_RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
+    // Key material for encrypting provider-managed upstream credentials at
+    // rest. Falls back to JWT_SECRET when unset.
+    UPSTREAM_CREDENTIALS_KEY: z.string().min(1).optional(),
+    // Where upstream credentials are kept. Use "postgres" so they survive
+    // restarts and every gateway instance injects them.
+    UPSTREAM_CREDENTIALS_STORE: z.enum(["memory", "postgres"]).default("memory"),
+    UPSTREAM_CREDENTIALS_PG_TABLE: z
+      .string()
+      .regex(
+        /^[a-z_][a-z0-9_]*$/i,
+        "UPSTREAM_CREDENTIALS_PG_TABLE must contain only letters, numbers, and underscores",
+      )
+      .default("api_upstream_credentials"),
     // REST API rate limiting (per-user with IP fallback)
     REST_RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
     REST_RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(100),
@@ -115,6 +158,61 @@ export const envSchema = z
         "RATE_LIMIT_PG_TABLE must contain only letters, numbers, and underscores",
       )
       .default("gateway_rate_limit_buckets"),
+    // Subscription metering_limit counters. Use "postgres" when running more
+    // than one gateway instance so every instance shares the monthly count.
+    METERING_STORE: z.enum(["memory", "postgres"]).default("memory"),
+    METERING_PG_TABLE: z
+      .string()
+      .regex(
+        /^[a-z_][a-z0-9_]*$/i,
+        "METERING_PG_TABLE must contain only letters, numbers, and underscores",
+      )
+      .default("subscription_metering_counters"),
+    // Per-consumer call counts for tiered endpoint pricing. Kept in the same
+    // store as the metering counters (METERING_STORE).
+    PRICING_PG_TABLE: z
+      .string()
+      .regex(
+        /^[a-z_][a-z0-9_]*$/i,
+        "PRICING_PG_TABLE must contain only letters, numbers, and underscores",
+      )
+      .default("endpoint_pricing_counters"),
+    // Per-API-key daily / monthly spend for spend caps. Kept in the same
+    // store as the metering counters (METERING_STORE).
+    SPEND_CAP_PG_TABLE: z
+      .string()
+      .regex(
+        /^[a-z_][a-z0-9_]*$/i,
+        "SPEND_CAP_PG_TABLE must contain only letters, numbers, and underscores",
+      )
+      .default("api_key_spend_counters"),
+    // Balance holds placed on /v1/call calls until they are charged. Use
+    // "postgres" when running more than one gateway instance so every
+    // instance counts the same in-flight holds against a balance.
+    BALANCE_HOLD_STORE: z.enum(["memory", "postgres"]).default("memory"),
+    BALANCE_HOLD_PG_TABLE: z
+      .string()
+      .regex(
+        /^[a-z_][a-z0-9_]*$/i,
+        "BALANCE_HOLD_PG_TABLE must contain only letters, numbers, and underscores",
+      )
+      .default("balance_holds"),
+    BALANCE_HOLD_TTL_MS: z.coerce.number().int().positive().default(120_000),
+
+    // Consumer API keys. "postgres" keeps keys across restarts and shares
+    // them between instances (table: api_keys); it is the default whenever
+    // DATABASE_URL is set. A rotated-out key keeps working for
+    // API_KEY_ROTATION_OVERLAP_MS unless the request overrides it.
+    API_KEY_STORE: z
+      .enum(["memory", "postgres"])
+      .default(process.env.DATABASE_URL ? "postgres" : "memory"),
+    API_KEY_ROTATION_OVERLAP_MS: z.coerce.number().int().nonnegative().default(86_400_000),
+    // Signed /v1/call requests. Keys are kept sealed with API_KEY_SECRETS_KEY
+    // (falls back to JWT_SECRET) so signatures can be verified; a signed
+    // request's timestamp may differ from the gateway clock by at most
+    // REQUEST_SIGNATURE_TOLERANCE_MS. Nonces use API_KEY_STORE.
+    API_KEY_SECRETS_KEY: z.string().min(1).optional(),
+    REQUEST_SIGNATURE_TOLERANCE_MS: z.coerce.number().int().positive().default(300_000),
 
     // Auth per-request timeout (graceful timeout with 504 Gateway Timeout)
     AUTH_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
@@ -131,6 +229,137 @@ export const envSchema = z
       .positive()
       .default(60_000), // 1 minute sliding window
 
+    // SEP-10 wallet sign-in (GET /auth/wallet/challenge, POST /auth/wallet).
+    // Enabled when SEP10_SIGNING_SECRET is set; SEP10_HOME_DOMAIN is then
+    // required. SEP10_WEB_AUTH_DOMAIN defaults to the home domain.
+    SEP10_SIGNING_SECRET: z
+      .string()
+      .regex(/^S[A-Z2-7]{55}$/, "SEP10_SIGNING_SECRET must be a Stellar secret seed (S…)")
+      .optional(),
+    SEP10_HOME_DOMAIN: z.string().min(1).optional(),
+    SEP10_WEB_AUTH_DOMAIN: z.string().min(1).optional(),
+    SEP10_CHALLENGE_TTL_SECONDS: z.coerce.number().int().min(60).max(3_600).default(300),
+
+    // OIDC single sign-on (/auth/sso/*). A JSON array of identity providers:
+    //   [{ "id": "okta", "name": "Okta", "issuer": "https://acme.okta.com",
+    //      "clientId": "…", "clientSecret": "…",
+    //      "redirectUri": "https://app.callora.example/sso/okta",
+    //      "scopes": ["openid", "email", "profile"] }]
+    // SSO is off when unset or empty. See docs/sso.md.
+    OIDC_PROVIDERS: z
+      .string()
+      .optional()
+      .transform((value, ctx) => {
+        if (!value || value.trim().length === 0) {
+          return [];
+        }
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(value);
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `OIDC_PROVIDERS must be valid JSON: ${(error as Error).message}`,
+          });
+          return z.NEVER;
+        }
+
+        if (!Array.isArray(parsed)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "OIDC_PROVIDERS must be a JSON array of identity provider objects",
+          });
+          return z.NEVER;
+        }
+        return parsed as Array<unknown>;
+      })
+      .pipe(
+        z
+          .array(
+            z.object({
+              id: z
+                .string()
+                .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, "id must be 1-32 lowercase letters, digits, _ or -"),
+              name: z.string().min(1).optional(),
+              issuer: z.string().url("issuer must be a URL"),
+              clientId: z.string().min(1, "clientId is required"),
+              clientSecret: z.string().min(1).optional(),
+              redirectUri: z.string().url("redirectUri must be a URL"),
+              scopes: z.array(z.string().min(1)).optional(),
+            }),
+          )
+          .refine(
+            (providers) => new Set(providers.map((p) => p.id)).size === providers.length,
+            "OIDC_PROVIDERS ids must be unique",
+          ),
+      ),
+    OIDC_LOGIN_TTL_SECONDS: z.coerce.number().int().min(60).max(3_600).default(600),
+
+    // TOTP multi-factor authentication (/api/mfa, /api/admin/mfa). Step-up
+    // tokens from /mfa/verify last MFA_STEP_UP_TTL_SECONDS. With MFA_ENFORCE,
+    // sensitive operations are refused to accounts that have not enrolled.
+    // TOTP secrets are sealed with MFA_SECRETS_KEY (falls back to JWT_SECRET).
+    // See docs/mfa.md.
+    MFA_ISSUER: z.string().min(1).default("Callora"),
+    MFA_STEP_UP_TTL_SECONDS: z.coerce.number().int().min(60).max(3_600).default(300),
+    MFA_ENFORCE: z
+      .string()
+      .transform((v) => v === "true")
+      .default(false),
+    MFA_SECRETS_KEY: z.string().min(1).optional(),
+
+    // Four-eyes approval (/api/admin/approvals). Admin actions covered by a
+    // policy become change requests that a second admin must approve within
+    // ADMIN_APPROVAL_TTL_SECONDS. JSON array, e.g.
+    //   [{ "action": "credits.grant", "thresholdUsdc": 100 },
+    //    { "action": "audit.replay" }]
+    // No approvals are required when unset. See docs/admin-approvals.md.
+    ADMIN_APPROVAL_POLICIES: z
+      .string()
+      .optional()
+      .transform((value, ctx) => {
+        if (!value || value.trim().length === 0) {
+          return [];
+        }
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(value);
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `ADMIN_APPROVAL_POLICIES must be valid JSON: ${(error as Error).message}`,
+          });
+          return z.NEVER;
+        }
+
+        if (!Array.isArray(parsed)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "ADMIN_APPROVAL_POLICIES must be a JSON array of policy objects",
+          });
+          return z.NEVER;
+        }
+        return parsed as Array<unknown>;
+      })
+      .pipe(
+        z.array(
+          z
+            .object({
+              action: z.enum(ADMIN_APPROVAL_ACTIONS),
+              thresholdUsdc: z.number().nonnegative().optional(),
+            })
+            .strict()
+            .refine(
+              (policy) =>
+                policy.thresholdUsdc === undefined || AMOUNT_APPROVAL_ACTIONS.includes(policy.action),
+              "thresholdUsdc only applies to credits.grant and refunds.issue",
+            ),
+        ),
+      ),
+    ADMIN_APPROVAL_TTL_SECONDS: z.coerce.number().int().min(300).max(2_592_000).default(86_400),
+
     // Credits endpoint token-bucket rate limiting
     CREDITS_RATE_LIMIT_CAPACITY: z.coerce.number().int().positive().default(10),
     CREDITS_RATE_LIMIT_REFILL_RATE: z.coerce.number().positive().default(1),
@@ -537,6 +766,14 @@ export const envSchema = z
         message: "HORIZON_URL is required when HORIZON_ENABLED=true",
       });
     }
+
+    if (values.SEP10_SIGNING_SECRET && !values.SEP10_HOME_DOMAIN) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SEP10_HOME_DOMAIN"],
+        message: "SEP10_HOME_DOMAIN is required when SEP10_SIGNING_SECRET is set",
+      });
+    }
   });
 
 const parsed = envSchema.safeParse(process.env);
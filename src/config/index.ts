@@ -149,6 +149,34 @@ export const config = {
     upstreamUrl: validatedUpstreamUrl,
     timeoutMs: env.PROXY_TIMEOUT_MS,
     allowedHosts: upstreamHostAllowlist,
+    maxBodySize: env.GATEWAY_BODY_LIMIT,
+  },
+
+  responseCache: {
+    maxBytes: env.RESPONSE_CACHE_MAX_BYTES,
+    maxEntryBytes: env.RESPONSE_CACHE_MAX_ENTRY_BYTES,
+  },
+
+  originHealthProbe: {
+    intervalMs: env.ORIGIN_HEALTH_PROBE_INTERVAL_MS,
+    timeoutMs: env.ORIGIN_HEALTH_PROBE_TIMEOUT_MS,
+  },
+
+  proxyRetry: {
+    maxAttempts: env.PROXY_RETRY_MAX_ATTEMPTS,
+    baseDelayMs: env.PROXY_RETRY_BASE_DELAY_MS,
+    budgetRatio: env.PROXY_RETRY_BUDGET_RATIO,
+    budgetMinPerWindow: env.PROXY_RETRY_BUDGET_MIN_PER_WINDOW,
+    budgetWindowMs: env.PROXY_RETRY_BUDGET_WINDOW_MS,
+  },
+
+  streaming: {
+    meteringIntervalMs: env.STREAM_METERING_INTERVAL_MS,
+  },
+
+  sandbox: {
+    rateLimitMaxRequests: env.SANDBOX_RATE_LIMIT_MAX_REQUESTS,
+    rateLimitWindowMs: env.SANDBOX_RATE_LIMIT_WINDOW_MS,
   },
 
   restRateLimit: {
@@ -178,6 +206,34 @@ export const config = {
     maxRequests: env.LOGIN_RATE_LIMIT_MAX_REQUESTS,
   },
 
+  walletAuth:
+    env.SEP10_SIGNING_SECRET && env.SEP10_HOME_DOMAIN
+      ? {
+          signingSecret: env.SEP10_SIGNING_SECRET,
+          homeDomain: env.SEP10_HOME_DOMAIN,
+          webAuthDomain: env.SEP10_WEB_AUTH_DOMAIN ?? env.SEP10_HOME_DOMAIN,
+          challengeTtlSeconds: env.SEP10_CHALLENGE_TTL_SECONDS,
+        }
+      : undefined,
+
+  oidc: {
+    providers: env.OIDC_PROVIDERS,
+    loginTtlSeconds: env.OIDC_LOGIN_TTL_SECONDS,
+  },
+
+  mfa: {
+    issuer: env.MFA_ISSUER,
+    stepUpTtlSeconds: env.MFA_STEP_UP_TTL_SECONDS,
+    enforce: env.MFA_ENFORCE,
+    secretsKey: env.MFA_SECRETS_KEY ?? env.JWT_SECRET,
+    stepUpSecret: env.JWT_SECRET,
+  },
+
+  adminApprovals: {
+    policies: env.ADMIN_APPROVAL_POLICIES,
+    ttlSeconds: env.ADMIN_APPROVAL_TTL_SECONDS,
+  },
+
   creditsRateLimit: {
     capacity: env.CREDITS_RATE_LIMIT_CAPACITY,
     refillRate: env.CREDITS_RATE_LIMIT_REFILL_RATE,
@@ -203,6 +259,32 @@ export const config = {
     postgresTable: env.RATE_LIMIT_PG_TABLE,
   },
 
+  metering: {
+    store: env.METERING_STORE,
+    postgresTable: env.METERING_PG_TABLE,
+    pricingTable: env.PRICING_PG_TABLE,
+    spendCapTable: env.SPEND_CAP_PG_TABLE,
+  },
+
+  apiKeys: {
+    store: env.API_KEY_STORE,
+    rotationOverlapMs: env.API_KEY_ROTATION_OVERLAP_MS,
+    secretsKey: env.API_KEY_SECRETS_KEY ?? env.JWT_SECRET,
+    signatureToleranceMs: env.REQUEST_SIGNATURE_TOLERANCE_MS,
+  },
+
+  upstreamCredentials: {
+    store: env.UPSTREAM_CREDENTIALS_STORE,
+    postgresTable: env.UPSTREAM_CREDENTIALS_PG_TABLE,
+    encryptionKey: env.UPSTREAM_CREDENTIALS_KEY ?? env.JWT_SECRET,
+  },
+
+  balanceHolds: {
+    store: env.BALANCE_HOLD_STORE,
+    postgresTable: env.BALANCE_HOLD_PG_TABLE,
+    ttlMs: env.BALANCE_HOLD_TTL_MS,
+  },
+
   sorobanRpc:
     env.SOROBAN_RPC_ENABLED && env.SOROBAN_RPC_URL
       ? {
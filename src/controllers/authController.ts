@@ -1,61 +1,226 @@
 import type { Request, Response, NextFunction } from 'express';
 import { RefreshTokenService } from '../services/refreshTokenService.js';
 import type { RefreshTokenRepository } from '../repositories/refreshTokenRepository.js';
+import {
+  defaultUserRepository,
+  type UserDto,
+  type UserRepository,
+} from '../repositories/userRepository.js';
+import type { WalletAuthService } from '../services/walletAuth.js';
+import type { OidcService } from '../services/oidc.js';
+import type { SsoAccountRepository } from '../repositories/ssoAccountRepository.js';
 import { logger } from '../logger.js';
-import { UnauthorizedError } from '../errors/index.js';
+import { isAppError, ServiceUnavailableError, UnauthorizedError } from '../errors/index.js';
 import { getClientIp, DEFAULT_PROXY_HEADERS } from '../lib/clientIp.js';
 import { successEnvelope, getRequestId } from '../lib/envelope.js';
 
 export interface AuthControllerOptions {
   refreshTokenService: RefreshTokenService;
   refreshTokenRepository: RefreshTokenRepository;
+  /** SEP-10 wallet sign-in. Wallet endpoints answer 503 when it is not configured. */
+  walletAuth?: WalletAuthService;
+  /** Where wallet users are found or created. Defaults to the pg-backed repository. */
+  userRepository?: UserRepository;
+  /** OIDC single sign-on. SSO endpoints answer 503 when it is not configured. */
+  sso?: OidcService;
+  /** Links SSO identities to users; required with `sso`. */
+  ssoAccounts?: SsoAccountRepository;
 }
 
 export class AuthController {
   private readonly refreshTokenService: RefreshTokenService;
   private readonly refreshTokenRepository: RefreshTokenRepository;
+  private readonly walletAuth?: WalletAuthService;
+  private readonly userRepository: UserRepository;
+  private readonly sso?: OidcService;
+  private readonly ssoAccounts?: SsoAccountRepository;
 
   constructor(options: AuthControllerOptions) {
     this.refreshTokenService = options.refreshTokenService;
     this.refreshTokenRepository = options.refreshTokenRepository;
+    this.walletAuth = options.walletAuth;
+    this.userRepository = options.userRepository ?? defaultUserRepository;
+    this.sso = options.sso;
+    this.ssoAccounts = options.ssoAccounts;
+  }
+
+  /**
+   * Issue a SEP-10 challenge transaction for a wallet to co-sign.
+   *
+   * GET /auth/wallet/challenge?account=G…
+   * Rate limited together with POST /auth/wallet by loginThrottle middleware.
+   */
+  async walletChallenge(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!this.walletAuth) {
+        next(walletAuthNotConfigured());
+        return;
+      }
+
+      const challenge = await this.walletAuth.createChallenge(String(req.query.account));
+      res.json(successEnvelope(challenge, getRequestId(req)));
+    } catch (error) {
+      logger.error('[AuthController] Error issuing wallet challenge', { error });
+      next(error);
+    }
   }
 
   /**
    * Wallet-based login with IP-based rate limiting applied at the route level.
-   * Returns JWT on successful signature verification.
+   * Verifies the co-signed SEP-10 challenge, finds or creates the wallet's
+   * user and returns a new token pair.
    *
    * POST /auth/wallet
    * Rate limited to 5 requests per minute per IP by loginThrottle middleware.
    */
   async walletLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Extract client IP for structured logging
+    const clientIp = getClientIp(req, process.env.TRUST_PROXY_HEADERS === 'true', DEFAULT_PROXY_HEADERS);
+
     try {
-      const { walletAddress, signature, message } = req.body;
+      const { transaction } = req.body;
 
-      if (!walletAddress || !signature || !message) {
+      if (!transaction) {
         next(new UnauthorizedError('Missing required fields', 'MISSING_AUTH_FIELDS'));
         return;
       }
 
-      // Extract client IP for structured logging
-      const clientIp = getClientIp(req, process.env.TRUST_PROXY_HEADERS === 'true', DEFAULT_PROXY_HEADERS);
+      if (!this.walletAuth) {
+        next(walletAuthNotConfigured());
+        return;
+      }
 
-      logger.info('[AuthController] Wallet login attempt', {
-        walletAddress,
+      const requestId = getRequestId(req);
+      const { account, signers } = await this.walletAuth.verify(transaction);
+      const user = await this.findOrCreateWalletUser(account);
+      const tokenPair = await this.refreshTokenService.issueTokenPair(
+        user.id,
+        account,
+        this.refreshTokenRepository
+      );
+
+      logger.info('[AuthController] Wallet login succeeded', {
+        userId: user.id,
+        walletAddress: account,
+        signers: signers.length,
         clientIp,
       });
 
-      // TODO: Implement actual Stellar signature verification
-      // This would typically call a service to verify the wallet signature
-      // against the message and derive a user ID for JWT generation
-
-      next(new UnauthorizedError('Wallet login not fully implemented', 'AUTH_NOT_IMPLEMENTED'));
+      res.json(successEnvelope({
+        accessToken: tokenPair.accessToken,
+        refreshToken: tokenPair.refreshToken,
+        tokenType: 'Bearer'
+      }, requestId));
 
     } catch (error) {
+      if (isAppError(error)) {
+        logger.warn('[AuthController] Wallet login rejected', { code: error.code, clientIp });
+        next(error);
+        return;
+      }
       logger.error('[AuthController] Error during wallet login', { error });
       next(new UnauthorizedError('Login failed', 'REFRESH_FAILED'));
     }
   }
 
+  /**
+   * A wallet's user is keyed by its Stellar address and created on its
+   * first login.
+   */
+  private async findOrCreateWalletUser(account: string): Promise<UserDto> {
+    const existing = await this.userRepository.findByStellarAddress(account);
+    if (existing) return existing;
+
+    try {
+      return await this.userRepository.create({ stellarAddress: account });
+    } catch (error) {
+      // A concurrent first login for the same wallet created it first.
+      const created = await this.userRepository.findByStellarAddress(account);
+      if (created) return created;
+      throw error;
+    }
+  }
+
+  /**
+   * List the configured identity providers.
+   *
+   * GET /auth/sso/providers
+   */
+  ssoProviders(req: Request, res: Response): void {
+    res.json(successEnvelope({ providers: this.sso?.listProviders() ?? [] }, getRequestId(req)));
+  }
+
+  /**
+   * Start an SSO login; the client sends the browser to the returned URL.
+   *
+   * GET /auth/sso/:provider/authorize
+   * Rate limited together with the other logins by loginThrottle middleware.
+   */
+  async ssoAuthorize(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!this.sso || !this.ssoAccounts) {
+        next(ssoNotConfigured());
+        return;
+      }
+
+      const authorization = await this.sso.beginLogin(req.params.provider);
+      res.json(successEnvelope(authorization, getRequestId(req)));
+    } catch (error) {
+      logger.error('[AuthController] Error starting SSO login', { error });
+      next(error);
+    }
+  }
+
+  /**
+   * Complete an SSO login with the code and state the identity provider
+   * redirected back with, then start a session for the linked user.
+   *
+   * POST /auth/sso/:provider/callback
+   * Rate limited together with the other logins by loginThrottle middleware.
+   */
+  async ssoCallback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const clientIp = getClientIp(req, process.env.TRUST_PROXY_HEADERS === 'true', DEFAULT_PROXY_HEADERS);
+    const provider = req.params.provider;
+
+    try {
+      if (!this.sso || !this.ssoAccounts) {
+        next(ssoNotConfigured());
+        return;
+      }
+
+      const { code, state } = req.body;
+      const identity = await this.sso.completeLogin(provider, { code, state });
+      const { userId, outcome } = await this.ssoAccounts.resolveUser(identity);
+      const tokenPair = await this.refreshTokenService.issueTokenPair(
+        userId,
+        undefined,
+        this.refreshTokenRepository
+      );
+
+      logger.info('[AuthController] SSO login succeeded', {
+        userId,
+        provider,
+        outcome,
+        clientIp,
+      });
+
+      res.json(successEnvelope({
+        accessToken: tokenPair.accessToken,
+        refreshToken: tokenPair.refreshToken,
+        tokenType: 'Bearer'
+      }, getRequestId(req)));
+
+    } catch (error) {
+      if (isAppError(error)) {
+        logger.warn('[AuthController] SSO login rejected', { code: error.code, provider, clientIp });
+        next(error);
+        return;
+      }
+      logger.error('[AuthController] Error during SSO login', { error });
+      next(new UnauthorizedError('Login failed', 'REFRESH_FAILED'));
+    }
+  }
+
   /**
     * Refresh access token using a valid refresh token.
    *
@@ -276,3 +441,11 @@ export class AuthController {
     }
   }
 }
+
+function walletAuthNotConfigured(): ServiceUnavailableError {
+  return new ServiceUnavailableError('Wallet sign-in is not configured', 'WALLET_AUTH_NOT_CONFIGURED');
+}
+
+function ssoNotConfigured(): ServiceUnavailableError {
+  return new ServiceUnavailableError('Single sign-on is not configured', 'SSO_NOT_CONFIGURED');
+}
@@ -105,6 +105,35 @@ describe('InMemoryApiRegistry', () => {
       /private or loopback IP range/i,
     );
   });
+
+  test('register validates origins', () => {
+    const registry = new InMemoryApiRegistry();
+    const origin = { id: 'eu', url: 'http://localhost:5002', weight: 1 };
+
+    assert.throws(
+      () => registry.register({ ...ENTRY_A, origins: [origin, { ...origin, url: 'http://localhost:5003' }] }),
+      /origin id "eu" is used more than once/i,
+    );
+    assert.throws(
+      () => registry.register({ ...ENTRY_A, origins: [{ ...origin, weight: 0 }] }),
+      /weight must be a positive integer/i,
+    );
+    assert.throws(
+      () => registry.register({ ...ENTRY_A, origins: [{ ...origin, url: 'http://169.254.169.254' }] }),
+      /private or loopback IP range/i,
+    );
+  });
+
+  test('register validates the retry policy', () => {
+    const registry = new InMemoryApiRegistry();
+
+    registry.register({ ...ENTRY_A, retry: { maxAttempts: 3, hedge: true } });
+    assert.deepEqual(registry.resolve(ENTRY_A.id)?.retry, { maxAttempts: 3, hedge: true });
+    assert.throws(
+      () => registry.register({ ...ENTRY_A, retry: { maxAttempts: 6 } }),
+      /maxAttempts must be an integer from 1 to 5/i,
+    );
+  });
 });
 
 // ── Cursor pagination (list) ────────────────────────────────────────────────
@@ -274,4 +303,56 @@ describe('resolveEndpointPrice', () => {
     assert.equal(result.endpointId, 'default');
     assert.equal(result.priceUsdc, 0);
   });
+
+  test('matches :name segments against any one segment', () => {
+    const templated: EndpointPricing[] = [
+      { endpointId: 'ep_forecast_city', path: '/forecast/:city/daily', priceUsdc: 0.05 },
+      { endpointId: 'ep_forecast', path: '/forecast', priceUsdc: 0.01 },
+    ];
+
+    assert.equal(resolveEndpointPrice(templated, '/forecast/paris/daily').endpointId, 'ep_forecast_city');
+    assert.equal(resolveEndpointPrice(templated, '/forecast/paris/daily/3').endpointId, 'ep_forecast_city');
+    assert.equal(resolveEndpointPrice(templated, '/forecast/paris/hourly').endpointId, 'ep_forecast');
+    assert.equal(resolveEndpointPrice(templated, '/forecast//daily').endpointId, 'ep_forecast');
+  });
+
+  describe('per-method pricing', () => {
+    const byMethod: EndpointPricing[] = [
+      { endpointId: 'ep_items_post', path: '/items', method: 'POST', priceUsdc: 0.05 },
+      { endpointId: 'ep_items', path: '/items', priceUsdc: 0.01 },
+      { endpointId: 'ep_wild_delete', path: '*', method: 'DELETE', priceUsdc: 0.2 },
+      { endpointId: 'ep_wild', path: '*', priceUsdc: 0.001 },
+    ];
+
+    test('prefers the entry priced for the request method', () => {
+      assert.equal(resolveEndpointPrice(byMethod, '/items', 'post').endpointId, 'ep_items_post');
+    });
+
+    test('falls back to the method-less entry for other methods', () => {
+      assert.equal(resolveEndpointPrice(byMethod, '/items', 'GET').endpointId, 'ep_items');
+    });
+
+    test('applies method-specific wildcards', () => {
+      assert.equal(resolveEndpointPrice(byMethod, '/other', 'DELETE').endpointId, 'ep_wild_delete');
+      assert.equal(resolveEndpointPrice(byMethod, '/other', 'GET').endpointId, 'ep_wild');
+    });
+
+    test('skips entries priced for a different method', () => {
+      const postOnly: EndpointPricing[] = [
+        { endpointId: 'ep_post', path: '/items', method: 'POST', priceUsdc: 0.05 },
+      ];
+
+      assert.equal(resolveEndpointPrice(postOnly, '/items', 'GET').endpointId, 'default');
+    });
+
+    test('matches entries whose policy allows the request method', () => {
+      const withPolicy: EndpointPricing[] = [
+        { endpointId: 'ep_post', path: '/items', method: 'POST', priceUsdc: 0.05, policy: { allowedMethods: ['POST', 'PUT'] } },
+        { endpointId: 'ep_put', path: '/items/bulk', method: 'PUT', priceUsdc: 0.5 },
+      ];
+
+      assert.equal(resolveEndpointPrice(withPolicy, '/items/1', 'PUT').endpointId, 'ep_post');
+      assert.equal(resolveEndpointPrice(withPolicy, '/items/bulk', 'PUT').endpointId, 'ep_put');
+    });
+  });
 });
@@ -1,7 +1,41 @@
-import { ApiRegistry, ApiRegistryEntry, EndpointPricing, PaginatedApiList } from '../types/gateway.js';
+import { ApiRegistry, ApiRegistryEntry, ApiRetryPolicy, EndpointPricing, PaginatedApiList, UpstreamOrigin } from '../types/gateway.js';
 import { validateUpstreamBaseUrl } from '../lib/upstreamTarget.js';
 import { decodeCursor, encodeCursor } from '../lib/cursorPagination.js';
 
+const ORIGIN_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+function validateOrigins(origins: UpstreamOrigin[]): UpstreamOrigin[] {
+  const ids = new Set<string>();
+  return origins.map((origin) => {
+    if (!ORIGIN_ID_PATTERN.test(origin.id)) {
+      throw new Error('origin id must be 1-32 letters, digits, hyphens or underscores.');
+    }
+    if (ids.has(origin.id)) {
+      throw new Error(`origin id "${origin.id}" is used more than once.`);
+    }
+    ids.add(origin.id);
+    if (!Number.isInteger(origin.weight) || origin.weight <= 0) {
+      throw new Error('origin weight must be a positive integer.');
+    }
+    if (origin.healthPath !== undefined && !origin.healthPath.startsWith('/')) {
+      throw new Error('origin healthPath must start with "/".');
+    }
+    return { ...origin, url: validateUpstreamBaseUrl(origin.url) };
+  });
+}
+
+const MAX_RETRY_ATTEMPTS = 5;
+
+function validateRetryPolicy(retry: ApiRetryPolicy): ApiRetryPolicy {
+  if (
+    retry.maxAttempts !== undefined
+    && (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1 || retry.maxAttempts > MAX_RETRY_ATTEMPTS)
+  ) {
+    throw new Error(`retry maxAttempts must be an integer from 1 to ${MAX_RETRY_ATTEMPTS}.`);
+  }
+  return { ...retry };
+}
+
 /**
  * In-memory API registry.
  * In production this would query a database table.
@@ -20,6 +54,8 @@ export class InMemoryApiRegistry implements ApiRegistry {
     const normalizedEntry: ApiRegistryEntry = {
       ...entry,
       base_url: validateUpstreamBaseUrl(entry.base_url),
+      ...(entry.origins ? { origins: validateOrigins(entry.origins) } : {}),
+      ...(entry.retry ? { retry: validateRetryPolicy(entry.retry) } : {}),
     };
 
     this.byId.set(normalizedEntry.id, normalizedEntry);
@@ -70,31 +106,69 @@ export class InMemoryApiRegistry implements ApiRegistry {
   }
 }
 
+/**
+ * Whether a call to `path` falls under the endpoint registered at
+ * `endpointPath`. Endpoints match by prefix; a `:name` segment, as in
+ * `/forecast/:city`, matches any one non-empty segment.
+ */
+export function endpointPathMatches(endpointPath: string, path: string): boolean {
+  const normalised = path.startsWith('/') ? path : `/${path}`;
+  const epPath = endpointPath.startsWith('/') ? endpointPath : `/${endpointPath}`;
+  if (!epPath.includes('/:')) return normalised.startsWith(epPath);
+
+  const wanted = epPath.split('/');
+  const actual = normalised.split('/');
+  if (actual.length < wanted.length) return false;
+  return wanted.every((segment, i) => {
+    if (segment.startsWith(':')) return actual[i] !== '';
+    return i === wanted.length - 1 ? actual[i].startsWith(segment) : actual[i] === segment;
+  });
+}
+
 /**
  * Find the price for a given path in an API entry's endpoints.
  * Falls back to the wildcard "*" endpoint if no exact match, or 0 if none defined.
+ *
+ * When `method` is given, endpoints priced for that method win over
+ * method-less endpoints on the same path, and endpoints priced for a
+ * different method are skipped unless their policy accepts it.
  */
 export function resolveEndpointPrice(
   endpoints: EndpointPricing[],
   path: string,
+  method?: string,
 ): EndpointPricing {
   // Normalize: strip leading slash for comparison
   const normalised = path.startsWith('/') ? path : `/${path}`;
+  const wantedMethod = method?.toUpperCase();
+
+  const candidates = endpoints.filter(
+    (e) =>
+      !e.method
+      || !wantedMethod
+      || e.method.toUpperCase() === wantedMethod
+      || e.policy?.allowedMethods?.some((m) => m.toUpperCase() === wantedMethod),
+  );
+  // Entries priced for the method sort ahead of entries whose policy accepts
+  // it, and both ahead of catch-all entries on the same path.
+  const specificity = (e: EndpointPricing): number =>
+    e.method?.toUpperCase() === wantedMethod ? 2 : e.method ? 1 : 0;
 
   // Try exact prefix match (longest first)
-  const sorted = [...endpoints]
+  const sorted = candidates
     .filter((e) => e.path !== '*')
-    .sort((a, b) => b.path.length - a.path.length);
+    .sort((a, b) => b.path.length - a.path.length || specificity(b) - specificity(a));
 
   for (const ep of sorted) {
-    const epPath = ep.path.startsWith('/') ? ep.path : `/${ep.path}`;
-    if (normalised.startsWith(epPath)) {
+    if (endpointPathMatches(ep.path, normalised)) {
       return ep;
     }
   }
 
   // Fall back to wildcard
-  const wildcard = endpoints.find((e) => e.path === '*');
+  const wildcard = candidates
+    .filter((e) => e.path === '*')
+    .sort((a, b) => specificity(b) - specificity(a))[0];
   if (wildcard) return wildcard;
 
   // No pricing configured — default free
@@ -50,6 +50,10 @@ export const apiEndpoints = sqliteTable('api_endpoints', {
   path: text('path').notNull(),
   method: text('method', { enum: httpMethodEnum }).notNull().default('GET'),
   price_per_call_usdc: text('price_per_call_usdc').notNull().default('0.01'), // Using text for precise decimal handling
+  pricing: text('pricing'), // JSON: { model, tiers[] } for graduated / volume pricing; NULL = flat price_per_call_usdc
+  cache: text('cache'), // JSON: { ttl_seconds, vary_headers?, hit_price_usdc? } gateway response caching; NULL = never cached
+  policy: text('policy'), // JSON: { timeout_ms?, max_request_body_bytes?, max_response_bytes?, allowed_methods? } gateway limits; NULL = gateway defaults
+  parameters: text('parameters'), // JSON: [{ name, in, required, description?, schema? }] documented parameters; NULL = none documented
   description: text('description'),
   created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
   updated_at: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
@@ -146,6 +150,11 @@ export const subscriptions = sqliteTable('subscriptions', {
    * NULL means use the platform default (maxRetries: 5, baseDelayMs: 1000 ms).
    */
   retry_policy: text('retry_policy'),
+  /**
+   * Version of the API calls without `@version` are answered by (see
+   * services/apiVersions.ts). NULL follows the API's listing.
+   */
+  pinned_version: text('pinned_version'),
   created_at: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .default(sql`(unixepoch())`),
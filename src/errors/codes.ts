@@ -66,6 +66,84 @@ export const ErrorCode = {
   /** Resolved upstream target fails validation or allowlist checks */
   UPSTREAM_TARGET_BLOCKED: "UPSTREAM_TARGET_BLOCKED",
 
+  /** The provider-managed upstream credential for the API could not be decrypted */
+  UPSTREAM_CREDENTIAL_UNAVAILABLE: "UPSTREAM_CREDENTIAL_UNAVAILABLE",
+
+  /** The subscription has used its metering_limit calls for the current calendar month */
+  METERING_LIMIT_EXCEEDED: "METERING_LIMIT_EXCEEDED",
+
+  /** The available balance (balance less in-flight holds) does not cover the hold for this call */
+  PREAUTHORIZATION_FAILED: "PREAUTHORIZATION_FAILED",
+
+  /** The API key's daily or monthly USDC spend cap has been reached */
+  API_KEY_SPEND_CAP_EXCEEDED: "API_KEY_SPEND_CAP_EXCEEDED",
+
+  /** The API key's endpoint scopes do not cover this method and path */
+  API_KEY_SCOPE_MISSING: "API_KEY_SCOPE_MISSING",
+
+  /** The endpoint's policy does not accept this HTTP method */
+  ENDPOINT_METHOD_NOT_ALLOWED: "ENDPOINT_METHOD_NOT_ALLOWED",
+
+  /** The request body exceeds the endpoint's maximum request body size */
+  ENDPOINT_REQUEST_BODY_TOO_LARGE: "ENDPOINT_REQUEST_BODY_TOO_LARGE",
+
+  /** The upstream did not respond within the endpoint's timeout */
+  ENDPOINT_TIMEOUT: "ENDPOINT_TIMEOUT",
+
+  /** The upstream response exceeds the endpoint's maximum response size */
+  ENDPOINT_RESPONSE_TOO_LARGE: "ENDPOINT_RESPONSE_TOO_LARGE",
+
+  /** A WebSocket upgrade was sent to an endpoint without streaming pricing */
+  ENDPOINT_NOT_STREAMING: "ENDPOINT_NOT_STREAMING",
+
+  /** A test-mode key called an API whose sandbox has no fixture matching the call and no sandbox base URL */
+  SANDBOX_RESPONSE_NOT_FOUND: "SANDBOX_RESPONSE_NOT_FOUND",
+
+  /** The API already has a sandbox fixture for the same method and path */
+  SANDBOX_FIXTURE_CONFLICT: "SANDBOX_FIXTURE_CONFLICT",
+
+  /** The API already stores the maximum number of sandbox fixtures */
+  SANDBOX_FIXTURE_LIMIT_EXCEEDED: "SANDBOX_FIXTURE_LIMIT_EXCEEDED",
+
+  /** The API's transform rules were saved again since the version the change was based on */
+  TRANSFORM_RULES_VERSION_CONFLICT: "TRANSFORM_RULES_VERSION_CONFLICT",
+
+  /** A call does not match the OpenAPI document its API's provider uploaded; the details list each violation */
+  REQUEST_SCHEMA_INVALID: "REQUEST_SCHEMA_INVALID",
+
+  /** An uploaded OpenAPI document is not a valid OpenAPI 3 document or references content outside itself */
+  OPENAPI_DOCUMENT_INVALID: "OPENAPI_DOCUMENT_INVALID",
+
+  /** The API's OpenAPI document was saved again since the version the change was based on */
+  OPENAPI_VERSION_CONFLICT: "OPENAPI_VERSION_CONFLICT",
+
+  /** A call or subscription names a version the API has not published */
+  API_VERSION_NOT_FOUND: "API_VERSION_NOT_FOUND",
+
+  /** A call or subscription pin targets an API version past its sunset date */
+  API_VERSION_SUNSET: "API_VERSION_SUNSET",
+
+  /** The API has already published a version with the same name */
+  API_VERSION_EXISTS: "API_VERSION_EXISTS",
+
+  /** The API already publishes the maximum number of versions */
+  API_VERSION_LIMIT_EXCEEDED: "API_VERSION_LIMIT_EXCEEDED",
+
+  /** A signed request is missing a signing header or has a malformed signature, timestamp or nonce */
+  REQUEST_SIGNATURE_MALFORMED: "REQUEST_SIGNATURE_MALFORMED",
+
+  /** The request signature does not match any key with the given prefix */
+  REQUEST_SIGNATURE_INVALID: "REQUEST_SIGNATURE_INVALID",
+
+  /** The signed request's timestamp is further from the gateway clock than REQUEST_SIGNATURE_TOLERANCE_MS */
+  REQUEST_TIMESTAMP_OUT_OF_WINDOW: "REQUEST_TIMESTAMP_OUT_OF_WINDOW",
+
+  /** The signed request's nonce has already been used with this key */
+  REQUEST_SIGNATURE_REPLAYED: "REQUEST_SIGNATURE_REPLAYED",
+
+  /** The API key was presented as a bearer key but only accepts signed requests, or the reverse */
+  API_KEY_AUTH_MODE_MISMATCH: "API_KEY_AUTH_MODE_MISMATCH",
+
   /** On-chain or pre-flight balance is too low */
   INSUFFICIENT_BALANCE: "INSUFFICIENT_BALANCE",
 
@@ -93,6 +171,15 @@ export const ErrorCode = {
   /** API key is not authorized for this operation */
   API_KEY_FORBIDDEN: "API_KEY_FORBIDDEN",
 
+  /** The API key cannot be rotated because it has been revoked or has expired */
+  API_KEY_NOT_ROTATABLE: "API_KEY_NOT_ROTATABLE",
+
+  /** An endpoint scope is malformed or does not match any endpoint of the API */
+  API_KEY_SCOPE_INVALID: "API_KEY_SCOPE_INVALID",
+
+  /** The API key was issued before request signing was supported; rotate it to enable signed requests */
+  API_KEY_SIGNING_UNAVAILABLE: "API_KEY_SIGNING_UNAVAILABLE",
+
   /** Refresh token is missing from the request */
   MISSING_REFRESH_TOKEN: "MISSING_REFRESH_TOKEN",
 
@@ -270,6 +357,63 @@ export const ErrorCode = {
   /** The authentication method is not yet implemented */
   AUTH_NOT_IMPLEMENTED: "AUTH_NOT_IMPLEMENTED",
 
+  /** Wallet sign-in is disabled because no SEP-10 signing key is configured */
+  WALLET_AUTH_NOT_CONFIGURED: "WALLET_AUTH_NOT_CONFIGURED",
+
+  /** The wallet login transaction is not a valid, unexpired SEP-10 challenge issued by this server */
+  WALLET_CHALLENGE_INVALID: "WALLET_CHALLENGE_INVALID",
+
+  /** The SEP-10 challenge was already used to sign in, or its nonce is unknown */
+  WALLET_CHALLENGE_USED: "WALLET_CHALLENGE_USED",
+
+  /** The challenge's client signatures are invalid or do not meet the account's signing threshold */
+  WALLET_SIGNATURE_INVALID: "WALLET_SIGNATURE_INVALID",
+
+  /** Single sign-on is disabled because no OIDC identity providers are configured */
+  SSO_NOT_CONFIGURED: "SSO_NOT_CONFIGURED",
+
+  /** No OIDC identity provider is configured with the requested id */
+  SSO_PROVIDER_NOT_FOUND: "SSO_PROVIDER_NOT_FOUND",
+
+  /** The identity provider's discovery document, JWKS or token endpoint could not be reached or returned an invalid response */
+  SSO_PROVIDER_UNAVAILABLE: "SSO_PROVIDER_UNAVAILABLE",
+
+  /** The SSO callback's state is unknown, expired, already used or belongs to another provider */
+  SSO_STATE_INVALID: "SSO_STATE_INVALID",
+
+  /** The identity provider's ID token failed signature, issuer, audience, expiry or nonce checks */
+  SSO_TOKEN_INVALID: "SSO_TOKEN_INVALID",
+
+  /** Multi-factor authentication is already on; turn it off before enrolling another authenticator */
+  MFA_ALREADY_ENABLED: "MFA_ALREADY_ENABLED",
+
+  /** The TOTP or recovery code is wrong, expired or was already used */
+  MFA_CODE_INVALID: "MFA_CODE_INVALID",
+
+  /** MFA_ENFORCE is set and the account must enrol an authenticator before this operation */
+  MFA_ENROLLMENT_REQUIRED: "MFA_ENROLLMENT_REQUIRED",
+
+  /** The account has no MFA enrolment to confirm or verify against */
+  MFA_NOT_ENROLLED: "MFA_NOT_ENROLLED",
+
+  /** The operation needs a current step-up token from POST /mfa/verify in the X-MFA-Token header */
+  MFA_STEP_UP_REQUIRED: "MFA_STEP_UP_REQUIRED",
+
+  /** The admin's role does not grant the permission the route requires */
+  ADMIN_PERMISSION_DENIED: "ADMIN_PERMISSION_DENIED",
+
+  /** A change request must be approved or rejected by an admin other than the one who made it */
+  APPROVAL_SELF_DECISION: "APPROVAL_SELF_DECISION",
+
+  /** No change request exists with the given id */
+  APPROVAL_REQUEST_NOT_FOUND: "APPROVAL_REQUEST_NOT_FOUND",
+
+  /** The change request has already been approved or rejected */
+  APPROVAL_REQUEST_NOT_PENDING: "APPROVAL_REQUEST_NOT_PENDING",
+
+  /** The change request expired before anyone approved it */
+  APPROVAL_REQUEST_EXPIRED: "APPROVAL_REQUEST_EXPIRED",
+
   /** A required system component is not configured */
   COMPONENT_NOT_CONFIGURED: "COMPONENT_NOT_CONFIGURED"
 
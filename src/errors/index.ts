@@ -71,6 +71,13 @@ export class ConflictError extends AppError {
   }
 }
 
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string = "Request body too large", code?: ErrorCodeType) {
+    super(message, 413, code ?? "REQUEST_BODY_TOO_LARGE");
+    this.name = "PayloadTooLargeError";
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = "Internal server error", code?: ErrorCodeType) {
     super(message, 500, code ?? "INTERNAL_SERVER_ERROR");
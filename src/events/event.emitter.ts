@@ -2,6 +2,8 @@ import { logger } from '../logger.js';
 import { dispatchToAll } from '../webhooks/webhook.dispatcher.js';
 import { WebhookStore } from '../webhooks/webhook.store.js';
 import type {
+  ApiKeySpendCapReachedData,
+  ApiVersionDeprecatedData,
   LowBalanceAlertData,
   NewApiCallData,
   SettlementCompletedData,
@@ -27,6 +29,8 @@ export interface CalloraEventPayloadMap {
   'usage.anomaly.detected': UsageAnomalyDetectedData;
   'fee_abstraction.executed': FeeAbstractionExecutedData;
   'usage_event.created': UsageEventCreatedData;
+  'api_key.spend_cap.reached': ApiKeySpendCapReachedData;
+  'api.version.deprecated': ApiVersionDeprecatedData;
 }
 export type CalloraEventName = keyof CalloraEventPayloadMap;
 
@@ -49,6 +53,8 @@ const createListenerSetMap = (): ListenerSetMap => ({
   'usage.anomaly.detected': new Set<CalloraEventListener<'usage.anomaly.detected'>>(),
   'fee_abstraction.executed': new Set<CalloraEventListener<'fee_abstraction.executed'>>(),
   'usage_event.created': new Set<CalloraEventListener<'usage_event.created'>>(),
+  'api_key.spend_cap.reached': new Set<CalloraEventListener<'api_key.spend_cap.reached'>>(),
+  'api.version.deprecated': new Set<CalloraEventListener<'api.version.deprecated'>>(),
 });
 
 async function handleEvent<K extends CalloraEventName>(
@@ -141,4 +147,10 @@ calloraEvents.on('fee_abstraction.executed', (developerId, data) => {
 });
 calloraEvents.on('usage_event.created', (developerId, data) => {
   return handleEvent('usage_event.created', developerId, data);
-});
\ No newline at end of file
+});
+calloraEvents.on('api_key.spend_cap.reached', (developerId, data) => {
+  return handleEvent('api_key.spend_cap.reached', developerId, data);
+});
+calloraEvents.on('api.version.deprecated', (developerId, data) => {
+  return handleEvent('api.version.deprecated', developerId, data);
+});
@@ -12,6 +12,7 @@ import { createGatewayIpAllowlist } from "./middleware/ipAllowlist.js";
 import { createAccessLogMiddleware } from "./middleware/accessLog.js";
 import { requestIdMiddleware, responseEnrichMiddleware } from "./middleware/requestId.js";
 import { createRouteBodyLimitMiddleware } from "./middleware/routeBodyLimit.js";
+import { routeUpgradesThrough } from "./lib/websocket.js";
 import { metricsEndpoint } from "./metrics.js";
 import {
   awaitWebhookDispatcherIdle,
@@ -33,11 +34,29 @@ import logsRouter from "./routes/logs.js";
 import { createUsageAnomaliesRouter } from "./routes/admin/usage/anomalies.js";
 import refundsRouter from "./routes/refunds.js";
 import { defaultDeveloperRepository } from "./repositories/developerRepository.js";
+import { defaultSubscriptionRepository } from "./repositories/subscriptionRepository.js";
 import { createBillingService } from "./services/billingService.js";
 import {
   createConfiguredRateLimiter,
   resolveRateLimiterConfig,
 } from "./services/rateLimiter.js";
+import { createConfiguredSubscriptionMeter } from "./services/subscriptionMetering.js";
+import { createSubscriptionPinLookup } from "./services/apiVersions.js";
+import { createConfiguredPricingCallCounter } from "./services/endpointPricing.js";
+import { createConfiguredBalanceHoldService } from "./services/balanceHolds.js";
+import { createConfiguredUpstreamCredentialService } from "./services/upstreamCredentials.js";
+import { createConfiguredApiKeySpendCaps } from "./services/apiKeySpendCaps.js";
+import { createConfiguredApiKeyRepository } from "./repositories/apiKeyRepository.js";
+import { createConfiguredRequestNonceStore } from "./services/requestSigning.js";
+import { createConfiguredWalletAuthService } from "./services/walletAuth.js";
+import { createConfiguredOidcService } from "./services/oidc.js";
+import { PgSsoAccountRepository } from "./repositories/ssoAccountRepository.js";
+import { createConfiguredMfaService, PostgresMfaStore, setMfaService } from "./services/mfa.js";
+import {
+  createConfiguredAdminApprovalService,
+  PostgresAdminApprovalStore,
+  setAdminApprovalService,
+} from "./services/adminApprovals.js";
 import { PgUsageEventsRepository } from "./repositories/usageEventsRepository.pg.js";
 import { createRevenueLedgerIndexerJob } from "./services/revenueLedgerIndexer.js";
 import { RevenueSettlementService } from "./services/revenueSettlementService.js";
@@ -57,10 +76,14 @@ import {
 import { createSloAlertJob } from "./workers/sloAlertJob.js";
 import { createMonthlyInvoiceJob } from "./workers/monthlyInvoiceJob.js";
 import { createSettlementReconWorker } from "./workers/settlementRecon.js";
+import { createOriginHealthProbeJob } from "./workers/originHealthProbe.js";
 import { createDeveloperRouter } from './routes/developerRoutes.js';
 import { createGatewayRouter } from './routes/gatewayRoutes.js';
 import { createProxyRouter } from './routes/proxyRoutes.js';
 import { createRefreshTokenRouter } from './routes/refresh-token.js';
+import { createAuthRouter } from './routes/auth.js';
+import { createMfaRouter } from './routes/mfa.js';
+import { requireAuth } from './middleware/requireAuth.js';
 import { AuthController } from './controllers/authController.js';
 import { RefreshTokenService } from './services/refreshTokenService.js';
 import { DatabaseRefreshTokenRepository } from './repositories/refreshTokenRepository.js';
@@ -122,6 +145,9 @@ app.use((req, res, next) => {
   if (req.path === "/api/webhooks") {
     // Skip JSON parsing for webhook route (we need raw body)
     next();
+  } else if (req.path.startsWith("/v1/call/")) {
+    // The proxy streams the raw body upstream byte-for-byte
+    next();
   } else {
     express.json()(req, res, next);
   }
@@ -167,6 +193,32 @@ if (isDirectExecution) {
     resolveRateLimiterConfig(config.rateLimiter),
     pool,
   );
+  // Per-subscription monthly call allowance (subscriptions.metering_limit),
+  // shared by /api/gateway and /v1/call. See METERING_* in src/config/env.ts.
+  const subscriptionMeter = createConfiguredSubscriptionMeter(
+    config.metering,
+    defaultSubscriptionRepository,
+    pool,
+  );
+  // Per-consumer call counts for graduated / volume endpoint pricing.
+  const pricingCounter = createConfiguredPricingCallCounter(config.metering, pool);
+  // Holds reserved against a balance while /v1/call calls are in flight.
+  // See BALANCE_HOLD_* in src/config/env.ts.
+  const balanceHolds = createConfiguredBalanceHoldService(config.balanceHolds, pool);
+  // Provider-managed credentials attached to proxied calls.
+  // See UPSTREAM_CREDENTIALS_* in src/config/env.ts.
+  const upstreamCredentials = createConfiguredUpstreamCredentialService(
+    config.upstreamCredentials,
+    pool,
+  );
+  // Per-API-key daily / monthly USDC budgets, shared by /api/gateway, /v1/call
+  // and the key listing.
+  const spendCaps = createConfiguredApiKeySpendCaps(config.metering, pool);
+  // Consumer API keys issued by the key routes and accepted by /v1/call.
+  // See API_KEY_STORE in src/config/env.ts.
+  const apiKeyRepository = createConfiguredApiKeyRepository(config.apiKeys, pool);
+  // Nonces of accepted signed /v1/call requests, kept alongside the keys.
+  const requestNonceStore = createConfiguredRequestNonceStore(config.apiKeys, pool);
   const usageStore = createPostgresUsageStore(pool);
   const settlementStore = createPostgresSettlementStore(pool);
   const usageEventsRepository = new PgUsageEventsRepository(pool);
@@ -210,6 +262,14 @@ if (isDirectExecution) {
     intervalMs: config.idempotency.sweeperIntervalMs,
   });
 
+  // Health probes of the origins of multi-origin APIs; the proxy sends calls
+  // to healthy origins first. See ORIGIN_HEALTH_PROBE_* in src/config/env.ts.
+  const originHealthProbeJob = createOriginHealthProbeJob(registry, {
+    intervalMs: config.originHealthProbe.intervalMs,
+    timeoutMs: config.originHealthProbe.timeoutMs,
+    allowedHosts: config.proxy.allowedHosts,
+  });
+
   const slowQueryAlerterJob = config.slowQueryAlerter.webhookUrl
     ? createSlowQueryAlerterJob(pool, {
         webhookUrl: config.slowQueryAlerter.webhookUrl,
@@ -255,6 +315,15 @@ if (isDirectExecution) {
     ],
   ]);
 
+  // MFA enrolments are shared by every instance. requireStepUp and the MFA
+  // routes (including /api/admin/mfa) use the service installed here.
+  setMfaService(createConfiguredMfaService(config.mfa, new PostgresMfaStore(pool)));
+  // So are pending admin change requests (/api/admin/approvals).
+  setAdminApprovalService(
+    createConfiguredAdminApprovalService(config.adminApprovals, new PostgresAdminApprovalStore(pool)),
+  );
+  app.use('/api/mfa', createMfaRouter({ authenticate: requireAuth }));
+
   // 1. Developer Dashboard Routes (Auth required)
   const developerRouter = createDeveloperRouter({
     settlementStore,
@@ -283,6 +352,8 @@ if (isDirectExecution) {
     usageStore,
     upstreamUrl: config.proxy.upstreamUrl,
     apiKeys,
+    subscriptionMeter,
+    spendCaps,
   });
   app.use("/api/gateway", createGatewayIpAllowlist(), gatewayRouter);
 
@@ -300,9 +371,19 @@ if (isDirectExecution) {
     usageStore,
     registry,
     apiKeys,
+    subscriptionMeter,
+    pricingCounter,
+    balanceHolds,
+    upstreamCredentials,
+    spendCaps,
+    apiKeyRepository,
+    requestNonceStore,
+    // Calls without `@version` use the version the caller's subscription pins.
+    pinnedVersions: createSubscriptionPinLookup(defaultSubscriptionRepository),
     proxyConfig: {
       timeoutMs: config.proxy.timeoutMs,
       allowedHosts: config.proxy.allowedHosts,
+      maxBodySize: config.proxy.maxBodySize,
     },
     // Pass the drain state so the router can reject new requests with 503
     // during the graceful shutdown window.
@@ -312,6 +393,9 @@ if (isDirectExecution) {
   const apiKeyRouter = createApiKeyRouter({
     apiRepository: defaultApiRepository,
     developerRepository: defaultDeveloperRepository,
+    apiKeyRepository,
+    spendCaps,
+    rotationOverlapMs: config.apiKeys.rotationOverlapMs,
   });
   const proxyDrainTracker = createInFlightDrainTracker('gateway-proxy');
 
@@ -328,9 +412,16 @@ if (isDirectExecution) {
     refreshTokenExpiry: process.env.REFRESH_TOKEN_EXPIRY ?? '7d',
   });
   const refreshTokenRepository = new DatabaseRefreshTokenRepository(pool);
+  // SEP-10 wallet sign-in; left off unless SEP10_SIGNING_SECRET is set.
+  const walletAuth = createConfiguredWalletAuthService(config.walletAuth, config.stellar, pool);
+  // OIDC single sign-on; left off unless OIDC_PROVIDERS lists a provider.
+  const sso = createConfiguredOidcService(config.oidc, pool);
   const authController = new AuthController({
     refreshTokenService,
     refreshTokenRepository,
+    walletAuth,
+    sso,
+    ssoAccounts: new PgSsoAccountRepository(pool),
   });
 
   const shutdownSubsystems: DrainableSubsystem[] = [
@@ -347,6 +438,11 @@ if (isDirectExecution) {
       beginShutdown: () => idempotencySweeperJob.beginShutdown(),
       awaitIdle: () => idempotencySweeperJob.awaitIdle(),
     },
+    {
+      name: "origin-health-probe",
+      beginShutdown: () => originHealthProbeJob.beginShutdown(),
+      awaitIdle: () => originHealthProbeJob.awaitIdle(),
+    },
     {
       name: "webhook-dispatcher",
       beginShutdown: stopWebhookDispatching,
@@ -368,6 +464,8 @@ if (isDirectExecution) {
       drainMiddleware: refreshTokenDrainTracker.middleware,
     }),
   );
+  // Wallet sign-in, SSO, refresh, revoke and logout under /api/auth.
+  app.use('/api/auth', createAuthRouter({ authController }));
 
 
   app.use(express.json());
@@ -382,6 +480,7 @@ if (isDirectExecution) {
     settlementStatusSyncJob.stop();
     settlementReconJob.stop();
     idempotencySweeperJob.stop();
+    originHealthProbeJob.stop();
     slowQueryAlerterJob?.stop();
     anomalyDetectorJob?.stop();
     monthlyInvoiceJob.stop();
@@ -424,6 +523,7 @@ if (isDirectExecution) {
       settlementStatusSyncJob.start();
       settlementReconJob.start();
       idempotencySweeperJob.start();
+      originHealthProbeJob.start();
       slowQueryAlerterJob?.start();
       anomalyDetectorJob?.start();
       monthlyInvoiceJob.start();
@@ -433,6 +533,10 @@ if (isDirectExecution) {
         console.log(`Callora backend listening on http://localhost:${PORT}`);
       });
 
+      // WebSocket upgrades go through the app like other requests, so
+      // /v1/call authenticates and meters them (see lib/websocket.ts).
+      server.on("upgrade", routeUpgradesThrough(app));
+
       // Track active connections so we can wait for them to finish
       const activeConnections = new Set<Socket>();
 
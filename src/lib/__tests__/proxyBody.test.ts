@@ -0,0 +1,41 @@
+/**
+ * Unit tests for proxy request body helpers.
+ */
+
+import { hasRequestBody, parseByteLimit } from '../proxyBody.js';
+
+describe('parseByteLimit', () => {
+  test.each([
+    ['100', 100],
+    ['512b', 512],
+    ['64kb', 64 * 1024],
+    ['1mb', 1024 * 1024],
+    ['1.5MB', 1.5 * 1024 * 1024],
+    ['2gb', 2 * 1024 ** 3],
+  ])('parses "%s"', (input, expected) => {
+    expect(parseByteLimit(input)).toBe(expected);
+  });
+
+  it('passes numbers through', () => {
+    expect(parseByteLimit(2048)).toBe(2048);
+  });
+
+  it('throws on unparseable input', () => {
+    expect(() => parseByteLimit('lots')).toThrow(/Invalid body size limit/);
+  });
+});
+
+describe('hasRequestBody', () => {
+  it('is true for a positive Content-Length', () => {
+    expect(hasRequestBody({ 'content-length': '10' })).toBe(true);
+  });
+
+  it('is true for a chunked body', () => {
+    expect(hasRequestBody({ 'transfer-encoding': 'chunked' })).toBe(true);
+  });
+
+  it('is false when neither header is present or length is zero', () => {
+    expect(hasRequestBody({})).toBe(false);
+    expect(hasRequestBody({ 'content-length': '0' })).toBe(false);
+  });
+});
@@ -517,6 +517,14 @@ export class BreakerRegistry {
     return breaker;
   }
 
+  /**
+   * Lists an existing breaker under the given slug, e.g. a breaker shared by
+   * several keys such as the gateway proxy's per-origin breakers.
+   */
+  register(slug: string, breaker: CircuitBreaker): void {
+    this.breakers.set(slug, breaker);
+  }
+
   /**
    * Retrieve the existing breaker for the given slug without creating one.
    * Returns undefined if no breaker has been registered for this slug.
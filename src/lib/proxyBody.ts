@@ -0,0 +1,173 @@
+/**
+ * Request body passthrough for the `/v1/call` proxy.
+ *
+ * The proxy must forward the caller's body to the upstream exactly as it was
+ * received — multipart uploads, form posts, protobuf, octet-stream, chunked
+ * or fixed-length — without ever re-encoding it as JSON.  The body is streamed
+ * straight from the incoming socket into `fetch()` so large uploads are never
+ * buffered in full, while a running byte count enforces `GATEWAY_BODY_LIMIT`.
+ *
+ * When an application-level body parser (e.g. `express.json()`) has already
+ * consumed the stream, the raw bytes are no longer available.  In that case
+ * the parsed value is re-serialised as a best-effort fallback: Buffers and
+ * strings are forwarded as-is, anything else is JSON-encoded.
+ */
+
+import type { IncomingHttpHeaders } from 'node:http';
+import type { Request } from 'express';
+import { PayloadTooLargeError } from '../errors/index.js';
+
+const BODYLESS_METHODS = new Set(['GET', 'HEAD']);
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parse an Express-style size string ("512kb", "1mb", "1048576") into bytes.
+ * Throws on unparseable input so misconfiguration surfaces at startup.
+ */
+export function parseByteLimit(limit: string | number): number {
+  if (typeof limit === 'number') {
+    return limit;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(limit);
+  if (!match) {
+    throw new Error(`Invalid body size limit: "${limit}"`);
+  }
+
+  const unit = (match[2] ?? 'b').toLowerCase();
+  return Math.floor(Number(match[1]) * BYTE_UNITS[unit]);
+}
+
+/** True when the request advertises a body via Content-Length or Transfer-Encoding. */
+export function hasRequestBody(headers: IncomingHttpHeaders): boolean {
+  if (headers['transfer-encoding'] !== undefined) {
+    return true;
+  }
+  const contentLength = Number(headers['content-length']);
+  return Number.isFinite(contentLength) && contentLength > 0;
+}
+
+/** The body to hand to `fetch()`, plus whether it was re-serialised. */
+export interface UpstreamRequestBody {
+  body: string | Uint8Array | AsyncIterable<Uint8Array> | undefined;
+  /** Required by undici whenever `body` is a stream. */
+  duplex?: 'half';
+  /**
+   * True when the raw stream had already been consumed and the body was
+   * rebuilt from `req.body`.  The original Content-Length no longer applies.
+   */
+  reserialised: boolean;
+  /**
+   * True once a streamed body has crossed the limit.  undici surfaces the
+   * aborted upload as a generic transport failure, so callers check this
+   * flag to map it back to 413 instead of 502.
+   */
+  limitExceeded(): boolean;
+  /**
+   * True once a streamed body failed on the caller's side: it crossed the
+   * limit or the caller's upload broke off. Neither says anything about the
+   * upstream's health, so the proxy keeps such failures out of its circuit
+   * breaker.
+   */
+  callerFailed(): boolean;
+}
+
+interface StreamState {
+  exceeded: boolean;
+  callerFailed: boolean;
+}
+
+async function* limitedStream(
+  source: AsyncIterable<Buffer | string>,
+  limitBytes: number,
+  state: StreamState,
+  tooLarge: () => Error,
+): AsyncGenerator<Uint8Array> {
+  let received = 0;
+  try {
+    for await (const chunk of source) {
+      const bytes = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      received += bytes.length;
+      if (received > limitBytes) {
+        state.exceeded = true;
+        throw tooLarge();
+      }
+      yield bytes;
+    }
+  } catch (error) {
+    state.callerFailed = true;
+    throw error;
+  }
+}
+
+/**
+ * Build the upstream request body for a proxied call.
+ *
+ * Rejects immediately with {@link PayloadTooLargeError} (or the error
+ * `tooLarge` builds) when a declared Content-Length exceeds `limitBytes`;
+ * chunked bodies are counted as they stream and abort the upstream request
+ * once the limit is crossed.
+ */
+export function buildUpstreamRequestBody(
+  req: Request,
+  limitBytes: number,
+  tooLarge: () => Error = () => new PayloadTooLargeError('Request body too large'),
+): UpstreamRequestBody {
+  if (BODYLESS_METHODS.has(req.method.toUpperCase()) || !hasRequestBody(req.headers)) {
+    return { body: undefined, reserialised: false, limitExceeded: () => false, callerFailed: () => false };
+  }
+
+  const declaredLength = Number(req.headers['content-length']);
+  if (Number.isFinite(declaredLength) && declaredLength > limitBytes) {
+    throw tooLarge();
+  }
+
+  const alreadyParsed = (req as Request & { _body?: boolean })._body === true || req.readableEnded;
+  if (alreadyParsed) {
+    const parsed: unknown = req.body;
+    let body: string | Uint8Array | undefined;
+    if (parsed === undefined || Buffer.isBuffer(parsed) || typeof parsed === 'string') {
+      body = parsed;
+    } else {
+      body = JSON.stringify(parsed);
+    }
+    return { body, reserialised: true, limitExceeded: () => false, callerFailed: () => false };
+  }
+
+  const state: StreamState = { exceeded: false, callerFailed: false };
+  return {
+    body: limitedStream(req, limitBytes, state, tooLarge),
+    duplex: 'half',
+    reserialised: false,
+    limitExceeded: () => state.exceeded,
+    callerFailed: () => state.callerFailed,
+  };
+}
+
+/**
+ * Read a streamed body into memory so it can be sent more than once, as
+ * retried calls must. The limit still applies while reading; other bodies
+ * are returned as they are.
+ */
+export async function bufferUpstreamRequestBody(body: UpstreamRequestBody): Promise<UpstreamRequestBody> {
+  if (body.duplex !== 'half' || body.body === undefined || typeof body.body === 'string' || body.body instanceof Uint8Array) {
+    return body;
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of body.body) {
+    chunks.push(chunk);
+  }
+  return {
+    body: Buffer.concat(chunks),
+    reserialised: false,
+    limitExceeded: () => false,
+    callerFailed: () => false,
+  };
+}
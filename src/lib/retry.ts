@@ -29,8 +29,10 @@ export class TransientError extends Error {
 export function isTransientNetworkError(error: unknown): boolean {
   if (error instanceof TransientError) return true;
   if (error instanceof DOMException && error.name === 'AbortError') return false;
-  if (error instanceof TypeError) {
-    const msg = error.message.toLowerCase();
+  // Matched by name: undici's fetch errors can come from another realm, where
+  // `instanceof TypeError` is false.
+  if (error instanceof TypeError || (error as Error | null)?.name === 'TypeError') {
+    const msg = String((error as Error).message).toLowerCase();
     return TRANSIENT_MESSAGE_FRAGMENTS.some((f) => msg.includes(f));
   }
   return false;
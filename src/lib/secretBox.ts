@@ -0,0 +1,53 @@
+/**
+ * Symmetric encryption for secrets the gateway must read back in plaintext
+ * (e.g. provider-managed upstream credentials).  Unlike API keys, these cannot
+ * be stored as one-way hashes because they are replayed to the upstream.
+ *
+ * Sealed values are AES-256-GCM with a random 96-bit IV and have the form
+ * `v1.<iv>.<tag>.<ciphertext>` (base64url segments).  The version prefix lets
+ * the format change without a data migration.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+/** Derive a 256-bit key from arbitrary key material. */
+export function deriveSecretBoxKey(material: string): Buffer {
+  return createHash('sha256').update(material, 'utf8').digest();
+}
+
+/** Encrypt `plaintext` under `key`. */
+export function sealSecret(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [
+    VERSION,
+    iv.toString('base64url'),
+    tag.toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join('.');
+}
+
+/**
+ * Decrypt a value produced by {@link sealSecret}.
+ * Throws when the value is malformed, tampered with, or sealed under another key.
+ */
+export function openSecret(sealed: string, key: Buffer): string {
+  const parts = sealed.split('.');
+  if (parts.length !== 4 || parts[0] !== VERSION) {
+    throw new Error('Unsupported sealed secret format');
+  }
+
+  const [, iv, tag, ciphertext] = parts;
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,63 @@
+import { closeFrame, WebSocketMessageCounter } from './websocket.js';
+
+/** A single frame; client frames are masked (with a zero key, for readability). */
+function frame(opcode: number, payload: Buffer, { fin = true, masked = false } = {}): Buffer {
+  const first = (fin ? 0x80 : 0) | opcode;
+  const maskBit = masked ? 0x80 : 0;
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([first, maskBit | payload.length]);
+  } else {
+    header = Buffer.alloc(4);
+    header[0] = first;
+    header[1] = maskBit | 126;
+    header.writeUInt16BE(payload.length, 2);
+  }
+  return Buffer.concat([header, masked ? Buffer.alloc(4) : Buffer.alloc(0), payload]);
+}
+
+describe('WebSocketMessageCounter', () => {
+  it('counts text and binary messages but not control frames', () => {
+    const counter = new WebSocketMessageCounter();
+    const bytes = Buffer.concat([
+      frame(0x1, Buffer.from('hello')),
+      frame(0x9, Buffer.alloc(0)),
+      frame(0x2, Buffer.alloc(300), { masked: true }),
+    ]);
+
+    expect(counter.push(bytes)).toBe(2);
+    expect(counter.atFrameBoundary).toBe(true);
+  });
+
+  it('counts a fragmented message once, on its final frame', () => {
+    const counter = new WebSocketMessageCounter();
+
+    expect(counter.push(frame(0x1, Buffer.from('hel'), { fin: false }))).toBe(0);
+    expect(counter.push(frame(0x0, Buffer.from('lo')))).toBe(1);
+  });
+
+  it('follows frames split across chunks', () => {
+    const counter = new WebSocketMessageCounter();
+    const bytes = Buffer.concat([frame(0x2, Buffer.alloc(200)), frame(0x1, Buffer.from('x'))]);
+    let messages = 0;
+
+    for (let offset = 0; offset < bytes.length; offset += 3) {
+      messages += counter.push(bytes.subarray(offset, offset + 3));
+      if (offset === 0) expect(counter.atFrameBoundary).toBe(false);
+    }
+
+    expect(messages).toBe(2);
+    expect(counter.atFrameBoundary).toBe(true);
+  });
+});
+
+describe('closeFrame', () => {
+  it('builds an unmasked close frame with the code and reason', () => {
+    const bytes = closeFrame(4402, 'Insufficient balance');
+
+    expect(bytes[0]).toBe(0x88);
+    expect(bytes[1]).toBe(22);
+    expect(bytes.readUInt16BE(2)).toBe(4402);
+    expect(bytes.subarray(4).toString()).toBe('Insufficient balance');
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * WebSocket passthrough (RFC 6455)
+ *
+ * Express never sees upgrade requests: Node hands them to the server's
+ * `upgrade` event instead.  {@link routeUpgradesThrough} runs them through the
+ * app like any other request, so authentication, rate limiting and error
+ * responses work unchanged, and a route that accepts one relays it to the
+ * upstream with {@link openWebSocketTunnel} and {@link relayWebSocket}.
+ *
+ * Frames are relayed byte-for-byte.  {@link WebSocketMessageCounter} reads
+ * only their headers, to count messages for metering.
+ */
+
+import http, { type IncomingMessage, type RequestListener, type ServerResponse } from 'node:http';
+import https from 'node:https';
+import type { Socket } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { buildHopByHopSet } from './hopByHop.js';
+
+/** Bytes the client sent after its handshake, kept for the route that accepts it. */
+const upgradeHeads = new WeakMap<IncomingMessage, Buffer>();
+
+/** How long a closing connection may take to reach a frame boundary. */
+const CLOSE_GRACE_MS = 1_000;
+
+/**
+ * Server `upgrade` listener that dispatches upgrade requests to `app`. A
+ * request the app answers instead of accepting gets that response and its
+ * connection closed.
+ */
+export function routeUpgradesThrough(app: RequestListener) {
+  return (req: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    upgradeHeads.set(req, head);
+    socket.on('error', () => socket.destroy());
+
+    const res = new http.ServerResponse(req);
+    res.shouldKeepAlive = false;
+    res.assignSocket(socket as Socket);
+    res.once('finish', () => socket.end());
+    app(req, res);
+  };
+}
+
+/** True for a WebSocket upgrade that arrived through {@link routeUpgradesThrough}. */
+export function isWebSocketUpgrade(req: IncomingMessage): boolean {
+  return upgradeHeads.has(req) && req.headers.upgrade?.toLowerCase() === 'websocket';
+}
+
+export interface WebSocketTunnelOptions {
+  /** Upstream http(s) URL to send the upgrade to. */
+  target: string;
+  /** Headers to forward, already stripped of hop-by-hop and gateway headers. */
+  headers: Record<string, string>;
+  /** Headers added to the `101` sent to the client. */
+  responseHeaders?: Record<string, string>;
+  /** How long the upstream has to answer the handshake. */
+  timeoutMs: number;
+}
+
+export type WebSocketTunnel =
+  | { upgraded: true; client: Duplex; upstream: Duplex; clientHead: Buffer; upstreamHead: Buffer }
+  /** The upstream answered without upgrading; its response is the caller's to forward. */
+  | { upgraded: false; response: IncomingMessage };
+
+/**
+ * Sends the client's upgrade to the upstream. When the upstream accepts, its
+ * `101` is relayed to the client and both sockets are returned for
+ * {@link relayWebSocket}. Rejects with the connection error, or with a
+ * `TimeoutError` when the upstream does not answer in time.
+ */
+export function openWebSocketTunnel(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: WebSocketTunnelOptions,
+): Promise<WebSocketTunnel> {
+  const target = new URL(options.target);
+  const request = (target.protocol === 'https:' ? https : http).request(target, {
+    method: 'GET',
+    headers: { ...options.headers, connection: 'Upgrade', upgrade: 'websocket' },
+  });
+  const timer = setTimeout(() => {
+    request.destroy(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+  }, options.timeoutMs);
+
+  return new Promise((resolve, reject) => {
+    request.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.once('response', (response) => {
+      clearTimeout(timer);
+      resolve({ upgraded: false, response });
+    });
+    request.once('upgrade', (response, upstream, upstreamHead) => {
+      clearTimeout(timer);
+      const client = req.socket;
+      res.detachSocket(client);
+
+      const strip = buildHopByHopSet(response.headers.connection);
+      strip.delete('connection');
+      strip.delete('upgrade');
+      const lines = ['HTTP/1.1 101 Switching Protocols'];
+      for (let i = 0; i < response.rawHeaders.length; i += 2) {
+        if (!strip.has(response.rawHeaders[i].toLowerCase())) {
+          lines.push(`${response.rawHeaders[i]}: ${response.rawHeaders[i + 1]}`);
+        }
+      }
+      for (const [name, value] of Object.entries(options.responseHeaders ?? {})) {
+        lines.push(`${name}: ${value}`);
+      }
+      client.write(`${lines.join('\r\n')}\r\n\r\n`);
+
+      resolve({
+        upgraded: true,
+        client,
+        upstream,
+        clientHead: upgradeHeads.get(req) ?? Buffer.alloc(0),
+        upstreamHead,
+      });
+    });
+    request.end();
+  });
+}
+
+/**
+ * Counts the complete data messages in one direction of a WebSocket
+ * connection as its bytes pass through. Control frames are not messages,
+ * and a fragmented message counts once, on its final frame.
+ */
+export class WebSocketMessageCounter {
+  private header = Buffer.alloc(0);
+  private payloadLeft = 0;
+
+  /** Reads the next bytes and returns the number of messages they completed. */
+  push(chunk: Buffer): number {
+    let messages = 0;
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (this.payloadLeft > 0) {
+        const skipped = Math.min(this.payloadLeft, chunk.length - offset);
+        this.payloadLeft -= skipped;
+        offset += skipped;
+        continue;
+      }
+
+      const wanted = this.headerLength() - this.header.length;
+      const taken = chunk.subarray(offset, offset + wanted);
+      this.header = Buffer.concat([this.header, taken]);
+      offset += taken.length;
+      if (this.header.length < this.headerLength()) continue;
+
+      const fin = (this.header[0] & 0x80) !== 0;
+      const opcode = this.header[0] & 0x0f;
+      const length = this.header[1] & 0x7f;
+      this.payloadLeft = length === 126
+        ? this.header.readUInt16BE(2)
+        : length === 127
+          ? Number(this.header.readBigUInt64BE(2))
+          : length;
+      if (fin && opcode < 0x8) messages += 1;
+      this.header = Buffer.alloc(0);
+    }
+    return messages;
+  }
+
+  /** True between frames, where another frame can be sent without corrupting the stream. */
+  get atFrameBoundary(): boolean {
+    return this.header.length === 0 && this.payloadLeft === 0;
+  }
+
+  /** Length of the frame header being read, as far as its first bytes tell. */
+  private headerLength(): number {
+    if (this.header.length < 2) return 2;
+    const length = this.header[1] & 0x7f;
+    const extended = length === 126 ? 2 : length === 127 ? 8 : 0;
+    const mask = (this.header[1] & 0x80) !== 0 ? 4 : 0;
+    return 2 + extended + mask;
+  }
+}
+
+/** An unmasked close frame, as a server sends it. */
+export function closeFrame(code: number, reason: string): Buffer {
+  const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+  payload.writeUInt16BE(code, 0);
+  payload.write(reason, 2);
+  return Buffer.concat([Buffer.from([0x88, payload.length]), payload]);
+}
+
+export interface WebSocketRelay {
+  /**
+   * Closes the client's connection with `code` at the next frame boundary
+   * and drops the upstream connection. The reason must fit a control frame.
+   */
+  close(code: number, reason: string): void;
+  /** Settles once both connections have closed. */
+  closed: Promise<void>;
+}
+
+export interface RelayWebSocketOptions {
+  clientHead: Buffer;
+  upstreamHead: Buffer;
+  /** Called with the number of messages each chunk completed, in either direction. */
+  onMessages(count: number): void;
+}
+
+/** Relays frames between the client and the upstream until either side closes. */
+export function relayWebSocket(client: Duplex, upstream: Duplex, options: RelayWebSocketOptions): WebSocketRelay {
+  const fromClient = new WebSocketMessageCounter();
+  const fromUpstream = new WebSocketMessageCounter();
+  let closing: { code: number; reason: string } | null = null;
+  let closeSent = false;
+
+  const forward = (chunk: Buffer, counter: WebSocketMessageCounter, from: Duplex, to: Duplex): void => {
+    const messages = counter.push(chunk);
+    if (messages > 0) options.onMessages(messages);
+    if (!to.write(chunk)) {
+      from.pause();
+      to.once('drain', () => from.resume());
+    }
+  };
+
+  const sendClose = (): void => {
+    if (closeSent || !closing) return;
+    closeSent = true;
+    client.end(closeFrame(closing.code, closing.reason));
+    upstream.destroy();
+  };
+
+  client.on('data', (chunk: Buffer) => {
+    if (!closing) forward(chunk, fromClient, client, upstream);
+  });
+  upstream.on('data', (chunk: Buffer) => {
+    if (closeSent) return;
+    forward(chunk, fromUpstream, upstream, client);
+    if (closing && fromUpstream.atFrameBoundary) sendClose();
+  });
+
+  const closed = Promise.all([client, upstream].map((socket, i) => new Promise<void>((resolve) => {
+    const other = i === 0 ? upstream : client;
+    socket.on('error', () => socket.destroy());
+    // Server sockets allow half-open connections; either side ending ends both.
+    socket.once('end', () => {
+      socket.end();
+      other.end();
+    });
+    socket.once('close', () => {
+      other.end();
+      setTimeout(() => other.destroy(), CLOSE_GRACE_MS).unref();
+      resolve();
+    });
+  }))).then(() => undefined);
+
+  if (options.upstreamHead.length > 0) forward(options.upstreamHead, fromUpstream, upstream, client);
+  if (options.clientHead.length > 0) forward(options.clientHead, fromClient, client, upstream);
+
+  return {
+    close(code, reason) {
+      if (closing) return;
+      closing = { code, reason };
+      if (fromUpstream.atFrameBoundary) {
+        sendClose();
+      } else {
+        setTimeout(() => {
+          if (!closeSent) client.destroy();
+          upstream.destroy();
+        }, CLOSE_GRACE_MS).unref();
+      }
+    },
+    closed,
+  };
+}
@@ -574,6 +574,122 @@ export function recordCacheMiss(): void {
   apisListingCacheMisses.inc();
 }
 
+// ── Gateway response cache counter ────────────────────────────────────────────
+//
+// Metric: gateway_response_cache_total
+//   Type:    Counter
+//   Labels:  api_id, result — hit | miss
+//   Purpose: Hit ratio of the /v1/call response cache, per API. Only calls to
+//            endpoints with a cache policy are counted.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const gatewayResponseCacheTotal = new client.Counter({
+  name: 'gateway_response_cache_total',
+  help: 'Total /v1/call requests to cache-enabled endpoints, by cache result',
+  labelNames: ['api_id', 'result'] as const,
+});
+
+register.registerMetric(gatewayResponseCacheTotal);
+
+export function recordGatewayResponseCache(apiId: string, result: 'hit' | 'miss'): void {
+  gatewayResponseCacheTotal.inc({ api_id: apiId, result });
+}
+
+// ── Gateway upstream origin health gauge ─────────────────────────────────────
+//
+// Metric: gateway_upstream_origin_healthy
+//   Type:    Gauge
+//   Labels:  api_id, origin
+//   Purpose: Result of the last health probe of each origin of a
+//            multi-origin API (1 = healthy, 0 = unhealthy).
+// ─────────────────────────────────────────────────────────────────────────────
+
+const gatewayUpstreamOriginHealthy = new client.Gauge({
+  name: 'gateway_upstream_origin_healthy',
+  help: 'Result of the last health probe of an upstream origin (1=healthy, 0=unhealthy)',
+  labelNames: ['api_id', 'origin'] as const,
+});
+
+register.registerMetric(gatewayUpstreamOriginHealthy);
+
+export function setGatewayUpstreamOriginHealthy(apiId: string, originId: string, healthy: boolean): void {
+  gatewayUpstreamOriginHealthy.set({ api_id: apiId, origin: originId }, healthy ? 1 : 0);
+}
+
+// ── Gateway upstream extra attempts counter ───────────────────────────────────
+//
+// Metric: gateway_upstream_extra_attempts_total
+//   Type:    Counter
+//   Labels:  api_id, kind — retry | hedge, outcome — sent | budget_exhausted
+//   Purpose: Retries and hedged requests the proxy sent beyond the first
+//            attempt of a call, and those the API's retry budget refused.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const gatewayUpstreamExtraAttemptsTotal = new client.Counter({
+  name: 'gateway_upstream_extra_attempts_total',
+  help: 'Total /v1/call upstream retries and hedged requests, by outcome',
+  labelNames: ['api_id', 'kind', 'outcome'] as const,
+});
+
+register.registerMetric(gatewayUpstreamExtraAttemptsTotal);
+
+export function recordGatewayUpstreamExtraAttempt(
+  apiId: string,
+  kind: 'retry' | 'hedge',
+  outcome: 'sent' | 'budget_exhausted',
+): void {
+  gatewayUpstreamExtraAttemptsTotal.inc({ api_id: apiId, kind, outcome });
+}
+
+// ── Gateway stream connections counter ───────────────────────────────────────
+//
+// Metric: gateway_stream_connections_total
+//   Type:    Counter
+//   Labels:  api_id, transport — websocket | sse,
+//            outcome — closed | insufficient_balance
+//   Purpose: Metered WebSocket and event-stream connections, counted when they
+//            end, and whether the gateway closed them because the caller's
+//            balance ran out.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const gatewayStreamConnectionsTotal = new client.Counter({
+  name: 'gateway_stream_connections_total',
+  help: 'Total metered /v1/call stream connections, by how they ended',
+  labelNames: ['api_id', 'transport', 'outcome'] as const,
+});
+
+register.registerMetric(gatewayStreamConnectionsTotal);
+
+export function recordGatewayStreamConnection(
+  apiId: string,
+  transport: 'websocket' | 'sse',
+  outcome: 'closed' | 'insufficient_balance',
+): void {
+  gatewayStreamConnectionsTotal.inc({ api_id: apiId, transport, outcome });
+}
+
+// ── Gateway request validation failures counter ──────────────────────────────
+//
+// Metric: gateway_request_validation_failures_total
+//   Type:    Counter
+//   Labels:  api_id
+//   Purpose: /v1/call requests rejected with 400 REQUEST_SCHEMA_INVALID because
+//            they did not match the provider's OpenAPI document. These calls
+//            never reach the upstream and are never billed.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const gatewayRequestValidationFailuresTotal = new client.Counter({
+  name: 'gateway_request_validation_failures_total',
+  help: "Total /v1/call requests rejected for not matching the API's OpenAPI document",
+  labelNames: ['api_id'] as const,
+});
+
+register.registerMetric(gatewayRequestValidationFailuresTotal);
+
+export function recordGatewayRequestValidationFailure(apiId: string): void {
+  gatewayRequestValidationFailuresTotal.inc({ api_id: apiId });
+}
+
 // ── Gateway API key lookup counter ────────────────────────────────────────────
 //
 // Metric: gateway_api_key_lookup_total
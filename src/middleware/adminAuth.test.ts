@@ -218,4 +218,44 @@ describe('adminAuth middleware — unit', () => {
       expect(res.status).not.toHaveBeenCalled();
     });
   });
+
+  // ── Roles ──────────────────────────────────────────────────────────────────
+
+  describe('roles', () => {
+    afterEach(() => {
+      delete process.env.ADMIN_API_KEY_ROLE;
+    });
+
+    it('signs the API key in as super-admin by default', () => {
+      const res = makeRes();
+      adminAuth(makeReq({ 'x-admin-api-key': TEST_API_KEY }), res, next);
+      expect(res.locals).toMatchObject({
+        adminId: 'admin-api-key',
+        adminRole: 'super-admin',
+        adminActor: 'super-admin:admin-api-key',
+      });
+    });
+
+    it('signs the API key in with ADMIN_API_KEY_ROLE', () => {
+      process.env.ADMIN_API_KEY_ROLE = 'support';
+      const res = makeRes();
+      adminAuth(makeReq({ 'x-admin-api-key': TEST_API_KEY }), res, next);
+      expect(res.locals.adminActor).toBe('support:admin-api-key');
+    });
+
+    it('maps the legacy admin role claim to super-admin', () => {
+      const token = jwt.sign({ role: 'admin', sub: 'admin-1' }, TEST_JWT_SECRET, { expiresIn: '1h' });
+      const res = makeRes();
+      adminAuth(makeReq({ authorization: `Bearer ${token}` }), res, next);
+      expect(res.locals.adminActor).toBe('super-admin:admin-1');
+    });
+
+    it('signs a JWT in with its named role', () => {
+      const token = jwt.sign({ role: 'finance', email: 'fin@callora.io' }, TEST_JWT_SECRET, { expiresIn: '1h' });
+      const res = makeRes();
+      adminAuth(makeReq({ authorization: `Bearer ${token}` }), res, next);
+      expect(next).toHaveBeenCalledWith();
+      expect(res.locals).toMatchObject({ adminRole: 'finance', adminActor: 'finance:fin@callora.io' });
+    });
+  });
 });
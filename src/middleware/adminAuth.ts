@@ -2,12 +2,37 @@ import { timingSafeEqual } from 'crypto';
 import type { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { InternalServerError, UnauthorizedError } from '../errors/index.js';
+import {
+  formatAdminActor,
+  isAdminRole,
+  LEGACY_ADMIN_ROLE,
+  type AdminRole,
+} from '../services/adminRbac.js';
 
 interface AdminJwtPayload {
   role: string;
   [key: string]: unknown;
 }
 
+/**
+ * The admin role a JWT's `role` claim grants: one of the named roles, or
+ * super-admin for the plain `admin` role issued before roles existed.
+ */
+function roleFromClaim(role: unknown): AdminRole | undefined {
+  if (role === 'admin') return LEGACY_ADMIN_ROLE;
+  return isAdminRole(role) ? role : undefined;
+}
+
+/**
+ * Records who is signed in: `adminId` is the identity, `adminRole` its role,
+ * and `adminActor` — what admin logs and audit rows record — both.
+ */
+function signIn(res: Response, identity: string, role: AdminRole): void {
+  res.locals.adminId = identity;
+  res.locals.adminRole = role;
+  res.locals.adminActor = formatAdminActor(role, identity);
+}
+
 /**
  * Constant-time string comparison to prevent timing-based key enumeration.
  * Returns false immediately if lengths differ (length is not secret here —
@@ -23,12 +48,13 @@ export function adminAuth(req: Request, res: Response, next: NextFunction): void
   const apiKey = req.header('x-admin-api-key');
   const configuredKey = process.env.ADMIN_API_KEY;
   if (apiKey && configuredKey && timingSafeStringEqual(apiKey, configuredKey)) {
-    res.locals.adminActor = 'admin-api-key';
+    const keyRole = process.env.ADMIN_API_KEY_ROLE;
+    signIn(res, 'admin-api-key', isAdminRole(keyRole) ? keyRole : LEGACY_ADMIN_ROLE);
     next();
     return;
   }
 
-  // Path 2: Bearer JWT with admin role
+  // Path 2: Bearer JWT with an admin role
   const authHeader = req.header('Authorization');
   if (authHeader?.startsWith('Bearer ')) {
     const token = authHeader.slice(7);
@@ -41,8 +67,9 @@ export function adminAuth(req: Request, res: Response, next: NextFunction): void
 
     try {
       const payload = jwt.verify(token, secret) as AdminJwtPayload;
-      if (payload.role === 'admin') {
-        res.locals.adminActor = (payload.sub as string) || (payload.email as string) || 'admin-jwt';
+      const role = roleFromClaim(payload.role);
+      if (role) {
+        signIn(res, (payload.sub as string) || (payload.email as string) || 'admin-jwt', role);
         next();
         return;
       }
@@ -0,0 +1,69 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ForbiddenError } from '../errors/index.js';
+import {
+  adminRoleHasPermission,
+  findAdminRoutePermission,
+  isAdminRole,
+  type AdminPermission,
+  type AdminRole,
+  type AdminRoutePermission,
+} from '../services/adminRbac.js';
+
+/** The role `adminAuth` signed the caller in with, if any. */
+export function getAdminRole(res: Response): AdminRole | undefined {
+  const role = res.locals.adminRole;
+  return isAdminRole(role) ? role : undefined;
+}
+
+function permissionDenied(role: AdminRole | undefined, permission: AdminPermission): ForbiddenError {
+  return new ForbiddenError(
+    `Missing admin permission "${permission}" (role: ${role ?? 'none'})`,
+    'ADMIN_PERMISSION_DENIED',
+  );
+}
+
+/**
+ * Requires the admin signed in by `adminAuth` to hold `permission`. Mount
+ * after `adminAuth`. Refusals are 403 `ADMIN_PERMISSION_DENIED` naming the
+ * missing permission.
+ */
+export function requireAdminPermission(permission: AdminPermission): RequestHandler {
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    const role = getAdminRole(res);
+    if (role && adminRoleHasPermission(role, permission)) {
+      next();
+      return;
+    }
+    next(permissionDenied(role, permission));
+  };
+}
+
+/**
+ * Enforces a route → permission table for a whole router. Routes missing
+ * from the table are refused to every role except super-admin, so a new
+ * route is never opened to support staff by accident.
+ */
+export function enforceAdminRoutePermissions(routes: readonly AdminRoutePermission[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const role = getAdminRole(res);
+    const route = findAdminRoutePermission(routes, req.method, req.path);
+
+    if (!route) {
+      if (role === 'super-admin') {
+        next();
+        return;
+      }
+      next(new ForbiddenError(
+        `No permission is declared for ${req.method} ${req.baseUrl}${req.path}; only super-admin may call it`,
+        'ADMIN_PERMISSION_DENIED',
+      ));
+      return;
+    }
+
+    if (route.permission === null || (role && adminRoleHasPermission(role, route.permission))) {
+      next();
+      return;
+    }
+    next(permissionDenied(role, route.permission));
+  };
+}
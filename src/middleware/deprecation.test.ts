@@ -5,6 +5,7 @@ import {
   LEGACY_V1_DEPRECATION_HEADER,
   LEGACY_V1_SUNSET_AT,
   legacyV1DeprecationMiddleware,
+  markDeprecated,
 } from './deprecation.js';
 import { logger } from './logging.js';
 
@@ -89,3 +90,47 @@ describe('legacyV1DeprecationMiddleware', () => {
     }
   });
 });
+
+describe('markDeprecated', () => {
+  test('uses the given sunset and adds the context to the warning', () => {
+    const warnSpy = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+
+    try {
+      const req = {
+        id: 'req-version-1',
+        method: 'GET',
+        path: '/weather@v1/forecast',
+        header: jest.fn().mockReturnValue(undefined),
+      } as unknown as Request;
+
+      const res = new EventEmitter() as EventEmitter & Response & {
+        statusCode: number;
+        setHeader: jest.Mock;
+      };
+      res.statusCode = 200;
+      res.setHeader = jest.fn();
+
+      markDeprecated(req, res, {
+        sunset: '2026-12-31T00:00:00.000Z',
+        message: 'deprecated API version called',
+        context: { apiId: '7', version: 'v1' },
+      });
+      res.emit('finish');
+
+      expect(res.setHeader).toHaveBeenCalledWith('Deprecation', 'true');
+      expect(res.setHeader).toHaveBeenCalledWith('Sunset', '2026-12-31T00:00:00.000Z');
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          requestId: 'req-version-1',
+          sunset: '2026-12-31T00:00:00.000Z',
+          deprecated: true,
+          apiId: '7',
+          version: 'v1',
+        }),
+        'deprecated API version called',
+      );
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
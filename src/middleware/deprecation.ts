@@ -1,9 +1,20 @@
-import type { Request, RequestHandler } from 'express';
+import type { Request, RequestHandler, Response } from 'express';
 
 import { logger } from './logging.js';
 
+const DEPRECATION_HEADER_VALUE = 'true';
+
 export const LEGACY_V1_SUNSET_AT = '2026-12-31T00:00:00.000Z';
-export const LEGACY_V1_DEPRECATION_HEADER = 'true';
+export const LEGACY_V1_DEPRECATION_HEADER = DEPRECATION_HEADER_VALUE;
+
+export interface DeprecationNotice {
+  /** ISO 8601 time the deprecated surface stops being served; sent as `Sunset`. */
+  sunset: string;
+  /** Logged when each call to the deprecated surface finishes. */
+  message: string;
+  /** Extra fields for the log line. */
+  context?: Record<string, unknown>;
+}
 
 const getRequestId = (req: Request): string | undefined => {
   if (typeof req.id === 'string' && req.id.length > 0) {
@@ -14,9 +25,14 @@ const getRequestId = (req: Request): string | undefined => {
   return headerValue && headerValue.trim().length > 0 ? headerValue.trim() : undefined;
 };
 
-export const legacyV1DeprecationMiddleware: RequestHandler = (req, res, next) => {
-  res.setHeader('Deprecation', LEGACY_V1_DEPRECATION_HEADER);
-  res.setHeader('Sunset', LEGACY_V1_SUNSET_AT);
+/**
+ * Stamps `Deprecation` and `Sunset` on the response and logs a structured
+ * warning once it has been sent, so callers of deprecated surfaces can be
+ * found before the sunset date.
+ */
+export function markDeprecated(req: Request, res: Response, notice: DeprecationNotice): void {
+  res.setHeader('Deprecation', DEPRECATION_HEADER_VALUE);
+  res.setHeader('Sunset', notice.sunset);
 
   res.once('finish', () => {
     logger.warn(
@@ -25,12 +41,16 @@ export const legacyV1DeprecationMiddleware: RequestHandler = (req, res, next) =>
         method: req.method,
         path: req.originalUrl || req.path,
         statusCode: res.statusCode,
-        sunset: LEGACY_V1_SUNSET_AT,
+        sunset: notice.sunset,
         deprecated: true,
+        ...notice.context,
       },
-      'legacy v1 endpoint accessed',
+      notice.message,
     );
   });
+}
 
+export const legacyV1DeprecationMiddleware: RequestHandler = (req, res, next) => {
+  markDeprecated(req, res, { sunset: LEGACY_V1_SUNSET_AT, message: 'legacy v1 endpoint accessed' });
   next();
 };
@@ -1,16 +1,19 @@
 import express from 'express';
 import request from 'supertest';
 import { createHash } from 'node:crypto';
+import { newDb } from 'pg-mem';
 import { errorHandler } from './errorHandler.js';
 import {
   API_KEY_PREFIX_LENGTH,
   createGatewayApiKeyAuthMiddleware,
   createMapBackedGatewayApiKeyAuthMiddleware,
-  createDatabaseGatewayApiKeyAuthMiddleware,
+  createRepositoryBackedGatewayApiKeyAuthMiddleware,
   extractApiKey,
   type GatewayAuthCandidate,
 } from './gatewayApiKeyAuth.js';
 import { register, resetAllMetrics } from '../metrics.js';
+import { PgApiKeyRepository } from '../repositories/apiKeyRepository.pg.js';
+import type { PersistentRateLimiterPool } from '../services/rateLimiter.js';
 
 function sha256Hex(value: string): string {
   return createHash('sha256').update(value).digest('hex');
@@ -470,99 +473,58 @@ describe('gatewayApiKeyAuth middleware', () => {
     expect(await getMetricValue('hit')).toBe(1);
   });
 
-  it('works with createDatabaseGatewayApiKeyAuthMiddleware with config vaultNetwork as string', async () => {
-    const mockDb = {
-      query: jest.fn().mockResolvedValue({
-        rows: [
-          {
-            api_key_id: 'key_1',
-            user_id: 'user_1',
-            api_id: 'api_1',
-            prefix: validPrefix,
-            key_hash: sha256Hex(validApiKey),
-            revoked: false,
-            scopes: [],
-            rate_limit_per_minute: null,
-            created_at: null,
-            last_used_at: null,
-            expires_at: null,
-            user: { id: 'user_1' },
-            vault: null,
-          },
-        ],
-      }),
-    };
+  it('authenticates keys from the Postgres key store, whose user ids are TEXT', async () => {
+    const db = newDb({ noAstCoverageCheck: true });
+    db.public.none(`
+      CREATE TABLE api_keys (
+        id BIGSERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        api_id BIGINT NOT NULL,
+        key_hash TEXT NOT NULL,
+        prefix VARCHAR(16) NOT NULL,
+        scopes TEXT[] NOT NULL DEFAULT '{}'::TEXT[],
+        rate_limit_per_minute INTEGER,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_used_at TIMESTAMPTZ,
+        revoked BOOLEAN NOT NULL DEFAULT FALSE,
+        plan_tier VARCHAR(20) NOT NULL DEFAULT 'free',
+        daily_spend_limit_usdc NUMERIC(20, 7),
+        monthly_spend_limit_usdc NUMERIC(20, 7),
+        expires_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ,
+        rotated_from_id BIGINT,
+        auth_mode VARCHAR(10) NOT NULL DEFAULT 'bearer',
+        signing_secret TEXT
+      );
+    `);
+    const { Pool } = db.adapters.createPg();
+    const apiKeyRepository = new PgApiKeyRepository(new Pool() as unknown as PersistentRateLimiterPool);
+    const userId = '6f1c2a9e-8d4b-4c3a-9f7e-2b5d8a1c0e34';
+    const created = await apiKeyRepository.create({ apiId: '101', userId, scopes: [], rateLimitPerMinute: null });
 
     const app = express();
-    app.use(express.json());
     app.get(
       '/gateway/:apiId',
-      createDatabaseGatewayApiKeyAuthMiddleware({
-        db: mockDb,
-        vaultNetwork: 'mainnet',
+      createRepositoryBackedGatewayApiKeyAuthMiddleware({
+        apiKeyRepository,
         resolveApiContext() {
-          return { api: { id: 'api_1' }, endpoint: { endpointId: 'ep_1' } };
+          return { api: { id: '101' }, endpoint: { endpointId: 'ep_1' } };
         },
         getApiId(api: Record<string, unknown>) {
           return String(api.id);
         },
       }),
       (req, res) => {
-        res.json({ ok: true });
+        res.json({ userId: req.user?.id });
       }
     );
-
     app.use(errorHandler);
 
     const res = await request(app)
-      .get('/gateway/api_1')
-      .set('x-api-key', validApiKey);
+      .get('/gateway/101')
+      .set('x-api-key', created.key);
 
     expect(res.status).toBe(200);
-    expect(mockDb.query).toHaveBeenCalledWith(
-      expect.stringContaining('SELECT'),
-      [validPrefix, 'mainnet']
-    );
-    expect(await getMetricValue('hit')).toBe(1);
-  });
-
-  it('works with createDatabaseGatewayApiKeyAuthMiddleware with config vaultNetwork as function', async () => {
-    const mockDb = {
-      query: jest.fn().mockResolvedValue({
-        rows: [],
-      }),
-    };
-
-    const app = express();
-    app.use(express.json());
-    app.get(
-      '/gateway/:apiId',
-      createDatabaseGatewayApiKeyAuthMiddleware({
-        db: mockDb,
-        vaultNetwork: () => 'testnet',
-        resolveApiContext() {
-          return { api: { id: 'api_1' }, endpoint: { endpointId: 'ep_1' } };
-        },
-        getApiId(api: Record<string, unknown>) {
-          return String(api.id);
-        },
-      }),
-      (req, res) => {
-        res.json({ ok: true });
-      }
-    );
-
-    app.use(errorHandler);
-
-    const res = await request(app)
-      .get('/gateway/api_1')
-      .set('x-api-key', validApiKey);
-
-    expect(res.status).toBe(401);
-    expect(mockDb.query).toHaveBeenCalledWith(
-      expect.stringContaining('SELECT'),
-      [validPrefix, 'testnet']
-    );
-    expect(await getMetricValue('miss')).toBe(1);
+    expect(res.body.userId).toBe(userId);
   });
 });
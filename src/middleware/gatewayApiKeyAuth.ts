@@ -2,6 +2,20 @@ import { createHash, timingSafeEqual } from 'node:crypto';
 import type { NextFunction, Request, RequestHandler } from 'express';
 import { ForbiddenError, NotFoundError, UnauthorizedError } from '../errors/index.js';
 import { recordApiKeyLookup } from '../metrics.js';
+import { logger } from '../logger.js';
+import type { ApiKeyRecord, ApiKeyRepository } from '../repositories/apiKeyRepository.js';
+import {
+  acceptsBearer,
+  acceptsSigned,
+  assertSignatureTimestamp,
+  bufferRequestBody,
+  openSigningSecret,
+  readSignedRequestHeaders,
+  requestSignatureMatches,
+  type ApiKeyAuthMode,
+  type RequestNonceStore,
+  type SignedRequestHeaders,
+} from '../services/requestSigning.js';
 
 export const API_KEY_PREFIX_LENGTH = 16;
 
@@ -18,6 +32,25 @@ export interface GatewayApiKeyRecord {
   lastUsedAt?: Date | string | null;
   tier?: string;
   expiresAt?: Date | string | null;
+  /** Optional USDC budgets enforced by the gateway (see apiKeySpendCaps.ts). */
+  dailySpendLimitUsdc?: number | null;
+  monthlySpendLimitUsdc?: number | null;
+  /** Defaults to 'bearer'. */
+  authMode?: ApiKeyAuthMode;
+  /** The key sealed for verifying signed requests (see requestSigning.ts). */
+  signingSecret?: string | null;
+}
+
+/** Enables signed requests (see requestSigning.ts) alongside bearer keys. */
+export interface GatewaySignedRequestOptions {
+  nonceStore: RequestNonceStore;
+  /** Largest allowed difference between the signed timestamp and the clock. */
+  toleranceMs: number;
+  /** Signed bodies are buffered to check their digest; larger bodies get 413. */
+  maxBodyBytes: number;
+  /** Key material the stored keys were sealed with (API_KEY_SECRETS_KEY). */
+  secretsKey: string;
+  now?: () => Date;
 }
 
 export interface GatewayAuthCandidate<
@@ -52,6 +85,10 @@ export interface GatewayApiKeyAuthOptions<
   requiredScope?: string;
   onUnauthorized?: (next: NextFunction, message: string) => void;
   onNotFound?: (next: NextFunction, message: string) => void;
+  /** Called once a key has been accepted, before the request continues. */
+  onAuthenticated?: (apiKeyRecord: GatewayApiKeyRecord, req: Request) => void;
+  /** When set, requests may authenticate with a signature instead of the key. */
+  signedRequests?: GatewaySignedRequestOptions;
 }
 
 export interface ExtractedApiKey {
@@ -67,26 +104,8 @@ export interface InMemoryGatewayApiKey {
   revoked?: boolean;
   scopes?: string[];
   tier?: string;
-}
-
-export interface GatewayAuthQueryable {
-  query<T = unknown>(text: string, params?: unknown[]): Promise<{ rows: T[] }>;
-}
-
-export interface DatabaseGatewayApiKeyRow {
-  api_key_id: string | number;
-  user_id: string | number;
-  api_id: string | number;
-  prefix: string;
-  key_hash: string;
-  revoked: boolean;
-  scopes: string[] | null;
-  rate_limit_per_minute: number | null;
-  created_at: string | Date | null;
-  last_used_at: string | Date | null;
-  plan_tier: string | null;
-  user: Record<string, unknown> | null;
-  vault: Record<string, unknown> | null;
+  dailySpendLimitUsdc?: number | null;
+  monthlySpendLimitUsdc?: number | null;
 }
 
 const SHA256_HEX_LENGTH = 64;
@@ -179,7 +198,21 @@ export function createGatewayApiKeyAuthMiddleware<
 
   return async (req, res, next) => {
     const extracted = extractApiKey(req);
-    if (!extracted.apiKey) {
+    const apiKey = extracted.apiKey;
+
+    // A request without a key may instead be signed with one.
+    let signed: SignedRequestHeaders | null = null;
+    if (!apiKey && options.signedRequests) {
+      try {
+        signed = readSignedRequestHeaders(req);
+      } catch (error) {
+        recordApiKeyLookup('miss');
+        next(error);
+        return;
+      }
+    }
+
+    if (!apiKey && !signed) {
       // No key was provided or the header format was invalid
       recordApiKeyLookup('miss');
       handleUnauthorized(next, extracted.error ?? 'Unauthorized: missing API key');
@@ -193,7 +226,7 @@ export function createGatewayApiKeyAuthMiddleware<
       return;
     }
 
-    const prefix = extracted.apiKey.slice(0, API_KEY_PREFIX_LENGTH);
+    const prefix = signed ? signed.keyPrefix : (apiKey as string).slice(0, API_KEY_PREFIX_LENGTH);
     const candidates = await options.getApiKeyCandidates(prefix, req);
     if (candidates.length === 0) {
       recordApiKeyLookup('miss');
@@ -202,17 +235,33 @@ export function createGatewayApiKeyAuthMiddleware<
     }
 
     let matchedCandidate: GatewayAuthCandidate<TUser, TVault> | null = null;
-    for (const candidate of candidates) {
-      if (matchesStoredHash(extracted.apiKey, candidate.apiKeyRecord.keyHash)) {
-        matchedCandidate = candidate;
-        break;
+    if (signed && options.signedRequests) {
+      try {
+        matchedCandidate = await matchSignedCandidate(req, signed, candidates, options.signedRequests);
+      } catch (error) {
+        recordApiKeyLookup('miss');
+        next(error);
+        return;
       }
-    }
 
-    if (!matchedCandidate) {
-      recordApiKeyLookup('miss');
-      handleUnauthorized(next, 'Unauthorized: invalid API key');
-      return;
+      if (!matchedCandidate) {
+        recordApiKeyLookup('miss');
+        next(new UnauthorizedError('Unauthorized: invalid request signature', 'REQUEST_SIGNATURE_INVALID'));
+        return;
+      }
+    } else {
+      for (const candidate of candidates) {
+        if (matchesStoredHash(apiKey as string, candidate.apiKeyRecord.keyHash)) {
+          matchedCandidate = candidate;
+          break;
+        }
+      }
+
+      if (!matchedCandidate) {
+        recordApiKeyLookup('miss');
+        handleUnauthorized(next, 'Unauthorized: invalid API key');
+        return;
+      }
     }
 
     if (matchedCandidate.apiKeyRecord.revoked) {
@@ -224,7 +273,7 @@ export function createGatewayApiKeyAuthMiddleware<
 
     if (matchedCandidate.apiKeyRecord.expiresAt) {
       const expiresAt = new Date(matchedCandidate.apiKeyRecord.expiresAt);
-      if (expiresAt.getTime() < Date.now()) {
+      if (expiresAt.getTime() <= Date.now()) {
         // The key exists but its expiration timestamp has passed
         recordApiKeyLookup('expired');
         handleUnauthorized(next, 'Unauthorized: API key has expired');
@@ -253,7 +302,40 @@ export function createGatewayApiKeyAuthMiddleware<
       }
     }
 
-    req.apiKeyValue = extracted.apiKey;
+    const authMode = matchedCandidate.apiKeyRecord.authMode;
+    if (signed ? !acceptsSigned(authMode) : !acceptsBearer(authMode)) {
+      recordApiKeyLookup('miss');
+      next(new UnauthorizedError(
+        signed
+          ? 'Unauthorized: API key does not accept signed requests'
+          : 'Unauthorized: API key only accepts signed requests',
+        'API_KEY_AUTH_MODE_MISMATCH',
+      ));
+      return;
+    }
+
+    if (signed && options.signedRequests) {
+      // Claimed only once the request would otherwise be accepted, so a
+      // rejected request never uses up its nonce.
+      const { nonceStore, toleranceMs, now } = options.signedRequests;
+      const expiresAt = new Date(Date.parse(signed.timestamp) + toleranceMs);
+      let claimed: boolean;
+      try {
+        claimed = await nonceStore.claim(matchedCandidate.apiKeyRecord.id, signed.nonce, expiresAt, now?.());
+      } catch (error) {
+        next(error);
+        return;
+      }
+
+      if (!claimed) {
+        recordApiKeyLookup('miss');
+        next(new UnauthorizedError('Unauthorized: request nonce has already been used', 'REQUEST_SIGNATURE_REPLAYED'));
+        return;
+      }
+    }
+
+    // Signed requests never carry the key; the rate limiter keys them by id.
+    req.apiKeyValue = apiKey ?? `signed:${matchedCandidate.apiKeyRecord.id}`;
     req.apiKeyRecord = matchedCandidate.apiKeyRecord as unknown as Record<string, unknown>;
     req.user = matchedCandidate.user as Record<string, unknown>;
     req.vault = matchedCandidate.vault as Record<string, unknown> | null;
@@ -263,10 +345,56 @@ export function createGatewayApiKeyAuthMiddleware<
     res.locals = res.locals || {};
     res.locals.apiKeyTier = matchedCandidate.apiKeyRecord.tier;
 
+    options.onAuthenticated?.(matchedCandidate.apiKeyRecord, req);
+
     next();
   };
 }
 
+/**
+ * The candidate whose key signed this request, or `null` if none did. Checks
+ * the timestamp first, then buffers the body to check its digest.
+ */
+async function matchSignedCandidate<TUser, TVault>(
+  req: Request,
+  headers: SignedRequestHeaders,
+  candidates: GatewayAuthCandidate<TUser, TVault>[],
+  options: GatewaySignedRequestOptions,
+): Promise<GatewayAuthCandidate<TUser, TVault> | null> {
+  assertSignatureTimestamp(headers.timestamp, options.now?.() ?? new Date(), options.toleranceMs);
+  const body = await bufferRequestBody(req, options.maxBodyBytes);
+
+  return candidates.find((candidate) => {
+    const sealed = candidate.apiKeyRecord.signingSecret;
+    const key = sealed ? openSigningSecret(sealed, options.secretsKey) : null;
+    return key !== null && requestSignatureMatches(key, headers, req.method, req.originalUrl, body);
+  }) ?? null;
+}
+
+function mapBackedCandidates(
+  apiKeys: Map<string, InMemoryGatewayApiKey>,
+  prefix: string,
+): GatewayAuthCandidate[] {
+  return Array.from(apiKeys.entries())
+    .filter(([rawKey]) => rawKey.startsWith(prefix))
+    .map(([rawKey, record]) => ({
+      apiKeyRecord: {
+        id: record.key,
+        userId: record.developerId,
+        apiId: record.apiId,
+        prefix: rawKey.slice(0, API_KEY_PREFIX_LENGTH),
+        keyHash: sha256Hex(rawKey),
+        revoked: record.revoked ?? false,
+        scopes: record.scopes,
+        tier: record.tier,
+        dailySpendLimitUsdc: record.dailySpendLimitUsdc ?? null,
+        monthlySpendLimitUsdc: record.monthlySpendLimitUsdc ?? null,
+      },
+      user: { id: record.developerId },
+      vault: null,
+    }));
+}
+
 export function createMapBackedGatewayApiKeyAuthMiddleware<
   TApi = Record<string, unknown>,
   TEndpoint = Record<string, unknown>,
@@ -278,95 +406,68 @@ export function createMapBackedGatewayApiKeyAuthMiddleware<
   return createGatewayApiKeyAuthMiddleware({
     ...options,
     async getApiKeyCandidates(prefix: string) {
-      const apiKeys = options.apiKeys ?? new Map<string, InMemoryGatewayApiKey>();
-
-      return Array.from(apiKeys.entries())
-        .filter(([rawKey]) => rawKey.startsWith(prefix))
-        .map(([rawKey, record]) => ({
-          apiKeyRecord: {
-            id: record.key,
-            userId: record.developerId,
-            apiId: record.apiId,
-            prefix: rawKey.slice(0, API_KEY_PREFIX_LENGTH),
-            keyHash: sha256Hex(rawKey),
-            revoked: record.revoked ?? false,
-            scopes: record.scopes,
-            tier: record.tier,
-          },
-          user: { id: record.developerId },
-          vault: null,
-        }));
+      return mapBackedCandidates(options.apiKeys ?? new Map(), prefix);
     },
   });
 }
 
-export function createDatabaseGatewayApiKeyAuthMiddleware<
+function toGatewayApiKeyRecord(record: ApiKeyRecord): GatewayApiKeyRecord {
+  return {
+    id: record.id,
+    userId: record.userId,
+    apiId: record.apiId,
+    prefix: record.prefix,
+    // Both key stores keep a SHA-256 hex digest, which matchesStoredHash accepts.
+    keyHash: record.sha256Hash,
+    revoked: record.revoked,
+    scopes: record.scopes,
+    rateLimitPerMinute: record.rateLimitPerMinute,
+    authMode: record.authMode,
+    signingSecret: record.signingSecret,
+    createdAt: record.createdAt,
+    lastUsedAt: record.lastUsedAt ?? null,
+    expiresAt: record.expiresAt,
+    dailySpendLimitUsdc: record.dailySpendLimitUsdc,
+    monthlySpendLimitUsdc: record.monthlySpendLimitUsdc,
+  };
+}
+
+/**
+ * Authenticates keys issued through the key routes (`apiKeyRepository`),
+ * plus any statically configured `apiKeys`. Each accepted repository key has
+ * its `lastUsedAt` updated in the background.
+ */
+export function createRepositoryBackedGatewayApiKeyAuthMiddleware<
   TApi = Record<string, unknown>,
   TEndpoint = Record<string, unknown>,
 >(
   options: Omit<GatewayApiKeyAuthOptions<TApi, TEndpoint>, 'getApiKeyCandidates'> & {
-    db: GatewayAuthQueryable;
-    vaultNetwork?: string | ((req: Request) => string | null | undefined);
+    apiKeyRepository: ApiKeyRepository;
+    apiKeys?: Map<string, InMemoryGatewayApiKey>;
   },
 ): RequestHandler {
+  const repositoryRecords = new WeakSet<GatewayApiKeyRecord>();
+
   return createGatewayApiKeyAuthMiddleware({
     ...options,
-    async getApiKeyCandidates(prefix: string, req: Request) {
-      const network =
-        typeof options.vaultNetwork === 'function'
-          ? options.vaultNetwork(req)
-          : options.vaultNetwork;
-
-      const result = await options.db.query<DatabaseGatewayApiKeyRow>(
-        `
-          SELECT
-            ak.id AS api_key_id,
-            ak.user_id,
-            ak.api_id,
-            ak.prefix,
-            ak.key_hash,
-            COALESCE(ak.revoked, FALSE) AS revoked,
-            ak.scopes,
-            ak.rate_limit_per_minute,
-            ak.created_at,
-            ak.last_used_at,
-            ak.plan_tier,
-            row_to_json(u) AS "user",
-            row_to_json(v) AS vault
-          FROM api_keys ak
-          JOIN users u ON u.id = ak.user_id
-          LEFT JOIN LATERAL (
-            SELECT *
-            FROM vaults v
-            WHERE v.user_id = ak.user_id
-              AND ($2::text IS NULL OR v.network = $2::text)
-            ORDER BY
-              CASE WHEN $2::text IS NOT NULL AND v.network = $2::text THEN 0 ELSE 1 END,
-              v.id ASC
-            LIMIT 1
-          ) v ON TRUE
-          WHERE ak.prefix = $1
-        `,
-        [prefix, network ?? null],
-      );
-
-      return result.rows.map((row) => ({
-        apiKeyRecord: {
-          id: String(row.api_key_id),
-          userId: String(row.user_id),
-          apiId: String(row.api_id),
-          prefix: row.prefix,
-          keyHash: row.key_hash,
-          revoked: row.revoked,
-          scopes: row.scopes ?? [],
-          rateLimitPerMinute: row.rate_limit_per_minute,
-          createdAt: row.created_at ?? undefined,
-          lastUsedAt: row.last_used_at ?? undefined,
-          tier: row.plan_tier ?? undefined,
-        },
-        user: row.user ?? {},
-        vault: row.vault,
-      }));
+    async getApiKeyCandidates(prefix: string) {
+      const stored = await options.apiKeyRepository.findByPrefix(prefix);
+      const candidates = stored.map((record) => {
+        const apiKeyRecord = toGatewayApiKeyRecord(record);
+        repositoryRecords.add(apiKeyRecord);
+        return { apiKeyRecord, user: { id: record.userId }, vault: null };
+      });
+      return [...candidates, ...mapBackedCandidates(options.apiKeys ?? new Map(), prefix)];
+    },
+    onAuthenticated(apiKeyRecord, req) {
+      options.onAuthenticated?.(apiKeyRecord, req);
+      if (!repositoryRecords.has(apiKeyRecord)) return;
+      options.apiKeyRepository.markUsed(apiKeyRecord.id).catch((error: unknown) => {
+        logger.warn('[gatewayApiKeyAuth] failed to record API key use', {
+          apiKeyId: apiKeyRecord.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
     },
   });
 }
@@ -0,0 +1,52 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import {
+  adminMfaSubject,
+  getMfaService,
+  MFA_TOKEN_HEADER,
+  userMfaSubject,
+  type MfaService,
+} from '../services/mfa.js';
+
+export interface RequireStepUpOptions {
+  /**
+   * Who is performing the operation. Defaults to the developer set by
+   * `requireAuth`, then the admin set by `adminAuth`.
+   */
+  subject?: (req: Request, res: Response) => string | undefined;
+  /** Defaults to the shared service from `getMfaService()`. */
+  mfaService?: MfaService;
+}
+
+/** The MFA subject of the signed-in developer or admin, if any. */
+export function resolveMfaSubject(_req: Request, res: Response): string | undefined {
+  const userId = (res.locals.authenticatedUser as { id?: string } | undefined)?.id;
+  if (userId) return userMfaSubject(userId);
+
+  // The identity without its role, so a role change keeps the enrolment.
+  const adminId = res.locals.adminId as string | undefined;
+  return adminId ? adminMfaSubject(adminId) : undefined;
+}
+
+/**
+ * Guards a sensitive operation with an MFA step-up check. Mount after
+ * `requireAuth` or `adminAuth`. Subjects with MFA on must send a step-up
+ * token from `POST /mfa/verify` in the `X-MFA-Token` header; others pass
+ * unless MFA_ENFORCE is set. Failures are 403 `MFA_STEP_UP_REQUIRED` or
+ * `MFA_ENROLLMENT_REQUIRED`.
+ */
+export function requireStepUp(options: RequireStepUpOptions = {}): RequestHandler {
+  const resolveSubject = options.subject ?? resolveMfaSubject;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const subject = resolveSubject(req, res);
+    // Without a subject there is nothing to step up; authentication itself
+    // is the job of the middleware in front.
+    if (!subject) {
+      next();
+      return;
+    }
+
+    const service = options.mfaService ?? getMfaService();
+    service.assertSteppedUp(subject, req.header(MFA_TOKEN_HEADER)).then(() => next(), next);
+  };
+}
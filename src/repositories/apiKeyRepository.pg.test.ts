@@ -0,0 +1,160 @@
+import { createHash } from 'node:crypto';
+import { newDb } from 'pg-mem';
+import { LAST_USED_WRITE_INTERVAL_MS, PgApiKeyRepository } from './apiKeyRepository.pg.js';
+import { createConfiguredApiKeyRepository } from './apiKeyRepository.js';
+import { config } from '../config/index.js';
+import { openSigningSecret } from '../services/requestSigning.js';
+import type { PersistentRateLimiterPool } from '../services/rateLimiter.js';
+
+/** `api_keys` as it stands after migrations 0001, 0005–0007 and 0026–0028. */
+function createApiKeysDb() {
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.none(`
+    CREATE TABLE api_keys (
+      id BIGSERIAL PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      api_id BIGINT NOT NULL,
+      key_hash TEXT NOT NULL,
+      prefix VARCHAR(16) NOT NULL,
+      scopes TEXT[] NOT NULL DEFAULT '{}'::TEXT[],
+      rate_limit_per_minute INTEGER,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_used_at TIMESTAMPTZ,
+      revoked BOOLEAN NOT NULL DEFAULT FALSE,
+      plan_tier VARCHAR(20) NOT NULL DEFAULT 'free',
+      daily_spend_limit_usdc NUMERIC(20, 7),
+      monthly_spend_limit_usdc NUMERIC(20, 7),
+      expires_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ,
+      rotated_from_id BIGINT,
+      auth_mode VARCHAR(10) NOT NULL DEFAULT 'bearer',
+      signing_secret TEXT
+    );
+  `);
+  return db;
+}
+
+function createApiKeysPool(db = createApiKeysDb()): PersistentRateLimiterPool {
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+const baseKey = {
+  apiId: '101',
+  userId: 'user-1',
+  scopes: ['read'],
+  rateLimitPerMinute: 60,
+};
+
+describe('PgApiKeyRepository', () => {
+  let repository: PgApiKeyRepository;
+
+  beforeEach(() => {
+    repository = new PgApiKeyRepository(createApiKeysPool());
+  });
+
+  it('persists keys as SHA-256 digests the gateway can look up by prefix', async () => {
+    const created = await repository.create({ ...baseKey, monthlySpendLimitUsdc: 25 });
+
+    const [record] = await repository.findByPrefix(created.prefix);
+
+    expect(record).toEqual(expect.objectContaining({
+      id: created.id,
+      apiId: '101',
+      userId: 'user-1',
+      scopes: ['read'],
+      rateLimitPerMinute: 60,
+      dailySpendLimitUsdc: null,
+      monthlySpendLimitUsdc: 25,
+      revoked: false,
+      expiresAt: null,
+      rotatedFromId: null,
+    }));
+    expect(record.keyHash).toBe(createHash('sha256').update(created.key).digest('hex'));
+    expect(JSON.stringify(record)).not.toContain(created.key);
+  });
+
+  it('lists, updates and revokes only the owner\'s keys', async () => {
+    const created = await repository.create(baseKey);
+    await repository.create({ ...baseKey, apiId: '202' });
+
+    await expect(repository.list({ userId: 'user-1', apiId: '101' })).resolves.toHaveLength(1);
+    await expect(repository.list({ userId: 'user-1' })).resolves.toHaveLength(2);
+
+    await expect(repository.updateSpendLimits(created.id, 'user-2', { dailySpendLimitUsdc: 1 }))
+      .resolves.toBe('forbidden');
+    await expect(repository.updateSpendLimits(created.id, 'user-1', { dailySpendLimitUsdc: 1 }))
+      .resolves.toEqual(expect.objectContaining({ dailySpendLimitUsdc: 1, monthlySpendLimitUsdc: null }));
+
+    await expect(repository.revoke('999', 'user-1')).resolves.toBe('not_found');
+    await expect(repository.revoke(created.id, 'user-1')).resolves.toBe('success');
+    const [revoked] = await repository.findByPrefix(created.prefix);
+    expect(revoked.revoked).toBe(true);
+    expect(revoked.revokedAt).toBeInstanceOf(Date);
+  });
+
+  it('rotates to a successor and expires the old key after the overlap', async () => {
+    const now = new Date('2026-06-01T00:00:00.000Z');
+    const created = await repository.create(baseKey);
+
+    const result = await repository.rotate(created.id, 'user-1', { overlapMs: 3_600_000, now });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.previousKeyExpiresAt).toEqual(new Date('2026-06-01T01:00:00.000Z'));
+    expect(result.successor).toEqual(expect.objectContaining({
+      rotatedFromId: created.id,
+      apiId: '101',
+      scopes: ['read'],
+      expiresAt: null,
+    }));
+
+    const [previous] = await repository.findByPrefix(created.prefix);
+    expect(previous.expiresAt).toEqual(result.previousKeyExpiresAt);
+
+    await expect(
+      repository.rotate(created.id, 'user-1', { now: new Date('2026-06-01T02:00:00.000Z') }),
+    ).resolves.toEqual({ success: false, error: 'expired' });
+    await expect(repository.rotate(created.id, 'user-2', { now }))
+      .resolves.toEqual({ success: false, error: 'forbidden' });
+  });
+
+  it('keeps a sealed copy of the key and only enables signing for keys that have one', async () => {
+    const db = createApiKeysDb();
+    repository = new PgApiKeyRepository(createApiKeysPool(db));
+    const created = await repository.create({ ...baseKey, authMode: 'both' });
+    const legacy = await repository.create(baseKey);
+    db.public.none(`UPDATE api_keys SET signing_secret = NULL WHERE id = ${legacy.id}`);
+
+    const [record] = await repository.findByPrefix(created.prefix);
+    expect(record.authMode).toBe('both');
+    expect(record.signingSecret).not.toContain(created.key);
+    expect(openSigningSecret(record.signingSecret ?? '', config.apiKeys.secretsKey)).toBe(created.key);
+
+    await expect(repository.updateAuthMode(created.id, 'user-1', 'signed'))
+      .resolves.toEqual(expect.objectContaining({ authMode: 'signed' }));
+    await expect(repository.updateAuthMode(legacy.id, 'user-1', 'signed')).resolves.toBe('signing_unavailable');
+    await expect(repository.updateAuthMode(created.id, 'user-2', 'bearer')).resolves.toBe('forbidden');
+  });
+
+  it('throttles lastUsedAt writes and reports stale keys', async () => {
+    const stale = await repository.create(baseKey);
+    const active = await repository.create(baseKey);
+    const t0 = new Date(Date.now() + 1_000);
+
+    await repository.markUsed(active.id, t0);
+    await repository.markUsed(active.id, new Date(t0.getTime() + LAST_USED_WRITE_INTERVAL_MS - 1));
+    const [used] = await repository.findByPrefix(active.prefix);
+    expect(used.lastUsedAt).toEqual(t0);
+
+    const report = await repository.listStale({ userId: 'user-1', unusedSince: t0, now: t0 });
+    expect(report.map((record) => record.id)).toEqual([stale.id]);
+  });
+});
+
+describe('createConfiguredApiKeyRepository', () => {
+  it('requires a pool for the postgres store', () => {
+    expect(() => createConfiguredApiKeyRepository({ store: 'postgres' }))
+      .toThrow('A PostgreSQL pool is required when API_KEY_STORE is set to "postgres".');
+  });
+});
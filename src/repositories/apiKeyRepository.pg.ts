@@ -0,0 +1,351 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type {
+  PersistentRateLimiterClient,
+  PersistentRateLimiterPool,
+} from '../services/rateLimiter.js';
+import { config } from '../config/index.js';
+import { sealSigningSecret, type ApiKeyAuthMode } from '../services/requestSigning.js';
+import { apiKeyModeOf, apiKeyPrefixFor, type ApiKeyMode } from '../services/sandbox.js';
+import type {
+  ApiKeyAuthModeUpdateResult,
+  ApiKeyCreateParams,
+  ApiKeyCreateResult,
+  ApiKeyRecord,
+  ApiKeyRepository,
+  ApiKeyRotateOptions,
+  ApiKeyRotateResult,
+  ApiKeySpendLimitsUpdate,
+  StaleApiKeyQuery,
+} from './apiKeyRepository.js';
+
+/** How often the gateway may rewrite `last_used_at` for the same key. */
+export const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+interface ApiKeyRow {
+  id: string | number;
+  user_id: string;
+  api_id: string | number;
+  prefix: string;
+  key_hash: string;
+  scopes: string[] | null;
+  rate_limit_per_minute: number | null;
+  daily_spend_limit_usdc: string | number | null;
+  monthly_spend_limit_usdc: string | number | null;
+  created_at: Date | string;
+  last_used_at: Date | string | null;
+  revoked: boolean;
+  revoked_at: Date | string | null;
+  expires_at: Date | string | null;
+  rotated_from_id: string | number | null;
+  auth_mode: ApiKeyAuthMode;
+  signing_secret: string | null;
+}
+
+const COLUMNS = `
+  id, user_id, api_id, prefix, key_hash, scopes, rate_limit_per_minute,
+  daily_spend_limit_usdc, monthly_spend_limit_usdc, created_at, last_used_at,
+  COALESCE(revoked, FALSE) AS revoked, revoked_at, expires_at, rotated_from_id,
+  auth_mode, signing_secret
+`;
+
+function generatePlainKey(mode: ApiKeyMode): string {
+  return `${apiKeyPrefixFor(mode)}${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Keys are stored as SHA-256 hex digests — the format
+ * `createRepositoryBackedGatewayApiKeyAuthMiddleware` verifies against.
+ */
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function toNullableDate(value: Date | string | null): Date | null {
+  return value === null ? null : toDate(value);
+}
+
+function toNullableNumber(value: string | number | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function toRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: String(row.id),
+    apiId: String(row.api_id),
+    userId: row.user_id,
+    prefix: row.prefix,
+    keyHash: row.key_hash,
+    sha256Hash: row.key_hash,
+    scopes: row.scopes ?? [],
+    rateLimitPerMinute: row.rate_limit_per_minute,
+    dailySpendLimitUsdc: toNullableNumber(row.daily_spend_limit_usdc),
+    monthlySpendLimitUsdc: toNullableNumber(row.monthly_spend_limit_usdc),
+    createdAt: toDate(row.created_at),
+    revoked: row.revoked,
+    expiresAt: toNullableDate(row.expires_at),
+    rotatedFromId: row.rotated_from_id === null ? null : String(row.rotated_from_id),
+    authMode: row.auth_mode,
+    signingSecret: row.signing_secret,
+    lastUsedAt: toNullableDate(row.last_used_at),
+    revokedAt: toNullableDate(row.revoked_at),
+  };
+}
+
+async function rollbackQuietly(client: PersistentRateLimiterClient): Promise<void> {
+  try {
+    await client.query('ROLLBACK');
+  } catch {
+    // Ignore rollback failures so the original error is preserved.
+  }
+}
+
+/**
+ * {@link ApiKeyRepository} backed by the `api_keys` table (migrations 0001,
+ * 0005–0007 and 0026–0028). Keys survive restarts and every gateway instance
+ * sees the same keys, expiry and revocations.
+ */
+export class PgApiKeyRepository implements ApiKeyRepository {
+  constructor(private readonly pool: PersistentRateLimiterPool) {}
+
+  async create(params: ApiKeyCreateParams): Promise<ApiKeyCreateResult> {
+    const key = generatePlainKey(params.mode ?? 'live');
+    const prefix = key.slice(0, 16);
+
+    const result = await this.withClient((client) =>
+      client.query<Pick<ApiKeyRow, 'id' | 'created_at'>>(
+        `INSERT INTO api_keys
+           (user_id, api_id, prefix, key_hash, scopes, rate_limit_per_minute,
+            daily_spend_limit_usdc, monthly_spend_limit_usdc, expires_at,
+            auth_mode, signing_secret)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING id, created_at`,
+        [
+          params.userId,
+          params.apiId,
+          prefix,
+          sha256Hex(key),
+          params.scopes,
+          params.rateLimitPerMinute,
+          params.dailySpendLimitUsdc ?? null,
+          params.monthlySpendLimitUsdc ?? null,
+          params.expiresAt ?? null,
+          params.authMode ?? 'bearer',
+          sealSigningSecret(key, config.apiKeys.secretsKey),
+        ],
+      ),
+    );
+
+    const row = result.rows[0];
+    return { id: String(row.id), key, prefix, createdAt: toDate(row.created_at) };
+  }
+
+  async list(params: { userId: string; apiId?: string }): Promise<ApiKeyRecord[]> {
+    const result = await this.withClient((client) =>
+      client.query<ApiKeyRow>(
+        `SELECT ${COLUMNS} FROM api_keys
+         WHERE user_id = $1 AND ($2::text IS NULL OR api_id::text = $2::text)
+         ORDER BY created_at ASC, id ASC`,
+        [params.userId, params.apiId ?? null],
+      ),
+    );
+    return result.rows.map(toRecord);
+  }
+
+  async revoke(id: string, userId: string): Promise<'success' | 'not_found' | 'forbidden'> {
+    const owner = await this.findOwner(id);
+    if (owner === null) return 'not_found';
+    if (owner !== userId) return 'forbidden';
+
+    await this.withClient((client) =>
+      client.query(
+        `UPDATE api_keys SET revoked = TRUE, revoked_at = NOW() WHERE id::text = $1`,
+        [id],
+      ),
+    );
+    return 'success';
+  }
+
+  async updateSpendLimits(
+    id: string,
+    userId: string,
+    limits: ApiKeySpendLimitsUpdate,
+  ): Promise<ApiKeyRecord | 'not_found' | 'forbidden'> {
+    const owner = await this.findOwner(id);
+    if (owner === null) return 'not_found';
+    if (owner !== userId) return 'forbidden';
+
+    const result = await this.withClient((client) =>
+      client.query<ApiKeyRow>(
+        `UPDATE api_keys
+         SET daily_spend_limit_usdc = CASE WHEN $2 THEN $3::numeric ELSE daily_spend_limit_usdc END,
+             monthly_spend_limit_usdc = CASE WHEN $4 THEN $5::numeric ELSE monthly_spend_limit_usdc END
+         WHERE id::text = $1
+         RETURNING ${COLUMNS}`,
+        [
+          id,
+          limits.dailySpendLimitUsdc !== undefined,
+          limits.dailySpendLimitUsdc ?? null,
+          limits.monthlySpendLimitUsdc !== undefined,
+          limits.monthlySpendLimitUsdc ?? null,
+        ],
+      ),
+    );
+    return toRecord(result.rows[0]);
+  }
+
+  async updateAuthMode(
+    id: string,
+    userId: string,
+    authMode: ApiKeyAuthMode,
+  ): Promise<ApiKeyAuthModeUpdateResult> {
+    const result = await this.withClient((client) =>
+      client.query<ApiKeyRow>(`SELECT ${COLUMNS} FROM api_keys WHERE id::text = $1`, [id]),
+    );
+    const current = result.rows[0] ? toRecord(result.rows[0]) : null;
+    if (!current) return 'not_found';
+    if (current.userId !== userId) return 'forbidden';
+    if (authMode !== 'bearer' && current.signingSecret === null) return 'signing_unavailable';
+
+    const updated = await this.withClient((client) =>
+      client.query<ApiKeyRow>(
+        `UPDATE api_keys SET auth_mode = $2 WHERE id::text = $1 RETURNING ${COLUMNS}`,
+        [id, authMode],
+      ),
+    );
+    return toRecord(updated.rows[0]);
+  }
+
+  async getSha256Hash(id: string): Promise<string | null> {
+    const result = await this.withClient((client) =>
+      client.query<Pick<ApiKeyRow, 'key_hash'>>(
+        'SELECT key_hash FROM api_keys WHERE id::text = $1',
+        [id],
+      ),
+    );
+    return result.rows[0]?.key_hash ?? null;
+  }
+
+  async findByPrefix(prefix: string): Promise<ApiKeyRecord[]> {
+    const result = await this.withClient((client) =>
+      client.query<ApiKeyRow>(`SELECT ${COLUMNS} FROM api_keys WHERE prefix = $1`, [prefix]),
+    );
+    return result.rows.map(toRecord);
+  }
+
+  async rotate(id: string, userId: string, options: ApiKeyRotateOptions = {}): Promise<ApiKeyRotateResult> {
+    const now = options.now ?? new Date();
+    const overlapEndsAt = new Date(now.getTime() + Math.max(0, options.overlapMs ?? 0));
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the key so two concurrent rotations cannot both issue a successor.
+      const existing = await client.query<ApiKeyRow>(
+        `SELECT ${COLUMNS} FROM api_keys WHERE id::text = $1 FOR UPDATE`,
+        [id],
+      );
+      const current = existing.rows[0] ? toRecord(existing.rows[0]) : null;
+      const error = !current
+        ? 'not_found'
+        : current.userId !== userId
+          ? 'forbidden'
+          : current.revoked
+            ? 'revoked'
+            : current.expiresAt && current.expiresAt <= now
+              ? 'expired'
+              : null;
+      if (!current || error) {
+        await client.query('ROLLBACK');
+        return { success: false, error: error ?? 'not_found' };
+      }
+
+      const newKey = generatePlainKey(apiKeyModeOf(current.prefix));
+      const prefix = newKey.slice(0, 16);
+      const inserted = await client.query<ApiKeyRow>(
+        `INSERT INTO api_keys
+           (user_id, api_id, prefix, key_hash, scopes, rate_limit_per_minute,
+            daily_spend_limit_usdc, monthly_spend_limit_usdc, plan_tier,
+            expires_at, rotated_from_id, created_at, auth_mode, signing_secret)
+         SELECT user_id, api_id, $2, $3, scopes, rate_limit_per_minute,
+                daily_spend_limit_usdc, monthly_spend_limit_usdc, plan_tier,
+                expires_at, id, $4::timestamptz, auth_mode, $5
+         FROM api_keys WHERE id::text = $1
+         RETURNING ${COLUMNS}`,
+        [id, prefix, sha256Hex(newKey), now, sealSigningSecret(newKey, config.apiKeys.secretsKey)],
+      );
+
+      const previousKeyExpiresAt =
+        current.expiresAt && current.expiresAt < overlapEndsAt ? current.expiresAt : overlapEndsAt;
+      await client.query('UPDATE api_keys SET expires_at = $2 WHERE id::text = $1', [
+        id,
+        previousKeyExpiresAt,
+      ]);
+
+      await client.query('COMMIT');
+      return {
+        success: true,
+        successor: toRecord(inserted.rows[0]),
+        newKey,
+        previousKeyExpiresAt,
+      };
+    } catch (error) {
+      await rollbackQuietly(client);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async markUsed(id: string, at: Date = new Date()): Promise<void> {
+    // Skip the write while the stored value is recent: a busy key would
+    // otherwise rewrite its row on every call.
+    await this.withClient((client) =>
+      client.query(
+        `UPDATE api_keys SET last_used_at = $2
+         WHERE id::text = $1 AND (last_used_at IS NULL OR last_used_at <= $3)`,
+        [id, at, new Date(at.getTime() - LAST_USED_WRITE_INTERVAL_MS)],
+      ),
+    );
+  }
+
+  async listStale(query: StaleApiKeyQuery): Promise<ApiKeyRecord[]> {
+    const now = query.now ?? new Date();
+    const result = await this.withClient((client) =>
+      client.query<ApiKeyRow>(
+        `SELECT ${COLUMNS} FROM api_keys
+         WHERE user_id = $1
+           AND ($2::text IS NULL OR api_id::text = $2::text)
+           AND COALESCE(revoked, FALSE) = FALSE
+           AND (expires_at IS NULL OR expires_at > $3)
+           AND COALESCE(last_used_at, created_at) < $4
+         ORDER BY COALESCE(last_used_at, created_at) ASC, id ASC`,
+        [query.userId, query.apiId ?? null, now, query.unusedSince],
+      ),
+    );
+    return result.rows.map(toRecord);
+  }
+
+  private async findOwner(id: string): Promise<string | null> {
+    const result = await this.withClient((client) =>
+      client.query<Pick<ApiKeyRow, 'user_id'>>(
+        'SELECT user_id FROM api_keys WHERE id::text = $1',
+        [id],
+      ),
+    );
+    return result.rows[0]?.user_id ?? null;
+  }
+
+  private async withClient<T>(fn: (client: PersistentRateLimiterClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await fn(client);
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -271,7 +271,7 @@ describe('api_keys.prefix partial unique index (migration 0006)', () => {
       [prefix],
     );
 
-    // This is the query pattern used by createDatabaseGatewayApiKeyAuthMiddleware.
+    // The gateway looks keys up by prefix, as PgApiKeyRepository.findByPrefix does.
     const { rows } = await pool.query(
       `SELECT id, prefix, key_hash, revoked
        FROM api_keys
@@ -227,44 +227,147 @@ describe("ApiKeyRepository Security Tests", () => {
       }
     });
 
-    it("should maintain metadata during rotation", () => {
+    it("should issue a successor with the same metadata", () => {
       const userId = "user-1";
 
-      apiKeyRepository.create({
+      const { id: keyId } = apiKeyRepository.create({
         apiId: "api-1",
         userId,
         scopes: ["read", "write", "admin"],
         rateLimitPerMinute: 200,
+        dailySpendLimitUsdc: 5,
       });
-
-      const keys = apiKeyRepository.listForTesting();
-      const keyId = keys.find((k) => k.userId === userId)!.id;
-      // Snapshot values before rotate — the array entry is mutated in place
-      const originalHash = keys.find((k) => k.userId === userId)!.keyHash;
-      const originalPrefix = keys.find((k) => k.userId === userId)!.prefix;
-      const originalKey = { ...keys.find((k) => k.userId === userId)! };
+      const [original] = apiKeyRepository.listForTesting();
 
       const rotateResult = apiKeyRepository.rotate(keyId, userId);
 
       expect(rotateResult.success).toBe(true);
       if (rotateResult.success) {
-        const updatedKeys = apiKeyRepository.listForTesting();
-        const updatedKey = updatedKeys.find((k) => k.userId === userId)!;
-
-        // Metadata should be preserved
-        expect(updatedKey.id).toBe(originalKey.id);
-        expect(updatedKey.apiId).toBe(originalKey.apiId);
-        expect(updatedKey.userId).toBe(originalKey.userId);
-        expect(updatedKey.scopes).toEqual(originalKey.scopes);
-        expect(updatedKey.rateLimitPerMinute).toBe(
-          originalKey.rateLimitPerMinute,
-        );
+        const successor = apiKeyRepository
+          .listForTesting()
+          .find((k) => k.id === rotateResult.successor.id)!;
+
+        // Metadata should be carried over to the successor
+        expect(successor.id).not.toBe(original.id);
+        expect(successor.rotatedFromId).toBe(original.id);
+        expect(successor.apiId).toBe(original.apiId);
+        expect(successor.userId).toBe(original.userId);
+        expect(successor.scopes).toEqual(original.scopes);
+        expect(successor.rateLimitPerMinute).toBe(original.rateLimitPerMinute);
+        expect(successor.dailySpendLimitUsdc).toBe(5);
+
+        // The successor has its own secret
+        expect(successor.keyHash).not.toBe(original.keyHash);
+        expect(successor.prefix).not.toBe(original.prefix);
+      }
+    });
+
+    it("keeps the old key valid until the overlap window ends", () => {
+      const now = new Date();
+      const created = apiKeyRepository.create({
+        apiId: "api-1",
+        userId: "user-1",
+        scopes: ["*"],
+        rateLimitPerMinute: null,
+      });
+
+      const rotateResult = apiKeyRepository.rotate(created.id, "user-1", {
+        overlapMs: 60_000,
+        now,
+      });
 
-        // Only hash and prefix should change
-        expect(updatedKey.keyHash).not.toBe(originalHash);
-        expect(updatedKey.prefix).not.toBe(originalPrefix);
+      expect(rotateResult.success).toBe(true);
+      if (rotateResult.success) {
+        expect(rotateResult.previousKeyExpiresAt).toEqual(new Date(now.getTime() + 60_000));
+        expect(apiKeyRepository.verify(created.key)).toBeTruthy();
+        expect(apiKeyRepository.verify(rotateResult.newKey)).toBeTruthy();
       }
     });
+
+    it("never extends an earlier expiry and refuses expired or revoked keys", () => {
+      const now = new Date();
+      const soon = new Date(now.getTime() + 1_000);
+      const created = apiKeyRepository.create({
+        apiId: "api-1",
+        userId: "user-1",
+        scopes: ["*"],
+        rateLimitPerMinute: null,
+        expiresAt: soon,
+      });
+
+      const rotateResult = apiKeyRepository.rotate(created.id, "user-1", {
+        overlapMs: 60_000,
+        now,
+      });
+      expect(rotateResult.success && rotateResult.previousKeyExpiresAt).toEqual(soon);
+
+      expect(
+        apiKeyRepository.rotate(created.id, "user-1", { now: new Date(soon.getTime() + 1) }),
+      ).toEqual({ success: false, error: "expired" });
+
+      const revoked = apiKeyRepository.create({
+        apiId: "api-1",
+        userId: "user-1",
+        scopes: ["*"],
+        rateLimitPerMinute: null,
+      });
+      apiKeyRepository.revoke(revoked.id, "user-1");
+      expect(apiKeyRepository.rotate(revoked.id, "user-1")).toEqual({
+        success: false,
+        error: "revoked",
+      });
+    });
+  });
+
+  describe("Expiry and usage tracking", () => {
+    it("rejects keys once they have expired", () => {
+      const created = apiKeyRepository.create({
+        apiId: "api-1",
+        userId: "user-1",
+        scopes: ["*"],
+        rateLimitPerMinute: null,
+        expiresAt: new Date(Date.now() - 1),
+      });
+
+      expect(apiKeyRepository.verify(created.key)).toBeNull();
+    });
+
+    it("reports active keys unused since a cutoff, least recently used first", () => {
+      const base = { apiId: "api-1", userId: "user-1", scopes: ["*"], rateLimitPerMinute: null };
+      const neverUsed = apiKeyRepository.create(base);
+      const usedLongAgo = apiKeyRepository.create(base);
+      const usedRecently = apiKeyRepository.create(base);
+      const revoked = apiKeyRepository.create(base);
+      apiKeyRepository.create({ ...base, userId: "user-2" });
+
+      const now = new Date(Date.now() + 40 * 24 * 60 * 60 * 1000);
+      apiKeyRepository.markUsed(usedLongAgo.id, new Date(Date.now() + 1_000));
+      apiKeyRepository.markUsed(usedRecently.id, now);
+      apiKeyRepository.revoke(revoked.id, "user-1");
+
+      const stale = apiKeyRepository.listStale({
+        userId: "user-1",
+        unusedSince: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
+        now,
+      });
+
+      expect(stale.map((k) => k.id)).toEqual([neverUsed.id, usedLongAgo.id]);
+    });
+
+    it("only moves lastUsedAt forward", () => {
+      const created = apiKeyRepository.create({
+        apiId: "api-1",
+        userId: "user-1",
+        scopes: ["*"],
+        rateLimitPerMinute: null,
+      });
+      const later = new Date(Date.now() + 10_000);
+
+      apiKeyRepository.markUsed(created.id, later);
+      apiKeyRepository.markUsed(created.id, new Date());
+
+      expect(apiKeyRepository.listForTesting()[0].lastUsedAt).toEqual(later);
+    });
   });
 
   describe("Error Handling and Edge Cases", () => {
@@ -456,7 +559,7 @@ describe("ApiKeyRepository Security Tests", () => {
       expect(apiKeyRepository.verify(createdKeys[2].key)).toBeTruthy(); // Unchanged key
 
       const finalKeys = apiKeyRepository.listForTesting();
-      expect(finalKeys).toHaveLength(3); // All 3 keys remain (1 revoked, 2 active)
+      expect(finalKeys).toHaveLength(4); // 3 original keys plus the rotation successor
       expect(finalKeys.filter(k => k.revoked)).toHaveLength(1);
     });
   });
@@ -503,10 +606,12 @@ describe("ApiKeyRepository Property-Based Tests", () => {
         const [record] = apiKeyRepository.listForTesting();
         const result = apiKeyRepository.rotate(record.id, record.userId);
         if (!result.success) return false;
-        const [updated] = apiKeyRepository.listForTesting();
+        const successor = apiKeyRepository
+          .listForTesting()
+          .find((k) => k.id === result.successor.id)!;
         return (
-          bcrypt.compareSync(result.newKey, updated.keyHash) &&
-          !bcrypt.compareSync(oldKey, updated.keyHash)
+          bcrypt.compareSync(result.newKey, successor.keyHash) &&
+          !bcrypt.compareSync(oldKey, successor.keyHash)
         );
       }),
       { numRuns: 10 },
@@ -2,6 +2,10 @@ import { randomBytes, timingSafeEqual, createHash } from "crypto";
 import bcrypt from "bcryptjs";
 import { config } from "../config/index.js";
 import { decodeCursor, encodeCursor } from "../lib/cursorPagination.js";
+import type { PersistentRateLimiterPool } from "../services/rateLimiter.js";
+import { sealSigningSecret, type ApiKeyAuthMode } from "../services/requestSigning.js";
+import { apiKeyModeOf, apiKeyPrefixFor, type ApiKeyMode } from "../services/sandbox.js";
+import { PgApiKeyRepository } from "./apiKeyRepository.pg.js";
 
 function sha256Hex(value: string): string {
   return createHash('sha256').update(value).digest('hex');
@@ -31,14 +35,42 @@ export interface ApiKeyRecord {
   sha256Hash: string;
   scopes: string[];
   rateLimitPerMinute: number | null;
+  /** Optional USDC budgets per UTC day / month. NULL means no budget. */
+  dailySpendLimitUsdc: number | null;
+  monthlySpendLimitUsdc: number | null;
   createdAt: Date;
   revoked: boolean;
+  /** The key stops verifying at this instant. NULL means it never expires. */
+  expiresAt: Date | null;
+  /** Set on successor keys issued by {@link apiKeyRepository.rotate}. */
+  rotatedFromId: string | null;
+  /** Whether the gateway accepts the key as a bearer secret, by signature, or both. */
+  authMode: ApiKeyAuthMode;
+  /**
+   * The key sealed with API_KEY_SECRETS_KEY, for verifying signed requests.
+   * NULL for keys issued before signing was supported.
+   */
+  signingSecret: string | null;
   lastUsedAt?: Date | null;
   revokedAt?: Date | null;
 }
 
 const apiKeys: ApiKeyRecord[] = [];
 
+export interface ApiKeyCreateParams {
+  apiId: string;
+  userId: string;
+  scopes: string[];
+  rateLimitPerMinute: number | null;
+  dailySpendLimitUsdc?: number | null;
+  monthlySpendLimitUsdc?: number | null;
+  expiresAt?: Date | null;
+  /** Defaults to 'bearer'. */
+  authMode?: ApiKeyAuthMode;
+  /** Defaults to 'live'. Test keys (`ck_test_…`) only reach the API's sandbox. */
+  mode?: ApiKeyMode;
+}
+
 export interface ApiKeyCreateResult {
   id: string;
   key: string;
@@ -46,8 +78,74 @@ export interface ApiKeyCreateResult {
   createdAt: Date;
 }
 
-function generatePlainKey(): string {
-  return `ck_live_${randomBytes(24).toString("hex")}`;
+export type ApiKeySpendLimitsUpdate = {
+  dailySpendLimitUsdc?: number | null;
+  monthlySpendLimitUsdc?: number | null;
+};
+
+export type ApiKeyAuthModeUpdateResult =
+  | ApiKeyRecord
+  | 'not_found'
+  | 'forbidden'
+  /** Signed modes need a sealed copy of the key, which older keys lack. */
+  | 'signing_unavailable';
+
+export interface ApiKeyRotateOptions {
+  /** How long the old key keeps verifying after the successor is issued. */
+  overlapMs?: number;
+  now?: Date;
+}
+
+export type ApiKeyRotateResult =
+  | {
+      success: true;
+      successor: ApiKeyRecord;
+      /** The successor's plaintext key — returned once, never stored. */
+      newKey: string;
+      /** When the rotated-out key stops verifying. */
+      previousKeyExpiresAt: Date;
+    }
+  | { success: false; error: 'not_found' | 'forbidden' | 'revoked' | 'expired' };
+
+export interface StaleApiKeyQuery {
+  userId: string;
+  apiId?: string;
+  /** Keys whose last use (or creation, if never used) is before this are stale. */
+  unusedSince: Date;
+  now?: Date;
+}
+
+/** True once `record.expiresAt` has passed. */
+export function isApiKeyExpired(record: Pick<ApiKeyRecord, 'expiresAt'>, now = new Date()): boolean {
+  return record.expiresAt !== null && record.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Active keys (not revoked, not expired) last used — or, if never used,
+ * created — before `unusedSince`, least recently used first.
+ */
+export function selectStaleApiKeys(records: ApiKeyRecord[], query: StaleApiKeyQuery): ApiKeyRecord[] {
+  const now = query.now ?? new Date();
+  const lastActivity = (record: ApiKeyRecord): number =>
+    (record.lastUsedAt ?? record.createdAt).getTime();
+
+  return records
+    .filter((record) =>
+      record.userId === query.userId &&
+      (query.apiId === undefined || record.apiId === query.apiId) &&
+      !record.revoked &&
+      !isApiKeyExpired(record, now) &&
+      lastActivity(record) < query.unusedSince.getTime()
+    )
+    .sort((a, b) => lastActivity(a) - lastActivity(b));
+}
+
+function generatePlainKey(mode: ApiKeyMode): string {
+  return `${apiKeyPrefixFor(mode)}${randomBytes(24).toString("hex")}`;
+}
+
+function sealKey(key: string): string {
+  return sealSigningSecret(key, config.apiKeys.secretsKey);
 }
 
 function toHash(value: string): string {
@@ -72,13 +170,8 @@ function constantTimeCompare(a: string, b: string): boolean {
 }
 
 export const apiKeyRepository = {
-   create(params: {
-     apiId: string;
-     userId: string;
-     scopes: string[];
-     rateLimitPerMinute: number | null;
-    }): ApiKeyCreateResult {
-      const key = generatePlainKey();
+   create(params: ApiKeyCreateParams): ApiKeyCreateResult {
+      const key = generatePlainKey(params.mode ?? 'live');
       const prefix = key.slice(0, 16);
       const id = randomBytes(8).toString('hex');
       const createdAt = new Date();
@@ -93,8 +186,14 @@ export const apiKeyRepository = {
       sha256Hash,
       scopes: params.scopes,
       rateLimitPerMinute: params.rateLimitPerMinute,
+      dailySpendLimitUsdc: params.dailySpendLimitUsdc ?? null,
+      monthlySpendLimitUsdc: params.monthlySpendLimitUsdc ?? null,
       createdAt,
       revoked: false,
+      expiresAt: params.expiresAt ?? null,
+      rotatedFromId: null,
+      authMode: params.authMode ?? 'bearer',
+      signingSecret: sealKey(key),
       lastUsedAt: null,
       revokedAt: null
     });
@@ -170,10 +269,51 @@ export const apiKeyRepository = {
     key.revokedAt = new Date();
     return 'success';
   },
+  updateSpendLimits(
+    id: string,
+    userId: string,
+    limits: ApiKeySpendLimitsUpdate,
+  ): ApiKeyRecord | 'not_found' | 'forbidden' {
+    const key = apiKeys.find(k => k.id === id);
+    if (!key) return 'not_found';
+    if (key.userId !== userId) return 'forbidden';
+
+    if (limits.dailySpendLimitUsdc !== undefined) {
+      key.dailySpendLimitUsdc = limits.dailySpendLimitUsdc;
+    }
+    if (limits.monthlySpendLimitUsdc !== undefined) {
+      key.monthlySpendLimitUsdc = limits.monthlySpendLimitUsdc;
+    }
+    return { ...key };
+  },
+  updateAuthMode(id: string, userId: string, authMode: ApiKeyAuthMode): ApiKeyAuthModeUpdateResult {
+    const key = apiKeys.find(k => k.id === id);
+    if (!key) return 'not_found';
+    if (key.userId !== userId) return 'forbidden';
+    if (authMode !== 'bearer' && key.signingSecret === null) return 'signing_unavailable';
+
+    key.authMode = authMode;
+    return { ...key };
+  },
   getSha256Hash(id: string): string | null {
     const key = apiKeys.find(k => k.id === id);
     return key?.sha256Hash ?? null;
   },
+  /** Records sharing `prefix`, for the gateway's prefix-then-hash lookup. */
+  findByPrefix(prefix: string): ApiKeyRecord[] {
+    return apiKeys
+      .filter((k) => constantTimeCompare(k.prefix, prefix))
+      .map((record) => ({ ...record }));
+  },
+  markUsed(id: string, at: Date = new Date()): void {
+    const key = apiKeys.find(k => k.id === id);
+    if (key && (!key.lastUsedAt || key.lastUsedAt < at)) {
+      key.lastUsedAt = at;
+    }
+  },
+  listStale(query: StaleApiKeyQuery): ApiKeyRecord[] {
+    return selectStaleApiKeys(apiKeys, query).map((record) => ({ ...record }));
+  },
   verify(key: string): ApiKeyRecord | null {
     if (typeof key !== 'string') return null;
     // Find potential matches by prefix first for efficiency
@@ -187,9 +327,9 @@ export const apiKeyRepository = {
 
     for (const candidate of candidates) {
       if (verifyHash(key, candidate.keyHash)) {
-        if (candidate.revoked) {
-          // A revoked key is not valid — treat it exactly like an unknown key
-          // so callers cannot distinguish "revoked" from "never existed".
+        if (candidate.revoked || isApiKeyExpired(candidate)) {
+          // A revoked or expired key is not valid — treat it exactly like an
+          // unknown key so callers cannot distinguish it from "never existed".
           return null;
         }
         // Return a copy without the raw hash so callers never see the secret.
@@ -202,8 +342,14 @@ export const apiKeyRepository = {
           sha256Hash: candidate.sha256Hash,
           scopes: candidate.scopes,
           rateLimitPerMinute: candidate.rateLimitPerMinute,
+          dailySpendLimitUsdc: candidate.dailySpendLimitUsdc,
+          monthlySpendLimitUsdc: candidate.monthlySpendLimitUsdc,
           createdAt: candidate.createdAt,
           revoked: candidate.revoked,
+          expiresAt: candidate.expiresAt,
+          rotatedFromId: candidate.rotatedFromId,
+          authMode: candidate.authMode,
+          signingSecret: candidate.signingSecret === null ? null : '[REDACTED]',
           lastUsedAt: candidate.lastUsedAt,
           revokedAt: candidate.revokedAt,
         };
@@ -215,21 +361,49 @@ export const apiKeyRepository = {
     // prefix exists via a distinct error path (timing/oracle safety).
     return null;
   },
-  rotate(id: string, userId: string): { success: true; newKey: string; prefix: string } | { success: false; error: 'not_found' | 'forbidden' | 'revoked' } {
-    const index = apiKeys.findIndex(k => k.id === id);
-    if (index === -1) return { success: false, error: 'not_found' };
-    if (apiKeys[index].userId !== userId) return { success: false, error: 'forbidden' };
-    if (apiKeys[index].revoked) return { success: false, error: 'revoked' };
+  /**
+   * Issues a successor key with the same API, scopes, limits, auth mode and
+   * live or test mode.
+   * The old key keeps verifying for `overlapMs` (default 0: it stops
+   * immediately) so clients can roll the new key out without downtime.
+   */
+  rotate(id: string, userId: string, options: ApiKeyRotateOptions = {}): ApiKeyRotateResult {
+    const now = options.now ?? new Date();
+    const current = apiKeys.find(k => k.id === id);
+    if (!current) return { success: false, error: 'not_found' };
+    if (current.userId !== userId) return { success: false, error: 'forbidden' };
+    if (current.revoked) return { success: false, error: 'revoked' };
+    if (isApiKeyExpired(current, now)) return { success: false, error: 'expired' };
+
+    const newKey = generatePlainKey(apiKeyModeOf(current.prefix));
+    const prefix = newKey.slice(0, 16);
+    const successorId = randomBytes(8).toString('hex');
 
-    // Generate new key
-    const newKey = generatePlainKey();
-    const newPrefix = newKey.slice(0, 16);
+    const successor: ApiKeyRecord = {
+      ...current,
+      id: successorId,
+      prefix,
+      keyHash: toHash(newKey),
+      sha256Hash: sha256Hex(newKey),
+      signingSecret: sealKey(newKey),
+      createdAt: now,
+      rotatedFromId: current.id,
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    apiKeys.push(successor);
 
-    // Update existing record
-    apiKeys[index].keyHash = toHash(newKey);
-    apiKeys[index].prefix = newPrefix;
+    const overlapEndsAt = new Date(now.getTime() + Math.max(0, options.overlapMs ?? 0));
+    const previousKeyExpiresAt =
+      current.expiresAt && current.expiresAt < overlapEndsAt ? current.expiresAt : overlapEndsAt;
+    current.expiresAt = previousKeyExpiresAt;
 
-    return { success: true, newKey, prefix: newPrefix };
+    return {
+      success: true,
+      successor: { ...successor },
+      newKey,
+      previousKeyExpiresAt,
+    };
   },
   listForTesting(): ApiKeyRecord[] {
     return apiKeys.map(k => ({ ...k }));
@@ -239,3 +413,94 @@ export const apiKeyRepository = {
     apiKeys.length = 0;
   },
 };
+
+/**
+ * Asynchronous API key store used by the key routes and the gateway.
+ * {@link InMemoryApiKeyRepository} (the default) keeps keys in this process;
+ * {@link PgApiKeyRepository} persists them in the `api_keys` table so they
+ * survive restarts and are shared by every instance.
+ */
+export interface ApiKeyRepository {
+  create(params: ApiKeyCreateParams): Promise<ApiKeyCreateResult>;
+  list(params: { userId: string; apiId?: string }): Promise<ApiKeyRecord[]>;
+  revoke(id: string, userId: string): Promise<'success' | 'not_found' | 'forbidden'>;
+  updateSpendLimits(
+    id: string,
+    userId: string,
+    limits: ApiKeySpendLimitsUpdate,
+  ): Promise<ApiKeyRecord | 'not_found' | 'forbidden'>;
+  updateAuthMode(id: string, userId: string, authMode: ApiKeyAuthMode): Promise<ApiKeyAuthModeUpdateResult>;
+  getSha256Hash(id: string): Promise<string | null>;
+  findByPrefix(prefix: string): Promise<ApiKeyRecord[]>;
+  rotate(id: string, userId: string, options?: ApiKeyRotateOptions): Promise<ApiKeyRotateResult>;
+  /** Records a gateway call made with the key. */
+  markUsed(id: string, at?: Date): Promise<void>;
+  listStale(query: StaleApiKeyQuery): Promise<ApiKeyRecord[]>;
+}
+
+/** {@link ApiKeyRepository} over the module-level in-memory store above. */
+export class InMemoryApiKeyRepository implements ApiKeyRepository {
+  async create(params: ApiKeyCreateParams): Promise<ApiKeyCreateResult> {
+    return apiKeyRepository.create(params);
+  }
+
+  async list(params: { userId: string; apiId?: string }): Promise<ApiKeyRecord[]> {
+    return apiKeyRepository.list(params);
+  }
+
+  async revoke(id: string, userId: string): Promise<'success' | 'not_found' | 'forbidden'> {
+    return apiKeyRepository.revoke(id, userId);
+  }
+
+  async updateSpendLimits(
+    id: string,
+    userId: string,
+    limits: ApiKeySpendLimitsUpdate,
+  ): Promise<ApiKeyRecord | 'not_found' | 'forbidden'> {
+    return apiKeyRepository.updateSpendLimits(id, userId, limits);
+  }
+
+  async updateAuthMode(id: string, userId: string, authMode: ApiKeyAuthMode): Promise<ApiKeyAuthModeUpdateResult> {
+    return apiKeyRepository.updateAuthMode(id, userId, authMode);
+  }
+
+  async getSha256Hash(id: string): Promise<string | null> {
+    return apiKeyRepository.getSha256Hash(id);
+  }
+
+  async findByPrefix(prefix: string): Promise<ApiKeyRecord[]> {
+    return apiKeyRepository.findByPrefix(prefix);
+  }
+
+  async rotate(id: string, userId: string, options?: ApiKeyRotateOptions): Promise<ApiKeyRotateResult> {
+    return apiKeyRepository.rotate(id, userId, options);
+  }
+
+  async markUsed(id: string, at?: Date): Promise<void> {
+    apiKeyRepository.markUsed(id, at);
+  }
+
+  async listStale(query: StaleApiKeyQuery): Promise<ApiKeyRecord[]> {
+    return apiKeyRepository.listStale(query);
+  }
+}
+
+export const defaultApiKeyRepository: ApiKeyRepository = new InMemoryApiKeyRepository();
+
+export interface AppApiKeyStoreConfig {
+  store: 'memory' | 'postgres';
+}
+
+export function createConfiguredApiKeyRepository(
+  config: AppApiKeyStoreConfig,
+  pool?: PersistentRateLimiterPool,
+): ApiKeyRepository {
+  if (config.store === 'postgres') {
+    if (!pool) {
+      throw new Error('A PostgreSQL pool is required when API_KEY_STORE is set to "postgres".');
+    }
+    return new PgApiKeyRepository(pool);
+  }
+
+  return defaultApiKeyRepository;
+}
@@ -1,6 +1,6 @@
 import { eq, and, like, isNotNull, type SQL } from "drizzle-orm";
 import { db, schema } from "../db/index.js";
-import type { Api, ApiEndpoint, NewApi, NewApiEndpoint } from "../db/schema.js";
+import type { Api, ApiEndpoint, HttpMethod, NewApi, NewApiEndpoint } from "../db/schema.js";
 import type {
   ApiCreateInput,
   ApiWithEndpoints,
@@ -12,6 +12,7 @@ import type {
   ApiListFilters,
   ApiRepository,
   ApiUpdateInput,
+  EndpointChanges,
 } from "./apiRepository.js";
 
 export class DrizzleApiRepository implements ApiRepository {
@@ -291,4 +292,47 @@ export class DrizzleApiRepository implements ApiRepository {
       }));
     });
   }
+
+  async applyEndpointChanges(
+    apiId: number,
+    { added, removed, updated }: EndpointChanges,
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      const sameEndpoint = (endpoint: { path: string; method: string }) =>
+        and(
+          eq(schema.apiEndpoints.api_id, apiId),
+          eq(schema.apiEndpoints.path, endpoint.path),
+          eq(schema.apiEndpoints.method, endpoint.method as HttpMethod),
+        );
+
+      for (const endpoint of removed) {
+        await tx.delete(schema.apiEndpoints).where(sameEndpoint(endpoint));
+      }
+      for (const endpoint of updated) {
+        await tx
+          .update(schema.apiEndpoints)
+          .set({
+            description: endpoint.description,
+            parameters: endpoint.parameters ? JSON.stringify(endpoint.parameters) : null,
+            updated_at: new Date(),
+          })
+          .where(sameEndpoint(endpoint));
+      }
+      if (added.length > 0) {
+        await tx.insert(schema.apiEndpoints).values(
+          added.map(
+            (e) =>
+              ({
+                api_id: apiId,
+                path: e.path,
+                method: e.method,
+                price_per_call_usdc: e.price_per_call_usdc,
+                parameters: e.parameters ? JSON.stringify(e.parameters) : null,
+                description: e.description ?? null,
+              }) as NewApiEndpoint,
+          ),
+        );
+      }
+    });
+  }
 }
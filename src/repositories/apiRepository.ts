@@ -62,10 +62,90 @@ export interface ApiDetails {
   developer: ApiDeveloperInfo;
 }
 
+/** One price band of a tiered endpoint; `up_to: null` marks the last tier. */
+export interface ApiEndpointPricingTier {
+  up_to: number | null;
+  price_usdc: string;
+}
+
+/** Graduated or volume pricing, evaluated per consumer per billing period. */
+export interface ApiEndpointTieredPricing {
+  model: "graduated" | "volume";
+  tiers: ApiEndpointPricingTier[];
+}
+
+/**
+ * Per-unit pricing: the upstream reports the units a call consumed in a
+ * response header (`X-Callora-Units` unless `units_header` is set).
+ */
+export interface ApiEndpointUnitPricing {
+  model: "unit";
+  unit_price_usdc: string;
+  max_units_per_call: number;
+  units_header?: string;
+}
+
+/**
+ * Streaming pricing: WebSocket connections and event streams are billed per
+ * metering interval, by the minute and/or by the message.
+ */
+export interface ApiEndpointStreamPricing {
+  model: "stream";
+  per_minute_usdc?: string;
+  per_message_usdc?: string;
+}
+
+/** Endpoints without pricing charge `price_per_call_usdc` for every call. */
+export type ApiEndpointPricing =
+  | ApiEndpointTieredPricing
+  | ApiEndpointUnitPricing
+  | ApiEndpointStreamPricing;
+
+/**
+ * Gateway response caching for a GET endpoint. Calls served from the cache
+ * cost `hit_price_usdc` when it is set.
+ */
+export interface ApiEndpointCachePolicy {
+  ttl_seconds: number;
+  vary_headers?: string[];
+  hit_price_usdc?: string;
+}
+
+/**
+ * Gateway limits for one endpoint. Unset fields use the gateway-wide
+ * settings; `allowed_methods` makes other methods on the path fail with 405.
+ */
+export interface ApiEndpointPolicy {
+  timeout_ms?: number;
+  max_request_body_bytes?: number;
+  max_response_bytes?: number;
+  allowed_methods?: HttpMethod[];
+}
+
+/**
+ * A parameter of an endpoint as documented in the provider's OpenAPI
+ * document; `schema` is the parameter's JSON Schema with `$ref`s inlined.
+ */
+export interface ApiEndpointParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required: boolean;
+  description?: string;
+  schema?: Record<string, unknown>;
+}
+
 export interface ApiEndpointInfo {
   path: string;
   method: string;
   price_per_call_usdc: string;
+  /** Tiered pricing shown to buyers; null or absent for flat pricing. */
+  pricing?: ApiEndpointPricing | null;
+  /** Response caching; null or absent when responses are never cached. */
+  cache?: ApiEndpointCachePolicy | null;
+  /** Timeout, size and method limits; null or absent for the gateway defaults. */
+  policy?: ApiEndpointPolicy | null;
+  /** Documented parameters; null or absent when none are documented. */
+  parameters?: ApiEndpointParameter[] | null;
   description: string | null;
 }
 
@@ -84,9 +164,29 @@ export interface BulkCreateEndpointResult {
   path: string;
   method: string;
   price_per_call_usdc: string;
+  pricing?: ApiEndpointPricing | null;
+  cache?: ApiEndpointCachePolicy | null;
+  policy?: ApiEndpointPolicy | null;
+  parameters?: ApiEndpointParameter[] | null;
   description: string | null;
 }
 
+/**
+ * Changes to an API's endpoints applied together, e.g. by an OpenAPI import.
+ * Endpoints are identified by method and path; `updated` replaces their
+ * description and parameters and keeps their pricing.
+ */
+export interface EndpointChanges {
+  added: CreateEndpointInput[];
+  removed: Array<{ path: string; method: string }>;
+  updated: Array<{
+    path: string;
+    method: string;
+    description: string | null;
+    parameters: ApiEndpointParameter[] | null;
+  }>;
+}
+
 export interface ApiRepository {
   create(api: ApiCreateInput): Promise<Api>;
   createWithEndpoints(input: CreateApiInput): Promise<ApiWithEndpoints>;
@@ -117,6 +217,85 @@ export interface ApiRepository {
     apiId: number,
     endpoints: CreateEndpointInput[],
   ): Promise<BulkCreateEndpointResult[]>;
+  /** Applies all of `changes` or, when one fails, none of them. */
+  applyEndpointChanges(apiId: number, changes: EndpointChanges): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers: serialise / deserialise the JSON pricing, cache, policy and
+// parameters blobs
+// ---------------------------------------------------------------------------
+
+function serialisePricing(pricing?: ApiEndpointPricing | null): string | null {
+  if (pricing == null) return null;
+  return JSON.stringify(pricing);
+}
+
+/**
+ * Deserialise the stored JSON pricing text. Invalid JSON is treated as flat
+ * pricing (null) and does not throw.
+ */
+export function deserialisePricing(raw: string | null | undefined): ApiEndpointPricing | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ApiEndpointPricing;
+  } catch {
+    return null;
+  }
+}
+
+function serialiseCachePolicy(cache?: ApiEndpointCachePolicy | null): string | null {
+  if (cache == null) return null;
+  return JSON.stringify(cache);
+}
+
+/**
+ * Deserialise the stored JSON cache policy. Invalid JSON is treated as no
+ * caching (null) and does not throw.
+ */
+export function deserialiseCachePolicy(raw: string | null | undefined): ApiEndpointCachePolicy | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ApiEndpointCachePolicy;
+  } catch {
+    return null;
+  }
+}
+
+function serialiseEndpointPolicy(policy?: ApiEndpointPolicy | null): string | null {
+  if (policy == null) return null;
+  return JSON.stringify(policy);
+}
+
+/**
+ * Deserialise the stored JSON endpoint policy. Invalid JSON is treated as the
+ * gateway defaults (null) and does not throw.
+ */
+export function deserialiseEndpointPolicy(raw: string | null | undefined): ApiEndpointPolicy | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ApiEndpointPolicy;
+  } catch {
+    return null;
+  }
+}
+
+function serialiseParameters(parameters?: ApiEndpointParameter[] | null): string | null {
+  if (parameters == null) return null;
+  return JSON.stringify(parameters);
+}
+
+/**
+ * Deserialise the stored JSON parameters. Invalid JSON is treated as none
+ * documented (null) and does not throw.
+ */
+export function deserialiseParameters(raw: string | null | undefined): ApiEndpointParameter[] | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ApiEndpointParameter[];
+  } catch {
+    return null;
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -393,6 +572,10 @@ export const defaultApiRepository: ApiRepository = {
         path: schema.apiEndpoints.path,
         method: schema.apiEndpoints.method,
         price_per_call_usdc: schema.apiEndpoints.price_per_call_usdc,
+        pricing: schema.apiEndpoints.pricing,
+        cache: schema.apiEndpoints.cache,
+        policy: schema.apiEndpoints.policy,
+        parameters: schema.apiEndpoints.parameters,
         description: schema.apiEndpoints.description,
       })
       .from(schema.apiEndpoints)
@@ -402,6 +585,10 @@ export const defaultApiRepository: ApiRepository = {
       path: r.path,
       method: r.method,
       price_per_call_usdc: r.price_per_call_usdc,
+      pricing: deserialisePricing(r.pricing),
+      cache: deserialiseCachePolicy(r.cache),
+      policy: deserialiseEndpointPolicy(r.policy),
+      parameters: deserialiseParameters(r.parameters),
       description: r.description,
     }));
   },
@@ -418,6 +605,10 @@ export const defaultApiRepository: ApiRepository = {
                 path: e.path,
                 method: e.method,
                 price_per_call_usdc: e.price_per_call_usdc,
+                pricing: serialisePricing(e.pricing),
+                cache: serialiseCachePolicy(e.cache),
+                policy: serialiseEndpointPolicy(e.policy),
+                parameters: serialiseParameters(e.parameters),
                 description: e.description ?? null,
               }) as NewApiEndpoint,
           ),
@@ -431,16 +622,90 @@ export const defaultApiRepository: ApiRepository = {
         path: r.path,
         method: r.method,
         price_per_call_usdc: r.price_per_call_usdc,
+        pricing: deserialisePricing(r.pricing),
+        cache: deserialiseCachePolicy(r.cache),
+        policy: deserialiseEndpointPolicy(r.policy),
+        parameters: deserialiseParameters(r.parameters),
         description: r.description,
       }));
     });
   },
+
+  async applyEndpointChanges(apiId, { added, removed, updated }) {
+    await db.transaction(async (tx) => {
+      const now = new Date();
+      for (const endpoint of removed) {
+        await tx
+          .delete(schema.apiEndpoints)
+          .where(
+            and(
+              eq(schema.apiEndpoints.api_id, apiId),
+              eq(schema.apiEndpoints.path, endpoint.path),
+              eq(schema.apiEndpoints.method, endpoint.method as HttpMethod),
+            ),
+          );
+      }
+      for (const endpoint of updated) {
+        await tx
+          .update(schema.apiEndpoints)
+          .set({
+            description: endpoint.description,
+            parameters: serialiseParameters(endpoint.parameters),
+            updated_at: now,
+          })
+          .where(
+            and(
+              eq(schema.apiEndpoints.api_id, apiId),
+              eq(schema.apiEndpoints.path, endpoint.path),
+              eq(schema.apiEndpoints.method, endpoint.method as HttpMethod),
+            ),
+          );
+      }
+      if (added.length > 0) {
+        await tx.insert(schema.apiEndpoints).values(
+          added.map(
+            (e) =>
+              ({
+                api_id: apiId,
+                path: e.path,
+                method: e.method,
+                price_per_call_usdc: e.price_per_call_usdc,
+                pricing: serialisePricing(e.pricing),
+                cache: serialiseCachePolicy(e.cache),
+                policy: serialiseEndpointPolicy(e.policy),
+                parameters: serialiseParameters(e.parameters),
+                description: e.description ?? null,
+              }) as NewApiEndpoint,
+          ),
+        );
+      }
+    });
+    listingsCache.invalidateAll();
+  },
 };
 
 // ---------------------------------------------------------------------------
 // In-Memory implementation (for testing)
 // ---------------------------------------------------------------------------
 
+/**
+ * The stored listing entry for an endpoint. Pricing, cache, policy and
+ * parameters are left out when unset, as endpoints without them have always
+ * been listed.
+ */
+function toEndpointInfo(endpoint: ApiEndpointInfo): ApiEndpointInfo {
+  return {
+    path: endpoint.path,
+    method: endpoint.method,
+    price_per_call_usdc: endpoint.price_per_call_usdc,
+    ...(endpoint.pricing != null ? { pricing: endpoint.pricing } : {}),
+    ...(endpoint.cache != null ? { cache: endpoint.cache } : {}),
+    ...(endpoint.policy != null ? { policy: endpoint.policy } : {}),
+    ...(endpoint.parameters != null ? { parameters: endpoint.parameters } : {}),
+    description: endpoint.description,
+  };
+}
+
 export class InMemoryApiRepository implements ApiRepository {
   private readonly apis: Api[];
   private readonly detailsById: Map<number, ApiDetails>;
@@ -530,6 +795,10 @@ export class InMemoryApiRepository implements ApiRepository {
         path: endpoint.path,
         method: endpoint.method,
         price_per_call_usdc: endpoint.price_per_call_usdc,
+        pricing: serialisePricing(endpoint.pricing),
+        cache: serialiseCachePolicy(endpoint.cache),
+        policy: serialiseEndpointPolicy(endpoint.policy),
+        parameters: serialiseParameters(endpoint.parameters),
         description: endpoint.description ?? null,
         created_at: now,
         updated_at: now,
@@ -538,12 +807,18 @@ export class InMemoryApiRepository implements ApiRepository {
 
     this.endpointsByApiId.set(
       api.id,
-      endpointRows.map((endpoint) => ({
-        path: endpoint.path,
-        method: endpoint.method,
-        price_per_call_usdc: endpoint.price_per_call_usdc,
-        description: endpoint.description,
-      })),
+      endpointRows.map((endpoint) =>
+        toEndpointInfo({
+          path: endpoint.path,
+          method: endpoint.method,
+          price_per_call_usdc: endpoint.price_per_call_usdc,
+          pricing: deserialisePricing(endpoint.pricing),
+          cache: deserialiseCachePolicy(endpoint.cache),
+          policy: deserialiseEndpointPolicy(endpoint.policy),
+          parameters: deserialiseParameters(endpoint.parameters),
+          description: endpoint.description,
+        }),
+      ),
     );
 
     return {
@@ -766,6 +1041,10 @@ export class InMemoryApiRepository implements ApiRepository {
       path: e.path,
       method: e.method,
       price_per_call_usdc: e.price_per_call_usdc,
+      pricing: e.pricing ?? null,
+      cache: e.cache ?? null,
+      policy: e.policy ?? null,
+      parameters: e.parameters ?? null,
       description: e.description ?? null,
       created_at: now,
       updated_at: now,
@@ -773,12 +1052,7 @@ export class InMemoryApiRepository implements ApiRepository {
 
     this.endpointsByApiId.set(apiId, [
       ...existing,
-      ...created.map((c) => ({
-        path: c.path,
-        method: c.method,
-        price_per_call_usdc: c.price_per_call_usdc,
-        description: c.description,
-      })),
+      ...created.map(toEndpointInfo),
     ]);
 
     return created.map((c) => ({
@@ -787,9 +1061,35 @@ export class InMemoryApiRepository implements ApiRepository {
       path: c.path,
       method: c.method,
       price_per_call_usdc: c.price_per_call_usdc,
+      pricing: c.pricing,
+      cache: c.cache,
+      policy: c.policy,
+      parameters: c.parameters,
       description: c.description,
     }));
   }
+
+  async applyEndpointChanges(
+    apiId: number,
+    { added, removed, updated }: EndpointChanges,
+  ): Promise<void> {
+    const sameEndpoint = (a: { path: string; method: string }, b: { path: string; method: string }) =>
+      a.path === b.path && a.method.toUpperCase() === b.method.toUpperCase();
+
+    const endpoints = (this.endpointsByApiId.get(apiId) ?? [])
+      .filter((endpoint) => !removed.some((r) => sameEndpoint(r, endpoint)))
+      .map((endpoint) => {
+        const update = updated.find((u) => sameEndpoint(u, endpoint));
+        return update
+          ? toEndpointInfo({ ...endpoint, description: update.description, parameters: update.parameters })
+          : endpoint;
+      });
+
+    this.endpointsByApiId.set(apiId, [
+      ...endpoints,
+      ...added.map((e) => toEndpointInfo({ ...e, description: e.description ?? null })),
+    ]);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -912,6 +1212,10 @@ export interface CreateEndpointInput {
   path: string;
   method: HttpMethod;
   price_per_call_usdc: string;
+  pricing?: ApiEndpointPricing | null;
+  cache?: ApiEndpointCachePolicy | null;
+  policy?: ApiEndpointPolicy | null;
+  parameters?: ApiEndpointParameter[] | null;
   description?: string | null;
 }
 
@@ -960,6 +1264,10 @@ export async function createApi(
                 path: e.path,
                 method: e.method,
                 price_per_call_usdc: e.price_per_call_usdc,
+                pricing: serialisePricing(e.pricing),
+                cache: serialiseCachePolicy(e.cache),
+                policy: serialiseEndpointPolicy(e.policy),
+                parameters: serialiseParameters(e.parameters),
                 description: e.description ?? null,
               }) as NewApiEndpoint,
           ),
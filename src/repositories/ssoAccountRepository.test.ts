@@ -0,0 +1,90 @@
+import { newDb, DataType } from 'pg-mem';
+import { randomUUID } from 'node:crypto';
+import { PgSsoAccountRepository } from './ssoAccountRepository.js';
+import type { PersistentRateLimiterPool } from '../services/rateLimiter.js';
+import type { OidcIdentity } from '../services/oidc.js';
+
+function createAccountDb() {
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.registerFunction({
+    name: 'gen_random_uuid',
+    returns: DataType.uuid,
+    implementation: () => randomUUID(),
+    impure: true,
+  });
+  db.public.none(`
+    CREATE TABLE users (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      stellar_address TEXT UNIQUE,
+      email TEXT UNIQUE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    CREATE TABLE oidc_identities (
+      provider TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      user_id UUID NOT NULL REFERENCES users(id),
+      email TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_login_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (provider, subject)
+    );
+  `);
+  const { Pool } = db.adapters.createPg();
+  return { db, pool: new Pool() as unknown as PersistentRateLimiterPool };
+}
+
+function identity(overrides: Partial<OidcIdentity> = {}): OidcIdentity {
+  return { provider: 'okta', subject: 'okta-1', email: 'ada@example.com', emailVerified: true, ...overrides };
+}
+
+describe('PgSsoAccountRepository', () => {
+  let db: ReturnType<typeof createAccountDb>['db'];
+  let repository: PgSsoAccountRepository;
+
+  beforeEach(() => {
+    const created = createAccountDb();
+    db = created.db;
+    repository = new PgSsoAccountRepository(created.pool);
+  });
+
+  it('creates a user for a new identity and finds it again', async () => {
+    const first = await repository.resolveUser(identity());
+    expect(first.outcome).toBe('created');
+    expect(db.public.one(`SELECT email FROM users WHERE id = '${first.userId}'`)).toEqual({ email: 'ada@example.com' });
+
+    await expect(repository.resolveUser(identity())).resolves.toEqual({ userId: first.userId, outcome: 'existing' });
+  });
+
+  it('links a new identity to the user with the same verified email', async () => {
+    const { userId } = await repository.resolveUser(identity());
+
+    const google = await repository.resolveUser(identity({ provider: 'google', subject: 'g-1', email: 'ADA@example.com' }));
+
+    expect(google).toEqual({ userId, outcome: 'linked' });
+    expect(db.public.many('SELECT provider FROM oidc_identities ORDER BY provider')).toEqual([
+      { provider: 'google' },
+      { provider: 'okta' },
+    ]);
+  });
+
+  it('links an existing developer whose email was recorded', async () => {
+    const [developer] = db.public.many(
+      `INSERT INTO users (stellar_address, email) VALUES ('GDEV', 'dev@example.com') RETURNING id`,
+    );
+
+    await expect(repository.resolveUser(identity({ email: 'dev@example.com' })))
+      .resolves.toEqual({ userId: developer.id, outcome: 'linked' });
+  });
+
+  it('never links or records an unverified email', async () => {
+    const { userId } = await repository.resolveUser(identity());
+
+    const unverified = await repository.resolveUser(
+      identity({ provider: 'github', subject: 'gh-1', emailVerified: false }),
+    );
+
+    expect(unverified.outcome).toBe('created');
+    expect(unverified.userId).not.toBe(userId);
+    expect(db.public.one(`SELECT email FROM users WHERE id = '${unverified.userId}'`)).toEqual({ email: null });
+  });
+});
@@ -0,0 +1,87 @@
+import type { PersistentRateLimiterPool } from '../services/rateLimiter.js';
+import type { OidcIdentity } from '../services/oidc.js';
+
+/**
+ * How an SSO login found its user:
+ *   - `existing` — the identity was linked before
+ *   - `linked`   — its verified email matched a user, and it is now linked
+ *   - `created`  — a new user was created for it
+ */
+export type SsoLinkOutcome = 'existing' | 'linked' | 'created';
+
+export interface SsoAccount {
+  userId: string;
+  outcome: SsoLinkOutcome;
+}
+
+export interface SsoAccountRepository {
+  /** Finds, links or creates the user an identity signs in as. */
+  resolveUser(identity: OidcIdentity): Promise<SsoAccount>;
+}
+
+/**
+ * Accounts in `users` and `oidc_identities` (migration 0038). An identity's
+ * email is only used to link it when the provider has verified it; unverified
+ * emails are never written to `users.email`.
+ */
+export class PgSsoAccountRepository implements SsoAccountRepository {
+  constructor(private readonly pool: PersistentRateLimiterPool) {}
+
+  async resolveUser(identity: OidcIdentity): Promise<SsoAccount> {
+    try {
+      return await this.resolveOnce(identity);
+    } catch (error) {
+      // A concurrent first login for the same identity or email won the
+      // insert; the second attempt finds what it created.
+      if ((error as { code?: string }).code !== '23505') throw error;
+      return this.resolveOnce(identity);
+    }
+  }
+
+  private async resolveOnce(identity: OidcIdentity): Promise<SsoAccount> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const linked = await client.query<{ user_id: string }>(
+        `UPDATE oidc_identities SET last_login_at = NOW()
+         WHERE provider = $1 AND subject = $2
+         RETURNING user_id`,
+        [identity.provider, identity.subject],
+      );
+      if (linked.rows[0]) {
+        await client.query('COMMIT');
+        return { userId: linked.rows[0].user_id, outcome: 'existing' };
+      }
+
+      const email = identity.emailVerified ? identity.email ?? null : null;
+      let account: SsoAccount | null = null;
+      if (email) {
+        const match = await client.query<{ id: string }>(
+          'SELECT id FROM users WHERE LOWER(email) = LOWER($1) LIMIT 1',
+          [email],
+        );
+        if (match.rows[0]) account = { userId: match.rows[0].id, outcome: 'linked' };
+      }
+      if (!account) {
+        const created = await client.query<{ id: string }>(
+          'INSERT INTO users (email) VALUES ($1) RETURNING id',
+          [email],
+        );
+        account = { userId: created.rows[0]!.id, outcome: 'created' };
+      }
+
+      await client.query(
+        'INSERT INTO oidc_identities (provider, subject, user_id, email) VALUES ($1, $2, $3, $4)',
+        [identity.provider, identity.subject, account.userId, identity.email ?? null],
+      );
+      await client.query('COMMIT');
+      return account;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -15,6 +15,8 @@ export interface CreateSubscriptionInput {
   metering_limit?: number | null;
   /** Optional per-subscription webhook retry policy override. */
   retry_policy?: RetryPolicy | null;
+  /** Version of the API calls without `@version` use. */
+  pinned_version?: string | null;
 }
 
 export interface UpdateSubscriptionInput {
@@ -22,6 +24,8 @@ export interface UpdateSubscriptionInput {
   metering_limit?: number | null;
   /** Optional per-subscription webhook retry policy override. Pass null to clear. */
   retry_policy?: RetryPolicy | null;
+  /** Version of the API calls without `@version` use. Pass null to follow the listing. */
+  pinned_version?: string | null;
 }
 
 export interface SubscriptionRepository {
@@ -29,6 +33,8 @@ export interface SubscriptionRepository {
   findById(id: string): Promise<Subscription | undefined>;
   findByUserId(user_id: string): Promise<Subscription[]>;
   findActiveByUserAndApi(user_id: string, api_id: number): Promise<Subscription | undefined>;
+  /** Every active or paused subscription to the API. */
+  findActiveByApi(api_id: number): Promise<Subscription[]>;
   update(id: string, data: UpdateSubscriptionInput): Promise<Subscription | undefined>;
   cancel(id: string): Promise<Subscription | undefined>;
 }
@@ -77,6 +83,7 @@ async function create(data: CreateSubscriptionInput): Promise<Subscription> {
       status: 'active',
       metering_limit: data.metering_limit ?? null,
       retry_policy: serialiseRetryPolicy(data.retry_policy),
+      pinned_version: data.pinned_version ?? null,
       created_at: now,
       updated_at: now,
     })
@@ -121,6 +128,19 @@ async function findActiveByUserAndApi(
   return rows[0];
 }
 
+async function findActiveByApi(api_id: number): Promise<Subscription[]> {
+  return db
+    .select()
+    .from(schema.subscriptions)
+    .where(
+      and(
+        eq(schema.subscriptions.api_id, api_id),
+        ne(schema.subscriptions.status, 'cancelled'),
+      ),
+    )
+    .orderBy(schema.subscriptions.created_at);
+}
+
 async function update(
   id: string,
   data: UpdateSubscriptionInput,
@@ -136,6 +156,7 @@ async function update(
       ...(data.retry_policy !== undefined
         ? { retry_policy: serialiseRetryPolicy(data.retry_policy) }
         : {}),
+      ...(data.pinned_version !== undefined ? { pinned_version: data.pinned_version } : {}),
       updated_at: now,
     })
     .where(eq(schema.subscriptions.id, id))
@@ -165,6 +186,7 @@ export const defaultSubscriptionRepository: SubscriptionRepository = {
   findById,
   findByUserId,
   findActiveByUserAndApi,
+  findActiveByApi,
   update,
   cancel,
 };
@@ -24,6 +24,7 @@ function createUsageEventsRepository() {
       api_key_id VARCHAR(255) NOT NULL,
       developer_id VARCHAR(255) NOT NULL DEFAULT '',
       amount_usdc NUMERIC(20, 0) NOT NULL,
+      units BIGINT,
       request_id VARCHAR(255) NOT NULL,
       stellar_tx_hash VARCHAR(64),
       created_at TIMESTAMP NOT NULL DEFAULT NOW(),
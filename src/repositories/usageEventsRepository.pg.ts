@@ -19,6 +19,8 @@ export interface CreateUsageEventInput {
    */
   developerId?: string;
   amount: bigint;
+  /** Upstream-reported units, for unit-priced endpoints. */
+  units?: number | null;
   requestId: string;
   stellarTxHash?: string | null;
   createdAt?: Date;
@@ -32,6 +34,8 @@ export interface BillingUsageEvent {
   apiKeyId: string;
   developerId: string;
   amount: bigint;
+  /** Upstream-reported units, for unit-priced endpoints. */
+  units?: number | null;
   requestId: string;
   stellarTxHash: string | null;
   createdAt: Date;
@@ -78,6 +82,7 @@ interface UsageEventRow {
   api_key_id: string;
   developer_id: string;
   amount_usdc: string | number | bigint;
+  units: string | number | null;
   request_id: string;
   stellar_tx_hash: string | null;
   created_at: Date | string;
@@ -191,6 +196,7 @@ const mapUsageEventRow = (row: UsageEventRow): BillingUsageEvent => ({
   apiKeyId: row.api_key_id,
   developerId: row.developer_id,
   amount: toBigInt(row.amount_usdc, 'amount_usdc'),
+  units: row.units == null ? null : Number(row.units),
   requestId: row.request_id,
   stellarTxHash: row.stellar_tx_hash,
   createdAt: row.created_at instanceof Date ? row.created_at : new Date(row.created_at),
@@ -257,11 +263,12 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
         api_key_id,
         developer_id,
         amount_usdc,
+        units,
         request_id,
         stellar_tx_hash,
         created_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9, NOW()))
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10, NOW()))
       ON CONFLICT (request_id, developer_id)
       DO UPDATE SET request_id = EXCLUDED.request_id
       RETURNING
@@ -272,6 +279,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
         api_key_id,
         developer_id,
         amount_usdc,
+        units,
         request_id,
         stellar_tx_hash,
         created_at
@@ -283,6 +291,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
         apiKeyId,
         developerId,
         amount,
+        event.units ?? null,
         requestId,
         event.stellarTxHash ?? null,
         event.createdAt ?? null,
@@ -331,6 +340,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
       userId: event.userId,
       occurredAt: event.createdAt,
       revenue: event.amount,
+      units: event.units,
     }));
   }
 
@@ -376,6 +386,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
         api_key_id,
         developer_id,
         amount_usdc,
+        units,
         request_id,
         stellar_tx_hash,
         created_at
@@ -413,6 +424,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
       userId: event.user_id,
       occurredAt: event.created_at instanceof Date ? event.created_at : new Date(event.created_at),
       revenue: toBigInt(event.amount_usdc, 'amount_usdc'),
+      units: event.units == null ? null : Number(event.units),
       // Attach cursor info for response
       _cursor: nextCursor,
     }));
@@ -451,6 +463,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
       userId: event.userId,
       occurredAt: event.createdAt,
       revenue: event.amount,
+      units: event.units,
     }));
   }
 
@@ -601,6 +614,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
         api_key_id,
         developer_id,
         amount_usdc,
+        units,
         request_id,
         stellar_tx_hash,
         created_at
@@ -673,6 +687,7 @@ export class PgUsageEventsRepository implements UsageEventsPgRepository {
         api_key_id,
         developer_id,
         amount_usdc,
+        units,
         request_id,
         stellar_tx_hash,
         created_at
@@ -8,6 +8,8 @@ export interface UsageEvent {
   userId: string;
   occurredAt: Date;
   revenue: bigint;
+  /** Upstream-reported units, for unit-priced endpoints. */
+  units?: number | null;
 }
 
 export interface UsageEventQuery {
@@ -4,13 +4,14 @@ import type { PaginationParams } from '../lib/pagination.js';
 
 export interface UserDto {
   id: string;
-  stellarAddress: string;
+  /** Null for users who have only signed in through SSO. */
+  stellarAddress: string | null;
   createdAt: Date;
 }
 
 export interface UserListItem {
   id: string;
-  stellar_address: string;
+  stellar_address: string | null;
   created_at: Date;
 }
 
@@ -24,7 +25,7 @@ export interface UpdateUserInput {
 
 interface UserRow {
   id: string;
-  stellar_address: string;
+  stellar_address: string | null;
   created_at: Date | string;
 }
 
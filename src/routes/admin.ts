@@ -2,6 +2,7 @@ import { adminLogMiddleware } from '../middleware/adminLog.js';
 import { etagMiddleware } from '../middleware/etag.js';
 import { Router, type Response } from 'express';
 import { adminAuth } from '../middleware/adminAuth.js';
+import { enforceAdminRoutePermissions, getAdminRole } from '../middleware/adminPermission.js';
 import { createAdminIpAllowlist } from '../middleware/ipAllowlist.js';
 import { adminHistogramMiddleware } from '../middleware/metricsHistogram.js';
 import { findUsers } from '../repositories/userRepository.js';
@@ -33,6 +34,10 @@ import { createAdminKeyConcurrencyRouter } from './admin/keys/concurrency.js';
 import { createAdminAuditRouter } from './admin/audit.js';
 import { createMaintenanceBannerRouter } from './admin/maintenance/banner.js';
 import { createAdminDevMetricsRouter } from './admin/metrics.js';
+import { createMfaRouter } from './mfa.js';
+import { createAdminApprovalsRouter } from './admin/approvals.js';
+import { ADMIN_ROUTE_PERMISSIONS } from './admin/routePermissions.js';
+import { ADMIN_ROLE_PERMISSIONS } from '../services/adminRbac.js';
 
 const TRUST_PROXY = process.env.TRUST_PROXY_HEADERS === 'true';
 const usageStore: UsageAdminStore = createUsageStore();
@@ -43,6 +48,8 @@ const router = Router();
 router.use(createAdminIpAllowlist());
 router.use(adminAuth);
 router.use(adminLogMiddleware);
+// Each route's required permission is declared in admin/routePermissions.ts.
+router.use(enforceAdminRoutePermissions(ADMIN_ROUTE_PERMISSIONS));
 router.use(etagMiddleware);
 router.get('/users', async (req, res, next) => {
   try {
@@ -278,9 +285,10 @@ router.use('/quota/requests', createAdminQuotaBulkRouter());
 router.use('/webhooks', createAdminWebhooksRouter());
 
 // ---------------------------------------------------------------------------
-// API soft-delete and restore
+// API soft-delete, restore and response cache purge
 // Mounts:  DELETE /api/admin/apis/:id
 //          POST   /api/admin/apis/:id/restore
+//          DELETE /api/admin/apis/:id/cache
 // ---------------------------------------------------------------------------
 router.use('/apis', createAdminApisRouter());
 
@@ -329,4 +337,33 @@ router.use('/audit', createAdminAuditRouter());
 // ---------------------------------------------------------------------------
 router.use('/maintenance/banner', createMaintenanceBannerRouter());
 
+// ---------------------------------------------------------------------------
+// Admin TOTP multi-factor authentication (see docs/mfa.md)
+// Mounts: GET/DELETE /api/admin/mfa
+//         POST /api/admin/mfa/{enroll,enroll/confirm,verify,recovery-codes}
+// ---------------------------------------------------------------------------
+router.use('/mfa', createMfaRouter());
+
+// ---------------------------------------------------------------------------
+// Four-eyes change requests (see docs/admin-approvals.md)
+// Mounts: GET /api/admin/approvals, GET /api/admin/approvals/:id
+//         POST /api/admin/approvals/:id/{approve,reject}
+// ---------------------------------------------------------------------------
+router.use('/approvals', createAdminApprovalsRouter());
+
+// ---------------------------------------------------------------------------
+// Effective permissions of the signed-in admin
+// Mount: GET /api/admin/me/permissions
+// ---------------------------------------------------------------------------
+router.get('/me/permissions', (_req, res) => {
+  const role = getAdminRole(res);
+  res.json({
+    data: {
+      actor: res.locals.adminActor,
+      role,
+      permissions: role ? ADMIN_ROLE_PERMISSIONS[role] : [],
+    },
+  });
+});
+
 export default router;
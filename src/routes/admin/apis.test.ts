@@ -4,6 +4,7 @@
  * Covers:
  *   - DELETE /api/admin/apis/:id  (soft-delete)
  *   - POST   /api/admin/apis/:id/restore
+ *   - DELETE /api/admin/apis/:id/cache  (response cache purge)
  *   - InMemoryApiRepository.delete / .restore behaviour
  *   - listByDeveloper / listPublic exclusion of deleted rows
  *   - findById exclusion of deleted rows
@@ -27,6 +28,7 @@ import {
   type ApiRepository,
 } from "../../repositories/apiRepository.js";
 import { createAdminApisRouter } from "./apis.js";
+import { InMemoryResponseCache } from "../../services/responseCache.js";
 import type { Api } from "../../db/schema.js";
 
 // ---------------------------------------------------------------------------
@@ -35,7 +37,7 @@ import type { Api } from "../../db/schema.js";
 
 const ADMIN_KEY = "test-admin-key";
 
-function buildApp(repo: ApiRepository) {
+function buildApp(repo: ApiRepository, responseCache?: InMemoryResponseCache) {
   const app = express();
   app.use(express.json());
 
@@ -49,7 +51,7 @@ function buildApp(repo: ApiRepository) {
     next();
   });
 
-  app.use("/api/admin/apis", createAdminApisRouter({ apiRepository: repo }));
+  app.use("/api/admin/apis", createAdminApisRouter({ apiRepository: repo, responseCache }));
   app.use(errorHandler);
   return app;
 }
@@ -324,4 +326,46 @@ describe("POST /api/admin/apis/:id/restore", () => {
     const rows = await repo.listByDeveloper(10);
     expect(rows.map((r) => r.id)).toContain(10);
   });
-});
\ No newline at end of file
+});
+
+// ---------------------------------------------------------------------------
+// DELETE /api/admin/apis/:id/cache
+// ---------------------------------------------------------------------------
+
+describe("DELETE /api/admin/apis/:id/cache", () => {
+  const cachedEntry = (apiId: string) => ({
+    apiId,
+    status: 200,
+    headers: [] as Array<[string, string]>,
+    body: Buffer.from("{}"),
+    storedAt: 0,
+    expiresAt: Number.MAX_SAFE_INTEGER,
+  });
+
+  it("drops only the API's cached responses", async () => {
+    const cache = new InMemoryResponseCache({ maxBytes: 10_000, maxEntryBytes: 1_000 });
+    cache.set("a", cachedEntry("5"));
+    cache.set("b", cachedEntry("5"));
+    cache.set("c", cachedEntry("6"));
+    const app = buildApp(new InMemoryApiRepository([]), cache);
+
+    const res = await request(app)
+      .delete("/api/admin/apis/5/cache")
+      .set("x-admin-api-key", ADMIN_KEY);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ data: { apiId: 5, purged: 2 } });
+    expect(cache.get("c")).toBeDefined();
+    expect(cache.size).toBe(1);
+  });
+
+  it("returns 400 for a non-integer id", async () => {
+    const app = buildApp(new InMemoryApiRepository([]), new InMemoryResponseCache({ maxBytes: 100, maxEntryBytes: 100 }));
+
+    const res = await request(app)
+      .delete("/api/admin/apis/abc/cache")
+      .set("x-admin-api-key", ADMIN_KEY);
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * Admin API management routes — soft-delete and restore.
+ * Admin API management routes — soft-delete, restore and cache purge.
  *
  * All routes in this module sit behind the IP allowlist and admin-auth
  * middleware that are applied at the parent `/api/admin` router level.
@@ -8,6 +8,7 @@
  * Routes:
  *   DELETE /api/admin/apis/:id   — soft-delete a live API
  *   POST   /api/admin/apis/:id/restore — restore a soft-deleted API
+ *   DELETE /api/admin/apis/:id/cache   — drop the API's gateway-cached responses
  */
 
 import { Router } from "express";
@@ -23,12 +24,18 @@ import {
   defaultApiRepository,
   type ApiRepository,
 } from "../../repositories/apiRepository.js";
+import {
+  defaultResponseCache,
+  type ResponseCacheStore,
+} from "../../services/responseCache.js";
 
 const TRUST_PROXY = process.env.TRUST_PROXY_HEADERS === "true";
 
 export interface AdminApisRouterDeps {
   /** Override in tests to inject an in-memory repository. */
   apiRepository?: ApiRepository;
+  /** Gateway response cache cleared by the purge route. Defaults to the shared store. */
+  responseCache?: ResponseCacheStore;
 }
 
 /**
@@ -41,6 +48,7 @@ export function createAdminApisRouter(
 ): Router {
   const router = Router();
   const apiRepository = deps.apiRepository ?? defaultApiRepository;
+  const responseCache = deps.responseCache ?? defaultResponseCache;
 
   // ── DELETE /api/admin/apis/:id ──────────────────────────────────────────
   /**
@@ -143,6 +151,43 @@ export function createAdminApisRouter(
     }
   });
 
+  // ── DELETE /api/admin/apis/:id/cache ────────────────────────────────────
+  /**
+   * Purge the API's responses from the gateway response cache, whoever owns
+   * the API. Later calls go to the upstream until the cache refills.
+   *
+   * Returns 200 with the number of entries dropped.
+   */
+  router.delete("/:id/cache", async (req, res, next) => {
+    const id = Number(req.params.id);
+
+    if (!Number.isInteger(id) || id <= 0) {
+      next(new BadRequestError("id must be a positive integer"));
+      return;
+    }
+
+    try {
+      const purged = await responseCache.purgeApi(String(id));
+
+      logger.audit("PURGE_API_RESPONSE_CACHE", res.locals.adminActor, {
+        clientIp: getClientIp(req, TRUST_PROXY),
+        userAgent: req.get("User-Agent"),
+        correlationId: req.headers["x-request-id"] ?? req.headers["x-correlation-id"],
+        apiId: id,
+        purged,
+      });
+
+      res.json({ data: { apiId: id, purged } });
+    } catch (error) {
+      if (error instanceof AppError) {
+        next(error);
+        return;
+      }
+      logger.error("Failed to purge API response cache", { apiId: id, error });
+      next(new InternalServerError());
+    }
+  });
+
   return router;
 }
 
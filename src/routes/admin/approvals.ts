@@ -0,0 +1,119 @@
+/**
+ * Four-eyes change requests for sensitive admin actions.
+ *
+ * Routes (mounted at /api/admin/approvals):
+ *
+ *   GET  /              — list change requests, newest first (?status, ?limit)
+ *   GET  /:id           — one change request
+ *   POST /:id/approve   — approve and run the action (step-up required)
+ *   POST /:id/reject    — reject; the action never runs
+ *
+ * Any admin may list requests. Approving or rejecting needs the permission
+ * of the action itself (e.g. `credits:grant`), and is refused to the admin
+ * who made the request. Authentication is supplied by the parent admin
+ * router. See docs/admin-approvals.md.
+ */
+
+import { Router, type Response } from 'express';
+import { UnauthorizedError } from '../../errors/index.js';
+import { getAdminRole } from '../../middleware/adminPermission.js';
+import { requireStepUp } from '../../middleware/requireStepUp.js';
+import { validate } from '../../middleware/validate.js';
+import {
+  getAdminApprovalService,
+  type AdminApprovalActor,
+  type AdminApprovalRequest,
+  type AdminApprovalService,
+} from '../../services/adminApprovals.js';
+import { adminApprovalDecisionSchema, adminApprovalListQuerySchema } from '../../validators/adminApprovals.js';
+
+export interface AdminApprovalsRouterDeps {
+  /** Defaults to the shared service from `getAdminApprovalService()`. */
+  approvalService?: AdminApprovalService;
+}
+
+/** The signed-in admin, as the approval service records them. */
+export function adminApprovalActor(res: Response): AdminApprovalActor {
+  const actor = res.locals.adminActor as string | undefined;
+  const identity = res.locals.adminId as string | undefined;
+  if (!actor || !identity) throw new UnauthorizedError('Admin authentication required');
+  return { actor, identity, role: getAdminRole(res) };
+}
+
+export function toApprovalResponse(approval: AdminApprovalRequest) {
+  return {
+    id: approval.id,
+    action: approval.action,
+    params: approval.params,
+    status: approval.status,
+    requested_by: approval.requestedBy,
+    created_at: approval.createdAt.toISOString(),
+    expires_at: approval.expiresAt.toISOString(),
+    decided_by: approval.decidedBy,
+    decided_at: approval.decidedAt?.toISOString() ?? null,
+    note: approval.note,
+    result: approval.result ?? null,
+    error: approval.error,
+  };
+}
+
+/**
+ * Answers a request a policy has turned into a change request: 202 with the
+ * pending request, which another admin must approve before anything happens.
+ */
+export function sendPendingApproval(res: Response, approval: AdminApprovalRequest): void {
+  res.status(202).json({ data: { approval: toApprovalResponse(approval) } });
+}
+
+export function createAdminApprovalsRouter(deps: AdminApprovalsRouterDeps = {}): Router {
+  const router = Router();
+  const service = (): AdminApprovalService => deps.approvalService ?? getAdminApprovalService();
+
+  router.get('/', validate({ query: adminApprovalListQuerySchema }), async (req, res, next) => {
+    try {
+      const { status, limit } = adminApprovalListQuerySchema.parse(req.query);
+      const approvals = await service().list({ status, limit });
+      res.json({ data: approvals.map(toApprovalResponse) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get('/:id', async (req, res, next) => {
+    try {
+      const approval = await service().get(req.params.id);
+      res.json({ data: toApprovalResponse(approval) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post(
+    '/:id/approve',
+    requireStepUp(),
+    validate({ body: adminApprovalDecisionSchema }),
+    async (req, res, next) => {
+      try {
+        const { note } = adminApprovalDecisionSchema.parse(req.body ?? {});
+        const { approval, result } = await service().approve(req.params.id, adminApprovalActor(res), note);
+        res.json({ data: { approval: toApprovalResponse(approval), result } });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post('/:id/reject', validate({ body: adminApprovalDecisionSchema }), async (req, res, next) => {
+    try {
+      const { note } = adminApprovalDecisionSchema.parse(req.body ?? {});
+      const approval = await service().reject(req.params.id, adminApprovalActor(res), note);
+      res.json({ data: toApprovalResponse(approval) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
+
+export default createAdminApprovalsRouter;
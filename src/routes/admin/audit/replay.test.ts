@@ -70,7 +70,8 @@ import type {
   AuditLogRepository,
 } from '../../../repositories/auditLogRepository.js';
 import type { CreditsRepository } from '../../../repositories/creditsRepository.js';
-import type { ApiRepository, Api } from '../../../repositories/apiRepository.js';
+import type { ApiRepository } from '../../../repositories/apiRepository.js';
+import type { Api } from '../../../db/schema.js';
 import type {
   UsageAdminStore,
   UsageAggregateSnapshot,
@@ -161,13 +162,18 @@ class MockApiRepo implements ApiRepository {
   deleteResults = new Map<number, boolean>();
   restoreResults = new Map<number, Api | null>();
 
-  create() { throw new Error('not implemented'); }
-  createWithEndpoints() { throw new Error('not implemented'); }
-  update() { throw new Error('not implemented'); }
-  findById() { throw new Error('not implemented'); }
-  listByDeveloper() { throw new Error('not implemented'); }
-  listAll() { throw new Error('not implemented'); }
-  listActive() { throw new Error('not implemented'); }
+  create(): never { throw new Error('not implemented'); }
+  createWithEndpoints(): never { throw new Error('not implemented'); }
+  update(): never { throw new Error('not implemented'); }
+  findById(): never { throw new Error('not implemented'); }
+  listByDeveloper(): never { throw new Error('not implemented'); }
+  listAll(): never { throw new Error('not implemented'); }
+  listActive(): never { throw new Error('not implemented'); }
+  listPublic(): never { throw new Error('not implemented'); }
+  findRawById(): never { throw new Error('not implemented'); }
+  getEndpoints(): never { throw new Error('not implemented'); }
+  bulkCreateEndpoints(): never { throw new Error('not implemented'); }
+  applyEndpointChanges(): never { throw new Error('not implemented'); }
 
   delete(id: number): Promise<boolean> {
     return Promise.resolve(this.deleteResults.get(id) ?? true);
@@ -23,6 +23,11 @@
  *
  * Non-replayable events (read-only queries, replay of replays, etc.) return
  * a 400 with error code AUDIT_ACTION_NOT_REPLAYABLE.
+ *
+ * Approval:     When an `audit.replay` approval policy is configured the
+ *               route answers 202 with a pending change request instead, and
+ *               the replay runs once another admin approves it (see
+ *               docs/admin-approvals.md).
  */
 
 import { Router, type Request, type Response, type NextFunction } from 'express';
@@ -55,6 +60,12 @@ import {
   createUsageStore,
   type UsageAdminStore,
 } from '../../../services/usageStore.js';
+import {
+  getAdminApprovalService,
+  registerAdminApprovalExecutor,
+  type AdminApprovalService,
+} from '../../../services/adminApprovals.js';
+import { adminApprovalActor, sendPendingApproval } from '../approvals.js';
 
 const TRUST_PROXY = process.env.TRUST_PROXY_HEADERS === 'true';
 
@@ -116,6 +127,8 @@ export interface AdminAuditReplayRouterDeps {
   creditsRepository?: CreditsRepository;
   apiRepository?: ApiRepository;
   usageStore?: UsageAdminStore;
+  /** Defaults to the shared service from `getAdminApprovalService()`. */
+  approvalService?: AdminApprovalService;
 }
 
 // ---------------------------------------------------------------------------
@@ -132,6 +145,32 @@ export function createAdminAuditReplayRouter(
     deps.creditsRepository ?? defaultCreditsRepository;
   const apiRepository = deps.apiRepository ?? defaultApiRepository;
   const usageStore = deps.usageStore ?? createUsageStore();
+  const approvals = (): AdminApprovalService => deps.approvalService ?? getAdminApprovalService();
+
+  registerAdminApprovalExecutor('audit.replay', async (params, { actor, approvalId, requestedBy, approvedBy }) => {
+    const entryId = typeof params.entryId === 'string' ? params.entryId : '';
+    const entry = await auditLogRepository.findById(entryId);
+    if (!entry) {
+      throw entryNotFound(entryId);
+    }
+
+    const replayedAt = new Date().toISOString();
+    const outcome = await dispatchReplay(entry, { adminActor: actor });
+    const message = 'message' in outcome ? outcome.message : undefined;
+
+    logger.audit('AUDIT_REPLAYED', actor, {
+      originalEntryId: entryId,
+      originalEvent: entry.event,
+      outcome: outcome.status,
+      replayedAt,
+      message,
+      approvalId,
+      requestedBy,
+      approvedBy,
+    });
+
+    return { entryId, originalEvent: entry.event, outcome: outcome.status, replayedAt, message };
+  });
 
   /**
    * @openapi
@@ -164,6 +203,11 @@ export function createAdminAuditReplayRouter(
    *                 type: string
    *                 description: The audit log entry ID (primary key of the audit_logs row).
    *     responses:
+   *       '202':
+   *         description: |
+   *           An `audit.replay` approval policy applies. The response holds the
+   *           pending change request (`data.approval`); the replay runs once
+   *           another admin approves it.
    *       '200':
    *         description: Action replayed successfully.
    *         content:
@@ -212,10 +256,7 @@ export function createAdminAuditReplayRouter(
       // ── Look up the original audit entry ──────────────────────────────
       const originalEntry = await auditLogRepository.findById(trimmedEntryId);
       if (!originalEntry) {
-        throw new NotFoundError(
-          `No audit log entry found for entryId: ${trimmedEntryId}`,
-          'AUDIT_ENTRY_NOT_FOUND',
-        );
+        throw entryNotFound(trimmedEntryId);
       }
 
       // ── Non-replayable action gate ────────────────────────────────────
@@ -234,103 +275,20 @@ export function createAdminAuditReplayRouter(
         throw error;
       }
 
-      // ── Build the handler context and dispatch ────────────────────────
-      const adminActor = res.locals.adminActor ?? 'admin';
-      const ctx: ReplayHandlerContext = { adminActor };
-      const details = originalEntry.details;
-
-      let outcome: ReplayOutcome;
-
-      switch (originalEntry.event) {
-        case 'RESET_USAGE_AGGREGATE': {
-          const developerId = extractString(details, 'developerId');
-          if (!developerId) {
-            throw badDetails('developerId');
-          }
-          const prior = await usageStore.resetDeveloperUsage(developerId);
-          outcome = prior
-            ? { status: 'success', event: originalEntry.event, result: { developerId, priorValues: prior } }
-            : { status: 'not_found', event: originalEntry.event, message: `Usage aggregate not found for developer ${developerId}` };
-          break;
-        }
-
-        case 'APPROVE_QUOTA_REQUEST': {
-          const requestId = extractString(details, 'requestId');
-          const adminNotes = extractString(details, 'adminNotes');
-          if (!requestId) {
-            throw badDetails('requestId');
-          }
-          try {
-            const updated = await approveQuotaRequest(requestId, adminActor, adminNotes);
-            outcome = { status: 'success', event: originalEntry.event, result: { requestId, status: updated.status } };
-          } catch (e) {
-            outcome = mapQuotaError(e, originalEntry.event, requestId);
-          }
-          break;
-        }
-
-        case 'REJECT_QUOTA_REQUEST': {
-          const requestId = extractString(details, 'requestId');
-          const adminNotes = extractString(details, 'adminNotes');
-          if (!requestId) {
-            throw badDetails('requestId');
-          }
-          try {
-            const updated = await rejectQuotaRequest(requestId, adminActor, adminNotes);
-            outcome = { status: 'success', event: originalEntry.event, result: { requestId, status: updated.status } };
-          } catch (e) {
-            outcome = mapQuotaError(e, originalEntry.event, requestId);
-          }
-          break;
-        }
-
-        case 'GRANT_PREPAID_CREDITS': {
-          const userId = extractString(details, 'userId');
-          const amountUsdc = extractString(details, 'amountUsdc');
-          if (!userId || !amountUsdc) {
-            throw badDetails('userId, amountUsdc');
-          }
-          const credits = await creditsRepository.grant(userId, amountUsdc);
-          outcome = {
-            status: 'success',
-            event: originalEntry.event,
-            result: { userId, amountUsdc, balanceUsdc: credits.balance_usdc },
-          };
-          break;
-        }
-
-        case 'SOFT_DELETE_API': {
-          const apiId = extractNumber(details, 'apiId');
-          if (apiId === undefined) {
-            throw badDetails('apiId');
-          }
-          const deleted = await apiRepository.delete(apiId);
-          outcome = deleted
-            ? { status: 'success', event: originalEntry.event, result: { apiId, deleted: true } }
-            : { status: 'not_found', event: originalEntry.event, message: `API ${apiId} not found or already deleted` };
-          break;
-        }
-
-        case 'RESTORE_API': {
-          const apiId = extractNumber(details, 'apiId');
-          if (apiId === undefined) {
-            throw badDetails('apiId');
-          }
-          const restored = await apiRepository.restore(apiId);
-          outcome = restored
-            ? { status: 'success', event: originalEntry.event, result: { apiId, restored: true } }
-            : { status: 'not_found', event: originalEntry.event, message: `API ${apiId} not found or not currently deleted` };
-          break;
-        }
-
-        default:
-          // Should not reach here because of the isReplayable gate above.
-          throw new BadRequestError(
-            `Audit action "${originalEntry.event}" is not replayable`,
-            'AUDIT_ACTION_NOT_REPLAYABLE',
-          );
+      // ── Four-eyes approval ────────────────────────────────────────────
+      if (approvals().requiresApproval('audit.replay')) {
+        const approval = await approvals().submit(
+          'audit.replay',
+          { entryId: trimmedEntryId, originalEvent: originalEntry.event },
+          adminApprovalActor(res),
+        );
+        sendPendingApproval(res, approval);
+        return;
       }
 
+      // ── Dispatch ──────────────────────────────────────────────────────
+      const outcome = await dispatchReplay(originalEntry, { adminActor: res.locals.adminActor ?? 'admin' });
+
       // ── Record successful replay attempt ──────────────────────────────
       recordReplayAttempt(req, res, {
         originalEntryId: trimmedEntryId,
@@ -381,6 +339,113 @@ export function createAdminAuditReplayRouter(
 
   // ── Helpers used inside the route ────────────────────────────────────
 
+  /** Re-executes `entry`'s action as `ctx.adminActor`. */
+  async function dispatchReplay(entry: AuditLogEntry, ctx: ReplayHandlerContext): Promise<ReplayOutcome> {
+    const { adminActor } = ctx;
+    const details = entry.details;
+
+    let outcome: ReplayOutcome;
+
+    switch (entry.event) {
+      case 'RESET_USAGE_AGGREGATE': {
+        const developerId = extractString(details, 'developerId');
+        if (!developerId) {
+          throw badDetails('developerId');
+        }
+        const prior = await usageStore.resetDeveloperUsage(developerId);
+        outcome = prior
+          ? { status: 'success', event: entry.event, result: { developerId, priorValues: prior } }
+          : { status: 'not_found', event: entry.event, message: `Usage aggregate not found for developer ${developerId}` };
+        break;
+      }
+
+      case 'APPROVE_QUOTA_REQUEST': {
+        const requestId = extractString(details, 'requestId');
+        const adminNotes = extractString(details, 'adminNotes');
+        if (!requestId) {
+          throw badDetails('requestId');
+        }
+        try {
+          const updated = await approveQuotaRequest(requestId, adminActor, adminNotes);
+          outcome = { status: 'success', event: entry.event, result: { requestId, status: updated.status } };
+        } catch (e) {
+          outcome = mapQuotaError(e, entry.event, requestId);
+        }
+        break;
+      }
+
+      case 'REJECT_QUOTA_REQUEST': {
+        const requestId = extractString(details, 'requestId');
+        const adminNotes = extractString(details, 'adminNotes');
+        if (!requestId) {
+          throw badDetails('requestId');
+        }
+        try {
+          const updated = await rejectQuotaRequest(requestId, adminActor, adminNotes);
+          outcome = { status: 'success', event: entry.event, result: { requestId, status: updated.status } };
+        } catch (e) {
+          outcome = mapQuotaError(e, entry.event, requestId);
+        }
+        break;
+      }
+
+      case 'GRANT_PREPAID_CREDITS': {
+        const userId = extractString(details, 'userId');
+        const amountUsdc = extractString(details, 'amountUsdc');
+        if (!userId || !amountUsdc) {
+          throw badDetails('userId, amountUsdc');
+        }
+        const credits = await creditsRepository.grant(userId, amountUsdc);
+        outcome = {
+          status: 'success',
+          event: entry.event,
+          result: { userId, amountUsdc, balanceUsdc: credits.balance_usdc },
+        };
+        break;
+      }
+
+      case 'SOFT_DELETE_API': {
+        const apiId = extractNumber(details, 'apiId');
+        if (apiId === undefined) {
+          throw badDetails('apiId');
+        }
+        const deleted = await apiRepository.delete(apiId);
+        outcome = deleted
+          ? { status: 'success', event: entry.event, result: { apiId, deleted: true } }
+          : { status: 'not_found', event: entry.event, message: `API ${apiId} not found or already deleted` };
+        break;
+      }
+
+      case 'RESTORE_API': {
+        const apiId = extractNumber(details, 'apiId');
+        if (apiId === undefined) {
+          throw badDetails('apiId');
+        }
+        const restored = await apiRepository.restore(apiId);
+        outcome = restored
+          ? { status: 'success', event: entry.event, result: { apiId, restored: true } }
+          : { status: 'not_found', event: entry.event, message: `API ${apiId} not found or not currently deleted` };
+        break;
+      }
+
+      default:
+        // Should not reach here because callers check isReplayable first.
+        throw new BadRequestError(
+          `Audit action "${entry.event}" is not replayable`,
+          'AUDIT_ACTION_NOT_REPLAYABLE',
+        );
+    }
+
+    return outcome;
+  }
+
+  function entryNotFound(entryId: string): NotFoundError {
+    return new NotFoundError(
+      `No audit log entry found for entryId: ${entryId}`,
+      'AUDIT_ENTRY_NOT_FOUND',
+    );
+  }
+
   function badDetails(fields: string): BadRequestError {
     return new BadRequestError(
       `Audit entry details are missing required field(s): ${fields}`,
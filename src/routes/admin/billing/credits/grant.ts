@@ -4,8 +4,15 @@ import { z } from 'zod';
 import { AppError, InternalServerError } from '../../../../errors/index.js';
 import { getClientIp } from '../../../../lib/clientIp.js';
 import { logger } from '../../../../logger.js';
+import { requireStepUp } from '../../../../middleware/requireStepUp.js';
 import { validate } from '../../../../middleware/validate.js';
 import { defaultCreditsRepository, type CreditsRepository } from '../../../../repositories/creditsRepository.js';
+import {
+  getAdminApprovalService,
+  registerAdminApprovalExecutor,
+  type AdminApprovalService,
+} from '../../../../services/adminApprovals.js';
+import { adminApprovalActor, sendPendingApproval } from '../../approvals.js';
 
 const TRUST_PROXY = process.env.TRUST_PROXY_HEADERS === 'true';
 const GRANTFOX_FWC26_CAMPAIGN = 'GrantFox FWC26';
@@ -23,47 +30,69 @@ type GrantBody = z.infer<typeof grantBodySchema>;
 
 export interface AdminCreditGrantsRouterDeps {
   creditsRepository?: CreditsRepository;
+  /** Defaults to the shared service from `getAdminApprovalService()`. */
+  approvalService?: AdminApprovalService;
 }
 
 /**
  * Creates routes for issuing prepaid credits for the GrantFox FWC26 campaign.
- * Authentication and IP allowlisting are supplied by the parent admin router.
+ * Authentication and IP allowlisting are supplied by the parent admin router;
+ * admins with MFA on must also send a step-up token in `X-MFA-Token`. Grants
+ * covered by a `credits.grant` approval policy wait for a second admin.
  */
 export function createAdminCreditGrantsRouter(
   deps: AdminCreditGrantsRouterDeps = {},
 ): Router {
   const router = Router();
   const creditsRepository = deps.creditsRepository ?? defaultCreditsRepository;
+  const approvals = (): AdminApprovalService => deps.approvalService ?? getAdminApprovalService();
 
-  router.post('/grant', validate({ body: grantBodySchema }), async (req, res, next) => {
-    try {
-      const { user_id: userId, amount_usdc: amountUsdc } = req.body as GrantBody;
+  /** Grants the credits and records the audit event against `actor`. */
+  async function grant(body: GrantBody, actor: string, auditDetails: Record<string, unknown>) {
+    const { user_id: userId, amount_usdc: amountUsdc } = body;
+
+    // Add a 4 USDC small buffer top-up as requested by the FWC26 campaign
+    const [whole, fraction = ''] = amountUsdc.split('.');
+    const amountWithBuffer = `${BigInt(whole) + 4n}${fraction ? `.${fraction}` : ''}`;
+
+    const credits = await creditsRepository.grant(userId, amountWithBuffer);
 
-      // Add a 4 USDC small buffer top-up as requested by the FWC26 campaign
-      const [whole, fraction = ''] = amountUsdc.split('.');
-      const amountWithBuffer = `${BigInt(whole) + 4n}${fraction ? `.${fraction}` : ''}`;
+    logger.audit('GRANT_PREPAID_CREDITS', actor, {
+      campaign: GRANTFOX_FWC26_CAMPAIGN,
+      userId,
+      amountUsdc: amountWithBuffer,
+      balanceUsdc: credits.balance_usdc,
+      ...auditDetails,
+    });
 
-      const credits = await creditsRepository.grant(userId, amountWithBuffer);
+    return {
+      user_id: credits.user_id,
+      amount_usdc: amountWithBuffer,
+      balance_usdc: credits.balance_usdc,
+      campaign: GRANTFOX_FWC26_CAMPAIGN,
+      updated_at: credits.updated_at.toISOString(),
+    };
+  }
+
+  registerAdminApprovalExecutor('credits.grant', (params, { actor, approvalId, requestedBy, approvedBy }) =>
+    grant(grantBodySchema.parse(params), actor, { approvalId, requestedBy, approvedBy }));
+
+  router.post('/grant', requireStepUp(), validate({ body: grantBodySchema }), async (req, res, next) => {
+    try {
+      const body = req.body as GrantBody;
 
-      logger.audit('GRANT_PREPAID_CREDITS', res.locals.adminActor, {
-        campaign: GRANTFOX_FWC26_CAMPAIGN,
-        userId,
-        amountUsdc: amountWithBuffer,
-        balanceUsdc: credits.balance_usdc,
+      if (approvals().requiresApproval('credits.grant', { amountUsdc: body.amount_usdc })) {
+        const approval = await approvals().submit('credits.grant', grantBodySchema.parse(body), adminApprovalActor(res));
+        sendPendingApproval(res, approval);
+        return;
+      }
+
+      const data = await grant(body, res.locals.adminActor, {
         clientIp: getClientIp(req, TRUST_PROXY),
         userAgent: req.get('User-Agent'),
         correlationId: req.headers['x-request-id'] ?? req.headers['x-correlation-id'],
       });
-
-      res.status(201).json({
-        data: {
-          user_id: credits.user_id,
-          amount_usdc: amountWithBuffer,
-          balance_usdc: credits.balance_usdc,
-          campaign: GRANTFOX_FWC26_CAMPAIGN,
-          updated_at: credits.updated_at.toISOString(),
-        },
-      });
+      res.status(201).json({ data });
     } catch (error) {
       if (error instanceof AppError) {
         next(error);
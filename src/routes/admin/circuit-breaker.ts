@@ -9,6 +9,9 @@
  *   GET    /api/admin/circuit-breakers/:breakerKey  — Get details for a specific breaker
  *   POST   /api/admin/circuit-breakers/:breakerKey/reset — Force-reset a breaker to CLOSED
  *   POST   /api/admin/circuit-breakers/:breakerKey/trip   — Force-trip a breaker to OPEN
+ *
+ * Breakers of gateway upstream origins (see services/upstreamOrigins.ts)
+ * also report the origin's probe health and latency under `origin`.
  */
 
 import { Router } from 'express';
@@ -26,6 +29,10 @@ import {
 import { logger } from '../../logger.js';
 import { getClientIp } from '../../lib/clientIp.js';
 import { validate } from '../../middleware/validate.js';
+import {
+  defaultOriginBalancer,
+  type OriginBalancer,
+} from '../../services/upstreamOrigins.js';
 
 const TRUST_PROXY = process.env.TRUST_PROXY_HEADERS === 'true';
 
@@ -41,12 +48,33 @@ const tripBodySchema = z.object({
 
 export interface AdminCircuitBreakerRouterDeps {
   registry?: BreakerRegistry;
+  originBalancer?: OriginBalancer;
 }
 
 function mapState(state: CircuitBreakerState): string {
   return state.toLowerCase().replace('_', '-');
 }
 
+/** The upstream origin behind a breaker, if it is one. */
+function describeOrigin(balancer: OriginBalancer, breakerKey: string) {
+  const origin = balancer.get(breakerKey);
+  if (!origin) {
+    return {};
+  }
+  return {
+    origin: {
+      apiId: origin.apiId,
+      id: origin.id,
+      url: origin.url,
+      weight: origin.weight,
+      healthy: origin.healthy,
+      latencyMs: origin.latencyMs === null ? null : Math.round(origin.latencyMs),
+      lastProbeAt: origin.lastProbeAt === null ? null : new Date(origin.lastProbeAt).toISOString(),
+      lastProbeStatus: origin.lastProbeStatus,
+    },
+  };
+}
+
 /**
  * Factory that returns the admin circuit breaker sub-router.
  * Mount it under the existing admin router, e.g.:
@@ -57,6 +85,7 @@ export function createAdminCircuitBreakerRouter(
 ): Router {
   const router = Router();
   const registry = deps.registry ?? getDefaultBreakerRegistry();
+  const originBalancer = deps.originBalancer ?? defaultOriginBalancer;
 
   // ── GET /api/admin/circuit-breakers ────────────────────────────────────
   /**
@@ -78,6 +107,7 @@ export function createAdminCircuitBreakerRouter(
           slug: e.slug,
           state: mapState(e.state),
           metrics: e.metrics,
+          ...describeOrigin(originBalancer, e.slug),
         })),
       });
     } catch (error) {
@@ -122,6 +152,7 @@ export function createAdminCircuitBreakerRouter(
             slug: breakerKey,
             state: mapState(metrics.state),
             metrics,
+            ...describeOrigin(originBalancer, breakerKey),
           },
         });
       } catch (error) {
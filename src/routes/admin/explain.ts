@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import type { Pool, QueryResult } from 'pg';
 import { adminAuth } from '../../middleware/adminAuth.js';
+import { requireAdminPermission } from '../../middleware/adminPermission.js';
 import { createAdminIpAllowlist } from '../../middleware/ipAllowlist.js';
 import { BadRequestError, InternalServerError } from '../../errors/index.js';
 import { logger } from '../../logger.js';
@@ -48,6 +49,7 @@ export function createExplainRouter(deps: ExplainRouterDeps = {}): Router {
 
   router.use(createAdminIpAllowlist());
   router.use(adminAuth);
+  router.use(requireAdminPermission('db:explain'));
 
   router.post(
     '/',
@@ -6,6 +6,12 @@ import { logger } from '../../../logger.js';
 import { validate } from '../../../middleware/validate.js';
 import { getClientIp } from '../../../lib/clientIp.js';
 import { AppError, InternalServerError, NotFoundError } from '../../../errors/index.js';
+import {
+  getAdminApprovalService,
+  registerAdminApprovalExecutor,
+  type AdminApprovalService,
+} from '../../../services/adminApprovals.js';
+import { adminApprovalActor, sendPendingApproval } from '../approvals.js';
 
 const TRUST_PROXY = process.env.TRUST_PROXY_HEADERS === 'true';
 
@@ -24,70 +30,98 @@ const quotaBulkUpdateSchema = z.object({
     .max(100, 'Batch size limit of 100 items exceeded'),
 }).strict();
 
+type QuotaBulkUpdate = z.infer<typeof quotaBulkUpdateSchema>;
+
 export interface AdminQuotaBulkRouterDeps {
   db?: typeof defaultDb;
+  /** Defaults to the shared service from `getAdminApprovalService()`. */
+  approvalService?: AdminApprovalService;
 }
 
+/**
+ * `POST /bulk-update` applies plan overrides to up to 100 developers in one
+ * transaction. Batches covered by a `quotas.bulk_update` approval policy
+ * wait for a second admin.
+ */
 export function createAdminQuotaBulkRouter(deps: AdminQuotaBulkRouterDeps = {}): Router {
   const router = Router();
   const db = deps.db ?? defaultDb;
+  const approvals = (): AdminApprovalService => deps.approvalService ?? getAdminApprovalService();
+
+  /** Applies the batch and records the audit event against `actor`. */
+  async function applyBulkUpdate({ items }: QuotaBulkUpdate, actor: string, auditDetails: Record<string, unknown>) {
+    await db.transaction(async (tx) => {
+      for (const item of items) {
+        const rows = await tx
+          .select({ plan_overrides: schema.developers.plan_overrides })
+          .from(schema.developers)
+          .where(eq(schema.developers.user_id, item.developer_id))
+          .limit(1);
+
+        const developer = rows[0];
+        if (!developer) {
+          throw new NotFoundError(`Developer not found: ${item.developer_id}`);
+        }
+
+        const currentOverrides = developer.plan_overrides
+          ? JSON.parse(developer.plan_overrides)
+          : {};
+
+        const mergedOverrides = {
+          ...currentOverrides,
+          plan_tier: item.plan_tier,
+          ...(item.monthly_call_limit !== undefined
+            ? { monthly_call_limit: item.monthly_call_limit }
+            : {}),
+          ...(item.rate_limit_max_requests !== undefined
+            ? { rate_limit_max_requests: item.rate_limit_max_requests }
+            : {}),
+          updated_at: new Date().toISOString(),
+        };
+
+        await tx
+          .update(schema.developers)
+          .set({ plan_overrides: JSON.stringify(mergedOverrides) })
+          .where(eq(schema.developers.user_id, item.developer_id));
+      }
+    });
+
+    logger.audit('BULK_UPDATE_QUOTAS', actor, {
+      ...auditDetails,
+      requestedItems: items.length,
+      developerIds: items.map((item) => item.developer_id),
+    });
+
+    return { updated: items.length };
+  }
+
+  registerAdminApprovalExecutor('quotas.bulk_update', (params, { actor, approvalId, requestedBy, approvedBy }) =>
+    applyBulkUpdate(quotaBulkUpdateSchema.parse(params), actor, { approvalId, requestedBy, approvedBy }));
 
   router.post(
     '/bulk-update',
     validate({ body: quotaBulkUpdateSchema }),
     async (req, res, next) => {
       try {
-        const { items } = req.body as z.infer<typeof quotaBulkUpdateSchema>;
-
-        await db.transaction(async (tx) => {
-          for (const item of items) {
-            const rows = await tx
-              .select({ plan_overrides: schema.developers.plan_overrides })
-              .from(schema.developers)
-              .where(eq(schema.developers.user_id, item.developer_id))
-              .limit(1);
-
-            const developer = rows[0];
-            if (!developer) {
-              throw new NotFoundError(`Developer not found: ${item.developer_id}`);
-            }
-
-            const currentOverrides = developer.plan_overrides
-              ? JSON.parse(developer.plan_overrides)
-              : {};
-
-            const mergedOverrides = {
-              ...currentOverrides,
-              plan_tier: item.plan_tier,
-              ...(item.monthly_call_limit !== undefined
-                ? { monthly_call_limit: item.monthly_call_limit }
-                : {}),
-              ...(item.rate_limit_max_requests !== undefined
-                ? { rate_limit_max_requests: item.rate_limit_max_requests }
-                : {}),
-              updated_at: new Date().toISOString(),
-            };
-
-            await tx
-              .update(schema.developers)
-              .set({ plan_overrides: JSON.stringify(mergedOverrides) })
-              .where(eq(schema.developers.user_id, item.developer_id));
-          }
-        });
+        const body = req.body as QuotaBulkUpdate;
+
+        if (approvals().requiresApproval('quotas.bulk_update')) {
+          const approval = await approvals().submit(
+            'quotas.bulk_update',
+            quotaBulkUpdateSchema.parse(body),
+            adminApprovalActor(res),
+          );
+          sendPendingApproval(res, approval);
+          return;
+        }
 
-        logger.audit('BULK_UPDATE_QUOTAS', res.locals.adminActor, {
+        const data = await applyBulkUpdate(body, res.locals.adminActor, {
           clientIp: getClientIp(req, TRUST_PROXY),
           userAgent: req.get('User-Agent'),
           correlationId: req.headers['x-request-id'] ?? req.headers['x-correlation-id'],
-          requestedItems: items.length,
-          developerIds: items.map((item) => item.developer_id),
         });
 
-        res.status(200).json({
-          data: {
-            updated: items.length,
-          },
-        });
+        res.status(200).json({ data });
       } catch (error) {
         if (error instanceof AppError) {
           next(error);
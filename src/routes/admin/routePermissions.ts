@@ -0,0 +1,51 @@
+/**
+ * The permission each route under /api/admin requires, enforced for the
+ * whole admin router by `enforceAdminRoutePermissions`. Entries are checked
+ * in order and the first match wins, so more specific paths come first.
+ *
+ * Routes not listed here are open to super-admin only. Add an entry when
+ * adding an admin route; see docs/admin-rbac.md for the role matrix.
+ */
+
+import type { AdminRoutePermission } from '../../services/adminRbac.js';
+
+export const ADMIN_ROUTE_PERMISSIONS: readonly AdminRoutePermission[] = [
+  // Every admin may see their own permissions and manage their own MFA.
+  { method: 'GET', path: '/me/permissions', permission: null },
+  { method: '*', path: '/mfa/*', permission: null },
+  // Deciding on a change request needs the permission of its action, which
+  // the approval service checks.
+  { method: '*', path: '/approvals/*', permission: null },
+
+  { method: 'GET', path: '/users', permission: 'users:read' },
+
+  { method: 'GET', path: '/usage/export', permission: 'usage:read' },
+  { method: 'GET', path: '/usage/:developerId', permission: 'usage:read' },
+  { method: 'POST', path: '/usage/:developerId/reset', permission: 'usage:reset' },
+  { method: 'GET', path: '/metrics/*', permission: 'usage:read' },
+  { method: 'GET', path: '/keys/concurrency/*', permission: 'usage:read' },
+
+  { method: 'GET', path: '/quota/requests', permission: 'quotas:read' },
+  { method: 'POST', path: '/quota/requests/bulk-update', permission: 'quotas:write' },
+  { method: 'POST', path: '/quota/requests/:id/approve', permission: 'quotas:write' },
+  { method: 'POST', path: '/quota/requests/:id/reject', permission: 'quotas:write' },
+  { method: 'POST', path: '/quotas/bulk-update', permission: 'quotas:write' },
+
+  { method: 'GET', path: '/webhooks/monitor', permission: 'webhooks:read' },
+  { method: 'GET', path: '/webhooks/grace-window', permission: 'webhooks:read' },
+  { method: 'POST', path: '/webhooks/rotate-key', permission: 'webhooks:manage' },
+  { method: 'POST', path: '/webhooks/replay', permission: 'webhooks:manage' },
+
+  { method: 'DELETE', path: '/apis/:id', permission: 'apis:write' },
+  { method: 'POST', path: '/apis/:id/restore', permission: 'apis:write' },
+  { method: 'DELETE', path: '/apis/:id/cache', permission: 'apis:write' },
+
+  { method: 'GET', path: '/health/probes/*', permission: 'health:read' },
+
+  { method: 'POST', path: '/billing/credits/grant', permission: 'credits:grant' },
+
+  { method: 'GET', path: '/audit', permission: 'audit:read' },
+  { method: 'POST', path: '/audit/replay', permission: 'audit:replay' },
+
+  { method: 'POST', path: '/maintenance/banner', permission: 'maintenance:write' },
+];
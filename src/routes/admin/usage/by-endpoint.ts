@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import type { Pool } from 'pg';
 import { adminAuth } from '../../../middleware/adminAuth.js';
+import { requireAdminPermission } from '../../../middleware/adminPermission.js';
 import { createAdminIpAllowlist } from '../../../middleware/ipAllowlist.js';
 import { BadRequestError, InternalServerError } from '../../../errors/index.js';
 import { logger } from '../../../logger.js';
@@ -42,6 +43,7 @@ export function createAdminUsageByEndpointRouter(deps: AdminUsageByEndpointRoute
 
   router.use(createAdminIpAllowlist());
   router.use(adminAuth);
+  router.use(requireAdminPermission('usage:read'));
 
   router.get(
     '/',
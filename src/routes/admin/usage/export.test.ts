@@ -9,7 +9,7 @@ import { requestIdMiddleware } from '../../../middleware/requestId.js';
 
 jest.mock('../../../middleware/adminAuth', () => ({
   adminAuth: jest.fn((_req: Request, _res: Response, next: NextFunction) => {
-    _res.locals = { ..._res.locals, adminActor: 'test-admin' };
+    _res.locals = { ..._res.locals, adminActor: 'test-admin', adminRole: 'super-admin' };
     next();
   }),
 }));
@@ -84,7 +84,7 @@ describe('GET /api/admin/usage/export', () => {
     expect(res.status).toBe(200);
     expect(res.headers['content-type']).toMatch(/^text\/csv/);
     expect(res.headers['content-disposition']).toMatch(/^attachment;/);
-    expect(res.text).toContain('id,developerId,apiId,endpoint,userId,amount,requestId,createdAt');
+    expect(res.text).toContain('id,developerId,apiId,endpoint,userId,amount,units,requestId,createdAt');
     expect(res.text).toContain('req-1');
     expect(res.text).toContain('req-2');
   });
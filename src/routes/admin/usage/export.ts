@@ -1,6 +1,7 @@
 import { Router, type Response } from 'express';
 import type { Pool } from 'pg';
 import { adminAuth } from '../../../middleware/adminAuth.js';
+import { requireAdminPermission } from '../../../middleware/adminPermission.js';
 import { createAdminIpAllowlist } from '../../../middleware/ipAllowlist.js';
 import { BadRequestError, InternalServerError } from '../../../errors/index.js';
 import { logger } from '../../../logger.js';
@@ -9,7 +10,7 @@ import { usageExportQuerySchema } from '../../../validators/admin.js';
 import { writeChunk, escapeCsvField } from '../../usage/csv.js';
 
 const BATCH_SIZE = 500;
-const CSV_COLUMNS = ['id', 'developerId', 'apiId', 'endpoint', 'userId', 'amount', 'requestId', 'createdAt'] as const;
+const CSV_COLUMNS = ['id', 'developerId', 'apiId', 'endpoint', 'userId', 'amount', 'units', 'requestId', 'createdAt'] as const;
 const CSV_HEADER = CSV_COLUMNS.join(',') + '\n';
 
 interface UsageExportRow {
@@ -19,6 +20,7 @@ interface UsageExportRow {
   endpointId: string;
   userId: string;
   amount: string;
+  units: string | null;
   requestId: string;
   createdAt: string;
 }
@@ -37,6 +39,7 @@ const buildCsvRow = (row: UsageExportRow): string =>
     escapeCsvField(row.endpointId),
     escapeCsvField(row.userId),
     escapeCsvField(row.amount),
+    escapeCsvField(row.units ?? ''),
     escapeCsvField(row.requestId),
     escapeCsvField(row.createdAt),
   ].join(',') + '\n';
@@ -59,6 +62,7 @@ export function createAdminUsageExportRouter(deps: AdminUsageExportRouterDeps =
 
   router.use(createAdminIpAllowlist());
   router.use(adminAuth);
+  router.use(requireAdminPermission('usage:read'));
 
   router.get(
     '/',
@@ -106,6 +110,7 @@ export function createAdminUsageExportRouter(deps: AdminUsageExportRouterDeps =
           'endpoint_id AS "endpointId"',
           'user_id AS "userId"',
           'amount_usdc::text AS amount',
+          'units::text AS units',
           'request_id AS "requestId"',
           "to_char(created_at, 'YYYY-MM-DDT24HH24:MI:SSZ') AS \"createdAt\"",
         ].join(', ');
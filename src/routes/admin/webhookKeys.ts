@@ -9,6 +9,7 @@
  *
  * Authentication:  adminAuth middleware (applied on the parent admin router).
  * IP allowlist:    createAdminIpAllowlist() (also applied by parent router).
+ * MFA step-up:     requireStepUp() — admins with MFA on must send X-MFA-Token.
  *
  * Mounts as:
  *   import webhookKeysRouter from './routes/admin/webhookKeys.js';
@@ -25,6 +26,7 @@ import {
   BadRequestError,
 } from '../../errors/index.js';
 import { logger } from '../../logger.js';
+import { requireStepUp } from '../../middleware/requireStepUp.js';
 import { sendMail } from '../../lib/mailer.js';
 import {
   WebhookSignerService,
@@ -118,6 +120,7 @@ export function createWebhookKeysRouter(
    *         Distribute it to webhook subscribers immediately.
    *       - Only the SHA-256 hash of each key is persisted in the database.
    *       - Every call is recorded in the audit log.
+   *       - Admins with MFA on must send a step-up token in `X-MFA-Token`.
    *     security:
    *       - AdminApiKey: []
    *       - AdminJWT: []
@@ -142,7 +145,7 @@ export function createWebhookKeysRouter(
    *       '403': { $ref: '#/components/responses/Forbidden' }
    *       '500': { $ref: '#/components/responses/InternalServerError' }
    */
-  router.post('/rotate-key', async (req, res, next) => {
+  router.post('/rotate-key', requireStepUp(), async (req, res, next) => {
     // Validate Content-Type when a body is present (guard against stray data)
     const contentType = req.get('Content-Type') ?? '';
     if (req.body && Object.keys(req.body).length > 0 && !contentType.includes('application/json')) {
@@ -4,7 +4,8 @@ import { createApiKeyRouter } from './apiKeyRoutes.js';
 import { apiKeyRepository } from '../repositories/apiKeyRepository.js';
 import { errorHandler } from '../middleware/errorHandler.js';
 import { requestIdMiddleware } from '../middleware/requestId.js';
-import type { ApiRepository } from '../repositories/apiRepository.js';
+import { ApiKeySpendCaps, InMemorySpendCounterStore } from '../services/apiKeySpendCaps.js';
+import type { ApiEndpointInfo, ApiRepository } from '../repositories/apiRepository.js';
 import type { DeveloperRepository } from '../repositories/developerRepository.js';
 import type { Api, Developer } from '../db/schema.js';
 
@@ -48,6 +49,11 @@ const otherApi: Api = {
   deleted_at: null,
 };
 
+const ownedApiEndpoints: ApiEndpointInfo[] = [
+  { path: '/v1/search', method: 'GET', price_per_call_usdc: '0.01', description: null },
+  { path: '/v1/orders/:id', method: 'DELETE', price_per_call_usdc: '0.02', description: null },
+];
+
 const createDeveloperRepository = (): DeveloperRepository => ({
   async findByUserId(userId: string) {
     return userId === developerProfile.user_id ? developerProfile : undefined;
@@ -79,6 +85,7 @@ const createApiRepository = (apis: Api[]): ApiRepository => ({
   async bulkCreateEndpoints() {
     return [];
   },
+  async applyEndpointChanges() {},
   async listByDeveloper(developerId: number) {
     return apis.filter((api) => api.developer_id === developerId);
   },
@@ -88,15 +95,18 @@ const createApiRepository = (apis: Api[]): ApiRepository => ({
   async findById() {
     return null;
   },
-  async getEndpoints() {
-    return [];
+  async getEndpoints(apiId: number) {
+    return apiId === ownedApi.id ? ownedApiEndpoints : [];
   },
   async findRawById() {
     return null;
   },
 });
 
-function createTestApp(apis: Api[] = [ownedApi]) {
+function createTestApp(
+  apis: Api[] = [ownedApi],
+  spendCaps = new ApiKeySpendCaps({ store: new InMemorySpendCounterStore() }),
+) {
   const app = express();
   app.use(express.json());
   app.use(requestIdMiddleware);
@@ -105,6 +115,7 @@ function createTestApp(apis: Api[] = [ownedApi]) {
     createApiKeyRouter({
       apiRepository: createApiRepository(apis),
       developerRepository: createDeveloperRepository(),
+      spendCaps,
     }),
   );
   app.use(errorHandler);
@@ -160,6 +171,33 @@ describe('API key lifecycle routes', () => {
     expect(listResponse.body.keys[0]).not.toHaveProperty('keyHash');
   });
 
+  it('creates test-mode keys and rotates them in the same mode', async () => {
+    const app = createTestApp();
+
+    const response = await request(app)
+      .post('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1')
+      .send({ mode: 'test' });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual(expect.objectContaining({
+      key: expect.stringMatching(/^ck_test_/),
+      mode: 'test',
+    }));
+
+    const rotated = await request(app)
+      .post(`/api/keys/${response.body.id}/rotate`)
+      .set('x-user-id', 'dev-1')
+      .send({});
+    expect(rotated.status).toBe(201);
+    expect(rotated.body.key).toMatch(/^ck_test_/);
+
+    const listResponse = await request(app)
+      .get('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1');
+    expect(listResponse.body.keys.map((key: { mode: string }) => key.mode)).toEqual(['test', 'test']);
+  });
+
   it('lists keys with masked values and revoked status', async () => {
     const app = createTestApp();
     const created = apiKeyRepository.create({
@@ -259,6 +297,264 @@ describe('API key lifecycle routes', () => {
     ]));
   });
 
+  it('creates a key with spend limits and lists spend-to-date', async () => {
+    const spendCaps = new ApiKeySpendCaps({ store: new InMemorySpendCounterStore() });
+    const app = createTestApp([ownedApi], spendCaps);
+
+    const created = await request(app)
+      .post('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1')
+      .send({ dailySpendLimitUsdc: 5, monthlySpendLimitUsdc: 50.5 });
+
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual(expect.objectContaining({
+      dailySpendLimitUsdc: 5,
+      monthlySpendLimitUsdc: 50.5,
+    }));
+
+    await spendCaps.record(
+      { id: created.body.id, userId: 'dev-1', apiId: '101', dailySpendLimitUsdc: 5 },
+      1.25,
+    );
+
+    const listResponse = await request(app)
+      .get('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1');
+
+    expect(listResponse.body.keys[0]).toEqual(expect.objectContaining({
+      dailySpendLimitUsdc: 5,
+      monthlySpendLimitUsdc: 50.5,
+      spendToDate: { dailyUsdc: 1.25, monthlyUsdc: 1.25 },
+    }));
+  });
+
+  it('updates and clears spend limits', async () => {
+    const app = createTestApp();
+    const created = apiKeyRepository.create({
+      apiId: '101',
+      userId: 'dev-1',
+      scopes: ['*'],
+      rateLimitPerMinute: null,
+      dailySpendLimitUsdc: 5,
+    });
+
+    const response = await request(app)
+      .patch(`/api/keys/${created.id}`)
+      .set('x-user-id', 'dev-1')
+      .send({ dailySpendLimitUsdc: null, monthlySpendLimitUsdc: 20 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(expect.objectContaining({
+      id: created.id,
+      dailySpendLimitUsdc: null,
+      monthlySpendLimitUsdc: 20,
+      spendToDate: { dailyUsdc: 0, monthlyUsdc: 0 },
+    }));
+    expect(apiKeyRepository.verify(created.key)).toEqual(expect.objectContaining({
+      dailySpendLimitUsdc: null,
+      monthlySpendLimitUsdc: 20,
+    }));
+  });
+
+  it('rejects spend limit updates for missing or foreign keys and empty bodies', async () => {
+    const app = createTestApp();
+    const created = apiKeyRepository.create({
+      apiId: '101',
+      userId: 'dev-2',
+      scopes: ['*'],
+      rateLimitPerMinute: null,
+    });
+
+    const missing = await request(app)
+      .patch('/api/keys/missing-key')
+      .set('x-user-id', 'dev-1')
+      .send({ dailySpendLimitUsdc: 1 });
+    expect(missing.status).toBe(404);
+    expect(missing.body.error.code).toBe('API_KEY_NOT_FOUND');
+
+    const foreign = await request(app)
+      .patch(`/api/keys/${created.id}`)
+      .set('x-user-id', 'dev-1')
+      .send({ dailySpendLimitUsdc: 1 });
+    expect(foreign.status).toBe(403);
+    expect(foreign.body.error.code).toBe('API_KEY_FORBIDDEN');
+
+    const empty = await request(app)
+      .patch(`/api/keys/${created.id}`)
+      .set('x-user-id', 'dev-2')
+      .send({});
+    expect(empty.status).toBe(400);
+    expect(empty.body.error.code).toBe('VALIDATION_ERROR');
+
+    const tooPrecise = await request(app)
+      .patch(`/api/keys/${created.id}`)
+      .set('x-user-id', 'dev-2')
+      .send({ dailySpendLimitUsdc: 0.00000001 });
+    expect(tooPrecise.status).toBe(400);
+  });
+
+  it('creates keys with an expiry and rejects expiries in the past', async () => {
+    const app = createTestApp();
+    const expiresAt = new Date(Date.now() + 60_000).toISOString();
+
+    const created = await request(app)
+      .post('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1')
+      .send({ expiresAt });
+
+    expect(created.status).toBe(201);
+    expect(created.body.expiresAt).toBe(expiresAt);
+    expect(apiKeyRepository.verify(created.body.key)?.expiresAt).toEqual(new Date(expiresAt));
+
+    const past = await request(app)
+      .post('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1')
+      .send({ expiresAt: new Date(Date.now() - 60_000).toISOString() });
+
+    expect(past.status).toBe(400);
+  });
+
+  it('creates keys with endpoint scopes that name existing endpoints', async () => {
+    const app = createTestApp();
+    const scopes = ['GET /v1/search', 'write /v1/orders/42', 'read /*', 'billing'];
+
+    const response = await request(app)
+      .post('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1')
+      .send({ scopes });
+
+    expect(response.status).toBe(201);
+    expect(response.body.scopes).toEqual(scopes);
+  });
+
+  it('rejects endpoint scopes that are malformed or name no endpoint', async () => {
+    const app = createTestApp();
+
+    const response = await request(app)
+      .post('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1')
+      .send({ scopes: ['GET /v1/search', 'POST /v1/search', 'GET /v2/*', 'FETCH /v1/search'] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('API_KEY_SCOPE_INVALID');
+    expect(response.body.error.details).toEqual([
+      expect.objectContaining({ field: 'body.scopes[1]', code: 'UNKNOWN_ENDPOINT' }),
+      expect.objectContaining({ field: 'body.scopes[2]', code: 'UNKNOWN_ENDPOINT' }),
+      expect.objectContaining({ field: 'body.scopes[3]', code: 'INVALID_SCOPE' }),
+    ]);
+    expect(apiKeyRepository.list({ userId: 'dev-1', apiId: '101' })).toHaveLength(0);
+  });
+
+  it('creates keys for signed requests and switches their auth mode', async () => {
+    const app = createTestApp();
+
+    const created = await request(app)
+      .post('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1')
+      .send({ authMode: 'signed' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.authMode).toBe('signed');
+    expect(apiKeyRepository.verify(created.body.key)?.authMode).toBe('signed');
+
+    const updated = await request(app)
+      .patch(`/api/keys/${created.body.id}`)
+      .set('x-user-id', 'dev-1')
+      .send({ authMode: 'both' });
+
+    expect(updated.status).toBe(200);
+    expect(updated.body.authMode).toBe('both');
+
+    const invalid = await request(app)
+      .patch(`/api/keys/${created.body.id}`)
+      .set('x-user-id', 'dev-1')
+      .send({ authMode: 'mtls' });
+
+    expect(invalid.status).toBe(400);
+    expect(apiKeyRepository.verify(created.body.key)?.authMode).toBe('both');
+  });
+
+  it('rotates a key and keeps the old key valid for the overlap window', async () => {
+    const app = createTestApp();
+    const created = apiKeyRepository.create({
+      apiId: '101',
+      userId: 'dev-1',
+      scopes: ['read'],
+      rateLimitPerMinute: 30,
+    });
+
+    const response = await request(app)
+      .post(`/api/keys/${created.id}/rotate`)
+      .set('x-user-id', 'dev-1')
+      .send({ overlapSeconds: 3600 });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual(expect.objectContaining({
+      id: expect.any(String),
+      apiId: '101',
+      key: expect.stringMatching(/^ck_live_/),
+      scopes: ['read'],
+      rateLimitPerMinute: 30,
+      rotatedFromId: created.id,
+      previousKeyExpiresAt: expect.any(String),
+    }));
+    expect(Date.parse(response.body.previousKeyExpiresAt) - Date.now()).toBeGreaterThan(3_500_000);
+    expect(apiKeyRepository.verify(created.key)).not.toBeNull();
+    expect(apiKeyRepository.verify(response.body.key)?.id).toBe(response.body.id);
+  });
+
+  it('refuses to rotate revoked keys', async () => {
+    const app = createTestApp();
+    const created = apiKeyRepository.create({
+      apiId: '101',
+      userId: 'dev-1',
+      scopes: ['*'],
+      rateLimitPerMinute: null,
+    });
+    apiKeyRepository.revoke(created.id, 'dev-1');
+
+    const response = await request(app)
+      .post(`/api/keys/${created.id}/rotate`)
+      .set('x-user-id', 'dev-1')
+      .send({});
+
+    expect(response.status).toBe(409);
+    expect(response.body.error.code).toBe('API_KEY_NOT_ROTATABLE');
+  });
+
+  it('reports keys unused for the requested number of days', async () => {
+    const now = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+    const app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use('/api', createApiKeyRouter({
+      apiRepository: createApiRepository([ownedApi]),
+      developerRepository: createDeveloperRepository(),
+      now: () => now,
+    }));
+    app.use(errorHandler);
+
+    const unused = apiKeyRepository.create({ apiId: '101', userId: 'dev-1', scopes: ['*'], rateLimitPerMinute: null });
+    const used = apiKeyRepository.create({ apiId: '101', userId: 'dev-1', scopes: ['*'], rateLimitPerMinute: null });
+    apiKeyRepository.markUsed(used.id, now);
+
+    const response = await request(app)
+      .get('/api/keys/stale?days=7')
+      .set('x-user-id', 'dev-1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.days).toBe(7);
+    expect(response.body.keys).toEqual([
+      expect.objectContaining({ id: unused.id, lastUsedAt: null }),
+    ]);
+
+    const listResponse = await request(app)
+      .get('/api/apis/101/keys')
+      .set('x-user-id', 'dev-1');
+    expect(listResponse.body.keys.find((k: { id: string }) => k.id === used.id).lastUsedAt)
+      .toBe(now.toISOString());
+  });
+
   it('returns 401 when unauthenticated', async () => {
     const app = createTestApp();
 
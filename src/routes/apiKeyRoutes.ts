@@ -1,21 +1,51 @@
 import { Router, type RequestHandler } from 'express';
 import { z } from 'zod';
 import { requireAuth, type AuthenticatedLocals } from '../middleware/requireAuth.js';
+import { requireStepUp } from '../middleware/requireStepUp.js';
 import { validate } from '../middleware/validate.js';
 import { idempotencyMiddleware } from '../middleware/idempotency.js';
-import { apiKeyRepository } from '../repositories/apiKeyRepository.js';
+import { config } from '../config/index.js';
+import {
+  defaultApiKeyRepository,
+  type ApiKeyRecord,
+  type ApiKeyRepository,
+} from '../repositories/apiKeyRepository.js';
 import { getTokenRevocationService } from '../services/tokenRevocation.js';
 import type { ApiRepository } from '../repositories/apiRepository.js';
 import type { DeveloperRepository } from '../repositories/developerRepository.js';
+import type { MfaService } from '../services/mfa.js';
+import {
+  defaultApiKeySpendCaps,
+  type ApiKeySpendCaps,
+} from '../services/apiKeySpendCaps.js';
+import { API_KEY_AUTH_MODES } from '../services/requestSigning.js';
+import { API_KEY_MODES, apiKeyModeOf } from '../services/sandbox.js';
 import {
+  ApiKeyScopeInvalidError,
+  isEndpointScope,
+  validateEndpointScopes,
+} from '../services/apiKeyScopes.js';
+import {
+  ConflictError,
   ForbiddenError,
   NotFoundError,
   UnauthorizedError,
 } from '../errors/index.js';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface ApiKeyRoutesDeps {
   apiRepository: ApiRepository;
   developerRepository: DeveloperRepository;
+  /** Where keys are stored — defaults to the in-memory store (see API_KEY_STORE). */
+  apiKeyRepository?: ApiKeyRepository;
+  /** Spend-to-date shown in the key listing — defaults to the shared in-memory store. */
+  spendCaps?: ApiKeySpendCaps;
+  /** Default overlap for key rotation — defaults to API_KEY_ROTATION_OVERLAP_MS. */
+  rotationOverlapMs?: number;
+  /** Step-up checks for issuing keys — defaults to the shared MFA service. */
+  mfaService?: MfaService;
+  now?: () => Date;
 }
 
 const apiIdParamsSchema = z.object({
@@ -26,15 +56,89 @@ const keyIdParamsSchema = z.object({
   id: z.string().min(1),
 });
 
+/** A USDC budget: positive, at most 7 decimal places. NULL removes it. */
+const spendLimitSchema = z
+  .number()
+  .positive()
+  .refine((value) => Math.round(value * 1e7) / 1e7 === value, {
+    message: 'Spend limit must have at most 7 decimal places',
+  })
+  .nullable();
+
+const authModeSchema = z.enum(API_KEY_AUTH_MODES);
+
 const createApiKeyBodySchema = z.object({
   scopes: z.array(z.string().min(1)).max(20).optional().default(['*']),
   rateLimitPerMinute: z.number().int().positive().nullable().optional().default(null),
+  dailySpendLimitUsdc: spendLimitSchema.optional().default(null),
+  monthlySpendLimitUsdc: spendLimitSchema.optional().default(null),
+  expiresAt: z
+    .string()
+    .datetime({ offset: true })
+    .refine((value) => Date.parse(value) > Date.now(), {
+      message: 'expiresAt must be in the future',
+    })
+    .nullable()
+    .optional()
+    .default(null),
+  /** Whether the gateway accepts the key as a bearer secret, by signature, or both. */
+  authMode: authModeSchema.optional().default('bearer'),
+  /** `test` keys (`ck_test_…`) reach only the API's sandbox and are never billed. */
+  mode: z.enum(API_KEY_MODES).optional().default('live'),
+});
+
+const rotateApiKeyBodySchema = z
+  .object({
+    /** How long the old key keeps working. Defaults to API_KEY_ROTATION_OVERLAP_MS. */
+    overlapSeconds: z.number().int().min(0).max(30 * 24 * 60 * 60).optional(),
+  })
+  .strict();
+
+const staleKeysQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  apiId: z.string().min(1).optional(),
 });
 
+const updateApiKeyBodySchema = z
+  .object({
+    dailySpendLimitUsdc: spendLimitSchema.optional(),
+    monthlySpendLimitUsdc: spendLimitSchema.optional(),
+    authMode: authModeSchema.optional(),
+  })
+  .strict()
+  .refine(
+    (body) =>
+      body.dailySpendLimitUsdc !== undefined ||
+      body.monthlySpendLimitUsdc !== undefined ||
+      body.authMode !== undefined,
+    { message: 'At least one of dailySpendLimitUsdc, monthlySpendLimitUsdc or authMode is required' },
+  );
+
 function maskKey(prefix: string): string {
   return `${prefix}****************`;
 }
 
+/** The listing view of a key — never includes the key or its hashes. */
+function toKeySummary(record: ApiKeyRecord) {
+  return {
+    id: record.id,
+    apiId: record.apiId,
+    prefix: record.prefix,
+    maskedKey: maskKey(record.prefix),
+    scopes: record.scopes,
+    rateLimitPerMinute: record.rateLimitPerMinute,
+    dailySpendLimitUsdc: record.dailySpendLimitUsdc,
+    monthlySpendLimitUsdc: record.monthlySpendLimitUsdc,
+    createdAt: record.createdAt.toISOString(),
+    expiresAt: record.expiresAt?.toISOString() ?? null,
+    lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+    rotatedFromId: record.rotatedFromId,
+    authMode: record.authMode,
+    mode: apiKeyModeOf(record.prefix),
+    revoked: record.revoked,
+  };
+}
+
 async function assertDeveloperOwnsApi(
   userId: string,
   apiId: string,
@@ -55,6 +159,21 @@ async function assertDeveloperOwnsApi(
   }
 }
 
+/** Endpoint scopes must be well formed and name an endpoint the API has. */
+async function assertScopesNameEndpoints(
+  scopes: string[],
+  apiId: string,
+  deps: ApiKeyRoutesDeps,
+): Promise<void> {
+  if (!scopes.some(isEndpointScope)) return;
+
+  const endpoints = await deps.apiRepository.getEndpoints(Number(apiId));
+  const problems = validateEndpointScopes(scopes, endpoints);
+  if (problems.length > 0) {
+    throw new ApiKeyScopeInvalidError(problems);
+  }
+}
+
 // Idempotency configuration for API key creation — uses the Idempotency-Key
 // header to allow safe retries of POST requests. Body key is disallowed since
 // the request body does not carry an idempotency key field.
@@ -66,10 +185,18 @@ const keyIdempotency: RequestHandler = (req, res, next) =>
 
 export function createApiKeyRouter(deps: ApiKeyRoutesDeps): Router {
   const router = Router();
+  const apiKeys = deps.apiKeyRepository ?? defaultApiKeyRepository;
+  const spendCaps = deps.spendCaps ?? defaultApiKeySpendCaps;
+  const rotationOverlapMs = deps.rotationOverlapMs ?? config.apiKeys.rotationOverlapMs;
+  const now = deps.now ?? (() => new Date());
+  // Issuing a key (new or rotated) hands out a credential that can spend the
+  // developer's balance, so it needs an MFA step-up when MFA is on.
+  const stepUp = requireStepUp({ mfaService: deps.mfaService });
 
   router.post(
     '/apis/:apiId/keys',
     requireAuth,
+    stepUp,
     validate({ params: apiIdParamsSchema, body: createApiKeyBodySchema }),
     keyIdempotency,
     async (req, res: import('express').Response<unknown, AuthenticatedLocals>, next) => {
@@ -81,15 +208,29 @@ export function createApiKeyRouter(deps: ApiKeyRoutesDeps): Router {
         }
 
         const { apiId } = apiIdParamsSchema.parse(req.params);
-        const { scopes, rateLimitPerMinute } = createApiKeyBodySchema.parse(req.body);
+        const {
+          scopes,
+          rateLimitPerMinute,
+          dailySpendLimitUsdc,
+          monthlySpendLimitUsdc,
+          expiresAt,
+          authMode,
+          mode,
+        } = createApiKeyBodySchema.parse(req.body);
 
         await assertDeveloperOwnsApi(user.id, apiId, deps);
+        await assertScopesNameEndpoints(scopes, apiId, deps);
 
-        const created = apiKeyRepository.create({
+        const created = await apiKeys.create({
           apiId,
           userId: user.id,
           scopes,
           rateLimitPerMinute,
+          dailySpendLimitUsdc,
+          monthlySpendLimitUsdc,
+          expiresAt: expiresAt ? new Date(expiresAt) : null,
+          authMode,
+          mode,
         });
 
         res.status(201).json({
@@ -101,6 +242,11 @@ export function createApiKeyRouter(deps: ApiKeyRoutesDeps): Router {
           revoked: false,
           scopes,
           rateLimitPerMinute,
+          dailySpendLimitUsdc,
+          monthlySpendLimitUsdc,
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+          authMode,
+          mode,
         });
       } catch (error) {
         next(error);
@@ -123,16 +269,13 @@ export function createApiKeyRouter(deps: ApiKeyRoutesDeps): Router {
         const { apiId } = apiIdParamsSchema.parse(req.params);
         await assertDeveloperOwnsApi(user.id, apiId, deps);
 
-        const keys = apiKeyRepository.list({ userId: user.id, apiId }).map((record) => ({
-          id: record.id,
-          apiId: record.apiId,
-          prefix: record.prefix,
-          maskedKey: maskKey(record.prefix),
-          scopes: record.scopes,
-          rateLimitPerMinute: record.rateLimitPerMinute,
-          createdAt: record.createdAt.toISOString(),
-          revoked: record.revoked,
-        }));
+        const records = await apiKeys.list({ userId: user.id, apiId });
+        const keys = await Promise.all(
+          records.map(async (record) => ({
+            ...toKeySummary(record),
+            spendToDate: await spendCaps.spendToDate(record.id),
+          })),
+        );
 
         res.json({ keys });
       } catch (error) {
@@ -141,40 +284,164 @@ export function createApiKeyRouter(deps: ApiKeyRoutesDeps): Router {
     },
   );
 
-  router.delete(
+  router.patch(
     '/keys/:id',
     requireAuth,
-    validate({ params: keyIdParamsSchema }),
-    (req, res: import('express').Response<unknown, AuthenticatedLocals>, next) => {
-      const user = res.locals.authenticatedUser;
-      if (!user) {
-        next(new UnauthorizedError());
-        return;
-      }
+    validate({ params: keyIdParamsSchema, body: updateApiKeyBodySchema }),
+    keyIdempotency,
+    async (req, res: import('express').Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const user = res.locals.authenticatedUser;
+        if (!user) {
+          next(new UnauthorizedError());
+          return;
+        }
+
+        const { id } = keyIdParamsSchema.parse(req.params);
+        const { authMode, ...limits } = updateApiKeyBodySchema.parse(req.body);
 
-      const { id } = keyIdParamsSchema.parse(req.params);
-      
-      // Get the SHA-256 hash BEFORE revoking (while key still exists)
-      const sha256Hash = apiKeyRepository.getSha256Hash(id);
-      
-      const result = apiKeyRepository.revoke(id, user.id);
+        const hasLimits =
+          limits.dailySpendLimitUsdc !== undefined || limits.monthlySpendLimitUsdc !== undefined;
 
-      if (result === 'not_found') {
-        next(new NotFoundError('API key not found', 'API_KEY_NOT_FOUND'));
-        return;
+        // The auth mode goes first: it is the change that can be refused.
+        let result = authMode === undefined
+          ? undefined
+          : await apiKeys.updateAuthMode(id, user.id, authMode);
+        if (result === 'signing_unavailable') {
+          throw new ConflictError(
+            'API key was issued before request signing was supported; rotate it to enable signed requests',
+            'API_KEY_SIGNING_UNAVAILABLE',
+          );
+        }
+        if (result === undefined || (hasLimits && typeof result === 'object')) {
+          result = await apiKeys.updateSpendLimits(id, user.id, limits);
+        }
+        if (result === 'not_found') {
+          throw new NotFoundError('API key not found', 'API_KEY_NOT_FOUND');
+        }
+        if (result === 'forbidden') {
+          throw new ForbiddenError('Forbidden: API key does not belong to authenticated developer', 'API_KEY_FORBIDDEN');
+        }
+
+        res.json({
+          ...toKeySummary(result),
+          spendToDate: await spendCaps.spendToDate(result.id),
+        });
+      } catch (error) {
+        next(error);
       }
+    },
+  );
+
+  // Issues a successor key with the same API, scopes and limits. The old key
+  // keeps working until the overlap ends so clients can switch without downtime.
+  router.post(
+    '/keys/:id/rotate',
+    requireAuth,
+    stepUp,
+    validate({ params: keyIdParamsSchema, body: rotateApiKeyBodySchema }),
+    keyIdempotency,
+    async (req, res: import('express').Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const user = res.locals.authenticatedUser;
+        if (!user) {
+          next(new UnauthorizedError());
+          return;
+        }
 
-      if (result === 'forbidden') {
-        next(new ForbiddenError('Forbidden: API key does not belong to authenticated developer', 'API_KEY_FORBIDDEN'));
-        return;
+        const { id } = keyIdParamsSchema.parse(req.params);
+        const { overlapSeconds } = rotateApiKeyBodySchema.parse(req.body ?? {});
+        const overlapMs = overlapSeconds === undefined ? rotationOverlapMs : overlapSeconds * 1000;
+
+        const result = await apiKeys.rotate(id, user.id, { overlapMs, now: now() });
+        if (!result.success) {
+          if (result.error === 'not_found') {
+            throw new NotFoundError('API key not found', 'API_KEY_NOT_FOUND');
+          }
+          if (result.error === 'forbidden') {
+            throw new ForbiddenError('Forbidden: API key does not belong to authenticated developer', 'API_KEY_FORBIDDEN');
+          }
+          throw new ConflictError(`API key has been ${result.error} and cannot be rotated`, 'API_KEY_NOT_ROTATABLE');
+        }
+
+        res.status(201).json({
+          ...toKeySummary(result.successor),
+          key: result.newKey,
+          previousKeyExpiresAt: result.previousKeyExpiresAt.toISOString(),
+        });
+      } catch (error) {
+        next(error);
       }
+    },
+  );
 
-      // Add to in-memory revocation list for immediate invalidation
-      if (sha256Hash) {
-        getTokenRevocationService().revoke(sha256Hash);
+  // Active keys not used (or, if never used, created) in the last `days` days.
+  router.get(
+    '/keys/stale',
+    requireAuth,
+    validate({ query: staleKeysQuerySchema }),
+    async (req, res: import('express').Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const user = res.locals.authenticatedUser;
+        if (!user) {
+          next(new UnauthorizedError());
+          return;
+        }
+
+        const { days, apiId } = staleKeysQuerySchema.parse(req.query);
+        const at = now();
+        const unusedSince = new Date(at.getTime() - days * DAY_MS);
+        const stale = await apiKeys.listStale({ userId: user.id, apiId, unusedSince, now: at });
+
+        res.json({
+          days,
+          unusedSince: unusedSince.toISOString(),
+          keys: stale.map(toKeySummary),
+        });
+      } catch (error) {
+        next(error);
       }
+    },
+  );
 
-      res.status(204).send();
+  router.delete(
+    '/keys/:id',
+    requireAuth,
+    validate({ params: keyIdParamsSchema }),
+    async (req, res: import('express').Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const user = res.locals.authenticatedUser;
+        if (!user) {
+          next(new UnauthorizedError());
+          return;
+        }
+
+        const { id } = keyIdParamsSchema.parse(req.params);
+
+        // Get the SHA-256 hash BEFORE revoking (while key still exists)
+        const sha256Hash = await apiKeys.getSha256Hash(id);
+
+        const result = await apiKeys.revoke(id, user.id);
+
+        if (result === 'not_found') {
+          next(new NotFoundError('API key not found', 'API_KEY_NOT_FOUND'));
+          return;
+        }
+
+        if (result === 'forbidden') {
+          next(new ForbiddenError('Forbidden: API key does not belong to authenticated developer', 'API_KEY_FORBIDDEN'));
+          return;
+        }
+
+        // Add to in-memory revocation list for immediate invalidation
+        if (sha256Hash) {
+          getTokenRevocationService().revoke(sha256Hash);
+        }
+
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
     },
   );
 
@@ -524,4 +524,27 @@ describe('POST /api/apis/:id/endpoints/bulk', () => {
       ]),
     );
   });
+
+  it('shows tiered pricing to buyers via GET /:id', async () => {
+    const app = buildBulkApp();
+    const pricing = {
+      model: 'graduated',
+      tiers: [
+        { up_to: 10000, price_usdc: '0.01' },
+        { up_to: null, price_usdc: '0.008' },
+      ],
+    };
+
+    const createRes = await request(app)
+      .post('/api/apis/101/endpoints/bulk')
+      .set('x-user-id', 'dev-1')
+      .send({ endpoints: [{ path: '/tiered', method: 'GET', price_per_call_usdc: '0.01', pricing }] });
+
+    expect(createRes.status).toBe(201);
+
+    const getRes = await request(app).get('/api/apis/101');
+    expect(getRes.body.endpoints).toEqual(
+      expect.arrayContaining([expect.objectContaining({ path: '/tiered', pricing })]),
+    );
+  });
 });
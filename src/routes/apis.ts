@@ -8,6 +8,9 @@ import { bodyValidator } from '../middleware/validate.js';
 import { computeStrongETag, isETagMatch } from '../middleware/etagCache.js';
 import {
   defaultApiRepository,
+  deserialiseCachePolicy,
+  deserialiseEndpointPolicy,
+  deserialisePricing,
   type ApiRepository,
 } from "../repositories/apiRepository.js";
 import {
@@ -23,6 +26,10 @@ import {
   defaultAuditService,
   type AuditService,
 } from "../services/auditService.js";
+import {
+  defaultResponseCache,
+  type ResponseCacheStore,
+} from "../services/responseCache.js";
 import type { AuditContext } from "../middleware/auditEnrich.js";
 import { logger } from "../middleware/logging.js";
 import type { Request } from "express";
@@ -38,6 +45,8 @@ export interface ApisRouterDeps {
   corsMiddleware?: ReturnType<typeof createApisCorsMiddleware>;
   /** Persists audit rows for state-changing calls. Defaults to the pg-backed service. */
   auditService?: AuditService;
+  /** Gateway response cache cleared by the purge route. Defaults to the shared store. */
+  responseCache?: ResponseCacheStore;
 }
 
 export function createApisRouter(deps: ApisRouterDeps = {}): Router {
@@ -47,6 +56,7 @@ export function createApisRouter(deps: ApisRouterDeps = {}): Router {
     deps.developerRepository ?? defaultDeveloperRepository;
   const auditService = deps.auditService ?? defaultAuditService;
   const cache = deps.cache ?? listingsCache;
+  const responseCache = deps.responseCache ?? defaultResponseCache;
 
   // Persist an audit row for a state-changing call. Best-effort: a failed audit
   // write is logged but never fails the underlying request, which has already
@@ -348,6 +358,9 @@ export function createApisRouter(deps: ApisRouterDeps = {}): Router {
             path: endpoint.path,
             method: endpoint.method,
             price_per_call_usdc: endpoint.price_per_call_usdc,
+            pricing: endpoint.pricing ?? null,
+            cache: endpoint.cache ?? null,
+            policy: endpoint.policy ?? null,
             description: endpoint.description ?? null,
           })),
         });
@@ -364,7 +377,15 @@ export function createApisRouter(deps: ApisRouterDeps = {}): Router {
           },
         });
 
-        res.status(201).json(api);
+        res.status(201).json({
+          ...api,
+          endpoints: api.endpoints.map((endpoint) => ({
+            ...endpoint,
+            pricing: deserialisePricing(endpoint.pricing),
+            cache: deserialiseCachePolicy(endpoint.cache),
+            policy: deserialiseEndpointPolicy(endpoint.policy),
+          })),
+        });
       } catch (error) {
         next(error);
       }
@@ -414,6 +435,9 @@ export function createApisRouter(deps: ApisRouterDeps = {}): Router {
             path: ep.path,
             method: ep.method,
             price_per_call_usdc: ep.price_per_call_usdc,
+            pricing: ep.pricing ?? null,
+            cache: ep.cache ?? null,
+            policy: ep.policy ?? null,
             description: ep.description ?? null,
           })),
         );
@@ -437,6 +461,56 @@ export function createApisRouter(deps: ApisRouterDeps = {}): Router {
     },
   );
 
+  // Drops every gateway-cached response of the API, e.g. after the provider
+  // changed reference data the cache still holds.
+  router.delete(
+    "/:id/cache",
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const user = res.locals.authenticatedUser;
+        if (!user) {
+          next(new UnauthorizedError());
+          return;
+        }
+
+        const apiId = Number(req.params.id);
+        if (!Number.isInteger(apiId) || apiId <= 0) {
+          next(new BadRequestError("id must be a positive integer"));
+          return;
+        }
+
+        const developer = await developerRepository.findByUserId(user.id);
+        if (!developer) {
+          next(
+            new BadRequestError(
+              "Developer profile not found. Create a developer profile first.",
+              "DEVELOPER_NOT_FOUND",
+            ),
+          );
+          return;
+        }
+
+        const developerApis = await apiRepository.listByDeveloper(developer.id);
+        if (!developerApis.some((a) => a.id === apiId)) {
+          next(new NotFoundError("API not found"));
+          return;
+        }
+
+        const purged = await responseCache.purgeApi(String(apiId));
+
+        await recordApiAudit(req, "API_RESPONSE_CACHE_PURGE", user.id, {
+          apiId,
+          purged,
+        });
+
+        res.json({ apiId, purged });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
   return router;
 }
 
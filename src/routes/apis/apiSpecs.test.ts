@@ -0,0 +1,143 @@
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { requestIdMiddleware } from '../../middleware/requestId.js';
+import type { ApiRepository } from '../../repositories/apiRepository.js';
+import type { DeveloperRepository } from '../../repositories/developerRepository.js';
+import { ApiSpecService, InMemoryApiSpecStore } from '../../services/apiSpecs.js';
+import { createApiSpecRouter } from './apiSpecs.js';
+
+const OWNER = 'user-owner';
+const STRANGER = 'user-stranger';
+
+function makeDeveloperRepo(): DeveloperRepository {
+  return {
+    findByUserId: jest.fn().mockImplementation((userId: string) => {
+      if (userId === OWNER) return Promise.resolve({ id: 1, user_id: OWNER });
+      if (userId === STRANGER) return Promise.resolve({ id: 2, user_id: STRANGER });
+      return Promise.resolve(undefined);
+    }),
+    getOrCreateByUserId: jest.fn(),
+    upsertProfile: jest.fn(),
+  } as unknown as DeveloperRepository;
+}
+
+function makeApiRepo(): ApiRepository {
+  return {
+    listByDeveloper: jest.fn().mockImplementation((developerId: number) =>
+      Promise.resolve(developerId === 1 ? [{ id: 7 }] : []),
+    ),
+  } as unknown as ApiRepository;
+}
+
+const document = {
+  openapi: '3.0.3',
+  info: { title: 'Forecast API', version: '1.0.0' },
+  paths: {
+    '/forecast': {
+      get: {
+        parameters: [{ name: 'days', in: 'query', required: true, schema: { type: 'integer' } }],
+        responses: { 200: { description: 'A forecast' } },
+      },
+    },
+  },
+};
+
+describe('/api/apis/:id/openapi', () => {
+  let service: ApiSpecService;
+  let appendAudit: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    service = new ApiSpecService(new InMemoryApiSpecStore());
+    appendAudit = jest.fn().mockResolvedValue(undefined);
+    app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use(
+      '/api/apis',
+      createApiSpecRouter({
+        apiRepository: makeApiRepo(),
+        developerRepository: makeDeveloperRepo(),
+        apiSpecs: service,
+        appendAudit,
+      }),
+    );
+    app.use(errorHandler);
+  });
+
+  it('returns 404 before a document is uploaded', async () => {
+    const res = await request(app).get('/api/apis/7/openapi').set('x-user-id', OWNER);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('uploads, replaces and removes the document', async () => {
+    const created = await request(app).put('/api/apis/7/openapi').set('x-user-id', OWNER).send({ document });
+
+    expect(created.status).toBe(201);
+    expect(created.body.openapi).toMatchObject({ apiId: '7', version: 1, createdBy: OWNER, document });
+    expect(appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'API_OPENAPI_SAVE', before: null, after: { version: 1 } }),
+    );
+
+    const replaced = await request(app)
+      .put('/api/apis/7/openapi')
+      .set('x-user-id', OWNER)
+      .send({ document, baseVersion: 1 });
+    expect(replaced.status).toBe(200);
+    expect(replaced.body.openapi.version).toBe(2);
+
+    const stale = await request(app)
+      .put('/api/apis/7/openapi')
+      .set('x-user-id', OWNER)
+      .send({ document, baseVersion: 1 });
+    expect(stale.status).toBe(409);
+    expect(stale.body.error.code).toBe('OPENAPI_VERSION_CONFLICT');
+
+    const fetched = await request(app).get('/api/apis/7/openapi').set('x-user-id', OWNER);
+    expect(fetched.body.openapi.version).toBe(2);
+
+    const removed = await request(app).delete('/api/apis/7/openapi').set('x-user-id', OWNER);
+    expect(removed.status).toBe(204);
+    expect(appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'API_OPENAPI_DELETE', before: { version: 2 }, after: null }),
+    );
+    expect(await service.current('7')).toBeNull();
+
+    const missing = await request(app).delete('/api/apis/7/openapi').set('x-user-id', OWNER);
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects documents that are not OpenAPI 3', async () => {
+    const res = await request(app)
+      .put('/api/apis/7/openapi')
+      .set('x-user-id', OWNER)
+      .send({ document: { swagger: '2.0', info: { title: 'Old', version: '1' }, paths: {} } });
+
+    expect(res.status).toBe(400);
+    expect(await service.current('7')).toBeNull();
+  });
+
+  it('rejects documents with external references', async () => {
+    const res = await request(app)
+      .put('/api/apis/7/openapi')
+      .set('x-user-id', OWNER)
+      .send({
+        document: {
+          ...document,
+          paths: { '/forecast': { $ref: 'file:///etc/passwd' } },
+        },
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('OPENAPI_DOCUMENT_INVALID');
+  });
+
+  it('hides APIs owned by another developer', async () => {
+    const res = await request(app).put('/api/apis/7/openapi').set('x-user-id', STRANGER).send({ document });
+
+    expect(res.status).toBe(404);
+    expect(await service.current('7')).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../../errors/index.js';
+import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
+import { bodyValidator } from '../../middleware/validate.js';
+import type { AuditContext } from '../../middleware/auditEnrich.js';
+import {
+  defaultApiRepository,
+  type ApiRepository,
+} from '../../repositories/apiRepository.js';
+import {
+  defaultDeveloperRepository,
+  type DeveloperRepository,
+} from '../../repositories/developerRepository.js';
+import { appendAuditRow, type AuditRowInput } from '../../services/auditService.js';
+import {
+  defaultApiSpecService,
+  type ApiSpecService,
+} from '../../services/apiSpecs.js';
+import { saveApiSpecSchema } from '../../validators/apiSpecs.js';
+import { logger } from '../../logger.js';
+
+export interface ApiSpecRouterDeps {
+  apiRepository?: ApiRepository;
+  developerRepository?: DeveloperRepository;
+  apiSpecs?: ApiSpecService;
+  /** Persists audit rows for state-changing calls. Defaults to the pg-backed writer. */
+  appendAudit?: (input: AuditRowInput) => Promise<unknown>;
+}
+
+/**
+ * Provider management of the OpenAPI document the gateway checks the API's
+ * calls against (see services/apiSpecs.ts):
+ *
+ *   GET    /api/apis/:id/openapi   — the document in effect
+ *   PUT    /api/apis/:id/openapi   — upload a new version
+ *   DELETE /api/apis/:id/openapi   — stop checking calls
+ */
+export function createApiSpecRouter(deps: ApiSpecRouterDeps = {}): Router {
+  const router = Router();
+  const apiRepository = deps.apiRepository ?? defaultApiRepository;
+  const developerRepository = deps.developerRepository ?? defaultDeveloperRepository;
+  const apiSpecs = deps.apiSpecs ?? defaultApiSpecService;
+  const appendAudit = deps.appendAudit ?? appendAuditRow;
+
+  // Best-effort: a failed audit write is logged but never fails the request.
+  async function recordAudit(
+    req: Request,
+    action: string,
+    actor: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): Promise<void> {
+    const ctx = (req as Request & { auditContext?: AuditContext }).auditContext;
+    try {
+      await appendAudit({
+        actor,
+        action,
+        before,
+        after,
+        tenantId: ctx?.tenantId ?? null,
+        correlationId: ctx?.correlationId ?? null,
+        clientIp: ctx?.clientIp ?? null,
+        userAgent: ctx?.userAgent ?? null,
+        bodyHash: ctx?.bodyHash ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        { action, actor, correlationId: ctx?.correlationId, err: error },
+        'Failed to persist audit log for OpenAPI document change',
+      );
+    }
+  }
+
+  /**
+   * Resolve the caller and confirm they own the API in `req.params.id`.
+   * Responds with the appropriate error and returns null otherwise.
+   */
+  async function resolveOwnedApi(
+    req: Request,
+    res: Response<unknown, AuthenticatedLocals>,
+    next: NextFunction,
+  ): Promise<{ userId: string; apiId: string } | null> {
+    const user = res.locals.authenticatedUser;
+    if (!user) {
+      next(new UnauthorizedError());
+      return null;
+    }
+
+    const apiId = Number(req.params.id);
+    if (!Number.isInteger(apiId) || apiId <= 0) {
+      next(new BadRequestError('id must be a positive integer'));
+      return null;
+    }
+
+    const developer = await developerRepository.findByUserId(user.id);
+    if (!developer) {
+      next(
+        new BadRequestError(
+          'Developer profile not found. Create a developer profile first.',
+          'DEVELOPER_NOT_FOUND',
+        ),
+      );
+      return null;
+    }
+
+    const developerApis = await apiRepository.listByDeveloper(developer.id);
+    if (!developerApis.some((a) => a.id === apiId)) {
+      next(new NotFoundError('API not found'));
+      return null;
+    }
+
+    return { userId: user.id, apiId: String(apiId) };
+  }
+
+  router.get(
+    '/:id/openapi',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        res.json({ openapi: await apiSpecs.get(owned.apiId) });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.put(
+    '/:id/openapi',
+    requireAuth,
+    bodyValidator(saveApiSpecSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const { document, baseVersion } = saveApiSpecSchema.parse(req.body);
+        const before = await apiSpecs.current(owned.apiId);
+        const saved = await apiSpecs.save(owned.apiId, document, owned.userId, { baseVersion });
+
+        // The documents themselves can be large; the audit trail keeps versions.
+        await recordAudit(
+          req,
+          'API_OPENAPI_SAVE',
+          owned.userId,
+          before ? { version: before.version } : null,
+          { version: saved.version },
+        );
+
+        res.status(before ? 200 : 201).json({ openapi: saved });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.delete(
+    '/:id/openapi',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const before = await apiSpecs.current(owned.apiId);
+        if (!before || !(await apiSpecs.remove(owned.apiId, owned.userId))) {
+          next(new NotFoundError('This API has no OpenAPI document'));
+          return;
+        }
+
+        await recordAudit(req, 'API_OPENAPI_DELETE', owned.userId, { version: before.version }, null);
+
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,161 @@
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { requestIdMiddleware } from '../../middleware/requestId.js';
+import type { ApiRepository } from '../../repositories/apiRepository.js';
+import type { DeveloperRepository } from '../../repositories/developerRepository.js';
+import type { SubscriptionRepository } from '../../repositories/subscriptionRepository.js';
+import { ApiVersionService, InMemoryApiVersionStore } from '../../services/apiVersions.js';
+import { createApiVersionRouter } from './apiVersions.js';
+
+const OWNER = 'user-owner';
+const STRANGER = 'user-stranger';
+
+function makeDeveloperRepo(): DeveloperRepository {
+  return {
+    findByUserId: jest.fn().mockImplementation((userId: string) => {
+      if (userId === OWNER) return Promise.resolve({ id: 1, user_id: OWNER });
+      if (userId === STRANGER) return Promise.resolve({ id: 2, user_id: STRANGER });
+      return Promise.resolve(undefined);
+    }),
+    getOrCreateByUserId: jest.fn(),
+    upsertProfile: jest.fn(),
+  } as unknown as DeveloperRepository;
+}
+
+function makeApiRepo(): ApiRepository {
+  return {
+    listByDeveloper: jest.fn().mockImplementation((developerId: number) =>
+      Promise.resolve(developerId === 1 ? [{ id: 7 }] : []),
+    ),
+  } as unknown as ApiRepository;
+}
+
+const v2 = {
+  version: 'v2',
+  base_url: 'https://v2.forecast.example.com',
+  endpoints: [{ path: '/forecast', method: 'GET', price_per_call_usdc: '0.08' }],
+};
+
+describe('/api/apis/:id/versions', () => {
+  let apiVersions: ApiVersionService;
+  let subscriptionRepository: SubscriptionRepository;
+  let appendAudit: jest.Mock;
+  let emit: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    apiVersions = new ApiVersionService(new InMemoryApiVersionStore());
+    subscriptionRepository = {
+      findActiveByApi: jest.fn().mockResolvedValue([
+        { id: 'sub-1', user_id: 'consumer-1', pinned_version: 'v1' },
+        { id: 'sub-2', user_id: 'consumer-2', pinned_version: null },
+      ]),
+    } as unknown as SubscriptionRepository;
+    appendAudit = jest.fn().mockResolvedValue(undefined);
+    emit = jest.fn().mockReturnValue(true);
+    app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use(
+      '/api/apis',
+      createApiVersionRouter({
+        apiRepository: makeApiRepo(),
+        developerRepository: makeDeveloperRepo(),
+        subscriptionRepository,
+        apiVersions,
+        appendAudit,
+        emit,
+      }),
+    );
+    app.use(errorHandler);
+  });
+
+  it('publishes and lists versions', async () => {
+    const published = await request(app).post('/api/apis/7/versions').set('x-user-id', OWNER).send(v2);
+
+    expect(published.status).toBe(201);
+    expect(published.body.version).toMatchObject({
+      apiId: '7',
+      version: 'v2',
+      baseUrl: 'https://v2.forecast.example.com',
+      endpoints: [{ endpointId: 'v2:GET /forecast', path: '/forecast', method: 'GET', priceUsdc: 0.08 }],
+      sunsetAt: null,
+    });
+    expect(appendAudit).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'API_VERSION_PUBLISH',
+      actor: OWNER,
+      after: { version: 'v2', baseUrl: 'https://v2.forecast.example.com', endpoints: 1 },
+    }));
+
+    const again = await request(app).post('/api/apis/7/versions').set('x-user-id', OWNER).send(v2);
+    expect(again.status).toBe(409);
+    expect(again.body.error.code).toBe('API_VERSION_EXISTS');
+
+    const listed = await request(app).get('/api/apis/7/versions').set('x-user-id', OWNER);
+    expect(listed.status).toBe(200);
+    expect(listed.body.versions.map((v: { version: string }) => v.version)).toEqual(['v2']);
+
+    const missing = await request(app).get('/api/apis/7/versions/v9').set('x-user-id', OWNER);
+    expect(missing.status).toBe(404);
+    expect(missing.body.error.code).toBe('API_VERSION_NOT_FOUND');
+  });
+
+  it('validates the endpoints like a registration', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/versions')
+      .set('x-user-id', OWNER)
+      .send({ ...v2, endpoints: [{ path: 'forecast', method: 'GET', price_per_call_usdc: '0.08' }] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('deprecates a version and notifies every subscriber', async () => {
+    await apiVersions.publish('7', { version: 'v1', baseUrl: 'https://forecast.example.com', endpoints: [] }, OWNER);
+    await apiVersions.publish('7', { version: 'v2', baseUrl: 'https://v2.forecast.example.com', endpoints: [] }, OWNER);
+    const sunsetAt = new Date(Date.now() + 30 * 86_400_000).toISOString();
+
+    const res = await request(app)
+      .post('/api/apis/7/versions/v1/deprecate')
+      .set('x-user-id', OWNER)
+      .send({ sunset_at: sunsetAt, successor: 'v2' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.version).toMatchObject({ version: 'v1', sunsetAt, successor: 'v2' });
+    expect(subscriptionRepository.findActiveByApi).toHaveBeenCalledWith(7);
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(emit).toHaveBeenCalledWith('api.version.deprecated', 'consumer-1', {
+      apiId: '7',
+      version: 'v1',
+      deprecatedAt: res.body.version.deprecatedAt,
+      sunsetAt,
+      successor: 'v2',
+      pinned: true,
+    });
+    expect(emit).toHaveBeenCalledWith('api.version.deprecated', 'consumer-2', expect.objectContaining({ pinned: false }));
+    expect(appendAudit).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'API_VERSION_DEPRECATE',
+      before: { version: 'v1', sunsetAt: null, successor: null },
+      after: { version: 'v1', sunsetAt, successor: 'v2' },
+    }));
+  });
+
+  it('refuses a sunset date in the past', async () => {
+    await apiVersions.publish('7', { version: 'v1', baseUrl: 'https://forecast.example.com', endpoints: [] }, OWNER);
+
+    const res = await request(app)
+      .post('/api/apis/7/versions/v1/deprecate')
+      .set('x-user-id', OWNER)
+      .send({ sunset_at: '2020-01-01T00:00:00Z' });
+
+    expect(res.status).toBe(400);
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('hides versions of APIs the caller does not own', async () => {
+    const res = await request(app).post('/api/apis/7/versions').set('x-user-id', STRANGER).send(v2);
+
+    expect(res.status).toBe(404);
+    expect(await apiVersions.list('7')).toEqual([]);
+  });
+});
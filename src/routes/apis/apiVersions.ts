@@ -0,0 +1,249 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../../errors/index.js';
+import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
+import { bodyValidator } from '../../middleware/validate.js';
+import type { AuditContext } from '../../middleware/auditEnrich.js';
+import {
+  defaultApiRepository,
+  type ApiRepository,
+} from '../../repositories/apiRepository.js';
+import {
+  defaultDeveloperRepository,
+  type DeveloperRepository,
+} from '../../repositories/developerRepository.js';
+import {
+  defaultSubscriptionRepository,
+  type SubscriptionRepository,
+} from '../../repositories/subscriptionRepository.js';
+import { appendAuditRow, type AuditRowInput } from '../../services/auditService.js';
+import {
+  defaultApiVersionService,
+  type ApiVersion,
+  type ApiVersionService,
+} from '../../services/apiVersions.js';
+import { calloraEvents } from '../../events/event.emitter.js';
+import {
+  deprecateApiVersionSchema,
+  publishApiVersionSchema,
+} from '../../validators/apis.js';
+import { logger } from '../../logger.js';
+
+export interface ApiVersionRouterDeps {
+  apiRepository?: ApiRepository;
+  developerRepository?: DeveloperRepository;
+  /** Whose subscribers are notified of deprecations. Defaults to the SQLite repository. */
+  subscriptionRepository?: SubscriptionRepository;
+  apiVersions?: ApiVersionService;
+  /** Persists audit rows for state-changing calls. Defaults to the pg-backed writer. */
+  appendAudit?: (input: AuditRowInput) => Promise<unknown>;
+  /** Sends `api.version.deprecated` webhooks. Defaults to the shared event emitter. */
+  emit?: typeof calloraEvents.emit;
+}
+
+/**
+ * Provider management of an API's published versions (see
+ * services/apiVersions.ts):
+ *
+ *   GET  /api/apis/:id/versions                      — every version
+ *   POST /api/apis/:id/versions                      — publish a version
+ *   GET  /api/apis/:id/versions/:version             — one version
+ *   POST /api/apis/:id/versions/:version/deprecate   — set its sunset date
+ */
+export function createApiVersionRouter(deps: ApiVersionRouterDeps = {}): Router {
+  const router = Router();
+  const apiRepository = deps.apiRepository ?? defaultApiRepository;
+  const developerRepository = deps.developerRepository ?? defaultDeveloperRepository;
+  const subscriptionRepository = deps.subscriptionRepository ?? defaultSubscriptionRepository;
+  const apiVersions = deps.apiVersions ?? defaultApiVersionService;
+  const appendAudit = deps.appendAudit ?? appendAuditRow;
+  const emit = deps.emit ?? calloraEvents.emit.bind(calloraEvents);
+
+  // Best-effort: a failed audit write is logged but never fails the request.
+  async function recordAudit(
+    req: Request,
+    action: string,
+    actor: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): Promise<void> {
+    const ctx = (req as Request & { auditContext?: AuditContext }).auditContext;
+    try {
+      await appendAudit({
+        actor,
+        action,
+        before,
+        after,
+        tenantId: ctx?.tenantId ?? null,
+        correlationId: ctx?.correlationId ?? null,
+        clientIp: ctx?.clientIp ?? null,
+        userAgent: ctx?.userAgent ?? null,
+        bodyHash: ctx?.bodyHash ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        { action, actor, correlationId: ctx?.correlationId, err: error },
+        'Failed to persist audit log for API version change',
+      );
+    }
+  }
+
+  /**
+   * Resolve the caller and confirm they own the API in `req.params.id`.
+   * Responds with the appropriate error and returns null otherwise.
+   */
+  async function resolveOwnedApi(
+    req: Request,
+    res: Response<unknown, AuthenticatedLocals>,
+    next: NextFunction,
+  ): Promise<{ userId: string; apiId: string } | null> {
+    const user = res.locals.authenticatedUser;
+    if (!user) {
+      next(new UnauthorizedError());
+      return null;
+    }
+
+    const apiId = Number(req.params.id);
+    if (!Number.isInteger(apiId) || apiId <= 0) {
+      next(new BadRequestError('id must be a positive integer'));
+      return null;
+    }
+
+    const developer = await developerRepository.findByUserId(user.id);
+    if (!developer) {
+      next(
+        new BadRequestError(
+          'Developer profile not found. Create a developer profile first.',
+          'DEVELOPER_NOT_FOUND',
+        ),
+      );
+      return null;
+    }
+
+    const developerApis = await apiRepository.listByDeveloper(developer.id);
+    if (!developerApis.some((a) => a.id === apiId)) {
+      next(new NotFoundError('API not found'));
+      return null;
+    }
+
+    return { userId: user.id, apiId: String(apiId) };
+  }
+
+  /**
+   * Tells every active or paused subscriber about the deprecation. Best-effort:
+   * a failed lookup is logged and the deprecation still stands.
+   */
+  async function notifySubscribers(version: ApiVersion): Promise<void> {
+    try {
+      const subscriptions = await subscriptionRepository.findActiveByApi(Number(version.apiId));
+      for (const subscription of subscriptions) {
+        emit('api.version.deprecated', subscription.user_id, {
+          apiId: version.apiId,
+          version: version.version,
+          deprecatedAt: version.deprecatedAt as string,
+          sunsetAt: version.sunsetAt as string,
+          successor: version.successor,
+          pinned: subscription.pinned_version === version.version,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        { apiId: version.apiId, version: version.version, err: error },
+        'Failed to notify subscribers of API version deprecation',
+      );
+    }
+  }
+
+  router.get(
+    '/:id/versions',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        res.json({ versions: await apiVersions.list(owned.apiId) });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    '/:id/versions',
+    requireAuth,
+    bodyValidator(publishApiVersionSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const { version, base_url, endpoints } = publishApiVersionSchema.parse(req.body);
+        const published = await apiVersions.publish(
+          owned.apiId,
+          { version, baseUrl: base_url, endpoints },
+          owned.userId,
+        );
+
+        await recordAudit(req, 'API_VERSION_PUBLISH', owned.userId, null, {
+          version: published.version,
+          baseUrl: published.baseUrl,
+          endpoints: published.endpoints.length,
+        });
+
+        res.status(201).json({ version: published });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    '/:id/versions/:version',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        res.json({ version: await apiVersions.get(owned.apiId, req.params.version) });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    '/:id/versions/:version/deprecate',
+    requireAuth,
+    bodyValidator(deprecateApiVersionSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const { sunset_at, successor } = deprecateApiVersionSchema.parse(req.body);
+        const before = await apiVersions.get(owned.apiId, req.params.version);
+        const deprecated = await apiVersions.deprecate(owned.apiId, req.params.version, {
+          sunsetAt: new Date(sunset_at),
+          successor,
+        });
+
+        await recordAudit(
+          req,
+          'API_VERSION_DEPRECATE',
+          owned.userId,
+          { version: before.version, sunsetAt: before.sunsetAt, successor: before.successor },
+          { version: deprecated.version, sunsetAt: deprecated.sunsetAt, successor: deprecated.successor },
+        );
+        await notifySubscribers(deprecated);
+
+        res.json({ version: deprecated });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,154 @@
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { requestIdMiddleware } from '../../middleware/requestId.js';
+import { InMemoryApiRepository } from '../../repositories/apiRepository.js';
+import type { DeveloperRepository } from '../../repositories/developerRepository.js';
+import { createOpenApiImportRouter } from './openApiImport.js';
+
+const OWNER = 'user-owner';
+const STRANGER = 'user-stranger';
+
+function makeDeveloperRepo(): DeveloperRepository {
+  return {
+    findByUserId: jest.fn().mockImplementation((userId: string) => {
+      if (userId === OWNER) return Promise.resolve({ id: 1, user_id: OWNER });
+      if (userId === STRANGER) return Promise.resolve({ id: 2, user_id: STRANGER });
+      return Promise.resolve(undefined);
+    }),
+    getOrCreateByUserId: jest.fn(),
+    upsertProfile: jest.fn(),
+  } as unknown as DeveloperRepository;
+}
+
+function makeApiRepo(): InMemoryApiRepository {
+  return new InMemoryApiRepository(
+    [{
+      id: 7,
+      developer_id: 1,
+      name: 'Forecast API',
+      description: null,
+      base_url: 'https://forecast.example.com',
+      logo_url: null,
+      category: 'weather',
+      status: 'active',
+      created_at: new Date(0),
+      updated_at: new Date(0),
+      deleted_at: null,
+    }],
+    new Map([[7, [
+      { path: '/forecast', method: 'GET', price_per_call_usdc: '0.05', description: null },
+      { path: '/legacy', method: 'GET', price_per_call_usdc: '0.01', description: null },
+    ]]]),
+  );
+}
+
+const document = `
+openapi: 3.0.3
+info: { title: Forecast API, version: 1.0.0 }
+paths:
+  /forecast:
+    get:
+      summary: Daily forecast
+      parameters:
+        - { name: days, in: query, required: true, schema: { type: integer } }
+  /alerts/{region}:
+    get:
+      summary: Active alerts
+`;
+
+describe('POST /api/apis/:id/import', () => {
+  let apiRepository: InMemoryApiRepository;
+  let appendAudit: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    apiRepository = makeApiRepo();
+    appendAudit = jest.fn().mockResolvedValue(undefined);
+    app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use(
+      '/api/apis',
+      createOpenApiImportRouter({
+        apiRepository,
+        developerRepository: makeDeveloperRepo(),
+        appendAudit,
+      }),
+    );
+    app.use(errorHandler);
+  });
+
+  it('previews the changes without applying them', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/import')
+      .set('x-user-id', OWNER)
+      .send({ document, default_price_usdc: '0.02' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.committed).toBe(false);
+    expect(res.body.diff.added).toEqual([
+      expect.objectContaining({ path: '/alerts/:region', method: 'GET', price_per_call_usdc: '0.02' }),
+    ]);
+    expect(res.body.diff.removed).toEqual([expect.objectContaining({ path: '/legacy' })]);
+    expect(res.body.diff.changed).toEqual([expect.objectContaining({ path: '/forecast', method: 'GET' })]);
+    expect(await apiRepository.getEndpoints(7)).toHaveLength(2);
+    expect(appendAudit).not.toHaveBeenCalled();
+  });
+
+  it('applies the changes when committed', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/import')
+      .set('x-user-id', OWNER)
+      .send({ document, default_price_usdc: '0.02', commit: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.committed).toBe(true);
+    expect(res.body.endpoints).toEqual([
+      expect.objectContaining({
+        path: '/forecast',
+        price_per_call_usdc: '0.05',
+        description: 'Daily forecast',
+        parameters: [{ name: 'days', in: 'query', required: true, schema: { type: 'integer' } }],
+      }),
+      expect.objectContaining({ path: '/alerts/:region', price_per_call_usdc: '0.02', description: 'Active alerts' }),
+    ]);
+    expect(appendAudit).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'API_ENDPOINTS_IMPORT',
+      actor: OWNER,
+      after: {
+        apiId: 7,
+        added: [{ path: '/alerts/:region', method: 'GET' }],
+        removed: [{ path: '/legacy', method: 'GET' }],
+        changed: [{ path: '/forecast', method: 'GET' }],
+      },
+    }));
+  });
+
+  it('rejects documents that do not parse', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/import')
+      .set('x-user-id', OWNER)
+      .send({ document: 'openapi: [3', default_price_usdc: '0.02', commit: true });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('OPENAPI_DOCUMENT_INVALID');
+    expect(await apiRepository.getEndpoints(7)).toHaveLength(2);
+  });
+
+  it('requires a default price', async () => {
+    const res = await request(app).post('/api/apis/7/import').set('x-user-id', OWNER).send({ document });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('hides APIs owned by another developer', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/import')
+      .set('x-user-id', STRANGER)
+      .send({ document, default_price_usdc: '0.02', commit: true });
+
+    expect(res.status).toBe(404);
+    expect(await apiRepository.getEndpoints(7)).toHaveLength(2);
+  });
+});
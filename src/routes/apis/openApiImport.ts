@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../../errors/index.js';
+import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
+import { bodyValidator } from '../../middleware/validate.js';
+import type { AuditContext } from '../../middleware/auditEnrich.js';
+import {
+  defaultApiRepository,
+  type ApiRepository,
+} from '../../repositories/apiRepository.js';
+import {
+  defaultDeveloperRepository,
+  type DeveloperRepository,
+} from '../../repositories/developerRepository.js';
+import { appendAuditRow, type AuditRowInput } from '../../services/auditService.js';
+import {
+  endpointChangesOf,
+  parseOpenApiSource,
+  previewEndpointImport,
+} from '../../services/openApiImport.js';
+import { importEndpointsSchema } from '../../validators/apis.js';
+import { logger } from '../../logger.js';
+
+export interface OpenApiImportRouterDeps {
+  apiRepository?: ApiRepository;
+  developerRepository?: DeveloperRepository;
+  /** Persists audit rows for state-changing calls. Defaults to the pg-backed writer. */
+  appendAudit?: (input: AuditRowInput) => Promise<unknown>;
+}
+
+/**
+ * Generating an API's endpoints from an OpenAPI document (see
+ * services/openApiImport.ts):
+ *
+ *   POST /api/apis/:id/import   — preview the changes, or apply them with `commit`
+ */
+export function createOpenApiImportRouter(deps: OpenApiImportRouterDeps = {}): Router {
+  const router = Router();
+  const apiRepository = deps.apiRepository ?? defaultApiRepository;
+  const developerRepository = deps.developerRepository ?? defaultDeveloperRepository;
+  const appendAudit = deps.appendAudit ?? appendAuditRow;
+
+  // Best-effort: a failed audit write is logged but never fails the request.
+  async function recordAudit(
+    req: Request,
+    action: string,
+    actor: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): Promise<void> {
+    const ctx = (req as Request & { auditContext?: AuditContext }).auditContext;
+    try {
+      await appendAudit({
+        actor,
+        action,
+        before,
+        after,
+        tenantId: ctx?.tenantId ?? null,
+        correlationId: ctx?.correlationId ?? null,
+        clientIp: ctx?.clientIp ?? null,
+        userAgent: ctx?.userAgent ?? null,
+        bodyHash: ctx?.bodyHash ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        { action, actor, correlationId: ctx?.correlationId, err: error },
+        'Failed to persist audit log for OpenAPI endpoint import',
+      );
+    }
+  }
+
+  /**
+   * Resolve the caller and confirm they own the API in `req.params.id`.
+   * Responds with the appropriate error and returns null otherwise.
+   */
+  async function resolveOwnedApi(
+    req: Request,
+    res: Response<unknown, AuthenticatedLocals>,
+    next: NextFunction,
+  ): Promise<{ userId: string; apiId: string } | null> {
+    const user = res.locals.authenticatedUser;
+    if (!user) {
+      next(new UnauthorizedError());
+      return null;
+    }
+
+    const apiId = Number(req.params.id);
+    if (!Number.isInteger(apiId) || apiId <= 0) {
+      next(new BadRequestError('id must be a positive integer'));
+      return null;
+    }
+
+    const developer = await developerRepository.findByUserId(user.id);
+    if (!developer) {
+      next(
+        new BadRequestError(
+          'Developer profile not found. Create a developer profile first.',
+          'DEVELOPER_NOT_FOUND',
+        ),
+      );
+      return null;
+    }
+
+    const developerApis = await apiRepository.listByDeveloper(developer.id);
+    if (!developerApis.some((a) => a.id === apiId)) {
+      next(new NotFoundError('API not found'));
+      return null;
+    }
+
+    return { userId: user.id, apiId: String(apiId) };
+  }
+
+  router.post(
+    '/:id/import',
+    requireAuth,
+    bodyValidator(importEndpointsSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const { document, default_price_usdc, commit } = importEndpointsSchema.parse(req.body);
+        const apiId = Number(owned.apiId);
+        const { diff, skipped } = previewEndpointImport(
+          await apiRepository.getEndpoints(apiId),
+          parseOpenApiSource(document),
+          default_price_usdc,
+        );
+
+        if (!commit) {
+          res.json({ committed: false, diff, skipped });
+          return;
+        }
+
+        await apiRepository.applyEndpointChanges(apiId, endpointChangesOf(diff));
+        await recordAudit(req, 'API_ENDPOINTS_IMPORT', owned.userId, null, {
+          apiId,
+          added: diff.added.map(({ path, method }) => ({ path, method })),
+          removed: diff.removed.map(({ path, method }) => ({ path, method })),
+          changed: diff.changed.map(({ path, method }) => ({ path, method })),
+        });
+
+        res.json({
+          committed: true,
+          diff,
+          skipped,
+          endpoints: await apiRepository.getEndpoints(apiId),
+        });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
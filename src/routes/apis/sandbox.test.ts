@@ -0,0 +1,122 @@
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { requestIdMiddleware } from '../../middleware/requestId.js';
+import type { ApiRepository } from '../../repositories/apiRepository.js';
+import type { DeveloperRepository } from '../../repositories/developerRepository.js';
+import { InMemorySandboxStore, SandboxService } from '../../services/sandbox.js';
+import { createSandboxRouter } from './sandbox.js';
+
+const OWNER = 'user-owner';
+const STRANGER = 'user-stranger';
+
+function makeDeveloperRepo(): DeveloperRepository {
+  return {
+    findByUserId: jest.fn().mockImplementation((userId: string) => {
+      if (userId === OWNER) return Promise.resolve({ id: 1, user_id: OWNER });
+      if (userId === STRANGER) return Promise.resolve({ id: 2, user_id: STRANGER });
+      return Promise.resolve(undefined);
+    }),
+    getOrCreateByUserId: jest.fn(),
+    upsertProfile: jest.fn(),
+  } as unknown as DeveloperRepository;
+}
+
+function makeApiRepo(): ApiRepository {
+  return {
+    listByDeveloper: jest.fn().mockImplementation((developerId: number) =>
+      Promise.resolve(developerId === 1 ? [{ id: 7 }] : []),
+    ),
+  } as unknown as ApiRepository;
+}
+
+describe('/api/apis/:id/sandbox', () => {
+  let service: SandboxService;
+  let appendAudit: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    service = new SandboxService(new InMemorySandboxStore());
+    appendAudit = jest.fn().mockResolvedValue(undefined);
+    app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use(
+      '/api/apis',
+      createSandboxRouter({
+        apiRepository: makeApiRepo(),
+        developerRepository: makeDeveloperRepo(),
+        sandboxes: service,
+        appendAudit,
+      }),
+    );
+    app.use(errorHandler);
+  });
+
+  it('returns an empty sandbox before one is set up', async () => {
+    const res = await request(app).get('/api/apis/7/sandbox').set('x-user-id', OWNER);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sandbox).toEqual({ apiId: '7', baseUrl: null, fixtures: [], updatedAt: null, updatedBy: null });
+  });
+
+  it('sets and clears the base URL', async () => {
+    const set = await request(app)
+      .put('/api/apis/7/sandbox')
+      .set('x-user-id', OWNER)
+      .send({ baseUrl: 'https://sandbox.example.com' });
+
+    expect(set.status).toBe(200);
+    expect(set.body.sandbox).toMatchObject({ baseUrl: 'https://sandbox.example.com', updatedBy: OWNER });
+    expect(appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'API_SANDBOX_BASE_URL_SET', before: { baseUrl: null } }),
+    );
+
+    const cleared = await request(app).put('/api/apis/7/sandbox').set('x-user-id', OWNER).send({ baseUrl: null });
+    expect(cleared.body.sandbox.baseUrl).toBeNull();
+  });
+
+  it('adds, replaces and deletes fixtures', async () => {
+    const created = await request(app)
+      .post('/api/apis/7/sandbox/fixtures')
+      .set('x-user-id', OWNER)
+      .send({ method: 'GET', path: '/forecast', body: { temperature: 21 } });
+
+    expect(created.status).toBe(201);
+    expect(created.body.fixture).toMatchObject({ method: 'GET', path: '/forecast', status: 200, headers: {} });
+
+    const id = created.body.fixture.id as string;
+    const replaced = await request(app)
+      .put(`/api/apis/7/sandbox/fixtures/${id}`)
+      .set('x-user-id', OWNER)
+      .send({ path: '/forecast', status: 503, body: 'down' });
+    expect(replaced.status).toBe(200);
+    expect(replaced.body.fixture).toMatchObject({ id, method: null, status: 503, body: 'down' });
+
+    const deleted = await request(app).delete(`/api/apis/7/sandbox/fixtures/${id}`).set('x-user-id', OWNER);
+    expect(deleted.status).toBe(204);
+    expect((await service.get('7')).fixtures).toEqual([]);
+
+    const missing = await request(app).delete(`/api/apis/7/sandbox/fixtures/${id}`).set('x-user-id', OWNER);
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects fixtures that set gateway headers', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/sandbox/fixtures')
+      .set('x-user-id', OWNER)
+      .send({ path: '/forecast', headers: { 'X-Request-Id': 'spoofed' } });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('hides APIs owned by another developer', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/sandbox/fixtures')
+      .set('x-user-id', STRANGER)
+      .send({ path: '/forecast' });
+
+    expect(res.status).toBe(404);
+    expect((await service.get('7')).fixtures).toEqual([]);
+  });
+});
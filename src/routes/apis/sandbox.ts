@@ -0,0 +1,236 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../../errors/index.js';
+import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
+import { bodyValidator } from '../../middleware/validate.js';
+import type { AuditContext } from '../../middleware/auditEnrich.js';
+import {
+  defaultApiRepository,
+  type ApiRepository,
+} from '../../repositories/apiRepository.js';
+import {
+  defaultDeveloperRepository,
+  type DeveloperRepository,
+} from '../../repositories/developerRepository.js';
+import { appendAuditRow, type AuditRowInput } from '../../services/auditService.js';
+import {
+  defaultSandboxService,
+  type SandboxService,
+} from '../../services/sandbox.js';
+import { sandboxBaseUrlSchema, sandboxFixtureSchema } from '../../validators/sandbox.js';
+import { logger } from '../../logger.js';
+
+export interface SandboxRouterDeps {
+  apiRepository?: ApiRepository;
+  developerRepository?: DeveloperRepository;
+  sandboxes?: SandboxService;
+  /** Persists audit rows for state-changing calls. Defaults to the pg-backed writer. */
+  appendAudit?: (input: AuditRowInput) => Promise<unknown>;
+}
+
+/**
+ * Provider management of the sandbox that answers calls made with test-mode
+ * API keys (see services/sandbox.ts):
+ *
+ *   GET    /api/apis/:id/sandbox                        — base URL and fixtures
+ *   PUT    /api/apis/:id/sandbox                        — set or clear the base URL
+ *   POST   /api/apis/:id/sandbox/fixtures               — add a fixture
+ *   PUT    /api/apis/:id/sandbox/fixtures/:fixtureId    — replace a fixture
+ *   DELETE /api/apis/:id/sandbox/fixtures/:fixtureId    — remove a fixture
+ */
+export function createSandboxRouter(deps: SandboxRouterDeps = {}): Router {
+  const router = Router();
+  const apiRepository = deps.apiRepository ?? defaultApiRepository;
+  const developerRepository = deps.developerRepository ?? defaultDeveloperRepository;
+  const sandboxes = deps.sandboxes ?? defaultSandboxService;
+  const appendAudit = deps.appendAudit ?? appendAuditRow;
+
+  // Best-effort: a failed audit write is logged but never fails the request.
+  async function recordAudit(
+    req: Request,
+    action: string,
+    actor: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): Promise<void> {
+    const ctx = (req as Request & { auditContext?: AuditContext }).auditContext;
+    try {
+      await appendAudit({
+        actor,
+        action,
+        before,
+        after,
+        tenantId: ctx?.tenantId ?? null,
+        correlationId: ctx?.correlationId ?? null,
+        clientIp: ctx?.clientIp ?? null,
+        userAgent: ctx?.userAgent ?? null,
+        bodyHash: ctx?.bodyHash ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        { action, actor, correlationId: ctx?.correlationId, err: error },
+        'Failed to persist audit log for sandbox change',
+      );
+    }
+  }
+
+  /**
+   * Resolve the caller and confirm they own the API in `req.params.id`.
+   * Responds with the appropriate error and returns null otherwise.
+   */
+  async function resolveOwnedApi(
+    req: Request,
+    res: Response<unknown, AuthenticatedLocals>,
+    next: NextFunction,
+  ): Promise<{ userId: string; apiId: string } | null> {
+    const user = res.locals.authenticatedUser;
+    if (!user) {
+      next(new UnauthorizedError());
+      return null;
+    }
+
+    const apiId = Number(req.params.id);
+    if (!Number.isInteger(apiId) || apiId <= 0) {
+      next(new BadRequestError('id must be a positive integer'));
+      return null;
+    }
+
+    const developer = await developerRepository.findByUserId(user.id);
+    if (!developer) {
+      next(
+        new BadRequestError(
+          'Developer profile not found. Create a developer profile first.',
+          'DEVELOPER_NOT_FOUND',
+        ),
+      );
+      return null;
+    }
+
+    const developerApis = await apiRepository.listByDeveloper(developer.id);
+    if (!developerApis.some((a) => a.id === apiId)) {
+      next(new NotFoundError('API not found'));
+      return null;
+    }
+
+    return { userId: user.id, apiId: String(apiId) };
+  }
+
+  router.get(
+    '/:id/sandbox',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        res.json({ sandbox: await sandboxes.get(owned.apiId) });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.put(
+    '/:id/sandbox',
+    requireAuth,
+    bodyValidator(sandboxBaseUrlSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const before = await sandboxes.get(owned.apiId);
+        const { baseUrl } = sandboxBaseUrlSchema.parse(req.body);
+        const sandbox = await sandboxes.setBaseUrl(owned.apiId, baseUrl, owned.userId);
+
+        await recordAudit(
+          req,
+          'API_SANDBOX_BASE_URL_SET',
+          owned.userId,
+          { baseUrl: before.baseUrl },
+          { baseUrl: sandbox.baseUrl },
+        );
+
+        res.json({ sandbox });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    '/:id/sandbox/fixtures',
+    requireAuth,
+    bodyValidator(sandboxFixtureSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const input = sandboxFixtureSchema.parse(req.body);
+        const fixture = await sandboxes.addFixture(owned.apiId, input, owned.userId);
+
+        await recordAudit(req, 'API_SANDBOX_FIXTURE_CREATE', owned.userId, null, { ...fixture });
+
+        res.status(201).json({ fixture });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.put(
+    '/:id/sandbox/fixtures/:fixtureId',
+    requireAuth,
+    bodyValidator(sandboxFixtureSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const before = (await sandboxes.get(owned.apiId)).fixtures
+          .find((fixture) => fixture.id === req.params.fixtureId);
+        const input = sandboxFixtureSchema.parse(req.body);
+        const fixture = await sandboxes.replaceFixture(owned.apiId, req.params.fixtureId, input, owned.userId);
+
+        await recordAudit(
+          req,
+          'API_SANDBOX_FIXTURE_REPLACE',
+          owned.userId,
+          before ? { ...before } : null,
+          { ...fixture },
+        );
+
+        res.json({ fixture });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.delete(
+    '/:id/sandbox/fixtures/:fixtureId',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const before = (await sandboxes.get(owned.apiId)).fixtures
+          .find((fixture) => fixture.id === req.params.fixtureId);
+        if (!before || !(await sandboxes.removeFixture(owned.apiId, before.id, owned.userId))) {
+          next(new NotFoundError('Sandbox fixture not found'));
+          return;
+        }
+
+        await recordAudit(req, 'API_SANDBOX_FIXTURE_DELETE', owned.userId, { ...before }, null);
+
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
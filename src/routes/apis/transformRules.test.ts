@@ -0,0 +1,195 @@
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { requestIdMiddleware } from '../../middleware/requestId.js';
+import type { ApiRepository } from '../../repositories/apiRepository.js';
+import type { DeveloperRepository } from '../../repositories/developerRepository.js';
+import { InMemoryResponseCache } from '../../services/responseCache.js';
+import { InMemoryTransformRuleStore, TransformRuleService } from '../../services/transformRules.js';
+import { createTransformRulesRouter } from './transformRules.js';
+
+const OWNER = 'user-owner';
+const STRANGER = 'user-stranger';
+
+function makeDeveloperRepo(): DeveloperRepository {
+  return {
+    findByUserId: jest.fn().mockImplementation((userId: string) => {
+      if (userId === OWNER) return Promise.resolve({ id: 1, user_id: OWNER });
+      if (userId === STRANGER) return Promise.resolve({ id: 2, user_id: STRANGER });
+      return Promise.resolve(undefined);
+    }),
+    getOrCreateByUserId: jest.fn(),
+    upsertProfile: jest.fn(),
+  } as unknown as DeveloperRepository;
+}
+
+function makeApiRepo(): ApiRepository {
+  return {
+    listByDeveloper: jest.fn().mockImplementation((developerId: number) =>
+      Promise.resolve(developerId === 1 ? [{ id: 7 }] : []),
+    ),
+  } as unknown as ApiRepository;
+}
+
+describe('/api/apis/:id/transforms', () => {
+  let service: TransformRuleService;
+  let responseCache: InMemoryResponseCache;
+  let appendAudit: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    service = new TransformRuleService(new InMemoryTransformRuleStore());
+    responseCache = new InMemoryResponseCache({ maxBytes: 1_000_000, maxEntryBytes: 100_000 });
+    appendAudit = jest.fn().mockResolvedValue(undefined);
+    app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use(
+      '/api/apis',
+      createTransformRulesRouter({
+        apiRepository: makeApiRepo(),
+        developerRepository: makeDeveloperRepo(),
+        transformRules: service,
+        responseCache,
+        appendAudit,
+      }),
+    );
+    app.use(errorHandler);
+  });
+
+  it('saves versions, purges the response cache and audits each change', async () => {
+    responseCache.set('entry', {
+      apiId: '7',
+      status: 200,
+      headers: [],
+      body: Buffer.from('cached'),
+      storedAt: 0,
+      expiresAt: Number.MAX_SAFE_INTEGER,
+    });
+
+    const created = await request(app)
+      .put('/api/apis/7/transforms')
+      .set('x-user-id', OWNER)
+      .send({ request: [{ type: 'set_header', name: 'X-Tenant', value: 'callora' }] });
+
+    expect(created.status).toBe(201);
+    expect(created.body.transformRules).toMatchObject({
+      version: 1,
+      request: [{ type: 'set_header', name: 'x-tenant', value: 'callora' }],
+      response: [],
+      createdBy: OWNER,
+    });
+    expect(responseCache.get('entry')).toBeUndefined();
+    expect(appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'API_TRANSFORM_RULES_SAVE', before: null }),
+    );
+
+    const updated = await request(app)
+      .put('/api/apis/7/transforms')
+      .set('x-user-id', OWNER)
+      .send({ baseVersion: 1, response: [{ type: 'remove_header', name: 'server' }] });
+    expect(updated.status).toBe(200);
+    expect(updated.body.transformRules.version).toBe(2);
+
+    const versions = await request(app).get('/api/apis/7/transforms/versions').set('x-user-id', OWNER);
+    expect(versions.body.versions.map((set: { version: number }) => set.version)).toEqual([2, 1]);
+  });
+
+  it('rejects a save based on an outdated version', async () => {
+    await service.save('7', { request: [], response: [] }, OWNER);
+
+    const res = await request(app)
+      .put('/api/apis/7/transforms')
+      .set('x-user-id', OWNER)
+      .send({ baseVersion: 0 });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('TRANSFORM_RULES_VERSION_CONFLICT');
+  });
+
+  it('rejects rules that touch gateway headers or malformed error codes', async () => {
+    const reserved = await request(app)
+      .put('/api/apis/7/transforms')
+      .set('x-user-id', OWNER)
+      .send({ request: [{ type: 'remove_header', name: 'X-Request-Id' }] });
+    expect(reserved.status).toBe(400);
+
+    const badCode = await request(app)
+      .put('/api/apis/7/transforms')
+      .set('x-user-id', OWNER)
+      .send({ response: [{ type: 'map_error', upstreamStatus: '5xx', code: 'oops', message: 'x' }] });
+    expect(badCode.status).toBe(400);
+  });
+
+  it('rolls back to an earlier version', async () => {
+    await service.save('7', { request: [{ type: 'set_query', name: 'v', value: '1' }], response: [] }, OWNER);
+    await service.save('7', { request: [], response: [] }, OWNER);
+
+    const res = await request(app)
+      .post('/api/apis/7/transforms/rollback')
+      .set('x-user-id', OWNER)
+      .send({ version: 1 });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ rolledBackTo: 1, transformRules: { version: 3 } });
+    expect(appendAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'API_TRANSFORM_RULES_ROLLBACK' }));
+  });
+
+  it('dry-runs a sample call against the current rules', async () => {
+    await service.save('7', {
+      request: [
+        { type: 'rewrite_path', from: '/v1', to: '/internal' },
+        { type: 'set_query', name: 'key', value: 'static' },
+      ],
+      response: [
+        { type: 'remove_header', name: 'x-internal-host' },
+        { type: 'map_error', upstreamStatus: '5xx', code: 'FORECAST_UNAVAILABLE', message: 'Try again later' },
+      ],
+    }, OWNER);
+
+    const res = await request(app)
+      .post('/api/apis/7/transforms/dry-run')
+      .set('x-user-id', OWNER)
+      .send({
+        request: { path: '/v1/forecast', headers: { Accept: 'application/json' } },
+        response: { status: 500, headers: { 'x-internal-host': 'db-1' }, body: 'stack trace' },
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.version).toBe(1);
+    expect(res.body.request).toEqual({
+      path: '/internal/forecast',
+      query: { key: 'static' },
+      headers: { accept: 'application/json' },
+    });
+    expect(res.body.response).toMatchObject({
+      status: 500,
+      headers: {},
+      body: { error: { code: 'FORECAST_UNAVAILABLE', message: 'Try again later' } },
+    });
+  });
+
+  it('dry-runs unsaved rules without changing the current ones', async () => {
+    const res = await request(app)
+      .post('/api/apis/7/transforms/dry-run')
+      .set('x-user-id', OWNER)
+      .send({
+        rules: { request: [{ type: 'rename_header', from: 'x-a', to: 'x-b' }] },
+        request: { path: '/x', headers: { 'x-a': '1' } },
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ version: null, request: { path: '/x', query: {}, headers: { 'x-b': '1' } } });
+    await expect(service.current('7')).resolves.toBeNull();
+  });
+
+  it('hides APIs owned by another developer', async () => {
+    const res = await request(app)
+      .put('/api/apis/7/transforms')
+      .set('x-user-id', STRANGER)
+      .send({});
+
+    expect(res.status).toBe(404);
+    await expect(service.current('7')).resolves.toBeNull();
+  });
+});
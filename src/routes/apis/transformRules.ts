@@ -0,0 +1,279 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../../errors/index.js';
+import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
+import { bodyValidator } from '../../middleware/validate.js';
+import type { AuditContext } from '../../middleware/auditEnrich.js';
+import {
+  defaultApiRepository,
+  type ApiRepository,
+} from '../../repositories/apiRepository.js';
+import {
+  defaultDeveloperRepository,
+  type DeveloperRepository,
+} from '../../repositories/developerRepository.js';
+import { appendAuditRow, type AuditRowInput } from '../../services/auditService.js';
+import {
+  defaultResponseCache,
+  type ResponseCacheStore,
+} from '../../services/responseCache.js';
+import {
+  defaultTransformRuleService,
+  errorMappingFor,
+  mappedErrorResponse,
+  transformRequest,
+  transformResponseHeaders,
+  type TransformRuleService,
+  type TransformRuleSet,
+} from '../../services/transformRules.js';
+import {
+  rollbackTransformRulesSchema,
+  saveTransformRulesSchema,
+  transformDryRunSchema,
+} from '../../validators/transformRules.js';
+import { logger } from '../../logger.js';
+
+export interface TransformRulesRouterDeps {
+  apiRepository?: ApiRepository;
+  developerRepository?: DeveloperRepository;
+  transformRules?: TransformRuleService;
+  /** Purged when the rules change, so no response shaped by the old rules is replayed. */
+  responseCache?: ResponseCacheStore;
+  /** Persists audit rows for state-changing calls. Defaults to the pg-backed writer. */
+  appendAudit?: (input: AuditRowInput) => Promise<unknown>;
+}
+
+/**
+ * Provider management of the request/response transform rules the gateway
+ * applies to the API's calls (see services/transformRules.ts):
+ *
+ *   GET  /api/apis/:id/transforms                     — the rules in effect
+ *   PUT  /api/apis/:id/transforms                     — save a new version
+ *   GET  /api/apis/:id/transforms/versions            — every version, newest first
+ *   GET  /api/apis/:id/transforms/versions/:version   — one version
+ *   POST /api/apis/:id/transforms/rollback            — re-save an earlier version
+ *   POST /api/apis/:id/transforms/dry-run             — show how a sample call is transformed
+ */
+export function createTransformRulesRouter(deps: TransformRulesRouterDeps = {}): Router {
+  const router = Router();
+  const apiRepository = deps.apiRepository ?? defaultApiRepository;
+  const developerRepository = deps.developerRepository ?? defaultDeveloperRepository;
+  const transformRules = deps.transformRules ?? defaultTransformRuleService;
+  const responseCache = deps.responseCache ?? defaultResponseCache;
+  const appendAudit = deps.appendAudit ?? appendAuditRow;
+
+  // Best-effort: a failed audit write is logged but never fails the request.
+  async function recordAudit(
+    req: Request,
+    action: string,
+    actor: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): Promise<void> {
+    const ctx = (req as Request & { auditContext?: AuditContext }).auditContext;
+    try {
+      await appendAudit({
+        actor,
+        action,
+        before,
+        after,
+        tenantId: ctx?.tenantId ?? null,
+        correlationId: ctx?.correlationId ?? null,
+        clientIp: ctx?.clientIp ?? null,
+        userAgent: ctx?.userAgent ?? null,
+        bodyHash: ctx?.bodyHash ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        { action, actor, correlationId: ctx?.correlationId, err: error },
+        'Failed to persist audit log for transform rule change',
+      );
+    }
+  }
+
+  /**
+   * Resolve the caller and confirm they own the API in `req.params.id`.
+   * Responds with the appropriate error and returns null otherwise.
+   */
+  async function resolveOwnedApi(
+    req: Request,
+    res: Response<unknown, AuthenticatedLocals>,
+    next: NextFunction,
+  ): Promise<{ userId: string; apiId: string } | null> {
+    const user = res.locals.authenticatedUser;
+    if (!user) {
+      next(new UnauthorizedError());
+      return null;
+    }
+
+    const apiId = Number(req.params.id);
+    if (!Number.isInteger(apiId) || apiId <= 0) {
+      next(new BadRequestError('id must be a positive integer'));
+      return null;
+    }
+
+    const developer = await developerRepository.findByUserId(user.id);
+    if (!developer) {
+      next(
+        new BadRequestError(
+          'Developer profile not found. Create a developer profile first.',
+          'DEVELOPER_NOT_FOUND',
+        ),
+      );
+      return null;
+    }
+
+    const developerApis = await apiRepository.listByDeveloper(developer.id);
+    if (!developerApis.some((a) => a.id === apiId)) {
+      next(new NotFoundError('API not found'));
+      return null;
+    }
+
+    return { userId: user.id, apiId: String(apiId) };
+  }
+
+  // Changed rules apply to the very next call: cached responses shaped by the
+  // previous rules are dropped.
+  async function activated(
+    req: Request,
+    action: string,
+    actor: string,
+    before: TransformRuleSet | null,
+    after: TransformRuleSet,
+  ): Promise<void> {
+    await responseCache.purgeApi(after.apiId);
+    await recordAudit(req, action, actor, before ? { ...before } : null, { ...after });
+  }
+
+  router.get(
+    '/:id/transforms',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        res.json({ transformRules: await transformRules.current(owned.apiId) });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.put(
+    '/:id/transforms',
+    requireAuth,
+    bodyValidator(saveTransformRulesSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const { baseVersion, ...rules } = saveTransformRulesSchema.parse(req.body);
+        const before = await transformRules.current(owned.apiId);
+        const saved = await transformRules.save(owned.apiId, rules, owned.userId, { baseVersion });
+        await activated(req, 'API_TRANSFORM_RULES_SAVE', owned.userId, before, saved);
+
+        res.status(saved.version === 1 ? 201 : 200).json({ transformRules: saved });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    '/:id/transforms/versions',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        res.json({ versions: await transformRules.listVersions(owned.apiId) });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    '/:id/transforms/versions/:version',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const version = Number(req.params.version);
+        if (!Number.isInteger(version) || version <= 0) {
+          next(new BadRequestError('version must be a positive integer'));
+          return;
+        }
+
+        res.json({ transformRules: await transformRules.getVersion(owned.apiId, version) });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    '/:id/transforms/rollback',
+    requireAuth,
+    bodyValidator(rollbackTransformRulesSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const { version } = rollbackTransformRulesSchema.parse(req.body);
+        const before = await transformRules.current(owned.apiId);
+        const saved = await transformRules.rollback(owned.apiId, version, owned.userId);
+        await activated(req, 'API_TRANSFORM_RULES_ROLLBACK', owned.userId, before, saved);
+
+        res.json({ transformRules: saved, rolledBackTo: version });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    '/:id/transforms/dry-run',
+    requireAuth,
+    bodyValidator(transformDryRunSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const input = transformDryRunSchema.parse(req.body);
+        const current = input.rules ? null : await transformRules.current(owned.apiId);
+        const rules = input.rules ?? current ?? { request: [], response: [] };
+
+        const request = transformRequest(rules.request, input.request);
+        let response: { status: number; headers: Record<string, string>; body: unknown } | undefined;
+        if (input.response) {
+          const headers = transformResponseHeaders(rules.response, input.response.headers);
+          const mapping = input.response.status >= 400
+            ? errorMappingFor(rules.response, input.response.status)
+            : null;
+          const mapped = mapping ? mappedErrorResponse(mapping, input.response.status, req.id) : null;
+          response = mapped
+            ? { status: mapped.status, headers, body: mapped.body }
+            : { status: input.response.status, headers, body: input.response.body ?? null };
+        }
+
+        res.json({
+          version: input.rules ? null : current?.version ?? null,
+          request,
+          ...(response ? { response } : {}),
+        });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
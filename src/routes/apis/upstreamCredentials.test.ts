@@ -0,0 +1,142 @@
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { requestIdMiddleware } from '../../middleware/requestId.js';
+import type { ApiRepository } from '../../repositories/apiRepository.js';
+import type { DeveloperRepository } from '../../repositories/developerRepository.js';
+import {
+  InMemoryUpstreamCredentialStore,
+  UpstreamCredentialService,
+} from '../../services/upstreamCredentials.js';
+import { createUpstreamCredentialsRouter } from './upstreamCredentials.js';
+
+const OWNER = 'user-owner';
+const STRANGER = 'user-stranger';
+
+function makeDeveloperRepo(): DeveloperRepository {
+  return {
+    findByUserId: jest.fn().mockImplementation((userId: string) => {
+      if (userId === OWNER) return Promise.resolve({ id: 1, user_id: OWNER });
+      if (userId === STRANGER) return Promise.resolve({ id: 2, user_id: STRANGER });
+      return Promise.resolve(undefined);
+    }),
+    getOrCreateByUserId: jest.fn(),
+    upsertProfile: jest.fn(),
+  } as unknown as DeveloperRepository;
+}
+
+function makeApiRepo(): ApiRepository {
+  return {
+    listByDeveloper: jest.fn().mockImplementation((developerId: number) =>
+      Promise.resolve(developerId === 1 ? [{ id: 7 }] : []),
+    ),
+  } as unknown as ApiRepository;
+}
+
+describe('/api/apis/:id/upstream-credentials', () => {
+  let service: UpstreamCredentialService;
+  let appendAudit: jest.Mock;
+  let app: express.Express;
+
+  beforeEach(() => {
+    service = new UpstreamCredentialService(new InMemoryUpstreamCredentialStore(), {
+      encryptionKey: 'test-key',
+    });
+    appendAudit = jest.fn().mockResolvedValue(undefined);
+    app = express();
+    app.use(express.json());
+    app.use(requestIdMiddleware);
+    app.use(
+      '/api/apis',
+      createUpstreamCredentialsRouter({
+        apiRepository: makeApiRepo(),
+        developerRepository: makeDeveloperRepo(),
+        upstreamCredentials: service,
+        appendAudit,
+      }),
+    );
+    app.use(errorHandler);
+  });
+
+  it('creates a credential and never echoes the secret', async () => {
+    const res = await request(app)
+      .put('/api/apis/7/upstream-credentials')
+      .set('x-user-id', OWNER)
+      .send({ type: 'bearer', token: 'super-secret-token' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.credential).toMatchObject({ apiId: '7', type: 'bearer', version: 1 });
+    expect(JSON.stringify(res.body)).not.toContain('super-secret-token');
+    await expect(service.resolve('7')).resolves.toEqual({ type: 'bearer', token: 'super-secret-token' });
+
+    expect(appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'API_UPSTREAM_CREDENTIAL_CREATE', actor: OWNER, before: null }),
+    );
+    expect(JSON.stringify(appendAudit.mock.calls)).not.toContain('super-secret-token');
+  });
+
+  it('returns metadata only on GET', async () => {
+    await service.set('7', { type: 'header', headerName: 'X-Key', value: 'hidden' }, OWNER);
+
+    const res = await request(app).get('/api/apis/7/upstream-credentials').set('x-user-id', OWNER);
+
+    expect(res.status).toBe(200);
+    expect(res.body.credential).toMatchObject({ type: 'header', name: 'x-key', version: 1 });
+    expect(JSON.stringify(res.body)).not.toContain('hidden');
+  });
+
+  it('rotates the secret and bumps the version', async () => {
+    await service.set('7', { type: 'hmac', secret: 'old-secret' }, OWNER);
+
+    const res = await request(app)
+      .post('/api/apis/7/upstream-credentials/rotate')
+      .set('x-user-id', OWNER)
+      .send({ secret: 'new-secret' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.credential.version).toBe(2);
+    expect(res.body.credential.rotatedAt).toEqual(expect.any(String));
+    await expect(service.resolve('7')).resolves.toEqual({ type: 'hmac', secret: 'new-secret' });
+    expect(appendAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'API_UPSTREAM_CREDENTIAL_ROTATE' }),
+    );
+  });
+
+  it('deletes a credential', async () => {
+    await service.set('7', { type: 'bearer', token: 'tok' }, OWNER);
+
+    const res = await request(app).delete('/api/apis/7/upstream-credentials').set('x-user-id', OWNER);
+
+    expect(res.status).toBe(204);
+    await expect(service.resolve('7')).resolves.toBeNull();
+  });
+
+  it('returns 404 when no credential is configured', async () => {
+    const res = await request(app).get('/api/apis/7/upstream-credentials').set('x-user-id', OWNER);
+    expect(res.status).toBe(404);
+  });
+
+  it('hides APIs owned by another developer', async () => {
+    const res = await request(app)
+      .put('/api/apis/7/upstream-credentials')
+      .set('x-user-id', STRANGER)
+      .send({ type: 'bearer', token: 'tok' });
+
+    expect(res.status).toBe(404);
+    await expect(service.resolve('7')).resolves.toBeNull();
+  });
+
+  it('rejects gateway-reserved header names', async () => {
+    const res = await request(app)
+      .put('/api/apis/7/upstream-credentials')
+      .set('x-user-id', OWNER)
+      .send({ type: 'header', headerName: 'Host', value: 'evil.example.com' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('requires authentication', async () => {
+    const res = await request(app).get('/api/apis/7/upstream-credentials');
+    expect(res.status).toBe(401);
+  });
+});
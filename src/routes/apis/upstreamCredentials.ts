@@ -0,0 +1,226 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../../errors/index.js';
+import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
+import { bodyValidator } from '../../middleware/validate.js';
+import type { AuditContext } from '../../middleware/auditEnrich.js';
+import {
+  defaultApiRepository,
+  type ApiRepository,
+} from '../../repositories/apiRepository.js';
+import {
+  defaultDeveloperRepository,
+  type DeveloperRepository,
+} from '../../repositories/developerRepository.js';
+import { appendAuditRow, type AuditRowInput } from '../../services/auditService.js';
+import {
+  defaultUpstreamCredentialService,
+  type UpstreamCredentialService,
+} from '../../services/upstreamCredentials.js';
+import {
+  rotateUpstreamCredentialSchema,
+  upstreamCredentialSchema,
+} from '../../validators/upstreamCredentials.js';
+import { logger } from '../../logger.js';
+
+export interface UpstreamCredentialsRouterDeps {
+  apiRepository?: ApiRepository;
+  developerRepository?: DeveloperRepository;
+  upstreamCredentials?: UpstreamCredentialService;
+  /** Persists audit rows for state-changing calls. Defaults to the pg-backed writer. */
+  appendAudit?: (input: AuditRowInput) => Promise<unknown>;
+}
+
+/**
+ * Provider management of the credential the gateway injects into every
+ * proxied call to the API's upstream:
+ *
+ *   PUT    /api/apis/:id/upstream-credentials         — create or replace
+ *   GET    /api/apis/:id/upstream-credentials         — metadata only, never the secret
+ *   POST   /api/apis/:id/upstream-credentials/rotate  — swap the secret, keep type/name
+ *   DELETE /api/apis/:id/upstream-credentials         — stop injecting
+ *
+ * Credentials are keyed by the API id, which the gateway registry uses as
+ * `ApiRegistryEntry.id`.
+ */
+export function createUpstreamCredentialsRouter(
+  deps: UpstreamCredentialsRouterDeps = {},
+): Router {
+  const router = Router();
+  const apiRepository = deps.apiRepository ?? defaultApiRepository;
+  const developerRepository = deps.developerRepository ?? defaultDeveloperRepository;
+  const credentials = deps.upstreamCredentials ?? defaultUpstreamCredentialService;
+  const appendAudit = deps.appendAudit ?? appendAuditRow;
+
+  // Best-effort: a failed audit write is logged but never fails the request.
+  async function recordAudit(
+    req: Request,
+    action: string,
+    actor: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+  ): Promise<void> {
+    const ctx = (req as Request & { auditContext?: AuditContext }).auditContext;
+    try {
+      await appendAudit({
+        actor,
+        action,
+        before,
+        after,
+        tenantId: ctx?.tenantId ?? null,
+        correlationId: ctx?.correlationId ?? null,
+        clientIp: ctx?.clientIp ?? null,
+        userAgent: ctx?.userAgent ?? null,
+        bodyHash: ctx?.bodyHash ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        { action, actor, correlationId: ctx?.correlationId, err: error },
+        'Failed to persist audit log for upstream credential change',
+      );
+    }
+  }
+
+  /**
+   * Resolve the caller and confirm they own the API in `req.params.id`.
+   * Responds with the appropriate error and returns null otherwise.
+   */
+  async function resolveOwnedApi(
+    req: Request,
+    res: Response<unknown, AuthenticatedLocals>,
+    next: NextFunction,
+  ): Promise<{ userId: string; apiId: string } | null> {
+    const user = res.locals.authenticatedUser;
+    if (!user) {
+      next(new UnauthorizedError());
+      return null;
+    }
+
+    const apiId = Number(req.params.id);
+    if (!Number.isInteger(apiId) || apiId <= 0) {
+      next(new BadRequestError('id must be a positive integer'));
+      return null;
+    }
+
+    const developer = await developerRepository.findByUserId(user.id);
+    if (!developer) {
+      next(
+        new BadRequestError(
+          'Developer profile not found. Create a developer profile first.',
+          'DEVELOPER_NOT_FOUND',
+        ),
+      );
+      return null;
+    }
+
+    const developerApis = await apiRepository.listByDeveloper(developer.id);
+    if (!developerApis.some((a) => a.id === apiId)) {
+      next(new NotFoundError('API not found'));
+      return null;
+    }
+
+    return { userId: user.id, apiId: String(apiId) };
+  }
+
+  router.put(
+    '/:id/upstream-credentials',
+    requireAuth,
+    bodyValidator(upstreamCredentialSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const before = await credentials.getSummary(owned.apiId);
+        const payload = upstreamCredentialSchema.parse(req.body);
+        const { summary, created } = await credentials.set(owned.apiId, payload, owned.userId);
+
+        await recordAudit(
+          req,
+          created ? 'API_UPSTREAM_CREDENTIAL_CREATE' : 'API_UPSTREAM_CREDENTIAL_REPLACE',
+          owned.userId,
+          before ? { ...before } : null,
+          { ...summary },
+        );
+
+        res.status(created ? 201 : 200).json({ credential: summary });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.get(
+    '/:id/upstream-credentials',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const summary = await credentials.getSummary(owned.apiId);
+        if (!summary) {
+          next(new NotFoundError('No upstream credential configured for this API'));
+          return;
+        }
+
+        res.json({ credential: summary });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.post(
+    '/:id/upstream-credentials/rotate',
+    requireAuth,
+    bodyValidator(rotateUpstreamCredentialSchema),
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const before = await credentials.getSummary(owned.apiId);
+        const { secret } = rotateUpstreamCredentialSchema.parse(req.body);
+        const summary = await credentials.rotate(owned.apiId, secret, owned.userId);
+
+        await recordAudit(
+          req,
+          'API_UPSTREAM_CREDENTIAL_ROTATE',
+          owned.userId,
+          before ? { ...before } : null,
+          { ...summary },
+        );
+
+        res.json({ credential: summary });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  router.delete(
+    '/:id/upstream-credentials',
+    requireAuth,
+    async (req, res: Response<unknown, AuthenticatedLocals>, next) => {
+      try {
+        const owned = await resolveOwnedApi(req, res, next);
+        if (!owned) return;
+
+        const before = await credentials.getSummary(owned.apiId);
+        if (!before || !(await credentials.remove(owned.apiId))) {
+          next(new NotFoundError('No upstream credential configured for this API'));
+          return;
+        }
+
+        await recordAudit(req, 'API_UPSTREAM_CREDENTIAL_DELETE', owned.userId, { ...before }, null);
+
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  return router;
+}
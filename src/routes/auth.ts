@@ -28,6 +28,13 @@
  *
  * Route surface (mounted by the caller at /api/auth):
  *
+ *   GET  /api/auth/wallet/challenge — SEP-10 challenge for a wallet to co-sign
+ *   POST /api/auth/wallet       — sign in with the co-signed challenge
+ *                                 Both share a per-IP login throttle
+ *   GET  /api/auth/sso/providers — identity providers configured for SSO
+ *   GET  /api/auth/sso/:provider/authorize — start an OIDC login (PKCE)
+ *   POST /api/auth/sso/:provider/callback  — finish it with { code, state }
+ *                                 Both share the login throttle
  *   POST /api/auth/refresh      — exchange refresh token → new access token
  *                                 Uses: findRefreshTokenById (hot path, indexed)
  *   POST /api/auth/revoke       — revoke a single refresh token
@@ -52,7 +59,14 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController.js';
 import { requireAuth } from '../middleware/requireAuth.js';
-import { bodyValidator } from '../middleware/validate.js';
+import { bodyValidator, validate } from '../middleware/validate.js';
+import { createLoginThrottle } from '../middleware/loginThrottle.js';
+import { config } from '../config/index.js';
+import {
+  ssoCallbackSchema,
+  walletChallengeQuerySchema,
+  walletLoginSchema,
+} from '../validators/auth.js';
 import { z } from 'zod';
 
 /**
@@ -92,6 +106,69 @@ export interface CreateAuthRouterOptions {
 export function createAuthRouter({ authController }: CreateAuthRouterOptions): Router {
   const router = Router();
 
+  const loginThrottle = createLoginThrottle({
+    windowMs: config.loginRateLimit.windowMs,
+    maxRequests: config.loginRateLimit.maxRequests,
+    trustProxy: process.env.TRUST_PROXY_HEADERS === 'true',
+  });
+
+  // ─── GET /api/auth/wallet/challenge ───────────────────────────────────────
+  // Build a server-signed SEP-10 challenge transaction for the account. Its
+  // nonce is recorded so the challenge can sign in only once.
+  //
+  // Query    { account: G… }
+  // Response { transaction: string, networkPassphrase: string, expiresAt: string }
+  router.get(
+    '/wallet/challenge',
+    loginThrottle,
+    validate({ query: walletChallengeQuerySchema }),
+    (req, res, next) => authController.walletChallenge(req, res, next),
+  );
+
+  // ─── POST /api/auth/wallet ────────────────────────────────────────────────
+  // Verify the co-signed challenge against the account's signers and
+  // medium threshold on Horizon, find or create the wallet's user and start
+  // a session.
+  //
+  // Request  { transaction: string }
+  // Response { accessToken: string, refreshToken: string, tokenType: "Bearer" }
+  router.post(
+    '/wallet',
+    loginThrottle,
+    bodyValidator(walletLoginSchema),
+    (req, res, next) => authController.walletLogin(req, res, next),
+  );
+
+  // ─── GET /api/auth/sso/providers ──────────────────────────────────────────
+  // List the identity providers a developer can sign in with.
+  //
+  // Response { providers: [{ id: string, name: string }] }
+  router.get('/sso/providers', (req, res) => authController.ssoProviders(req, res));
+
+  // ─── GET /api/auth/sso/:provider/authorize ────────────────────────────────
+  // Record a pending login (state, nonce, PKCE verifier) and return the
+  // provider's authorization URL for the browser to visit.
+  //
+  // Response { authorizationUrl: string, state: string, expiresAt: string }
+  router.get(
+    '/sso/:provider/authorize',
+    loginThrottle,
+    (req, res, next) => authController.ssoAuthorize(req, res, next),
+  );
+
+  // ─── POST /api/auth/sso/:provider/callback ────────────────────────────────
+  // Exchange the authorization code, verify the ID token, link the identity
+  // to a user (by verified email for new identities) and start a session.
+  //
+  // Request  { code: string, state: string }
+  // Response { accessToken: string, refreshToken: string, tokenType: "Bearer" }
+  router.post(
+    '/sso/:provider/callback',
+    loginThrottle,
+    bodyValidator(ssoCallbackSchema),
+    (req, res, next) => authController.ssoCallback(req, res, next),
+  );
+
   // ─── POST /api/auth/refresh ───────────────────────────────────────────────
   // Exchange a valid refresh token for a new short-lived access token.
   //
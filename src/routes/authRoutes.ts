@@ -1,13 +1,17 @@
 import { Router, type RequestHandler } from 'express';
 import { AuthController } from '../controllers/authController.js';
 import { requireAuth } from '../middleware/requireAuth.js';
-import { bodyValidator } from '../middleware/validate.js';
+import { bodyValidator, validate } from '../middleware/validate.js';
 import { createLoginThrottle } from '../middleware/loginThrottle.js';
 import { createTimeoutMiddleware } from '../middleware/timeout.js';
 import { refreshTokenHistogramMiddleware } from '../middleware/metricsHistogram.js';
 import { idempotencyMiddleware } from '../middleware/idempotency.js';
 import { config } from '../config/index.js';
-import { walletLoginSchema, refreshTokenSchema } from '../validators/auth.js';
+import {
+  walletChallengeQuerySchema,
+  walletLoginSchema,
+  refreshTokenSchema,
+} from '../validators/auth.js';
 
 const authTimeout = createTimeoutMiddleware({ timeoutMs: config.authTimeoutMs });
 const authIdempotency: RequestHandler = (req, res, next) =>
@@ -33,7 +37,15 @@ export function createAuthRoutes(authController: AuthController): Router {
   // cancellation downstream.
   router.use(authTimeout);
 
-  // POST /auth/wallet - Wallet-based login with IP throttling
+  // GET /auth/wallet/challenge - SEP-10 challenge for the wallet to co-sign
+  // Shares the login throttle so challenges cannot be farmed
+  router.get('/wallet/challenge',
+    loginThrottle,
+    validate({ query: walletChallengeQuerySchema }),
+    (req, res, next) => authController.walletChallenge(req, res, next)
+  );
+
+  // POST /auth/wallet - Wallet-based login with the co-signed challenge
   // Rate limited to prevent brute force attacks
   router.post('/wallet',
     loginThrottle,
@@ -7,13 +7,14 @@
  *   Developer (requireAuth):  POST /  — open a dispute
  *                             GET /   — list own disputes
  *                             GET /:id — get own dispute + audit trail
- *   Admin    (adminAuth):     POST /:id/resolve — resolve a dispute
- *                             GET /admin/all    — list all disputes
+ *   Admin    (adminAuth):     POST /:id/resolve — resolve a dispute (disputes:resolve)
+ *                             GET /admin/all    — list all disputes (disputes:read)
  */
 
 import { Router, type Response } from 'express';
 import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
 import { adminAuth } from '../../middleware/adminAuth.js';
+import { requireAdminPermission } from '../../middleware/adminPermission.js';
 import { bodyValidator } from '../../middleware/validate.js';
 import { logger } from '../../logger.js';
 import { UnauthorizedError } from '../../errors/index.js';
@@ -72,7 +73,7 @@ export function createDisputesRouter(deps: DisputesRouterDeps = {}): Router {
 
   // ── GET /admin/all  — admin lists all disputes ───────────────────────────
   // Registered before /:id so 'admin' is not treated as a dispute id
-  router.get('/admin/all', adminAuth, (_req, res, next) => {
+  router.get('/admin/all', adminAuth, requireAdminPermission('disputes:read'), (_req, res, next) => {
     try {
       const disputes = svc.listAll();
       res.json({ disputes, total: disputes.length });
@@ -101,6 +102,7 @@ export function createDisputesRouter(deps: DisputesRouterDeps = {}): Router {
   router.post(
     '/:id/resolve',
     adminAuth,
+    requireAdminPermission('disputes:resolve'),
     bodyValidator(resolveDisputeSchema),
     (req, res, next) => {
       try {
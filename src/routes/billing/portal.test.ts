@@ -4,6 +4,8 @@ import { errorHandler } from '../../middleware/errorHandler.js';
 import { requestIdMiddleware } from '../../middleware/requestId.js';
 import { createBillingPortalRouter, type PrismaClient, type PrismaInvoice } from './portal.js';
 import { generateInvoicePdf } from '../../services/invoicePdf.js';
+import { BalanceHoldService, InMemoryBalanceHoldStore } from '../../services/balanceHolds.js';
+import type { CreditsRepository } from '../../repositories/creditsRepository.js';
 
 function createMockPrisma(): PrismaClient & { __mockData: PrismaInvoice[] } {
   const store: PrismaInvoice[] = [];
@@ -647,6 +649,49 @@ describe('Billing Portal Routes', () => {
     });
   });
 
+  describe('GET /api/billing/portal/balance', () => {
+    const creditsRepository = {
+      getOrCreateByUserId: jest.fn(async (userId: string) => ({
+        id: 1,
+        user_id: userId,
+        balance_usdc: '10.00',
+        created_at: new Date('2026-01-01'),
+        updated_at: new Date('2026-01-01'),
+      })),
+    } as unknown as CreditsRepository;
+
+    function buildBalanceApp(balanceHolds: BalanceHoldService) {
+      const app = express();
+      app.use(requestIdMiddleware);
+      app.use('/api/billing/portal', createBillingPortalRouter(prisma, { creditsRepository, balanceHolds }));
+      app.use(errorHandler);
+      return app;
+    }
+
+    it('returns 401 without auth', async () => {
+      const app = buildBalanceApp(new BalanceHoldService(new InMemoryBalanceHoldStore()));
+      const res = await request(app).get('/api/billing/portal/balance');
+      expect(res.status).toBe(401);
+    });
+
+    it('reports held and available amounts', async () => {
+      const balanceHolds = new BalanceHoldService(new InMemoryBalanceHoldStore());
+      await balanceHolds.authorize({ developerId: 'user-a', amountUsdc: 0.75, balanceUsdc: 10 });
+      await balanceHolds.authorize({ developerId: 'user-b', amountUsdc: 5, balanceUsdc: 10 });
+
+      const app = buildBalanceApp(balanceHolds);
+      const res = await request(app)
+        .get('/api/billing/portal/balance')
+        .set('x-user-id', 'user-a');
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({
+        balanceUsdc: '10.00',
+        heldUsdc: '0.75',
+        availableUsdc: '9.25',
+      });
+    });
+  });
+
   describe('GET /api/billing/portal/invoices/:id', () => {
     it('returns 401 without auth', async () => {
       const app = buildApp(prisma);
@@ -8,6 +8,15 @@ import { NotFoundError, BadRequestError } from '../../errors/index.js';
 import { generateInvoicePdf, type InvoicePdfData, type InvoicePdfLineItem } from '../../services/invoicePdf.js';
 import { logger } from '../../logger.js';
 import defaultPrisma from '../../lib/prisma.js';
+import {
+  defaultCreditsRepository,
+  type CreditsRepository,
+} from '../../repositories/creditsRepository.js';
+import {
+  defaultBalanceHoldService,
+  formatUsdc,
+  type BalanceHoldService,
+} from '../../services/balanceHolds.js';
 
 export interface PrismaInvoiceLineItem {
   id: string;
@@ -57,6 +66,12 @@ export type PrismaClient = {
   };
 };
 
+export interface BillingPortalRouterOptions {
+  creditsRepository?: CreditsRepository;
+  /** Holds placed by the /v1/call proxy — defaults to the shared in-memory service. */
+  balanceHolds?: BalanceHoldService;
+}
+
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
 
@@ -92,8 +107,13 @@ function invoiceToResponse(invoice: PrismaInvoice) {
   };
 }
 
-export function createBillingPortalRouter(prisma: PrismaClient = defaultPrisma as unknown as PrismaClient): Router {
+export function createBillingPortalRouter(
+  prisma: PrismaClient = defaultPrisma as unknown as PrismaClient,
+  options: BillingPortalRouterOptions = {},
+): Router {
   const router = Router();
+  const creditsRepo = options.creditsRepository ?? defaultCreditsRepository;
+  const balanceHolds = options.balanceHolds ?? defaultBalanceHoldService;
 
   async function getPrismaInvoice(id: string, userId: string) {
     const invoice = await prisma.invoice.findFirst({
@@ -184,6 +204,44 @@ export function createBillingPortalRouter(prisma: PrismaClient = defaultPrisma a
     },
   );
 
+  /**
+   * GET /api/billing/portal/balance
+   *
+   * Returns the authenticated developer's prepaid balance split into:
+   *   - heldUsdc: reserved for in-flight /v1/call calls until they are charged
+   *   - availableUsdc: balanceUsdc less heldUsdc, what new calls can spend
+   */
+  router.get(
+    '/balance',
+    requireAuth,
+    async (
+      req: Request,
+      res: Response<unknown, AuthenticatedLocals>,
+      next: NextFunction,
+    ) => {
+      try {
+        const user = res.locals.authenticatedUser;
+        if (!user) {
+          res.status(401).json({ error: 'Unauthorized' });
+          return;
+        }
+
+        const credits = await creditsRepo.getOrCreateByUserId(user.id);
+        const summary = await balanceHolds.summarize(user.id, Number(credits.balance_usdc));
+
+        res.json({
+          data: {
+            balanceUsdc: credits.balance_usdc,
+            heldUsdc: formatUsdc(summary.heldUsdc),
+            availableUsdc: formatUsdc(summary.availableUsdc),
+          },
+        });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
   /**
    * GET /api/billing/portal/invoices/:id
    *
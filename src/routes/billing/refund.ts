@@ -6,7 +6,7 @@
  * reads from).
  *
  * RBAC:
- *   Admin (adminAuth): POST / — issue a refund
+ *   Admin (adminAuth): POST / — issue a refund (refunds:issue)
  *
  * Idempotency:
  *   Refunds move money and this route has no ledger table of its own to
@@ -16,11 +16,18 @@
  *   caches the first response per key and replays it (with an
  *   `Idempotent-Replayed: true` header) for retries, instead of crediting
  *   the balance twice. See docs/billing-refund-idempotency.md.
+ *
+ * Approval:
+ *   Refunds covered by a `refunds.issue` approval policy are not issued
+ *   straight away: the route answers 202 with a pending change request that
+ *   another admin approves at /api/admin/approvals. See
+ *   docs/admin-approvals.md.
  */
 
 import { Router, type NextFunction, type Request, type Response } from 'express';
 import { z } from 'zod';
 import { adminAuth } from '../../middleware/adminAuth.js';
+import { requireAdminPermission } from '../../middleware/adminPermission.js';
 import { bodyValidator } from '../../middleware/validate.js';
 import { idempotencyMiddleware } from '../../middleware/idempotency.js';
 import { logger } from '../../logger.js';
@@ -29,9 +36,17 @@ import {
   defaultCreditsRepository,
   type CreditsRepository,
 } from '../../repositories/creditsRepository.js';
+import {
+  getAdminApprovalService,
+  registerAdminApprovalExecutor,
+  type AdminApprovalService,
+} from '../../services/adminApprovals.js';
+import { adminApprovalActor, sendPendingApproval } from '../admin/approvals.js';
 
 export interface RefundRouterDeps {
   creditsRepository?: CreditsRepository;
+  /** Defaults to the shared service from `getAdminApprovalService()`. */
+  approvalService?: AdminApprovalService;
 }
 
 export const refundRequestSchema = z.object({
@@ -70,10 +85,36 @@ function requireIdempotencyKeyHeader(req: Request, _res: Response, next: NextFun
 export function createRefundRouter(deps: RefundRouterDeps = {}): Router {
   const router = Router();
   const creditsRepo = deps.creditsRepository ?? defaultCreditsRepository;
+  const approvals = (): AdminApprovalService => deps.approvalService ?? getAdminApprovalService();
+
+  /** Credits the refund and records the audit event against `actor`. */
+  async function issueRefund(input: RefundRequestInput, actor: string, auditDetails: Record<string, unknown> = {}) {
+    const credit = await creditsRepo.grant(input.developerId, input.amountUsdc);
+
+    logger.audit('REFUND_ISSUED', actor, {
+      developerId: input.developerId,
+      amountUsdc: input.amountUsdc,
+      reason: input.reason,
+      requestId: input.requestId,
+      balanceUsdc: credit.balance_usdc,
+      ...auditDetails,
+    });
+
+    return {
+      success: true,
+      developerId: input.developerId,
+      amountUsdc: input.amountUsdc,
+      balanceUsdc: credit.balance_usdc,
+    };
+  }
+
+  registerAdminApprovalExecutor('refunds.issue', (params, { actor, approvalId, requestedBy, approvedBy }) =>
+    issueRefund(refundRequestSchema.parse(params), actor, { approvalId, requestedBy, approvedBy }));
 
   router.post(
     '/',
     adminAuth,
+    requireAdminPermission('refunds:issue'),
     bodyValidator(refundRequestSchema),
     requireIdempotencyKeyHeader,
     idempotencyHandler,
@@ -86,22 +127,14 @@ export function createRefundRouter(deps: RefundRouterDeps = {}): Router {
         }
 
         const input = refundRequestSchema.parse(req.body) as RefundRequestInput;
-        const credit = await creditsRepo.grant(input.developerId, input.amountUsdc);
-
-        logger.audit('REFUND_ISSUED', adminActor, {
-          developerId: input.developerId,
-          amountUsdc: input.amountUsdc,
-          reason: input.reason,
-          requestId: input.requestId,
-          balanceUsdc: credit.balance_usdc,
-        });
-
-        res.status(200).json({
-          success: true,
-          developerId: input.developerId,
-          amountUsdc: input.amountUsdc,
-          balanceUsdc: credit.balance_usdc,
-        });
+
+        if (approvals().requiresApproval('refunds.issue', { amountUsdc: input.amountUsdc })) {
+          const approval = await approvals().submit('refunds.issue', input, adminApprovalActor(res));
+          sendPendingApproval(res, approval);
+          return;
+        }
+
+        res.status(200).json(await issueRefund(input, adminActor));
       } catch (error) {
         next(error);
       }
@@ -29,6 +29,7 @@ import { errorHandler } from '../middleware/errorHandler.js';
 import { requestIdMiddleware } from '../middleware/requestId.js';
 import type { Credit } from '../db/schema.js';
 import type { CreditsRepository } from '../repositories/creditsRepository.js';
+import { BalanceHoldService, InMemoryBalanceHoldStore } from '../services/balanceHolds.js';
 
 function buildMockRepo(overrides: Partial<CreditsRepository> = {}): CreditsRepository {
   return {
@@ -43,6 +44,7 @@ function buildMockRepo(overrides: Partial<CreditsRepository> = {}): CreditsRepos
 describe('GET /api/credits', () => {
   let app: Application;
   let creditsRepository: CreditsRepository;
+  let balanceHolds: BalanceHoldService;
   const JWT_SECRET = 'test-secret-key-for-credits-index';
   const TEST_USER_ID = 'user_credits_hot_path';
 
@@ -56,10 +58,11 @@ describe('GET /api/credits', () => {
 
   beforeEach(() => {
     creditsRepository = buildMockRepo();
+    balanceHolds = new BalanceHoldService(new InMemoryBalanceHoldStore());
     app = express();
     app.use(requestIdMiddleware);
     app.use(express.json());
-    app.use('/api/credits', createCreditsRouter({ creditsRepository }));
+    app.use('/api/credits', createCreditsRouter({ creditsRepository, balanceHolds }));
     app.use(errorHandler);
   });
 
@@ -124,6 +127,8 @@ describe('GET /api/credits', () => {
       expect(res.body).toEqual({
         user_id: TEST_USER_ID,
         balance_usdc: '42.50',
+        held_usdc: '0.00',
+        available_usdc: '42.50',
         created_at: '2024-01-15T10:30:00.000Z',
         updated_at: '2024-01-20T14:22:00.000Z',
       });
@@ -144,6 +149,26 @@ describe('GET /api/credits', () => {
       expect(res.status).toBe(200);
       expect(res.body.balance_usdc).toBe('0.00');
     });
+
+    it('splits the balance into held and available amounts', async () => {
+      (creditsRepository.getOrCreateByUserId as jest.Mock).mockResolvedValue(mockCredit());
+      await balanceHolds.authorize({
+        developerId: TEST_USER_ID,
+        amountUsdc: 2.25,
+        balanceUsdc: 42.5,
+      });
+
+      const res = await request(app)
+        .get('/api/credits')
+        .set('Authorization', `Bearer ${generateToken(TEST_USER_ID)}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        balance_usdc: '42.50',
+        held_usdc: '2.25',
+        available_usdc: '40.25',
+      });
+    });
   });
 
   describe('input validation', () => {
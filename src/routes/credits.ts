@@ -4,6 +4,9 @@
  * Hot-path lookup is filtered by `credits.user_id` and is backed by the
  * EXPLAIN-verified covering index `idx_credits_lookup_hot`
  * (see migrations/credits_index.sql).
+ *
+ * The balance is split into the amount held for in-flight `/v1/call` calls
+ * and the amount still available to spend (see services/balanceHolds.ts).
  */
 import { Router } from 'express';
 import type { NextFunction, Request, Response } from 'express';
@@ -23,10 +26,17 @@ import {
   createTokenBucketRateLimitMiddleware,
 } from '../middleware/rateLimit.js';
 import { creditsHistogramMiddleware } from '../middleware/creditsHistogram.js';
+import {
+  defaultBalanceHoldService,
+  formatUsdc,
+  type BalanceHoldService,
+} from '../services/balanceHolds.js';
 
 export interface CreditsRouterDeps {
   /** Injectable repository — defaults to the Drizzle-backed implementation. */
   creditsRepository?: CreditsRepository;
+  /** Holds placed by the proxy — defaults to the shared in-memory service. */
+  balanceHolds?: BalanceHoldService;
 }
 
 const getCreditsQuerySchema = z.object({}).strict();
@@ -34,6 +44,10 @@ const getCreditsQuerySchema = z.object({}).strict();
 export interface CreditsBalanceResponse {
   user_id: string;
   balance_usdc: string;
+  /** Held for in-flight proxied calls until they are charged. */
+  held_usdc: string;
+  /** `balance_usdc` less `held_usdc` — what new calls can spend. */
+  available_usdc: string;
   created_at: string;
   updated_at: string;
 }
@@ -47,6 +61,7 @@ export interface CreditsBalanceResponse {
 export function createCreditsRouter(deps: CreditsRouterDeps = {}): Router {
   const router = Router();
   const creditsRepo = deps.creditsRepository ?? defaultCreditsRepository;
+  const balanceHolds = deps.balanceHolds ?? defaultBalanceHoldService;
 
   const rateLimiter = new TokenBucketRateLimiter(10, 1);
   const rateLimit = createTokenBucketRateLimitMiddleware(
@@ -84,6 +99,7 @@ export function createCreditsRouter(deps: CreditsRouterDeps = {}): Router {
 
         // Hot path: filter by user_id — uses idx_credits_lookup_hot
         const credits = await creditsRepo.getOrCreateByUserId(user.id);
+        const summary = await balanceHolds.summarize(user.id, Number(credits.balance_usdc));
 
         logger.info(
           `Credits balance retrieved for user ${user.id}: ${credits.balance_usdc} USDC`,
@@ -97,6 +113,8 @@ export function createCreditsRouter(deps: CreditsRouterDeps = {}): Router {
         const response: CreditsBalanceResponse = {
           user_id: credits.user_id,
           balance_usdc: credits.balance_usdc,
+          held_usdc: formatUsdc(summary.heldUsdc),
+          available_usdc: formatUsdc(summary.availableUsdc),
           created_at: credits.created_at?.toISOString() ?? new Date().toISOString(),
           updated_at: credits.updated_at?.toISOString() ?? new Date().toISOString(),
         };
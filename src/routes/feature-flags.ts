@@ -19,7 +19,8 @@ const defaultFlags: Record<string, boolean> = {
   'new-billing-flow': false,
   'beta-analytics': false,
   'experimental-ui': false,
-  'sso-login': true,
+  // On when at least one OIDC identity provider is configured.
+  'sso-login': config.oidc.providers.length > 0,
   'dark-mode': true,
 };
 
@@ -4,10 +4,11 @@ import { z } from 'zod';
 import { startUpstreamTimer, getUpstreamHealth, type UpstreamOutcome } from '../metrics.js';
 import { validate } from '../middleware/validate.js';
 import { createConfiguredGatewayRateLimitMiddleware } from '../middleware/gatewayRateLimit.js';
-import type { GatewayDeps, ApiKey } from '../types/gateway.js';
+import type { GatewayDeps, ApiKey, ApiRegistryEntry } from '../types/gateway.js';
 import { buildHopByHopSet } from '../lib/hopByHop.js';
 import { defaultUsageSseBroadcaster } from './usage/sse.js';
 import { getDefaultBreakerRegistry, CircuitBreakerState } from '../lib/circuitBreaker.js';
+import { defaultOriginBalancer, resolveOrigins } from '../services/upstreamOrigins.js';
 import { logger } from '../logger.js';
 
 import {
@@ -21,6 +22,17 @@ import {
   UnauthorizedError,
 } from '../errors/index.js';
 import { getOrCreateRequestId } from '../utils/asyncContext.js';
+import {
+  meteringHeaders,
+  meteringLimitExceededError,
+  meteringRetryAfterSeconds,
+  type MeteringAdmission,
+} from '../services/subscriptionMetering.js';
+import {
+  defaultApiKeySpendCaps,
+  spendCapExceededError,
+  spendCapRetryAfterSeconds,
+} from '../services/apiKeySpendCaps.js';
 
 /** Length of the key prefix used for candidate pre-filtering (matches repository). */
 const API_KEY_PREFIX_LENGTH = 16;
@@ -104,6 +116,13 @@ interface HealthCacheEntry {
     apiSlug: string;
     latency: { p50: number | null; p95: number | null };
     breaker: { state: 'closed' | 'open' | 'half-open' };
+    origins?: Array<{
+      id: string;
+      weight: number;
+      healthy: boolean;
+      latencyMs: number | null;
+      breaker: { state: 'closed' | 'open' | 'half-open' };
+    }>;
   };
   timestamp: number;
 }
@@ -123,9 +142,11 @@ function mapBreakerState(state: CircuitBreakerState): 'closed' | 'open' | 'half-
 }
 
 export function createGatewayRouter(deps: GatewayDeps): Router {
-  const { billing, rateLimiter, usageStore, upstreamUrl, registry } = deps;
+  const { billing, rateLimiter, usageStore, upstreamUrl, registry, subscriptionMeter } = deps;
   const breakerRegistry = deps.breakerRegistry ?? getDefaultBreakerRegistry();
+  const originBalancer = deps.originBalancer ?? defaultOriginBalancer;
   const apiKeys = deps.apiKeys ?? new Map();
+  const spendCaps = deps.spendCaps ?? defaultApiKeySpendCaps;
   const maxBodySize = deps.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
   const router = Router();
 
@@ -185,6 +206,8 @@ export function createGatewayRouter(deps: GatewayDeps): Router {
   // Public endpoint (no auth) that returns per-API latency percentiles and
   // circuit breaker state. Only aggregated upstream metrics are exposed — no
   // tenant identifiers, request paths, or raw histogram buckets are returned.
+  // APIs with several origins also list each origin's weight, probe health,
+  // average latency and breaker state by origin id; origin URLs are not shown.
   //
   // Results are cached in-memory for 5 seconds to avoid re-computing
   // percentiles on every request.
@@ -197,8 +220,9 @@ export function createGatewayRouter(deps: GatewayDeps): Router {
       // The histogram uses api_id (the numeric/database ID) as the label,
       // not the human-readable slug. We resolve via the registry if available.
       let apiId = apiSlug;
+      let entry: ApiRegistryEntry | undefined;
       if (registry) {
-        const entry = registry.resolve(apiSlug);
+        entry = registry.resolve(apiSlug);
         if (!entry) {
           next(new NotFoundError('API not found'));
           return;
@@ -222,12 +246,27 @@ export function createGatewayRouter(deps: GatewayDeps): Router {
       };
       const breakerState = await breakerRegistry.getState(apiSlug);
 
-      const data = {
+      const data: HealthCacheEntry['data'] = {
         apiSlug,
         latency,
         breaker: { state: mapBreakerState(breakerState) },
       };
 
+      if (entry?.origins?.length) {
+        data.origins = await Promise.all(
+          resolveOrigins(entry).map(async (origin) => {
+            const status = originBalancer.get(origin.breakerKey);
+            return {
+              id: origin.id,
+              weight: origin.weight,
+              healthy: status?.healthy ?? true,
+              latencyMs: status?.latencyMs == null ? null : Math.round(status.latencyMs),
+              breaker: { state: mapBreakerState(await breakerRegistry.getState(origin.breakerKey)) },
+            };
+          }),
+        );
+      }
+
       // Store in cache
       healthCache.set(apiSlug, { data, timestamp: Date.now() });
 
@@ -313,6 +352,35 @@ export function createGatewayRouter(deps: GatewayDeps): Router {
           return;
         }
 
+        // Per-key spend caps — reject once the key's daily or monthly USDC
+        // budget has been spent.
+        const spendCapKey = {
+          id: keyRecord.key,
+          userId: keyRecord.developerId,
+          apiId: keyRecord.apiId,
+          dailySpendLimitUsdc: keyRecord.dailySpendLimitUsdc,
+          monthlySpendLimitUsdc: keyRecord.monthlySpendLimitUsdc,
+        };
+        const spendCap = await spendCaps.check(spendCapKey);
+        if (!spendCap.allowed) {
+          res.set('Retry-After', String(spendCapRetryAfterSeconds(spendCap)));
+          next(spendCapExceededError(spendCap.window));
+          return;
+        }
+
+        // Subscription metering — reserve one call of the calendar-month
+        // `metering_limit` before billing so over-limit calls are never charged.
+        let metering: MeteringAdmission = { metered: false };
+        if (subscriptionMeter) {
+          metering = await subscriptionMeter.admit(keyRecord.developerId, keyRecord.apiId);
+          res.set(meteringHeaders(metering));
+          if (metering.metered && !metering.allowed) {
+            res.set('Retry-After', String(meteringRetryAfterSeconds(metering)));
+            next(meteringLimitExceededError());
+            return;
+          }
+        }
+
         // Obtain (or lazily create) the per-endpoint circuit breaker keyed by
         // apiId. A separate breaker per endpoint means one degraded upstream
         // does not trip the breaker for healthy endpoints on the same gateway.
@@ -329,6 +397,7 @@ export function createGatewayRouter(deps: GatewayDeps): Router {
         // as execute() — if cooldown has elapsed execute() will transition the
         // breaker to HALF_OPEN and allow a probe, so we must NOT block here.
         if (await endpointBreaker.wouldBlock(req.params.apiId)) {
+          if (metering.metered) await metering.release();
           next(new ServiceUnavailableError(
             'Service Unavailable: endpoint circuit breaker is open',
             'SERVICE_UNAVAILABLE',
@@ -341,9 +410,11 @@ export function createGatewayRouter(deps: GatewayDeps): Router {
           CREDIT_COST_PER_CALL,
         );
         if (!billingResult.success) {
+          if (metering.metered) await metering.release();
           next(new PaymentRequiredError('Payment Required: insufficient balance'));
           return;
         }
+        void spendCaps.record(spendCapKey, CREDIT_COST_PER_CALL);
 
         let upstreamStatus = 502;
         let upstreamBody = JSON.stringify({
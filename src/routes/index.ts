@@ -8,6 +8,12 @@ import { createBillingPortalRouter } from "./billing/portal.js";
 import healthRouter from "./health.js";
 import refundsRouter from "./refunds.js";
 import { createApisRouter, type ApisRouterDeps } from "./apis.js";
+import { createUpstreamCredentialsRouter } from "./apis/upstreamCredentials.js";
+import { createSandboxRouter } from "./apis/sandbox.js";
+import { createTransformRulesRouter } from "./apis/transformRules.js";
+import { createApiSpecRouter } from "./apis/apiSpecs.js";
+import { createOpenApiImportRouter } from "./apis/openApiImport.js";
+import { createApiVersionRouter } from "./apis/apiVersions.js";
 import { createSpikeRouter } from "./spike.js";
 import { createUsageRouter, type UsageRouterDeps } from "./usage.js";
 import { createUsageSseRouter, type UsageSseBroadcaster } from "./usage/sse.js";
@@ -35,11 +41,17 @@ import { createForecastRouter } from "./forecast.js";
 import { createPlansRouter } from "./plans.js";
 import { createCreditsRouter } from "./credits.js";
 import type { CreditsRepository } from "../repositories/creditsRepository.js";
+import type { BalanceHoldService } from "../services/balanceHolds.js";
 import { createErrorsRouter } from "./errors.js";
 import { createBillingRateLimitMiddleware } from "../middleware/rateLimit.js";
 import { createAuditRouter } from "./audit.js";
 import { createInvoicesRouter } from "./invoices.js";
 import type { AuditService } from "../services/auditService.js";
+import type { UpstreamCredentialService } from "../services/upstreamCredentials.js";
+import type { SandboxService } from "../services/sandbox.js";
+import type { TransformRuleService } from "../services/transformRules.js";
+import type { ApiSpecService } from "../services/apiSpecs.js";
+import type { ApiVersionService } from "../services/apiVersions.js";
 
 const openApiPath = path.join(process.cwd(), "docs/openapi.json");
 const openApiSpec = JSON.parse(readFileSync(openApiPath, "utf8"));
@@ -60,6 +72,18 @@ export interface ApiRouterDeps
   healthCheckConfig?: HealthCheckConfig;
   /** Credits repository for the /api/credits hot-path lookup. */
   creditsRepository?: CreditsRepository;
+  /** Balance holds placed by the /v1/call proxy, reported by /api/credits. */
+  balanceHolds?: BalanceHoldService;
+  /** Provider-managed upstream credentials injected by the /v1/call proxy. */
+  upstreamCredentials?: UpstreamCredentialService;
+  /** Provider sandboxes that answer /v1/call requests made with test-mode keys. */
+  sandboxes?: SandboxService;
+  /** Provider transform rules applied by the /v1/call proxy. */
+  transformRules?: TransformRuleService;
+  /** Provider OpenAPI documents the /v1/call proxy checks calls against. */
+  apiSpecs?: ApiSpecService;
+  /** Published API versions the /v1/call proxy answers versioned calls with. */
+  apiVersions?: ApiVersionService;
 }
 
 export function createApiRouter(deps: ApiRouterDeps = {}): Router {
@@ -70,7 +94,10 @@ export function createApiRouter(deps: ApiRouterDeps = {}): Router {
   // Hot-path credits lookup (idx_credits_lookup_hot) — see migrations/credits_index.sql
   router.use(
     "/credits",
-    createCreditsRouter({ creditsRepository: deps.creditsRepository }),
+    createCreditsRouter({
+      creditsRepository: deps.creditsRepository,
+      balanceHolds: deps.balanceHolds,
+    }),
   );
   router.use("/spike", createSpikeRouter());
   router.use("/errors", createErrorsRouter({ auditService: deps.auditService }));
@@ -81,6 +108,61 @@ export function createApiRouter(deps: ApiRouterDeps = {}): Router {
   // a token-bucket limiter (see src/routes/logs.ts and LOGS_RATE_LIMIT_* env vars).
   router.use("/logs", createLogsRouter());
 
+  router.use(
+    "/apis",
+    createUpstreamCredentialsRouter({
+      apiRepository: deps.apiRepository,
+      developerRepository: deps.developerRepository,
+      upstreamCredentials: deps.upstreamCredentials,
+    }),
+  );
+
+  router.use(
+    "/apis",
+    createSandboxRouter({
+      apiRepository: deps.apiRepository,
+      developerRepository: deps.developerRepository,
+      sandboxes: deps.sandboxes,
+    }),
+  );
+
+  router.use(
+    "/apis",
+    createTransformRulesRouter({
+      apiRepository: deps.apiRepository,
+      developerRepository: deps.developerRepository,
+      transformRules: deps.transformRules,
+      responseCache: deps.responseCache,
+    }),
+  );
+
+  router.use(
+    "/apis",
+    createApiSpecRouter({
+      apiRepository: deps.apiRepository,
+      developerRepository: deps.developerRepository,
+      apiSpecs: deps.apiSpecs,
+    }),
+  );
+
+  router.use(
+    "/apis",
+    createOpenApiImportRouter({
+      apiRepository: deps.apiRepository,
+      developerRepository: deps.developerRepository,
+    }),
+  );
+
+  router.use(
+    "/apis",
+    createApiVersionRouter({
+      apiRepository: deps.apiRepository,
+      developerRepository: deps.developerRepository,
+      subscriptionRepository: deps.subscriptionRepository,
+      apiVersions: deps.apiVersions,
+    }),
+  );
+
   router.use(
     "/apis",
     createApisRouter({
@@ -183,6 +265,7 @@ export function createApiRouter(deps: ApiRouterDeps = {}): Router {
         subscriptionRepository: deps.subscriptionRepository,
         apiRepository: deps.apiRepository,
         developerRepository: deps.developerRepository,
+        apiVersions: deps.apiVersions,
       }),
     );
   }
@@ -213,11 +296,14 @@ export function createApiRouter(deps: ApiRouterDeps = {}): Router {
     router.use(
       "/billing/portal",
       ...billingMiddlewares,
-      createBillingPortalRouter(),
+      createBillingPortalRouter(undefined, { balanceHolds: deps.balanceHolds }),
     );
   } else {
     router.use("/billing", billingRouter);
-    router.use("/billing/portal", createBillingPortalRouter());
+    router.use(
+      "/billing/portal",
+      createBillingPortalRouter(undefined, { balanceHolds: deps.balanceHolds }),
+    );
   }
 
 
@@ -0,0 +1,117 @@
+/**
+ * TOTP multi-factor authentication endpoints, mounted twice:
+ *
+ *   /api/mfa        — developers, authenticated by `requireAuth`
+ *   /api/admin/mfa  — admins, authenticated by the admin router's `adminAuth`
+ *
+ * Route surface (relative to the mount point):
+ *
+ *   GET    /                — { enabled, pending, recoveryCodesRemaining }
+ *   POST   /enroll          — start enrolment: { secret, otpauthUri }
+ *   POST   /enroll/confirm  — { code } → turn MFA on: { recoveryCodes }
+ *   POST   /verify          — { code } or { recoveryCode } → step-up token
+ *   POST   /recovery-codes  — replace the recovery codes (step-up required)
+ *   DELETE /                — turn MFA off (step-up required)
+ *
+ * `/enroll/confirm` and `/verify` share a per-IP throttle with the logins
+ * (`LOGIN_RATE_LIMIT_*`), which keeps six-digit codes from being guessed.
+ * See docs/mfa.md.
+ */
+
+import { Router, type Request, type RequestHandler, type Response } from 'express';
+import { config } from '../config/index.js';
+import { UnauthorizedError } from '../errors/index.js';
+import { getRequestId, successEnvelope } from '../lib/envelope.js';
+import { createLoginThrottle } from '../middleware/loginThrottle.js';
+import { requireStepUp, resolveMfaSubject } from '../middleware/requireStepUp.js';
+import { bodyValidator } from '../middleware/validate.js';
+import { getMfaService, type MfaService } from '../services/mfa.js';
+import { mfaConfirmSchema, mfaVerifySchema } from '../validators/mfa.js';
+
+export interface MfaRouterDeps {
+  /** Authenticates the caller. Omit when the parent router already does. */
+  authenticate?: RequestHandler;
+  /** Defaults to the shared service from `getMfaService()`. */
+  mfaService?: MfaService;
+}
+
+export function createMfaRouter(deps: MfaRouterDeps = {}): Router {
+  const router = Router();
+  const service = (): MfaService => deps.mfaService ?? getMfaService();
+  const stepUp = requireStepUp({ mfaService: deps.mfaService });
+
+  const codeThrottle = createLoginThrottle({
+    windowMs: config.loginRateLimit.windowMs,
+    maxRequests: config.loginRateLimit.maxRequests,
+    trustProxy: process.env.TRUST_PROXY_HEADERS === 'true',
+  });
+
+  if (deps.authenticate) router.use(deps.authenticate);
+
+  const subjectOf = (req: Request, res: Response): string => {
+    const subject = resolveMfaSubject(req, res);
+    if (!subject) throw new UnauthorizedError();
+    return subject;
+  };
+
+  router.get('/', async (req, res, next) => {
+    try {
+      const status = await service().status(subjectOf(req, res));
+      res.json(successEnvelope(status, getRequestId(req)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/enroll', async (req, res, next) => {
+    try {
+      const subject = subjectOf(req, res);
+      // Authenticator apps show this next to the issuer.
+      const account = subject.slice(subject.indexOf(':') + 1);
+      const enrollment = await service().beginEnrollment(subject, account);
+      res.status(201).json(successEnvelope(enrollment, getRequestId(req)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/enroll/confirm', codeThrottle, bodyValidator(mfaConfirmSchema), async (req, res, next) => {
+    try {
+      const { code } = mfaConfirmSchema.parse(req.body);
+      const confirmed = await service().confirmEnrollment(subjectOf(req, res), code);
+      res.json(successEnvelope(confirmed, getRequestId(req)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/verify', codeThrottle, bodyValidator(mfaVerifySchema), async (req, res, next) => {
+    try {
+      const verification = mfaVerifySchema.parse(req.body);
+      const stepUpToken = await service().verify(subjectOf(req, res), verification);
+      res.json(successEnvelope(stepUpToken, getRequestId(req)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/recovery-codes', stepUp, async (req, res, next) => {
+    try {
+      const regenerated = await service().regenerateRecoveryCodes(subjectOf(req, res));
+      res.json(successEnvelope(regenerated, getRequestId(req)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete('/', stepUp, async (req, res, next) => {
+    try {
+      await service().disable(subjectOf(req, res));
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
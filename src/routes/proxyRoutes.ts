@@ -1,6 +1,6 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
 import { randomUUID } from 'node:crypto';
-import { ProxyDeps, ProxyConfig, ApiRegistryEntry, EndpointPricing } from '../types/gateway.js';
+import { ProxyDeps, ProxyConfig, ApiRegistryEntry, EndpointPricing, StreamPricing, UsageEvent } from '../types/gateway.js';
 import { resolveEndpointPrice } from '../data/apiRegistry.js';
 import {
   startUpstreamTimer,
@@ -8,10 +8,22 @@ import {
   type UpstreamOutcome,
   setGatewayUpstreamBreakerState,
   recordEndpointThroughputSaturation,
+  recordGatewayResponseCache,
+  recordGatewayUpstreamExtraAttempt,
+  recordGatewayStreamConnection,
+  recordGatewayRequestValidationFailure,
 } from '../metrics.js';
-import { createMapBackedGatewayApiKeyAuthMiddleware } from '../middleware/gatewayApiKeyAuth.js';
+import { createRepositoryBackedGatewayApiKeyAuthMiddleware } from '../middleware/gatewayApiKeyAuth.js';
+import { defaultApiKeyRepository } from '../repositories/apiKeyRepository.js';
 import { createConfiguredGatewayRateLimitMiddleware } from '../middleware/gatewayRateLimit.js';
 import { buildHopByHopSet } from '../lib/hopByHop.js';
+import { isWebSocketUpgrade, openWebSocketTunnel, relayWebSocket, type WebSocketTunnel } from '../lib/websocket.js';
+import {
+  bufferUpstreamRequestBody,
+  buildUpstreamRequestBody,
+  parseByteLimit,
+  type UpstreamRequestBody,
+} from '../lib/proxyBody.js';
 import {
   buildUpstreamTargetUrl,
   DEFAULT_UPSTREAM_HOST_ALLOWLIST,
@@ -21,15 +33,107 @@ import {
   BadGatewayError,
   GatewayTimeoutError,
   InternalServerError,
+  isAppError,
   PaymentRequiredError,
+  PayloadTooLargeError,
   ServiceUnavailableError,
   TooManyRequestsError,
 } from '../errors/index.js';
 import { CircuitBreakerOpenError } from '../lib/errors.js';
-import { CircuitBreaker } from '../lib/circuitBreaker.js';
+import { CircuitBreaker, getDefaultBreakerRegistry } from '../lib/circuitBreaker.js';
 import { env } from '../config/env.js';
 import { getOrCreateRequestId } from '../utils/asyncContext.js';
 import { defaultUsageSseBroadcaster } from './usage/sse.js';
+import {
+  applyUpstreamCredential,
+  defaultUpstreamCredentialService,
+  type UpstreamCredential,
+} from '../services/upstreamCredentials.js';
+import {
+  InMemoryMeteringCounterStore,
+  meteringHeaders,
+  meteringLimitExceededError,
+  meteringRetryAfterSeconds,
+  type MeteringAdmission,
+} from '../services/subscriptionMetering.js';
+import { PricingCallCounter, priceCall } from '../services/endpointPricing.js';
+import {
+  isUnitPriced,
+  parseReportedUnits,
+  unitChargeUsdc,
+  unitsHeaderOf,
+} from '../services/unitMetering.js';
+import {
+  defaultBalanceHoldService,
+  holdAmountUsdc,
+  insufficientAvailableBalanceError,
+  type AuthorizedHold,
+} from '../services/balanceHolds.js';
+import {
+  defaultApiKeySpendCaps,
+  spendCapExceededError,
+  spendCapRetryAfterSeconds,
+} from '../services/apiKeySpendCaps.js';
+import { ApiKeyScopeMissingError, checkApiKeyScopes } from '../services/apiKeyScopes.js';
+import {
+  allowedMethodsFor,
+  EndpointMethodNotAllowedError,
+  endpointRequestBodyTooLargeError,
+  endpointResponseTooLargeError,
+  endpointTimeoutError,
+} from '../services/endpointPolicy.js';
+import { defaultRequestNonceStore, REQUEST_SIGNING_HEADERS } from '../services/requestSigning.js';
+import {
+  CACHE_STATUS_HEADER,
+  cachedResponseAge,
+  defaultResponseCache,
+  isCacheableRequest,
+  replayableHeaders,
+  requestBypassesCache,
+  responseCacheKey,
+  storableTtlMs,
+} from '../services/responseCache.js';
+import { defaultOriginBalancer, resolveOrigins, type ResolvedOrigin } from '../services/upstreamOrigins.js';
+import {
+  ATTEMPTS_HEADER,
+  defaultRetryBudget,
+  defaultUpstreamLatencyTracker,
+  resolveRetryPolicy,
+  sendWithRetries,
+} from '../services/proxyRetry.js';
+import {
+  endpointNotStreamingError,
+  isEventStream,
+  responseHeadersDeadline,
+  SseEventCounter,
+  sseCloseEvent,
+  STREAM_CLOSE_INSUFFICIENT_BALANCE,
+  STREAM_CLOSE_INSUFFICIENT_BALANCE_REASON,
+  StreamMeter,
+} from '../services/streamMetering.js';
+import {
+  apiKeyModeOf,
+  defaultSandboxService,
+  SANDBOX_HEADER,
+  sandboxResponseNotFoundError,
+  type SandboxRoute,
+} from '../services/sandbox.js';
+import { createRateLimiter } from '../services/rateLimiter.js';
+import {
+  defaultTransformRuleService,
+  errorMappingFor,
+  mappedErrorResponse,
+  transformRequest,
+  transformResponseHeaders,
+} from '../services/transformRules.js';
+import { defaultApiSpecService, RequestSchemaInvalidError } from '../services/apiSpecs.js';
+import {
+  defaultApiVersionService,
+  parseApiReference,
+  versionedApiEntry,
+} from '../services/apiVersions.js';
+import { markDeprecated } from '../middleware/deprecation.js';
+import { config as appConfig } from '../config/index.js';
 import { logger } from '../logger.js';
 
 /**
@@ -58,9 +162,12 @@ const DEFAULT_STRIP_HEADERS = [
   'cookie',
   'x-forwarded-for',
   'x-real-ip',
+  // Signed-request authentication
+  ...REQUEST_SIGNING_HEADERS,
 ];
 
 const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_BODY_SIZE = '1mb';
 
 function resolveConfig(partial?: Partial<ProxyConfig>): ProxyConfig {
   return {
@@ -68,9 +175,16 @@ function resolveConfig(partial?: Partial<ProxyConfig>): ProxyConfig {
     stripHeaders: partial?.stripHeaders ?? DEFAULT_STRIP_HEADERS,
     recordableStatuses: partial?.recordableStatuses ?? ((code) => code >= 200 && code < 300),
     allowedHosts: partial?.allowedHosts ?? [...DEFAULT_UPSTREAM_HOST_ALLOWLIST],
+    maxBodySize: partial?.maxBodySize ?? DEFAULT_MAX_BODY_SIZE,
   };
 }
 
+/** The call's path after the API slug, with a leading `/`, and its query string as sent. */
+function callUrlAfterSlug(url: string): string {
+  const rest = /^\/[^/?]*(.*)$/.exec(url)?.[1] ?? '';
+  return rest.startsWith('/') ? rest : `/${rest}`;
+}
+
 /**
  * Factory that creates the `/v1/call` proxy router.
  *
@@ -81,34 +195,99 @@ function resolveConfig(partial?: Partial<ProxyConfig>): ProxyConfig {
  *      immediately with `503 Service Unavailable` so load balancers can route
  *      traffic elsewhere.  In-flight requests that arrived before shutdown
  *      was signalled are allowed to complete normally.
- *   2. Resolve API from registry by slug or ID → 404 if unknown
- *   3. Validate x-api-key header → 401
- *   4. Rate-limit check → 429
- *   5. Pre-proxy balance check → 402 if depleted
- *   6. Build upstream URL, find price, forward safe headers, add X-Request-Id
- *   7. Proxy request with configurable timeout → 504 on timeout
- *   8. Stream upstream response back to caller
- *   9. [Non-blocking] Record usage and deduct billing if status is recordable
+ *   2. Resolve API from registry by slug or ID → 404 if unknown. Once the
+ *      caller is known, the call is answered by the version named in
+ *      `slug@version` or pinned by the caller's subscription → 404
+ *      API_VERSION_NOT_FOUND, 410 API_VERSION_SUNSET; calls to deprecated
+ *      versions carry Deprecation / Sunset headers (see apiVersions.ts)
+ *   3. Validate x-api-key header, or the request signature made with the key
+ *      (see requestSigning.ts) → 401, then the key's endpoint scopes →
+ *      403 API_KEY_SCOPE_MISSING naming the scope the call needs, then the
+ *      endpoint policy's accepted methods → 405 ENDPOINT_METHOD_NOT_ALLOWED
+ *   4. Rate-limit check → 429. Test-mode keys (`ck_test_…`) have their own
+ *      limit and never reach the live upstream: they are answered by one of
+ *      the provider's sandbox fixtures or proxied to the sandbox base URL →
+ *      404 SANDBOX_RESPONSE_NOT_FOUND when neither exists, skip step 5, and
+ *      are recorded as test usage, never billed (see sandbox.ts). A call to
+ *      an API with an OpenAPI document must then match it → 400
+ *      REQUEST_SCHEMA_INVALID, counted and never billed (see apiSpecs.ts)
+ *   5. Pre-proxy balance check → 402 if depleted, then the API key's daily /
+ *      monthly spend caps → 429 API_KEY_SPEND_CAP_EXCEEDED, then reserve one call of
+ *      the subscription's monthly `metering_limit` → 429 METERING_LIMIT_EXCEEDED.
+ *      The most the call can cost is then held against the balance less
+ *      other in-flight holds → 402 PREAUTHORIZATION_FAILED
+ *   5a. A GET to an endpoint with a response cache policy is answered from a
+ *      fresh cached response (`X-Callora-Cache: HIT`, see responseCache.ts),
+ *      skipping steps 6-8; other responses carry `MISS` and may be stored
+ *   6. Pick the origin by weighted round-robin over the API's healthy
+ *      origins, failing over past origins whose circuit breaker is open (see
+ *      upstreamOrigins.ts). Build upstream URL, find price, forward safe
+ *      headers, apply the provider's request transform rules (path, query,
+ *      headers — see transformRules.ts), add X-Request-Id, inject the
+ *      provider-managed upstream credential (if configured)
+ *   7. Proxy request with configurable timeout → 504 on timeout.  The request
+ *      body is streamed through byte-for-byte (any content type) and capped
+ *      at `maxBodySize` → 413 when exceeded.  An endpoint policy can set its
+ *      own timeout → 504 ENDPOINT_TIMEOUT, body limit → 413
+ *      ENDPOINT_REQUEST_BODY_TOO_LARGE and response limit → 502
+ *      ENDPOINT_RESPONSE_TOO_LARGE (see endpointPolicy.ts).  Idempotent calls are retried
+ *      after network errors and 502/503/504 within the API's retry budget,
+ *      and may be hedged (see proxyRetry.ts); `X-Callora-Attempts` reports
+ *      how many upstream requests the call took
+ *   8. Stream upstream response back to caller, with the response transform
+ *      rules applied to its headers; an error a `map_error` rule matches is
+ *      answered with the rule's error envelope instead of its body
+ *   9. [Non-blocking] Price the call (tiered endpoints by the caller's call
+ *      count this billing period, unit-priced endpoints by the units the
+ *      upstream reported), record usage and charge billing if status is
+ *      recordable. The balance hold is captured once the charge succeeds and
+ *      released otherwise; a successful charge counts towards the key's spend
  */
 export function createProxyRouter(deps: ProxyDeps): Router {
-  const { billing, rateLimiter, usageStore, registry, circuitBreakerStore, drainState } = deps;
+  const { billing, rateLimiter, usageStore, registry, circuitBreakerStore, drainState, subscriptionMeter } = deps;
+  const pricingCounter = deps.pricingCounter ?? new PricingCallCounter(new InMemoryMeteringCounterStore());
+  const balanceHolds = deps.balanceHolds ?? defaultBalanceHoldService;
+  const spendCaps = deps.spendCaps ?? defaultApiKeySpendCaps;
+  const responseCache = deps.responseCache ?? defaultResponseCache;
   const config = resolveConfig(deps.proxyConfig);
+  const maxBodyBytes = parseByteLimit(config.maxBodySize);
+  const upstreamCredentials = deps.upstreamCredentials ?? defaultUpstreamCredentialService;
   const router = Router();
   const circuitBreaker = new CircuitBreaker({
     failureThreshold: env.PROXY_BREAKER_FAILURE_THRESHOLD,
     cooldownMs: env.PROXY_BREAKER_COOLDOWN_MS,
     successThreshold: env.PROXY_BREAKER_SUCCESS_THRESHOLD,
   }, circuitBreakerStore);
-  const authMiddleware = deps.authMiddleware ?? createMapBackedGatewayApiKeyAuthMiddleware({
+  const breakerRegistry = deps.breakerRegistry ?? getDefaultBreakerRegistry();
+  const originBalancer = deps.originBalancer ?? defaultOriginBalancer;
+  const retryBudget = deps.retryBudget ?? defaultRetryBudget;
+  const latencyTracker = deps.latencyTracker ?? defaultUpstreamLatencyTracker;
+  const streamMeteringIntervalMs = deps.streamMeteringIntervalMs ?? appConfig.streaming.meteringIntervalMs;
+  const sandboxes = deps.sandboxes ?? defaultSandboxService;
+  const sandboxRateLimiter = deps.sandboxRateLimiter
+    ?? createRateLimiter(appConfig.sandbox.rateLimitMaxRequests, appConfig.sandbox.rateLimitWindowMs);
+  const transformRules = deps.transformRules ?? defaultTransformRuleService;
+  const apiSpecs = deps.apiSpecs ?? defaultApiSpecService;
+  const apiVersions = deps.apiVersions ?? defaultApiVersionService;
+  const pinnedVersions = deps.pinnedVersions;
+  const authMiddleware = deps.authMiddleware ?? createRepositoryBackedGatewayApiKeyAuthMiddleware({
+    apiKeyRepository: deps.apiKeyRepository ?? defaultApiKeyRepository,
     apiKeys: deps.apiKeys,
+    signedRequests: {
+      nonceStore: deps.requestNonceStore ?? defaultRequestNonceStore,
+      toleranceMs: appConfig.apiKeys.signatureToleranceMs,
+      maxBodyBytes,
+      secretsKey: appConfig.apiKeys.secretsKey,
+    },
     resolveApiContext(req) {
-      const api = registry.resolve(req.params.apiSlugOrId);
+      // `slug@version` names a version, chosen once the caller is known.
+      const api = registry.resolve(parseApiReference(req.params.apiSlugOrId).slugOrId);
       if (!api) {
         return null;
       }
 
       const wildcardPath = req.params[0] ?? '';
-      const endpoint = resolveEndpointPrice(api.endpoints, wildcardPath);
+      const endpoint = resolveEndpointPrice(api.endpoints, wildcardPath, req.method);
       return { api, endpoint };
     },
     getApiId(api) {
@@ -122,26 +301,53 @@ export function createProxyRouter(deps: ProxyDeps): Router {
   // can be overridden via deps for testing.
   const gatewayRateLimitMiddleware = deps.gatewayRateLimitMiddleware
     ?? createConfiguredGatewayRateLimitMiddleware();
+  // Test-mode keys are limited by the sandbox limiter in handleProxy instead,
+  // so sandbox traffic never spends the user's live bucket.
+  const liveRateLimitMiddleware: RequestHandler = (req, res, next) => {
+    const prefix = (req.apiKeyRecord as { prefix?: string } | undefined)?.prefix ?? '';
+    if (apiKeyModeOf(prefix) === 'test') {
+      next();
+      return;
+    }
+    gatewayRateLimitMiddleware(req, res, next);
+  };
 
   // Use a param of 0 to capture the wildcard path (everything after the slug)
-  router.all('/:apiSlugOrId/*', authMiddleware, gatewayRateLimitMiddleware, handleProxy);
+  router.all('/:apiSlugOrId/*', authMiddleware, liveRateLimitMiddleware, handleProxy);
   // Also handle requests without a trailing path (e.g. /v1/call/my-api)
-  router.all('/:apiSlugOrId', authMiddleware, gatewayRateLimitMiddleware, handleProxy);
+  router.all('/:apiSlugOrId', authMiddleware, liveRateLimitMiddleware, handleProxy);
 
   async function handleProxy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    // The call reserved against the subscription's monthly allowance. Released
+    // on every path that ends without the call being billed.
+    let metering: MeteringAdmission = { metered: false };
+    const releaseMeteredCall = (): void => {
+      if (metering.metered) void metering.release();
+    };
+    // The most the call can cost, held against the balance until it has been
+    // charged. Released on every path that ends without the call being billed.
+    let hold: AuthorizedHold | null = null;
+    const releaseHold = (): void => {
+      if (hold) void hold.release();
+    };
+
     try {
       const requestId = req.id || getOrCreateRequestId(randomUUID);
-      const apiEntry = req.api as unknown as ApiRegistryEntry | undefined;
-      const endpoint = req.endpoint as unknown as EndpointPricing | undefined;
+      const listedEntry = req.api as unknown as ApiRegistryEntry | undefined;
+      const listedEndpoint = req.endpoint as unknown as EndpointPricing | undefined;
       const apiKeyHeader = req.apiKeyValue;
       const keyRecord = req.apiKeyRecord as {
         id: string;
         userId: string;
         apiId: string;
+        prefix?: string;
         rateLimitPerMinute?: number | null;
+        dailySpendLimitUsdc?: number | null;
+        monthlySpendLimitUsdc?: number | null;
+        scopes?: string[] | null;
       } | undefined;
 
-      if (!apiEntry || !endpoint || !apiKeyHeader || !keyRecord) {
+      if (!listedEntry || !listedEndpoint || !apiKeyHeader || !keyRecord) {
         next(
           new InternalServerError(
             'Gateway authentication context missing',
@@ -151,6 +357,63 @@ export function createProxyRouter(deps: ProxyDeps): Router {
         return;
       }
 
+      // 3. API version — the version named after `@`, else the one the
+      //    caller's subscription is pinned to, else the listing. A version
+      //    brings its own base URL, endpoints and prices; a deprecated one is
+      //    flagged with Deprecation / Sunset headers (see apiVersions.ts).
+      const listedApiId = String(listedEntry.id);
+      const version = await apiVersions.select(
+        listedApiId,
+        parseApiReference(req.params.apiSlugOrId).version,
+        async () => (pinnedVersions ? pinnedVersions(keyRecord.userId, listedApiId) : null),
+      );
+      const apiEntry = version ? versionedApiEntry(listedEntry, version) : listedEntry;
+      const endpoint = version
+        ? resolveEndpointPrice(apiEntry.endpoints, req.params[0] ?? '', req.method)
+        : listedEndpoint;
+      if (version?.sunsetAt) {
+        markDeprecated(req, res, {
+          sunset: version.sunsetAt,
+          message: 'deprecated API version called',
+          context: { apiId: listedApiId, version: version.version },
+        });
+        if (version.successor) {
+          res.append('Link', `<${req.baseUrl}/${listedEntry.slug}@${version.successor}>; rel="successor-version"`);
+        }
+      }
+
+      // 3a. Endpoint scopes — a least-privilege key may only call the methods
+      //     and paths its scopes name. Checked before anything is reserved or
+      //     billed.
+      const scopeDecision = checkApiKeyScopes(keyRecord.scopes, req.method, req.params[0] ?? '');
+      if (!scopeDecision.allowed) {
+        next(new ApiKeyScopeMissingError(scopeDecision.requiredScope));
+        return;
+      }
+
+      // 3b. Endpoint policy — methods the endpoint's path does not accept are
+      //     rejected before anything is reserved or billed.
+      const allowedMethods = allowedMethodsFor(apiEntry.endpoints, req.params[0] ?? '');
+      if (allowedMethods && !allowedMethods.includes(req.method.toUpperCase())) {
+        res.set('Allow', allowedMethods.join(', '));
+        next(new EndpointMethodNotAllowedError(allowedMethods));
+        return;
+      }
+      const policy = endpoint.policy ?? {};
+      const timeoutMs = policy.timeoutMs ?? config.timeoutMs;
+      // The endpoint's own body limit applies when it is lower than the gateway's.
+      const bodyLimitBytes = Math.min(maxBodyBytes, policy.maxRequestBodyBytes ?? Infinity);
+      const tooLarge = (): Error => bodyLimitBytes < maxBodyBytes
+        ? endpointRequestBodyTooLargeError(bodyLimitBytes)
+        : new PayloadTooLargeError('Request body too large');
+
+      // 3c. WebSocket upgrades — only streaming endpoints accept them.
+      const upgrade = isWebSocketUpgrade(req);
+      if (upgrade && !endpoint.streamPricing) {
+        next(endpointNotStreamingError());
+        return;
+      }
+
       const breakerKey = String(apiEntry.id);
 
       // Update circuit breaker state metric
@@ -160,7 +423,10 @@ export function createProxyRouter(deps: ProxyDeps): Router {
 
       // 3. Per-API-key rate-limit check (tier-aware; complements the per-user
       //    token-bucket check already applied by gatewayRateLimitMiddleware).
-      const rateResult = await rateLimiter.check(apiKeyHeader, res.locals.apiKeyTier as string | undefined);
+      //    Test-mode keys have their own limit.
+      const sandboxed = apiKeyModeOf(keyRecord.prefix ?? '') === 'test';
+      const rateResult = await (sandboxed ? sandboxRateLimiter : rateLimiter)
+        .check(apiKeyHeader, res.locals.apiKeyTier as string | undefined);
       if (!rateResult.allowed) {
         const retryAfterSec = Math.ceil((rateResult.retryAfterMs ?? 1000) / 1000);
         res.set('Retry-After', String(retryAfterSec));
@@ -168,136 +434,621 @@ export function createProxyRouter(deps: ProxyDeps): Router {
         return;
       }
 
-      // 4. Pre-proxy balance check (ensure they have funds, deduct later)
-      const currentBalance = await billing.checkBalance(keyRecord.userId);
-      if (currentBalance <= 0) {
-        next(new PaymentRequiredError('Payment Required: insufficient balance'));
+      // 3d. Sandbox — test-mode keys never reach the live upstream. The call
+      //     is answered by one of the provider's fixtures or proxied to the
+      //     sandbox base URL (see sandbox.ts), and moves no USDC.
+      const sandbox: SandboxRoute | null = sandboxed
+        ? await sandboxes.resolve(String(apiEntry.id), req.method, req.params[0] ?? '')
+        : null;
+      if (sandboxed && !sandbox) {
+        next(sandboxResponseNotFoundError());
         return;
       }
 
+      // 3e. Request validation — a call to an API with an OpenAPI document
+      //     must match it (see apiSpecs.ts). Its body is read into memory to
+      //     be checked, and sent on from there. A call that does not match
+      //     is counted and rejected before anything is reserved or billed.
+      let checkedBody: UpstreamRequestBody | undefined;
+      const requestValidator = upgrade ? null : await apiSpecs.validatorFor(String(apiEntry.id));
+      if (requestValidator) {
+        checkedBody = await bufferUpstreamRequestBody(buildUpstreamRequestBody(req, bodyLimitBytes, tooLarge));
+        const issues = await requestValidator.validate({
+          method: req.method,
+          url: callUrlAfterSlug(req.url),
+          headers: req.headers,
+          body: checkedBody.body as Buffer | string | undefined,
+        });
+        if (issues) {
+          recordGatewayRequestValidationFailure(String(apiEntry.id));
+          next(new RequestSchemaInvalidError(issues));
+          return;
+        }
+      }
+
+      // Test calls skip every check and reservation that protects the balance.
+      if (!sandbox) {
+        // 4. Pre-proxy balance check (ensure they have funds, deduct later)
+        const currentBalance = await billing.checkBalance(keyRecord.userId);
+        if (currentBalance <= 0) {
+          next(new PaymentRequiredError('Payment Required: insufficient balance'));
+          return;
+        }
+
+        // 4a. Per-key spend caps — a leaked or runaway key stops once its daily
+        //     or monthly USDC budget has been spent.
+        const spendCap = await spendCaps.check(keyRecord);
+        if (!spendCap.allowed) {
+          res.set('Retry-After', String(spendCapRetryAfterSeconds(spendCap)));
+          next(spendCapExceededError(spendCap.window));
+          return;
+        }
+
+        // 4b. Subscription metering — count this call against the calendar-month
+        //     `metering_limit`. The shared counter store keeps this consistent
+        //     across gateway instances.
+        if (subscriptionMeter) {
+          metering = await subscriptionMeter.admit(keyRecord.userId, String(apiEntry.id));
+          res.set(meteringHeaders(metering));
+          if (metering.metered && !metering.allowed) {
+            res.set('Retry-After', String(meteringRetryAfterSeconds(metering)));
+            next(meteringLimitExceededError());
+            return;
+          }
+        }
+
+        // 4c. The call is charged only after the upstream responds, so hold the
+        //     most it can cost up front. The hold succeeds only when the balance
+        //     less the caller's other in-flight holds covers it, which stops
+        //     concurrent calls from all passing the check above and overdrawing.
+        const holdUsdc = holdAmountUsdc(endpoint);
+        if (holdUsdc > 0) {
+          hold = await balanceHolds.authorize({
+            developerId: keyRecord.userId,
+            amountUsdc: holdUsdc,
+            balanceUsdc: currentBalance,
+            requestId,
+          });
+          if (!hold) {
+            throw insufficientAvailableBalanceError(holdUsdc);
+          }
+        }
+      }
+
+      // 4d. Streams — WebSocket connections and event streams from streaming
+      //     endpoints are billed per metering interval instead of per call
+      //     (see streamMetering.ts). Each interval is its own usage event,
+      //     keyed by the call's requestId and the interval's number. Test
+      //     streams record their intervals at no charge.
+      const startStreamMeter = (
+        pricing: StreamPricing,
+        statusCode: number,
+        onExhausted: () => void,
+      ): StreamMeter => {
+        const meter = new StreamMeter({
+          pricing,
+          intervalMs: streamMeteringIntervalMs,
+          async charge(interval) {
+            const event: UsageEvent = {
+              id: randomUUID(),
+              requestId: `${requestId}:${interval.sequence}`,
+              apiKey: apiKeyHeader,
+              apiKeyId: keyRecord.id,
+              apiId: String(apiEntry.id),
+              endpointId: endpoint.endpointId,
+              userId: keyRecord.userId,
+              amountUsdc: sandbox ? 0 : interval.amountUsdc,
+              units: interval.messages,
+              statusCode,
+              timestamp: new Date().toISOString(),
+              ...(sandbox ? { test: true } : {}),
+            };
+            if (!(await usageStore.record(event))) return true;
+            defaultUsageSseBroadcaster.emitForUser(keyRecord.userId, { ...event, id: randomUUID() });
+            if (event.amountUsdc <= 0) return true;
+
+            const result = billing.chargeUsage
+              ? await billing.chargeUsage({
+                  requestId: event.requestId,
+                  developerId: keyRecord.userId,
+                  apiId: event.apiId,
+                  endpointId: event.endpointId,
+                  apiKeyId: keyRecord.id,
+                  amountUsdc: interval.amountUsdc,
+                })
+              : await billing.deductCredit(keyRecord.userId, interval.amountUsdc);
+            if (result.success) await spendCaps.record(keyRecord, interval.amountUsdc);
+            return result.success;
+          },
+          checkBalance: async () => (sandbox ? Number.POSITIVE_INFINITY : billing.checkBalance(keyRecord.userId)),
+          onExhausted,
+        });
+        meter.start();
+        return meter;
+      };
+
       // 5. Build upstream URL & find price
       // req.params[0] captures the wildcard portion after the slug
       const wildcardPath = req.params[0] ?? '';
       const upstreamTarget = buildUpstreamTargetUrl(apiEntry.base_url, wildcardPath);
-      let safeUpstreamTarget: string;
-
-      try {
-        safeUpstreamTarget = await validateResolvedUpstreamTarget(upstreamTarget, {
-          allowedHosts: config.allowedHosts,
-        });
-      } catch (error) {
-        const message = error instanceof Error
-          ? error.message
-          : 'Configured upstream target is not allowed.';
-        throw new BadGatewayError(message, 'UPSTREAM_TARGET_BLOCKED');
-      }
 
-      // 6. Build forwarded headers — strip hop-by-hop and gateway-internal headers.
-      // buildHopByHopSet() also strips any additional names listed in the
-      // incoming Connection header value (RFC 7230 §6.1).
-      const forwardHeaders: Record<string, string> = {};
-      const connectionValue = typeof req.headers['connection'] === 'string'
-        ? req.headers['connection']
+      // 5a. Response cache — a GET to a cache-enabled endpoint is answered
+      //     from a fresh cached response without calling the upstream, unless
+      //     the caller asks for a fresh one. It is still billed, at the
+      //     policy's hit price when one is set. Test calls are never cached.
+      const cachePolicy = !sandbox && !upgrade && isCacheableRequest(req.method, endpoint.cache) ? endpoint.cache : undefined;
+      const cacheKey = cachePolicy
+        ? responseCacheKey(String(apiEntry.id), upstreamTarget, cachePolicy, req.headers)
+        : undefined;
+      const cached = cacheKey && !requestBypassesCache(req.headers)
+        ? await responseCache.get(cacheKey)
         : undefined;
-      const stripSet = buildHopByHopSet(connectionValue);
-      // Always strip gateway-internal headers regardless of Connection listing
-      for (const h of config.stripHeaders) stripSet.add(h.toLowerCase());
+      if (cacheKey) recordGatewayResponseCache(String(apiEntry.id), cached ? 'hit' : 'miss');
+
+      let upstreamStatus = 502;
+      let units: number | undefined;
+      let streamMeter: StreamMeter | undefined;
 
-      for (const [key, value] of Object.entries(req.headers)) {
-        if (!stripSet.has(key.toLowerCase()) && typeof value === 'string') {
-          forwardHeaders[key] = value;
+      if (cached) {
+        upstreamStatus = cached.status;
+        units = cached.units;
+        for (const [key, value] of cached.headers) res.set(key, value);
+        res.set('age', String(cachedResponseAge(cached)));
+        res.set(CACHE_STATUS_HEADER, 'HIT');
+        res.set('x-request-id', requestId);
+        res.set(meteringHeaders(metering));
+        res.status(upstreamStatus).end(cached.body);
+      } else if (sandbox?.type === 'fixture') {
+        // 5b. Sandbox fixture — the provider's canned response, sent as is.
+        const { fixture } = sandbox;
+        upstreamStatus = fixture.status;
+        res.set(fixture.headers);
+        res.set(SANDBOX_HEADER, 'fixture');
+        res.set('x-request-id', requestId);
+        res.status(upstreamStatus);
+        if (typeof fixture.body === 'string') {
+          res.send(fixture.body);
+        } else {
+          res.json(fixture.body);
         }
-      }
-      forwardHeaders['x-request-id'] = requestId;
+      } else {
+        // 6a. Origins — the balancer's pick, then the rest of its order, less
+        //     those whose breaker is open. Retries and hedged requests go to
+        //     the next origin in turn. When every breaker is open the pick is
+        //     used and rejected by its breaker below. Test calls have the one
+        //     sandbox origin.
+        const origins = sandbox?.type === 'upstream'
+          ? [sandbox.origin]
+          : originBalancer.order(resolveOrigins(apiEntry));
+        const candidates: ResolvedOrigin[] = [];
+        for (const candidate of origins) {
+          breakerRegistry.register(candidate.breakerKey, circuitBreaker);
+        }
+        for (const candidate of origins) {
+          if (!(await circuitBreaker.wouldBlock(candidate.breakerKey))) {
+            candidates.push(candidate);
+          }
+        }
+        if (candidates.length === 0) candidates.push(origins[0]);
+        let origin = candidates[0];
 
-      // 7. Proxy with circuit breaker and timeout
-      let upstreamStatus = 502;
-      const timer = startUpstreamTimer(apiEntry.id, req.method);
-
-      try {
-        const upstreamRes = await circuitBreaker.execute(breakerKey, async () => {
-          const res = await fetch(safeUpstreamTarget, {
-            method: req.method,
-            headers: forwardHeaders,
-            body: ['GET', 'HEAD'].includes(req.method) ? undefined : JSON.stringify(req.body),
-            signal: AbortSignal.timeout(config.timeoutMs),
-          });
-          return res;
-        });
+        // 6. Build forwarded headers — strip hop-by-hop and gateway-internal headers.
+        // buildHopByHopSet() also strips any additional names listed in the
+        // incoming Connection header value (RFC 7230 §6.1).
+        const callerHeaders: Record<string, string> = {};
+        const connectionValue = typeof req.headers['connection'] === 'string'
+          ? req.headers['connection']
+          : undefined;
+        const stripSet = buildHopByHopSet(connectionValue);
+        // Always strip gateway-internal headers regardless of Connection listing
+        for (const h of config.stripHeaders) stripSet.add(h.toLowerCase());
 
-        upstreamStatus = upstreamRes.status;
-        timer.stop(upstreamStatus, 'success');
-
-        // Update circuit breaker state metric after success
-        const updatedMetrics = await circuitBreaker.getMetrics(breakerKey);
-        const updatedStateValue = updatedMetrics.state === 'CLOSED' ? 0 : updatedMetrics.state === 'OPEN' ? 1 : 2;
-        setGatewayUpstreamBreakerState(breakerKey, updatedStateValue);
-
-        // Forward response headers — strip hop-by-hop headers from the upstream
-        // response, including any names listed in the upstream Connection header.
-        const upstreamConnection = upstreamRes.headers.get('connection') ?? undefined;
-        const responseStripSet = buildHopByHopSet(upstreamConnection);
-        upstreamRes.headers.forEach((value, key) => {
-          if (!responseStripSet.has(key.toLowerCase())) {
-            res.set(key, value);
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (!stripSet.has(key.toLowerCase()) && typeof value === 'string') {
+            callerHeaders[key] = value;
           }
-        });
-        res.set('x-request-id', requestId);
+        }
 
-        // Stream body back
-        res.status(upstreamStatus);
-        if (upstreamRes.body) {
-          const reader = upstreamRes.body.getReader();
-          const pump = async (): Promise<void> => {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              res.write(value);
+        // 6c. Transform rules — the provider's request rules reshape the path,
+        //     query and headers sent upstream; its response rules (step 7b)
+        //     what is sent back (see transformRules.ts). The upstream
+        //     credential is injected after them, so no rule can replace it.
+        const transforms = await transformRules.current(String(apiEntry.id));
+        const upstreamRequest = transforms
+          ? transformRequest(transforms.request, { path: wildcardPath, query: {}, headers: callerHeaders })
+          : { path: wildcardPath, query: {}, headers: callerHeaders };
+        const forwardHeaders = upstreamRequest.headers;
+        forwardHeaders['x-request-id'] = requestId;
+
+        // The live upstream's credential is never sent to the sandbox.
+        let upstreamCredential: UpstreamCredential | null = null;
+        if (!sandbox) {
+          try {
+            upstreamCredential = await upstreamCredentials.resolve(String(apiEntry.id));
+          } catch (error) {
+            logger.error({ apiId: apiEntry.id, err: error }, 'Failed to open upstream credential');
+            throw new BadGatewayError(
+              'Bad Gateway: upstream credential unavailable',
+              'UPSTREAM_CREDENTIAL_UNAVAILABLE',
+            );
+          }
+        }
+
+        // The validated upstream URL on an origin, with the provider-managed
+        // upstream credential injected, overwriting any same-named header or
+        // query parameter the caller supplied.
+        const safeTargets = new Map<string, string>();
+        const safeTargetOf = async (candidate: ResolvedOrigin): Promise<string> => {
+          const known = safeTargets.get(candidate.breakerKey);
+          if (known) return known;
+          let safeUpstreamTarget: string;
+          try {
+            safeUpstreamTarget = await validateResolvedUpstreamTarget(buildUpstreamTargetUrl(candidate.url, upstreamRequest.path), {
+              allowedHosts: config.allowedHosts,
+            });
+          } catch (error) {
+            const message = error instanceof Error
+              ? error.message
+              : 'Configured upstream target is not allowed.';
+            throw new BadGatewayError(message, 'UPSTREAM_TARGET_BLOCKED');
+          }
+          const query = Object.entries(upstreamRequest.query);
+          if (query.length > 0) {
+            const withQuery = new URL(safeUpstreamTarget);
+            for (const [name, value] of query) withQuery.searchParams.set(name, value);
+            safeUpstreamTarget = withQuery.toString();
+          }
+          if (upstreamCredential) {
+            safeUpstreamTarget = applyUpstreamCredential(upstreamCredential, {
+              method: req.method,
+              url: safeUpstreamTarget,
+              headers: forwardHeaders,
+            });
+          }
+          safeTargets.set(candidate.breakerKey, safeUpstreamTarget);
+          return safeUpstreamTarget;
+        };
+        await safeTargetOf(origin);
+
+        // 6b. WebSocket — relay the upgrade to the origin, then the
+        //     connection's frames until either side closes. The connection is
+        //     metered per interval and closed with 4402 once the caller's
+        //     balance runs out. An upstream that declines the upgrade has its
+        //     answer forwarded, unbilled.
+        if (upgrade && endpoint.streamPricing) {
+          let tunnel: WebSocketTunnel;
+          try {
+            tunnel = await openWebSocketTunnel(req, res, {
+              target: await safeTargetOf(origin),
+              headers: forwardHeaders,
+              responseHeaders: {
+                'x-request-id': requestId,
+                ...(sandbox ? { [SANDBOX_HEADER]: 'upstream' } : {}),
+              },
+              timeoutMs,
+            });
+          } catch (error) {
+            throw error instanceof DOMException && error.name === 'TimeoutError'
+              ? new GatewayTimeoutError('Upstream service timed out')
+              : new BadGatewayError('Bad Gateway: upstream unreachable');
+          }
+
+          if (!tunnel.upgraded) {
+            releaseMeteredCall();
+            const declined = tunnel.response;
+            const responseStripSet = buildHopByHopSet(declined.headers.connection);
+            for (const [key, value] of Object.entries(declined.headers)) {
+              if (value !== undefined && !responseStripSet.has(key)) res.set(key, value);
             }
-            res.end();
-          };
-          await pump();
-        } else {
-          const text = await upstreamRes.text();
-          res.send(text);
+            res.set('x-request-id', requestId);
+            res.status(declined.statusCode ?? 502);
+            declined.pipe(res);
+            return;
+          }
+
+          let exhausted = false;
+          const meter = startStreamMeter(endpoint.streamPricing, 101, () => {
+            exhausted = true;
+            relay.close(STREAM_CLOSE_INSUFFICIENT_BALANCE, STREAM_CLOSE_INSUFFICIENT_BALANCE_REASON);
+          });
+          const relay = relayWebSocket(tunnel.client, tunnel.upstream, {
+            clientHead: tunnel.clientHead,
+            upstreamHead: tunnel.upstreamHead,
+            onMessages: (count) => meter.recordMessages(count),
+          });
+          void relay.closed.then(async () => {
+            await meter.stop();
+            recordGatewayStreamConnection(String(apiEntry.id), 'websocket', exhausted ? 'insufficient_balance' : 'closed');
+          });
+          return;
         }
-      } catch (err: unknown) {
-        let outcome: UpstreamOutcome = 'error';
-
-        if (err instanceof CircuitBreakerOpenError) {
-          // Circuit breaker open — don't bill the caller
-          upstreamStatus = 502;
-          timer.stop(upstreamStatus, outcome);
-          // Update metric
-          await circuitBreaker.getMetrics(breakerKey);
-          setGatewayUpstreamBreakerState(breakerKey, 1);
-          throw new BadGatewayError('Bad Gateway: upstream unavailable');
-        } else if (err instanceof DOMException && err.name === 'TimeoutError') {
-          upstreamStatus = 504;
-          outcome = 'timeout';
-          timer.stop(upstreamStatus, outcome);
-          // Update metric after failure
-          const failedMetrics = await circuitBreaker.getMetrics(breakerKey);
-          const failedStateValue = failedMetrics.state === 'CLOSED' ? 0 : failedMetrics.state === 'OPEN' ? 1 : 2;
-          setGatewayUpstreamBreakerState(breakerKey, failedStateValue);
-          throw new GatewayTimeoutError('Upstream service timed out');
-        } else if (err instanceof TypeError && (err as NodeJS.ErrnoException).code === 'UND_ERR_CONNECT_TIMEOUT') {
-          upstreamStatus = 504;
-          outcome = 'timeout';
-          timer.stop(upstreamStatus, outcome);
-          // Update metric after failure
-          const failedMetrics = await circuitBreaker.getMetrics(breakerKey);
-          const failedStateValue = failedMetrics.state === 'CLOSED' ? 0 : failedMetrics.state === 'OPEN' ? 1 : 2;
-          setGatewayUpstreamBreakerState(breakerKey, failedStateValue);
-          throw new GatewayTimeoutError('Upstream service timed out');
-        } else {
-          upstreamStatus = 502;
-          timer.stop(upstreamStatus, outcome);
-          // Update metric after failure
-          const failedMetrics = await circuitBreaker.getMetrics(breakerKey);
-          const failedStateValue = failedMetrics.state === 'CLOSED' ? 0 : failedMetrics.state === 'OPEN' ? 1 : 2;
-          setGatewayUpstreamBreakerState(breakerKey, failedStateValue);
-          throw new BadGatewayError('Bad Gateway: upstream unreachable');
+
+        // Pass the caller's body through untouched. A re-serialised fallback
+        // (body already consumed by an app-level parser) no longer matches the
+        // original Content-Length, so let fetch() compute it. A call that may
+        // be sent again needs its body in memory, as does a checked one.
+        const retryPolicy = resolveRetryPolicy(apiEntry, req.method, req.headers);
+        let upstreamBody = checkedBody ?? buildUpstreamRequestBody(req, bodyLimitBytes, tooLarge);
+        if (retryPolicy.maxAttempts > 1 || retryPolicy.hedge) {
+          upstreamBody = await bufferUpstreamRequestBody(upstreamBody);
+        }
+        if (upstreamBody.reserialised) {
+          delete forwardHeaders['content-length'];
+        }
+
+        // 7. Proxy with circuit breaker and timeout, retrying idempotent calls
+        //    (see proxyRetry.ts). Each attempt goes through its origin's breaker.
+        const apiId = String(apiEntry.id);
+        const timer = startUpstreamTimer(apiEntry.id, req.method);
+        const originOfResponse = new WeakMap<globalThis.Response, ResolvedOrigin>();
+        let tries = 0;
+        let attempts = 0;
+        retryBudget.recordCall(apiId);
+
+        const sendAttempt = async (signal: AbortSignal): Promise<globalThis.Response> => {
+          const attemptOrigin = candidates[tries % candidates.length];
+          tries += 1;
+          origin = attemptOrigin;
+          const target = await safeTargetOf(attemptOrigin);
+          const startedAt = Date.now();
+          let callerError: unknown;
+          const attemptRes = await circuitBreaker.execute(attemptOrigin.breakerKey, async () => {
+            attempts += 1;
+            // A streaming endpoint's timeout covers the response headers
+            // only, so an event stream can stay open.
+            const deadline = endpoint.streamPricing
+              ? responseHeadersDeadline(timeoutMs)
+              : { signal: AbortSignal.timeout(timeoutMs), clear: () => undefined };
+            try {
+              return await fetch(target, {
+                method: req.method,
+                headers: forwardHeaders,
+                body: upstreamBody.body as BodyInit | undefined,
+                duplex: upstreamBody.duplex,
+                signal: AbortSignal.any([signal, deadline.signal]),
+              } as RequestInit);
+            } catch (error) {
+              // A hedged request dropped because the other one answered first
+              // says nothing about the origin's health, and neither does an
+              // upload that crossed the body limit or that the caller broke off.
+              if (signal.aborted) return null;
+              if (upstreamBody.callerFailed()) {
+                callerError = error;
+                return null;
+              }
+              throw error;
+            } finally {
+              deadline.clear();
+            }
+          });
+          if (!attemptRes) throw callerError ?? signal.reason;
+          // The sandbox's latency says nothing about the live origins'.
+          if (!sandbox) {
+            const latencyMs = Date.now() - startedAt;
+            originBalancer.recordLatency(attemptOrigin.breakerKey, latencyMs);
+            latencyTracker.record(apiId, latencyMs);
+          }
+          originOfResponse.set(attemptRes, attemptOrigin);
+          return attemptRes;
+        };
+
+        const hedgeAfterMs = retryPolicy.hedge && !sandbox ? latencyTracker.p95(apiId) : null;
+
+        try {
+          const upstreamRes = await sendWithRetries(sendAttempt, {
+            maxAttempts: retryPolicy.maxAttempts,
+            baseDelayMs: appConfig.proxyRetry.baseDelayMs,
+            hedgeAfterMs,
+            acquire(kind) {
+              const acquired = retryBudget.tryAcquire(apiId);
+              recordGatewayUpstreamExtraAttempt(apiId, kind, acquired ? 'sent' : 'budget_exhausted');
+              return acquired;
+            },
+          });
+          origin = originOfResponse.get(upstreamRes) ?? origin;
+          res.set(ATTEMPTS_HEADER, String(attempts));
+
+          upstreamStatus = upstreamRes.status;
+          timer.stop(upstreamStatus, 'success');
+
+          // A response the upstream declares too large for the endpoint is
+          // refused before anything is sent to the caller.
+          const maxResponseBytes = policy.maxResponseBytes;
+          if (maxResponseBytes !== undefined && Number(upstreamRes.headers.get('content-length')) > maxResponseBytes) {
+            void upstreamRes.body?.cancel();
+            throw endpointResponseTooLargeError(maxResponseBytes);
+          }
+
+          if (isUnitPriced(endpoint) && config.recordableStatuses(upstreamStatus)) {
+            units = parseReportedUnits(
+              upstreamRes.headers.get(unitsHeaderOf(endpoint.unitPricing)),
+              endpoint.unitPricing,
+              { requestId, apiId: apiEntry.id, endpointId: endpoint.endpointId },
+            );
+          }
+
+          // Update circuit breaker state metric after success
+          const updatedMetrics = await circuitBreaker.getMetrics(origin.breakerKey);
+          const updatedStateValue = updatedMetrics.state === 'CLOSED' ? 0 : updatedMetrics.state === 'OPEN' ? 1 : 2;
+          setGatewayUpstreamBreakerState(origin.breakerKey, updatedStateValue);
+
+          // Forward response headers — strip hop-by-hop headers from the upstream
+          // response, including any names listed in the upstream Connection header.
+          const upstreamConnection = upstreamRes.headers.get('connection') ?? undefined;
+          const responseStripSet = buildHopByHopSet(upstreamConnection);
+          const upstreamHeaders: Record<string, string> = {};
+          upstreamRes.headers.forEach((value, key) => {
+            if (!responseStripSet.has(key.toLowerCase())) upstreamHeaders[key] = value;
+          });
+          const forwardedResponseHeaders: Array<[string, string]> = Object.entries(
+            transforms ? transformResponseHeaders(transforms.response, upstreamHeaders) : upstreamHeaders,
+          );
+          for (const [key, value] of forwardedResponseHeaders) res.set(key, value);
+          res.set('x-request-id', requestId);
+          if (sandbox) res.set(SANDBOX_HEADER, 'upstream');
+          res.set(meteringHeaders(metering));
+
+          // 7b. An upstream error that a `map_error` rule matches is answered
+          //     with the rule's Callora error envelope instead of its body.
+          const errorMapping = transforms && upstreamStatus >= 400
+            ? errorMappingFor(transforms.response, upstreamStatus)
+            : null;
+
+          // A copy of the body is kept for the cache when the upstream allows
+          // it, and dropped once it outgrows a cache entry.
+          const cacheTtlMs = cachePolicy && !errorMapping
+            ? storableTtlMs(cachePolicy, upstreamStatus, upstreamRes.headers)
+            : 0;
+          let cacheBody: Buffer[] | null = cacheTtlMs > 0 ? [] : null;
+          let cacheBodyBytes = 0;
+          if (cachePolicy) res.set(CACHE_STATUS_HEADER, 'MISS');
+
+          // Stream body back
+          res.status(upstreamStatus);
+          if (errorMapping) {
+            void upstreamRes.body?.cancel();
+            for (const header of ['content-length', 'content-encoding', 'content-type', 'etag']) {
+              res.removeHeader(header);
+            }
+            const mapped = mappedErrorResponse(errorMapping, upstreamStatus, requestId);
+            res.status(mapped.status).json(mapped.body);
+          } else if (upstreamRes.body) {
+            const reader = upstreamRes.body.getReader();
+            let responseBytes = 0;
+
+            // 7a. An event stream from a streaming endpoint is metered per
+            //     interval, and ended with a `callora.close` event between two
+            //     events once the caller's balance runs out.
+            const events = endpoint.streamPricing && isEventStream(upstreamRes.headers)
+              ? new SseEventCounter()
+              : null;
+            let closeRequested = false;
+            const closeEventStream = (): void => {
+              if (!res.writableEnded) {
+                res.end(sseCloseEvent(STREAM_CLOSE_INSUFFICIENT_BALANCE, STREAM_CLOSE_INSUFFICIENT_BALANCE_REASON));
+              }
+              reader.cancel().catch(() => undefined);
+            };
+            if (events && endpoint.streamPricing) {
+              streamMeter = startStreamMeter(endpoint.streamPricing, upstreamStatus, () => {
+                closeRequested = true;
+                if (events.atEventBoundary) closeEventStream();
+              });
+              const meter = streamMeter;
+              res.flushHeaders();
+              res.once('close', () => {
+                reader.cancel().catch(() => undefined);
+                void meter.stop().then(() => {
+                  recordGatewayStreamConnection(String(apiEntry.id), 'sse', closeRequested ? 'insufficient_balance' : 'closed');
+                });
+              });
+            }
+
+            const pump = async (): Promise<void> => {
+              while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                // An undeclared body that outgrows the endpoint's limit has
+                // already been partly sent, so the connection is cut.
+                responseBytes += value.byteLength;
+                if (maxResponseBytes !== undefined && responseBytes > maxResponseBytes) {
+                  await reader.cancel();
+                  res.destroy();
+                  throw endpointResponseTooLargeError(maxResponseBytes);
+                }
+                res.write(value);
+                if (events) {
+                  streamMeter?.recordMessages(events.push(value));
+                  if (closeRequested && events.atEventBoundary) {
+                    closeEventStream();
+                    return;
+                  }
+                }
+                if (cacheBody) {
+                  cacheBodyBytes += value.byteLength;
+                  if (cacheBodyBytes > responseCache.maxEntryBytes) cacheBody = null;
+                  else cacheBody.push(Buffer.from(value));
+                }
+              }
+              if (!res.writableEnded) res.end();
+            };
+            await pump();
+          } else {
+            const text = await upstreamRes.text();
+            cacheBody?.push(Buffer.from(text));
+            res.send(text);
+          }
+
+          if (cacheKey && cacheBody) {
+            const storedAt = Date.now();
+            try {
+              await responseCache.set(cacheKey, {
+                apiId: String(apiEntry.id),
+                status: upstreamStatus,
+                headers: replayableHeaders(forwardedResponseHeaders),
+                body: Buffer.concat(cacheBody),
+                units,
+                storedAt,
+                expiresAt: storedAt + cacheTtlMs,
+              });
+            } catch (error) {
+              logger.warn({ apiId: apiEntry.id, err: error }, 'Failed to cache upstream response');
+            }
+          }
+        } catch (err: unknown) {
+          let outcome: UpstreamOutcome = 'error';
+          if (attempts > 0 && !res.headersSent) res.set(ATTEMPTS_HEADER, String(attempts));
+
+          if (upstreamBody.limitExceeded()) {
+            // A chunked body crossed the limit mid-stream — the caller's fault,
+            // not the upstream's, and nothing is billed.
+            upstreamStatus = 413;
+            timer.stop(upstreamStatus, outcome);
+            throw tooLarge();
+          } else if (err instanceof CircuitBreakerOpenError) {
+            // Circuit breaker open — don't bill the caller
+            upstreamStatus = 502;
+            timer.stop(upstreamStatus, outcome);
+            // Update metric
+            await circuitBreaker.getMetrics(origin.breakerKey);
+            setGatewayUpstreamBreakerState(origin.breakerKey, 1);
+            throw new BadGatewayError('Bad Gateway: upstream unavailable');
+          } else if (err instanceof DOMException && err.name === 'TimeoutError') {
+            upstreamStatus = 504;
+            outcome = 'timeout';
+            timer.stop(upstreamStatus, outcome);
+            // Update metric after failure
+            const failedMetrics = await circuitBreaker.getMetrics(origin.breakerKey);
+            const failedStateValue = failedMetrics.state === 'CLOSED' ? 0 : failedMetrics.state === 'OPEN' ? 1 : 2;
+            setGatewayUpstreamBreakerState(origin.breakerKey, failedStateValue);
+            throw policy.timeoutMs !== undefined
+              ? endpointTimeoutError(timeoutMs)
+              : new GatewayTimeoutError('Upstream service timed out');
+          } else if (err instanceof TypeError && (err as NodeJS.ErrnoException).code === 'UND_ERR_CONNECT_TIMEOUT') {
+            upstreamStatus = 504;
+            outcome = 'timeout';
+            timer.stop(upstreamStatus, outcome);
+            // Update metric after failure
+            const failedMetrics = await circuitBreaker.getMetrics(origin.breakerKey);
+            const failedStateValue = failedMetrics.state === 'CLOSED' ? 0 : failedMetrics.state === 'OPEN' ? 1 : 2;
+            setGatewayUpstreamBreakerState(origin.breakerKey, failedStateValue);
+            throw new GatewayTimeoutError('Upstream service timed out');
+          } else if (isAppError(err)) {
+            // A retry's origin failed the upstream target checks, or the
+            // response outgrew the endpoint's limit. (AppError resets the
+            // prototype, so subclasses cannot be told apart by instanceof.)
+            upstreamStatus = 502;
+            timer.stop(upstreamStatus, outcome);
+            throw err;
+          } else {
+            upstreamStatus = 502;
+            timer.stop(upstreamStatus, outcome);
+            // Update metric after failure
+            const failedMetrics = await circuitBreaker.getMetrics(origin.breakerKey);
+            const failedStateValue = failedMetrics.state === 'CLOSED' ? 0 : failedMetrics.state === 'OPEN' ? 1 : 2;
+            setGatewayUpstreamBreakerState(origin.breakerKey, failedStateValue);
+            throw new BadGatewayError('Bad Gateway: upstream unreachable');
+          }
         }
       }
 
@@ -318,7 +1069,13 @@ export function createProxyRouter(deps: ProxyDeps): Router {
       //    streaming) ensures we capture the event even if the stream
       //    completes synchronously.  The 'close' listener is a guard that
       //    cancels the deferred work when the socket drops first.
-      if (config.recordableStatuses(upstreamStatus)) {
+      if (streamMeter) {
+        // An event stream is billed per metering interval (step 7a).
+      } else if (endpoint.streamPricing || !config.recordableStatuses(upstreamStatus)) {
+        // A streaming endpoint bills only its streams.
+        releaseMeteredCall();
+        releaseHold();
+      } else {
         // Track whether the response finished cleanly before the socket closed.
         let responseFinished = false;
 
@@ -329,7 +1086,29 @@ export function createProxyRouter(deps: ProxyDeps): Router {
           // delay the event loop that is already handling the next request.
           setImmediate(() => {
             void (async () => {
+              // Settles once the charge has been made; the hold is kept
+              // until then so concurrent calls cannot overspend the balance.
+              let charged: Promise<unknown> | undefined;
               try {
+                // A replayed requestId is neither counted nor billed again.
+                if (await usageStore.hasEvent(requestId)) return;
+
+                // Unit-priced endpoints are charged for the units the upstream
+                // reported; tiered endpoints by the caller's call count this
+                // billing period; flat endpoints just use priceUsdc.
+                // Cache hits are charged the policy's hit price when it has one.
+                // Test calls are recorded, flagged, at no charge.
+                const amountUsdc = sandbox
+                  ? 0
+                  : cached && cachePolicy?.hitPriceUsdc !== undefined
+                  ? cachePolicy.hitPriceUsdc
+                  : isUnitPriced(endpoint)
+                    ? unitChargeUsdc(endpoint.unitPricing, units ?? 0)
+                    : await priceCall(endpoint, pricingCounter, {
+                        userId: keyRecord.userId,
+                        apiId: String(apiEntry.id),
+                      });
+
                 const recorded = await usageStore.record({
                   id: randomUUID(), // ID of the usage event itself
                   requestId,        // Idempotency key — prevents double-counts
@@ -338,9 +1117,11 @@ export function createProxyRouter(deps: ProxyDeps): Router {
                   apiId: String(apiEntry.id),
                   endpointId: endpoint.endpointId,
                   userId: keyRecord.userId,
-                  amountUsdc: endpoint.priceUsdc,
+                  amountUsdc,
+                  units,
                   statusCode: upstreamStatus,
                   timestamp: new Date().toISOString(),
+                  ...(sandbox ? { test: true } : {}),
                 });
 
                 if (recorded) {
@@ -352,9 +1133,11 @@ export function createProxyRouter(deps: ProxyDeps): Router {
                     apiId: String(apiEntry.id),
                     endpointId: endpoint.endpointId,
                     userId: keyRecord.userId,
-                    amountUsdc: endpoint.priceUsdc,
+                    amountUsdc,
+                    units,
                     statusCode: upstreamStatus,
                     timestamp: new Date().toISOString(),
+                    ...(sandbox ? { test: true } : {}),
                   });
                 }
 
@@ -367,14 +1150,38 @@ export function createProxyRouter(deps: ProxyDeps): Router {
                 });
 
                 // Only deduct billing if this requestId hasn't been processed
-                // before (idempotency guard inside usageStore.record).
-                if (recorded && endpoint.priceUsdc > 0) {
-                  billing.deductCredit(keyRecord.userId, endpoint.priceUsdc).catch((err) => {
-                    console.error('Background billing deduction failed:', err);
-                  });
+                // before (idempotency guard inside usageStore.record). Backends
+                // with chargeUsage anchor the charge to the requestId as well.
+                if (recorded && amountUsdc > 0) {
+                  const charge = billing.chargeUsage
+                    ? billing.chargeUsage({
+                        requestId,
+                        developerId: keyRecord.userId,
+                        apiId: String(apiEntry.id),
+                        endpointId: endpoint.endpointId,
+                        apiKeyId: keyRecord.id,
+                        amountUsdc,
+                      })
+                    : billing.deductCredit(keyRecord.userId, amountUsdc);
+                  charged = charge.then(
+                    async (result) => {
+                      if (result.success) {
+                        await hold?.capture(amountUsdc);
+                        await spendCaps.record(keyRecord, amountUsdc);
+                      } else {
+                        releaseHold();
+                      }
+                    },
+                    (err) => {
+                      console.error('Background billing deduction failed:', err);
+                      releaseHold();
+                    },
+                  );
                 }
               } catch (err) {
                 console.error('Background usage recording failed:', err);
+              } finally {
+                if (!charged) releaseHold();
               }
             })();
           });
@@ -386,10 +1193,14 @@ export function createProxyRouter(deps: ProxyDeps): Router {
           // abort when 'finish' has NOT already fired.
           if (!responseFinished) {
             recordProxyPrematureAbort();
+            releaseMeteredCall();
+            releaseHold();
           }
         });
       }
     } catch (error) {
+      releaseMeteredCall();
+      releaseHold();
       next(error);
     }
   }
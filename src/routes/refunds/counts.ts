@@ -5,12 +5,13 @@
  *
  * RBAC:
  *   Developer (requireAuth):  counts scoped to own disputes
- *   Admin    (adminAuth):     counts across all developers
+ *   Admin    (adminAuth):     counts across all developers (refunds:read)
  */
 
 import { Router, type Response } from 'express';
 import { requireAuth, type AuthenticatedLocals } from '../../middleware/requireAuth.js';
 import { adminAuth } from '../../middleware/adminAuth.js';
+import { requireAdminPermission } from '../../middleware/adminPermission.js';
 import { logger } from '../../logger.js';
 import {
   DisputeService,
@@ -69,6 +70,7 @@ export function createRefundsCountsRouter(deps: RefundsCountsRouterDeps = {}): R
   router.get(
     '/admin',
     adminAuth,
+    requireAdminPermission('refunds:read'),
     (req, res, next) => {
       try {
         const disputes = svc.listAll();
@@ -9,6 +9,7 @@ import type { SubscriptionRepository } from '../repositories/subscriptionReposit
 import type { ApiRepository } from '../repositories/apiRepository.js';
 import type { DeveloperRepository } from '../repositories/developerRepository.js';
 import type { Api, Developer, Subscription } from '../db/schema.js';
+import { ApiVersionService, InMemoryApiVersionStore } from '../services/apiVersions.js';
 
 const TEST_ORIGIN = 'https://app.callora.com';
 
@@ -69,6 +70,7 @@ const makeSubscription = (overrides: Partial<Subscription> = {}): Subscription =
   status: 'active',
   metering_limit: null,
   retry_policy: null,
+  pinned_version: null,
   created_at: now,
   updated_at: now,
   cancelled_at: null,
@@ -85,6 +87,7 @@ function makeSubscriptionRepo(overrides: Partial<SubscriptionRepository> = {}):
     findById: jest.fn().mockResolvedValue(undefined),
     findByUserId: jest.fn().mockResolvedValue([]),
     findActiveByUserAndApi: jest.fn().mockResolvedValue(undefined),
+    findActiveByApi: jest.fn().mockResolvedValue([]),
     update: jest.fn().mockResolvedValue(makeSubscription()),
     cancel: jest.fn().mockResolvedValue(makeSubscription({ status: 'cancelled', cancelled_at: now })),
     ...overrides,
@@ -125,6 +128,7 @@ function buildApp(
   subscriptionRepo: SubscriptionRepository,
   apiRepo: ApiRepository,
   developerRepo: DeveloperRepository,
+  apiVersions?: ApiVersionService,
 ) {
   const app = express();
   app.use(express.json());
@@ -135,6 +139,7 @@ function buildApp(
       subscriptionRepository: subscriptionRepo,
       apiRepository: apiRepo,
       developerRepository: developerRepo,
+      apiVersions,
     }),
   );
   app.use(errorHandler);
@@ -479,6 +484,42 @@ describe('PATCH /api/subscriptions/:id', () => {
     expect(res.status).toBe(200);
     expect(res.body.metering_limit).toBeNull();
   });
+
+  it('pins the subscription to a published version', async () => {
+    let clock = new Date('2026-01-01T00:00:00.000Z');
+    const apiVersions = new ApiVersionService(new InMemoryApiVersionStore(), { now: () => clock });
+    await apiVersions.publish('10', { version: 'v1', baseUrl: 'https://api.example.com/v1', endpoints: [] }, 'user-owner');
+    await apiVersions.deprecate('10', 'v1', { sunsetAt: new Date('2026-02-01T00:00:00.000Z') });
+
+    const sub = makeSubscription();
+    const subRepo = makeSubscriptionRepo({
+      findById: jest.fn().mockResolvedValue(sub),
+      update: jest.fn().mockResolvedValue(makeSubscription({ pinned_version: 'v1' })),
+    });
+    const app = buildApp(subRepo, makeApiRepo(), makeDeveloperRepo(), apiVersions);
+    const patch = (pinned_version: string | null) => request(app)
+      .patch('/api/subscriptions/sub-001')
+      .set('Origin', TEST_ORIGIN)
+      .set('x-user-id', 'user-subscriber')
+      .send({ pinned_version });
+
+    const pinned = await patch('v1');
+    expect(pinned.status).toBe(200);
+    expect(pinned.body.pinned_version).toBe('v1');
+    expect(subRepo.update).toHaveBeenCalledWith('sub-001', expect.objectContaining({ pinned_version: 'v1' }));
+
+    const unknown = await patch('v9');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.error.code).toBe('API_VERSION_NOT_FOUND');
+
+    clock = new Date('2026-02-01T00:00:00.000Z');
+    const sunset = await patch('v1');
+    expect(sunset.status).toBe(410);
+    expect(sunset.body.error.code).toBe('API_VERSION_SUNSET');
+
+    expect((await patch(null)).status).toBe(200);
+    expect(subRepo.update).toHaveBeenCalledTimes(2);
+  });
 });
 
 // ---------------------------------------------------------------------------
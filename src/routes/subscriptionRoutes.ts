@@ -15,6 +15,11 @@ import type { SubscriptionRepository } from '../repositories/subscriptionReposit
 import type { ApiRepository } from '../repositories/apiRepository.js';
 import type { DeveloperRepository } from '../repositories/developerRepository.js';
 import { validateRetryPolicy } from '../services/webhookRetry.js';
+import {
+  ApiVersionSunsetError,
+  defaultApiVersionService,
+  type ApiVersionService,
+} from '../services/apiVersions.js';
 import { logger } from '../logger.js';
 import { recordSubscriptionsLatency } from '../metrics/registry.js';
 
@@ -46,6 +51,8 @@ export interface SubscriptionRoutesDeps {
   rateLimitWindowMs?: number;
   /** Max requests per window (default: 30). */
   rateLimitMaxRequests?: number;
+  /** Versions subscriptions can be pinned to. Defaults to the shared service. */
+  apiVersions?: ApiVersionService;
 }
 
 // ---------------------------------------------------------------------------
@@ -83,6 +90,8 @@ const createSubscriptionSchema = z.object({
    * When omitted the platform defaults are used (maxRetries: 5, baseDelayMs: 1000 ms).
    */
   retry_policy: retryPolicySchema.nullable().optional(),
+  /** Version of the API calls without `@version` are answered by. */
+  pinned_version: z.string().trim().min(1).nullable().optional(),
 });
 
 const updateSubscriptionSchema = z
@@ -94,6 +103,8 @@ const updateSubscriptionSchema = z
      * Pass null to clear and revert to the platform default.
      */
     retry_policy: retryPolicySchema.nullable().optional(),
+    /** Pass null to follow the API's listing again. */
+    pinned_version: z.string().trim().min(1).nullable().optional(),
   })
   .refine((v) => Object.keys(v).length > 0, {
     message: 'At least one field must be provided',
@@ -110,6 +121,14 @@ const listQuerySchema = z.object({
 export function createSubscriptionRouter(deps: SubscriptionRoutesDeps): Router {
   const router = Router();
   const { subscriptionRepository, apiRepository, developerRepository } = deps;
+  const apiVersions = deps.apiVersions ?? defaultApiVersionService;
+
+  /** A subscription can only be pinned to a version the API has and has not sunset. */
+  async function checkPinnedVersion(apiId: number, version: string | null | undefined): Promise<void> {
+    if (version == null) return;
+    const pinned = await apiVersions.get(String(apiId), version);
+    if (apiVersions.isSunset(pinned)) throw new ApiVersionSunsetError(pinned);
+  }
 
   // Env-driven CORS allowlist (deny by default; preflight cached).
   // Applied before auth so the preflight OPTIONS request can succeed
@@ -144,7 +163,8 @@ export function createSubscriptionRouter(deps: SubscriptionRoutesDeps): Router {
   // -------------------------------------------------------------------------
   // POST /api/subscriptions
   // Subscribe the authenticated user to a marketplace API.
-  // Accepts an optional retry_policy override for webhook delivery.
+  // Accepts an optional retry_policy override for webhook delivery and an
+  // optional pinned_version.
   // -------------------------------------------------------------------------
   router.post(
     '/',
@@ -187,11 +207,14 @@ export function createSubscriptionRouter(deps: SubscriptionRoutesDeps): Router {
         throw new ConflictError('You already have an active subscription for this API');
       }
 
+      await checkPinnedVersion(body.api_id, body.pinned_version);
+
       const subscription = await subscriptionRepository.create({
         user_id: user.id,
         api_id: body.api_id,
         metering_limit: body.metering_limit ?? null,
         retry_policy: body.retry_policy ?? null,
+        pinned_version: body.pinned_version ?? null,
       });
 
       if (body.retry_policy != null) {
@@ -255,7 +278,8 @@ export function createSubscriptionRouter(deps: SubscriptionRoutesDeps): Router {
 
   // -------------------------------------------------------------------------
   // PATCH /api/subscriptions/:id
-  // Update metering preferences, pause/resume, or set a custom retry policy.
+  // Update metering preferences, pause/resume, set a custom retry policy, or
+  // pin the version of the API calls use.
   // -------------------------------------------------------------------------
   router.patch(
     '/:id',
@@ -288,6 +312,8 @@ export function createSubscriptionRouter(deps: SubscriptionRoutesDeps): Router {
         }
       }
 
+      await checkPinnedVersion(subscription.api_id, body.pinned_version);
+
       const updated = await subscriptionRepository.update(req.params.id, body);
       if (!updated) {
         throw new NotFoundError('Subscription not found');
@@ -300,6 +326,12 @@ export function createSubscriptionRouter(deps: SubscriptionRoutesDeps): Router {
           retryPolicy: body.retry_policy,
         });
       }
+      if (body.pinned_version !== undefined) {
+        logger.audit('SUBSCRIPTION_VERSION_PINNED', user.id, {
+          subscriptionId: req.params.id,
+          pinnedVersion: body.pinned_version,
+        });
+      }
 
       res.json(updated);
     }),
@@ -131,7 +131,7 @@ describe('GET /api/usage/csv', () => {
     expect(res.headers['cache-control']).toBe('no-store');
 
     const lines = res.text.trimEnd().split('\n');
-    expect(lines[0]).toBe('id,apiId,endpoint,occurredAt,revenue');
+    expect(lines[0]).toBe('id,apiId,endpoint,occurredAt,revenue,units');
     expect(lines).toHaveLength(3); // header + 2 owned events
     expect(res.text).toContain('evt-1,api-1,/v1/resource,2026-03-01T10:00:00.000Z,1500');
     expect(res.text).toContain('evt-2,api-2,/v1/resource,2026-03-01T10:00:00.000Z,2500');
@@ -142,7 +142,21 @@ describe('GET /api/usage/csv', () => {
     const app = createTestApp(new InMemoryUsageEventsRepository());
     const res = await auth(request(app).get('/api/usage/csv'));
     expect(res.status).toBe(200);
-    expect(res.text).toBe('id,apiId,endpoint,occurredAt,revenue\n');
+    expect(res.text).toBe('id,apiId,endpoint,occurredAt,revenue,units\n');
+  });
+
+  it('includes the upstream-reported units for unit-priced calls', async () => {
+    const repo = new InMemoryUsageEventsRepository([
+      makeEvent({ id: 'evt-units', revenue: 4200n, units: 42 }),
+      makeEvent({ id: 'evt-flat' }),
+    ]);
+    const app = createTestApp(repo);
+
+    const res = await auth(request(app).get('/api/usage/csv').query(WIDE_RANGE));
+
+    expect(res.status).toBe(200);
+    expect(res.text).toContain('evt-units,api-1,/v1/resource,2026-03-01T10:00:00.000Z,4200,42\n');
+    expect(res.text).toContain('evt-flat,api-1,/v1/resource,2026-03-01T10:00:00.000Z,1000,\n');
   });
 
   it('filters by apiId', async () => {
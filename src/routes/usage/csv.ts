@@ -16,7 +16,7 @@ export interface UsageCsvRouterDeps {
 const BATCH_SIZE = 500;
 
 /** Ordered CSV columns. Kept in sync with {@link buildCsvRow}. */
-const CSV_COLUMNS = ['id', 'apiId', 'endpoint', 'occurredAt', 'revenue'] as const;
+const CSV_COLUMNS = ['id', 'apiId', 'endpoint', 'occurredAt', 'revenue', 'units'] as const;
 const CSV_HEADER = CSV_COLUMNS.join(',') + '\n';
 
 /**
@@ -109,6 +109,7 @@ const buildCsvRow = (event: UsageEvent): string =>
     escapeCsvField(event.endpoint),
     escapeCsvField(event.occurredAt.toISOString()),
     escapeCsvField(event.revenue.toString()),
+    escapeCsvField(event.units == null ? '' : String(event.units)),
   ].join(',') + '\n';
 
 /**
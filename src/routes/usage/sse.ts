@@ -17,6 +17,7 @@ export interface UsageSseEventPayload {
   endpointId: string;
   userId: string;
   amountUsdc: number;
+  units?: number;
   statusCode: number;
   timestamp: string;
 }
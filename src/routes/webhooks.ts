@@ -8,8 +8,10 @@ import {
   captureRawBody,
   verifyWebhookSignature,
 } from '../webhooks/webhook.signature.js';
-import { AppError, BadRequestError, NotFoundError } from '../errors/index.js';
+import { AppError, BadRequestError, ForbiddenError, NotFoundError } from '../errors/index.js';
 import { createRestRateLimitMiddleware } from '../middleware/restRateLimit.js';
+import { requireAuth } from '../middleware/requireAuth.js';
+import { requireStepUp } from '../middleware/requireStepUp.js';
 import { config } from '../config/index.js';
 import { logger } from '../logger.js';
 import { validateRetryPolicy } from '../services/webhookRetry.js';
@@ -19,6 +21,23 @@ const router = Router();
 
 const webhookMgmtRateLimit = createRestRateLimitMiddleware(config.webhookRateLimit);
 
+// Changing where events are sent, or the secret that signs them, needs the
+// developer who owns the webhook to be signed in, plus an MFA step-up when
+// they have MFA on. The step-up subject is the signed-in developer, never the
+// developerId the caller sends.
+const webhookStepUp = [
+  requireAuth,
+  (req: Request, res: Response, next: NextFunction) => {
+    const developerId = req.params.developerId ?? req.body?.developerId;
+    if (developerId && developerId !== res.locals.authenticatedUser?.id) {
+      next(new ForbiddenError("Cannot change another developer's webhook"));
+      return;
+    }
+    next();
+  },
+  requireStepUp(),
+];
+
 const VALID_EVENTS: WebhookEventType[] = [
   'new_api_call',
   'settlement_completed',
@@ -83,7 +102,7 @@ async function auditStateChange(
 }
 
 // POST /api/webhooks — Register a webhook
-router.post('/', webhookMgmtRateLimit, express.json(), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', webhookMgmtRateLimit, express.json(), webhookStepUp, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { developerId, url, events, secret, retryPolicy } = req.body;
 
@@ -167,7 +186,7 @@ router.get('/:developerId', webhookMgmtRateLimit, (req: Request, res: Response)
 });
 
 // POST /api/webhooks/:developerId/rotate-secret — Rotate webhook signing secret
-router.post('/:developerId/rotate-secret', webhookMgmtRateLimit, (req: Request, res: Response) => {
+router.post('/:developerId/rotate-secret', webhookMgmtRateLimit, webhookStepUp, (req: Request, res: Response) => {
   const existing = WebhookStore.get(req.params.developerId);
   if (!existing) {
     throw new NotFoundError(
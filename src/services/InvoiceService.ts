@@ -7,6 +7,16 @@ export interface InvoiceGenerationResult {
   invoicesCreated: number;
 }
 
+/**
+ * Effective per-call price of a line item. For graduated / volume endpoints
+ * this is the blended price across the tiers the consumer went through.
+ */
+function averageUnitPrice(amount: string | number, usageCount: string | number): string {
+  const count = Number(usageCount);
+  if (count <= 0) return "0";
+  return (Number(amount) / count).toFixed(7);
+}
+
 export class InvoiceService {
   constructor(private readonly pool: Pool) {}
 
@@ -35,24 +45,28 @@ export class InvoiceService {
         };
       }
 
-      // Aggregate previous period usage
+      // Aggregate previous period usage per endpoint. amount_usdc is what
+      // each call was charged, so tiered endpoints are itemised at the tier
+      // prices actually billed. Test-mode calls are never invoiced.
       const usage = await client.query(
         `
         SELECT
           user_id AS developer_id,
           api_id,
+          endpoint_id,
           COUNT(*) AS usage_count,
           SUM(amount_usdc) AS amount
         FROM usage_events
         WHERE to_char(created_at,'YYYY-MM') = $1
-        GROUP BY user_id, api_id
+          AND NOT test
+        GROUP BY user_id, api_id, endpoint_id
         `,
         [periodId]
       );
 
       let invoicesCreated = 0;
 
-      const grouped = new Map<string, Array<{ developer_id: string; api_id: string; usage_count: string | number; amount: string | number }>>();
+      const grouped = new Map<string, Array<{ developer_id: string; api_id: string; endpoint_id: string; usage_count: string | number; amount: string | number }>>();
 
       for (const row of usage.rows) {
         if (!grouped.has(row.developer_id)) {
@@ -100,15 +114,19 @@ export class InvoiceService {
             (
               invoice_id,
               api_id,
+              endpoint_id,
               usage_count,
+              unit_price_usdc,
               amount_usdc
             )
-            VALUES ($1,$2,$3,$4)
+            VALUES ($1,$2,$3,$4,$5,$6)
             `,
             [
               invoiceId,
               item.api_id,
+              item.endpoint_id,
               item.usage_count,
+              averageUnitPrice(item.amount, item.usage_count),
               item.amount,
             ]
           );
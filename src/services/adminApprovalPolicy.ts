@@ -0,0 +1,54 @@
+/**
+ * Four-eyes approval policies for sensitive admin actions.
+ *
+ * A policy names an action and, for actions that move money, an optional
+ * `thresholdUsdc`: only requests for more than the threshold need a second
+ * admin. Without a threshold every request for the action does. Policies are
+ * configured with ADMIN_APPROVAL_POLICIES; see docs/admin-approvals.md.
+ */
+
+import type { AdminPermission } from './adminRbac.js';
+
+export const ADMIN_APPROVAL_ACTIONS = [
+  'credits.grant',
+  'refunds.issue',
+  'quotas.bulk_update',
+  'audit.replay',
+] as const;
+
+export type AdminApprovalAction = (typeof ADMIN_APPROVAL_ACTIONS)[number];
+
+/** Actions whose requests carry an amount a policy threshold applies to. */
+export const AMOUNT_APPROVAL_ACTIONS: readonly AdminApprovalAction[] = ['credits.grant', 'refunds.issue'];
+
+/** The permission an admin needs to approve or reject a request for the action. */
+export const ADMIN_APPROVAL_PERMISSIONS: Readonly<Record<AdminApprovalAction, AdminPermission>> = {
+  'credits.grant': 'credits:grant',
+  'refunds.issue': 'refunds:issue',
+  'quotas.bulk_update': 'quotas:write',
+  'audit.replay': 'audit:replay',
+};
+
+export interface AdminApprovalPolicy {
+  action: AdminApprovalAction;
+  /** Requests above this many USDC need approval. Credit grants and refunds only. */
+  thresholdUsdc?: number;
+}
+
+export interface AdminApprovalSubject {
+  /** The USDC amount the request moves, for actions that have one. */
+  amountUsdc?: string;
+}
+
+/** True when any policy for `action` covers this request. */
+export function policiesRequireApproval(
+  policies: readonly AdminApprovalPolicy[],
+  action: AdminApprovalAction,
+  subject: AdminApprovalSubject = {},
+): boolean {
+  return policies.some((policy) => {
+    if (policy.action !== action) return false;
+    if (policy.thresholdUsdc === undefined) return true;
+    return subject.amountUsdc !== undefined && Number(subject.amountUsdc) > policy.thresholdUsdc;
+  });
+}
@@ -0,0 +1,162 @@
+import { newDb } from 'pg-mem';
+import {
+  AdminApprovalService,
+  InMemoryAdminApprovalStore,
+  PostgresAdminApprovalStore,
+  type AdminApprovalActor,
+  type AdminApprovalExecutor,
+  type AdminApprovalStore,
+} from './adminApprovals.js';
+import { policiesRequireApproval, type AdminApprovalAction } from './adminApprovalPolicy.js';
+import { AppError, BadRequestError } from '../errors/index.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+const ALICE: AdminApprovalActor = { actor: 'finance:alice', identity: 'alice', role: 'finance' };
+const BOB: AdminApprovalActor = { actor: 'finance:bob', identity: 'bob', role: 'finance' };
+const CAROL: AdminApprovalActor = { actor: 'support:carol', identity: 'carol', role: 'support' };
+
+function createApprovalPool(): PersistentRateLimiterPool {
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.none(`
+    CREATE TABLE admin_approval_requests (
+      id TEXT PRIMARY KEY,
+      action TEXT NOT NULL,
+      params TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      requested_by TEXT NOT NULL,
+      requester_id TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMPTZ NOT NULL,
+      decided_by TEXT,
+      decided_at TIMESTAMPTZ,
+      note TEXT,
+      result TEXT,
+      error TEXT
+    );
+  `);
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+async function expectCode(promise: Promise<unknown>, code: string, status: number): Promise<void> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(AppError);
+  expect((error as AppError).code).toBe(code);
+  expect((error as AppError).statusCode).toBe(status);
+}
+
+describe('policiesRequireApproval', () => {
+  const policies = [
+    { action: 'credits.grant' as const, thresholdUsdc: 100 },
+    { action: 'audit.replay' as const },
+  ];
+
+  it('applies thresholds to the amount', () => {
+    expect(policiesRequireApproval(policies, 'credits.grant', { amountUsdc: '100' })).toBe(false);
+    expect(policiesRequireApproval(policies, 'credits.grant', { amountUsdc: '100.0000001' })).toBe(true);
+  });
+
+  it('covers every request when the policy has no threshold', () => {
+    expect(policiesRequireApproval(policies, 'audit.replay')).toBe(true);
+  });
+
+  it('leaves actions without a policy alone', () => {
+    expect(policiesRequireApproval(policies, 'refunds.issue', { amountUsdc: '5000' })).toBe(false);
+    expect(policiesRequireApproval([], 'credits.grant', { amountUsdc: '5000' })).toBe(false);
+  });
+});
+
+describe.each<[string, () => AdminApprovalStore]>([
+  ['InMemoryAdminApprovalStore', () => new InMemoryAdminApprovalStore()],
+  ['PostgresAdminApprovalStore', () => new PostgresAdminApprovalStore(createApprovalPool())],
+])('AdminApprovalService with %s', (_name, createStore) => {
+  let now: Date;
+  let executor: jest.Mock<ReturnType<AdminApprovalExecutor>, Parameters<AdminApprovalExecutor>>;
+  let service: AdminApprovalService;
+
+  beforeEach(() => {
+    now = new Date('2026-10-19T12:00:00Z');
+    executor = jest.fn().mockResolvedValue({ balance_usdc: '150' });
+    service = new AdminApprovalService({
+      store: createStore(),
+      policies: [{ action: 'credits.grant', thresholdUsdc: 100 }],
+      ttlSeconds: 3_600,
+      executors: new Map<AdminApprovalAction, AdminApprovalExecutor>([['credits.grant', executor]]),
+      now: () => now,
+    });
+  });
+
+  const params = { user_id: 'user_1', amount_usdc: '150' };
+
+  it('stores a pending request and runs it with the original parameters once approved', async () => {
+    const submitted = await service.submit('credits.grant', params, ALICE);
+    expect(submitted).toMatchObject({ status: 'pending', requestedBy: 'finance:alice' });
+    expect(submitted.expiresAt).toEqual(new Date('2026-10-19T13:00:00Z'));
+    await expect(service.list({ status: 'pending', limit: 10 })).resolves.toHaveLength(1);
+    expect(executor).not.toHaveBeenCalled();
+
+    const { approval, result } = await service.approve(submitted.id, BOB, 'Checked the invoice');
+    expect(result).toEqual({ balance_usdc: '150' });
+    expect(executor).toHaveBeenCalledWith(params, {
+      actor: 'finance:bob',
+      approvalId: submitted.id,
+      requestedBy: 'finance:alice',
+      approvedBy: 'finance:bob',
+    });
+    expect(approval).toMatchObject({ status: 'executed', decidedBy: 'finance:bob', note: 'Checked the invoice' });
+
+    const stored = await service.get(submitted.id);
+    expect(stored).toMatchObject({ status: 'executed', result: { balance_usdc: '150' } });
+  });
+
+  it('refuses a decision by the requester, whatever their role', async () => {
+    const submitted = await service.submit('credits.grant', params, ALICE);
+    const aliceAsSuperAdmin: AdminApprovalActor = { actor: 'super-admin:alice', identity: 'alice', role: 'super-admin' };
+
+    await expectCode(service.approve(submitted.id, aliceAsSuperAdmin), 'APPROVAL_SELF_DECISION', 403);
+    await expectCode(service.reject(submitted.id, ALICE), 'APPROVAL_SELF_DECISION', 403);
+    expect(executor).not.toHaveBeenCalled();
+  });
+
+  it("requires the action's permission to decide", async () => {
+    const submitted = await service.submit('credits.grant', params, ALICE);
+    await expectCode(service.approve(submitted.id, CAROL), 'ADMIN_PERMISSION_DENIED', 403);
+    await expect(service.get(submitted.id)).resolves.toMatchObject({ status: 'pending' });
+  });
+
+  it('decides each request once', async () => {
+    const submitted = await service.submit('credits.grant', params, ALICE);
+    const rejected = await service.reject(submitted.id, BOB, 'Wrong account');
+    expect(rejected).toMatchObject({ status: 'rejected', decidedBy: 'finance:bob', note: 'Wrong account' });
+
+    await expectCode(service.approve(submitted.id, BOB), 'APPROVAL_REQUEST_NOT_PENDING', 409);
+    expect(executor).not.toHaveBeenCalled();
+  });
+
+  it('expires requests nobody decides on', async () => {
+    const submitted = await service.submit('credits.grant', params, ALICE);
+    now = new Date('2026-10-19T13:00:00Z');
+
+    await expectCode(service.approve(submitted.id, BOB), 'APPROVAL_REQUEST_EXPIRED', 409);
+    await expect(service.get(submitted.id)).resolves.toMatchObject({ status: 'expired' });
+    await expect(service.list({ status: 'pending', limit: 10 })).resolves.toEqual([]);
+  });
+
+  it('records a failed action and passes its error on', async () => {
+    executor.mockRejectedValueOnce(new BadRequestError('Developer not found'));
+    const submitted = await service.submit('credits.grant', params, ALICE);
+
+    await expectCode(service.approve(submitted.id, BOB), 'BAD_REQUEST', 400);
+    await expect(service.get(submitted.id)).resolves.toMatchObject({ status: 'failed', error: 'Developer not found' });
+  });
+
+  it('reports unknown requests', async () => {
+    await expectCode(service.get('missing'), 'APPROVAL_REQUEST_NOT_FOUND', 404);
+    await expectCode(service.approve('missing', BOB), 'APPROVAL_REQUEST_NOT_FOUND', 404);
+  });
+
+  it('knows which requests need approval', () => {
+    expect(service.requiresApproval('credits.grant', { amountUsdc: '150' })).toBe(true);
+    expect(service.requiresApproval('credits.grant', { amountUsdc: '50' })).toBe(false);
+  });
+});
@@ -0,0 +1,537 @@
+/**
+ * Four-eyes approval for sensitive admin actions.
+ *
+ *   1. A route whose action is covered by a policy (see
+ *      `adminApprovalPolicy.ts`) calls `submit` instead of acting. The
+ *      action's parameters are stored as a pending change request.
+ *   2. A second admin holding the action's permission calls `approve`. The
+ *      action then runs with the stored parameters, through the executor the
+ *      owning route registered with `registerAdminApprovalExecutor`, and its
+ *      audit event names both admins. `reject` closes the request instead.
+ *   3. Requests nobody decides on expire after the configured TTL.
+ *
+ * The requester can never decide on their own request, whatever their role.
+ * Every step is written to the audit log (`APPROVAL_REQUESTED`,
+ * `APPROVAL_APPROVED`, `APPROVAL_REJECTED`) with the request id.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  ConflictError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+} from '../errors/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../logger.js';
+import {
+  ADMIN_APPROVAL_PERMISSIONS,
+  policiesRequireApproval,
+  type AdminApprovalAction,
+  type AdminApprovalPolicy,
+  type AdminApprovalSubject,
+} from './adminApprovalPolicy.js';
+import { adminRoleHasPermission, type AdminRole } from './adminRbac.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+/** How long a change request waits for a decision, by default. */
+export const DEFAULT_ADMIN_APPROVAL_TTL_SECONDS = 86_400;
+
+/** `approved` requests are running; they end `executed` or `failed`. */
+export type AdminApprovalStatus = 'pending' | 'approved' | 'executed' | 'failed' | 'rejected' | 'expired';
+
+export interface AdminApprovalRequest {
+  id: string;
+  action: AdminApprovalAction;
+  /** The action's validated parameters, replayed on approval. */
+  params: Record<string, unknown>;
+  status: AdminApprovalStatus;
+  /** Actor (`<role>:<identity>`) of the admin who asked. */
+  requestedBy: string;
+  /** Identity of the admin who asked, compared against the approver's. */
+  requesterId: string;
+  createdAt: Date;
+  expiresAt: Date;
+  decidedBy: string | null;
+  decidedAt: Date | null;
+  note: string | null;
+  /** What the action returned once executed. */
+  result: unknown;
+  /** Why the action failed, when it did. */
+  error: string | null;
+}
+
+/** The admin submitting or deciding on a request, as `adminAuth` signed them in. */
+export interface AdminApprovalActor {
+  actor: string;
+  identity: string;
+  role: AdminRole | undefined;
+}
+
+export interface AdminApprovalDecision {
+  status: 'approved' | 'rejected';
+  decidedBy: string;
+  note: string | null;
+  now: Date;
+}
+
+export type AdminApprovalFinish =
+  | { status: 'executed'; result: unknown }
+  | { status: 'failed'; error: string };
+
+export interface AdminApprovalListOptions {
+  status?: AdminApprovalStatus;
+  limit: number;
+}
+
+export interface AdminApprovalStore {
+  create(request: AdminApprovalRequest): Promise<void>;
+  get(id: string): Promise<AdminApprovalRequest | null>;
+  /** Newest first. */
+  list(options: AdminApprovalListOptions): Promise<AdminApprovalRequest[]>;
+  /** Marks pending requests past their expiry as expired. */
+  expire(now: Date): Promise<void>;
+  /**
+   * Records a decision on a pending, unexpired request. Null when the
+   * request is not pending (decided concurrently, or expired).
+   */
+  decide(id: string, decision: AdminApprovalDecision): Promise<AdminApprovalRequest | null>;
+  /** Records how an approved request's action went. */
+  finish(id: string, outcome: AdminApprovalFinish): Promise<void>;
+}
+
+/** Single-instance store. Use the Postgres store when running several instances. */
+export class InMemoryAdminApprovalStore implements AdminApprovalStore {
+  private readonly requests = new Map<string, AdminApprovalRequest>();
+
+  async create(request: AdminApprovalRequest): Promise<void> {
+    this.requests.set(request.id, { ...request });
+  }
+
+  async get(id: string): Promise<AdminApprovalRequest | null> {
+    const request = this.requests.get(id);
+    return request ? { ...request } : null;
+  }
+
+  async list(options: AdminApprovalListOptions): Promise<AdminApprovalRequest[]> {
+    return [...this.requests.values()]
+      .filter((request) => !options.status || request.status === options.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit)
+      .map((request) => ({ ...request }));
+  }
+
+  async expire(now: Date): Promise<void> {
+    for (const request of this.requests.values()) {
+      if (request.status === 'pending' && request.expiresAt <= now) request.status = 'expired';
+    }
+  }
+
+  async decide(id: string, decision: AdminApprovalDecision): Promise<AdminApprovalRequest | null> {
+    const request = this.requests.get(id);
+    if (!request || request.status !== 'pending' || request.expiresAt <= decision.now) return null;
+    request.status = decision.status;
+    request.decidedBy = decision.decidedBy;
+    request.decidedAt = decision.now;
+    request.note = decision.note;
+    return { ...request };
+  }
+
+  async finish(id: string, outcome: AdminApprovalFinish): Promise<void> {
+    const request = this.requests.get(id);
+    if (!request) return;
+    request.status = outcome.status;
+    if (outcome.status === 'executed') request.result = outcome.result;
+    else request.error = outcome.error;
+  }
+}
+
+interface AdminApprovalRow {
+  id: string;
+  action: AdminApprovalAction;
+  params: string;
+  status: AdminApprovalStatus;
+  requested_by: string;
+  requester_id: string;
+  created_at: Date | string;
+  expires_at: Date | string;
+  decided_by: string | null;
+  decided_at: Date | string | null;
+  note: string | null;
+  result: string | null;
+  error: string | null;
+}
+
+const APPROVAL_COLUMNS =
+  'id, action, params, status, requested_by, requester_id, created_at, expires_at, decided_by, decided_at, note, result, error';
+
+function mapApprovalRow(row: AdminApprovalRow): AdminApprovalRequest {
+  return {
+    id: row.id,
+    action: row.action,
+    params: JSON.parse(row.params) as Record<string, unknown>,
+    status: row.status,
+    requestedBy: row.requested_by,
+    requesterId: row.requester_id,
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+    decidedBy: row.decided_by,
+    decidedAt: row.decided_at === null ? null : new Date(row.decided_at),
+    note: row.note,
+    result: row.result === null ? null : JSON.parse(row.result),
+    error: row.error,
+  };
+}
+
+/** Shares change requests across instances through `admin_approval_requests`. */
+export class PostgresAdminApprovalStore implements AdminApprovalStore {
+  constructor(private readonly pool: PersistentRateLimiterPool) {}
+
+  async create(request: AdminApprovalRequest): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO admin_approval_requests
+           (id, action, params, status, requested_by, requester_id, created_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          request.id,
+          request.action,
+          JSON.stringify(request.params),
+          request.status,
+          request.requestedBy,
+          request.requesterId,
+          request.createdAt,
+          request.expiresAt,
+        ],
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async get(id: string): Promise<AdminApprovalRequest | null> {
+    const client = await this.pool.connect();
+    try {
+      const found = await client.query<AdminApprovalRow>(
+        `SELECT ${APPROVAL_COLUMNS} FROM admin_approval_requests WHERE id = $1`,
+        [id],
+      );
+      const row = found.rows[0];
+      return row ? mapApprovalRow(row) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async list(options: AdminApprovalListOptions): Promise<AdminApprovalRequest[]> {
+    const client = await this.pool.connect();
+    try {
+      const params: unknown[] = [];
+      let where = '';
+      if (options.status) {
+        params.push(options.status);
+        where = `WHERE status = $${params.length}`;
+      }
+      params.push(options.limit);
+      const found = await client.query<AdminApprovalRow>(
+        `SELECT ${APPROVAL_COLUMNS} FROM admin_approval_requests ${where}
+         ORDER BY created_at DESC, id DESC
+         LIMIT $${params.length}`,
+        params,
+      );
+      return found.rows.map(mapApprovalRow);
+    } finally {
+      client.release();
+    }
+  }
+
+  async expire(now: Date): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE admin_approval_requests SET status = 'expired'
+         WHERE status = 'pending' AND expires_at <= $1`,
+        [now],
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async decide(id: string, decision: AdminApprovalDecision): Promise<AdminApprovalRequest | null> {
+    const client = await this.pool.connect();
+    try {
+      const decided = await client.query<AdminApprovalRow>(
+        `UPDATE admin_approval_requests
+         SET status = $2, decided_by = $3, decided_at = $4, note = $5
+         WHERE id = $1 AND status = 'pending' AND expires_at > $4
+         RETURNING ${APPROVAL_COLUMNS}`,
+        [id, decision.status, decision.decidedBy, decision.now, decision.note],
+      );
+      const row = decided.rows[0];
+      return row ? mapApprovalRow(row) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async finish(id: string, outcome: AdminApprovalFinish): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE admin_approval_requests SET status = $2, result = $3, error = $4 WHERE id = $1',
+        [
+          id,
+          outcome.status,
+          outcome.status === 'executed' ? JSON.stringify(outcome.result ?? null) : null,
+          outcome.status === 'failed' ? outcome.error : null,
+        ],
+      );
+    } finally {
+      client.release();
+    }
+  }
+}
+
+/** Passed to an executor when an approved request runs. */
+export interface AdminApprovalExecutionContext {
+  /** The approver, who the action's audit event is recorded against. */
+  actor: string;
+  approvalId: string;
+  requestedBy: string;
+  approvedBy: string;
+}
+
+/** Runs an approved action with its stored parameters and returns its result. */
+export type AdminApprovalExecutor = (
+  params: Record<string, unknown>,
+  context: AdminApprovalExecutionContext,
+) => Promise<unknown>;
+
+const approvalExecutors = new Map<AdminApprovalAction, AdminApprovalExecutor>();
+
+/**
+ * Registers how approved requests for `action` run. The route that owns the
+ * action registers it when it is created; a later registration replaces an
+ * earlier one.
+ */
+export function registerAdminApprovalExecutor(action: AdminApprovalAction, executor: AdminApprovalExecutor): void {
+  approvalExecutors.set(action, executor);
+}
+
+export interface AdminApprovalServiceOptions {
+  store: AdminApprovalStore;
+  policies: readonly AdminApprovalPolicy[];
+  ttlSeconds?: number;
+  /** Defaults to the executors registered with `registerAdminApprovalExecutor`. */
+  executors?: ReadonlyMap<AdminApprovalAction, AdminApprovalExecutor>;
+  now?: () => Date;
+}
+
+export interface AdminApprovalOutcome {
+  approval: AdminApprovalRequest;
+  result: unknown;
+}
+
+export class AdminApprovalService {
+  private readonly ttlSeconds: number;
+  private readonly executors: ReadonlyMap<AdminApprovalAction, AdminApprovalExecutor>;
+  private readonly now: () => Date;
+
+  constructor(private readonly options: AdminApprovalServiceOptions) {
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_ADMIN_APPROVAL_TTL_SECONDS;
+    this.executors = options.executors ?? approvalExecutors;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** True when a policy says this request needs a second admin. */
+  requiresApproval(action: AdminApprovalAction, subject?: AdminApprovalSubject): boolean {
+    return policiesRequireApproval(this.options.policies, action, subject);
+  }
+
+  /** Stores a pending change request for `action` with its validated parameters. */
+  async submit(
+    action: AdminApprovalAction,
+    params: Record<string, unknown>,
+    requester: AdminApprovalActor,
+  ): Promise<AdminApprovalRequest> {
+    const createdAt = this.now();
+    const request: AdminApprovalRequest = {
+      id: randomUUID(),
+      action,
+      params,
+      status: 'pending',
+      requestedBy: requester.actor,
+      requesterId: requester.identity,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + this.ttlSeconds * 1000),
+      decidedBy: null,
+      decidedAt: null,
+      note: null,
+      result: null,
+      error: null,
+    };
+    await this.options.store.create(request);
+
+    logger.audit('APPROVAL_REQUESTED', requester.actor, {
+      approvalId: request.id,
+      action,
+      params,
+      expiresAt: request.expiresAt.toISOString(),
+    });
+    return request;
+  }
+
+  async get(id: string): Promise<AdminApprovalRequest> {
+    await this.options.store.expire(this.now());
+    const request = await this.options.store.get(id);
+    if (!request) throw notFound(id);
+    return request;
+  }
+
+  async list(options: AdminApprovalListOptions): Promise<AdminApprovalRequest[]> {
+    await this.options.store.expire(this.now());
+    return this.options.store.list(options);
+  }
+
+  /**
+   * Approves a pending request and runs its action. The action's own errors
+   * are passed on after the request is marked failed.
+   */
+  async approve(id: string, approver: AdminApprovalActor, note?: string): Promise<AdminApprovalOutcome> {
+    const approval = await this.decide(id, approver, 'approved', note);
+
+    logger.audit('APPROVAL_APPROVED', approver.actor, {
+      approvalId: approval.id,
+      action: approval.action,
+      requestedBy: approval.requestedBy,
+      note: approval.note ?? undefined,
+    });
+
+    const executor = this.executors.get(approval.action);
+    if (!executor) {
+      await this.options.store.finish(approval.id, { status: 'failed', error: 'No executor is registered' });
+      logger.error('No approval executor is registered', { action: approval.action });
+      throw new InternalServerError();
+    }
+
+    try {
+      const result = await executor(approval.params, {
+        actor: approver.actor,
+        approvalId: approval.id,
+        requestedBy: approval.requestedBy,
+        approvedBy: approver.actor,
+      });
+      await this.options.store.finish(approval.id, { status: 'executed', result });
+      return { approval: { ...approval, status: 'executed', result }, result };
+    } catch (error) {
+      await this.options.store.finish(approval.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async reject(id: string, approver: AdminApprovalActor, note?: string): Promise<AdminApprovalRequest> {
+    const approval = await this.decide(id, approver, 'rejected', note);
+
+    logger.audit('APPROVAL_REJECTED', approver.actor, {
+      approvalId: approval.id,
+      action: approval.action,
+      requestedBy: approval.requestedBy,
+      note: approval.note ?? undefined,
+    });
+    return approval;
+  }
+
+  private async decide(
+    id: string,
+    approver: AdminApprovalActor,
+    status: 'approved' | 'rejected',
+    note: string | undefined,
+  ): Promise<AdminApprovalRequest> {
+    const now = this.now();
+    const request = await this.options.store.get(id);
+    if (!request) throw notFound(id);
+
+    if (request.requesterId === approver.identity) {
+      throw new ForbiddenError(
+        'A change request must be decided by an admin other than the one who made it',
+        'APPROVAL_SELF_DECISION',
+      );
+    }
+
+    const permission = ADMIN_APPROVAL_PERMISSIONS[request.action];
+    if (!approver.role || !adminRoleHasPermission(approver.role, permission)) {
+      throw new ForbiddenError(
+        `Missing admin permission "${permission}" (role: ${approver.role ?? 'none'})`,
+        'ADMIN_PERMISSION_DENIED',
+      );
+    }
+
+    const decided = await this.options.store.decide(id, {
+      status,
+      decidedBy: approver.actor,
+      note: note ?? null,
+      now,
+    });
+    if (decided) return decided;
+
+    if (request.status === 'expired' || (request.status === 'pending' && request.expiresAt <= now)) {
+      await this.options.store.expire(now);
+      throw new ConflictError(`Change request ${id} has expired`, 'APPROVAL_REQUEST_EXPIRED');
+    }
+    const current = await this.options.store.get(id);
+    throw new ConflictError(
+      `Change request ${id} is already ${current?.status ?? request.status}`,
+      'APPROVAL_REQUEST_NOT_PENDING',
+    );
+  }
+}
+
+function notFound(id: string): NotFoundError {
+  return new NotFoundError(`Change request not found: ${id}`, 'APPROVAL_REQUEST_NOT_FOUND');
+}
+
+export interface AppAdminApprovalConfig {
+  policies: readonly AdminApprovalPolicy[];
+  ttlSeconds: number;
+}
+
+export function createConfiguredAdminApprovalService(
+  approvalConfig: AppAdminApprovalConfig,
+  store: AdminApprovalStore,
+): AdminApprovalService {
+  return new AdminApprovalService({
+    store,
+    policies: approvalConfig.policies,
+    ttlSeconds: approvalConfig.ttlSeconds,
+  });
+}
+
+let adminApprovalService: AdminApprovalService | null = null;
+
+/**
+ * The service the admin routes and `/api/admin/approvals` use. The server
+ * installs a Postgres-backed one at startup; until then (and in tests)
+ * requests are kept in memory.
+ */
+export function getAdminApprovalService(): AdminApprovalService {
+  if (!adminApprovalService) {
+    adminApprovalService = createConfiguredAdminApprovalService(
+      config.adminApprovals,
+      new InMemoryAdminApprovalStore(),
+    );
+  }
+  return adminApprovalService;
+}
+
+export function setAdminApprovalService(service: AdminApprovalService): void {
+  adminApprovalService = service;
+}
+
+export function resetAdminApprovalService(): void {
+  adminApprovalService = null;
+}
@@ -0,0 +1,81 @@
+import {
+  ADMIN_PERMISSIONS,
+  ADMIN_ROLES,
+  adminRoleHasPermission,
+  findAdminRoutePermission,
+  formatAdminActor,
+  isAdminRole,
+  type AdminRoutePermission,
+} from './adminRbac.js';
+import { ADMIN_ROUTE_PERMISSIONS } from '../routes/admin/routePermissions.js';
+
+describe('admin roles', () => {
+  it('recognises the named roles only', () => {
+    for (const role of ADMIN_ROLES) expect(isAdminRole(role)).toBe(true);
+    expect(isAdminRole('admin')).toBe(false);
+    expect(isAdminRole('developer')).toBe(false);
+    expect(isAdminRole(undefined)).toBe(false);
+  });
+
+  it('grants super-admin every permission', () => {
+    for (const permission of ADMIN_PERMISSIONS) {
+      expect(adminRoleHasPermission('super-admin', permission)).toBe(true);
+    }
+  });
+
+  it.each([
+    ['support', 'usage:read', true],
+    ['support', 'credits:grant', false],
+    ['support', 'quotas:write', false],
+    ['finance', 'credits:grant', true],
+    ['finance', 'refunds:issue', true],
+    ['finance', 'quotas:write', false],
+    ['operator', 'quotas:write', true],
+    ['operator', 'webhooks:manage', true],
+    ['operator', 'credits:grant', false],
+    ['operator', 'audit:replay', false],
+  ] as const)('%s has %s: %s', (role, permission, expected) => {
+    expect(adminRoleHasPermission(role, permission)).toBe(expected);
+  });
+
+  it('formats the actor as role and identity', () => {
+    expect(formatAdminActor('finance', 'alice@callora.io')).toBe('finance:alice@callora.io');
+  });
+});
+
+describe('findAdminRoutePermission', () => {
+  const routes: AdminRoutePermission[] = [
+    { method: 'GET', path: '/usage/export', permission: 'usage:read' },
+    { method: 'GET', path: '/usage/:developerId', permission: 'usage:read' },
+    { method: 'POST', path: '/usage/:developerId/reset', permission: 'usage:reset' },
+    { method: '*', path: '/mfa/*', permission: null },
+  ];
+
+  it('matches parameters to one segment', () => {
+    expect(findAdminRoutePermission(routes, 'GET', '/usage/dev_1')?.permission).toBe('usage:read');
+    expect(findAdminRoutePermission(routes, 'POST', '/usage/dev_1/reset')?.permission).toBe('usage:reset');
+    expect(findAdminRoutePermission(routes, 'GET', '/usage/dev_1/reset')).toBeUndefined();
+  });
+
+  it('matches a trailing wildcard against the path and everything below it', () => {
+    expect(findAdminRoutePermission(routes, 'GET', '/mfa')).toBeDefined();
+    expect(findAdminRoutePermission(routes, 'DELETE', '/mfa')).toBeDefined();
+    expect(findAdminRoutePermission(routes, 'POST', '/mfa/enroll/confirm')).toBeDefined();
+    expect(findAdminRoutePermission(routes, 'GET', '/mfaother')).toBeUndefined();
+  });
+
+  it('checks HEAD as GET and ignores trailing slashes', () => {
+    expect(findAdminRoutePermission(routes, 'HEAD', '/usage/dev_1/')?.permission).toBe('usage:read');
+  });
+
+  it('returns undefined for undeclared routes', () => {
+    expect(findAdminRoutePermission(routes, 'DELETE', '/usage/dev_1')).toBeUndefined();
+    expect(findAdminRoutePermission(routes, 'GET', '/users')).toBeUndefined();
+  });
+
+  it('declares only known permissions in the admin route table', () => {
+    for (const route of ADMIN_ROUTE_PERMISSIONS) {
+      if (route.permission !== null) expect(ADMIN_PERMISSIONS).toContain(route.permission);
+    }
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Role-based access control for the admin surface.
+ *
+ * Every admin is signed in with one role. Each role grants a fixed set of
+ * permissions, and each admin route requires one permission (see
+ * `routes/admin/routePermissions.ts` and `requireAdminPermission`).
+ *
+ *   support      read-only: users, usage, quotas, webhooks, health, refunds,
+ *                disputes and the audit log
+ *   finance      support + credit grants, refunds and dispute resolution
+ *   operator     support + usage resets, quota changes, webhook key rotation
+ *                and replay, API moderation, query plans and the
+ *                maintenance banner
+ *   super-admin  everything, including audit replay
+ *
+ * See docs/admin-rbac.md.
+ */
+
+export const ADMIN_ROLES = ['support', 'finance', 'operator', 'super-admin'] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ADMIN_PERMISSIONS = [
+  'users:read',
+  'usage:read',
+  'usage:reset',
+  'quotas:read',
+  'quotas:write',
+  'webhooks:read',
+  'webhooks:manage',
+  'apis:write',
+  'health:read',
+  'db:explain',
+  'credits:grant',
+  'refunds:read',
+  'refunds:issue',
+  'disputes:read',
+  'disputes:resolve',
+  'audit:read',
+  'audit:replay',
+  'maintenance:write',
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+const SUPPORT_PERMISSIONS: readonly AdminPermission[] = [
+  'users:read',
+  'usage:read',
+  'quotas:read',
+  'webhooks:read',
+  'health:read',
+  'refunds:read',
+  'disputes:read',
+  'audit:read',
+];
+
+export const ADMIN_ROLE_PERMISSIONS: Readonly<Record<AdminRole, readonly AdminPermission[]>> = {
+  support: SUPPORT_PERMISSIONS,
+  finance: [...SUPPORT_PERMISSIONS, 'credits:grant', 'refunds:issue', 'disputes:resolve'],
+  operator: [
+    ...SUPPORT_PERMISSIONS,
+    'usage:reset',
+    'quotas:write',
+    'webhooks:manage',
+    'apis:write',
+    'db:explain',
+    'maintenance:write',
+  ],
+  'super-admin': ADMIN_PERMISSIONS,
+};
+
+/** The role tokens issued before roles existed (`role: 'admin'`) sign in with. */
+export const LEGACY_ADMIN_ROLE: AdminRole = 'super-admin';
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function adminRoleHasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ADMIN_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * The actor recorded in admin logs and audit rows: `<role>:<identity>`,
+ * e.g. `finance:alice@callora.io` or `super-admin:admin-api-key`.
+ */
+export function formatAdminActor(role: AdminRole, identity: string): string {
+  return `${role}:${identity}`;
+}
+
+/**
+ * One admin route and the permission it requires. `null` means any signed-in
+ * admin may call it (e.g. their own MFA settings).
+ */
+export interface AdminRoutePermission {
+  /** HTTP method, or `*` for all. HEAD is checked as GET. */
+  method: string;
+  /**
+   * Path relative to `/api/admin`. `:name` matches one segment; a trailing
+   * `/*` matches the path and everything below it.
+   */
+  path: string;
+  permission: AdminPermission | null;
+}
+
+function pathMatches(pattern: string, path: string): boolean {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = path.split('/').filter(Boolean);
+
+  const prefix = patternSegments[patternSegments.length - 1] === '*';
+  if (prefix) patternSegments.pop();
+  if (prefix ? pathSegments.length < patternSegments.length : pathSegments.length !== patternSegments.length) {
+    return false;
+  }
+
+  return patternSegments.every(
+    (segment, index) => segment.startsWith(':') || segment === pathSegments[index],
+  );
+}
+
+/** The first entry declared for the request, or undefined when none is. */
+export function findAdminRoutePermission(
+  routes: readonly AdminRoutePermission[],
+  method: string,
+  path: string,
+): AdminRoutePermission | undefined {
+  const effectiveMethod = method.toUpperCase() === 'HEAD' ? 'GET' : method.toUpperCase();
+  return routes.find(
+    (route) => (route.method === '*' || route.method === effectiveMethod) && pathMatches(route.path, path),
+  );
+}
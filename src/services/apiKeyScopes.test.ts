@@ -0,0 +1,87 @@
+import {
+  ApiKeyScopeMissingError,
+  checkApiKeyScopes,
+  parseEndpointScope,
+  requiredScopeFor,
+  validateEndpointScopes,
+} from './apiKeyScopes.js';
+
+describe('parseEndpointScope', () => {
+  it('expands method shorthands and lists', () => {
+    expect(parseEndpointScope('read /v1')?.methods).toEqual(new Set(['GET', 'HEAD', 'OPTIONS']));
+    expect(parseEndpointScope('write /v1')?.methods).toEqual(new Set(['POST', 'PUT', 'PATCH', 'DELETE']));
+    expect(parseEndpointScope('get,Post /v1')?.methods).toEqual(new Set(['GET', 'POST']));
+    expect(parseEndpointScope('* /v1')?.methods).toBeNull();
+  });
+
+  it('rejects malformed scopes', () => {
+    expect(parseEndpointScope('FETCH /v1')).toBeNull();
+    expect(parseEndpointScope('GET v1/search')).toBeNull();
+    expect(parseEndpointScope('GET /v1/*/search')).toBeNull();
+    expect(parseEndpointScope('GET /v1 extra')).toBeNull();
+  });
+});
+
+describe('checkApiKeyScopes', () => {
+  it('leaves keys without endpoint scopes unrestricted', () => {
+    expect(checkApiKeyScopes(['*', 'GET /v1/search'], 'POST', 'v1/admin')).toEqual({ allowed: true });
+    expect(checkApiKeyScopes(['read', 'write'], 'DELETE', 'v1/admin')).toEqual({ allowed: true });
+    expect(checkApiKeyScopes(undefined, 'GET', 'v1/admin')).toEqual({ allowed: true });
+  });
+
+  it('allows only the methods and paths the endpoint scopes name', () => {
+    const scopes = ['GET /v1/search', 'read /v1/docs/*', 'DELETE /v1/orders/:id'];
+
+    expect(checkApiKeyScopes(scopes, 'GET', 'v1/search/')).toEqual({ allowed: true });
+    expect(checkApiKeyScopes(scopes, 'HEAD', 'v1/docs')).toEqual({ allowed: true });
+    expect(checkApiKeyScopes(scopes, 'GET', 'v1/docs/a/b')).toEqual({ allowed: true });
+    expect(checkApiKeyScopes(scopes, 'DELETE', 'v1/orders/42')).toEqual({ allowed: true });
+
+    expect(checkApiKeyScopes(scopes, 'POST', 'v1/search'))
+      .toEqual({ allowed: false, requiredScope: 'POST /v1/search' });
+    expect(checkApiKeyScopes(scopes, 'GET', 'v1/search/more'))
+      .toEqual({ allowed: false, requiredScope: 'GET /v1/search/more' });
+    expect(checkApiKeyScopes(scopes, 'DELETE', 'v1/orders/42/items'))
+      .toEqual({ allowed: false, requiredScope: 'DELETE /v1/orders/42/items' });
+  });
+
+  it('matches the path the upstream will see after dot segments', () => {
+    expect(checkApiKeyScopes(['GET /v1/search/*'], 'GET', 'v1/search/../admin'))
+      .toEqual({ allowed: false, requiredScope: 'GET /v1/admin' });
+    expect(requiredScopeFor('get', '/v1//search/./')).toBe('GET /v1/search');
+  });
+});
+
+describe('validateEndpointScopes', () => {
+  const endpoints = [
+    { method: 'GET', path: '/v1/search' },
+    { method: 'DELETE', path: '/v1/orders/:id' },
+  ];
+
+  it('accepts scopes that name at least one endpoint', () => {
+    expect(validateEndpointScopes(
+      ['GET /v1/search', 'DELETE /v1/orders/42', 'read /*', '* /v1/*', 'custom-label'],
+      endpoints,
+    )).toEqual([]);
+  });
+
+  it('reports malformed scopes and scopes that name no endpoint', () => {
+    expect(validateEndpointScopes(['POST /v1/search', 'GET /v1/orders/42', 'GET search'], endpoints)).toEqual([
+      expect.objectContaining({ field: 'body.scopes[0]', code: 'UNKNOWN_ENDPOINT' }),
+      expect.objectContaining({ field: 'body.scopes[1]', code: 'UNKNOWN_ENDPOINT' }),
+      expect.objectContaining({ field: 'body.scopes[2]', code: 'INVALID_SCOPE' }),
+    ]);
+  });
+});
+
+describe('ApiKeyScopeMissingError', () => {
+  it('names the missing scope in its details', () => {
+    const error = new ApiKeyScopeMissingError('POST /v1/search');
+
+    expect(error.statusCode).toBe(403);
+    expect(error.code).toBe('API_KEY_SCOPE_MISSING');
+    expect(error.details).toEqual([
+      { field: 'scopes', message: 'POST /v1/search', code: 'API_KEY_SCOPE_MISSING' },
+    ]);
+  });
+});
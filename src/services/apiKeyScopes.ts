@@ -0,0 +1,219 @@
+/**
+ * apiKeyScopes.ts
+ *
+ * Endpoint-level scopes for API keys, so consumers can mint least-privilege
+ * keys such as "GET /v1/search only" or "every read method on this API".
+ *
+ * An endpoint scope is `<methods> <path>`:
+ *
+ *   - `methods` is `*`, `read` (GET, HEAD, OPTIONS), `write` (POST, PUT,
+ *     PATCH, DELETE) or a comma-separated list of HTTP methods (`GET,POST`).
+ *   - `path` starts with `/` and is matched segment by segment against the
+ *     path after the API slug. A `:param` segment matches any single
+ *     segment; a final `*` segment matches the rest of the path, including
+ *     nothing. `*` is not allowed anywhere else.
+ *
+ * Examples: `GET /v1/search`, `read /*`, `GET,POST /v1/orders/:id`.
+ *
+ * Scopes apply to the API the key was issued for. Plain-word scopes (`read`,
+ * `write`, custom labels) are left as they were: a key is restricted to
+ * endpoints only once it holds at least one endpoint scope, and `*` still
+ * allows everything.
+ */
+
+import { BadRequestError, ForbiddenError } from '../errors/index.js';
+import type { ValidationErrorDetail } from '../middleware/validate.js';
+
+export const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'] as const;
+export const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+const HTTP_METHODS = new Set<string>([...READ_METHODS, ...WRITE_METHODS]);
+
+export interface EndpointScope {
+  /** The scope as the key holder wrote it. */
+  scope: string;
+  /** Upper-case methods the scope allows; `null` allows every method. */
+  methods: ReadonlySet<string> | null;
+  /** Path segments; `:param` and a final `*` are wildcards. */
+  segments: string[];
+}
+
+/** The endpoints a key's scopes may name, as listed for the API. */
+export interface ScopeEndpoint {
+  method: string;
+  path: string;
+}
+
+export type ApiKeyScopeDecision =
+  | { allowed: true }
+  | { allowed: false; requiredScope: string };
+
+/** Endpoint scopes contain whitespace; plain-word scopes never do. */
+export function isEndpointScope(scope: string): boolean {
+  return /\s/.test(scope.trim());
+}
+
+/**
+ * Splits a path into segments, resolving `.` and `..` the way the upstream
+ * URL will, so `/v1/search/../admin` is matched as `/v1/admin`.
+ */
+export function scopePathSegments(path: string): string[] {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+  return segments;
+}
+
+function parseMethods(methods: string): ReadonlySet<string> | null | undefined {
+  const lower = methods.toLowerCase();
+  if (lower === '*') return null;
+  if (lower === 'read') return new Set(READ_METHODS);
+  if (lower === 'write') return new Set(WRITE_METHODS);
+
+  const listed = methods.split(',').map((method) => method.trim().toUpperCase());
+  if (listed.some((method) => !HTTP_METHODS.has(method))) return undefined;
+  return new Set(listed);
+}
+
+/** Parses an endpoint scope, or returns `null` when it is malformed. */
+export function parseEndpointScope(scope: string): EndpointScope | null {
+  const parts = scope.trim().split(/\s+/);
+  if (parts.length !== 2) return null;
+
+  const [methodsPart, path] = parts;
+  const methods = parseMethods(methodsPart);
+  if (methods === undefined || !path.startsWith('/')) return null;
+
+  const segments = scopePathSegments(path);
+  if (segments.some((segment, i) => segment.includes('*') && (segment !== '*' || i !== segments.length - 1))) {
+    return null;
+  }
+
+  return { scope: scope.trim(), methods, segments };
+}
+
+function isWildcardSegment(segment: string): boolean {
+  return segment === '*' || segment.startsWith(':');
+}
+
+function allowsMethod(scope: EndpointScope, method: string): boolean {
+  return scope.methods === null || method === '*' || scope.methods.has(method.toUpperCase());
+}
+
+/**
+ * Whether `pattern` matches `path`. With `pathHasWildcards`, wildcards in
+ * `path` match too, which answers "does this scope name this endpoint?" for
+ * endpoint paths with `:param` segments. Request paths are literal.
+ */
+function segmentsMatch(pattern: string[], path: string[], pathHasWildcards: boolean): boolean {
+  for (let i = 0; i < pattern.length; i += 1) {
+    if (pattern[i] === '*' && i === pattern.length - 1) return true;
+    if (pathHasWildcards && path[i] === '*' && i === path.length - 1) return true;
+    if (i >= path.length) return false;
+    if (isWildcardSegment(pattern[i]) || (pathHasWildcards && isWildcardSegment(path[i]))) continue;
+    if (pattern[i] !== path[i]) return false;
+  }
+  return pattern.length === path.length;
+}
+
+/** Whether the scope allows `method` on `path` (the path after the API slug). */
+export function endpointScopeAllows(scope: EndpointScope, method: string, path: string): boolean {
+  return allowsMethod(scope, method) && segmentsMatch(scope.segments, scopePathSegments(path), false);
+}
+
+/** The scope a request needs, e.g. `GET /v1/search`. */
+export function requiredScopeFor(method: string, path: string): string {
+  return `${method.toUpperCase()} /${scopePathSegments(path).join('/')}`;
+}
+
+/**
+ * Decides whether a key's scopes allow a call. Keys holding `*`, or no
+ * endpoint scopes at all, are not restricted to endpoints.
+ */
+export function checkApiKeyScopes(
+  scopes: readonly string[] | null | undefined,
+  method: string,
+  path: string,
+): ApiKeyScopeDecision {
+  if (!scopes || scopes.includes('*')) return { allowed: true };
+
+  const endpointScopes = scopes.filter(isEndpointScope);
+  if (endpointScopes.length === 0) return { allowed: true };
+
+  const allowed = endpointScopes.some((scope) => {
+    const parsed = parseEndpointScope(scope);
+    return parsed !== null && endpointScopeAllows(parsed, method, path);
+  });
+  return allowed ? { allowed: true } : { allowed: false, requiredScope: requiredScopeFor(method, path) };
+}
+
+/**
+ * Checks the endpoint scopes requested for a new key against the API's
+ * endpoints. Every endpoint scope must be well formed and name at least one
+ * existing endpoint; plain-word scopes are not checked.
+ */
+export function validateEndpointScopes(
+  scopes: readonly string[],
+  endpoints: readonly ScopeEndpoint[],
+): ValidationErrorDetail[] {
+  const problems: ValidationErrorDetail[] = [];
+
+  scopes.forEach((scope, index) => {
+    if (!isEndpointScope(scope)) return;
+    const field = `body.scopes[${index}]`;
+
+    const parsed = parseEndpointScope(scope);
+    if (!parsed) {
+      problems.push({
+        field,
+        message: `"${scope}" is not a valid scope; expected "<methods> <path>", e.g. "GET /v1/search"`,
+        code: 'INVALID_SCOPE',
+      });
+      return;
+    }
+
+    const namesEndpoint = endpoints.some((endpoint) =>
+      allowsMethod(parsed, endpoint.method)
+      && segmentsMatch(parsed.segments, scopePathSegments(endpoint.path), true),
+    );
+    if (!namesEndpoint) {
+      problems.push({
+        field,
+        message: `"${scope}" does not match any endpoint of this API`,
+        code: 'UNKNOWN_ENDPOINT',
+      });
+    }
+  });
+
+  return problems;
+}
+
+/** Rejects key creation when an endpoint scope is malformed or names no endpoint. */
+export class ApiKeyScopeInvalidError extends BadRequestError {
+  public readonly details: ValidationErrorDetail[];
+
+  constructor(details: ValidationErrorDetail[]) {
+    super('One or more scopes are invalid for this API', 'API_KEY_SCOPE_INVALID');
+    this.name = 'ApiKeyScopeInvalidError';
+    Object.setPrototypeOf(this, ApiKeyScopeInvalidError.prototype);
+    this.details = details;
+  }
+}
+
+/** Rejects a gateway call the key's endpoint scopes do not cover. */
+export class ApiKeyScopeMissingError extends ForbiddenError {
+  public readonly details: ValidationErrorDetail[];
+
+  constructor(public readonly requiredScope: string) {
+    super(`API key is missing the scope "${requiredScope}"`, 'API_KEY_SCOPE_MISSING');
+    this.name = 'ApiKeyScopeMissingError';
+    Object.setPrototypeOf(this, ApiKeyScopeMissingError.prototype);
+    this.details = [{ field: 'scopes', message: requiredScope, code: 'API_KEY_SCOPE_MISSING' }];
+  }
+}
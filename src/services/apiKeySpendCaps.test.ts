@@ -0,0 +1,144 @@
+import { newDb } from 'pg-mem';
+import {
+  ApiKeySpendCaps,
+  createConfiguredApiKeySpendCaps,
+  currentSpendCapPeriods,
+  InMemorySpendCounterStore,
+  PostgresSpendCounterStore,
+  spendCapRetryAfterSeconds,
+  type SpendCapKey,
+  type SpendCounterStore,
+} from './apiKeySpendCaps.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+function createPgMemPool(): PersistentRateLimiterPool {
+  const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+const NOW = new Date('2026-05-31T18:00:00.000Z');
+
+const key: SpendCapKey = {
+  id: 'key-1',
+  userId: 'consumer-1',
+  apiId: 'api-1',
+  dailySpendLimitUsdc: 10,
+  monthlySpendLimitUsdc: 100,
+};
+
+function createSpendCaps(store: SpendCounterStore = new InMemorySpendCounterStore()) {
+  const emit = jest.fn().mockReturnValue(true);
+  const spendCaps = new ApiKeySpendCaps({ store, emit, now: () => NOW });
+  return { spendCaps, emit };
+}
+
+describe('currentSpendCapPeriods', () => {
+  it('buckets by UTC day and month', () => {
+    const periods = currentSpendCapPeriods(NOW);
+
+    expect(periods.daily).toEqual({
+      window: 'daily',
+      key: 'daily:2026-05-31',
+      resetAt: new Date('2026-06-01T00:00:00.000Z'),
+    });
+    expect(periods.monthly).toEqual({
+      window: 'monthly',
+      key: 'monthly:2026-05',
+      resetAt: new Date('2026-06-01T00:00:00.000Z'),
+    });
+  });
+});
+
+describe('ApiKeySpendCaps', () => {
+  it('allows calls until a budget has been spent', async () => {
+    const { spendCaps } = createSpendCaps();
+
+    await spendCaps.record(key, 9.5);
+    await expect(spendCaps.check(key)).resolves.toEqual({ allowed: true });
+
+    await spendCaps.record(key, 0.5);
+    const admission = await spendCaps.check(key);
+    expect(admission).toMatchObject({ allowed: false, window: 'daily', limitUsdc: 10, spentUsdc: 10 });
+    expect(spendCapRetryAfterSeconds(admission)).toBe(6 * 60 * 60);
+  });
+
+  it('never rejects keys without budgets but still tracks their spend', async () => {
+    const { spendCaps } = createSpendCaps();
+    const unlimited: SpendCapKey = { id: 'key-2', userId: 'consumer-1', apiId: 'api-1' };
+
+    await spendCaps.record(unlimited, 1_000);
+
+    await expect(spendCaps.check(unlimited)).resolves.toEqual({ allowed: true });
+    await expect(spendCaps.spendToDate('key-2')).resolves.toEqual({ dailyUsdc: 1_000, monthlyUsdc: 1_000 });
+  });
+
+  it('emits one alert per threshold crossed', async () => {
+    const { spendCaps, emit } = createSpendCaps();
+
+    await spendCaps.record(key, 7.9);
+    expect(emit).not.toHaveBeenCalled();
+
+    await spendCaps.record(key, 0.1);
+    await spendCaps.record(key, 1);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith('api_key.spend_cap.reached', 'consumer-1', {
+      apiKeyId: 'key-1',
+      apiId: 'api-1',
+      window: 'daily',
+      period: '2026-05-31',
+      threshold: 80,
+      spentUsdc: 8,
+      limitUsdc: 10,
+    });
+
+    await spendCaps.record(key, 2);
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(emit).toHaveBeenLastCalledWith('api_key.spend_cap.reached', 'consumer-1', expect.objectContaining({
+      window: 'daily',
+      threshold: 100,
+      spentUsdc: 11,
+    }));
+  });
+
+  it('emits every threshold a single large charge crosses', async () => {
+    const { spendCaps, emit } = createSpendCaps();
+
+    await spendCaps.record(key, 100);
+
+    const alerts = emit.mock.calls.map(([, , data]) => [data.window, data.threshold]);
+    expect(alerts).toEqual([
+      ['daily', 80],
+      ['daily', 100],
+      ['monthly', 80],
+      ['monthly', 100],
+    ]);
+  });
+});
+
+describe('PostgresSpendCounterStore', () => {
+  it('shares spend across instances backed by the same database', async () => {
+    const pool = createPgMemPool();
+    const instanceA = new PostgresSpendCounterStore(pool);
+    const instanceB = new PostgresSpendCounterStore(pool);
+
+    await expect(instanceA.add('key-1', 'daily:2026-05-31', 1.25)).resolves.toBe(1.25);
+    await expect(instanceB.add('key-1', 'daily:2026-05-31', 2.5)).resolves.toBe(3.75);
+    await expect(instanceA.get('key-1', 'daily:2026-05-31')).resolves.toBe(3.75);
+    await expect(instanceA.get('key-1', 'daily:2026-06-01')).resolves.toBe(0);
+  });
+
+  it('rejects unsafe table names', () => {
+    expect(
+      () => new PostgresSpendCounterStore(createPgMemPool(), { tableName: 'spend;DROP TABLE users' }),
+    ).toThrow('Spend cap tableName must contain only letters, numbers, and underscores.');
+  });
+});
+
+describe('createConfiguredApiKeySpendCaps', () => {
+  it('requires a pool for the postgres store', () => {
+    expect(() => createConfiguredApiKeySpendCaps({
+      store: 'postgres',
+      spendCapTable: 'api_key_spend_counters',
+    })).toThrow('A PostgreSQL pool is required when METERING_STORE is set to "postgres".');
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * apiKeySpendCaps.ts
+ *
+ * Optional USDC budgets per API key, so a leaked or runaway key cannot drain
+ * the consumer's whole prepaid balance. A key may carry a daily and/or a
+ * monthly budget (UTC calendar day / month).
+ *
+ * Every billed call adds its charge to the key's spend for the current day and
+ * month, whether or not the key has a budget, so the key listing can show
+ * spend-to-date. Once the spend for a window reaches its budget, further calls
+ * are rejected until the window resets. Calls already in flight when the
+ * budget is reached are still billed, so spend can exceed the budget by at
+ * most the price of those calls.
+ *
+ * Crossing 80% and 100% of a budget fires an `api_key.spend_cap.reached`
+ * webhook to the key owner. A threshold is crossed by exactly one charge —
+ * the one that moves the atomically updated total past it — so each alert
+ * fires once per window, on any number of gateway instances.
+ *
+ * Spend lives in a {@link SpendCounterStore}. The in-memory store is only
+ * correct for a single instance; `METERING_STORE=postgres` keeps one row per
+ * key and window in `SPEND_CAP_PG_TABLE`.
+ */
+
+import { TooManyRequestsError } from '../errors/index.js';
+import { logger } from '../logger.js';
+import { calloraEvents } from '../events/event.emitter.js';
+import { currentMeteringPeriod } from './subscriptionMetering.js';
+import type {
+  PersistentRateLimiterClient,
+  PersistentRateLimiterPool,
+} from './rateLimiter.js';
+
+const DEFAULT_PERSISTENT_TABLE = 'api_key_spend_counters';
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+/** USDC has 7 decimal places on Stellar. */
+const USDC_SCALE = 1e7;
+
+function roundUsdc(amount: number): number {
+  return Math.round(amount * USDC_SCALE) / USDC_SCALE;
+}
+
+export type SpendCapWindow = 'daily' | 'monthly';
+
+export type SpendCapThreshold = 80 | 100;
+
+export const SPEND_CAP_THRESHOLDS: SpendCapThreshold[] = [80, 100];
+
+/** A key's budgets. NULL or absent means no budget for that window. */
+export interface SpendCapLimits {
+  dailySpendLimitUsdc?: number | null;
+  monthlySpendLimitUsdc?: number | null;
+}
+
+export interface SpendToDate {
+  dailyUsdc: number;
+  monthlyUsdc: number;
+}
+
+// ---------------------------------------------------------------------------
+// Periods
+// ---------------------------------------------------------------------------
+
+export interface SpendCapPeriod {
+  window: SpendCapWindow;
+  /** Counter bucket: `daily:YYYY-MM-DD` or `monthly:YYYY-MM` in UTC. */
+  key: string;
+  /** Start of the next day / month (UTC). */
+  resetAt: Date;
+}
+
+export function currentSpendCapPeriods(now: Date): Record<SpendCapWindow, SpendCapPeriod> {
+  const month = currentMeteringPeriod(now);
+  const day = now.toISOString().slice(0, 10);
+  return {
+    daily: {
+      window: 'daily',
+      key: `daily:${day}`,
+      resetAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+    },
+    monthly: { window: 'monthly', key: `monthly:${month.key}`, resetAt: month.resetAt },
+  };
+}
+
+function limitFor(limits: SpendCapLimits, window: SpendCapWindow): number | null {
+  const limit = window === 'daily' ? limits.dailySpendLimitUsdc : limits.monthlySpendLimitUsdc;
+  return limit == null ? null : Number(limit);
+}
+
+// ---------------------------------------------------------------------------
+// Counter stores
+// ---------------------------------------------------------------------------
+
+export interface SpendCounterStore {
+  /** Atomically add `amountUsdc` to the key's spend and return the new total. */
+  add(apiKeyId: string, period: string, amountUsdc: number): Promise<number>;
+  /** Current spend for the key, or 0. */
+  get(apiKeyId: string, period: string): Promise<number>;
+}
+
+export class InMemorySpendCounterStore implements SpendCounterStore {
+  private readonly counters = new Map<string, number>();
+
+  async add(apiKeyId: string, period: string, amountUsdc: number): Promise<number> {
+    const counterKey = `${apiKeyId}:${period}`;
+    const total = roundUsdc((this.counters.get(counterKey) ?? 0) + amountUsdc);
+    this.counters.set(counterKey, total);
+    return total;
+  }
+
+  async get(apiKeyId: string, period: string): Promise<number> {
+    return this.counters.get(`${apiKeyId}:${period}`) ?? 0;
+  }
+
+  /** Helper for tests — reset all counters. */
+  reset(): void {
+    this.counters.clear();
+  }
+}
+
+export interface PostgresSpendCounterStoreOptions {
+  tableName?: string;
+}
+
+type SpendRow = { spent_usdc: string | number };
+
+export class PostgresSpendCounterStore implements SpendCounterStore {
+  private readonly tableName: string;
+  private tableReadyPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly pool: PersistentRateLimiterPool,
+    options: PostgresSpendCounterStoreOptions = {},
+  ) {
+    const tableName = options.tableName ?? DEFAULT_PERSISTENT_TABLE;
+    if (!TABLE_NAME_PATTERN.test(tableName)) {
+      throw new Error(
+        'Spend cap tableName must contain only letters, numbers, and underscores.',
+      );
+    }
+    this.tableName = tableName;
+  }
+
+  async add(apiKeyId: string, period: string, amountUsdc: number): Promise<number> {
+    await this.ensureTable();
+
+    // A single upsert, so concurrent gateway instances each see the total
+    // their own charge produced.
+    const result = await this.withClient((client) =>
+      client.query<SpendRow>(
+        `INSERT INTO ${this.tableName} (api_key_id, period, spent_usdc)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (api_key_id, period) DO UPDATE
+         SET spent_usdc = ${this.tableName}.spent_usdc + EXCLUDED.spent_usdc,
+             updated_at = NOW()
+         RETURNING spent_usdc`,
+        [apiKeyId, period, amountUsdc],
+      ),
+    );
+    return roundUsdc(Number(result.rows[0]?.spent_usdc ?? 0));
+  }
+
+  async get(apiKeyId: string, period: string): Promise<number> {
+    await this.ensureTable();
+
+    const result = await this.withClient((client) =>
+      client.query<SpendRow>(
+        `SELECT spent_usdc FROM ${this.tableName}
+         WHERE api_key_id = $1 AND period = $2`,
+        [apiKeyId, period],
+      ),
+    );
+    return roundUsdc(Number(result.rows[0]?.spent_usdc ?? 0));
+  }
+
+  private async withClient<T>(fn: (client: PersistentRateLimiterClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await fn(client);
+    } finally {
+      client.release();
+    }
+  }
+
+  private async ensureTable(): Promise<void> {
+    if (!this.tableReadyPromise) {
+      this.tableReadyPromise = this.createTableIfNeeded().catch((error) => {
+        this.tableReadyPromise = null;
+        throw error;
+      });
+    }
+
+    await this.tableReadyPromise;
+  }
+
+  private async createTableIfNeeded(): Promise<void> {
+    await this.withClient(async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          api_key_id TEXT NOT NULL,
+          period TEXT NOT NULL,
+          spent_usdc NUMERIC(20, 7) NOT NULL CHECK (spent_usdc >= 0),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (api_key_id, period)
+        )
+      `);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Spend caps
+// ---------------------------------------------------------------------------
+
+export interface SpendCapKey extends SpendCapLimits {
+  id: string;
+  userId: string;
+  apiId: string;
+}
+
+export type SpendCapAdmission =
+  | { allowed: true }
+  | {
+      allowed: false;
+      /** The exhausted window that resets last. */
+      window: SpendCapWindow;
+      limitUsdc: number;
+      spentUsdc: number;
+      resetAt: Date;
+      /** Milliseconds until the call can be retried. */
+      retryAfterMs: number;
+    };
+
+export interface ApiKeySpendCapsOptions {
+  store: SpendCounterStore;
+  /** Injectable for tests — defaults to the shared event emitter. */
+  emit?: typeof calloraEvents.emit;
+  now?: () => Date;
+}
+
+export class ApiKeySpendCaps {
+  private readonly store: SpendCounterStore;
+  private readonly emit: typeof calloraEvents.emit;
+  private readonly now: () => Date;
+
+  constructor(options: ApiKeySpendCapsOptions) {
+    this.store = options.store;
+    this.emit = options.emit ?? calloraEvents.emit.bind(calloraEvents);
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Reject the call when any of the key's budgets is already spent. */
+  async check(key: SpendCapKey): Promise<SpendCapAdmission> {
+    const now = this.now();
+    const periods = currentSpendCapPeriods(now);
+
+    let rejection: SpendCapAdmission = { allowed: true };
+    for (const period of Object.values(periods)) {
+      const limitUsdc = limitFor(key, period.window);
+      if (limitUsdc === null) continue;
+
+      const spentUsdc = await this.store.get(key.id, period.key);
+      if (spentUsdc < limitUsdc) continue;
+
+      if (rejection.allowed || period.resetAt > rejection.resetAt) {
+        rejection = {
+          allowed: false,
+          window: period.window,
+          limitUsdc,
+          spentUsdc,
+          resetAt: period.resetAt,
+          retryAfterMs: Math.max(0, period.resetAt.getTime() - now.getTime()),
+        };
+      }
+    }
+    return rejection;
+  }
+
+  /**
+   * Add a billed call's charge to the key's spend and alert the owner about
+   * every budget threshold the charge crossed. Never throws.
+   */
+  async record(key: SpendCapKey, amountUsdc: number): Promise<void> {
+    if (amountUsdc <= 0) return;
+
+    const periods = currentSpendCapPeriods(this.now());
+    for (const period of Object.values(periods)) {
+      let spentUsdc: number;
+      try {
+        spentUsdc = await this.store.add(key.id, period.key, amountUsdc);
+      } catch (error) {
+        logger.error('[apiKeySpendCaps] Failed to record key spend', {
+          apiKeyId: key.id,
+          period: period.key,
+          error,
+        });
+        continue;
+      }
+
+      const limitUsdc = limitFor(key, period.window);
+      if (limitUsdc === null || limitUsdc <= 0) continue;
+
+      const previousUsdc = roundUsdc(spentUsdc - amountUsdc);
+      for (const threshold of SPEND_CAP_THRESHOLDS) {
+        const thresholdUsdc = roundUsdc((limitUsdc * threshold) / 100);
+        if (previousUsdc >= thresholdUsdc || spentUsdc < thresholdUsdc) continue;
+
+        this.emit('api_key.spend_cap.reached', key.userId, {
+          apiKeyId: key.id,
+          apiId: key.apiId,
+          window: period.window,
+          period: period.key.slice(period.key.indexOf(':') + 1),
+          threshold,
+          spentUsdc,
+          limitUsdc,
+        });
+      }
+    }
+  }
+
+  /** The key's spend for the current day and month. */
+  async spendToDate(apiKeyId: string): Promise<SpendToDate> {
+    const periods = currentSpendCapPeriods(this.now());
+    const [dailyUsdc, monthlyUsdc] = await Promise.all([
+      this.store.get(apiKeyId, periods.daily.key),
+      this.store.get(apiKeyId, periods.monthly.key),
+    ]);
+    return { dailyUsdc, monthlyUsdc };
+  }
+}
+
+/**
+ * The error for a call rejected by a spend cap. Callers must also set the
+ * `Retry-After` header from {@link spendCapRetryAfterSeconds}.
+ */
+export function spendCapExceededError(window: SpendCapWindow): TooManyRequestsError {
+  return new TooManyRequestsError(
+    `The ${window} spend cap for this API key is exhausted`,
+    'API_KEY_SPEND_CAP_EXCEEDED',
+  );
+}
+
+export function spendCapRetryAfterSeconds(admission: SpendCapAdmission): number {
+  return admission.allowed ? 1 : Math.max(1, Math.ceil(admission.retryAfterMs / 1000));
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface AppSpendCapConfig {
+  store: 'memory' | 'postgres';
+  spendCapTable: string;
+}
+
+/**
+ * Shared in-process spend: the gateways record it and the key listing
+ * reports it, so both must see the same store when spend is kept in memory.
+ */
+const defaultSpendCounterStore = new InMemorySpendCounterStore();
+
+export const defaultApiKeySpendCaps = new ApiKeySpendCaps({ store: defaultSpendCounterStore });
+
+export function createConfiguredApiKeySpendCaps(
+  config: AppSpendCapConfig,
+  persistentPool?: PersistentRateLimiterPool,
+): ApiKeySpendCaps {
+  if (config.store === 'postgres') {
+    if (!persistentPool) {
+      throw new Error(
+        'A PostgreSQL pool is required when METERING_STORE is set to "postgres".',
+      );
+    }
+    return new ApiKeySpendCaps({
+      store: new PostgresSpendCounterStore(persistentPool, {
+        tableName: config.spendCapTable || DEFAULT_PERSISTENT_TABLE,
+      }),
+    });
+  }
+  return defaultApiKeySpendCaps;
+}
@@ -0,0 +1,173 @@
+import {
+  ApiSpecService,
+  compileRequestValidator,
+  InMemoryApiSpecStore,
+  RequestSchemaInvalidError,
+  type OpenApiDocument,
+} from './apiSpecs.js';
+
+const document: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Forecast API', version: '1.0.0' },
+  servers: [{ url: 'https://forecast.example.com/v1' }],
+  paths: {
+    '/forecast/{city}': {
+      get: {
+        parameters: [
+          { name: 'city', in: 'path', required: true, schema: { type: 'string', minLength: 3 } },
+          { name: 'days', in: 'query', required: true, schema: { type: 'integer', maximum: 10 } },
+        ],
+        responses: { 200: { description: 'A forecast' } },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ForecastRequest' },
+            },
+          },
+        },
+        responses: { 200: { description: 'A forecast' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      ForecastRequest: {
+        type: 'object',
+        required: ['units'],
+        additionalProperties: false,
+        properties: { units: { type: 'string', enum: ['metric', 'imperial'] } },
+      },
+    },
+  },
+};
+
+const json = { 'content-type': 'application/json' };
+
+describe('compileRequestValidator', () => {
+  it('accepts requests that match the document', async () => {
+    const validator = await compileRequestValidator(document);
+
+    await expect(validator.validate({ method: 'GET', url: '/forecast/paris?days=3', headers: {} }))
+      .resolves.toBeNull();
+    await expect(validator.validate({
+      method: 'POST',
+      url: '/forecast/paris',
+      headers: json,
+      body: Buffer.from('{"units":"metric"}'),
+    })).resolves.toBeNull();
+  });
+
+  it('lists every parameter violation', async () => {
+    const validator = await compileRequestValidator(document);
+
+    const issues = await validator.validate({ method: 'GET', url: '/forecast/ny?days=30', headers: {} });
+
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'params.city', code: 'minLength' }),
+      expect.objectContaining({ field: 'query.days', message: 'must be <= 10', code: 'maximum' }),
+    ]));
+  });
+
+  it('checks bodies against referenced schemas', async () => {
+    const validator = await compileRequestValidator(document);
+
+    const issues = await validator.validate({
+      method: 'POST',
+      url: '/forecast/paris',
+      headers: json,
+      body: '{"units":"kelvin","extra":true}',
+    });
+
+    expect(issues?.map((issue) => issue.field)).toEqual(expect.arrayContaining(['body.units', 'body.extra']));
+  });
+
+  it('rejects malformed JSON and undocumented content types', async () => {
+    const validator = await compileRequestValidator(document);
+
+    await expect(validator.validate({ method: 'POST', url: '/forecast/paris', headers: json, body: '{' }))
+      .resolves.toEqual([{ field: 'body', message: 'must be valid JSON', code: 'invalid_json' }]);
+    await expect(validator.validate({
+      method: 'POST',
+      url: '/forecast/paris',
+      headers: { 'content-type': 'text/plain' },
+      body: 'metric',
+    })).resolves.toEqual([expect.objectContaining({ field: 'headers.content-type', code: 'unsupported_media_type' })]);
+  });
+
+  it('does not check paths or methods the document does not describe', async () => {
+    const validator = await compileRequestValidator(document);
+
+    await expect(validator.validate({ method: 'GET', url: '/alerts', headers: {} })).resolves.toBeNull();
+    await expect(validator.validate({ method: 'DELETE', url: '/forecast/paris', headers: {} })).resolves.toBeNull();
+  });
+
+  it('refuses references outside the document', async () => {
+    const external = structuredClone(document);
+    (external.components as { schemas: Record<string, unknown> }).schemas.ForecastRequest = {
+      $ref: 'https://schemas.example.com/forecast.json',
+    };
+
+    await expect(compileRequestValidator(external)).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'OPENAPI_DOCUMENT_INVALID',
+    });
+  });
+});
+
+describe('RequestSchemaInvalidError', () => {
+  it('explains each violation in its message', () => {
+    const error = new RequestSchemaInvalidError([
+      { field: 'query.days', message: 'must be <= 10', code: 'maximum' },
+    ]);
+
+    expect(error.statusCode).toBe(400);
+    expect(error.code).toBe('REQUEST_SCHEMA_INVALID');
+    expect(error.message).toBe("Request does not match the API's OpenAPI document: query.days must be <= 10");
+  });
+});
+
+describe('ApiSpecService', () => {
+  const now = () => new Date('2026-03-01T00:00:00.000Z');
+
+  it('versions uploads and removals', async () => {
+    const service = new ApiSpecService(new InMemoryApiSpecStore(), { now });
+
+    const first = await service.save('7', document, 'user-1');
+    const second = await service.save('7', document, 'user-1', { baseVersion: 1 });
+
+    expect(first.version).toBe(1);
+    expect(second).toMatchObject({ apiId: '7', version: 2, createdBy: 'user-1', createdAt: now().toISOString() });
+    await expect(service.save('7', document, 'user-2', { baseVersion: 1 })).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'OPENAPI_VERSION_CONFLICT',
+    });
+
+    await expect(service.remove('7', 'user-1')).resolves.toBe(true);
+    await expect(service.current('7')).resolves.toBeNull();
+    await expect(service.remove('7', 'user-1')).resolves.toBe(false);
+    await expect(service.get('7')).rejects.toMatchObject({ statusCode: 404 });
+    expect((await service.save('7', document, 'user-1')).version).toBe(4);
+  });
+
+  it('caches the compiled validator per version', async () => {
+    const service = new ApiSpecService(new InMemoryApiSpecStore());
+
+    expect(await service.validatorFor('7')).toBeNull();
+    await service.save('7', document, 'user-1');
+    const validator = await service.validatorFor('7');
+
+    expect(validator).not.toBeNull();
+    expect(await service.validatorFor('7')).toBe(validator);
+
+    await service.save('7', { ...document, paths: {} }, 'user-1');
+    const next = await service.validatorFor('7');
+    expect(next).not.toBe(validator);
+    await expect(next!.validate({ method: 'GET', url: '/forecast/ny', headers: {} })).resolves.toBeNull();
+
+    await service.remove('7', 'user-1');
+    expect(await service.validatorFor('7')).toBeNull();
+  });
+});
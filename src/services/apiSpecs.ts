@@ -0,0 +1,388 @@
+/**
+ * apiSpecs.ts
+ *
+ * Provider-supplied OpenAPI 3 documents. When an API has one, every
+ * `/v1/call` request to it is checked against the document before anything
+ * is reserved or billed: its path and query parameters, headers and body
+ * must match the documented operation, or the call is rejected with
+ * `400 REQUEST_SCHEMA_INVALID` listing each violation. Calls to paths or
+ * methods the document does not describe are not checked.
+ *
+ * Paths in the document are matched against the call's path after the API
+ * slug, so `servers` entries are ignored. Checking uses the same
+ * express-openapi-validator the gateway's own API is validated with; each
+ * version of a document is compiled once and cached.
+ *
+ * Every upload saves a new version. Removing the document also saves one,
+ * without a document, so a version number is never reused and a cached
+ * validator can never outlive the document it was compiled from.
+ */
+
+import express, { type RequestHandler } from 'express';
+import { middleware as openApiValidatorMiddleware } from 'express-openapi-validator';
+import type { IncomingHttpHeaders } from 'node:http';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors/index.js';
+import type { ValidationErrorDetail } from '../middleware/validate.js';
+import { logger } from '../logger.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** An OpenAPI 3.0 or 3.1 document, as uploaded. */
+export type OpenApiDocument = Record<string, unknown>;
+
+/** One saved version of an API's document. */
+export interface ApiSpec {
+  apiId: string;
+  /** 1 for the first upload, one more for each later upload or removal. */
+  version: number;
+  /** Null once the provider has removed the document. */
+  document: OpenApiDocument | null;
+  createdAt: string;
+  createdBy: string;
+}
+
+/** A `/v1/call` request as the validator sees it. */
+export interface ValidatableRequest {
+  method: string;
+  /** The path after the API slug, with a leading `/`, and the raw query string. */
+  url: string;
+  headers: IncomingHttpHeaders;
+  /** The raw body; parsed here according to its `Content-Type`. */
+  body?: Buffer | Uint8Array | string;
+}
+
+export interface RequestValidator {
+  /** The violations in `request`, or null when it matches the document. */
+  validate(request: ValidatableRequest): Promise<ValidationErrorDetail[] | null>;
+}
+
+/**
+ * Minimal persistence abstraction — swap the in-memory implementation for a
+ * Postgres adapter (see migrations/0034_api_openapi_specs.sql) without
+ * touching service logic.
+ */
+export interface ApiSpecStore {
+  latest(apiId: string): Promise<ApiSpec | null>;
+  /** Resolves false when `record.version` already exists. */
+  append(record: ApiSpec): Promise<boolean>;
+}
+
+export class InMemoryApiSpecStore implements ApiSpecStore {
+  private readonly versions = new Map<string, ApiSpec[]>();
+
+  async latest(apiId: string): Promise<ApiSpec | null> {
+    const versions = this.versions.get(apiId);
+    return versions?.length ? structuredClone(versions[versions.length - 1]) : null;
+  }
+
+  async append(record: ApiSpec): Promise<boolean> {
+    const versions = this.versions.get(record.apiId) ?? [];
+    if (versions.some((candidate) => candidate.version === record.version)) return false;
+    this.versions.set(record.apiId, [...versions, structuredClone(record)]);
+    return true;
+  }
+
+  clear(): void {
+    this.versions.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Rejects a gateway call that does not match the API's OpenAPI document. */
+export class RequestSchemaInvalidError extends BadRequestError {
+  public readonly details: ValidationErrorDetail[];
+
+  constructor(details: ValidationErrorDetail[]) {
+    const summary = details.map((detail) => `${detail.field} ${detail.message}`).join('; ');
+    super(`Request does not match the API's OpenAPI document: ${summary}`, 'REQUEST_SCHEMA_INVALID');
+    this.name = 'RequestSchemaInvalidError';
+    Object.setPrototypeOf(this, RequestSchemaInvalidError.prototype);
+    this.details = details;
+  }
+}
+
+export function openApiDocumentInvalidError(reason: string): BadRequestError {
+  return new BadRequestError(`Invalid OpenAPI document: ${reason}`, 'OPENAPI_DOCUMENT_INVALID');
+}
+
+// ---------------------------------------------------------------------------
+// Compiling
+// ---------------------------------------------------------------------------
+
+/**
+ * `$ref`s that point outside the document would make the validator read
+ * files or fetch URLs on the gateway's behalf, so only `#/…` is accepted.
+ */
+export function findExternalReference(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findExternalReference(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '$ref' && typeof child === 'string' && !child.startsWith('#')) return child;
+    const found = findExternalReference(child);
+    if (found) return found;
+  }
+  return null;
+}
+
+interface OpenApiHttpError {
+  status: number;
+  message: string;
+  errors?: Array<{ path?: string; message: string; errorCode?: string }>;
+}
+
+function isOpenApiHttpError(error: unknown): error is OpenApiHttpError {
+  return !!error && typeof error === 'object' && typeof (error as { status?: unknown }).status === 'number';
+}
+
+/** `/query/days` → `query.days`. */
+function fieldOf(path: string | undefined): string {
+  const field = (path ?? '').replace(/^\//, '').replace(/\//g, '.');
+  return field || 'request';
+}
+
+/** `maximum.openapi.validation` → `maximum`. */
+function codeOf(errorCode: string | undefined): string {
+  return errorCode?.replace(/\.openapi\.validation$/, '') ?? 'invalid';
+}
+
+function detailsOf(error: OpenApiHttpError): ValidationErrorDetail[] {
+  // Unsupported media types and undocumented methods on a documented path
+  // carry the route, not the part of the request that is wrong.
+  if (error.status === 415) return [{ field: 'headers.content-type', message: error.message, code: 'unsupported_media_type' }];
+  if (error.status === 405) return [{ field: 'method', message: error.message, code: 'method_not_allowed' }];
+  const errors = error.errors?.length ? error.errors : [{ message: error.message }];
+  return errors.map((issue) => ({
+    field: fieldOf('path' in issue ? issue.path : undefined),
+    message: issue.message,
+    code: codeOf('errorCode' in issue ? issue.errorCode : undefined),
+  }));
+}
+
+function contentTypeOf(headers: IncomingHttpHeaders): string {
+  return (headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/** The body as the validator expects it: JSON and form bodies parsed, anything else as text. */
+function parseBody(
+  request: ValidatableRequest,
+): { body: unknown } | { issue: ValidationErrorDetail } {
+  if (request.body === undefined || request.body.length === 0) return { body: undefined };
+  const text = typeof request.body === 'string' ? request.body : Buffer.from(request.body).toString('utf8');
+  const contentType = contentTypeOf(request.headers);
+  if (contentType === 'application/json' || contentType.endsWith('+json')) {
+    try {
+      return { body: JSON.parse(text) };
+    } catch {
+      return { issue: { field: 'body', message: 'must be valid JSON', code: 'invalid_json' } };
+    }
+  }
+  if (contentType === 'application/x-www-form-urlencoded') {
+    return { body: Object.fromEntries(new URLSearchParams(text)) };
+  }
+  return { body: text };
+}
+
+/**
+ * Compiles `document` into a validator. Rejects with
+ * `400 OPENAPI_DOCUMENT_INVALID` when it is not a usable OpenAPI 3 document.
+ */
+export async function compileRequestValidator(document: OpenApiDocument): Promise<RequestValidator> {
+  const externalReference = findExternalReference(document);
+  if (externalReference) {
+    throw openApiDocumentInvalidError(`$ref "${externalReference}" must point inside the document`);
+  }
+
+  // A private app per document: the validator keeps its routes on the app it
+  // first runs in.
+  const app = express();
+  app.disable('x-powered-by');
+  const handle: RequestHandler = app;
+  app.use(
+    openApiValidatorMiddleware({
+      apiSpec: { ...document, servers: [] } as never,
+      validateRequests: { allErrors: true },
+      validateResponses: false,
+      validateSecurity: false,
+      ignoreUndocumented: true,
+      fileUploader: false,
+    }),
+  );
+
+  const run = (request: ValidatableRequest, body: unknown): Promise<unknown> => new Promise((resolve) => {
+    const req = { method: request.method.toUpperCase(), url: request.url, headers: { ...request.headers }, body };
+    handle(req as never, {} as never, (error?: unknown) => resolve(error));
+  });
+
+  // Loading the document happens on the first run; a probe surfaces a
+  // document that does not load now rather than on the first call.
+  const loadError = await run({ method: 'GET', url: '/', headers: {} }, undefined);
+  if (loadError && !isOpenApiHttpError(loadError)) {
+    throw openApiDocumentInvalidError(loadError instanceof Error ? loadError.message : 'it could not be loaded');
+  }
+
+  return {
+    async validate(request) {
+      const parsed = parseBody(request);
+      if ('issue' in parsed) return [parsed.issue];
+      const error = await run(request, parsed.body);
+      if (!error) return null;
+      if (isOpenApiHttpError(error)) return detailsOf(error);
+      throw error;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+/** Compiled validators kept per service; the least recently used are dropped first. */
+export const MAX_CACHED_VALIDATORS = 200;
+
+export interface ApiSpecServiceOptions {
+  now?: () => Date;
+  maxCachedValidators?: number;
+}
+
+export interface SaveApiSpecOptions {
+  /**
+   * The version the change was made against. The save fails with
+   * `409 OPENAPI_VERSION_CONFLICT` when another version has been saved
+   * since. 0 means the API had no document yet.
+   */
+  baseVersion?: number;
+}
+
+export function openApiVersionConflictError(): ConflictError {
+  return new ConflictError(
+    'The OpenAPI document has changed since it was read; reload it and try again',
+    'OPENAPI_VERSION_CONFLICT',
+  );
+}
+
+export class ApiSpecService {
+  private readonly now: () => Date;
+  private readonly maxCachedValidators: number;
+  /** Keyed by `<apiId>@<version>`; pending compilations are shared. */
+  private readonly validators = new Map<string, Promise<RequestValidator>>();
+
+  constructor(
+    private readonly store: ApiSpecStore,
+    options: ApiSpecServiceOptions = {},
+  ) {
+    this.now = options.now ?? (() => new Date());
+    this.maxCachedValidators = options.maxCachedValidators ?? MAX_CACHED_VALIDATORS;
+  }
+
+  /** The API's document, or null when it has none. */
+  async current(apiId: string): Promise<ApiSpec | null> {
+    const spec = await this.store.latest(apiId);
+    return spec?.document ? spec : null;
+  }
+
+  async get(apiId: string): Promise<ApiSpec> {
+    const spec = await this.current(apiId);
+    if (!spec) throw new NotFoundError('This API has no OpenAPI document');
+    return spec;
+  }
+
+  /** Saves `document` as the API's next version, which calls are checked against immediately. */
+  async save(
+    apiId: string,
+    document: OpenApiDocument,
+    actor: string,
+    options: SaveApiSpecOptions = {},
+  ): Promise<ApiSpec> {
+    const validator = await compileRequestValidator(document);
+    const record = await this.append(apiId, document, actor, options);
+    this.remember(`${apiId}@${record.version}`, Promise.resolve(validator));
+    return record;
+  }
+
+  /** Stops checking the API's calls. False when it had no document. */
+  async remove(apiId: string, actor: string): Promise<boolean> {
+    if (!(await this.current(apiId))) return false;
+    await this.append(apiId, null, actor, {});
+    return true;
+  }
+
+  /**
+   * The validator for the API's current document, or null when it has none.
+   * Compiled on first use of each version and cached.
+   */
+  async validatorFor(apiId: string): Promise<RequestValidator | null> {
+    const spec = await this.current(apiId);
+    if (!spec?.document) return null;
+
+    const key = `${apiId}@${spec.version}`;
+    const cached = this.validators.get(key);
+    if (cached) {
+      this.remember(key, cached);
+      return cached;
+    }
+    const compiling = compileRequestValidator(spec.document);
+    this.remember(key, compiling);
+    try {
+      return await compiling;
+    } catch (error) {
+      // A stored document that no longer compiles is not enforced rather
+      // than failing every call to the API.
+      this.validators.delete(key);
+      logger.error({ apiId, version: spec.version, err: error }, 'Failed to compile OpenAPI document');
+      return null;
+    }
+  }
+
+  private async append(
+    apiId: string,
+    document: OpenApiDocument | null,
+    actor: string,
+    options: SaveApiSpecOptions,
+  ): Promise<ApiSpec> {
+    const currentVersion = (await this.store.latest(apiId))?.version ?? 0;
+    if (options.baseVersion !== undefined && options.baseVersion !== currentVersion) {
+      throw openApiVersionConflictError();
+    }
+
+    const record: ApiSpec = {
+      apiId,
+      version: currentVersion + 1,
+      document,
+      createdAt: this.now().toISOString(),
+      createdBy: actor,
+    };
+    // Two saves racing for the same version: the second loses.
+    if (!(await this.store.append(record))) {
+      throw openApiVersionConflictError();
+    }
+    return record;
+  }
+
+  private remember(key: string, validator: Promise<RequestValidator>): void {
+    const apiPrefix = `${key.slice(0, key.lastIndexOf('@'))}@`;
+    for (const existing of [...this.validators.keys()]) {
+      if (existing !== key && existing.startsWith(apiPrefix)) this.validators.delete(existing);
+    }
+    this.validators.delete(key);
+    this.validators.set(key, validator);
+    while (this.validators.size > this.maxCachedValidators) {
+      const oldest = this.validators.keys().next().value;
+      if (oldest === undefined) break;
+      this.validators.delete(oldest);
+    }
+  }
+}
+
+/** Shared singleton used by the proxy and the provider routes. */
+export const defaultApiSpecService = new ApiSpecService(new InMemoryApiSpecStore());
@@ -0,0 +1,337 @@
+/**
+ * apiVersions.ts
+ *
+ * Published versions of an API listing. A version has its own base URL,
+ * endpoints and prices, and once published it does not change, so a provider
+ * can move the listing on without breaking consumers who depend on it.
+ *
+ * A `/v1/call` request is answered by:
+ *   1. the version named in the call, as in `/v1/call/weather@v2/forecast`
+ *   2. otherwise the version the caller's subscription is pinned to
+ *   3. otherwise the API's listing itself
+ * A named version the API does not have fails with
+ * `404 API_VERSION_NOT_FOUND`.
+ *
+ * Providers deprecate a version with a sunset date. Until then its calls
+ * carry `Deprecation` and `Sunset` headers (see middleware/deprecation.ts);
+ * from then on they fail with `410 API_VERSION_SUNSET`. The API's
+ * subscribers are sent an `api.version.deprecated` webhook.
+ */
+
+import { AppError, BadRequestError, ConflictError, NotFoundError } from '../errors/index.js';
+import { validateUpstreamBaseUrl } from '../lib/upstreamTarget.js';
+import type { CreateEndpointInput } from '../repositories/apiRepository.js';
+import type { SubscriptionRepository } from '../repositories/subscriptionRepository.js';
+import type { ApiRegistryEntry, EndpointPricing } from '../types/gateway.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Most versions one API can publish. */
+export const MAX_API_VERSIONS = 20;
+
+/** Version names: a letter or digit, then letters, digits, `.`, `-` or `_`. */
+export const API_VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,31}$/;
+
+export interface ApiVersion {
+  apiId: string;
+  /** The name calls use after `@`, e.g. `v2`. */
+  version: string;
+  baseUrl: string;
+  endpoints: EndpointPricing[];
+  createdAt: string;
+  createdBy: string;
+  /** Set once the provider deprecates the version. */
+  deprecatedAt: string | null;
+  /** When calls to the version stop being answered. Set with `deprecatedAt`. */
+  sunsetAt: string | null;
+  /** The version consumers are asked to move to, if the provider named one. */
+  successor: string | null;
+}
+
+export interface PublishApiVersionInput {
+  version: string;
+  baseUrl: string;
+  /** In the shape endpoints are registered in (see validators/apis.ts). */
+  endpoints: CreateEndpointInput[];
+}
+
+export interface DeprecateApiVersionInput {
+  sunsetAt: Date;
+  successor?: string | null;
+}
+
+/**
+ * Minimal persistence abstraction — swap the in-memory implementation for a
+ * Postgres adapter (see migrations/0036_api_versions.sql) without touching
+ * service logic.
+ */
+export interface ApiVersionStore {
+  /** The API's versions, oldest first. */
+  list(apiId: string): Promise<ApiVersion[]>;
+  /** Resolves false when the API already has `record.version`. */
+  insert(record: ApiVersion): Promise<boolean>;
+  update(record: ApiVersion): Promise<void>;
+}
+
+export class InMemoryApiVersionStore implements ApiVersionStore {
+  private readonly versions = new Map<string, ApiVersion[]>();
+
+  async list(apiId: string): Promise<ApiVersion[]> {
+    return structuredClone(this.versions.get(apiId) ?? []);
+  }
+
+  async insert(record: ApiVersion): Promise<boolean> {
+    const versions = this.versions.get(record.apiId) ?? [];
+    if (versions.some((candidate) => candidate.version === record.version)) return false;
+    this.versions.set(record.apiId, [...versions, structuredClone(record)]);
+    return true;
+  }
+
+  async update(record: ApiVersion): Promise<void> {
+    const versions = this.versions.get(record.apiId) ?? [];
+    this.versions.set(
+      record.apiId,
+      versions.map((candidate) => (candidate.version === record.version ? structuredClone(record) : candidate)),
+    );
+  }
+
+  clear(): void {
+    this.versions.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export function apiVersionNotFoundError(version: string): NotFoundError {
+  return new NotFoundError(`This API has no version "${version}"`, 'API_VERSION_NOT_FOUND');
+}
+
+/** A call to, or a pin on, a version past its sunset date. */
+export class ApiVersionSunsetError extends AppError {
+  constructor(version: ApiVersion) {
+    const successor = version.successor ? `; use ${version.successor} instead` : '';
+    super(`Version ${version.version} of this API was sunset on ${version.sunsetAt}${successor}`, 410, 'API_VERSION_SUNSET');
+    this.name = 'ApiVersionSunsetError';
+    Object.setPrototypeOf(this, ApiVersionSunsetError.prototype);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** `weather@v2` → `{ slugOrId: 'weather', version: 'v2' }`; no `@` leaves the version null. */
+export function parseApiReference(reference: string): { slugOrId: string; version: string | null } {
+  const at = reference.lastIndexOf('@');
+  if (at <= 0) return { slugOrId: reference, version: null };
+  return { slugOrId: reference.slice(0, at), version: reference.slice(at + 1) };
+}
+
+/** A registered endpoint as the gateway prices and polices it. */
+export function endpointPricingOf(version: string, endpoint: CreateEndpointInput): EndpointPricing {
+  const { pricing, cache, policy } = endpoint;
+  return {
+    endpointId: `${version}:${endpoint.method} ${endpoint.path}`,
+    path: endpoint.path,
+    method: endpoint.method,
+    priceUsdc: Number(endpoint.price_per_call_usdc),
+    ...(pricing && (pricing.model === 'graduated' || pricing.model === 'volume')
+      ? {
+        pricingModel: pricing.model,
+        tiers: pricing.tiers.map((tier) => ({ upTo: tier.up_to, priceUsdc: Number(tier.price_usdc) })),
+      }
+      : {}),
+    ...(pricing?.model === 'unit'
+      ? {
+        unitPricing: {
+          priceUsdc: Number(pricing.unit_price_usdc),
+          maxUnitsPerCall: pricing.max_units_per_call,
+          ...(pricing.units_header ? { header: pricing.units_header } : {}),
+        },
+      }
+      : {}),
+    ...(pricing?.model === 'stream'
+      ? {
+        streamPricing: {
+          ...(pricing.per_minute_usdc !== undefined ? { perMinuteUsdc: Number(pricing.per_minute_usdc) } : {}),
+          ...(pricing.per_message_usdc !== undefined ? { perMessageUsdc: Number(pricing.per_message_usdc) } : {}),
+        },
+      }
+      : {}),
+    ...(cache
+      ? {
+        cache: {
+          ttlSeconds: cache.ttl_seconds,
+          ...(cache.vary_headers ? { varyHeaders: cache.vary_headers } : {}),
+          ...(cache.hit_price_usdc !== undefined ? { hitPriceUsdc: Number(cache.hit_price_usdc) } : {}),
+        },
+      }
+      : {}),
+    ...(policy
+      ? {
+        policy: {
+          ...(policy.timeout_ms !== undefined ? { timeoutMs: policy.timeout_ms } : {}),
+          ...(policy.max_request_body_bytes !== undefined ? { maxRequestBodyBytes: policy.max_request_body_bytes } : {}),
+          ...(policy.max_response_bytes !== undefined ? { maxResponseBytes: policy.max_response_bytes } : {}),
+          ...(policy.allowed_methods ? { allowedMethods: policy.allowed_methods } : {}),
+        },
+      }
+      : {}),
+  };
+}
+
+/**
+ * The registry entry calls to `version` are proxied with: the API's own
+ * identity, credentials and retry policy, with the version's base URL and
+ * endpoints. The API's extra origins belong to the listing and are dropped.
+ */
+export function versionedApiEntry(api: ApiRegistryEntry, version: ApiVersion): ApiRegistryEntry {
+  return { ...api, base_url: version.baseUrl, origins: undefined, endpoints: version.endpoints };
+}
+
+/** The version a consumer's subscription to the API is pinned to, if any. */
+export type PinnedVersionLookup = (userId: string, apiId: string) => Promise<string | null>;
+
+/**
+ * Adapt {@link SubscriptionRepository} to the gateway. Subscriptions reference
+ * the numeric `apis.id`, so registry entries with non-numeric ids have no pins.
+ */
+export function createSubscriptionPinLookup(repository: SubscriptionRepository): PinnedVersionLookup {
+  return async (userId, apiId) => {
+    const numericApiId = Number(apiId);
+    if (!Number.isInteger(numericApiId) || numericApiId <= 0) return null;
+    const subscription = await repository.findActiveByUserAndApi(userId, numericApiId);
+    return subscription?.pinned_version ?? null;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export interface ApiVersionServiceOptions {
+  now?: () => Date;
+}
+
+export class ApiVersionService {
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly store: ApiVersionStore,
+    options: ApiVersionServiceOptions = {},
+  ) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async list(apiId: string): Promise<ApiVersion[]> {
+    return this.store.list(apiId);
+  }
+
+  async find(apiId: string, version: string): Promise<ApiVersion | null> {
+    return (await this.store.list(apiId)).find((candidate) => candidate.version === version) ?? null;
+  }
+
+  async get(apiId: string, version: string): Promise<ApiVersion> {
+    const found = await this.find(apiId, version);
+    if (!found) throw apiVersionNotFoundError(version);
+    return found;
+  }
+
+  async publish(apiId: string, input: PublishApiVersionInput, actor: string): Promise<ApiVersion> {
+    if (!API_VERSION_PATTERN.test(input.version)) {
+      throw new BadRequestError(
+        'version must be 1-32 letters, digits, ".", "-" or "_", starting with a letter or digit',
+      );
+    }
+    let baseUrl: string;
+    try {
+      baseUrl = validateUpstreamBaseUrl(input.baseUrl);
+    } catch (error) {
+      throw new BadRequestError(error instanceof Error ? error.message : 'Invalid base URL');
+    }
+    if ((await this.store.list(apiId)).length >= MAX_API_VERSIONS) {
+      throw new BadRequestError(
+        `An API can publish at most ${MAX_API_VERSIONS} versions`,
+        'API_VERSION_LIMIT_EXCEEDED',
+      );
+    }
+
+    const record: ApiVersion = {
+      apiId,
+      version: input.version,
+      baseUrl,
+      endpoints: input.endpoints.map((endpoint) => endpointPricingOf(input.version, endpoint)),
+      createdAt: this.now().toISOString(),
+      createdBy: actor,
+      deprecatedAt: null,
+      sunsetAt: null,
+      successor: null,
+    };
+    if (!(await this.store.insert(record))) {
+      throw new ConflictError(`This API already has a version "${input.version}"`, 'API_VERSION_EXISTS');
+    }
+    return record;
+  }
+
+  /**
+   * Deprecates `version`, or moves the sunset date of a version that already
+   * is. The sunset date must be in the future, and a successor must be
+   * another version that has not been sunset.
+   */
+  async deprecate(apiId: string, version: string, input: DeprecateApiVersionInput): Promise<ApiVersion> {
+    const now = this.now();
+    const current = await this.get(apiId, version);
+    if (this.isSunset(current)) throw new ApiVersionSunsetError(current);
+    if (input.sunsetAt.getTime() <= now.getTime()) {
+      throw new BadRequestError('sunset_at must be in the future');
+    }
+
+    const successor = input.successor ?? null;
+    if (successor !== null) {
+      if (successor === version) throw new BadRequestError('A version cannot succeed itself');
+      const next = await this.get(apiId, successor);
+      if (this.isSunset(next)) throw new ApiVersionSunsetError(next);
+    }
+
+    const updated: ApiVersion = {
+      ...current,
+      deprecatedAt: current.deprecatedAt ?? now.toISOString(),
+      sunsetAt: input.sunsetAt.toISOString(),
+      successor,
+    };
+    await this.store.update(updated);
+    return updated;
+  }
+
+  isSunset(version: ApiVersion): boolean {
+    return version.sunsetAt !== null && Date.parse(version.sunsetAt) <= this.now().getTime();
+  }
+
+  /**
+   * The version a call to the API is answered by: `requested` when the call
+   * names one, else the caller's pin, else null for the listing itself.
+   * `pinned` is only consulted when the API has versions.
+   */
+  async select(
+    apiId: string,
+    requested: string | null,
+    pinned: () => Promise<string | null>,
+  ): Promise<ApiVersion | null> {
+    const versions = await this.store.list(apiId);
+    if (requested === null && versions.length === 0) return null;
+
+    const name = requested ?? await pinned();
+    if (name === null) return null;
+    const version = versions.find((candidate) => candidate.version === name);
+    if (!version) throw apiVersionNotFoundError(name);
+    if (this.isSunset(version)) throw new ApiVersionSunsetError(version);
+    return version;
+  }
+}
+
+/** Shared singleton used by the proxy, the provider routes and subscriptions. */
+export const defaultApiVersionService = new ApiVersionService(new InMemoryApiVersionStore());
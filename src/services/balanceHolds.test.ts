@@ -0,0 +1,185 @@
+import { DataType, newDb } from 'pg-mem';
+import {
+  BalanceHoldService,
+  createConfiguredBalanceHoldService,
+  formatUsdc,
+  holdAmountUsdc,
+  InMemoryBalanceHoldStore,
+  PostgresBalanceHoldStore,
+  type BalanceHoldStore,
+} from './balanceHolds.js';
+import { callPriceUsdc } from './endpointPricing.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+import type { EndpointPricing } from '../types/gateway.js';
+
+function createPgMemPool(): PersistentRateLimiterPool {
+  const db = newDb({ noAstCoverageCheck: true });
+  // pg-mem runs one statement at a time, so the advisory lock can be a no-op.
+  db.public.registerFunction({
+    name: 'hashtext',
+    args: [DataType.text],
+    returns: DataType.integer,
+    implementation: () => 0,
+  });
+  db.public.registerFunction({
+    name: 'pg_advisory_xact_lock',
+    args: [DataType.integer],
+    returns: DataType.text,
+    implementation: () => '',
+    impure: true,
+  });
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+/** A service over `store` whose clock only moves when the test moves it. */
+function serviceAt(store: BalanceHoldStore, ttlMs = 1_000) {
+  const clock = { now: new Date('2026-05-01T00:00:00.000Z') };
+  const service = new BalanceHoldService(store, { ttlMs, now: () => clock.now });
+  const advance = (ms: number): void => {
+    clock.now = new Date(clock.now.getTime() + ms);
+  };
+  return { service, advance };
+}
+
+describe('holdAmountUsdc', () => {
+  it('holds the flat price', () => {
+    expect(holdAmountUsdc({ endpointId: 'ep', path: '*', priceUsdc: 0.25 })).toBe(0.25);
+  });
+
+  it('holds the highest tier price of tiered endpoints', () => {
+    expect(holdAmountUsdc({
+      endpointId: 'ep',
+      path: '*',
+      priceUsdc: 1,
+      pricingModel: 'graduated',
+      tiers: [
+        { upTo: 10, priceUsdc: 1 },
+        { upTo: 100, priceUsdc: 2 },
+        { upTo: null, priceUsdc: 0.5 },
+      ],
+    })).toBe(2);
+  });
+
+  it('covers the call that crosses into a dearer volume tier', () => {
+    const endpoint: EndpointPricing = {
+      endpointId: 'ep',
+      path: '*',
+      priceUsdc: 0.01,
+      pricingModel: 'volume',
+      tiers: [
+        { upTo: 100, priceUsdc: 0.01 },
+        { upTo: null, priceUsdc: 0.02 },
+      ],
+    };
+    expect(callPriceUsdc(endpoint, 101)).toBe(1.02);
+    expect(holdAmountUsdc(endpoint)).toBe(1.02);
+  });
+
+  it('holds the maximum charge of unit-priced endpoints', () => {
+    expect(holdAmountUsdc({
+      endpointId: 'ep',
+      path: '*',
+      priceUsdc: 0.01,
+      unitPricing: { priceUsdc: 0.01, maxUnitsPerCall: 50 },
+    })).toBe(0.5);
+  });
+
+  it('holds nothing for streaming endpoints, which are checked per interval', () => {
+    expect(holdAmountUsdc({
+      endpointId: 'ep',
+      path: '*',
+      priceUsdc: 0.06,
+      streamPricing: { perMinuteUsdc: 0.06 },
+    })).toBe(0);
+  });
+});
+
+describe('formatUsdc', () => {
+  it('keeps two to seven decimal places', () => {
+    expect(formatUsdc(0)).toBe('0.00');
+    expect(formatUsdc(12.5)).toBe('12.50');
+    expect(formatUsdc(0.0000001)).toBe('0.0000001');
+  });
+});
+
+describe.each([
+  ['InMemoryBalanceHoldStore', () => new InMemoryBalanceHoldStore()],
+  ['PostgresBalanceHoldStore', () => new PostgresBalanceHoldStore(createPgMemPool())],
+])('BalanceHoldService with %s', (_name, createStore: () => BalanceHoldStore) => {
+  it('refuses holds the balance less active holds cannot cover', async () => {
+    const { service } = serviceAt(createStore());
+
+    expect(await service.authorize({ developerId: 'dev', amountUsdc: 3, balanceUsdc: 5 })).not.toBeNull();
+    expect(await service.authorize({ developerId: 'dev', amountUsdc: 3, balanceUsdc: 5 })).toBeNull();
+    expect(await service.authorize({ developerId: 'other', amountUsdc: 3, balanceUsdc: 5 })).not.toBeNull();
+    expect(await service.heldFor('dev')).toBe(3);
+  });
+
+  it('frees the held amount once a hold is captured or released', async () => {
+    const { service } = serviceAt(createStore());
+
+    const first = await service.authorize({ developerId: 'dev', amountUsdc: 2, balanceUsdc: 4 });
+    const second = await service.authorize({ developerId: 'dev', amountUsdc: 2, balanceUsdc: 4 });
+    await first?.capture(1.5);
+    expect(await service.heldFor('dev')).toBe(2);
+
+    await second?.release();
+    await second?.release();
+    expect(await service.heldFor('dev')).toBe(0);
+  });
+
+  it('stops counting holds once they expire', async () => {
+    const { service, advance } = serviceAt(createStore());
+
+    const stale = await service.authorize({ developerId: 'dev', amountUsdc: 5, balanceUsdc: 5 });
+    advance(1_000);
+
+    expect(await service.heldFor('dev')).toBe(0);
+    expect(await service.authorize({ developerId: 'dev', amountUsdc: 5, balanceUsdc: 5 })).not.toBeNull();
+    // Settling an expired hold leaves the new hold in place.
+    await stale?.release();
+    expect(await service.heldFor('dev')).toBe(5);
+  });
+
+  it('summarizes available balance without going below zero', async () => {
+    const { service } = serviceAt(createStore());
+
+    await service.authorize({ developerId: 'dev', amountUsdc: 4, balanceUsdc: 10 });
+
+    await expect(service.summarize('dev', 10)).resolves.toEqual({
+      balanceUsdc: 10,
+      heldUsdc: 4,
+      availableUsdc: 6,
+    });
+    await expect(service.summarize('dev', 3)).resolves.toMatchObject({ availableUsdc: 0 });
+  });
+});
+
+describe('PostgresBalanceHoldStore', () => {
+  it('shares holds across instances backed by the same database', async () => {
+    const pool = createPgMemPool();
+    const instanceA = serviceAt(new PostgresBalanceHoldStore(pool)).service;
+    const instanceB = serviceAt(new PostgresBalanceHoldStore(pool)).service;
+
+    expect(await instanceA.authorize({ developerId: 'dev', amountUsdc: 3, balanceUsdc: 5 })).not.toBeNull();
+    expect(await instanceB.authorize({ developerId: 'dev', amountUsdc: 3, balanceUsdc: 5 })).toBeNull();
+    expect(await instanceB.heldFor('dev')).toBe(3);
+  });
+
+  it('rejects unsafe table names', () => {
+    expect(
+      () => new PostgresBalanceHoldStore(createPgMemPool(), { tableName: 'holds;DROP TABLE users' }),
+    ).toThrow('Balance hold tableName must contain only letters, numbers, and underscores.');
+  });
+});
+
+describe('createConfiguredBalanceHoldService', () => {
+  it('requires a pool for the postgres store', () => {
+    expect(() => createConfiguredBalanceHoldService({
+      store: 'postgres',
+      postgresTable: 'balance_holds',
+      ttlMs: 1_000,
+    })).toThrow('A PostgreSQL pool is required when BALANCE_HOLD_STORE is set to "postgres".');
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * balanceHolds.ts
+ *
+ * Authorise-then-capture for proxied calls. The proxy charges a call only
+ * after the upstream has responded, so a pre-flight balance check alone lets
+ * many concurrent calls pass against the same funds and overdraw the caller.
+ *
+ * Before a call is forwarded, a hold for the most it can cost is reserved
+ * against the caller's balance. The reservation only succeeds when the
+ * balance less the caller's other active holds covers it. The hold is then
+ * captured once the call has been charged, or released when the call ends
+ * without being billed (upstream failure, non-recordable status, client
+ * abort, failed charge).
+ *
+ * Holds expire after a TTL so a crashed request cannot lock funds forever:
+ * expired holds stop counting against the balance straight away and are
+ * marked `expired` the next time the caller reserves.
+ *
+ * Holds live in a {@link BalanceHoldStore}. The in-memory store is only
+ * correct for a single instance; `BALANCE_HOLD_STORE=postgres` serialises
+ * each caller's reservations with a transaction-scoped advisory lock, so every
+ * gateway instance sees the same holds.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { PaymentRequiredError } from '../errors/index.js';
+import { logger } from '../logger.js';
+import type { EndpointPricing } from '../types/gateway.js';
+import { maxCallPriceUsdc, pricingModelOf } from './endpointPricing.js';
+import { isUnitPriced, maxCallChargeUsdc } from './unitMetering.js';
+import type {
+  PersistentRateLimiterClient,
+  PersistentRateLimiterPool,
+} from './rateLimiter.js';
+
+const DEFAULT_PERSISTENT_TABLE = 'balance_holds';
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+const DEFAULT_TTL_MS = 120_000;
+
+/** USDC has 7 decimal places on Stellar. */
+const USDC_SCALE = 1e7;
+
+function roundUsdc(amount: number): number {
+  return Math.round(amount * USDC_SCALE) / USDC_SCALE;
+}
+
+/** Format an amount like credit balances: 2 to 7 decimal places. */
+export function formatUsdc(amount: number): string {
+  const [whole, fraction = ''] = roundUsdc(amount).toFixed(7).split('.');
+  return `${whole}.${fraction.replace(/0+$/, '').padEnd(2, '0')}`;
+}
+
+// ---------------------------------------------------------------------------
+// Hold sizing
+// ---------------------------------------------------------------------------
+
+/**
+ * The amount to hold for one call to the endpoint: the flat price, the
+ * most one call can be charged for tiered endpoints, or the maximum charge
+ * for unit-priced endpoints. Streaming endpoints hold nothing: their connections
+ * are charged and balance checked per interval (see streamMetering.ts).
+ */
+export function holdAmountUsdc(endpoint: EndpointPricing): number {
+  if (endpoint.streamPricing) return 0;
+  if (isUnitPriced(endpoint)) return maxCallChargeUsdc(endpoint.unitPricing);
+  if (pricingModelOf(endpoint) !== 'flat') return maxCallPriceUsdc(endpoint);
+  return endpoint.priceUsdc;
+}
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+export interface NewBalanceHold {
+  id: string;
+  developerId: string;
+  /** Proxied request the hold was placed for, for tracing. */
+  requestId?: string;
+  amountUsdc: number;
+  expiresAt: Date;
+}
+
+export interface BalanceHoldStore {
+  /**
+   * Atomically place the hold unless `balanceUsdc` less the developer's
+   * active holds is below its amount. Returns false when refused.
+   */
+  reserve(hold: NewBalanceHold, balanceUsdc: number, now: Date): Promise<boolean>;
+  /** Settle an active hold as charged. Returns false if it is no longer active. */
+  capture(id: string, amountUsdc: number, now: Date): Promise<boolean>;
+  /** Settle an active hold without charging. Returns false if it is no longer active. */
+  release(id: string, now: Date): Promise<boolean>;
+  /** Total of the developer's active, unexpired holds. */
+  heldFor(developerId: string, now: Date): Promise<number>;
+}
+
+export class InMemoryBalanceHoldStore implements BalanceHoldStore {
+  /** Active holds only — settled and expired holds are dropped. */
+  private readonly holds = new Map<string, NewBalanceHold>();
+
+  async reserve(hold: NewBalanceHold, balanceUsdc: number, now: Date): Promise<boolean> {
+    this.dropExpired(hold.developerId, now);
+    const held = await this.heldFor(hold.developerId, now);
+    if (roundUsdc(balanceUsdc - held) < hold.amountUsdc) {
+      return false;
+    }
+    this.holds.set(hold.id, { ...hold });
+    return true;
+  }
+
+  async capture(id: string, _amountUsdc: number, now: Date): Promise<boolean> {
+    return this.settle(id, now);
+  }
+
+  async release(id: string, now: Date): Promise<boolean> {
+    return this.settle(id, now);
+  }
+
+  async heldFor(developerId: string, now: Date): Promise<number> {
+    let held = 0;
+    for (const hold of this.holds.values()) {
+      if (hold.developerId === developerId && hold.expiresAt > now) {
+        held += hold.amountUsdc;
+      }
+    }
+    return roundUsdc(held);
+  }
+
+  /** Helper for tests — remove every hold. */
+  reset(): void {
+    this.holds.clear();
+  }
+
+  private settle(id: string, now: Date): boolean {
+    const hold = this.holds.get(id);
+    if (!hold) return false;
+    this.holds.delete(id);
+    return hold.expiresAt > now;
+  }
+
+  private dropExpired(developerId: string, now: Date): void {
+    for (const [id, hold] of this.holds) {
+      if (hold.developerId === developerId && hold.expiresAt <= now) {
+        this.holds.delete(id);
+      }
+    }
+  }
+}
+
+export interface PostgresBalanceHoldStoreOptions {
+  tableName?: string;
+}
+
+type HeldRow = { held: string | number | null };
+
+async function rollbackQuietly(client: PersistentRateLimiterClient): Promise<void> {
+  try {
+    await client.query('ROLLBACK');
+  } catch {
+    // Ignore rollback errors so we surface the original failure.
+  }
+}
+
+export class PostgresBalanceHoldStore implements BalanceHoldStore {
+  private readonly tableName: string;
+  private tableReadyPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly pool: PersistentRateLimiterPool,
+    options: PostgresBalanceHoldStoreOptions = {},
+  ) {
+    const tableName = options.tableName ?? DEFAULT_PERSISTENT_TABLE;
+    if (!TABLE_NAME_PATTERN.test(tableName)) {
+      throw new Error(
+        'Balance hold tableName must contain only letters, numbers, and underscores.',
+      );
+    }
+    this.tableName = tableName;
+  }
+
+  async reserve(hold: NewBalanceHold, balanceUsdc: number, now: Date): Promise<boolean> {
+    await this.ensureTable();
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialise reservations per developer so concurrent calls on any
+      // gateway instance cannot both fit into the same available balance.
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `${this.tableName}:${hold.developerId}`,
+      ]);
+
+      await client.query(
+        `UPDATE ${this.tableName}
+         SET status = 'expired', settled_at = $2
+         WHERE developer_id = $1 AND status = 'held' AND expires_at <= $2`,
+        [hold.developerId, now],
+      );
+
+      const existing = await client.query<HeldRow>(
+        `SELECT COALESCE(SUM(amount_usdc), 0) AS held FROM ${this.tableName}
+         WHERE developer_id = $1 AND status = 'held'`,
+        [hold.developerId],
+      );
+
+      const held = Number(existing.rows[0]?.held ?? 0);
+      if (roundUsdc(balanceUsdc - held) < hold.amountUsdc) {
+        await client.query('COMMIT');
+        return false;
+      }
+
+      await client.query(
+        `INSERT INTO ${this.tableName}
+           (id, developer_id, request_id, amount_usdc, status, created_at, expires_at)
+         VALUES ($1, $2, $3, $4, 'held', $5, $6)`,
+        [hold.id, hold.developerId, hold.requestId ?? null, hold.amountUsdc, now, hold.expiresAt],
+      );
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await rollbackQuietly(client);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async capture(id: string, amountUsdc: number, now: Date): Promise<boolean> {
+    return this.settle(id, 'captured', amountUsdc, now);
+  }
+
+  async release(id: string, now: Date): Promise<boolean> {
+    return this.settle(id, 'released', null, now);
+  }
+
+  async heldFor(developerId: string, now: Date): Promise<number> {
+    await this.ensureTable();
+
+    const result = await this.withClient((client) =>
+      client.query<HeldRow>(
+        `SELECT COALESCE(SUM(amount_usdc), 0) AS held FROM ${this.tableName}
+         WHERE developer_id = $1 AND status = 'held' AND expires_at > $2`,
+        [developerId, now],
+      ),
+    );
+    return roundUsdc(Number(result.rows[0]?.held ?? 0));
+  }
+
+  private async settle(
+    id: string,
+    status: 'captured' | 'released',
+    capturedUsdc: number | null,
+    now: Date,
+  ): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await this.withClient((client) =>
+      client.query<{ id: string }>(
+        `UPDATE ${this.tableName}
+         SET status = $2, captured_usdc = $3, settled_at = $4
+         WHERE id = $1 AND status = 'held' AND expires_at > $4
+         RETURNING id`,
+        [id, status, capturedUsdc, now],
+      ),
+    );
+    return result.rows.length > 0;
+  }
+
+  private async withClient<T>(fn: (client: PersistentRateLimiterClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await fn(client);
+    } finally {
+      client.release();
+    }
+  }
+
+  private async ensureTable(): Promise<void> {
+    if (!this.tableReadyPromise) {
+      this.tableReadyPromise = this.createTableIfNeeded().catch((error) => {
+        this.tableReadyPromise = null;
+        throw error;
+      });
+    }
+
+    await this.tableReadyPromise;
+  }
+
+  private async createTableIfNeeded(): Promise<void> {
+    await this.withClient(async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          id TEXT PRIMARY KEY,
+          developer_id TEXT NOT NULL,
+          request_id TEXT,
+          amount_usdc NUMERIC(20, 7) NOT NULL CHECK (amount_usdc >= 0),
+          captured_usdc NUMERIC(20, 7),
+          status TEXT NOT NULL CHECK (status IN ('held', 'captured', 'released', 'expired')),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          expires_at TIMESTAMPTZ NOT NULL,
+          settled_at TIMESTAMPTZ
+        )
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS ${this.tableName}_active_idx
+        ON ${this.tableName} (developer_id, expires_at)
+        WHERE status = 'held'
+      `);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export interface AuthorizedHold {
+  id: string;
+  amountUsdc: number;
+  expiresAt: Date;
+  /** Settle the hold once the call has been charged. Idempotent. */
+  capture(amountUsdc: number): Promise<void>;
+  /** Give the held amount back without charging. Idempotent. */
+  release(): Promise<void>;
+}
+
+export interface BalanceSummary {
+  balanceUsdc: number;
+  heldUsdc: number;
+  /** Balance less active holds, never below zero. */
+  availableUsdc: number;
+}
+
+export interface BalanceHoldServiceOptions {
+  /** How long a hold counts against the balance if never settled. */
+  ttlMs?: number;
+  now?: () => Date;
+}
+
+export class BalanceHoldService {
+  private readonly ttlMs: number;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly store: BalanceHoldStore,
+    options: BalanceHoldServiceOptions = {},
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Reserve `amountUsdc` of the developer's `balanceUsdc`. Returns null when
+   * the balance less the developer's active holds does not cover it.
+   */
+  async authorize(request: {
+    developerId: string;
+    amountUsdc: number;
+    balanceUsdc: number;
+    requestId?: string;
+  }): Promise<AuthorizedHold | null> {
+    const now = this.now();
+    const hold: NewBalanceHold = {
+      id: randomUUID(),
+      developerId: request.developerId,
+      requestId: request.requestId,
+      amountUsdc: roundUsdc(request.amountUsdc),
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+    };
+
+    if (!(await this.store.reserve(hold, request.balanceUsdc, now))) {
+      return null;
+    }
+
+    let settled = false;
+    const settle = async (
+      action: 'capture' | 'release',
+      fn: () => Promise<boolean>,
+    ): Promise<void> => {
+      if (settled) return;
+      settled = true;
+      try {
+        if (!(await fn())) {
+          logger.warn('[balanceHolds] Hold expired before it was settled', {
+            holdId: hold.id,
+            developerId: hold.developerId,
+            requestId: hold.requestId,
+            action,
+          });
+        }
+      } catch (error) {
+        logger.error('[balanceHolds] Failed to settle hold', {
+          holdId: hold.id,
+          developerId: hold.developerId,
+          action,
+          error,
+        });
+      }
+    };
+
+    return {
+      id: hold.id,
+      amountUsdc: hold.amountUsdc,
+      expiresAt: hold.expiresAt,
+      capture: (amountUsdc) =>
+        settle('capture', () => this.store.capture(hold.id, roundUsdc(amountUsdc), this.now())),
+      release: () => settle('release', () => this.store.release(hold.id, this.now())),
+    };
+  }
+
+  /** Total currently held for the developer's in-flight calls. */
+  async heldFor(developerId: string): Promise<number> {
+    return this.store.heldFor(developerId, this.now());
+  }
+
+  /** Split a balance into the held and available amounts. */
+  async summarize(developerId: string, balanceUsdc: number): Promise<BalanceSummary> {
+    const heldUsdc = await this.heldFor(developerId);
+    return {
+      balanceUsdc,
+      heldUsdc,
+      availableUsdc: Math.max(0, roundUsdc(balanceUsdc - heldUsdc)),
+    };
+  }
+}
+
+export function insufficientAvailableBalanceError(amountUsdc: number): PaymentRequiredError {
+  return new PaymentRequiredError(
+    `Payment Required: available balance does not cover the ${amountUsdc} USDC hold for this call`,
+    'PREAUTHORIZATION_FAILED',
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface AppBalanceHoldConfig {
+  store: 'memory' | 'postgres';
+  postgresTable: string;
+  ttlMs: number;
+}
+
+/**
+ * Shared in-process holds: the proxy places them and `GET /api/credits`
+ * reports them, so both must see the same store when holds are in memory.
+ */
+const defaultBalanceHoldStore = new InMemoryBalanceHoldStore();
+
+export const defaultBalanceHoldService = new BalanceHoldService(defaultBalanceHoldStore);
+
+export function createConfiguredBalanceHoldService(
+  config: AppBalanceHoldConfig,
+  persistentPool?: PersistentRateLimiterPool,
+): BalanceHoldService {
+  if (config.store === 'postgres') {
+    if (!persistentPool) {
+      throw new Error(
+        'A PostgreSQL pool is required when BALANCE_HOLD_STORE is set to "postgres".',
+      );
+    }
+    return new BalanceHoldService(
+      new PostgresBalanceHoldStore(persistentPool, { tableName: config.postgresTable }),
+      { ttlMs: config.ttlMs },
+    );
+  }
+  return new BalanceHoldService(defaultBalanceHoldStore, { ttlMs: config.ttlMs });
+}
@@ -0,0 +1,24 @@
+import { allowedMethodsFor } from './endpointPolicy.js';
+import type { EndpointPricing } from '../types/gateway.js';
+
+const ENDPOINTS: EndpointPricing[] = [
+  { endpointId: 'ep_upload', path: '/files', method: 'POST', priceUsdc: 1, policy: { allowedMethods: ['POST'] } },
+  { endpointId: 'ep_replace', path: '/files', method: 'PUT', priceUsdc: 1, policy: { allowedMethods: ['PUT'] } },
+  { endpointId: 'ep_meta', path: '/files/meta', priceUsdc: 1 },
+  { endpointId: 'ep_default', path: '*', priceUsdc: 1, policy: { allowedMethods: ['GET'] } },
+];
+
+describe('allowedMethodsFor', () => {
+  it('joins the methods of the endpoints with the longest matching path', () => {
+    expect(allowedMethodsFor(ENDPOINTS, '/files/42')).toEqual(['POST', 'PUT']);
+  });
+
+  it('accepts any method when the matching endpoints set none', () => {
+    expect(allowedMethodsFor(ENDPOINTS, '/files/meta/42')).toBeNull();
+  });
+
+  it('falls back to the wildcard endpoint when no path matches', () => {
+    expect(allowedMethodsFor(ENDPOINTS, '/status')).toEqual(['GET']);
+    expect(allowedMethodsFor([], '/status')).toBeNull();
+  });
+});
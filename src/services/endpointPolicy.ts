@@ -0,0 +1,75 @@
+/**
+ * endpointPolicy.ts
+ *
+ * Per-endpoint limits on `/v1/call`. A provider can give an endpoint its own
+ * upstream timeout, request and response size limits and accepted methods
+ * (see {@link EndpointPolicy}); endpoints without them use the gateway-wide
+ * `PROXY_TIMEOUT_MS` and `GATEWAY_BODY_LIMIT` and accept any method.
+ *
+ * Each limit fails with its own error code so callers can tell them apart
+ * from the gateway-wide ones:
+ *   - method not accepted         → 405 ENDPOINT_METHOD_NOT_ALLOWED
+ *   - request body too large      → 413 ENDPOINT_REQUEST_BODY_TOO_LARGE
+ *   - endpoint timeout            → 504 ENDPOINT_TIMEOUT
+ *   - upstream response too large → 502 ENDPOINT_RESPONSE_TOO_LARGE
+ *
+ * None of these calls are billed.
+ */
+
+import {
+  AppError,
+  BadGatewayError,
+  GatewayTimeoutError,
+  PayloadTooLargeError,
+} from '../errors/index.js';
+import { endpointPathMatches } from '../data/apiRegistry.js';
+import type { EndpointPricing } from '../types/gateway.js';
+
+/** Rejects a call with a method the endpoint's path does not accept. */
+export class EndpointMethodNotAllowedError extends AppError {
+  constructor(public readonly allow: string[]) {
+    super(`Method not allowed on this endpoint; allowed: ${allow.join(', ')}`, 405, 'ENDPOINT_METHOD_NOT_ALLOWED');
+    this.name = 'EndpointMethodNotAllowedError';
+    Object.setPrototypeOf(this, EndpointMethodNotAllowedError.prototype);
+  }
+}
+
+/**
+ * The methods accepted on `path`, or null when any method is. They are the
+ * `allowedMethods` of the endpoints with the longest path matching the call,
+ * as endpoints are matched for pricing; the `*` endpoints when none match.
+ */
+export function allowedMethodsFor(endpoints: EndpointPricing[], path: string): string[] | null {
+  const matching = endpoints.filter((endpoint) => endpoint.path !== '*' && endpointPathMatches(endpoint.path, path));
+  const longest = Math.max(...matching.map((endpoint) => endpoint.path.replace(/^\//, '').length));
+  const onPath = matching.length > 0
+    ? matching.filter((endpoint) => endpoint.path.replace(/^\//, '').length === longest)
+    : endpoints.filter((endpoint) => endpoint.path === '*');
+
+  const allowed = new Set<string>();
+  for (const endpoint of onPath) {
+    for (const method of endpoint.policy?.allowedMethods ?? []) allowed.add(method.toUpperCase());
+  }
+  return allowed.size > 0 ? [...allowed] : null;
+}
+
+export function endpointRequestBodyTooLargeError(limitBytes: number): PayloadTooLargeError {
+  return new PayloadTooLargeError(
+    `Request body exceeds this endpoint's limit of ${limitBytes} bytes`,
+    'ENDPOINT_REQUEST_BODY_TOO_LARGE',
+  );
+}
+
+export function endpointTimeoutError(timeoutMs: number): GatewayTimeoutError {
+  return new GatewayTimeoutError(
+    `Upstream did not respond within this endpoint's timeout of ${timeoutMs} ms`,
+    'ENDPOINT_TIMEOUT',
+  );
+}
+
+export function endpointResponseTooLargeError(limitBytes: number): BadGatewayError {
+  return new BadGatewayError(
+    `Upstream response exceeds this endpoint's limit of ${limitBytes} bytes`,
+    'ENDPOINT_RESPONSE_TOO_LARGE',
+  );
+}
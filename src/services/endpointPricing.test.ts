@@ -0,0 +1,164 @@
+import {
+  billedToDateUsdc,
+  callPriceUsdc,
+  periodCostUsdc,
+  priceCall,
+  PricingCallCounter,
+  pricingModelOf,
+  validatePriceTiers,
+} from './endpointPricing.js';
+import { InMemoryMeteringCounterStore } from './subscriptionMetering.js';
+import type { EndpointPricing } from '../types/gateway.js';
+
+const graduated: EndpointPricing = {
+  endpointId: 'ep_graduated',
+  path: '/search',
+  priceUsdc: 0.01,
+  pricingModel: 'graduated',
+  tiers: [
+    { upTo: 2, priceUsdc: 0.01 },
+    { upTo: 4, priceUsdc: 0.005 },
+    { upTo: null, priceUsdc: 0.001 },
+  ],
+};
+
+const volume: EndpointPricing = {
+  ...graduated,
+  endpointId: 'ep_volume',
+  pricingModel: 'volume',
+};
+
+const flat: EndpointPricing = { endpointId: 'ep_flat', path: '*', priceUsdc: 0.02 };
+
+function sumOfCallPrices(endpoint: EndpointPricing, calls: number): number {
+  let total = 0;
+  for (let n = 1; n <= calls; n++) total += callPriceUsdc(endpoint, n);
+  return Math.round(total * 1e7) / 1e7;
+}
+
+describe('pricingModelOf', () => {
+  it('treats endpoints without tiers as flat', () => {
+    expect(pricingModelOf(flat)).toBe('flat');
+    expect(pricingModelOf({ ...graduated, tiers: [] })).toBe('flat');
+    expect(pricingModelOf(graduated)).toBe('graduated');
+  });
+});
+
+describe('periodCostUsdc', () => {
+  it('prices each call of a graduated endpoint by its own tier', () => {
+    expect(periodCostUsdc(graduated, 2)).toBe(0.02);
+    expect(periodCostUsdc(graduated, 4)).toBe(0.03);
+    expect(periodCostUsdc(graduated, 10)).toBe(0.036);
+  });
+
+  it('re-prices every call of a volume endpoint at the tier reached', () => {
+    expect(periodCostUsdc(volume, 2)).toBe(0.02);
+    expect(periodCostUsdc(volume, 3)).toBe(0.015);
+    expect(periodCostUsdc(volume, 10)).toBe(0.01);
+  });
+
+  it('multiplies flat prices', () => {
+    expect(periodCostUsdc(flat, 3)).toBe(0.06);
+    expect(periodCostUsdc(flat, 0)).toBe(0);
+  });
+});
+
+describe('callPriceUsdc', () => {
+  it('charges graduated calls the price of the tier they fall in', () => {
+    expect([1, 2, 3, 4, 5].map((n) => callPriceUsdc(graduated, n))).toEqual([
+      0.01, 0.01, 0.005, 0.005, 0.001,
+    ]);
+  });
+
+  it('bills exactly the period cost for graduated endpoints', () => {
+    expect(sumOfCallPrices(graduated, 10)).toBe(periodCostUsdc(graduated, 10));
+  });
+
+  it('never charges a negative amount when volume pricing drops a tier', () => {
+    const prices = Array.from({ length: 20 }, (_, i) => callPriceUsdc(volume, i + 1));
+    expect(prices.every((price) => price >= 0)).toBe(true);
+    // Calls 3..4 are free until the re-priced total passes what was billed.
+    expect(prices.slice(2, 4)).toEqual([0, 0]);
+  });
+
+  it('bills the volume period cost once usage has caught up', () => {
+    expect(billedToDateUsdc(volume, 3)).toBe(0.02);
+    expect(sumOfCallPrices(volume, 20)).toBe(periodCostUsdc(volume, 20));
+  });
+
+  it('returns the flat price for flat endpoints', () => {
+    expect(callPriceUsdc(flat, 1_000)).toBe(0.02);
+  });
+});
+
+describe('validatePriceTiers', () => {
+  it('accepts ordered tiers ending in an unbounded tier', () => {
+    expect(validatePriceTiers(graduated.tiers!)).toBeNull();
+  });
+
+  it('rejects tiers that are out of order', () => {
+    expect(
+      validatePriceTiers([
+        { upTo: 10, priceUsdc: 1 },
+        { upTo: 5, priceUsdc: 1 },
+        { upTo: null, priceUsdc: 1 },
+      ]),
+    ).toBe('Tier 2 upper bound must be an integer greater than 10');
+  });
+
+  it('rejects volume tiers that get dearer', () => {
+    const rising = [
+      { upTo: 100, priceUsdc: 0.01 },
+      { upTo: null, priceUsdc: 0.02 },
+    ];
+    // Call 101 would re-price the first 100 calls too and be charged 1.02.
+    expect(callPriceUsdc({ ...volume, tiers: rising }, 101)).toBe(1.02);
+    expect(validatePriceTiers(rising, 'volume')).toBe('Volume tier 2 price must not exceed the price of tier 1');
+    expect(validatePriceTiers(rising, 'graduated')).toBeNull();
+    expect(validatePriceTiers(volume.tiers!, 'volume')).toBeNull();
+  });
+
+  it('requires exactly the last tier to be unbounded', () => {
+    expect(validatePriceTiers([{ upTo: 10, priceUsdc: 1 }])).toBe('The last tier must be unbounded');
+    expect(
+      validatePriceTiers([
+        { upTo: null, priceUsdc: 1 },
+        { upTo: null, priceUsdc: 1 },
+      ]),
+    ).toBe('Only the last tier may be unbounded');
+  });
+});
+
+describe('PricingCallCounter', () => {
+  let now: Date;
+  let counter: PricingCallCounter;
+
+  beforeEach(() => {
+    now = new Date('2026-05-31T12:00:00.000Z');
+    counter = new PricingCallCounter(new InMemoryMeteringCounterStore(), { now: () => now });
+  });
+
+  it('counts per consumer and endpoint', async () => {
+    await expect(counter.next('user-1', 'api', 'ep')).resolves.toBe(1);
+    await expect(counter.next('user-1', 'api', 'ep')).resolves.toBe(2);
+    await expect(counter.next('user-2', 'api', 'ep')).resolves.toBe(1);
+    await expect(counter.next('user-1', 'api', 'other')).resolves.toBe(1);
+  });
+
+  it('starts again in a new billing period', async () => {
+    await counter.next('user-1', 'api', 'ep');
+    now = new Date('2026-06-01T00:00:00.000Z');
+    await expect(counter.next('user-1', 'api', 'ep')).resolves.toBe(1);
+  });
+
+  it('prices tiered calls from the running count and leaves flat calls uncounted', async () => {
+    const context = { userId: 'user-1', apiId: 'api' };
+
+    await expect(priceCall(flat, counter, context)).resolves.toBe(0.02);
+    const prices = [];
+    for (let i = 0; i < 3; i++) prices.push(await priceCall(graduated, counter, context));
+
+    expect(prices).toEqual([0.01, 0.01, 0.005]);
+    await expect(counter.next('user-1', 'api', 'ep_flat')).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * endpointPricing.ts
+ *
+ * Prices proxied calls for endpoints with graduated or volume tiers.
+ *
+ * Tiers are evaluated per consumer, per endpoint, per billing period (calendar
+ * month, UTC — the same period invoices use). Each billed call takes the next
+ * number in the consumer's period count from a {@link PricingCallCounter} and
+ * is charged the increase in the period total that call causes, so the sum of
+ * per-call charges is always the period total.
+ *
+ * Volume pricing re-prices the whole period at the tier reached, so crossing
+ * into a cheaper tier can lower the period total. Calls are never charged a
+ * negative amount: after such a drop, calls are free until the re-priced
+ * total catches up with what has already been billed.
+ */
+
+import type { EndpointPricing, PriceTier, PricingModel } from '../types/gateway.js';
+import {
+  currentMeteringPeriod,
+  InMemoryMeteringCounterStore,
+  PostgresMeteringCounterStore,
+  type MeteringCounterStore,
+} from './subscriptionMetering.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+const DEFAULT_PERSISTENT_TABLE = 'endpoint_pricing_counters';
+
+/** USDC has 7 decimal places on Stellar. */
+const USDC_SCALE = 1e7;
+
+function roundUsdc(amount: number): number {
+  return Math.round(amount * USDC_SCALE) / USDC_SCALE;
+}
+
+// ---------------------------------------------------------------------------
+// Tier maths
+// ---------------------------------------------------------------------------
+
+/** The effective model — endpoints without tiers are always flat. */
+export function pricingModelOf(endpoint: EndpointPricing): PricingModel {
+  if (!endpoint.tiers?.length || !endpoint.pricingModel) return 'flat';
+  return endpoint.pricingModel;
+}
+
+/**
+ * Check that tiers are usable: at least one, strictly increasing positive
+ * integer bounds, non-negative prices, and only the last tier unbounded.
+ * Volume tiers must also not get dearer: re-pricing the whole period at a
+ * higher tier would charge the crossing call for every call before it.
+ * Returns a description of the first problem, or null when valid.
+ */
+export function validatePriceTiers(tiers: PriceTier[], model?: PricingModel): string | null {
+  if (tiers.length === 0) return 'At least one tier is required';
+
+  let previous = 0;
+  for (const [index, tier] of tiers.entries()) {
+    const isLast = index === tiers.length - 1;
+    if (!Number.isFinite(tier.priceUsdc) || tier.priceUsdc < 0) {
+      return `Tier ${index + 1} price must be a non-negative number`;
+    }
+    if (model === 'volume' && index > 0 && tier.priceUsdc > tiers[index - 1].priceUsdc) {
+      return `Volume tier ${index + 1} price must not exceed the price of tier ${index}`;
+    }
+    if (tier.upTo === null) {
+      if (!isLast) return 'Only the last tier may be unbounded';
+      continue;
+    }
+    if (isLast) return 'The last tier must be unbounded';
+    if (!Number.isInteger(tier.upTo) || tier.upTo <= previous) {
+      return `Tier ${index + 1} upper bound must be an integer greater than ${previous}`;
+    }
+    previous = tier.upTo;
+  }
+  return null;
+}
+
+function tierFor(tiers: PriceTier[], callCount: number): PriceTier {
+  return tiers.find((tier) => tier.upTo === null || callCount <= tier.upTo) ?? tiers[tiers.length - 1];
+}
+
+/** Total price of `calls` calls to the endpoint within one billing period. */
+export function periodCostUsdc(endpoint: EndpointPricing, calls: number): number {
+  if (calls <= 0) return 0;
+  const tiers = endpoint.tiers ?? [];
+
+  switch (pricingModelOf(endpoint)) {
+    case 'graduated': {
+      let cost = 0;
+      let floor = 0;
+      for (const tier of tiers) {
+        const ceiling = tier.upTo ?? Infinity;
+        cost += (Math.min(calls, ceiling) - floor) * tier.priceUsdc;
+        if (calls <= ceiling) break;
+        floor = ceiling;
+      }
+      return roundUsdc(cost);
+    }
+    case 'volume':
+      return roundUsdc(calls * tierFor(tiers, calls).priceUsdc);
+    default:
+      return roundUsdc(calls * endpoint.priceUsdc);
+  }
+}
+
+/**
+ * Total billed for the first `calls` calls of a period: the highest period
+ * total reached so far. Equal to {@link periodCostUsdc} except for volume
+ * pricing just after crossing into a cheaper tier.
+ */
+export function billedToDateUsdc(endpoint: EndpointPricing, calls: number): number {
+  let billed = periodCostUsdc(endpoint, calls);
+  if (pricingModelOf(endpoint) !== 'volume') return billed;
+
+  for (const tier of endpoint.tiers ?? []) {
+    if (tier.upTo === null || tier.upTo >= calls) break;
+    billed = Math.max(billed, periodCostUsdc(endpoint, tier.upTo));
+  }
+  return billed;
+}
+
+/** Price of the `callNumber`-th (1-based) call of the period. */
+export function callPriceUsdc(endpoint: EndpointPricing, callNumber: number): number {
+  if (pricingModelOf(endpoint) === 'flat') return endpoint.priceUsdc;
+  return roundUsdc(
+    billedToDateUsdc(endpoint, callNumber) - billedToDateUsdc(endpoint, callNumber - 1),
+  );
+}
+
+/**
+ * The most any single call to a tiered endpoint can be charged: the highest
+ * tier price, or for volume pricing the call crossing into a dearer tier,
+ * which also re-prices every call before it. Tiers created before
+ * {@link validatePriceTiers} refused rising volume prices can still do that.
+ */
+export function maxCallPriceUsdc(endpoint: EndpointPricing): number {
+  const tiers = endpoint.tiers ?? [];
+  let max = Math.max(endpoint.priceUsdc, ...tiers.map((tier) => tier.priceUsdc));
+  if (pricingModelOf(endpoint) !== 'volume') return max;
+
+  for (const tier of tiers) {
+    if (tier.upTo !== null) max = Math.max(max, callPriceUsdc(endpoint, tier.upTo + 1));
+  }
+  return max;
+}
+
+// ---------------------------------------------------------------------------
+// Per-consumer call counting
+// ---------------------------------------------------------------------------
+
+export interface PricingCallCounterOptions {
+  now?: () => Date;
+}
+
+/**
+ * Numbers each consumer's billed calls per endpoint and billing period. Backed
+ * by a {@link MeteringCounterStore}, so a Postgres store gives every gateway
+ * instance the same count.
+ */
+export class PricingCallCounter {
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly store: MeteringCounterStore,
+    options: PricingCallCounterOptions = {},
+  ) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Count one call and return its 1-based number within the current period. */
+  async next(userId: string, apiId: string, endpointId: string): Promise<number> {
+    const period = currentMeteringPeriod(this.now());
+    const result = await this.store.tryIncrement(
+      `${userId}:${apiId}:${endpointId}`,
+      period.key,
+      Number.MAX_SAFE_INTEGER,
+    );
+    return result.used;
+  }
+}
+
+/**
+ * Resolve what the caller is charged for one billed call. Flat endpoints are
+ * priced without touching the counter.
+ */
+export async function priceCall(
+  endpoint: EndpointPricing,
+  counter: PricingCallCounter,
+  context: { userId: string; apiId: string },
+): Promise<number> {
+  if (pricingModelOf(endpoint) === 'flat') return endpoint.priceUsdc;
+  const callNumber = await counter.next(context.userId, context.apiId, endpoint.endpointId);
+  return callPriceUsdc(endpoint, callNumber);
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface AppPricingCounterConfig {
+  store: 'memory' | 'postgres';
+  pricingTable: string;
+}
+
+export function createConfiguredPricingCallCounter(
+  config: AppPricingCounterConfig,
+  persistentPool?: PersistentRateLimiterPool,
+): PricingCallCounter {
+  if (config.store === 'postgres') {
+    if (!persistentPool) {
+      throw new Error(
+        'A PostgreSQL pool is required when METERING_STORE is set to "postgres".',
+      );
+    }
+    return new PricingCallCounter(
+      new PostgresMeteringCounterStore(persistentPool, {
+        tableName: config.pricingTable || DEFAULT_PERSISTENT_TABLE,
+      }),
+    );
+  }
+  return new PricingCallCounter(new InMemoryMeteringCounterStore());
+}
@@ -0,0 +1,157 @@
+import { newDb } from 'pg-mem';
+import jwt from 'jsonwebtoken';
+import {
+  InMemoryMfaStore,
+  MfaService,
+  PostgresMfaStore,
+  RECOVERY_CODE_COUNT,
+  type MfaStore,
+} from './mfa.js';
+import { totpCode, totpStep } from './totp.js';
+import { AppError } from '../errors/index.js';
+import { deriveSecretBoxKey } from '../lib/secretBox.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+const STEP_UP_SECRET = 'step-up-test-secret';
+const SUBJECT = 'user:dev_1';
+
+function createMfaPool(): PersistentRateLimiterPool {
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.none(`
+    CREATE TABLE mfa_enrollments (
+      subject TEXT PRIMARY KEY,
+      secret TEXT NOT NULL,
+      confirmed_at TIMESTAMPTZ,
+      last_used_step BIGINT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE TABLE mfa_recovery_codes (
+      subject TEXT NOT NULL REFERENCES mfa_enrollments(subject),
+      code_hash TEXT NOT NULL,
+      PRIMARY KEY (subject, code_hash)
+    );
+  `);
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+async function expectCode(promise: Promise<unknown>, code: string, status: number): Promise<void> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(AppError);
+  expect((error as AppError).code).toBe(code);
+  expect((error as AppError).statusCode).toBe(status);
+}
+
+describe.each<[string, () => MfaStore]>([
+  ['InMemoryMfaStore', () => new InMemoryMfaStore()],
+  ['PostgresMfaStore', () => new PostgresMfaStore(createMfaPool())],
+])('MfaService with %s', (_name, createStore) => {
+  let now: Date;
+  let service: MfaService;
+
+  beforeEach(() => {
+    now = new Date();
+    service = new MfaService({
+      store: createStore(),
+      encryptionKey: deriveSecretBoxKey('mfa-test-key'),
+      stepUpSecret: STEP_UP_SECRET,
+      now: () => now,
+    });
+  });
+
+  /** Advances to the next TOTP step and returns its code. */
+  function nextCode(secret: string): string {
+    now = new Date(now.getTime() + 30_000);
+    return totpCode(secret, totpStep(now));
+  }
+
+  async function enroll(): Promise<{ secret: string; recoveryCodes: string[] }> {
+    const { secret } = await service.beginEnrollment(SUBJECT, 'dev_1');
+    const { recoveryCodes } = await service.confirmEnrollment(SUBJECT, totpCode(secret, totpStep(now)));
+    return { secret, recoveryCodes };
+  }
+
+  it('enrols an authenticator and issues recovery codes once', async () => {
+    const started = await service.beginEnrollment(SUBJECT, 'dev_1');
+    expect(started.otpauthUri).toContain(`secret=${started.secret}`);
+    await expect(service.status(SUBJECT)).resolves.toEqual({ enabled: false, pending: true, recoveryCodesRemaining: 0 });
+
+    await expectCode(service.confirmEnrollment(SUBJECT, '000000'), 'MFA_CODE_INVALID', 401);
+    const { recoveryCodes } = await service.confirmEnrollment(SUBJECT, totpCode(started.secret, totpStep(now)));
+
+    expect(recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(recoveryCodes).size).toBe(RECOVERY_CODE_COUNT);
+    await expect(service.status(SUBJECT)).resolves.toEqual({
+      enabled: true,
+      pending: false,
+      recoveryCodesRemaining: RECOVERY_CODE_COUNT,
+    });
+    await expectCode(service.beginEnrollment(SUBJECT, 'dev_1'), 'MFA_ALREADY_ENABLED', 409);
+  });
+
+  it('issues a step-up token for a code and accepts each step once', async () => {
+    const { secret } = await enroll();
+    // The code that confirmed enrolment is already spent.
+    await expectCode(service.verify(SUBJECT, { code: totpCode(secret, totpStep(now)) }), 'MFA_CODE_INVALID', 401);
+
+    const code = nextCode(secret);
+    const stepUp = await service.verify(SUBJECT, { code });
+    expect(stepUp.method).toBe('totp');
+    expect(jwt.verify(stepUp.stepUpToken, STEP_UP_SECRET)).toMatchObject({ mfa: SUBJECT, type: 'mfa_step_up' });
+
+    await expectCode(service.verify(SUBJECT, { code }), 'MFA_CODE_INVALID', 401);
+  });
+
+  it('accepts each recovery code once, ignoring case and hyphens', async () => {
+    const { recoveryCodes } = await enroll();
+    const [first] = recoveryCodes;
+
+    const stepUp = await service.verify(SUBJECT, { recoveryCode: first.replace('-', '').toUpperCase() });
+    expect(stepUp).toMatchObject({ method: 'recovery_code', recoveryCodesRemaining: RECOVERY_CODE_COUNT - 1 });
+    await expectCode(service.verify(SUBJECT, { recoveryCode: first }), 'MFA_CODE_INVALID', 401);
+
+    const { recoveryCodes: fresh } = await service.regenerateRecoveryCodes(SUBJECT);
+    await expectCode(service.verify(SUBJECT, { recoveryCode: recoveryCodes[1] }), 'MFA_CODE_INVALID', 401);
+    await expect(service.verify(SUBJECT, { recoveryCode: fresh[0] })).resolves.toMatchObject({
+      recoveryCodesRemaining: RECOVERY_CODE_COUNT - 1,
+    });
+  });
+
+  it('requires a current step-up token for the same subject once enrolled', async () => {
+    await expect(service.assertSteppedUp(SUBJECT, undefined)).resolves.toBeUndefined();
+
+    const { secret } = await enroll();
+    await expectCode(service.assertSteppedUp(SUBJECT, undefined), 'MFA_STEP_UP_REQUIRED', 403);
+
+    const { stepUpToken } = await service.verify(SUBJECT, { code: nextCode(secret) });
+    await expect(service.assertSteppedUp(SUBJECT, stepUpToken)).resolves.toBeUndefined();
+
+    // A token for another subject does not carry over.
+    const otherSubject = jwt.sign({ type: 'mfa_step_up', mfa: 'user:dev_2' }, STEP_UP_SECRET, { audience: 'callora:mfa-step-up' });
+    await expectCode(service.assertSteppedUp(SUBJECT, otherSubject), 'MFA_STEP_UP_REQUIRED', 403);
+
+    now = new Date(now.getTime() + 301_000);
+    await expectCode(service.assertSteppedUp(SUBJECT, stepUpToken), 'MFA_STEP_UP_REQUIRED', 403);
+  });
+
+  it('turns MFA off', async () => {
+    await enroll();
+    await service.disable(SUBJECT);
+
+    await expect(service.status(SUBJECT)).resolves.toEqual({ enabled: false, pending: false, recoveryCodesRemaining: 0 });
+    await expectCode(service.verify(SUBJECT, { code: '123456' }), 'MFA_NOT_ENROLLED', 400);
+  });
+});
+
+describe('MfaService enforcement', () => {
+  it('refuses sensitive operations to subjects that have not enrolled', async () => {
+    const service = new MfaService({
+      store: new InMemoryMfaStore(),
+      encryptionKey: deriveSecretBoxKey('mfa-test-key'),
+      stepUpSecret: STEP_UP_SECRET,
+      enforce: true,
+    });
+
+    await expectCode(service.assertSteppedUp(SUBJECT, undefined), 'MFA_ENROLLMENT_REQUIRED', 403);
+  });
+});
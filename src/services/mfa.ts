@@ -0,0 +1,542 @@
+/**
+ * Multi-factor authentication with TOTP authenticators.
+ *
+ *   1. `beginEnrollment` creates a secret and the `otpauth://` URI the client
+ *      shows as a QR code. The enrolment stays pending until
+ *   2. `confirmEnrollment` receives a code from the authenticator, turns MFA
+ *      on and returns ten single-use recovery codes, shown only this once.
+ *   3. `verify` exchanges a current code (or a recovery code) for a short-lived
+ *      step-up token. Sensitive operations require it in the `X-MFA-Token`
+ *      header from subjects that have MFA on (see `requireStepUp`).
+ *
+ * Subjects are `user:<id>` for developers signed in with `requireAuth` and
+ * `admin:<identity>` for admins signed in with `adminAuth`.
+ *
+ * TOTP secrets are sealed with secretBox; recovery codes are kept only as
+ * SHA-256 hashes. Each time step is accepted once, so a code seen over
+ * someone's shoulder cannot be replayed.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  UnauthorizedError,
+} from '../errors/index.js';
+import { config } from '../config/index.js';
+import { deriveSecretBoxKey, openSecret, sealSecret } from '../lib/secretBox.js';
+import { generateTotpSecret, matchTotp, totpProvisioningUri } from './totp.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+/** How long a step-up token lasts, by default. */
+export const DEFAULT_MFA_STEP_UP_TTL_SECONDS = 300;
+
+/** Recovery codes issued at enrolment and on regeneration. */
+export const RECOVERY_CODE_COUNT = 10;
+
+/** The header sensitive operations read the step-up token from. */
+export const MFA_TOKEN_HEADER = 'x-mfa-token';
+
+const STEP_UP_AUDIENCE = 'callora:mfa-step-up';
+const STEP_UP_TOKEN_TYPE = 'mfa_step_up';
+
+export function userMfaSubject(userId: string): string {
+  return `user:${userId}`;
+}
+
+export function adminMfaSubject(identity: string): string {
+  return `admin:${identity}`;
+}
+
+export interface MfaEnrollment {
+  /** The TOTP secret, sealed with secretBox. */
+  sealedSecret: string;
+  confirmed: boolean;
+  /** The last time step a code was accepted for. */
+  lastUsedStep: number | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaStore {
+  get(subject: string): Promise<MfaEnrollment | null>;
+  /** Starts (or restarts) a pending enrolment. False when MFA is already on. */
+  savePending(subject: string, sealedSecret: string): Promise<boolean>;
+  /**
+   * Turns a pending enrolment on, recording the step of the confirming code
+   * and the recovery code hashes. False when no enrolment is pending.
+   */
+  confirm(subject: string, step: number, recoveryCodeHashes: string[]): Promise<boolean>;
+  /** Records an accepted step. False unless MFA is on and the step is newer than the last. */
+  useStep(subject: string, step: number): Promise<boolean>;
+  /** Removes a recovery code. False when the subject has no such code. */
+  useRecoveryCode(subject: string, codeHash: string): Promise<boolean>;
+  replaceRecoveryCodes(subject: string, codeHashes: string[]): Promise<void>;
+  delete(subject: string): Promise<void>;
+}
+
+interface StoredEnrollment {
+  sealedSecret: string;
+  confirmed: boolean;
+  lastUsedStep: number | null;
+  recoveryCodeHashes: Set<string>;
+}
+
+/** Single-instance store. Use the Postgres store when running several instances. */
+export class InMemoryMfaStore implements MfaStore {
+  private readonly enrollments = new Map<string, StoredEnrollment>();
+
+  async get(subject: string): Promise<MfaEnrollment | null> {
+    const enrollment = this.enrollments.get(subject);
+    if (!enrollment) return null;
+    return {
+      sealedSecret: enrollment.sealedSecret,
+      confirmed: enrollment.confirmed,
+      lastUsedStep: enrollment.lastUsedStep,
+      recoveryCodesRemaining: enrollment.recoveryCodeHashes.size,
+    };
+  }
+
+  async savePending(subject: string, sealedSecret: string): Promise<boolean> {
+    if (this.enrollments.get(subject)?.confirmed) return false;
+    this.enrollments.set(subject, {
+      sealedSecret,
+      confirmed: false,
+      lastUsedStep: null,
+      recoveryCodeHashes: new Set(),
+    });
+    return true;
+  }
+
+  async confirm(subject: string, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    const enrollment = this.enrollments.get(subject);
+    if (!enrollment || enrollment.confirmed) return false;
+    enrollment.confirmed = true;
+    enrollment.lastUsedStep = step;
+    enrollment.recoveryCodeHashes = new Set(recoveryCodeHashes);
+    return true;
+  }
+
+  async useStep(subject: string, step: number): Promise<boolean> {
+    const enrollment = this.enrollments.get(subject);
+    if (!enrollment?.confirmed) return false;
+    if (enrollment.lastUsedStep !== null && enrollment.lastUsedStep >= step) return false;
+    enrollment.lastUsedStep = step;
+    return true;
+  }
+
+  async useRecoveryCode(subject: string, codeHash: string): Promise<boolean> {
+    const enrollment = this.enrollments.get(subject);
+    return !!enrollment?.confirmed && enrollment.recoveryCodeHashes.delete(codeHash);
+  }
+
+  async replaceRecoveryCodes(subject: string, codeHashes: string[]): Promise<void> {
+    const enrollment = this.enrollments.get(subject);
+    if (enrollment) enrollment.recoveryCodeHashes = new Set(codeHashes);
+  }
+
+  async delete(subject: string): Promise<void> {
+    this.enrollments.delete(subject);
+  }
+
+  clear(): void {
+    this.enrollments.clear();
+  }
+}
+
+/** Enrolments in `mfa_enrollments` and `mfa_recovery_codes` (migration 0039). */
+export class PostgresMfaStore implements MfaStore {
+  constructor(private readonly pool: PersistentRateLimiterPool) {}
+
+  async get(subject: string): Promise<MfaEnrollment | null> {
+    const client = await this.pool.connect();
+    try {
+      const found = await client.query<{
+        secret: string;
+        confirmed_at: Date | null;
+        last_used_step: string | number | null;
+      }>(
+        'SELECT secret, confirmed_at, last_used_step FROM mfa_enrollments WHERE subject = $1',
+        [subject],
+      );
+      const row = found.rows[0];
+      if (!row) return null;
+
+      const codes = await client.query<{ remaining: string | number }>(
+        'SELECT COUNT(*) AS remaining FROM mfa_recovery_codes WHERE subject = $1',
+        [subject],
+      );
+      return {
+        sealedSecret: row.secret,
+        confirmed: row.confirmed_at !== null,
+        lastUsedStep: row.last_used_step === null ? null : Number(row.last_used_step),
+        recoveryCodesRemaining: Number(codes.rows[0]?.remaining ?? 0),
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  async savePending(subject: string, sealedSecret: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      // A pending enrolment is replaced; a confirmed one is left alone.
+      await client.query(
+        `INSERT INTO mfa_enrollments (subject, secret) VALUES ($1, $2)
+         ON CONFLICT (subject) DO UPDATE SET secret = EXCLUDED.secret, created_at = NOW()
+         WHERE mfa_enrollments.confirmed_at IS NULL`,
+        [subject, sealedSecret],
+      );
+      const saved = await client.query<{ secret: string }>(
+        'SELECT secret FROM mfa_enrollments WHERE subject = $1',
+        [subject],
+      );
+      return saved.rows[0]?.secret === sealedSecret;
+    } finally {
+      client.release();
+    }
+  }
+
+  async confirm(subject: string, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const confirmed = await client.query<{ subject: string }>(
+        `UPDATE mfa_enrollments SET confirmed_at = NOW(), last_used_step = $2
+         WHERE subject = $1 AND confirmed_at IS NULL
+         RETURNING subject`,
+        [subject, step],
+      );
+      if (confirmed.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+      await this.insertRecoveryCodes(client, subject, recoveryCodeHashes);
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async useStep(subject: string, step: number): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const updated = await client.query<{ subject: string }>(
+        `UPDATE mfa_enrollments SET last_used_step = $2
+         WHERE subject = $1 AND confirmed_at IS NOT NULL
+           AND (last_used_step IS NULL OR last_used_step < $2)
+         RETURNING subject`,
+        [subject, step],
+      );
+      return updated.rows.length === 1;
+    } finally {
+      client.release();
+    }
+  }
+
+  async useRecoveryCode(subject: string, codeHash: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const deleted = await client.query<{ subject: string }>(
+        'DELETE FROM mfa_recovery_codes WHERE subject = $1 AND code_hash = $2 RETURNING subject',
+        [subject, codeHash],
+      );
+      return deleted.rows.length === 1;
+    } finally {
+      client.release();
+    }
+  }
+
+  async replaceRecoveryCodes(subject: string, codeHashes: string[]): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM mfa_recovery_codes WHERE subject = $1', [subject]);
+      await this.insertRecoveryCodes(client, subject, codeHashes);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async delete(subject: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM mfa_recovery_codes WHERE subject = $1', [subject]);
+      await client.query('DELETE FROM mfa_enrollments WHERE subject = $1', [subject]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async insertRecoveryCodes(
+    client: Awaited<ReturnType<PersistentRateLimiterPool['connect']>>,
+    subject: string,
+    codeHashes: string[],
+  ): Promise<void> {
+    for (const codeHash of codeHashes) {
+      await client.query(
+        'INSERT INTO mfa_recovery_codes (subject, code_hash) VALUES ($1, $2)',
+        [subject, codeHash],
+      );
+    }
+  }
+}
+
+export interface MfaServiceOptions {
+  store: MfaStore;
+  /** Key sealing TOTP secrets at rest. */
+  encryptionKey: Buffer;
+  /** HS256 key for step-up tokens. */
+  stepUpSecret: string;
+  /** Shown by authenticator apps next to the account. */
+  issuer?: string;
+  stepUpTtlSeconds?: number;
+  /** Require step-up from every subject, refusing those that have not enrolled. */
+  enforce?: boolean;
+  now?: () => Date;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  /** An enrolment was started but not confirmed. */
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollmentStart {
+  secret: string;
+  otpauthUri: string;
+}
+
+/** Either a code from the authenticator or a recovery code. */
+export interface MfaVerification {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface MfaStepUp {
+  stepUpToken: string;
+  expiresAt: string;
+  method: 'totp' | 'recovery_code';
+  recoveryCodesRemaining: number;
+}
+
+export class MfaService {
+  private readonly issuer: string;
+  private readonly stepUpTtlSeconds: number;
+  private readonly now: () => Date;
+
+  constructor(private readonly options: MfaServiceOptions) {
+    this.issuer = options.issuer ?? 'Callora';
+    this.stepUpTtlSeconds = options.stepUpTtlSeconds ?? DEFAULT_MFA_STEP_UP_TTL_SECONDS;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async status(subject: string): Promise<MfaStatus> {
+    const enrollment = await this.options.store.get(subject);
+    return {
+      enabled: enrollment?.confirmed ?? false,
+      pending: enrollment ? !enrollment.confirmed : false,
+      recoveryCodesRemaining: enrollment?.confirmed ? enrollment.recoveryCodesRemaining : 0,
+    };
+  }
+
+  /** Starts enrolment. `account` labels the entry in the authenticator app. */
+  async beginEnrollment(subject: string, account: string): Promise<MfaEnrollmentStart> {
+    const secret = generateTotpSecret();
+    const saved = await this.options.store.savePending(subject, sealSecret(secret, this.options.encryptionKey));
+    if (!saved) throw alreadyEnabled();
+
+    return {
+      secret,
+      otpauthUri: totpProvisioningUri({ secret, issuer: this.issuer, account }),
+    };
+  }
+
+  /** Turns MFA on with a code from the newly enrolled authenticator. */
+  async confirmEnrollment(subject: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const enrollment = await this.options.store.get(subject);
+    if (enrollment?.confirmed) throw alreadyEnabled();
+    if (!enrollment) {
+      throw new BadRequestError('Start MFA enrolment before confirming it', 'MFA_NOT_ENROLLED');
+    }
+
+    const step = matchTotp(this.openSecret(enrollment), code, this.now());
+    if (step === null) throw codeInvalid();
+
+    const recoveryCodes = generateRecoveryCodes();
+    const confirmed = await this.options.store.confirm(subject, step, recoveryCodes.map(hashRecoveryCode));
+    if (!confirmed) throw alreadyEnabled();
+    return { recoveryCodes };
+  }
+
+  /** Checks a code or recovery code and issues a step-up token. */
+  async verify(subject: string, verification: MfaVerification): Promise<MfaStepUp> {
+    const enrollment = await this.requireEnabled(subject);
+
+    let method: MfaStepUp['method'];
+    let recoveryCodesRemaining = enrollment.recoveryCodesRemaining;
+    if (verification.recoveryCode !== undefined) {
+      const used = await this.options.store.useRecoveryCode(subject, hashRecoveryCode(verification.recoveryCode));
+      if (!used) throw codeInvalid();
+      method = 'recovery_code';
+      recoveryCodesRemaining -= 1;
+    } else {
+      const step = matchTotp(this.openSecret(enrollment), verification.code ?? '', this.now());
+      // A step already used (or older) is refused just like a wrong code.
+      if (step === null || !(await this.options.store.useStep(subject, step))) throw codeInvalid();
+      method = 'totp';
+    }
+
+    const issuedAt = Math.floor(this.now().getTime() / 1000);
+    const expiresAt = issuedAt + this.stepUpTtlSeconds;
+    const stepUpToken = jwt.sign(
+      { type: STEP_UP_TOKEN_TYPE, mfa: subject, method, iat: issuedAt, exp: expiresAt },
+      this.options.stepUpSecret,
+      { algorithm: 'HS256', audience: STEP_UP_AUDIENCE },
+    );
+    return {
+      stepUpToken,
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+      method,
+      recoveryCodesRemaining,
+    };
+  }
+
+  /** Replaces the recovery codes, invalidating the old ones. */
+  async regenerateRecoveryCodes(subject: string): Promise<{ recoveryCodes: string[] }> {
+    await this.requireEnabled(subject);
+    const recoveryCodes = generateRecoveryCodes();
+    await this.options.store.replaceRecoveryCodes(subject, recoveryCodes.map(hashRecoveryCode));
+    return { recoveryCodes };
+  }
+
+  async disable(subject: string): Promise<void> {
+    await this.options.store.delete(subject);
+  }
+
+  /**
+   * Resolves when `subject` may perform a sensitive operation: it has MFA on
+   * and `stepUpToken` is a current step-up token for it, or it has not
+   * enrolled and enrolment is not enforced. Rejects with 403 otherwise.
+   */
+  async assertSteppedUp(subject: string, stepUpToken: string | undefined): Promise<void> {
+    const enrollment = await this.options.store.get(subject);
+    if (!enrollment?.confirmed) {
+      if (!this.options.enforce) return;
+      throw new ForbiddenError(
+        'Enable multi-factor authentication to perform this operation',
+        'MFA_ENROLLMENT_REQUIRED',
+      );
+    }
+
+    if (!stepUpToken || !this.isStepUpTokenFor(subject, stepUpToken)) {
+      throw new ForbiddenError(
+        'This operation requires a current MFA step-up token in the X-MFA-Token header',
+        'MFA_STEP_UP_REQUIRED',
+      );
+    }
+  }
+
+  private isStepUpTokenFor(subject: string, token: string): boolean {
+    try {
+      const payload = jwt.verify(token, this.options.stepUpSecret, {
+        algorithms: ['HS256'],
+        audience: STEP_UP_AUDIENCE,
+        clockTimestamp: Math.floor(this.now().getTime() / 1000),
+      });
+      return typeof payload === 'object' && payload.type === STEP_UP_TOKEN_TYPE && payload.mfa === subject;
+    } catch {
+      return false;
+    }
+  }
+
+  private async requireEnabled(subject: string): Promise<MfaEnrollment> {
+    const enrollment = await this.options.store.get(subject);
+    if (!enrollment?.confirmed) {
+      throw new BadRequestError('Multi-factor authentication is not enabled', 'MFA_NOT_ENROLLED');
+    }
+    return enrollment;
+  }
+
+  private openSecret(enrollment: MfaEnrollment): string {
+    return openSecret(enrollment.sealedSecret, this.options.encryptionKey);
+  }
+}
+
+function alreadyEnabled(): ConflictError {
+  return new ConflictError('Multi-factor authentication is already enabled', 'MFA_ALREADY_ENABLED');
+}
+
+function codeInvalid(): UnauthorizedError {
+  return new UnauthorizedError('The MFA code is invalid or was already used', 'MFA_CODE_INVALID');
+}
+
+/** Codes look like `3f9a1-c07b2`; hyphens, spaces and case are ignored when checking. */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export interface AppMfaConfig {
+  issuer: string;
+  stepUpTtlSeconds: number;
+  enforce: boolean;
+  /** Key material for sealing TOTP secrets. */
+  secretsKey: string;
+  stepUpSecret: string;
+}
+
+export function createConfiguredMfaService(mfaConfig: AppMfaConfig, store: MfaStore): MfaService {
+  return new MfaService({
+    store,
+    encryptionKey: deriveSecretBoxKey(mfaConfig.secretsKey),
+    stepUpSecret: mfaConfig.stepUpSecret,
+    issuer: mfaConfig.issuer,
+    stepUpTtlSeconds: mfaConfig.stepUpTtlSeconds,
+    enforce: mfaConfig.enforce,
+  });
+}
+
+let mfaService: MfaService | null = null;
+
+/**
+ * The service `requireStepUp` and the MFA routes use. The server installs a
+ * Postgres-backed one at startup; until then (and in tests) enrolments are
+ * kept in memory.
+ */
+export function getMfaService(): MfaService {
+  if (!mfaService) {
+    mfaService = createConfiguredMfaService(config.mfa, new InMemoryMfaStore());
+  }
+  return mfaService;
+}
+
+export function setMfaService(service: MfaService): void {
+  mfaService = service;
+}
+
+export function resetMfaService(): void {
+  mfaService = null;
+}
@@ -0,0 +1,178 @@
+import { newDb } from 'pg-mem';
+import {
+  InMemoryOidcLoginStore,
+  OidcService,
+  PostgresOidcLoginStore,
+  type OidcProviderConfig,
+} from './oidc.js';
+import { AppError } from '../errors/index.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+import { startStubIdp, type StubIdp } from '../../tests/helpers/oidcStubIdp.js';
+
+const CLIENT_ID = 'callora-test';
+const REDIRECT_URI = 'http://localhost:5173/sso/stub';
+
+function createLoginPool(): PersistentRateLimiterPool {
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.none(`
+    CREATE TABLE oidc_login_states (
+      state TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      code_verifier TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+  `);
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+async function expectCode(promise: Promise<unknown>, code: string, status: number): Promise<void> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(AppError);
+  expect((error as AppError).code).toBe(code);
+  expect((error as AppError).statusCode).toBe(status);
+}
+
+describe('OidcService', () => {
+  let idp: StubIdp;
+  let provider: OidcProviderConfig;
+  let now: Date;
+  let logins: InMemoryOidcLoginStore;
+  let service: OidcService;
+
+  beforeAll(async () => {
+    idp = await startStubIdp({
+      clientId: CLIENT_ID,
+      user: { sub: 'idp-user-1', email: 'ada@example.com', email_verified: true, name: 'Ada' },
+    });
+    provider = { id: 'stub', name: 'Stub IdP', issuer: idp.issuer, clientId: CLIENT_ID, redirectUri: REDIRECT_URI };
+  });
+
+  afterAll(() => idp.close());
+
+  beforeEach(() => {
+    idp.claimOverrides = {};
+    now = new Date();
+    logins = new InMemoryOidcLoginStore();
+    service = new OidcService({ providers: [provider], logins, now: () => now });
+  });
+
+  async function signIn(providerId = 'stub') {
+    const { authorizationUrl } = await service.beginLogin('stub');
+    const callback = await idp.authorize(authorizationUrl);
+    return service.completeLogin(providerId, callback);
+  }
+
+  it('lists the configured providers', () => {
+    expect(service.listProviders()).toEqual([{ id: 'stub', name: 'Stub IdP' }]);
+  });
+
+  it('builds a PKCE authorization URL from discovery', async () => {
+    const authorization = await service.beginLogin('stub');
+    const url = new URL(authorization.authorizationUrl);
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${idp.issuer}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: 'code',
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: 'openid email profile',
+      state: authorization.state,
+      code_challenge_method: 'S256',
+    });
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+    expect(url.searchParams.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it('completes a login with the verified identity', async () => {
+    await expect(signIn()).resolves.toEqual({
+      provider: 'stub',
+      subject: 'idp-user-1',
+      email: 'ada@example.com',
+      emailVerified: true,
+      name: 'Ada',
+    });
+  });
+
+  it('refuses a state used twice, expired or issued for another provider', async () => {
+    const { authorizationUrl } = await service.beginLogin('stub');
+    const callback = await idp.authorize(authorizationUrl);
+    await service.completeLogin('stub', callback);
+    await expectCode(service.completeLogin('stub', callback), 'SSO_STATE_INVALID', 401);
+
+    const expired = await idp.authorize((await service.beginLogin('stub')).authorizationUrl);
+    now = new Date(now.getTime() + 601_000);
+    await expectCode(service.completeLogin('stub', expired), 'SSO_STATE_INVALID', 401);
+
+    const other = new OidcService({
+      providers: [provider, { ...provider, id: 'other' }],
+      logins,
+      now: () => now,
+    });
+    const crossed = await idp.authorize((await other.beginLogin('stub')).authorizationUrl);
+    await expectCode(other.completeLogin('other', crossed), 'SSO_STATE_INVALID', 401);
+  });
+
+  it('refuses ID tokens with the wrong nonce, audience or issuer', async () => {
+    idp.claimOverrides = { nonce: 'replayed-nonce' };
+    await expectCode(signIn(), 'SSO_TOKEN_INVALID', 401);
+
+    idp.claimOverrides = { aud: 'another-client' };
+    await expectCode(signIn(), 'SSO_TOKEN_INVALID', 401);
+
+    idp.claimOverrides = { iss: 'https://evil.example' };
+    await expectCode(signIn(), 'SSO_TOKEN_INVALID', 401);
+
+    idp.claimOverrides = { exp: Math.floor(Date.now() / 1000) - 3_600 };
+    await expectCode(signIn(), 'SSO_TOKEN_INVALID', 401);
+  });
+
+  it('refuses a code whose PKCE verifier does not match', async () => {
+    const { authorizationUrl } = await service.beginLogin('stub');
+    const { state } = await idp.authorize(authorizationUrl);
+
+    await expectCode(service.completeLogin('stub', { code: 'not-issued', state }), 'SSO_TOKEN_INVALID', 401);
+  });
+
+  it('caches signing keys and refetches them after the provider rotates', async () => {
+    await signIn();
+    await signIn();
+    const fetched = idp.jwksRequests;
+
+    idp.rotateKeys();
+    // Within a minute of the last fetch, an unknown key is refused outright.
+    await expectCode(signIn(), 'SSO_TOKEN_INVALID', 401);
+    expect(idp.jwksRequests).toBe(fetched);
+
+    now = new Date(now.getTime() + 61_000);
+    await expect(signIn()).resolves.toMatchObject({ subject: 'idp-user-1' });
+    expect(idp.jwksRequests).toBe(fetched + 1);
+  });
+
+  it('reports unknown and unreachable providers', async () => {
+    await expectCode(service.beginLogin('nope'), 'SSO_PROVIDER_NOT_FOUND', 404);
+
+    const unreachable = new OidcService({
+      providers: [{ ...provider, issuer: 'http://127.0.0.1:9' }],
+      logins,
+    });
+    await expectCode(unreachable.beginLogin('stub'), 'SSO_PROVIDER_UNAVAILABLE', 502);
+  });
+});
+
+describe('PostgresOidcLoginStore', () => {
+  it('hands out a pending login once, before it expires', async () => {
+    const store = new PostgresOidcLoginStore(createLoginPool());
+    // `save` clears rows already expired by the database clock.
+    const savedAt = new Date();
+    const login = { provider: 'stub', codeVerifier: 'verifier', nonce: 'nonce', expiresAt: new Date(savedAt.getTime() + 600_000) };
+
+    await store.save('state-1', login);
+    await store.save('state-2', login);
+
+    await expect(store.take('state-1', savedAt)).resolves.toEqual(login);
+    await expect(store.take('state-1', savedAt)).resolves.toBeNull();
+    await expect(store.take('state-2', login.expiresAt)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,490 @@
+/**
+ * OpenID Connect single sign-on: the authorization code flow with PKCE.
+ *
+ *   1. `GET /auth/sso/:provider/authorize` — the server records a random
+ *      `state`, `nonce` and PKCE code verifier and returns the provider's
+ *      authorization URL, found through its discovery document.
+ *   2. The user signs in at the provider, which redirects the browser to the
+ *      provider's `redirectUri` with `code` and `state`.
+ *   3. `POST /auth/sso/:provider/callback { code, state }` — the server takes
+ *      the pending login for the state (each state completes once), exchanges
+ *      the code with the verifier, and checks the ID token's signature against
+ *      the provider's JWKS, its issuer, audience, expiry and nonce.
+ *
+ * Signing keys are cached per provider. A token signed with a key the cache
+ * does not know triggers a JWKS refetch, at most once a minute, so providers
+ * can rotate keys without a restart.
+ *
+ * See https://openid.net/specs/openid-connect-core-1_0.html and RFC 7636.
+ */
+
+import { createHash, createPublicKey, randomBytes, type JsonWebKey, type KeyObject } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { BadGatewayError, NotFoundError, UnauthorizedError } from '../errors/index.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+/** How long a user has to finish signing in at the provider, by default. */
+export const DEFAULT_OIDC_LOGIN_TTL_SECONDS = 600;
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const DISCOVERY_CACHE_TTL_MS = 60 * 60_000;
+const JWKS_CACHE_TTL_MS = 60 * 60_000;
+/** Least time between JWKS refetches triggered by an unknown key id. */
+const JWKS_REFRESH_COOLDOWN_MS = 60_000;
+const CLOCK_TOLERANCE_SECONDS = 60;
+const FETCH_TIMEOUT_MS = 5_000;
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+export interface OidcProviderConfig {
+  /** Used in the SSO URLs, e.g. `okta` in `/auth/sso/okta/authorize`. */
+  id: string;
+  /** Shown on the sign-in page. Defaults to the id. */
+  name?: string;
+  /** Must equal the `issuer` in the provider's discovery document. */
+  issuer: string;
+  clientId: string;
+  /** Confidential clients only; sent as `client_secret_post`. */
+  clientSecret?: string;
+  /** Where the provider sends the browser back, registered with the provider. */
+  redirectUri: string;
+  scopes?: string[];
+}
+
+/** The fields of `/.well-known/openid-configuration` the flow uses. */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** A login waiting for its callback. */
+export interface PendingOidcLogin {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+/**
+ * Remembers pending logins by state. `take` is atomic: of any number of
+ * concurrent callbacks with the same state, exactly one gets the login.
+ */
+export interface OidcLoginStore {
+  save(state: string, login: PendingOidcLogin): Promise<void>;
+  /** Removes and returns the login, or null when it is unknown or has expired. */
+  take(state: string, now?: Date): Promise<PendingOidcLogin | null>;
+}
+
+/** How often the in-memory store sweeps expired logins. */
+const PRUNE_INTERVAL_MS = 60_000;
+
+/** Single-instance store. Use the Postgres store when running several instances. */
+export class InMemoryOidcLoginStore implements OidcLoginStore {
+  private readonly logins = new Map<string, PendingOidcLogin>();
+  private lastPrunedAt = 0;
+
+  async save(state: string, login: PendingOidcLogin): Promise<void> {
+    this.prune(Date.now());
+    this.logins.set(state, login);
+  }
+
+  async take(state: string, now: Date = new Date()): Promise<PendingOidcLogin | null> {
+    const login = this.logins.get(state);
+    if (!login) return null;
+
+    this.logins.delete(state);
+    return login.expiresAt.getTime() > now.getTime() ? login : null;
+  }
+
+  clear(): void {
+    this.logins.clear();
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    for (const [state, login] of this.logins) {
+      if (login.expiresAt.getTime() <= now) this.logins.delete(state);
+    }
+  }
+}
+
+interface OidcLoginStateRow {
+  provider: string;
+  code_verifier: string;
+  nonce: string;
+  expires_at: Date | string;
+}
+
+/** Pending logins in `oidc_login_states` (migration 0038), shared by every instance. */
+export class PostgresOidcLoginStore implements OidcLoginStore {
+  constructor(private readonly pool: PersistentRateLimiterPool) {}
+
+  async save(state: string, login: PendingOidcLogin): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      // Clearing expired logins here keeps the table small.
+      await client.query('DELETE FROM oidc_login_states WHERE expires_at <= NOW()');
+      await client.query(
+        `INSERT INTO oidc_login_states (state, provider, code_verifier, nonce, expires_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [state, login.provider, login.codeVerifier, login.nonce, login.expiresAt],
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async take(state: string, now: Date = new Date()): Promise<PendingOidcLogin | null> {
+    const client = await this.pool.connect();
+    try {
+      const deleted = await client.query<OidcLoginStateRow>(
+        `DELETE FROM oidc_login_states
+         WHERE state = $1 AND expires_at > $2
+         RETURNING provider, code_verifier, nonce, expires_at`,
+        [state, now],
+      );
+      const row = deleted.rows[0];
+      if (!row) return null;
+
+      return {
+        provider: row.provider,
+        codeVerifier: row.code_verifier,
+        nonce: row.nonce,
+        expiresAt: new Date(row.expires_at),
+      };
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export interface OidcProviderSummary {
+  id: string;
+  name: string;
+}
+
+export interface OidcAuthorization {
+  /** Send the browser here to sign in. */
+  authorizationUrl: string;
+  state: string;
+  expiresAt: string;
+}
+
+/** The user the provider vouched for. */
+export interface OidcIdentity {
+  provider: string;
+  /** The provider's stable user id (`sub`). */
+  subject: string;
+  email?: string;
+  /** Only verified emails are used to link accounts. */
+  emailVerified: boolean;
+  name?: string;
+}
+
+interface IdTokenClaims extends jwt.JwtPayload {
+  sub: string;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+function providerUnavailable(provider: string, message: string): BadGatewayError {
+  return new BadGatewayError(`Identity provider "${provider}": ${message}`, 'SSO_PROVIDER_UNAVAILABLE');
+}
+
+function invalidToken(message: string): UnauthorizedError {
+  return new UnauthorizedError(message, 'SSO_TOKEN_INVALID');
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/** Discovery, JWKS and token endpoint calls for one provider. */
+class OidcProviderClient {
+  private discovery: { document: OidcDiscoveryDocument; fetchedAt: number } | null = null;
+  private keys = new Map<string, KeyObject>();
+  private keysFetchedAt = 0;
+  private keysRefresh: Promise<void> | null = null;
+
+  constructor(
+    readonly config: OidcProviderConfig,
+    private readonly fetchImpl: typeof fetch,
+    private readonly now: () => Date,
+  ) {}
+
+  async discover(): Promise<OidcDiscoveryDocument> {
+    const now = this.now().getTime();
+    if (this.discovery && now - this.discovery.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+      return this.discovery.document;
+    }
+
+    const url = `${this.config.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    const document = await this.fetchJson<Partial<OidcDiscoveryDocument>>(url, 'discovery');
+    if (document.issuer !== this.config.issuer) {
+      throw providerUnavailable(this.config.id, `discovery issuer "${document.issuer}" does not match "${this.config.issuer}"`);
+    }
+    if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+      throw providerUnavailable(this.config.id, 'discovery document is missing required endpoints');
+    }
+
+    this.discovery = { document: document as OidcDiscoveryDocument, fetchedAt: now };
+    return this.discovery.document;
+  }
+
+  /** Trades the authorization code for the provider's ID token. */
+  async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const { token_endpoint } = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (this.config.clientSecret) body.set('client_secret', this.config.clientSecret);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        body,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw providerUnavailable(this.config.id, `token request failed: ${(error as Error).message}`);
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as { id_token?: unknown; error?: unknown };
+    if (response.status === 400 || response.status === 401) {
+      // invalid_grant and friends: a bad, reused or mismatched code.
+      throw invalidToken(`The identity provider rejected the authorization code (${String(payload.error ?? response.status)})`);
+    }
+    if (!response.ok) {
+      throw providerUnavailable(this.config.id, `token endpoint returned ${response.status}`);
+    }
+    if (typeof payload.id_token !== 'string') {
+      throw providerUnavailable(this.config.id, 'token response has no id_token');
+    }
+    return payload.id_token;
+  }
+
+  async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw invalidToken('The ID token is not a JWT');
+    }
+    const algorithm = decoded.header.alg as jwt.Algorithm;
+    if (!SIGNING_ALGORITHMS.includes(algorithm)) {
+      throw invalidToken(`The ID token's algorithm "${decoded.header.alg}" is not accepted`);
+    }
+
+    const { issuer } = await this.discover();
+    const key = await this.signingKey(decoded.header.kid);
+    let claims: IdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: [algorithm],
+        issuer,
+        audience: this.config.clientId,
+        clockTolerance: CLOCK_TOLERANCE_SECONDS,
+        clockTimestamp: Math.floor(this.now().getTime() / 1000),
+      }) as IdTokenClaims;
+    } catch (error) {
+      throw invalidToken(`ID token rejected: ${(error as Error).message}`);
+    }
+
+    if (claims.nonce !== nonce) {
+      throw invalidToken('The ID token nonce does not match the login');
+    }
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== this.config.clientId) {
+      throw invalidToken('The ID token was issued to another client');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw invalidToken('The ID token has no subject');
+    }
+    return claims;
+  }
+
+  private async signingKey(kid: string | undefined): Promise<KeyObject> {
+    const stale = this.now().getTime() - this.keysFetchedAt >= JWKS_CACHE_TTL_MS;
+    let key = stale ? undefined : this.findKey(kid);
+
+    // An unknown kid usually means the provider rotated its keys.
+    const mayRefresh = stale || this.now().getTime() - this.keysFetchedAt >= JWKS_REFRESH_COOLDOWN_MS;
+    if (!key && mayRefresh) {
+      await this.refreshKeys();
+      key = this.findKey(kid);
+    }
+    if (!key) {
+      throw invalidToken(`No signing key of the identity provider matches kid "${kid ?? ''}"`);
+    }
+    return key;
+  }
+
+  private findKey(kid: string | undefined): KeyObject | undefined {
+    if (kid) return this.keys.get(kid);
+    return this.keys.size === 1 ? [...this.keys.values()][0] : undefined;
+  }
+
+  private refreshKeys(): Promise<void> {
+    // Concurrent callbacks share one JWKS request.
+    this.keysRefresh ??= this.fetchKeys().finally(() => {
+      this.keysRefresh = null;
+    });
+    return this.keysRefresh;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const { jwks_uri } = await this.discover();
+    const jwks = await this.fetchJson<{ keys?: Array<JsonWebKey & { kid?: string; use?: string }> }>(jwks_uri, 'JWKS');
+    if (!Array.isArray(jwks.keys)) {
+      throw providerUnavailable(this.config.id, 'JWKS has no keys');
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        keys.set(jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // Key types Node cannot import are skipped; tokens they sign fail with an unknown kid.
+      }
+    }
+    this.keys = keys;
+    this.keysFetchedAt = this.now().getTime();
+  }
+
+  private async fetchJson<T>(url: string, what: string): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw providerUnavailable(this.config.id, `${what} request failed: ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      throw providerUnavailable(this.config.id, `${what} returned ${response.status}`);
+    }
+    try {
+      return (await response.json()) as T;
+    } catch {
+      throw providerUnavailable(this.config.id, `${what} is not valid JSON`);
+    }
+  }
+}
+
+export interface OidcServiceOptions {
+  providers: OidcProviderConfig[];
+  logins: OidcLoginStore;
+  loginTtlSeconds?: number;
+  fetchImpl?: typeof fetch;
+  now?: () => Date;
+}
+
+export class OidcService {
+  private readonly clients = new Map<string, OidcProviderClient>();
+  private readonly logins: OidcLoginStore;
+  private readonly loginTtlSeconds: number;
+  private readonly now: () => Date;
+
+  constructor(options: OidcServiceOptions) {
+    this.logins = options.logins;
+    this.loginTtlSeconds = options.loginTtlSeconds ?? DEFAULT_OIDC_LOGIN_TTL_SECONDS;
+    this.now = options.now ?? (() => new Date());
+    const fetchImpl = options.fetchImpl ?? fetch;
+    for (const provider of options.providers) {
+      this.clients.set(provider.id, new OidcProviderClient(provider, fetchImpl, this.now));
+    }
+  }
+
+  listProviders(): OidcProviderSummary[] {
+    return [...this.clients.values()].map(({ config }) => ({ id: config.id, name: config.name ?? config.id }));
+  }
+
+  async beginLogin(providerId: string): Promise<OidcAuthorization> {
+    const client = this.client(providerId);
+    const { authorization_endpoint } = await client.discover();
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+    const expiresAt = new Date(this.now().getTime() + this.loginTtlSeconds * 1000);
+    await this.logins.save(state, { provider: providerId, codeVerifier, nonce, expiresAt });
+
+    const url = new URL(authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', client.config.clientId);
+    url.searchParams.set('redirect_uri', client.config.redirectUri);
+    url.searchParams.set('scope', (client.config.scopes ?? DEFAULT_SCOPES).join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', createHash('sha256').update(codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { authorizationUrl: url.toString(), state, expiresAt: expiresAt.toISOString() };
+  }
+
+  /**
+   * Completes a login from the provider's redirect. Throws
+   * `SSO_STATE_INVALID` for a state that was not issued for this provider,
+   * has expired or was already used, `SSO_TOKEN_INVALID` when the code or ID
+   * token is rejected, and `SSO_PROVIDER_UNAVAILABLE` when the provider
+   * cannot be reached.
+   */
+  async completeLogin(providerId: string, callback: { code: string; state: string }): Promise<OidcIdentity> {
+    const client = this.client(providerId);
+    const login = await this.logins.take(callback.state, this.now());
+    if (!login || login.provider !== providerId) {
+      throw new UnauthorizedError('The SSO state is unknown, expired or already used; sign in again', 'SSO_STATE_INVALID');
+    }
+
+    const idToken = await client.exchangeCode(callback.code, login.codeVerifier);
+    const claims = await client.verifyIdToken(idToken, login.nonce);
+
+    return {
+      provider: providerId,
+      subject: claims.sub,
+      email: typeof claims.email === 'string' ? claims.email : undefined,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : undefined,
+    };
+  }
+
+  private client(providerId: string): OidcProviderClient {
+    const client = this.clients.get(providerId);
+    if (!client) {
+      throw new NotFoundError(`No identity provider "${providerId}" is configured`, 'SSO_PROVIDER_NOT_FOUND');
+    }
+    return client;
+  }
+}
+
+export interface AppOidcConfig {
+  providers: OidcProviderConfig[];
+  loginTtlSeconds: number;
+}
+
+/**
+ * Single sign-on as configured by the `OIDC_*` variables, or `undefined`
+ * when no provider is configured. Pending logins are kept in Postgres.
+ */
+export function createConfiguredOidcService(
+  config: AppOidcConfig,
+  pool: PersistentRateLimiterPool,
+): OidcService | undefined {
+  if (config.providers.length === 0) return undefined;
+
+  return new OidcService({
+    providers: config.providers,
+    logins: new PostgresOidcLoginStore(pool),
+    loginTtlSeconds: config.loginTtlSeconds,
+  });
+}
@@ -0,0 +1,172 @@
+import type { ApiEndpointInfo } from '../repositories/apiRepository.js';
+import {
+  endpointChangesOf,
+  endpointsFromDocument,
+  parseOpenApiSource,
+  previewEndpointImport,
+} from './openApiImport.js';
+
+const yamlSource = `
+openapi: 3.0.3
+info:
+  title: Forecast API
+  version: 1.0.0
+paths:
+  /forecast/{city}:
+    parameters:
+      - $ref: '#/components/parameters/City'
+    get:
+      summary: Daily forecast
+      description: Up to ten days ahead.
+      parameters:
+        - name: days
+          in: query
+          schema:
+            $ref: '#/components/schemas/Days'
+    post:
+      summary: Custom forecast
+  /alerts:
+    get:
+      description: Active weather alerts.
+    trace:
+      summary: Echo
+  /files/{name}.json:
+    get:
+      summary: A file
+components:
+  parameters:
+    City:
+      name: city
+      in: path
+      description: City name
+      schema:
+        type: string
+  schemas:
+    Days:
+      type: integer
+      maximum: 10
+`;
+
+describe('parseOpenApiSource', () => {
+  it('reads YAML and JSON text as well as objects', () => {
+    const fromYaml = parseOpenApiSource(yamlSource);
+
+    expect(fromYaml.info).toEqual({ title: 'Forecast API', version: '1.0.0' });
+    expect(parseOpenApiSource(JSON.stringify(fromYaml))).toEqual(fromYaml);
+    expect(parseOpenApiSource(fromYaml)).toBe(fromYaml);
+  });
+
+  it('refuses text that is not an OpenAPI 3 document', () => {
+    for (const source of ['openapi: [3', 'swagger: "2.0"\npaths: {}', '42']) {
+      expect(() => parseOpenApiSource(source)).toThrow(expect.objectContaining({
+        statusCode: 400,
+        code: 'OPENAPI_DOCUMENT_INVALID',
+      }));
+    }
+  });
+
+  it('refuses references outside the document', () => {
+    expect(() => parseOpenApiSource({
+      openapi: '3.1.0',
+      paths: { '/a': { $ref: 'https://example.com/paths.json' } },
+    })).toThrow('must point inside the document');
+  });
+});
+
+describe('endpointsFromDocument', () => {
+  it('turns operations into endpoints with their docs and parameters', () => {
+    const { endpoints, skipped } = endpointsFromDocument(parseOpenApiSource(yamlSource));
+
+    expect(endpoints).toEqual([
+      {
+        path: '/forecast/:city',
+        method: 'GET',
+        description: 'Daily forecast\n\nUp to ten days ahead.',
+        parameters: [
+          { name: 'city', in: 'path', required: true, description: 'City name', schema: { type: 'string' } },
+          { name: 'days', in: 'query', required: false, schema: { type: 'integer', maximum: 10 } },
+        ],
+      },
+      {
+        path: '/forecast/:city',
+        method: 'POST',
+        description: 'Custom forecast',
+        parameters: [
+          { name: 'city', in: 'path', required: true, description: 'City name', schema: { type: 'string' } },
+        ],
+      },
+      { path: '/alerts', method: 'GET', description: 'Active weather alerts.', parameters: null },
+    ]);
+    expect(skipped).toEqual([
+      { path: '/alerts', method: 'TRACE', reason: 'TRACE endpoints are not supported' },
+      { path: '/files/{name}.json', method: 'GET', reason: expect.stringContaining('whole segment') },
+    ]);
+  });
+
+  it('keeps recursive schemas as references', () => {
+    const { endpoints } = endpointsFromDocument(parseOpenApiSource({
+      openapi: '3.0.3',
+      paths: {
+        '/tree': {
+          get: {
+            parameters: [{ name: 'filter', in: 'query', schema: { $ref: '#/components/schemas/Node' } }],
+          },
+        },
+      },
+      components: {
+        schemas: { Node: { type: 'object', properties: { child: { $ref: '#/components/schemas/Node' } } } },
+      },
+    }));
+
+    expect(endpoints[0].parameters![0].schema).toEqual({
+      type: 'object',
+      properties: { child: { $ref: '#/components/schemas/Node' } },
+    });
+  });
+});
+
+describe('previewEndpointImport', () => {
+  const existing: ApiEndpointInfo[] = [
+    { path: '/forecast/:city', method: 'GET', price_per_call_usdc: '0.05', description: 'Old docs', parameters: null },
+    { path: '/forecast/:city', method: 'POST', price_per_call_usdc: '0.10', description: 'Custom forecast', parameters: [
+      { name: 'city', in: 'path', required: true, description: 'City name', schema: { type: 'string' } },
+    ] },
+    { path: '/legacy', method: 'GET', price_per_call_usdc: '0.01', description: null },
+    { path: '*', method: 'GET', price_per_call_usdc: '0.001', description: null },
+  ];
+
+  it('diffs the document against the current endpoints', () => {
+    const { diff } = previewEndpointImport(existing, parseOpenApiSource(yamlSource), '0.02');
+
+    expect(diff.added).toEqual([
+      {
+        path: '/alerts',
+        method: 'GET',
+        description: 'Active weather alerts.',
+        parameters: null,
+        price_per_call_usdc: '0.02',
+      },
+    ]);
+    expect(diff.removed.map((e) => e.path)).toEqual(['/legacy']);
+    expect(diff.changed).toEqual([
+      expect.objectContaining({
+        path: '/forecast/:city',
+        method: 'GET',
+        before: { description: 'Old docs', parameters: null },
+        after: expect.objectContaining({ description: 'Daily forecast\n\nUp to ten days ahead.' }),
+      }),
+    ]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('commits as repository changes that keep existing pricing', () => {
+    const { diff } = previewEndpointImport(existing, parseOpenApiSource(yamlSource), '0.02');
+    const changes = endpointChangesOf(diff);
+
+    expect(changes.removed).toEqual([{ path: '/legacy', method: 'GET' }]);
+    expect(changes.updated).toEqual([
+      expect.objectContaining({ path: '/forecast/:city', method: 'GET' }),
+    ]);
+    expect(changes.updated[0]).not.toHaveProperty('price_per_call_usdc');
+  });
+});
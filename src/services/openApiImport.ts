@@ -0,0 +1,318 @@
+/**
+ * openApiImport.ts
+ *
+ * Generates an API's endpoints from an OpenAPI 3 document, given as JSON or
+ * YAML. Each operation becomes an endpoint with the operation's method, its
+ * path with `{name}` templates written as `:name`, its summary and
+ * description, and its documented parameters.
+ *
+ * An import is first compared with the API's current endpoints, matched by
+ * method and path: operations without an endpoint are added at the import's
+ * default price, endpoints without an operation are removed, and endpoints
+ * whose description or parameters differ are changed. Existing endpoints
+ * keep their pricing. The `*` catch-all endpoint is never part of a
+ * document and is left alone.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { httpMethodEnum, type HttpMethod } from '../db/schema.js';
+import type {
+  ApiEndpointInfo,
+  ApiEndpointParameter,
+  CreateEndpointInput,
+  EndpointChanges,
+} from '../repositories/apiRepository.js';
+import {
+  findExternalReference,
+  openApiDocumentInvalidError,
+  type OpenApiDocument,
+} from './apiSpecs.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** An endpoint as the document describes it. */
+export interface ImportedEndpoint {
+  path: string;
+  method: HttpMethod;
+  description: string | null;
+  parameters: ApiEndpointParameter[] | null;
+}
+
+/** An operation that could not become an endpoint, and why. */
+export interface SkippedOperation {
+  path: string;
+  method: string;
+  reason: string;
+}
+
+export interface EndpointDocs {
+  description: string | null;
+  parameters: ApiEndpointParameter[] | null;
+}
+
+export interface ChangedEndpoint {
+  path: string;
+  method: string;
+  before: EndpointDocs;
+  after: EndpointDocs;
+}
+
+/** What committing an import would do to the API's endpoints. */
+export interface EndpointImportDiff {
+  added: CreateEndpointInput[];
+  removed: ApiEndpointInfo[];
+  changed: ChangedEndpoint[];
+  /** Endpoints the document describes exactly as they are. */
+  unchanged: number;
+}
+
+export interface EndpointImportPreview {
+  diff: EndpointImportDiff;
+  skipped: SkippedOperation[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Operations beyond this make an import fail rather than be truncated. */
+export const MAX_IMPORTED_ENDPOINTS = 200;
+
+/**
+ * Parameter schemas are stored with their `$ref`s inlined; a document whose
+ * references expand past this many nodes is refused.
+ */
+const MAX_INLINED_NODES = 10_000;
+
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const PARAMETER_LOCATIONS = ['path', 'query', 'header', 'cookie'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Reads an OpenAPI 3 document given as an object or as JSON or YAML text.
+ * Throws `400 OPENAPI_DOCUMENT_INVALID` when it is not one.
+ */
+export function parseOpenApiSource(source: string | Record<string, unknown>): OpenApiDocument {
+  let document: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      // JSON is YAML, so one parser reads both.
+      document = parseYaml(source);
+    } catch (error) {
+      throw openApiDocumentInvalidError(`not valid JSON or YAML (${(error as Error).message.split('\n')[0]})`);
+    }
+  }
+
+  if (!isRecord(document)) throw openApiDocumentInvalidError('expected an object');
+  if (typeof document.openapi !== 'string' || !/^3\.[01]\.\d+$/.test(document.openapi)) {
+    throw openApiDocumentInvalidError('openapi must be a 3.0.x or 3.1.x version');
+  }
+  if (!isRecord(document.paths)) throw openApiDocumentInvalidError('paths must be an object');
+
+  const externalReference = findExternalReference(document);
+  if (externalReference) {
+    throw openApiDocumentInvalidError(`$ref "${externalReference}" must point inside the document`);
+  }
+  return document;
+}
+
+function resolveReference(document: OpenApiDocument, ref: string): unknown {
+  let target: unknown = document;
+  try {
+    for (const token of ref.replace(/^#\/?/, '').split('/').filter(Boolean)) {
+      const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = isRecord(target) || Array.isArray(target) ? (target as Record<string, unknown>)[key] : undefined;
+    }
+  } catch {
+    target = undefined;
+  }
+  if (target === undefined) throw openApiDocumentInvalidError(`$ref "${ref}" does not resolve`);
+  return target;
+}
+
+/** Replaces `$ref`s with their targets; a recursive schema keeps its reference. */
+function inlineReferences(
+  value: unknown,
+  document: OpenApiDocument,
+  budget: { nodes: number },
+  seen: string[] = [],
+): unknown {
+  if (--budget.nodes < 0) {
+    throw openApiDocumentInvalidError('parameter schemas are too large once references are inlined');
+  }
+  if (Array.isArray(value)) return value.map((item) => inlineReferences(item, document, budget, seen));
+  if (!isRecord(value)) return value;
+
+  if (typeof value.$ref === 'string') {
+    if (seen.includes(value.$ref)) return { $ref: value.$ref };
+    return inlineReferences(resolveReference(document, value.$ref), document, budget, [...seen, value.$ref]);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [key, inlineReferences(child, document, budget, seen)]),
+  );
+}
+
+/** `/forecast/{city}` → `/forecast/:city`; null when a template shares a segment with text. */
+function endpointPathOf(path: string): string | null {
+  const segments = path.split('/').map((segment) => {
+    const template = /^\{([A-Za-z0-9_.-]+)\}$/.exec(segment);
+    if (template) return `:${template[1]}`;
+    return segment.includes('{') || segment.includes('}') ? null : segment;
+  });
+  return segments.includes(null) ? null : segments.join('/');
+}
+
+function descriptionOf(operation: Record<string, unknown>): string | null {
+  const parts = [operation.summary, operation.description]
+    .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+    .map((part) => part.trim());
+  return parts.length > 0 ? parts.join('\n\n') : null;
+}
+
+function parametersOf(
+  pathItem: Record<string, unknown>,
+  operation: Record<string, unknown>,
+  document: OpenApiDocument,
+  budget: { nodes: number },
+): ApiEndpointParameter[] | null {
+  // Operation parameters override path-level ones with the same name and location.
+  const byKey = new Map<string, ApiEndpointParameter>();
+  for (const list of [pathItem.parameters, operation.parameters]) {
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) throw openApiDocumentInvalidError('parameters must be an array');
+
+    for (const entry of list) {
+      const parameter = inlineReferences(entry, document, budget);
+      if (
+        !isRecord(parameter)
+        || typeof parameter.name !== 'string'
+        || !PARAMETER_LOCATIONS.includes(parameter.in as ApiEndpointParameter['in'])
+      ) {
+        throw openApiDocumentInvalidError('each parameter needs a name and a location (path, query, header or cookie)');
+      }
+
+      const location = parameter.in as ApiEndpointParameter['in'];
+      // Parameters described with `content` carry their schema under the media type.
+      const content = isRecord(parameter.content) ? Object.values(parameter.content)[0] : undefined;
+      const schema = parameter.schema ?? (isRecord(content) ? content.schema : undefined);
+
+      byKey.set(`${location}:${parameter.name}`, {
+        name: parameter.name,
+        in: location,
+        required: location === 'path' || parameter.required === true,
+        ...(typeof parameter.description === 'string' ? { description: parameter.description } : {}),
+        ...(isRecord(schema) ? { schema } : {}),
+      });
+    }
+  }
+  return byKey.size > 0 ? [...byKey.values()] : null;
+}
+
+/** The endpoints `document` describes, and the operations that cannot be endpoints. */
+export function endpointsFromDocument(document: OpenApiDocument): {
+  endpoints: ImportedEndpoint[];
+  skipped: SkippedOperation[];
+} {
+  const endpoints: ImportedEndpoint[] = [];
+  const skipped: SkippedOperation[] = [];
+  const budget = { nodes: MAX_INLINED_NODES };
+
+  for (const [path, rawPathItem] of Object.entries(document.paths as Record<string, unknown>)) {
+    if (path.startsWith('x-')) continue;
+    if (!path.startsWith('/')) throw openApiDocumentInvalidError(`path "${path}" must start with /`);
+    if (!isRecord(rawPathItem)) throw openApiDocumentInvalidError(`path "${path}" must be an object`);
+    const pathItem = typeof rawPathItem.$ref === 'string'
+      ? inlineReferences(rawPathItem, document, budget) as Record<string, unknown>
+      : rawPathItem;
+
+    for (const key of OPERATION_METHODS) {
+      const operation = pathItem[key];
+      if (operation === undefined) continue;
+      if (!isRecord(operation)) throw openApiDocumentInvalidError(`${key} ${path} must be an object`);
+
+      const method = key.toUpperCase();
+      if (!(httpMethodEnum as readonly string[]).includes(method)) {
+        skipped.push({ path, method, reason: `${method} endpoints are not supported` });
+        continue;
+      }
+      const endpointPath = endpointPathOf(path);
+      if (!endpointPath) {
+        skipped.push({ path, method, reason: 'Path templates must fill a whole segment, as in /items/{id}' });
+        continue;
+      }
+
+      endpoints.push({
+        path: endpointPath,
+        method: method as HttpMethod,
+        description: descriptionOf(operation),
+        parameters: parametersOf(pathItem, operation, document, budget),
+      });
+      if (endpoints.length > MAX_IMPORTED_ENDPOINTS) {
+        throw openApiDocumentInvalidError(`it describes more than ${MAX_IMPORTED_ENDPOINTS} operations`);
+      }
+    }
+  }
+  return { endpoints, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+function keyOf(endpoint: { path: string; method: string }): string {
+  return `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+}
+
+function sameDocs(a: EndpointDocs, b: EndpointDocs): boolean {
+  return a.description === b.description
+    && JSON.stringify(a.parameters ?? null) === JSON.stringify(b.parameters ?? null);
+}
+
+/**
+ * Compares the endpoints `document` describes with `existing`. Added
+ * endpoints are priced at `defaultPriceUsdc`. An operation without a summary
+ * or description keeps the endpoint's current description.
+ */
+export function previewEndpointImport(
+  existing: ApiEndpointInfo[],
+  document: OpenApiDocument,
+  defaultPriceUsdc: string,
+): EndpointImportPreview {
+  const { endpoints, skipped } = endpointsFromDocument(document);
+  const current = new Map(existing.filter((e) => e.path !== '*').map((e) => [keyOf(e), e]));
+  const imported = new Set(endpoints.map(keyOf));
+
+  const diff: EndpointImportDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  for (const endpoint of endpoints) {
+    const match = current.get(keyOf(endpoint));
+    if (!match) {
+      diff.added.push({ ...endpoint, price_per_call_usdc: defaultPriceUsdc });
+      continue;
+    }
+
+    const before: EndpointDocs = { description: match.description, parameters: match.parameters ?? null };
+    const after: EndpointDocs = {
+      description: endpoint.description ?? match.description,
+      parameters: endpoint.parameters,
+    };
+    if (sameDocs(before, after)) diff.unchanged += 1;
+    else diff.changed.push({ path: match.path, method: match.method, before, after });
+  }
+  diff.removed = [...current.values()].filter((e) => !imported.has(keyOf(e)));
+
+  return { diff, skipped };
+}
+
+/** The repository changes that commit `diff`. */
+export function endpointChangesOf(diff: EndpointImportDiff): EndpointChanges {
+  return {
+    added: diff.added,
+    removed: diff.removed.map(({ path, method }) => ({ path, method })),
+    updated: diff.changed.map(({ path, method, after }) => ({ path, method, ...after })),
+  };
+}
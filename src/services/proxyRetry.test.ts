@@ -0,0 +1,120 @@
+import {
+  isRetryableRequest,
+  resolveRetryPolicy,
+  RetryBudget,
+  sendWithRetries,
+  UpstreamLatencyTracker,
+  type SendWithRetriesOptions,
+} from './proxyRetry.js';
+import type { ApiRegistryEntry } from '../types/gateway.js';
+
+const ENTRY: ApiRegistryEntry = {
+  id: '1',
+  slug: 'retry-api',
+  base_url: 'https://up.example.com',
+  developerId: 'dev_1',
+  endpoints: [],
+};
+
+function options(overrides: Partial<SendWithRetriesOptions> = {}): SendWithRetriesOptions {
+  return { maxAttempts: 3, baseDelayMs: 0, hedgeAfterMs: null, acquire: () => true, ...overrides };
+}
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('isRetryableRequest', () => {
+  it('retries idempotent methods, and POST only with an Idempotency-Key', () => {
+    for (const method of ['GET', 'HEAD', 'PUT', 'delete']) {
+      expect(isRetryableRequest(method, {})).toBe(true);
+    }
+    expect(isRetryableRequest('POST', {})).toBe(false);
+    expect(isRetryableRequest('POST', { 'idempotency-key': 'order-1' })).toBe(true);
+    expect(isRetryableRequest('PATCH', { 'idempotency-key': 'order-1' })).toBe(false);
+  });
+
+  it('gives non-idempotent calls a single attempt whatever the API allows', () => {
+    const entry = { ...ENTRY, retry: { maxAttempts: 4, hedge: true } };
+    expect(resolveRetryPolicy(entry, 'GET', {})).toEqual({ maxAttempts: 4, hedge: true });
+    expect(resolveRetryPolicy(entry, 'POST', {})).toEqual({ maxAttempts: 1, hedge: false });
+  });
+});
+
+describe('RetryBudget', () => {
+  it('allows the minimum per window, or the ratio of calls when that is more', () => {
+    const budget = new RetryBudget({ ratio: 0.5, minPerWindow: 1, windowMs: 1_000 });
+
+    budget.recordCall('1', 0);
+    expect(budget.tryAcquire('1', 0)).toBe(true);
+    expect(budget.tryAcquire('1', 0)).toBe(false);
+
+    for (let i = 0; i < 3; i++) budget.recordCall('1', 10);
+    expect(budget.tryAcquire('1', 10)).toBe(true);
+    expect(budget.tryAcquire('1', 10)).toBe(false);
+    expect(budget.tryAcquire('2', 10)).toBe(true);
+
+    expect(budget.tryAcquire('1', 1_000)).toBe(true);
+  });
+});
+
+describe('UpstreamLatencyTracker', () => {
+  it('reports the p95 once an API has enough samples', () => {
+    const tracker = new UpstreamLatencyTracker();
+    for (let ms = 1; ms <= 19; ms++) tracker.record('1', ms);
+    expect(tracker.p95('1')).toBeNull();
+
+    tracker.record('1', 20);
+    expect(tracker.p95('1')).toBe(19);
+  });
+});
+
+describe('sendWithRetries', () => {
+  it('retries a 503 and a network error until the upstream answers', async () => {
+    const send = jest.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    const res = await sendWithRetries(send, options());
+
+    expect(res.status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last retriable response once the attempts run out', async () => {
+    const send = jest.fn(async () => new Response(null, { status: 502 }));
+
+    await expect(sendWithRetries(send, options({ maxAttempts: 2 }))).resolves.toHaveProperty('status', 502);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when the budget is spent and never retries a timeout', async () => {
+    const refused = jest.fn(async () => new Response(null, { status: 503 }));
+    await expect(sendWithRetries(refused, options({ acquire: () => false }))).resolves.toHaveProperty('status', 503);
+    expect(refused).toHaveBeenCalledTimes(1);
+
+    const timedOut = jest.fn(async () => {
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    });
+    await expect(sendWithRetries(timedOut, options())).rejects.toHaveProperty('name', 'TimeoutError');
+    expect(timedOut).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses a hedged request that answers first and aborts the slow one', async () => {
+    const signals: AbortSignal[] = [];
+    const send = jest.fn(async (signal: AbortSignal) => {
+      signals.push(signal);
+      if (signals.length === 1) {
+        await delay(200);
+        return new Response('slow');
+      }
+      return new Response('fast');
+    });
+    const acquire = jest.fn(() => true);
+
+    const res = await sendWithRetries(send, options({ hedgeAfterMs: 10, acquire }));
+
+    await expect(res.text()).resolves.toBe('fast');
+    expect(acquire).toHaveBeenCalledWith('hedge');
+    expect(signals[0].aborted).toBe(true);
+  });
+});
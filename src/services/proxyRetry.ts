@@ -0,0 +1,249 @@
+/**
+ * proxyRetry.ts
+ *
+ * Retries and hedged requests for idempotent `/v1/call` calls.
+ *
+ * GET, HEAD, PUT and DELETE calls are retried, and POST calls that carry an
+ * `Idempotency-Key`. A call is retried after a network error or a 502, 503
+ * or 504 from the upstream, with exponential backoff, up to the API's
+ * `retry.maxAttempts` (default `PROXY_RETRY_MAX_ATTEMPTS`). Timeouts are not
+ * retried: the upstream may still be working on the first request.
+ *
+ * An API with `retry.hedge` also gets hedged requests: when a request has not
+ * been answered within the API's recent p95 latency, a second one is sent
+ * and whichever answers first is used. The other is aborted.
+ *
+ * Retries and hedged requests both come out of a per-API budget, so an
+ * upstream that is failing sees at most `PROXY_RETRY_BUDGET_RATIO` more
+ * traffic than it is sent calls.
+ *
+ * However many attempts a call takes it is one call: it is billed once, and
+ * its response reports the attempts in `X-Callora-Attempts`.
+ */
+
+import type { IncomingHttpHeaders } from 'node:http';
+import { config } from '../config/index.js';
+import { isTransientNetworkError, TransientError, withRetry } from '../lib/retry.js';
+import type { ApiRegistryEntry, ApiRetryPolicy } from '../types/gateway.js';
+
+/** Response header with the number of upstream requests a call took. */
+export const ATTEMPTS_HEADER = 'X-Callora-Attempts';
+
+/** Upstream statuses after which an idempotent call is sent again. */
+export const RETRIABLE_UPSTREAM_STATUSES = new Set([502, 503, 504]);
+
+const RETRIED_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+/** Latency samples kept per API. */
+const LATENCY_SAMPLES = 100;
+/** Samples needed before calls to an API are hedged. */
+const MIN_HEDGE_SAMPLES = 20;
+/** Longest wait between two attempts. */
+const MAX_RETRY_DELAY_MS = 1_000;
+
+/** True when sending the request twice has the same effect as sending it once. */
+export function isRetryableRequest(method: string, headers: IncomingHttpHeaders): boolean {
+  const upper = method.toUpperCase();
+  if (RETRIED_METHODS.has(upper)) return true;
+  const idempotencyKey = headers['idempotency-key'];
+  return upper === 'POST' && typeof idempotencyKey === 'string' && idempotencyKey.length > 0;
+}
+
+/** The retry policy that applies to one call to `entry`. */
+export function resolveRetryPolicy(
+  entry: ApiRegistryEntry,
+  method: string,
+  headers: IncomingHttpHeaders,
+): Required<ApiRetryPolicy> {
+  if (!isRetryableRequest(method, headers)) {
+    return { maxAttempts: 1, hedge: false };
+  }
+  return {
+    maxAttempts: entry.retry?.maxAttempts ?? config.proxyRetry.maxAttempts,
+    hedge: entry.retry?.hedge ?? false,
+  };
+}
+
+export interface RetryBudgetOptions {
+  /** Retries and hedged requests allowed per call in a window. */
+  ratio: number;
+  /** Retries and hedged requests always allowed in a window. */
+  minPerWindow: number;
+  windowMs: number;
+}
+
+interface BudgetWindow {
+  startedAt: number;
+  calls: number;
+  extraAttempts: number;
+}
+
+/** Caps the retries and hedged requests sent to each API per window. */
+export class RetryBudget {
+  private readonly windows = new Map<string, BudgetWindow>();
+
+  constructor(private readonly options: RetryBudgetOptions) {}
+
+  /** Counts a call to the API's upstream; each call adds `ratio` to the budget. */
+  recordCall(apiId: string, now: number = Date.now()): void {
+    this.window(apiId, now).calls += 1;
+  }
+
+  /** Takes one retry or hedged request from the budget, if any is left. */
+  tryAcquire(apiId: string, now: number = Date.now()): boolean {
+    const window = this.window(apiId, now);
+    const allowed = Math.max(this.options.minPerWindow, Math.floor(window.calls * this.options.ratio));
+    if (window.extraAttempts >= allowed) return false;
+    window.extraAttempts += 1;
+    return true;
+  }
+
+  reset(): void {
+    this.windows.clear();
+  }
+
+  private window(apiId: string, now: number): BudgetWindow {
+    const existing = this.windows.get(apiId);
+    if (existing && now - existing.startedAt < this.options.windowMs) return existing;
+    const window: BudgetWindow = { startedAt: now, calls: 0, extraAttempts: 0 };
+    this.windows.set(apiId, window);
+    return window;
+  }
+}
+
+/** Recent upstream latency per API, which sets when a call is hedged. */
+export class UpstreamLatencyTracker {
+  private readonly samples = new Map<string, number[]>();
+
+  record(apiId: string, latencyMs: number): void {
+    const samples = this.samples.get(apiId) ?? [];
+    samples.push(latencyMs);
+    if (samples.length > LATENCY_SAMPLES) samples.shift();
+    this.samples.set(apiId, samples);
+  }
+
+  /** The API's p95 latency over its recent calls, or null until it has enough. */
+  p95(apiId: string): number | null {
+    const samples = this.samples.get(apiId);
+    if (!samples || samples.length < MIN_HEDGE_SAMPLES) return null;
+    const sorted = [...samples].sort((a, b) => a - b);
+    return sorted[Math.ceil(sorted.length * 0.95) - 1];
+  }
+
+  reset(): void {
+    this.samples.clear();
+  }
+}
+
+/** Sends one upstream request. `signal` aborts it when a hedged request wins. */
+export type SendAttempt = (signal: AbortSignal) => Promise<Response>;
+
+export interface SendWithRetriesOptions {
+  /** Attempts including the first; hedged requests do not count. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  /** How long to wait before sending a hedged request, or null for none. */
+  hedgeAfterMs: number | null;
+  /** Asked before each retry or hedged request; false once the budget is spent. */
+  acquire(kind: 'retry' | 'hedge'): boolean;
+}
+
+/** Carries a retriable upstream response through withRetry. */
+class RetriableUpstreamResponse extends TransientError {
+  constructor(readonly response: Response) {
+    super(`Upstream responded with ${response.status}`);
+  }
+}
+
+type Outcome = { response: Response } | { error: unknown };
+
+function settle(request: Promise<Response>): Promise<Outcome> {
+  return request.then((response) => ({ response }), (error: unknown) => ({ error }));
+}
+
+function succeeded(outcome: Outcome): boolean {
+  return 'response' in outcome && !RETRIABLE_UPSTREAM_STATUSES.has(outcome.response.status);
+}
+
+function discard(outcome: Outcome): void {
+  if ('response' in outcome) void outcome.response.body?.cancel();
+}
+
+function unwrap(outcome: Outcome): Response {
+  if ('error' in outcome) throw outcome.error;
+  return outcome.response;
+}
+
+/**
+ * Sends a request and, if it has not settled after `delayMs`, a second one.
+ * The first success wins and the other request is aborted; a failure waits
+ * for the other request.
+ */
+async function sendHedged(send: SendAttempt, delayMs: number, acquire: () => boolean): Promise<Response> {
+  const first = new AbortController();
+  const firstOutcome = settle(send(first.signal));
+
+  let timer: NodeJS.Timeout | undefined;
+  const delay = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), delayMs);
+  });
+  const early = await Promise.race([firstOutcome, delay]);
+  clearTimeout(timer);
+  if (early || !acquire()) return unwrap(early ?? await firstOutcome);
+
+  const second = new AbortController();
+  const secondOutcome = settle(send(second.signal));
+  const [winner, loser, loserController] = await Promise.race([
+    firstOutcome.then((outcome) => [outcome, secondOutcome, second] as const),
+    secondOutcome.then((outcome) => [outcome, firstOutcome, first] as const),
+  ]);
+
+  if (succeeded(winner)) {
+    loserController.abort();
+    void loser.then(discard);
+    return unwrap(winner);
+  }
+  discard(winner);
+  return unwrap(await loser);
+}
+
+/**
+ * Sends a call with retries and, when `hedgeAfterMs` is set, hedged
+ * requests. Resolves with the response to forward, which is a 502, 503 or
+ * 504 when every attempt got one; rejects with the last error otherwise.
+ */
+export async function sendWithRetries(send: SendAttempt, options: SendWithRetriesOptions): Promise<Response> {
+  let attempt = 0;
+  try {
+    return await withRetry(async () => {
+      attempt += 1;
+      const response = options.hedgeAfterMs === null
+        ? await send(new AbortController().signal)
+        : await sendHedged(send, options.hedgeAfterMs, () => options.acquire('hedge'));
+      if (RETRIABLE_UPSTREAM_STATUSES.has(response.status) && attempt < options.maxAttempts) {
+        throw new RetriableUpstreamResponse(response);
+      }
+      return response;
+    }, {
+      maxAttempts: options.maxAttempts,
+      baseDelayMs: options.baseDelayMs,
+      maxDelayMs: MAX_RETRY_DELAY_MS,
+      shouldRetry(error) {
+        if (!isTransientNetworkError(error) || !options.acquire('retry')) return false;
+        if (error instanceof RetriableUpstreamResponse) void error.response.body?.cancel();
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof RetriableUpstreamResponse) return error.response;
+    throw error;
+  }
+}
+
+export const defaultRetryBudget = new RetryBudget({
+  ratio: config.proxyRetry.budgetRatio,
+  minPerWindow: config.proxyRetry.budgetMinPerWindow,
+  windowMs: config.proxyRetry.budgetWindowMs,
+});
+
+export const defaultUpstreamLatencyTracker = new UpstreamLatencyTracker();
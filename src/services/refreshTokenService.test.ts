@@ -228,6 +228,27 @@ describe('RefreshTokenService', () => {
       expect(hash1).not.toBe(hash2);
     });
   });
+
+  describe('issueTokenPair', () => {
+    it('should store the refresh token in a new family', async () => {
+      const repository = {
+        createRefreshToken: jest.fn().mockImplementation(async (token: RefreshToken) => token),
+      } as unknown as RefreshTokenRepository;
+
+      const tokenPair = await service.issueTokenPair('user-456', 'GDTEST123STELLAR', repository);
+
+      const refreshDecoded = jwt.verify(tokenPair.refreshToken, TEST_JWT_SECRET) as DecodedToken;
+      expect(repository.createRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+        id: refreshDecoded.tokenId,
+        userId: 'user-456',
+        isRevoked: false,
+        familyId: expect.any(String),
+      }));
+      const accessDecoded = jwt.verify(tokenPair.accessToken, TEST_JWT_SECRET) as DecodedToken;
+      expect(accessDecoded.walletAddress).toBe('GDTEST123STELLAR');
+    });
+  });
+
   describe('handleReuse', () => {
     it('should revoke the token family instead of all user tokens', async () => {
       const storedToken = {
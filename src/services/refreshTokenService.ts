@@ -192,6 +192,34 @@ export class RefreshTokenService {
     });
   }
 
+  /**
+   * Start a session — issue a token pair in a new family and store its
+   * refresh token. Called by the login flows; later refreshes go through
+   * `rotateRefreshToken`.
+   *
+   * @param userId         - Owner of the tokens
+   * @param walletAddress  - Optional wallet address to embed in the access token
+   * @param repository     - Token repository for persistence
+   * @returns A fresh { accessToken, refreshToken } pair
+   */
+  async issueTokenPair(
+    userId: string,
+    walletAddress: string | undefined,
+    repository: RefreshTokenRepository
+  ): Promise<TokenPair> {
+    const pair = this.createTokenPair(userId, walletAddress);
+    const record = this.createRefreshTokenRecord(userId, pair.refreshToken);
+    await repository.createRefreshToken(record);
+
+    logger.info('[RefreshTokenService] Token pair issued', {
+      userId,
+      tokenId: record.id,
+      familyId: record.familyId
+    });
+
+    return pair;
+  }
+
   /**
    * Rotate a refresh token — revoke the consumed token and issue a new one
    * in the same family. This is called on every successful refresh so that
@@ -0,0 +1,116 @@
+import { newDb } from 'pg-mem';
+import type { Request } from 'express';
+import {
+  assertSignatureTimestamp,
+  createConfiguredRequestNonceStore,
+  InMemoryRequestNonceStore,
+  openSigningSecret,
+  PostgresRequestNonceStore,
+  readSignedRequestHeaders,
+  requestSignatureMatches,
+  sealSigningSecret,
+  signRequest,
+} from './requestSigning.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+const API_KEY = 'ck_live_0123456789abcdef0123456789abcdef0123456789abcdef';
+const NOW = new Date('2026-06-01T12:00:00.000Z');
+
+function requestWith(headers: Record<string, string>): Request {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  return { header: (name: string) => lower[name.toLowerCase()] } as unknown as Request;
+}
+
+function createNoncePool(): PersistentRateLimiterPool {
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.none(`
+    CREATE TABLE api_key_request_nonces (
+      api_key_id TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (api_key_id, nonce)
+    );
+  `);
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+describe('request signatures', () => {
+  const signed = signRequest({
+    apiKey: API_KEY,
+    method: 'post',
+    path: '/v1/call/my-api/search?q=1',
+    body: '{"q":1}',
+    timestamp: NOW,
+    nonce: 'nonce-0123456789ab',
+  });
+
+  it('verifies what signRequest produced and nothing else', () => {
+    const headers = readSignedRequestHeaders(requestWith(signed));
+    if (!headers) throw new Error('expected signed headers');
+
+    expect(headers.keyPrefix).toBe(API_KEY.slice(0, 16));
+    const body = Buffer.from('{"q":1}');
+    expect(requestSignatureMatches(API_KEY, headers, 'POST', '/v1/call/my-api/search?q=1', body)).toBe(true);
+
+    expect(requestSignatureMatches(API_KEY, headers, 'PUT', '/v1/call/my-api/search?q=1', body)).toBe(false);
+    expect(requestSignatureMatches(API_KEY, headers, 'POST', '/v1/call/my-api/search?q=2', body)).toBe(false);
+    expect(requestSignatureMatches(API_KEY, headers, 'POST', '/v1/call/my-api/search?q=1', Buffer.from('{}')))
+      .toBe(false);
+    expect(requestSignatureMatches(`${API_KEY}0`, headers, 'POST', '/v1/call/my-api/search?q=1', body)).toBe(false);
+  });
+
+  it('treats requests without a signature as unsigned and rejects malformed ones', () => {
+    expect(readSignedRequestHeaders(requestWith({}))).toBeNull();
+    expect(() => readSignedRequestHeaders(requestWith({ ...signed, 'x-callora-nonce': '' })))
+      .toThrow(expect.objectContaining({ code: 'REQUEST_SIGNATURE_MALFORMED' }));
+    expect(() => readSignedRequestHeaders(requestWith({ ...signed, 'x-callora-nonce': 'short' })))
+      .toThrow(expect.objectContaining({ code: 'REQUEST_SIGNATURE_MALFORMED' }));
+    expect(() => readSignedRequestHeaders(requestWith({ ...signed, 'x-callora-signature-256': 'md5=abc' })))
+      .toThrow(expect.objectContaining({ code: 'REQUEST_SIGNATURE_MALFORMED' }));
+  });
+
+  it('enforces the clock-skew tolerance in both directions', () => {
+    const tolerance = 60_000;
+    expect(assertSignatureTimestamp(NOW.toISOString(), new Date(NOW.getTime() + tolerance), tolerance))
+      .toEqual(NOW);
+    expect(() => assertSignatureTimestamp(NOW.toISOString(), new Date(NOW.getTime() + tolerance + 1), tolerance))
+      .toThrow(expect.objectContaining({ code: 'REQUEST_TIMESTAMP_OUT_OF_WINDOW', statusCode: 401 }));
+    expect(() => assertSignatureTimestamp(NOW.toISOString(), new Date(NOW.getTime() - tolerance - 1), tolerance))
+      .toThrow(expect.objectContaining({ code: 'REQUEST_TIMESTAMP_OUT_OF_WINDOW' }));
+    expect(() => assertSignatureTimestamp('yesterday', NOW, tolerance))
+      .toThrow(expect.objectContaining({ code: 'REQUEST_SIGNATURE_MALFORMED' }));
+  });
+
+  it('seals keys so only the configured key material opens them', () => {
+    const sealed = sealSigningSecret(API_KEY, 'material-a');
+
+    expect(sealed).not.toContain(API_KEY);
+    expect(openSigningSecret(sealed, 'material-a')).toBe(API_KEY);
+    expect(openSigningSecret(sealed, 'material-b')).toBeNull();
+  });
+});
+
+describe.each([
+  ['InMemoryRequestNonceStore', () => new InMemoryRequestNonceStore()],
+  ['PostgresRequestNonceStore', () => new PostgresRequestNonceStore(createNoncePool())],
+])('%s', (_name, createStore) => {
+  it('accepts each nonce once per key until it expires', async () => {
+    const store = createStore();
+    const expiresAt = new Date(NOW.getTime() + 60_000);
+
+    await expect(store.claim('key-1', 'nonce-a', expiresAt, NOW)).resolves.toBe(true);
+    await expect(store.claim('key-1', 'nonce-a', expiresAt, NOW)).resolves.toBe(false);
+    await expect(store.claim('key-2', 'nonce-a', expiresAt, NOW)).resolves.toBe(true);
+
+    const later = new Date(expiresAt.getTime() + 1);
+    await expect(store.claim('key-1', 'nonce-a', new Date(later.getTime() + 60_000), later)).resolves.toBe(true);
+  });
+});
+
+describe('createConfiguredRequestNonceStore', () => {
+  it('requires a pool for the postgres store', () => {
+    expect(() => createConfiguredRequestNonceStore({ store: 'postgres' }))
+      .toThrow('A PostgreSQL pool is required when API_KEY_STORE is set to "postgres".');
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * requestSigning.ts
+ *
+ * Signed `/v1/call` requests — an alternative to sending the API key as a
+ * bearer secret on every call. The client signs the method, path and query,
+ * a SHA-256 digest of the body, a nonce and a timestamp with its API key,
+ * using the same HMAC-SHA256 scheme as webhook deliveries
+ * (`src/webhooks/webhook.signature.ts`):
+ *
+ *   X-Callora-Key-Prefix:    <the key's 16-character prefix>
+ *   X-Callora-Timestamp:     <ISO-8601 time of signing>
+ *   X-Callora-Nonce:         <16-128 characters of [A-Za-z0-9_-], unique per request>
+ *   X-Callora-Signature-256: sha256=HMAC(key, "<timestamp>.<canonical request>")
+ *
+ * where the canonical request is
+ *
+ *   <METHOD> <path and query>\n<hex SHA-256 of the body>\n<nonce>
+ *
+ * The gateway rejects timestamps further than `REQUEST_SIGNATURE_TOLERANCE_MS`
+ * from its own clock, and remembers each accepted nonce until its timestamp
+ * could no longer pass that check, so a captured request cannot be replayed.
+ *
+ * Key hashes are one-way, so every key is also kept sealed with
+ * `API_KEY_SECRETS_KEY` (see `src/lib/secretBox.ts`) for verification.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { Request } from 'express';
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnauthorizedError,
+} from '../errors/index.js';
+import { deriveSecretBoxKey, openSecret, sealSecret } from '../lib/secretBox.js';
+import {
+  computeSignature,
+  safeCompare,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from '../webhooks/webhook.signature.js';
+import { logger } from '../logger.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+export { SIGNATURE_HEADER, TIMESTAMP_HEADER };
+export const KEY_PREFIX_HEADER = 'x-callora-key-prefix';
+export const NONCE_HEADER = 'x-callora-nonce';
+
+/** The headers a signed request carries; stripped before proxying. */
+export const REQUEST_SIGNING_HEADERS = [
+  KEY_PREFIX_HEADER,
+  TIMESTAMP_HEADER,
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+];
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+/** How the gateway accepts a key: as a bearer secret, by signature, or both. */
+export type ApiKeyAuthMode = 'bearer' | 'signed' | 'both';
+
+export const API_KEY_AUTH_MODES: readonly ApiKeyAuthMode[] = ['bearer', 'signed', 'both'];
+
+export function acceptsBearer(mode: ApiKeyAuthMode | undefined): boolean {
+  return (mode ?? 'bearer') !== 'signed';
+}
+
+export function acceptsSigned(mode: ApiKeyAuthMode | undefined): boolean {
+  return mode === 'signed' || mode === 'both';
+}
+
+// ── Sealed keys ───────────────────────────────────────────────────────────────
+
+/** Seals an API key so the gateway can later verify signatures made with it. */
+export function sealSigningSecret(apiKey: string, keyMaterial: string): string {
+  return sealSecret(apiKey, deriveSecretBoxKey(keyMaterial));
+}
+
+/** Opens a key sealed by {@link sealSigningSecret}, or `null` if it cannot be. */
+export function openSigningSecret(sealed: string, keyMaterial: string): string | null {
+  try {
+    return openSecret(sealed, deriveSecretBoxKey(keyMaterial));
+  } catch {
+    // Usually API_KEY_SECRETS_KEY changed; the key can still be used as a bearer key.
+    logger.warn('[requestSigning] could not open a sealed API key');
+    return null;
+  }
+}
+
+// ── Signatures ────────────────────────────────────────────────────────────────
+
+export function sha256Hex(body: Buffer | string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+export function canonicalRequest(
+  method: string,
+  pathAndQuery: string,
+  bodySha256: string,
+  nonce: string,
+): string {
+  return `${method.toUpperCase()} ${pathAndQuery}\n${bodySha256}\n${nonce}`;
+}
+
+export interface SignRequestParams {
+  apiKey: string;
+  method: string;
+  /** The request target as sent, e.g. `/v1/call/my-api/search?q=x`. */
+  path: string;
+  body?: Buffer | string;
+  timestamp?: Date;
+  nonce?: string;
+}
+
+/** Builds the headers for a signed request — what a client SDK does. */
+export function signRequest(params: SignRequestParams): Record<string, string> {
+  const timestamp = (params.timestamp ?? new Date()).toISOString();
+  const nonce = params.nonce ?? randomBytes(16).toString('hex');
+  const canonical = canonicalRequest(params.method, params.path, sha256Hex(params.body ?? ''), nonce);
+
+  return {
+    [KEY_PREFIX_HEADER]: params.apiKey.slice(0, 16),
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: `sha256=${computeSignature(params.apiKey, timestamp, canonical)}`,
+  };
+}
+
+export interface SignedRequestHeaders {
+  keyPrefix: string;
+  timestamp: string;
+  nonce: string;
+  /** Hex digest from `sha256=<hex>`. */
+  signature: string;
+}
+
+/**
+ * Reads the signing headers, or returns `null` when the request is not
+ * signed. Throws when it is signed but a header is missing or malformed.
+ */
+export function readSignedRequestHeaders(req: Request): SignedRequestHeaders | null {
+  const signatureHeader = req.header(SIGNATURE_HEADER);
+  if (signatureHeader === undefined) return null;
+
+  const keyPrefix = req.header(KEY_PREFIX_HEADER);
+  const timestamp = req.header(TIMESTAMP_HEADER);
+  const nonce = req.header(NONCE_HEADER);
+  if (!keyPrefix || !timestamp || !nonce) {
+    throw new BadRequestError(
+      `Signed requests need ${KEY_PREFIX_HEADER}, ${TIMESTAMP_HEADER}, ${NONCE_HEADER} and ${SIGNATURE_HEADER}.`,
+      'REQUEST_SIGNATURE_MALFORMED',
+    );
+  }
+
+  const match = /^sha256=([0-9a-f]{64})$/i.exec(signatureHeader);
+  if (!match) {
+    throw new BadRequestError(
+      `Malformed ${SIGNATURE_HEADER} header. Expected format: sha256=<hex>.`,
+      'REQUEST_SIGNATURE_MALFORMED',
+    );
+  }
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new BadRequestError(
+      `${NONCE_HEADER} must be 16-128 characters of letters, digits, "-" or "_".`,
+      'REQUEST_SIGNATURE_MALFORMED',
+    );
+  }
+
+  return { keyPrefix, timestamp, nonce, signature: match[1].toLowerCase() };
+}
+
+/**
+ * The signed timestamp, rejected when it is further than `toleranceMs` from
+ * `now` in either direction.
+ */
+export function assertSignatureTimestamp(timestamp: string, now: Date, toleranceMs: number): Date {
+  const signedAt = Date.parse(timestamp);
+  if (Number.isNaN(signedAt)) {
+    throw new BadRequestError(
+      `Invalid timestamp format in ${TIMESTAMP_HEADER}.`,
+      'REQUEST_SIGNATURE_MALFORMED',
+    );
+  }
+  if (Math.abs(now.getTime() - signedAt) > toleranceMs) {
+    throw new UnauthorizedError(
+      'Unauthorized: request timestamp is too old or too far in the future',
+      'REQUEST_TIMESTAMP_OUT_OF_WINDOW',
+    );
+  }
+  return new Date(signedAt);
+}
+
+/** Whether `headers.signature` was made with `apiKey` over this request. */
+export function requestSignatureMatches(
+  apiKey: string,
+  headers: SignedRequestHeaders,
+  method: string,
+  pathAndQuery: string,
+  body: Buffer,
+): boolean {
+  const canonical = canonicalRequest(method, pathAndQuery, sha256Hex(body), headers.nonce);
+  return safeCompare(computeSignature(apiKey, headers.timestamp, canonical), headers.signature);
+}
+
+/**
+ * Reads the whole request body, up to `limitBytes`, so its digest can be
+ * checked before anything is forwarded. The buffer is left on `req.body`,
+ * which the proxy forwards in place of the consumed stream.
+ */
+export async function bufferRequestBody(req: Request, limitBytes: number): Promise<Buffer> {
+  if (Buffer.isBuffer(req.body)) return req.body;
+
+  const declaredLength = Number(req.headers['content-length']);
+  if (Number.isFinite(declaredLength) && declaredLength > limitBytes) {
+    throw new PayloadTooLargeError('Request body too large');
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req as AsyncIterable<Buffer | string>) {
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    received += bytes.length;
+    if (received > limitBytes) {
+      throw new PayloadTooLargeError('Request body too large');
+    }
+    chunks.push(bytes);
+  }
+
+  const body = Buffer.concat(chunks);
+  req.body = body;
+  return body;
+}
+
+// ── Replay protection ─────────────────────────────────────────────────────────
+
+/**
+ * Remembers the nonces of accepted signed requests. `claim` is atomic: of
+ * any number of concurrent claims for the same key and nonce, exactly one
+ * succeeds.
+ */
+export interface RequestNonceStore {
+  /** False when the nonce has already been used and has not yet expired. */
+  claim(apiKeyId: string, nonce: string, expiresAt: Date, now?: Date): Promise<boolean>;
+}
+
+/** How often the in-memory store sweeps expired nonces. */
+const PRUNE_INTERVAL_MS = 60_000;
+
+/** Single-instance store. Use the Postgres store when running several instances. */
+export class InMemoryRequestNonceStore implements RequestNonceStore {
+  private readonly nonces = new Map<string, number>();
+  private lastPrunedAt = 0;
+
+  async claim(apiKeyId: string, nonce: string, expiresAt: Date, now: Date = new Date()): Promise<boolean> {
+    this.prune(now.getTime());
+
+    const key = `${apiKeyId}:${nonce}`;
+    const existing = this.nonces.get(key);
+    if (existing !== undefined && existing > now.getTime()) return false;
+
+    this.nonces.set(key, expiresAt.getTime());
+    return true;
+  }
+
+  reset(): void {
+    this.nonces.clear();
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    for (const [key, expiresAt] of this.nonces) {
+      if (expiresAt <= now) this.nonces.delete(key);
+    }
+  }
+}
+
+/** Nonces in `api_key_request_nonces` (migration 0028), shared by every instance. */
+export class PostgresRequestNonceStore implements RequestNonceStore {
+  constructor(private readonly pool: PersistentRateLimiterPool) {}
+
+  async claim(apiKeyId: string, nonce: string, expiresAt: Date, now: Date = new Date()): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      // An expired row for the same nonce must not block the claim, and
+      // clearing the key's expired rows here keeps the table small.
+      await client.query(
+        'DELETE FROM api_key_request_nonces WHERE api_key_id = $1 AND expires_at <= $2',
+        [apiKeyId, now],
+      );
+      const inserted = await client.query<{ nonce: string }>(
+        `INSERT INTO api_key_request_nonces (api_key_id, nonce, expires_at)
+         VALUES ($1, $2, $3)
+         ON CONFLICT DO NOTHING
+         RETURNING nonce`,
+        [apiKeyId, nonce, expiresAt],
+      );
+      return inserted.rows.length === 1;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export const defaultRequestNonceStore: RequestNonceStore = new InMemoryRequestNonceStore();
+
+export interface AppRequestNonceStoreConfig {
+  store: 'memory' | 'postgres';
+}
+
+/** Nonces live wherever API keys do (`API_KEY_STORE`). */
+export function createConfiguredRequestNonceStore(
+  config: AppRequestNonceStoreConfig,
+  pool?: PersistentRateLimiterPool,
+): RequestNonceStore {
+  if (config.store === 'postgres') {
+    if (!pool) {
+      throw new Error('A PostgreSQL pool is required when API_KEY_STORE is set to "postgres".');
+    }
+    return new PostgresRequestNonceStore(pool);
+  }
+
+  return defaultRequestNonceStore;
+}
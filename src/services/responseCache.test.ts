@@ -0,0 +1,99 @@
+import {
+  InMemoryResponseCache,
+  requestBypassesCache,
+  responseCacheKey,
+  storableTtlMs,
+  type CachedResponse,
+} from './responseCache.js';
+import type { ResponseCachePolicy } from '../types/gateway.js';
+
+const POLICY: ResponseCachePolicy = { ttlSeconds: 60, varyHeaders: ['Accept-Language'] };
+
+function entry(apiId: string, bodyBytes: number, expiresAt = Number.MAX_SAFE_INTEGER): CachedResponse {
+  return {
+    apiId,
+    status: 200,
+    headers: [['content-type', 'application/json']],
+    body: Buffer.alloc(bodyBytes),
+    storedAt: 0,
+    expiresAt,
+  };
+}
+
+describe('responseCacheKey', () => {
+  it('separates entries by API, upstream URL and vary header values only', () => {
+    const key = (apiId: string, url: string, headers: Record<string, string>) =>
+      responseCacheKey(apiId, url, POLICY, headers);
+    const base = key('1', 'https://up.example.com/rates', { 'accept-language': 'en' });
+
+    expect(key('1', 'https://up.example.com/rates', { 'accept-language': 'en', 'x-trace': 'a' })).toBe(base);
+    expect(key('2', 'https://up.example.com/rates', { 'accept-language': 'en' })).not.toBe(base);
+    expect(key('1', 'https://up.example.com/other', { 'accept-language': 'en' })).not.toBe(base);
+    expect(key('1', 'https://up.example.com/rates', { 'accept-language': 'fr' })).not.toBe(base);
+    expect(key('1', 'https://up.example.com/rates', {})).not.toBe(base);
+  });
+});
+
+describe('storableTtlMs', () => {
+  const ttl = (status: number, headers: Record<string, string>) =>
+    storableTtlMs(POLICY, status, new Headers(headers));
+
+  it('uses the policy TTL unless the upstream asks for less', () => {
+    expect(ttl(200, {})).toBe(60_000);
+    expect(ttl(200, { 'cache-control': 'public, max-age=10' })).toBe(10_000);
+    expect(ttl(200, { 'cache-control': 'max-age=10, s-maxage=5' })).toBe(5_000);
+    expect(ttl(200, { 'cache-control': 'max-age=3600' })).toBe(60_000);
+    expect(ttl(200, { vary: 'Accept-Language, Accept-Encoding' })).toBe(60_000);
+  });
+
+  it('refuses responses the upstream marks uncacheable or that vary otherwise', () => {
+    expect(ttl(201, {})).toBe(0);
+    expect(ttl(200, { 'cache-control': 'no-store' })).toBe(0);
+    expect(ttl(200, { 'cache-control': 'private, max-age=60' })).toBe(0);
+    expect(ttl(200, { 'cache-control': 'no-cache' })).toBe(0);
+    expect(ttl(200, { 'cache-control': 'max-age=0' })).toBe(0);
+    expect(ttl(200, { vary: '*' })).toBe(0);
+    expect(ttl(200, { vary: 'X-Tenant' })).toBe(0);
+    expect(ttl(200, { 'set-cookie': 'session=1' })).toBe(0);
+  });
+});
+
+describe('requestBypassesCache', () => {
+  it('honours no-cache from the caller', () => {
+    expect(requestBypassesCache({})).toBe(false);
+    expect(requestBypassesCache({ 'cache-control': 'no-cache' })).toBe(true);
+    expect(requestBypassesCache({ pragma: 'no-cache' })).toBe(true);
+  });
+});
+
+describe('InMemoryResponseCache', () => {
+  it('expires entries and purges one API at a time', () => {
+    const cache = new InMemoryResponseCache({ maxBytes: 10_000, maxEntryBytes: 1_000 });
+    cache.set('a', entry('1', 10, 1_000));
+    cache.set('b', entry('1', 10));
+    cache.set('c', entry('2', 10));
+
+    expect(cache.get('a', 999)).toBeDefined();
+    expect(cache.get('a', 1_000)).toBeUndefined();
+
+    expect(cache.purgeApi('1')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('evicts the least recently used entries beyond its size and skips oversized bodies', () => {
+    const cache = new InMemoryResponseCache({ maxBytes: 300, maxEntryBytes: 200 });
+    cache.set('a', entry('1', 100));
+    cache.set('b', entry('1', 100));
+    cache.get('a');
+    cache.set('c', entry('1', 100));
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+
+    cache.set('d', entry('1', 201));
+    expect(cache.get('d')).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * responseCache.ts
+ *
+ * Gateway cache for `GET /v1/call` responses. Providers turn it on per
+ * endpoint with a {@link ResponseCachePolicy}; responses then carry
+ * `X-Callora-Cache: HIT` or `MISS`, and hits can be billed at the policy's
+ * `hitPriceUsdc`.
+ *
+ * A response is stored only when it is a `200` and the upstream allows it:
+ *   - `Cache-Control: no-store`, `no-cache` or `private` → not stored
+ *   - `s-maxage` / `max-age` below the policy TTL → stored for that long
+ *   - `Vary: *`, or `Vary` naming a header the policy does not vary by → not stored
+ *   - `Set-Cookie` → not stored
+ *
+ * Entries are keyed by API, upstream URL and the values of the policy's vary
+ * headers, and are shared by every consumer of the endpoint. A caller can
+ * skip the lookup with `Cache-Control: no-cache`; the fresh response still
+ * replaces the cached one.
+ *
+ * The cache is per process and bounded by `RESPONSE_CACHE_MAX_BYTES`; the
+ * least recently used entries are evicted first.
+ */
+
+import type { IncomingHttpHeaders } from 'node:http';
+import { config } from '../config/index.js';
+import type { Awaitable } from '../types/awaitable.js';
+import type { ResponseCachePolicy } from '../types/gateway.js';
+
+export const CACHE_STATUS_HEADER = 'x-callora-cache';
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+/**
+ * Response headers that are not replayed from the cache. Bodies are stored
+ * decoded, and Express sets the length of the replayed body itself.
+ */
+const UNREPLAYED_HEADERS = new Set(['content-length', 'content-encoding', 'transfer-encoding', 'age']);
+
+export interface CachedResponse {
+  apiId: string;
+  status: number;
+  headers: Array<[string, string]>;
+  body: Buffer;
+  /** Units the upstream reported, for unit-priced endpoints. */
+  units?: number;
+  /** Epoch milliseconds. */
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface ResponseCacheStore {
+  /** Larger bodies are never stored. */
+  readonly maxEntryBytes: number;
+  /** The live entry for `key`, if any. */
+  get(key: string, now?: number): Awaitable<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Awaitable<void>;
+  /** Drops every entry of the API and returns how many there were. */
+  purgeApi(apiId: string): Awaitable<number>;
+}
+
+// ── Policy evaluation ─────────────────────────────────────────────────────────
+
+function normaliseHeaderNames(names: readonly string[] | undefined): string[] {
+  return [...new Set((names ?? []).map((name) => name.trim().toLowerCase()).filter(Boolean))].sort();
+}
+
+function parseCacheControl(value: string | null | undefined): Map<string, string | undefined> {
+  const directives = new Map<string, string | undefined>();
+  for (const part of (value ?? '').split(',')) {
+    const [name, ...rest] = part.split('=');
+    const directive = name.trim().toLowerCase();
+    if (!directive) continue;
+    directives.set(directive, rest.length > 0 ? rest.join('=').trim().replace(/^"|"$/g, '') : undefined);
+  }
+  return directives;
+}
+
+/** Whether the call can be answered from the cache. */
+export function isCacheableRequest(
+  method: string,
+  policy: ResponseCachePolicy | undefined,
+): policy is ResponseCachePolicy {
+  return policy !== undefined && method.toUpperCase() === 'GET';
+}
+
+/** `Cache-Control: no-cache` / `no-store` (or `Pragma: no-cache`) asks for a fresh response. */
+export function requestBypassesCache(headers: IncomingHttpHeaders): boolean {
+  const directives = parseCacheControl(headers['cache-control']);
+  return directives.has('no-cache')
+    || directives.has('no-store')
+    || /\bno-cache\b/i.test(headers.pragma ?? '');
+}
+
+/** The cache key for a call: API, upstream URL and the policy's vary header values. */
+export function responseCacheKey(
+  apiId: string,
+  upstreamUrl: string,
+  policy: ResponseCachePolicy,
+  headers: IncomingHttpHeaders,
+): string {
+  const varied = normaliseHeaderNames(policy.varyHeaders).map((name) => {
+    const value = headers[name];
+    return [name, Array.isArray(value) ? value.join(', ') : value ?? null];
+  });
+  return JSON.stringify([apiId, upstreamUrl, varied]);
+}
+
+/**
+ * How long an upstream response may be cached under `policy`, in
+ * milliseconds; 0 when it must not be stored.
+ */
+export function storableTtlMs(policy: ResponseCachePolicy, status: number, headers: Headers): number {
+  if (status !== 200 || headers.has('set-cookie')) return 0;
+
+  const vary = headers.get('vary');
+  if (vary) {
+    const varied = new Set(normaliseHeaderNames(policy.varyHeaders));
+    // Bodies are stored decoded, so Accept-Encoding never selects a variant.
+    const mismatched = vary
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .some((name) => name === '*' || (name !== '' && name !== 'accept-encoding' && !varied.has(name)));
+    if (mismatched) return 0;
+  }
+
+  const directives = parseCacheControl(headers.get('cache-control'));
+  if (directives.has('no-store') || directives.has('no-cache') || directives.has('private')) return 0;
+
+  let ttlSeconds = policy.ttlSeconds;
+  const maxAge = Number(directives.get('s-maxage') ?? directives.get('max-age'));
+  if (Number.isInteger(maxAge) && maxAge >= 0) {
+    ttlSeconds = Math.min(ttlSeconds, maxAge);
+  }
+  return ttlSeconds * 1000;
+}
+
+/** The headers of a forwarded response that a cache hit replays. */
+export function replayableHeaders(headers: Array<[string, string]>): Array<[string, string]> {
+  return headers.filter(([name]) => !UNREPLAYED_HEADERS.has(name.toLowerCase()));
+}
+
+/** Seconds since the entry was stored, for the `Age` header. */
+export function cachedResponseAge(entry: CachedResponse, now: number = Date.now()): number {
+  return Math.max(0, Math.floor((now - entry.storedAt) / 1000));
+}
+
+// ── Store ─────────────────────────────────────────────────────────────────────
+
+export interface InMemoryResponseCacheOptions {
+  /** Total size of stored bodies and headers before the least recently used are evicted. */
+  maxBytes: number;
+  maxEntryBytes: number;
+}
+
+function entrySize(entry: CachedResponse): number {
+  return entry.headers.reduce(
+    (size, [name, value]) => size + name.length + value.length,
+    entry.body.length,
+  );
+}
+
+/** Bounded LRU cache; a `Map` keeps entries in least recently used order. */
+export class InMemoryResponseCache implements ResponseCacheStore {
+  readonly maxEntryBytes: number;
+  private readonly maxBytes: number;
+  private readonly entries = new Map<string, CachedResponse>();
+  private sizeBytes = 0;
+
+  constructor(options: InMemoryResponseCacheOptions) {
+    this.maxBytes = options.maxBytes;
+    this.maxEntryBytes = Math.min(options.maxEntryBytes, options.maxBytes);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string, now: number = Date.now()): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now) {
+      this.delete(key);
+      return undefined;
+    }
+    // Re-insert so the entry becomes the most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CachedResponse): void {
+    if (entry.body.length > this.maxEntryBytes) return;
+
+    this.delete(key);
+    this.entries.set(key, entry);
+    this.sizeBytes += entrySize(entry);
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.sizeBytes <= this.maxBytes) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  purgeApi(apiId: string): number {
+    let purged = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.apiId === apiId) {
+        this.delete(key);
+        purged += 1;
+      }
+    }
+    return purged;
+  }
+
+  reset(): void {
+    this.entries.clear();
+    this.sizeBytes = 0;
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.sizeBytes -= entrySize(entry);
+  }
+}
+
+export const defaultResponseCache = new InMemoryResponseCache({
+  maxBytes: config.responseCache.maxBytes,
+  maxEntryBytes: config.responseCache.maxEntryBytes,
+});
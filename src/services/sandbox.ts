@@ -0,0 +1,317 @@
+/**
+ * sandbox.ts
+ *
+ * Sandbox mode for `/v1/call`. API keys are issued in one of two modes:
+ *   - `live` (`ck_live_…`) — calls reach the API's upstream and are billed
+ *   - `test` (`ck_test_…`) — calls are answered from the provider's sandbox
+ *     and never move USDC
+ *
+ * A test call is answered by the first of:
+ *   1. a fixture — a canned example response the provider stored for the
+ *      call's method and path
+ *   2. the provider's sandbox base URL, proxied like a live call
+ * A call neither can answer fails with `404 SANDBOX_RESPONSE_NOT_FOUND`.
+ *
+ * Test calls skip the balance check, holds, spend caps, subscription
+ * metering and billing, and have their own rate limit
+ * (`SANDBOX_RATE_LIMIT_*`). Their usage is recorded flagged `test`, at no
+ * charge, and left out of settlements and invoices.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors/index.js';
+import { validateUpstreamBaseUrl } from '../lib/upstreamTarget.js';
+import { originBreakerKey, type ResolvedOrigin } from './upstreamOrigins.js';
+
+// ---------------------------------------------------------------------------
+// Key modes
+// ---------------------------------------------------------------------------
+
+export const API_KEY_MODES = ['live', 'test'] as const;
+export type ApiKeyMode = (typeof API_KEY_MODES)[number];
+
+const API_KEY_PREFIXES: Record<ApiKeyMode, string> = {
+  live: 'ck_live_',
+  test: 'ck_test_',
+};
+
+/** The start of every key issued in `mode`. */
+export function apiKeyPrefixFor(mode: ApiKeyMode): string {
+  return API_KEY_PREFIXES[mode];
+}
+
+/** The mode of a key, read from its prefix. Keys of any other format are live. */
+export function apiKeyModeOf(prefix: string): ApiKeyMode {
+  return prefix.startsWith(API_KEY_PREFIXES.test) ? 'test' : 'live';
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Response header telling the caller how a test call was answered: `fixture` or `upstream`. */
+export const SANDBOX_HEADER = 'x-callora-sandbox';
+
+/** Most fixtures one API can store. */
+export const MAX_SANDBOX_FIXTURES = 100;
+
+/** A canned response to test calls matching `method` and `path`. */
+export interface SandboxFixture {
+  id: string;
+  /** Null matches any method. */
+  method: string | null;
+  /** Matched like endpoint paths: the longest prefix of the call's path, or `*`. */
+  path: string;
+  status: number;
+  headers: Record<string, string>;
+  /** Sent as is when a string, as JSON otherwise. */
+  body: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SandboxFixtureInput = Pick<SandboxFixture, 'path' | 'status' | 'body'> & {
+  method?: string | null;
+  headers?: Record<string, string>;
+};
+
+/** An API's sandbox, as stored and as returned to its provider. */
+export interface ApiSandbox {
+  apiId: string;
+  /** Upstream that test calls without a fixture are proxied to. */
+  baseUrl: string | null;
+  fixtures: SandboxFixture[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+/** How the gateway answers one test call. */
+export type SandboxRoute =
+  | { type: 'fixture'; fixture: SandboxFixture }
+  | { type: 'upstream'; origin: ResolvedOrigin };
+
+/**
+ * Minimal persistence abstraction — swap the in-memory implementation for a
+ * Postgres adapter (see migrations/0032_api_sandboxes.sql) without touching
+ * service logic.
+ */
+export interface SandboxStore {
+  get(apiId: string): Promise<ApiSandbox | null>;
+  put(record: ApiSandbox): Promise<void>;
+}
+
+export class InMemorySandboxStore implements SandboxStore {
+  private readonly records = new Map<string, ApiSandbox>();
+
+  async get(apiId: string): Promise<ApiSandbox | null> {
+    const record = this.records.get(apiId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async put(record: ApiSandbox): Promise<void> {
+    this.records.set(record.apiId, structuredClone(record));
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function normalisePath(path: string): string {
+  return path === '*' || path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * The fixture for a call: the one with the longest path the call's path
+ * starts with, preferring fixtures for the call's method; the `*` fixtures
+ * when none match.
+ */
+export function matchSandboxFixture(
+  fixtures: SandboxFixture[],
+  method: string,
+  path: string,
+): SandboxFixture | null {
+  const wanted = method.toUpperCase();
+  const callPath = normalisePath(path);
+  const candidates = fixtures.filter((fixture) => fixture.method === null || fixture.method === wanted);
+  const specificity = (fixture: SandboxFixture): number => (fixture.method ? 1 : 0);
+
+  const onPath = candidates
+    .filter((fixture) => fixture.path !== '*' && callPath.startsWith(fixture.path))
+    .sort((a, b) => b.path.length - a.path.length || specificity(b) - specificity(a));
+  if (onPath[0]) return onPath[0];
+
+  return candidates
+    .filter((fixture) => fixture.path === '*')
+    .sort((a, b) => specificity(b) - specificity(a))[0] ?? null;
+}
+
+export function sandboxResponseNotFoundError(): NotFoundError {
+  return new NotFoundError(
+    'No sandbox response is configured for this call; the provider has no matching fixture or sandbox base URL',
+    'SANDBOX_RESPONSE_NOT_FOUND',
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export interface SandboxServiceOptions {
+  now?: () => Date;
+}
+
+export class SandboxService {
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly store: SandboxStore,
+    options: SandboxServiceOptions = {},
+  ) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** The API's sandbox; an empty one when the provider has not set it up. */
+  async get(apiId: string): Promise<ApiSandbox> {
+    return (await this.store.get(apiId)) ?? {
+      apiId,
+      baseUrl: null,
+      fixtures: [],
+      updatedAt: null,
+      updatedBy: null,
+    };
+  }
+
+  /** Sets or, with null, removes the base URL test calls are proxied to. */
+  async setBaseUrl(apiId: string, baseUrl: string | null, actor: string): Promise<ApiSandbox> {
+    let validated: string | null = null;
+    if (baseUrl !== null) {
+      try {
+        validated = validateUpstreamBaseUrl(baseUrl);
+      } catch (error) {
+        throw new BadRequestError(error instanceof Error ? error.message : 'Invalid sandbox base URL');
+      }
+    }
+    return this.update(apiId, actor, (sandbox) => ({ ...sandbox, baseUrl: validated }));
+  }
+
+  async addFixture(apiId: string, input: SandboxFixtureInput, actor: string): Promise<SandboxFixture> {
+    const timestamp = this.now().toISOString();
+    const fixture: SandboxFixture = {
+      ...this.toFixtureFields(input),
+      id: randomUUID(),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    await this.update(apiId, actor, (sandbox) => {
+      if (sandbox.fixtures.length >= MAX_SANDBOX_FIXTURES) {
+        throw new BadRequestError(
+          `An API can store at most ${MAX_SANDBOX_FIXTURES} sandbox fixtures`,
+          'SANDBOX_FIXTURE_LIMIT_EXCEEDED',
+        );
+      }
+      assertNoDuplicate(sandbox.fixtures, fixture);
+      return { ...sandbox, fixtures: [...sandbox.fixtures, fixture] };
+    });
+    return fixture;
+  }
+
+  async replaceFixture(
+    apiId: string,
+    fixtureId: string,
+    input: SandboxFixtureInput,
+    actor: string,
+  ): Promise<SandboxFixture> {
+    let replaced: SandboxFixture | undefined;
+    await this.update(apiId, actor, (sandbox) => {
+      const current = sandbox.fixtures.find((fixture) => fixture.id === fixtureId);
+      if (!current) throw new NotFoundError('Sandbox fixture not found');
+      replaced = {
+        ...current,
+        ...this.toFixtureFields(input),
+        updatedAt: this.now().toISOString(),
+      };
+      assertNoDuplicate(sandbox.fixtures, replaced);
+      return {
+        ...sandbox,
+        fixtures: sandbox.fixtures.map((fixture) => (fixture.id === fixtureId ? replaced! : fixture)),
+      };
+    });
+    return replaced!;
+  }
+
+  /** False when the API has no such fixture. */
+  async removeFixture(apiId: string, fixtureId: string, actor: string): Promise<boolean> {
+    const sandbox = await this.get(apiId);
+    if (!sandbox.fixtures.some((fixture) => fixture.id === fixtureId)) return false;
+    await this.update(apiId, actor, (current) => ({
+      ...current,
+      fixtures: current.fixtures.filter((fixture) => fixture.id !== fixtureId),
+    }));
+    return true;
+  }
+
+  /** How the gateway answers a test call, or null when the sandbox cannot. */
+  async resolve(apiId: string, method: string, path: string): Promise<SandboxRoute | null> {
+    const sandbox = await this.store.get(apiId);
+    if (!sandbox) return null;
+
+    const fixture = matchSandboxFixture(sandbox.fixtures, method, path);
+    if (fixture) return { type: 'fixture', fixture };
+    if (sandbox.baseUrl) {
+      return {
+        type: 'upstream',
+        origin: {
+          apiId,
+          id: 'sandbox',
+          url: sandbox.baseUrl,
+          weight: 1,
+          breakerKey: originBreakerKey(apiId, 'sandbox'),
+        },
+      };
+    }
+    return null;
+  }
+
+  private toFixtureFields(input: SandboxFixtureInput): Pick<SandboxFixture, 'method' | 'path' | 'status' | 'headers' | 'body'> {
+    return {
+      method: input.method ? input.method.toUpperCase() : null,
+      path: normalisePath(input.path),
+      status: input.status,
+      headers: Object.fromEntries(
+        Object.entries(input.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]),
+      ),
+      body: input.body,
+    };
+  }
+
+  private async update(
+    apiId: string,
+    actor: string,
+    change: (sandbox: ApiSandbox) => ApiSandbox,
+  ): Promise<ApiSandbox> {
+    const next = change(await this.get(apiId));
+    const record: ApiSandbox = { ...next, updatedAt: this.now().toISOString(), updatedBy: actor };
+    await this.store.put(record);
+    return record;
+  }
+}
+
+function assertNoDuplicate(fixtures: SandboxFixture[], candidate: SandboxFixture): void {
+  const duplicate = fixtures.some((fixture) =>
+    fixture.id !== candidate.id && fixture.method === candidate.method && fixture.path === candidate.path,
+  );
+  if (duplicate) {
+    throw new ConflictError(
+      `A sandbox fixture for ${candidate.method ?? 'any method'} ${candidate.path} already exists`,
+      'SANDBOX_FIXTURE_CONFLICT',
+    );
+  }
+}
+
+/** Shared singleton used by the proxy and the provider routes. */
+export const defaultSandboxService = new SandboxService(new InMemorySandboxStore());
@@ -29,6 +29,7 @@ function createUsageRepository() {
       api_key_id VARCHAR(255) NOT NULL,
       developer_id VARCHAR(255) NOT NULL DEFAULT '',
       amount_usdc NUMERIC(20, 0) NOT NULL,
+      units BIGINT,
       request_id VARCHAR(255) NOT NULL,
       stellar_tx_hash VARCHAR(64),
       created_at TIMESTAMP NOT NULL DEFAULT NOW(),
@@ -50,12 +51,14 @@ test('computeNextRunAt returns a future matching minute/hour', () => {
 test('csv and json serializers include usage event fields', async () => {
   const { repository, pool } = createUsageRepository();
   try {
-    const event = await repository.create({ userId: 'u1', apiId: 'api-1', endpointId: 'ep-1', apiKeyId: 'key-1', developerId: 'dev-1', amount: 15n, requestId: 'req-1', createdAt: new Date('2026-06-01T00:00:00.000Z') });
+    const event = await repository.create({ userId: 'u1', apiId: 'api-1', endpointId: 'ep-1', apiKeyId: 'key-1', developerId: 'dev-1', amount: 15n, units: 3, requestId: 'req-1', createdAt: new Date('2026-06-01T00:00:00.000Z') });
     const csv = eventsToCsv([event]);
     const json = eventsToJson([event]);
     assert.match(csv, /id,userId,apiId/);
     assert.match(csv, /req-1/);
+    assert.match(csv, /,15,3,req-1,/);
     assert.match(json, /"amount": "15"/);
+    assert.match(json, /"units": 3/);
   } finally {
     await pool.end();
   }
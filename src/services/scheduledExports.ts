@@ -119,7 +119,7 @@ function csvEscape(value: string): string {
 }
 
 export function eventsToCsv(events: BillingUsageEvent[]): string {
-  const header = ['id', 'userId', 'apiId', 'endpointId', 'apiKeyId', 'developerId', 'amount', 'requestId', 'stellarTxHash', 'createdAt'];
+  const header = ['id', 'userId', 'apiId', 'endpointId', 'apiKeyId', 'developerId', 'amount', 'units', 'requestId', 'stellarTxHash', 'createdAt'];
   const rows = events.map((event) => [
     event.id,
     event.userId,
@@ -128,6 +128,7 @@ export function eventsToCsv(events: BillingUsageEvent[]): string {
     event.apiKeyId,
     event.developerId,
     event.amount.toString(),
+    event.units == null ? '' : String(event.units),
     event.requestId,
     event.stellarTxHash ?? '',
     event.createdAt.toISOString(),
@@ -144,6 +145,7 @@ export function eventsToJson(events: BillingUsageEvent[]): string {
     apiKeyId: event.apiKeyId,
     developerId: event.developerId,
     amount: event.amount.toString(),
+    units: event.units,
     requestId: event.requestId,
     stellarTxHash: event.stellarTxHash,
     createdAt: event.createdAt.toISOString(),
@@ -0,0 +1,93 @@
+import {
+  SseEventCounter,
+  StreamMeter,
+  streamChargeUsdc,
+  type StreamInterval,
+  type StreamMeterOptions,
+} from './streamMetering.js';
+
+describe('streamChargeUsdc', () => {
+  it('prorates the minute price and adds the message price', () => {
+    expect(streamChargeUsdc({ perMinuteUsdc: 0.06 }, 30_000, 10)).toBe(0.03);
+    expect(streamChargeUsdc({ perMinuteUsdc: 0.06, perMessageUsdc: 0.001 }, 60_000, 10)).toBe(0.07);
+    expect(streamChargeUsdc({ perMessageUsdc: 0.0000001 }, 60_000, 3)).toBe(0.0000003);
+  });
+});
+
+describe('SseEventCounter', () => {
+  it('counts events, not comments, across chunks and line endings', () => {
+    const counter = new SseEventCounter();
+
+    expect(counter.push(Buffer.from('data: one\n\n: keep-alive\n\nevent: tick\r\ndata: 2'))).toBe(1);
+    expect(counter.atEventBoundary).toBe(false);
+    expect(counter.push(Buffer.from('\r\n\r\ndata: three\r\rdata: four\n'))).toBe(2);
+    expect(counter.atEventBoundary).toBe(false);
+    expect(counter.push(Buffer.from('\n'))).toBe(1);
+    expect(counter.atEventBoundary).toBe(true);
+  });
+});
+
+describe('StreamMeter', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  function meterWith(overrides: Partial<StreamMeterOptions> = {}) {
+    const intervals: StreamInterval[] = [];
+    const onExhausted = jest.fn();
+    const meter = new StreamMeter({
+      pricing: { perMinuteUsdc: 0.06, perMessageUsdc: 0.01 },
+      intervalMs: 60_000,
+      charge: async (interval) => {
+        intervals.push(interval);
+        return true;
+      },
+      checkBalance: async () => 10,
+      onExhausted,
+      ...overrides,
+    });
+    return { meter, intervals, onExhausted };
+  }
+
+  it('bills each interval and the final partial one', async () => {
+    const { meter, intervals } = meterWith();
+    meter.start();
+
+    meter.recordMessages(2);
+    await jest.advanceTimersByTimeAsync(60_000);
+    meter.recordMessages(1);
+    await jest.advanceTimersByTimeAsync(30_000);
+    await meter.stop();
+    await meter.stop();
+
+    expect(intervals).toEqual([
+      { sequence: 1, durationMs: 60_000, messages: 2, amountUsdc: 0.08 },
+      { sequence: 2, durationMs: 30_000, messages: 1, amountUsdc: 0.04 },
+    ]);
+  });
+
+  it('reports exhaustion once the balance cannot pay for another interval', async () => {
+    const balances = [1, 0.05, 0];
+    const { meter, onExhausted } = meterWith({ checkBalance: async () => balances.shift() ?? 0 });
+    meter.start();
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(onExhausted).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(onExhausted).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(onExhausted).toHaveBeenCalledTimes(1);
+    await meter.stop();
+  });
+
+  it('reports exhaustion when an interval cannot be charged', async () => {
+    const { meter, onExhausted } = meterWith({ charge: async () => false });
+    meter.start();
+
+    await jest.advanceTimersByTimeAsync(60_000);
+
+    expect(onExhausted).toHaveBeenCalledTimes(1);
+    await meter.stop();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * streamMetering.ts
+ *
+ * Bills long-lived `/v1/call` connections — WebSocket upgrades and
+ * server-sent-event responses — to endpoints with {@link StreamPricing}.
+ * Such a connection is authenticated, rate limited and balance checked once,
+ * when it opens, and then charged per metering interval
+ * (`STREAM_METERING_INTERVAL_MS`): the minutes it was open at
+ * `perMinuteUsdc` plus the messages it carried at `perMessageUsdc`. Each
+ * interval writes its own usage event.
+ *
+ * After each interval the caller's balance is checked again. When it can no
+ * longer pay for another interval's minutes the connection is closed with
+ * {@link STREAM_CLOSE_INSUFFICIENT_BALANCE}: as the WebSocket close code, or
+ * in a final `callora.close` event on an event stream.
+ */
+
+import { BadRequestError } from '../errors/index.js';
+import { logger } from '../logger.js';
+import type { StreamPricing } from '../types/gateway.js';
+
+/** Close code of a stream ended because the caller's balance ran out. */
+export const STREAM_CLOSE_INSUFFICIENT_BALANCE = 4402;
+
+/** Close reason sent with {@link STREAM_CLOSE_INSUFFICIENT_BALANCE}. */
+export const STREAM_CLOSE_INSUFFICIENT_BALANCE_REASON = 'Insufficient balance';
+
+/** Name of the event that ends an event stream closed by the gateway. */
+export const SSE_CLOSE_EVENT = 'callora.close';
+
+/** USDC has 7 decimal places on Stellar. */
+const USDC_SCALE = 1e7;
+
+function roundUsdc(amount: number): number {
+  return Math.round(amount * USDC_SCALE) / USDC_SCALE;
+}
+
+export function endpointNotStreamingError(): BadRequestError {
+  return new BadRequestError(
+    'This endpoint does not accept WebSocket connections',
+    'ENDPOINT_NOT_STREAMING',
+  );
+}
+
+/** True for an upstream response that is an event stream. */
+export function isEventStream(headers: Headers): boolean {
+  return headers.get('content-type')?.split(';')[0].trim().toLowerCase() === 'text/event-stream';
+}
+
+/** The event that tells an event-stream client why the gateway closed it. */
+export function sseCloseEvent(code: number, reason: string): string {
+  return `event: ${SSE_CLOSE_EVENT}\ndata: ${JSON.stringify({ code, reason })}\n\n`;
+}
+
+/** Charge for `durationMs` of connection carrying `messages` messages. */
+export function streamChargeUsdc(pricing: StreamPricing, durationMs: number, messages: number): number {
+  return roundUsdc(
+    (pricing.perMinuteUsdc ?? 0) * (durationMs / 60_000) + (pricing.perMessageUsdc ?? 0) * messages,
+  );
+}
+
+/**
+ * A timeout that covers only the upstream's response headers: a stream may
+ * then stay open for as long as it is paid for.
+ */
+export function responseHeadersDeadline(timeoutMs: number): { signal: AbortSignal; clear(): void } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+  }, timeoutMs);
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * Counts the events in a server-sent-event stream as its bytes pass
+ * through. An event is a block of fields ended by a blank line; comment-only
+ * blocks, such as keep-alives, are not counted.
+ */
+export class SseEventCounter {
+  private lineLength = 0;
+  private lineIsComment = false;
+  private eventHasField = false;
+  private afterCarriageReturn = false;
+
+  /** Reads the next bytes and returns the number of events they completed. */
+  push(chunk: Uint8Array): number {
+    let events = 0;
+    for (const byte of chunk) {
+      if (byte === 0x0a && this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        continue;
+      }
+      this.afterCarriageReturn = byte === 0x0d;
+      if (byte === 0x0a || byte === 0x0d) {
+        if (this.lineLength === 0) {
+          if (this.eventHasField) events += 1;
+          this.eventHasField = false;
+        } else if (!this.lineIsComment) {
+          this.eventHasField = true;
+        }
+        this.lineLength = 0;
+        continue;
+      }
+      if (this.lineLength === 0) this.lineIsComment = byte === 0x3a;
+      this.lineLength += 1;
+    }
+    return events;
+  }
+
+  /** True between events, where another event can be sent without corrupting the stream. */
+  get atEventBoundary(): boolean {
+    return this.lineLength === 0 && !this.eventHasField;
+  }
+}
+
+/** One metering interval of a stream, as it is billed. */
+export interface StreamInterval {
+  /** 1 for the first interval of the connection. */
+  sequence: number;
+  durationMs: number;
+  messages: number;
+  amountUsdc: number;
+}
+
+export interface StreamMeterOptions {
+  pricing: StreamPricing;
+  intervalMs: number;
+  /** Writes the interval's usage event and charges it. False when the charge failed. */
+  charge(interval: StreamInterval): Promise<boolean>;
+  checkBalance(): Promise<number>;
+  /** Called once, when the balance can no longer pay for another interval. */
+  onExhausted(): void;
+}
+
+/** Meters one open stream, billing it at the end of each interval and when it closes. */
+export class StreamMeter {
+  private timer: NodeJS.Timeout | undefined;
+  private sequence = 0;
+  private messages = 0;
+  private intervalStartedAt = Date.now();
+  private stopped = false;
+  private exhausted = false;
+  private billing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: StreamMeterOptions) {}
+
+  start(): void {
+    this.intervalStartedAt = Date.now();
+    this.timer = setInterval(() => {
+      void this.closeInterval(true);
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  recordMessages(count: number): void {
+    this.messages += count;
+  }
+
+  /** Bills the final, partial interval. Safe to call more than once. */
+  stop(): Promise<void> {
+    if (!this.stopped) {
+      this.stopped = true;
+      clearInterval(this.timer);
+      void this.closeInterval(false);
+    }
+    return this.billing;
+  }
+
+  /** The least another interval can cost: its minutes. */
+  private nextIntervalMinimumUsdc(): number {
+    return streamChargeUsdc(this.options.pricing, this.options.intervalMs, 0);
+  }
+
+  private closeInterval(checkFunds: boolean): Promise<void> {
+    const now = Date.now();
+    const messages = this.messages;
+    const durationMs = now - this.intervalStartedAt;
+    this.messages = 0;
+    this.intervalStartedAt = now;
+    this.sequence += 1;
+    const interval: StreamInterval = {
+      sequence: this.sequence,
+      durationMs,
+      messages,
+      amountUsdc: streamChargeUsdc(this.options.pricing, durationMs, messages),
+    };
+
+    this.billing = this.billing.then(async () => {
+      const charged = await this.options.charge(interval).catch((error: unknown) => {
+        logger.error({ err: error, sequence: interval.sequence }, 'Failed to bill stream interval');
+        return false;
+      });
+      if (!checkFunds || this.stopped) return;
+      const balance = charged ? await this.options.checkBalance().catch(() => 0) : 0;
+      if (!charged || balance <= 0 || balance < this.nextIntervalMinimumUsdc()) {
+        this.exhaust();
+      }
+    });
+    return this.billing;
+  }
+
+  private exhaust(): void {
+    if (this.exhausted) return;
+    this.exhausted = true;
+    this.options.onExhausted();
+  }
+}
@@ -0,0 +1,151 @@
+import { newDb } from 'pg-mem';
+import {
+  createSubscriptionRepositoryLookup,
+  currentMeteringPeriod,
+  InMemoryMeteringCounterStore,
+  meteringHeaders,
+  meteringRetryAfterSeconds,
+  PostgresMeteringCounterStore,
+  SubscriptionMeter,
+  type MeteredSubscription,
+} from './subscriptionMetering.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+import type { SubscriptionRepository } from '../repositories/subscriptionRepository.js';
+
+function createPgMemPool(): PersistentRateLimiterPool {
+  // CREATE TABLE IF NOT EXISTS on an existing table leaves constraints unread.
+  const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+describe('currentMeteringPeriod', () => {
+  it('buckets by UTC calendar month and resets at the start of the next one', () => {
+    const period = currentMeteringPeriod(new Date('2026-03-31T23:59:59.000Z'));
+    expect(period.key).toBe('2026-03');
+    expect(period.resetAt.toISOString()).toBe('2026-04-01T00:00:00.000Z');
+  });
+
+  it('rolls December over into the next year', () => {
+    const period = currentMeteringPeriod(new Date('2026-12-15T12:00:00.000Z'));
+    expect(period.key).toBe('2026-12');
+    expect(period.resetAt.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+});
+
+describe('SubscriptionMeter', () => {
+  const now = new Date('2026-05-31T23:59:00.000Z');
+  let store: InMemoryMeteringCounterStore;
+  let subscription: MeteredSubscription | undefined;
+  let meter: SubscriptionMeter;
+
+  beforeEach(() => {
+    store = new InMemoryMeteringCounterStore();
+    subscription = { id: 'sub-1', metering_limit: 2 };
+    meter = new SubscriptionMeter({
+      store,
+      lookup: async () => subscription,
+      now: () => now,
+    });
+  });
+
+  it('does not meter callers without a subscription', async () => {
+    subscription = undefined;
+    const admission = await meter.admit('user-1', '7');
+    expect(admission).toEqual({ metered: false });
+    expect(meteringHeaders(admission)).toEqual({});
+  });
+
+  it('does not meter subscriptions with an unlimited (NULL) limit', async () => {
+    subscription = { id: 'sub-1', metering_limit: null };
+    await expect(meter.admit('user-1', '7')).resolves.toEqual({ metered: false });
+  });
+
+  it('counts calls and rejects once the monthly limit is reached', async () => {
+    const first = await meter.admit('user-1', '7');
+    const second = await meter.admit('user-1', '7');
+    const third = await meter.admit('user-1', '7');
+
+    expect(first).toMatchObject({ allowed: true, remaining: 1 });
+    expect(second).toMatchObject({ allowed: true, remaining: 0 });
+    expect(third).toMatchObject({ allowed: false, remaining: 0 });
+    expect(store.get('sub-1', '2026-05')).toBe(2);
+  });
+
+  it('points Retry-After at the start of the next period', async () => {
+    subscription = { id: 'sub-1', metering_limit: 0 };
+    const admission = await meter.admit('user-1', '7');
+
+    expect(admission).toMatchObject({ metered: true, allowed: false });
+    expect(meteringRetryAfterSeconds(admission)).toBe(60);
+    expect(meteringHeaders(admission)).toEqual({
+      'X-Callora-Metering-Limit': '0',
+      'X-Callora-Metering-Remaining': '0',
+      'X-Callora-Metering-Reset': '2026-06-01T00:00:00.000Z',
+    });
+  });
+
+  it('returns a released call to the allowance exactly once', async () => {
+    const admission = await meter.admit('user-1', '7');
+    if (!admission.metered) throw new Error('expected a metered admission');
+
+    await admission.release();
+    await admission.release();
+
+    expect(store.get('sub-1', '2026-05')).toBe(0);
+  });
+});
+
+describe('createSubscriptionRepositoryLookup', () => {
+  it('looks up the active subscription by numeric API id', async () => {
+    const repository = {
+      findActiveByUserAndApi: jest.fn().mockResolvedValue({ id: 'sub-1', metering_limit: 5 }),
+    } as unknown as SubscriptionRepository;
+    const lookup = createSubscriptionRepositoryLookup(repository);
+
+    await expect(lookup('user-1', '42')).resolves.toMatchObject({ id: 'sub-1' });
+    expect(repository.findActiveByUserAndApi).toHaveBeenCalledWith('user-1', 42);
+  });
+
+  it('treats non-numeric registry ids as unmetered', async () => {
+    const repository = { findActiveByUserAndApi: jest.fn() } as unknown as SubscriptionRepository;
+    const lookup = createSubscriptionRepositoryLookup(repository);
+
+    await expect(lookup('user-1', 'api_weather')).resolves.toBeUndefined();
+    expect(repository.findActiveByUserAndApi).not.toHaveBeenCalled();
+  });
+});
+
+describe('PostgresMeteringCounterStore', () => {
+  it('shares counters across instances backed by the same database', async () => {
+    const pool = createPgMemPool();
+    const instanceA = new PostgresMeteringCounterStore(pool);
+    const instanceB = new PostgresMeteringCounterStore(pool);
+
+    await expect(instanceA.tryIncrement('sub-1', '2026-05', 2)).resolves.toEqual({ allowed: true, used: 1 });
+    await expect(instanceB.tryIncrement('sub-1', '2026-05', 2)).resolves.toEqual({ allowed: true, used: 2 });
+    await expect(instanceA.tryIncrement('sub-1', '2026-05', 2)).resolves.toEqual({ allowed: false, used: 2 });
+  });
+
+  it('keeps separate counters per period', async () => {
+    const store = new PostgresMeteringCounterStore(createPgMemPool());
+
+    await store.tryIncrement('sub-1', '2026-05', 1);
+    await expect(store.tryIncrement('sub-1', '2026-06', 1)).resolves.toEqual({ allowed: true, used: 1 });
+  });
+
+  it('decrements without going below zero', async () => {
+    const store = new PostgresMeteringCounterStore(createPgMemPool());
+
+    await store.tryIncrement('sub-1', '2026-05', 1);
+    await store.decrement('sub-1', '2026-05');
+    await store.decrement('sub-1', '2026-05');
+
+    await expect(store.tryIncrement('sub-1', '2026-05', 1)).resolves.toEqual({ allowed: true, used: 1 });
+  });
+
+  it('rejects unsafe table names', () => {
+    expect(
+      () => new PostgresMeteringCounterStore(createPgMemPool(), { tableName: 'counters;DROP TABLE users' }),
+    ).toThrow('Metering tableName must contain only letters, numbers, and underscores.');
+  });
+});
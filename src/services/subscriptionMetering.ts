@@ -0,0 +1,400 @@
+/**
+ * subscriptionMetering.ts
+ *
+ * Enforces `subscriptions.metering_limit` — the maximum number of calls a
+ * subscription may make per calendar month (UTC) — on the gateway hot path.
+ *
+ * Each call reserves one unit of the monthly allowance before it is proxied.
+ * Calls that end up not being billed (upstream failure, non-recordable status,
+ * client abort) release their reservation, so the counter tracks billed calls.
+ *
+ * Counters live in a {@link MeteringCounterStore}. The in-memory store is only
+ * correct for a single instance; `METERING_STORE=postgres` keeps one row per
+ * subscription and month, locked for the check-and-increment, so every gateway
+ * instance shares one counter.
+ */
+
+import { TooManyRequestsError } from '../errors/index.js';
+import { logger } from '../logger.js';
+import type {
+  PersistentRateLimiterClient,
+  PersistentRateLimiterPool,
+} from './rateLimiter.js';
+import type { SubscriptionRepository } from '../repositories/subscriptionRepository.js';
+
+export const METERING_LIMIT_HEADER = 'X-Callora-Metering-Limit';
+export const METERING_REMAINING_HEADER = 'X-Callora-Metering-Remaining';
+export const METERING_RESET_HEADER = 'X-Callora-Metering-Reset';
+
+const DEFAULT_PERSISTENT_TABLE = 'subscription_metering_counters';
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+// ---------------------------------------------------------------------------
+// Periods
+// ---------------------------------------------------------------------------
+
+export interface MeteringPeriod {
+  /** `YYYY-MM` in UTC — the counter bucket for the month. */
+  key: string;
+  /** Start of the next calendar month (UTC). */
+  resetAt: Date;
+}
+
+export function currentMeteringPeriod(now: Date): MeteringPeriod {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  return {
+    key: `${year}-${String(month + 1).padStart(2, '0')}`,
+    resetAt: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Counter stores
+// ---------------------------------------------------------------------------
+
+export interface MeteringIncrementResult {
+  allowed: boolean;
+  /** Calls counted in the period after this attempt. */
+  used: number;
+}
+
+/**
+ * Per-period call counters. `key` is opaque to the store — the subscription
+ * id for metering, `user:api:endpoint` for tiered pricing.
+ */
+export interface MeteringCounterStore {
+  /** Atomically count one call unless the period total has reached `limit`. */
+  tryIncrement(key: string, period: string, limit: number): Promise<MeteringIncrementResult>;
+  /** Give back one previously counted call. Never goes below zero. */
+  decrement(key: string, period: string): Promise<void>;
+}
+
+export class InMemoryMeteringCounterStore implements MeteringCounterStore {
+  private readonly counters = new Map<string, number>();
+
+  async tryIncrement(key: string, period: string, limit: number): Promise<MeteringIncrementResult> {
+    const counterKey = `${key}:${period}`;
+    const used = this.counters.get(counterKey) ?? 0;
+    if (used >= limit) {
+      return { allowed: false, used };
+    }
+    this.counters.set(counterKey, used + 1);
+    return { allowed: true, used: used + 1 };
+  }
+
+  async decrement(key: string, period: string): Promise<void> {
+    const counterKey = `${key}:${period}`;
+    const used = this.counters.get(counterKey) ?? 0;
+    if (used > 0) {
+      this.counters.set(counterKey, used - 1);
+    }
+  }
+
+  /** Helper for tests — read the current count. */
+  get(key: string, period: string): number {
+    return this.counters.get(`${key}:${period}`) ?? 0;
+  }
+
+  /** Helper for tests — reset all counters. */
+  reset(): void {
+    this.counters.clear();
+  }
+}
+
+export interface PostgresMeteringCounterStoreOptions {
+  tableName?: string;
+}
+
+type CounterRow = { calls: number | string };
+
+async function rollbackQuietly(client: PersistentRateLimiterClient): Promise<void> {
+  try {
+    await client.query('ROLLBACK');
+  } catch {
+    // Ignore rollback errors so we surface the original failure.
+  }
+}
+
+export class PostgresMeteringCounterStore implements MeteringCounterStore {
+  private readonly tableName: string;
+  private tableReadyPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly pool: PersistentRateLimiterPool,
+    options: PostgresMeteringCounterStoreOptions = {},
+  ) {
+    const tableName = options.tableName ?? DEFAULT_PERSISTENT_TABLE;
+    if (!TABLE_NAME_PATTERN.test(tableName)) {
+      throw new Error(
+        'Metering tableName must contain only letters, numbers, and underscores.',
+      );
+    }
+    this.tableName = tableName;
+  }
+
+  async tryIncrement(key: string, period: string, limit: number): Promise<MeteringIncrementResult> {
+    await this.ensureTable();
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `INSERT INTO ${this.tableName} (counter_key, period, calls)
+         VALUES ($1, $2, 0)
+         ON CONFLICT (counter_key, period) DO NOTHING`,
+        [key, period],
+      );
+
+      // The row lock serialises concurrent gateway instances, so the count
+      // can never be pushed past `limit`.
+      const existing = await client.query<CounterRow>(
+        `SELECT calls FROM ${this.tableName}
+         WHERE counter_key = $1 AND period = $2
+         FOR UPDATE`,
+        [key, period],
+      );
+
+      const used = Number(existing.rows[0]?.calls ?? 0);
+      if (used >= limit) {
+        await client.query('COMMIT');
+        return { allowed: false, used };
+      }
+
+      await client.query(
+        `UPDATE ${this.tableName}
+         SET calls = calls + 1, updated_at = NOW()
+         WHERE counter_key = $1 AND period = $2`,
+        [key, period],
+      );
+
+      await client.query('COMMIT');
+      return { allowed: true, used: used + 1 };
+    } catch (error) {
+      await rollbackQuietly(client);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async decrement(key: string, period: string): Promise<void> {
+    await this.ensureTable();
+
+    await this.withClient((client) =>
+      client.query(
+        `UPDATE ${this.tableName}
+         SET calls = calls - 1, updated_at = NOW()
+         WHERE counter_key = $1 AND period = $2 AND calls > 0`,
+        [key, period],
+      ),
+    );
+  }
+
+  private async withClient<T>(fn: (client: PersistentRateLimiterClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await fn(client);
+    } finally {
+      client.release();
+    }
+  }
+
+  private async ensureTable(): Promise<void> {
+    if (!this.tableReadyPromise) {
+      this.tableReadyPromise = this.createTableIfNeeded().catch((error) => {
+        this.tableReadyPromise = null;
+        throw error;
+      });
+    }
+
+    await this.tableReadyPromise;
+  }
+
+  private async createTableIfNeeded(): Promise<void> {
+    await this.withClient(async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          counter_key TEXT NOT NULL,
+          period TEXT NOT NULL,
+          calls INTEGER NOT NULL CHECK (calls >= 0),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (counter_key, period)
+        )
+      `);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Subscription lookup
+// ---------------------------------------------------------------------------
+
+export interface MeteredSubscription {
+  id: string;
+  /** Maximum calls per calendar month. NULL means unlimited. */
+  metering_limit: number | null;
+}
+
+/** Resolve the consumer's active subscription to a gateway API, if any. */
+export type SubscriptionLookup = (
+  userId: string,
+  apiId: string,
+) => Promise<MeteredSubscription | undefined>;
+
+/**
+ * Adapt {@link SubscriptionRepository} to the gateway. Subscriptions reference
+ * the numeric `apis.id`, so registry entries with non-numeric ids are unmetered.
+ */
+export function createSubscriptionRepositoryLookup(
+  repository: SubscriptionRepository,
+): SubscriptionLookup {
+  return async (userId, apiId) => {
+    const numericApiId = Number(apiId);
+    if (!Number.isInteger(numericApiId) || numericApiId <= 0) {
+      return undefined;
+    }
+    return repository.findActiveByUserAndApi(userId, numericApiId);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Meter
+// ---------------------------------------------------------------------------
+
+export type MeteringAdmission =
+  | { metered: false }
+  | {
+      metered: true;
+      allowed: boolean;
+      subscriptionId: string;
+      limit: number;
+      remaining: number;
+      resetAt: Date;
+      /** Milliseconds until the allowance resets. */
+      retryAfterMs: number;
+      /**
+       * Return the reserved call to the allowance. Idempotent, and a no-op
+       * for rejected admissions.
+       */
+      release(): Promise<void>;
+    };
+
+export interface SubscriptionMeterOptions {
+  store: MeteringCounterStore;
+  lookup: SubscriptionLookup;
+  now?: () => Date;
+}
+
+export class SubscriptionMeter {
+  private readonly store: MeteringCounterStore;
+  private readonly lookup: SubscriptionLookup;
+  private readonly now: () => Date;
+
+  constructor(options: SubscriptionMeterOptions) {
+    this.store = options.store;
+    this.lookup = options.lookup;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Reserve one call of the subscription's monthly allowance. */
+  async admit(userId: string, apiId: string): Promise<MeteringAdmission> {
+    const subscription = await this.lookup(userId, apiId);
+    if (!subscription || subscription.metering_limit == null) {
+      return { metered: false };
+    }
+
+    const limit = Math.max(0, subscription.metering_limit);
+    const now = this.now();
+    const period = currentMeteringPeriod(now);
+    const result = limit > 0
+      ? await this.store.tryIncrement(subscription.id, period.key, limit)
+      : { allowed: false, used: 0 };
+
+    let released = !result.allowed;
+    const store = this.store;
+    return {
+      metered: true,
+      allowed: result.allowed,
+      subscriptionId: subscription.id,
+      limit,
+      remaining: Math.max(0, limit - result.used),
+      resetAt: period.resetAt,
+      retryAfterMs: Math.max(0, period.resetAt.getTime() - now.getTime()),
+      async release() {
+        if (released) return;
+        released = true;
+        try {
+          await store.decrement(subscription.id, period.key);
+        } catch (error) {
+          logger.error('[subscriptionMetering] Failed to release metered call', {
+            subscriptionId: subscription.id,
+            period: period.key,
+            error,
+          });
+        }
+      },
+    };
+  }
+}
+
+/** Response headers describing the caller's remaining monthly allowance. */
+export function meteringHeaders(admission: MeteringAdmission): Record<string, string> {
+  if (!admission.metered) return {};
+  return {
+    [METERING_LIMIT_HEADER]: String(admission.limit),
+    [METERING_REMAINING_HEADER]: String(admission.remaining),
+    [METERING_RESET_HEADER]: admission.resetAt.toISOString(),
+  };
+}
+
+/**
+ * The error for a call rejected by the meter. Callers must also set the
+ * `Retry-After` header from {@link meteringRetryAfterSeconds}.
+ */
+export function meteringLimitExceededError(): TooManyRequestsError {
+  return new TooManyRequestsError(
+    'Monthly call allowance for this subscription is exhausted',
+    'METERING_LIMIT_EXCEEDED',
+  );
+}
+
+export function meteringRetryAfterSeconds(admission: MeteringAdmission): number {
+  return admission.metered ? Math.max(1, Math.ceil(admission.retryAfterMs / 1000)) : 1;
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface AppMeteringConfig {
+  store: 'memory' | 'postgres';
+  postgresTable: string;
+}
+
+export function createConfiguredSubscriptionMeter(
+  config: AppMeteringConfig,
+  subscriptionRepository: SubscriptionRepository,
+  persistentPool?: PersistentRateLimiterPool,
+): SubscriptionMeter {
+  let store: MeteringCounterStore;
+  if (config.store === 'postgres') {
+    if (!persistentPool) {
+      throw new Error(
+        'A PostgreSQL pool is required when METERING_STORE is set to "postgres".',
+      );
+    }
+    store = new PostgresMeteringCounterStore(persistentPool, {
+      tableName: config.postgresTable,
+    });
+  } else {
+    store = new InMemoryMeteringCounterStore();
+  }
+
+  return new SubscriptionMeter({
+    store,
+    lookup: createSubscriptionRepositoryLookup(subscriptionRepository),
+  });
+}
@@ -0,0 +1,51 @@
+import {
+  decodeBase32,
+  encodeBase32,
+  matchTotp,
+  totpCode,
+  totpProvisioningUri,
+  totpStep,
+} from './totp.js';
+
+// The RFC 6238 appendix B SHA-1 secret, "12345678901234567890".
+const RFC_SECRET = encodeBase32(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(decodeBase32(RFC_SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+    expect(() => decodeBase32('not base32!')).toThrow('Invalid base32 character');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    // The RFC lists eight digits; authenticators show the last six.
+    expect(totpCode(RFC_SECRET, totpStep(new Date(59_000)))).toBe('287082');
+    expect(totpCode(RFC_SECRET, totpStep(new Date(1_111_111_109_000)))).toBe('081804');
+    expect(totpCode(RFC_SECRET, totpStep(new Date(1_234_567_890_000)))).toBe('005924');
+    expect(totpCode(RFC_SECRET, totpStep(new Date(2_000_000_000_000)))).toBe('279037');
+  });
+
+  it('accepts codes one step either side of now', () => {
+    const now = new Date(1_234_567_890_000);
+    const step = totpStep(now);
+
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(matchTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    const uri = new URL(totpProvisioningUri({ secret: RFC_SECRET, issuer: 'Callora', account: 'dev@example.com' }));
+
+    expect(`${uri.protocol}//${uri.host}`).toBe('otpauth://totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Callora:dev@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Callora',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
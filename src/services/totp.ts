@@ -0,0 +1,99 @@
+/**
+ * Time-based one-time passwords (RFC 6238) as produced by authenticator apps
+ * such as Google Authenticator, 1Password and Authy: HMAC-SHA1, six digits,
+ * 30-second steps. Secrets are exchanged in base32 (RFC 4648, unpadded).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function encodeBase32(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+/** Decodes base32, ignoring case, spaces and padding. Throws on other characters. */
+export function decodeBase32(encoded: string): Buffer {
+  const clean = encoded.replace(/[\s=]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new random secret, 160 bits as RFC 4226 recommends. */
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(20));
+}
+
+/** The time step `now` falls in. */
+export function totpStep(now: Date): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/** The code for one time step. */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The step whose code matches, looking `window` steps either side of `now` to
+ * allow for clock drift, or null when none does. Callers record the step so
+ * the same code cannot be used twice.
+ */
+export function matchTotp(secret: string, code: string, now: Date, window = 1): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const current = totpStep(now);
+  for (let step = current - window; step <= current + window; step += 1) {
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+/**
+ * The `otpauth://` URI authenticator apps scan from a QR code.
+ * See https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function totpProvisioningUri(options: { secret: string; issuer: string; account: string }): string {
+  const label = `${encodeURIComponent(options.issuer)}:${encodeURIComponent(options.account)}`;
+  const params = new URLSearchParams({
+    secret: options.secret,
+    issuer: options.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
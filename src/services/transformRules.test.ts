@@ -0,0 +1,109 @@
+import {
+  errorMappingFor,
+  InMemoryTransformRuleStore,
+  mappedErrorResponse,
+  TransformRuleService,
+  transformRequest,
+  transformResponseHeaders,
+  type ResponseTransformRule,
+} from './transformRules.js';
+
+describe('transformRequest', () => {
+  it('applies path, query and header rules in order', () => {
+    const result = transformRequest(
+      [
+        { type: 'rewrite_path', from: '/v1', to: '/api/v2' },
+        { type: 'rewrite_path', from: '/api/v2/legacy', to: '/api/v2/current' },
+        { type: 'set_query', name: 'format', value: 'json' },
+        { type: 'rename_header', from: 'x-client', to: 'x-origin-client' },
+        { type: 'set_header', name: 'x-tenant', value: 'callora' },
+        { type: 'remove_header', name: 'x-debug' },
+      ],
+      {
+        path: 'v1/legacy/items',
+        query: {},
+        headers: { 'X-Client': 'web', 'x-debug': '1', accept: 'application/json' },
+      },
+    );
+
+    expect(result).toEqual({
+      path: '/api/v2/current/items',
+      query: { format: 'json' },
+      headers: { 'x-origin-client': 'web', 'x-tenant': 'callora', accept: 'application/json' },
+    });
+  });
+
+  it('only rewrites whole leading path segments', () => {
+    const rules = [{ type: 'rewrite_path' as const, from: '/v1', to: '/' }];
+
+    expect(transformRequest(rules, { path: '/v1', query: {}, headers: {} }).path).toBe('/');
+    expect(transformRequest(rules, { path: '/v1/items', query: {}, headers: {} }).path).toBe('/items');
+    expect(transformRequest(rules, { path: '/v10/items', query: {}, headers: {} }).path).toBe('/v10/items');
+  });
+});
+
+describe('response rules', () => {
+  const rules: ResponseTransformRule[] = [
+    { type: 'remove_header', name: 'x-internal-host' },
+    { type: 'map_error', upstreamStatus: '5xx', code: 'FORECAST_UNAVAILABLE', message: 'Forecasts are unavailable' },
+    { type: 'map_error', upstreamStatus: 503, code: 'FORECAST_MAINTENANCE', message: 'Down for maintenance', status: 502 },
+  ];
+
+  it('transforms headers and ignores error mappings', () => {
+    expect(transformResponseHeaders(rules, { 'X-Internal-Host': 'db-1', 'content-type': 'text/plain' }))
+      .toEqual({ 'content-type': 'text/plain' });
+  });
+
+  it('prefers an exact status mapping over a class mapping', () => {
+    expect(errorMappingFor(rules, 503)?.code).toBe('FORECAST_MAINTENANCE');
+    expect(errorMappingFor(rules, 500)?.code).toBe('FORECAST_UNAVAILABLE');
+    expect(errorMappingFor(rules, 404)).toBeNull();
+  });
+
+  it('builds the Callora error envelope', () => {
+    const mapped = mappedErrorResponse(errorMappingFor(rules, 503)!, 503, 'req-1');
+
+    expect(mapped.status).toBe(502);
+    expect(mapped.body).toMatchObject({
+      success: false,
+      error: { code: 'FORECAST_MAINTENANCE', message: 'Down for maintenance' },
+      requestId: 'req-1',
+    });
+  });
+});
+
+describe('TransformRuleService', () => {
+  let service: TransformRuleService;
+
+  beforeEach(() => {
+    service = new TransformRuleService(new InMemoryTransformRuleStore());
+  });
+
+  it('saves each change as the next version', async () => {
+    await expect(service.current('1')).resolves.toBeNull();
+
+    await service.save('1', { request: [{ type: 'set_query', name: 'a', value: '1' }], response: [] }, 'owner');
+    const second = await service.save('1', { request: [], response: [] }, 'owner', { baseVersion: 1 });
+
+    expect(second.version).toBe(2);
+    await expect(service.current('1')).resolves.toMatchObject({ version: 2, request: [] });
+    expect((await service.listVersions('1')).map((set) => set.version)).toEqual([2, 1]);
+  });
+
+  it('rejects a save based on an outdated version', async () => {
+    await service.save('1', { request: [], response: [] }, 'owner');
+
+    await expect(service.save('1', { request: [], response: [] }, 'owner', { baseVersion: 0 }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'TRANSFORM_RULES_VERSION_CONFLICT' });
+  });
+
+  it('rolls back by saving an earlier version again', async () => {
+    await service.save('1', { request: [{ type: 'set_query', name: 'a', value: '1' }], response: [] }, 'owner');
+    await service.save('1', { request: [], response: [] }, 'owner');
+
+    const rolledBack = await service.rollback('1', 1, 'owner');
+
+    expect(rolledBack).toMatchObject({ version: 3, request: [{ type: 'set_query', name: 'a', value: '1' }] });
+    await expect(service.rollback('1', 9, 'owner')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
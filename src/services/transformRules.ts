@@ -0,0 +1,306 @@
+/**
+ * transformRules.ts
+ *
+ * Declarative request/response transformation rules per API. Providers use
+ * them to adapt the public contract to their origin without code:
+ *
+ *   request  — rename, set or remove headers, rewrite the path prefix, add
+ *              static query parameters; applied before the call is forwarded
+ *   response — rename, set or remove headers, and replace upstream error
+ *              bodies with a Callora error envelope; applied before the
+ *              response is streamed back
+ *
+ * Rules run in the order they are listed, each on the result of the last.
+ * Every save creates a new version of the API's rule set; the latest is the
+ * one the gateway applies, and older ones are kept for review and rollback.
+ * The provider-managed upstream credential is injected after the request
+ * rules, so a rule can never replace it.
+ */
+
+import { ConflictError, NotFoundError } from '../errors/index.js';
+import { buildErrorEnvelope } from '../middleware/envelope.js';
+import type { ErrorEnvelope } from '../types/ResponseEnvelope.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Most rules a rule set can hold per direction. */
+export const MAX_TRANSFORM_RULES = 50;
+
+type HeaderRule =
+  | { type: 'rename_header'; from: string; to: string }
+  | { type: 'set_header'; name: string; value: string }
+  | { type: 'remove_header'; name: string };
+
+export type RequestTransformRule =
+  | HeaderRule
+  /** Replaces the leading `from` segments of the path with `to`. */
+  | { type: 'rewrite_path'; from: string; to: string }
+  | { type: 'set_query'; name: string; value: string };
+
+/** Matches an upstream status exactly, or a whole class of them. */
+export type UpstreamStatusMatch = number | '4xx' | '5xx';
+
+export type ResponseTransformRule =
+  | HeaderRule
+  /**
+   * Replaces the body of a matching upstream error with a Callora error
+   * envelope carrying `code` and `message`, sent with `status` when set and
+   * the upstream's status otherwise.
+   */
+  | { type: 'map_error'; upstreamStatus: UpstreamStatusMatch; code: string; message: string; status?: number };
+
+export type MapErrorRule = Extract<ResponseTransformRule, { type: 'map_error' }>;
+
+export interface TransformRules {
+  request: RequestTransformRule[];
+  response: ResponseTransformRule[];
+}
+
+/** One saved version of an API's rules. */
+export interface TransformRuleSet extends TransformRules {
+  apiId: string;
+  /** 1 for the first save, one more for each later one. */
+  version: number;
+  createdAt: string;
+  createdBy: string;
+}
+
+/** The parts of a call the request rules can change. */
+export interface TransformableRequest {
+  /** The path after the API slug, with a leading `/`. */
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+/**
+ * Minimal persistence abstraction — swap the in-memory implementation for a
+ * Postgres adapter (see migrations/0033_api_transform_rules.sql) without
+ * touching service logic.
+ */
+export interface TransformRuleStore {
+  latest(apiId: string): Promise<TransformRuleSet | null>;
+  get(apiId: string, version: number): Promise<TransformRuleSet | null>;
+  /** Every version, newest first. */
+  list(apiId: string): Promise<TransformRuleSet[]>;
+  /** Resolves false when `record.version` already exists. */
+  append(record: TransformRuleSet): Promise<boolean>;
+}
+
+export class InMemoryTransformRuleStore implements TransformRuleStore {
+  private readonly versions = new Map<string, TransformRuleSet[]>();
+
+  async latest(apiId: string): Promise<TransformRuleSet | null> {
+    const versions = this.versions.get(apiId);
+    return versions?.length ? structuredClone(versions[versions.length - 1]) : null;
+  }
+
+  async get(apiId: string, version: number): Promise<TransformRuleSet | null> {
+    const record = this.versions.get(apiId)?.find((candidate) => candidate.version === version);
+    return record ? structuredClone(record) : null;
+  }
+
+  async list(apiId: string): Promise<TransformRuleSet[]> {
+    return structuredClone([...(this.versions.get(apiId) ?? [])].reverse());
+  }
+
+  async append(record: TransformRuleSet): Promise<boolean> {
+    const versions = this.versions.get(record.apiId) ?? [];
+    if (versions.some((candidate) => candidate.version === record.version)) return false;
+    this.versions.set(record.apiId, [...versions, structuredClone(record)]);
+    return true;
+  }
+
+  clear(): void {
+    this.versions.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Applying rules
+// ---------------------------------------------------------------------------
+
+function applyHeaderRule(rule: HeaderRule, headers: Record<string, string>): void {
+  switch (rule.type) {
+    case 'rename_header': {
+      const value = headers[rule.from];
+      if (value === undefined) return;
+      delete headers[rule.from];
+      headers[rule.to] = value;
+      return;
+    }
+    case 'set_header':
+      headers[rule.name] = rule.value;
+      return;
+    case 'remove_header':
+      delete headers[rule.name];
+      return;
+  }
+}
+
+function lowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+/** `path` with its leading `from` segments replaced by `to`, or null when it does not start with them. */
+function rewritePathPrefix(path: string, from: string, to: string): string | null {
+  const prefix = from.replace(/\/+$/, '');
+  if (path !== prefix && !path.startsWith(`${prefix}/`)) return null;
+  const rest = path.slice(prefix.length);
+  const rewritten = `${to.replace(/\/+$/, '')}${rest}`;
+  return rewritten.startsWith('/') ? rewritten : `/${rewritten}`;
+}
+
+/** The call as it is sent upstream. Header names are matched case-insensitively and returned lower-case. */
+export function transformRequest(
+  rules: RequestTransformRule[],
+  request: TransformableRequest,
+): TransformableRequest {
+  let path = request.path.startsWith('/') ? request.path : `/${request.path}`;
+  const query = { ...request.query };
+  const headers = lowerCaseKeys(request.headers);
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'rewrite_path':
+        path = rewritePathPrefix(path, rule.from, rule.to) ?? path;
+        break;
+      case 'set_query':
+        query[rule.name] = rule.value;
+        break;
+      default:
+        applyHeaderRule(rule, headers);
+    }
+  }
+  return { path, query, headers };
+}
+
+/** The upstream's response headers as they are sent back. Names are returned lower-case. */
+export function transformResponseHeaders(
+  rules: ResponseTransformRule[],
+  headers: Record<string, string>,
+): Record<string, string> {
+  const transformed = lowerCaseKeys(headers);
+  for (const rule of rules) {
+    if (rule.type !== 'map_error') applyHeaderRule(rule, transformed);
+  }
+  return transformed;
+}
+
+function statusMatches(match: UpstreamStatusMatch, status: number): boolean {
+  if (match === '4xx') return status >= 400 && status < 500;
+  if (match === '5xx') return status >= 500 && status < 600;
+  return match === status;
+}
+
+/**
+ * The first `map_error` rule for an upstream status, preferring a rule for
+ * the exact status over one for its class.
+ */
+export function errorMappingFor(rules: ResponseTransformRule[], status: number): MapErrorRule | null {
+  const mappings = rules.filter((rule): rule is MapErrorRule => rule.type === 'map_error');
+  return mappings.find((rule) => rule.upstreamStatus === status)
+    ?? mappings.find((rule) => statusMatches(rule.upstreamStatus, status))
+    ?? null;
+}
+
+/** The response a `map_error` rule sends in place of the upstream's error. */
+export function mappedErrorResponse(
+  rule: MapErrorRule,
+  upstreamStatus: number,
+  requestId: string,
+): { status: number; body: ErrorEnvelope } {
+  return {
+    status: rule.status ?? upstreamStatus,
+    body: buildErrorEnvelope(rule.code, rule.message, requestId),
+  };
+}
+
+export function transformRulesVersionConflictError(): ConflictError {
+  return new ConflictError(
+    'The transform rules have changed since they were read; reload them and try again',
+    'TRANSFORM_RULES_VERSION_CONFLICT',
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export interface TransformRuleServiceOptions {
+  now?: () => Date;
+}
+
+export interface SaveTransformRulesOptions {
+  /**
+   * The version the change was made against. The save fails with
+   * `409 TRANSFORM_RULES_VERSION_CONFLICT` when another version has been
+   * saved since. 0 means the API had no rules yet.
+   */
+  baseVersion?: number;
+}
+
+export class TransformRuleService {
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly store: TransformRuleStore,
+    options: TransformRuleServiceOptions = {},
+  ) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** The rules the gateway applies to the API's calls, or null when it has none. */
+  async current(apiId: string): Promise<TransformRuleSet | null> {
+    return this.store.latest(apiId);
+  }
+
+  async getVersion(apiId: string, version: number): Promise<TransformRuleSet> {
+    const record = await this.store.get(apiId, version);
+    if (!record) throw new NotFoundError(`Transform rules version ${version} not found`);
+    return record;
+  }
+
+  /** Every saved version, newest first. */
+  async listVersions(apiId: string): Promise<TransformRuleSet[]> {
+    return this.store.list(apiId);
+  }
+
+  /** Saves `rules` as the API's next version, which takes effect immediately. */
+  async save(
+    apiId: string,
+    rules: TransformRules,
+    actor: string,
+    options: SaveTransformRulesOptions = {},
+  ): Promise<TransformRuleSet> {
+    const currentVersion = (await this.store.latest(apiId))?.version ?? 0;
+    if (options.baseVersion !== undefined && options.baseVersion !== currentVersion) {
+      throw transformRulesVersionConflictError();
+    }
+
+    const record: TransformRuleSet = {
+      apiId,
+      version: currentVersion + 1,
+      request: rules.request,
+      response: rules.response,
+      createdAt: this.now().toISOString(),
+      createdBy: actor,
+    };
+    // Two saves racing for the same version: the second loses.
+    if (!(await this.store.append(record))) {
+      throw transformRulesVersionConflictError();
+    }
+    return record;
+  }
+
+  /** Saves a copy of an earlier version's rules as the next version. */
+  async rollback(apiId: string, version: number, actor: string): Promise<TransformRuleSet> {
+    const target = await this.getVersion(apiId, version);
+    return this.save(apiId, { request: target.request, response: target.response }, actor);
+  }
+}
+
+/** Shared singleton used by the proxy and the provider routes. */
+export const defaultTransformRuleService = new TransformRuleService(new InMemoryTransformRuleStore());
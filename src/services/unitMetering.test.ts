@@ -0,0 +1,46 @@
+import {
+  isUnitPriced,
+  maxCallChargeUsdc,
+  parseReportedUnits,
+  unitChargeUsdc,
+  unitsHeaderOf,
+} from './unitMetering.js';
+import type { EndpointPricing, UnitPricing } from '../types/gateway.js';
+
+const tokens: UnitPricing = { priceUsdc: 0.000002, maxUnitsPerCall: 8000 };
+
+describe('unit pricing', () => {
+  it('only treats endpoints with unitPricing as unit-priced', () => {
+    const flat: EndpointPricing = { endpointId: 'ep', path: '*', priceUsdc: 1 };
+    expect(isUnitPriced(flat)).toBe(false);
+    expect(isUnitPriced({ ...flat, unitPricing: tokens })).toBe(true);
+  });
+
+  it('defaults the units header', () => {
+    expect(unitsHeaderOf(tokens)).toBe('X-Callora-Units');
+    expect(unitsHeaderOf({ ...tokens, header: 'X-Tokens-Used' })).toBe('X-Tokens-Used');
+  });
+
+  it('prices units and the maximum charge to USDC precision', () => {
+    expect(unitChargeUsdc(tokens, 1532)).toBe(0.003064);
+    expect(maxCallChargeUsdc(tokens)).toBe(0.016);
+  });
+});
+
+describe('parseReportedUnits', () => {
+  it('accepts non-negative integers', () => {
+    expect(parseReportedUnits('1532', tokens)).toBe(1532);
+    expect(parseReportedUnits(' 0 ', tokens)).toBe(0);
+  });
+
+  it('bills zero units for a missing or malformed header', () => {
+    expect(parseReportedUnits(null, tokens)).toBe(0);
+    expect(parseReportedUnits('-5', tokens)).toBe(0);
+    expect(parseReportedUnits('1.5', tokens)).toBe(0);
+    expect(parseReportedUnits('lots', tokens)).toBe(0);
+  });
+
+  it('caps the count at maxUnitsPerCall', () => {
+    expect(parseReportedUnits('9000', tokens)).toBe(8000);
+  });
+});
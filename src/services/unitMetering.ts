@@ -0,0 +1,83 @@
+/**
+ * unitMetering.ts
+ *
+ * Prices proxied calls by compute units reported by the upstream. An endpoint
+ * with {@link UnitPricing} is charged `units × priceUsdc`, where `units` is
+ * read from a trusted upstream response header (`X-Callora-Units` by default)
+ * and capped at `maxUnitsPerCall`.
+ *
+ * Because the charge is only known once the upstream has answered, the
+ * balance hold placed before the call (see balanceHolds.ts) is sized to
+ * {@link maxCallChargeUsdc}, the most the call can cost.
+ */
+
+import { logger } from '../logger.js';
+import type { EndpointPricing, UnitPricing } from '../types/gateway.js';
+
+export const UNITS_HEADER = 'X-Callora-Units';
+
+/** USDC has 7 decimal places on Stellar. */
+const USDC_SCALE = 1e7;
+
+function roundUsdc(amount: number): number {
+  return Math.round(amount * USDC_SCALE) / USDC_SCALE;
+}
+
+// ---------------------------------------------------------------------------
+// Unit pricing
+// ---------------------------------------------------------------------------
+
+export function isUnitPriced(
+  endpoint: EndpointPricing,
+): endpoint is EndpointPricing & { unitPricing: UnitPricing } {
+  return endpoint.unitPricing !== undefined;
+}
+
+/** Name of the response header the upstream reports units in. */
+export function unitsHeaderOf(unitPricing: UnitPricing): string {
+  return unitPricing.header ?? UNITS_HEADER;
+}
+
+/** The most one call can cost — the size of its pre-authorisation hold. */
+export function maxCallChargeUsdc(unitPricing: UnitPricing): number {
+  return roundUsdc(unitPricing.maxUnitsPerCall * unitPricing.priceUsdc);
+}
+
+/** Charge for `units` units, which must already be capped. */
+export function unitChargeUsdc(unitPricing: UnitPricing, units: number): number {
+  return roundUsdc(units * unitPricing.priceUsdc);
+}
+
+/**
+ * Parse the unit count reported by the upstream. A missing or malformed
+ * header bills zero units; counts above `maxUnitsPerCall` are capped so a
+ * call never costs more than was pre-authorised.
+ */
+export function parseReportedUnits(
+  value: string | null,
+  unitPricing: UnitPricing,
+  context: Record<string, unknown> = {},
+): number {
+  const header = unitsHeaderOf(unitPricing);
+  const trimmed = value?.trim() ?? '';
+  if (!/^\d+$/.test(trimmed)) {
+    logger.warn('[unitMetering] Upstream did not report a valid unit count; billing zero units', {
+      ...context,
+      header,
+      value,
+    });
+    return 0;
+  }
+
+  const units = Number(trimmed);
+  if (units > unitPricing.maxUnitsPerCall) {
+    logger.warn('[unitMetering] Upstream reported more units than allowed per call; capping', {
+      ...context,
+      header,
+      units,
+      maxUnitsPerCall: unitPricing.maxUnitsPerCall,
+    });
+    return unitPricing.maxUnitsPerCall;
+  }
+  return units;
+}
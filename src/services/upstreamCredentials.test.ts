@@ -0,0 +1,214 @@
+import { newDb } from 'pg-mem';
+import {
+  applyUpstreamCredential,
+  createConfiguredUpstreamCredentialService,
+  InMemoryUpstreamCredentialStore,
+  PostgresUpstreamCredentialStore,
+  UpstreamCredentialService,
+  type UpstreamCredentialStore,
+} from './upstreamCredentials.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+import { deriveSecretBoxKey, openSecret, sealSecret } from '../lib/secretBox.js';
+import { computeSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../webhooks/webhook.signature.js';
+
+function createPgMemPool(): PersistentRateLimiterPool {
+  const { Pool } = newDb({ noAstCoverageCheck: true }).adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+describe('secretBox', () => {
+  const key = deriveSecretBoxKey('test-key');
+
+  it('round-trips a secret', () => {
+    const sealed = sealSecret('s3cr3t', key);
+    expect(sealed.startsWith('v1.')).toBe(true);
+    expect(sealed).not.toContain('s3cr3t');
+    expect(openSecret(sealed, key)).toBe('s3cr3t');
+  });
+
+  it('uses a fresh IV for every seal', () => {
+    expect(sealSecret('same', key)).not.toBe(sealSecret('same', key));
+  });
+
+  it('rejects a value sealed under a different key', () => {
+    const sealed = sealSecret('s3cr3t', deriveSecretBoxKey('other-key'));
+    expect(() => openSecret(sealed, key)).toThrow();
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const [v, iv, tag, ct] = sealSecret('s3cr3t', key).split('.');
+    const flipped = Buffer.from(ct, 'base64url');
+    flipped[0] ^= 0xff;
+    expect(() => openSecret([v, iv, tag, flipped.toString('base64url')].join('.'), key)).toThrow();
+  });
+
+  it('rejects an unknown format', () => {
+    expect(() => openSecret('plaintext', key)).toThrow('Unsupported sealed secret format');
+  });
+});
+
+describe.each([
+  ['InMemoryUpstreamCredentialStore', () => new InMemoryUpstreamCredentialStore()],
+  ['PostgresUpstreamCredentialStore', () => new PostgresUpstreamCredentialStore(createPgMemPool())],
+])('UpstreamCredentialService with %s', (_name, createStore: () => UpstreamCredentialStore) => {
+  let store: UpstreamCredentialStore;
+  let service: UpstreamCredentialService;
+  let clock: Date;
+
+  beforeEach(() => {
+    store = createStore();
+    clock = new Date('2026-01-01T00:00:00.000Z');
+    service = new UpstreamCredentialService(store, {
+      encryptionKey: 'test-key',
+      now: () => clock,
+    });
+  });
+
+  it('stores the secret sealed and returns a summary without it', async () => {
+    const { summary, created } = await service.set(
+      '42',
+      { type: 'header', headerName: 'X-Upstream-Key', value: 'hunter2' },
+      'user-1',
+    );
+
+    expect(created).toBe(true);
+    expect(summary).toEqual({
+      apiId: '42',
+      type: 'header',
+      name: 'x-upstream-key',
+      version: 1,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      rotatedAt: null,
+      updatedBy: 'user-1',
+    });
+    expect(JSON.stringify(summary)).not.toContain('hunter2');
+
+    const stored = await store.get('42');
+    expect(stored!.sealedSecret).not.toContain('hunter2');
+  });
+
+  it('resolves the plaintext credential for the proxy', async () => {
+    await service.set('42', { type: 'query', paramName: 'api_key', value: 'abc' }, 'user-1');
+    await expect(service.resolve('42')).resolves.toEqual({
+      type: 'query',
+      paramName: 'api_key',
+      value: 'abc',
+    });
+    await expect(service.resolve('missing')).resolves.toBeNull();
+  });
+
+  it('rotates the secret in place and bumps the version', async () => {
+    await service.set('42', { type: 'bearer', token: 'old' }, 'user-1');
+    clock = new Date('2026-02-01T00:00:00.000Z');
+
+    const summary = await service.rotate('42', 'new', 'user-2');
+
+    expect(summary.version).toBe(2);
+    expect(summary.createdAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(summary.rotatedAt).toBe('2026-02-01T00:00:00.000Z');
+    expect(summary.updatedBy).toBe('user-2');
+    await expect(service.resolve('42')).resolves.toEqual({ type: 'bearer', token: 'new' });
+  });
+
+  it('treats replacing an existing credential as a rotation', async () => {
+    await service.set('42', { type: 'bearer', token: 'old' }, 'user-1');
+    const { summary, created } = await service.set('42', { type: 'hmac', secret: 'k' }, 'user-1');
+
+    expect(created).toBe(false);
+    expect(summary.type).toBe('hmac');
+    expect(summary.version).toBe(2);
+  });
+
+  it('refuses to rotate a credential that does not exist', async () => {
+    await expect(service.rotate('42', 'new', 'user-1')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('cannot open credentials after the encryption key changes', async () => {
+    await service.set('42', { type: 'bearer', token: 'tok' }, 'user-1');
+    const rekeyed = new UpstreamCredentialService(store, { encryptionKey: 'rotated-key' });
+    await expect(rekeyed.resolve('42')).rejects.toThrow();
+  });
+
+  it('stops resolving a removed credential', async () => {
+    await service.set('42', { type: 'bearer', token: 'tok' }, 'user-1');
+
+    await expect(service.remove('42')).resolves.toBe(true);
+    await expect(service.remove('42')).resolves.toBe(false);
+    await expect(service.resolve('42')).resolves.toBeNull();
+  });
+});
+
+describe('PostgresUpstreamCredentialStore', () => {
+  it('shares credentials across instances backed by the same database', async () => {
+    const pool = createPgMemPool();
+    const providerRoutes = new UpstreamCredentialService(new PostgresUpstreamCredentialStore(pool), {
+      encryptionKey: 'test-key',
+    });
+    const proxy = new UpstreamCredentialService(new PostgresUpstreamCredentialStore(pool), {
+      encryptionKey: 'test-key',
+    });
+
+    await providerRoutes.set('42', { type: 'header', headerName: 'X-Upstream-Key', value: 'hunter2' }, 'user-1');
+
+    await expect(proxy.resolve('42')).resolves.toEqual({
+      type: 'header',
+      headerName: 'x-upstream-key',
+      value: 'hunter2',
+    });
+  });
+
+  it('rejects unsafe table names', () => {
+    expect(
+      () => new PostgresUpstreamCredentialStore(createPgMemPool(), { tableName: 'creds;DROP TABLE users' }),
+    ).toThrow('Upstream credential tableName must contain only letters, numbers, and underscores.');
+  });
+});
+
+describe('createConfiguredUpstreamCredentialService', () => {
+  it('requires a pool for the postgres store', () => {
+    expect(() => createConfiguredUpstreamCredentialService({
+      store: 'postgres',
+      postgresTable: 'api_upstream_credentials',
+      encryptionKey: 'test-key',
+    })).toThrow('A PostgreSQL pool is required when UPSTREAM_CREDENTIALS_STORE is set to "postgres".');
+  });
+});
+
+describe('applyUpstreamCredential', () => {
+  const url = 'https://upstream.example.com/v1/search?q=x';
+
+  it('sets a bearer Authorization header', () => {
+    const headers: Record<string, string> = {};
+    const result = applyUpstreamCredential({ type: 'bearer', token: 'tok' }, { method: 'GET', url, headers });
+    expect(result).toBe(url);
+    expect(headers.authorization).toBe('Bearer tok');
+  });
+
+  it('overwrites a same-named header supplied by the caller', () => {
+    const headers: Record<string, string> = { 'x-upstream-key': 'caller-value' };
+    applyUpstreamCredential(
+      { type: 'header', headerName: 'X-Upstream-Key', value: 'provider-value' },
+      { method: 'GET', url, headers },
+    );
+    expect(headers).toEqual({ 'x-upstream-key': 'provider-value' });
+  });
+
+  it('replaces a same-named query parameter supplied by the caller', () => {
+    const result = applyUpstreamCredential(
+      { type: 'query', paramName: 'q', value: 'provider' },
+      { method: 'GET', url, headers: {} },
+    );
+    expect(new URL(result).searchParams.getAll('q')).toEqual(['provider']);
+  });
+
+  it('signs the method and path with the webhook signature scheme', () => {
+    const headers: Record<string, string> = {};
+    const now = new Date('2026-01-01T00:00:00.000Z');
+    applyUpstreamCredential({ type: 'hmac', secret: 'shh' }, { method: 'post', url, headers }, now);
+
+    expect(headers[TIMESTAMP_HEADER]).toBe(now.toISOString());
+    expect(headers[SIGNATURE_HEADER]).toBe(
+      `sha256=${computeSignature('shh', now.toISOString(), 'POST /v1/search?q=x')}`,
+    );
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * upstreamCredentials.ts
+ *
+ * Provider-managed credentials that the gateway attaches to every proxied
+ * call, so providers can lock their origin down to Callora without ever
+ * sharing the secret with consumers.
+ *
+ * Supported credential types:
+ *   - `bearer`  — `Authorization: Bearer <token>`
+ *   - `header`  — a custom header, e.g. `X-Upstream-Key: <value>`
+ *   - `query`   — a query-string parameter appended to the upstream URL
+ *   - `hmac`    — `x-callora-timestamp` + `x-callora-signature-256` over
+ *                 `<timestamp>.<METHOD> <path?query>`, using the same scheme
+ *                 as outbound webhooks (see webhook.signature.ts)
+ *
+ * Security properties:
+ *   - Secrets are sealed with AES-256-GCM before they reach the store and are
+ *     only opened in-process when a call is proxied.
+ *   - Read paths return {@link UpstreamCredentialSummary}, which never carries
+ *     the secret — not even a masked fragment.
+ *   - Rotation replaces the secret in place and bumps `version`; the previous
+ *     secret is discarded immediately.
+ *
+ * The in-memory store is only correct for a single instance and loses every
+ * credential on restart; `UPSTREAM_CREDENTIALS_STORE=postgres` keeps them in
+ * the `api_upstream_credentials` table shared by every gateway instance.
+ */
+
+import { env } from '../config/env.js';
+import { NotFoundError } from '../errors/index.js';
+import { deriveSecretBoxKey, openSecret, sealSecret } from '../lib/secretBox.js';
+import {
+  computeSignature,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from '../webhooks/webhook.signature.js';
+import type {
+  PersistentRateLimiterClient,
+  PersistentRateLimiterPool,
+} from './rateLimiter.js';
+
+const DEFAULT_PERSISTENT_TABLE = 'api_upstream_credentials';
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type UpstreamCredentialType = 'bearer' | 'header' | 'query' | 'hmac';
+
+/** A credential as supplied by the provider, secret included. */
+export type UpstreamCredential =
+  | { type: 'bearer'; token: string }
+  | { type: 'header'; headerName: string; value: string }
+  | { type: 'query'; paramName: string; value: string }
+  | { type: 'hmac'; secret: string };
+
+/** Persisted representation — the secret is only ever stored sealed. */
+export interface StoredUpstreamCredential {
+  apiId: string;
+  type: UpstreamCredentialType;
+  /** Header or query-parameter name for `header` / `query`; null otherwise. */
+  name: string | null;
+  sealedSecret: string;
+  version: number;
+  createdAt: string;
+  rotatedAt: string | null;
+  updatedBy: string;
+}
+
+/** Safe-to-return view of a stored credential. */
+export interface UpstreamCredentialSummary {
+  apiId: string;
+  type: UpstreamCredentialType;
+  name: string | null;
+  version: number;
+  createdAt: string;
+  rotatedAt: string | null;
+  updatedBy: string;
+}
+
+/**
+ * Minimal persistence abstraction, implemented in memory and in Postgres
+ * (see migrations/0022_api_upstream_credentials.sql).
+ */
+export interface UpstreamCredentialStore {
+  get(apiId: string): Promise<StoredUpstreamCredential | null>;
+  put(record: StoredUpstreamCredential): Promise<void>;
+  delete(apiId: string): Promise<boolean>;
+}
+
+export class InMemoryUpstreamCredentialStore implements UpstreamCredentialStore {
+  private readonly records = new Map<string, StoredUpstreamCredential>();
+
+  async get(apiId: string): Promise<StoredUpstreamCredential | null> {
+    const record = this.records.get(apiId);
+    return record ? { ...record } : null;
+  }
+
+  async put(record: StoredUpstreamCredential): Promise<void> {
+    this.records.set(record.apiId, { ...record });
+  }
+
+  async delete(apiId: string): Promise<boolean> {
+    return this.records.delete(apiId);
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+export interface PostgresUpstreamCredentialStoreOptions {
+  tableName?: string;
+}
+
+type CredentialRow = {
+  api_id: string;
+  type: UpstreamCredentialType;
+  name: string | null;
+  sealed_secret: string;
+  version: number;
+  created_at: Date | string;
+  rotated_at: Date | string | null;
+  updated_by: string;
+};
+
+function toIsoString(value: Date | string): string {
+  return new Date(value).toISOString();
+}
+
+export class PostgresUpstreamCredentialStore implements UpstreamCredentialStore {
+  private readonly tableName: string;
+  private tableReadyPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly pool: PersistentRateLimiterPool,
+    options: PostgresUpstreamCredentialStoreOptions = {},
+  ) {
+    const tableName = options.tableName ?? DEFAULT_PERSISTENT_TABLE;
+    if (!TABLE_NAME_PATTERN.test(tableName)) {
+      throw new Error(
+        'Upstream credential tableName must contain only letters, numbers, and underscores.',
+      );
+    }
+    this.tableName = tableName;
+  }
+
+  async get(apiId: string): Promise<StoredUpstreamCredential | null> {
+    await this.ensureTable();
+
+    const result = await this.withClient((client) =>
+      client.query<CredentialRow>(
+        `SELECT api_id, type, name, sealed_secret, version, created_at, rotated_at, updated_by
+         FROM ${this.tableName}
+         WHERE api_id = $1`,
+        [apiId],
+      ),
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      apiId: String(row.api_id),
+      type: row.type,
+      name: row.name,
+      sealedSecret: row.sealed_secret,
+      version: Number(row.version),
+      createdAt: toIsoString(row.created_at),
+      rotatedAt: row.rotated_at === null ? null : toIsoString(row.rotated_at),
+      updatedBy: row.updated_by,
+    };
+  }
+
+  async put(record: StoredUpstreamCredential): Promise<void> {
+    await this.ensureTable();
+
+    await this.withClient((client) =>
+      client.query(
+        `INSERT INTO ${this.tableName}
+           (api_id, type, name, sealed_secret, version, created_at, rotated_at, updated_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (api_id) DO UPDATE SET
+           type = EXCLUDED.type,
+           name = EXCLUDED.name,
+           sealed_secret = EXCLUDED.sealed_secret,
+           version = EXCLUDED.version,
+           created_at = EXCLUDED.created_at,
+           rotated_at = EXCLUDED.rotated_at,
+           updated_by = EXCLUDED.updated_by`,
+        [
+          record.apiId,
+          record.type,
+          record.name,
+          record.sealedSecret,
+          record.version,
+          record.createdAt,
+          record.rotatedAt,
+          record.updatedBy,
+        ],
+      ),
+    );
+  }
+
+  async delete(apiId: string): Promise<boolean> {
+    await this.ensureTable();
+
+    const result = await this.withClient((client) =>
+      client.query<{ api_id: string }>(
+        `DELETE FROM ${this.tableName} WHERE api_id = $1 RETURNING api_id`,
+        [apiId],
+      ),
+    );
+    return result.rows.length > 0;
+  }
+
+  private async withClient<T>(fn: (client: PersistentRateLimiterClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await fn(client);
+    } finally {
+      client.release();
+    }
+  }
+
+  private async ensureTable(): Promise<void> {
+    if (!this.tableReadyPromise) {
+      this.tableReadyPromise = this.createTableIfNeeded().catch((error) => {
+        this.tableReadyPromise = null;
+        throw error;
+      });
+    }
+
+    await this.tableReadyPromise;
+  }
+
+  private async createTableIfNeeded(): Promise<void> {
+    await this.withClient(async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          api_id TEXT PRIMARY KEY,
+          type TEXT NOT NULL CHECK (type IN ('bearer', 'header', 'query', 'hmac')),
+          name TEXT,
+          sealed_secret TEXT NOT NULL,
+          version INTEGER NOT NULL DEFAULT 1,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          rotated_at TIMESTAMPTZ,
+          updated_by TEXT NOT NULL
+        )
+      `);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+function credentialName(credential: UpstreamCredential): string | null {
+  switch (credential.type) {
+    case 'header':
+      return credential.headerName.toLowerCase();
+    case 'query':
+      return credential.paramName;
+    default:
+      return null;
+  }
+}
+
+function credentialSecret(credential: UpstreamCredential): string {
+  switch (credential.type) {
+    case 'bearer':
+      return credential.token;
+    case 'hmac':
+      return credential.secret;
+    default:
+      return credential.value;
+  }
+}
+
+function toSummary(record: StoredUpstreamCredential): UpstreamCredentialSummary {
+  return {
+    apiId: record.apiId,
+    type: record.type,
+    name: record.name,
+    version: record.version,
+    createdAt: record.createdAt,
+    rotatedAt: record.rotatedAt,
+    updatedBy: record.updatedBy,
+  };
+}
+
+export interface UpstreamCredentialServiceOptions {
+  /** Raw key material; hashed to a 256-bit AES key. */
+  encryptionKey: string;
+  now?: () => Date;
+}
+
+/** The read side the proxy needs — resolve an API's credential in plaintext. */
+export interface UpstreamCredentialResolver {
+  resolve(apiId: string): Promise<UpstreamCredential | null>;
+}
+
+export class UpstreamCredentialService implements UpstreamCredentialResolver {
+  private readonly key: Buffer;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly store: UpstreamCredentialStore,
+    options: UpstreamCredentialServiceOptions,
+  ) {
+    this.key = deriveSecretBoxKey(options.encryptionKey);
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Create or replace the credential for an API. Replacing an existing
+   * credential (even with a different type) counts as a rotation.
+   */
+  async set(
+    apiId: string,
+    credential: UpstreamCredential,
+    actor: string,
+  ): Promise<{ summary: UpstreamCredentialSummary; created: boolean }> {
+    const existing = await this.store.get(apiId);
+    const now = this.now().toISOString();
+    const record: StoredUpstreamCredential = {
+      apiId,
+      type: credential.type,
+      name: credentialName(credential),
+      sealedSecret: sealSecret(credentialSecret(credential), this.key),
+      version: existing ? existing.version + 1 : 1,
+      createdAt: existing?.createdAt ?? now,
+      rotatedAt: existing ? now : null,
+      updatedBy: actor,
+    };
+    await this.store.put(record);
+    return { summary: toSummary(record), created: !existing };
+  }
+
+  /** Replace only the secret, keeping the credential type and name. */
+  async rotate(apiId: string, secret: string, actor: string): Promise<UpstreamCredentialSummary> {
+    const existing = await this.store.get(apiId);
+    if (!existing) {
+      throw new NotFoundError('No upstream credential configured for this API');
+    }
+    const record: StoredUpstreamCredential = {
+      ...existing,
+      sealedSecret: sealSecret(secret, this.key),
+      version: existing.version + 1,
+      rotatedAt: this.now().toISOString(),
+      updatedBy: actor,
+    };
+    await this.store.put(record);
+    return toSummary(record);
+  }
+
+  async getSummary(apiId: string): Promise<UpstreamCredentialSummary | null> {
+    const record = await this.store.get(apiId);
+    return record ? toSummary(record) : null;
+  }
+
+  async remove(apiId: string): Promise<boolean> {
+    return this.store.delete(apiId);
+  }
+
+  /**
+   * Decrypt the credential for use on the proxy hot path.
+   * Never expose the return value through an HTTP response.
+   */
+  async resolve(apiId: string): Promise<UpstreamCredential | null> {
+    const record = await this.store.get(apiId);
+    if (!record) return null;
+
+    const secret = openSecret(record.sealedSecret, this.key);
+    switch (record.type) {
+      case 'bearer':
+        return { type: 'bearer', token: secret };
+      case 'header':
+        return { type: 'header', headerName: record.name ?? '', value: secret };
+      case 'query':
+        return { type: 'query', paramName: record.name ?? '', value: secret };
+      case 'hmac':
+        return { type: 'hmac', secret };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Injection
+// ---------------------------------------------------------------------------
+
+export interface UpstreamRequestTarget {
+  method: string;
+  url: string;
+  /** Lower-cased header map that will be sent upstream; mutated in place. */
+  headers: Record<string, string>;
+}
+
+/**
+ * Attach `credential` to an outgoing upstream request and return the final URL.
+ *
+ * Any consumer-supplied header or query parameter with the same name is
+ * overwritten so a caller can never smuggle their own value past the gateway.
+ * The HMAC mode signs the method and path only; request bodies are streamed
+ * and are not covered by the signature.
+ */
+export function applyUpstreamCredential(
+  credential: UpstreamCredential,
+  target: UpstreamRequestTarget,
+  now: Date = new Date(),
+): string {
+  switch (credential.type) {
+    case 'bearer':
+      target.headers['authorization'] = `Bearer ${credential.token}`;
+      return target.url;
+    case 'header':
+      target.headers[credential.headerName.toLowerCase()] = credential.value;
+      return target.url;
+    case 'query': {
+      const url = new URL(target.url);
+      url.searchParams.set(credential.paramName, credential.value);
+      return url.toString();
+    }
+    case 'hmac': {
+      const url = new URL(target.url);
+      const timestamp = now.toISOString();
+      const signed = `${target.method.toUpperCase()} ${url.pathname}${url.search}`;
+      target.headers[TIMESTAMP_HEADER] = timestamp;
+      target.headers[SIGNATURE_HEADER] = `sha256=${computeSignature(credential.secret, timestamp, signed)}`;
+      return target.url;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export interface AppUpstreamCredentialConfig {
+  store: 'memory' | 'postgres';
+  postgresTable: string;
+  encryptionKey: string;
+}
+
+/**
+ * Shared in-process credentials: the provider routes write them and the
+ * proxy reads them, so both must see the same store when they are in memory.
+ */
+const defaultUpstreamCredentialStore = new InMemoryUpstreamCredentialStore();
+
+/** Shared singleton used by the proxy and the provider routes. */
+export const defaultUpstreamCredentialService = new UpstreamCredentialService(
+  defaultUpstreamCredentialStore,
+  { encryptionKey: env.UPSTREAM_CREDENTIALS_KEY ?? env.JWT_SECRET },
+);
+
+export function createConfiguredUpstreamCredentialService(
+  config: AppUpstreamCredentialConfig,
+  persistentPool?: PersistentRateLimiterPool,
+): UpstreamCredentialService {
+  if (config.store === 'postgres') {
+    if (!persistentPool) {
+      throw new Error(
+        'A PostgreSQL pool is required when UPSTREAM_CREDENTIALS_STORE is set to "postgres".',
+      );
+    }
+    return new UpstreamCredentialService(
+      new PostgresUpstreamCredentialStore(persistentPool, { tableName: config.postgresTable }),
+      { encryptionKey: config.encryptionKey },
+    );
+  }
+  return new UpstreamCredentialService(defaultUpstreamCredentialStore, {
+    encryptionKey: config.encryptionKey,
+  });
+}
@@ -0,0 +1,82 @@
+import {
+  OriginBalancer,
+  resolveOrigins,
+  type ResolvedOrigin,
+} from './upstreamOrigins.js';
+import type { ApiRegistryEntry } from '../types/gateway.js';
+
+const ENTRY: ApiRegistryEntry = {
+  id: '7',
+  slug: 'multi-origin',
+  base_url: 'https://primary.example.com',
+  developerId: 'dev_1',
+  endpoints: [],
+  origins: [
+    { id: 'primary', url: 'https://primary.example.com', weight: 3 },
+    { id: 'secondary', url: 'https://secondary.example.com', weight: 1 },
+  ],
+};
+
+const picks = (balancer: OriginBalancer, origins: ResolvedOrigin[], calls: number): string[] =>
+  Array.from({ length: calls }, () => balancer.order(origins)[0].id);
+
+describe('resolveOrigins', () => {
+  it('keeps the API id as the breaker key of an API with only a base_url', () => {
+    expect(resolveOrigins({ ...ENTRY, origins: undefined })).toEqual([
+      { apiId: '7', id: 'default', url: 'https://primary.example.com', weight: 1, breakerKey: '7' },
+    ]);
+  });
+
+  it('gives each listed origin its own breaker key', () => {
+    expect(resolveOrigins(ENTRY).map((origin) => origin.breakerKey)).toEqual([
+      '7-origin-primary',
+      '7-origin-secondary',
+    ]);
+  });
+});
+
+describe('OriginBalancer', () => {
+  it('spreads calls by weight and interleaves them', () => {
+    const balancer = new OriginBalancer();
+
+    expect(picks(balancer, resolveOrigins(ENTRY), 8)).toEqual([
+      'primary', 'primary', 'secondary', 'primary',
+      'primary', 'primary', 'secondary', 'primary',
+    ]);
+  });
+
+  it('lists the other origins after the pick for failover', () => {
+    const balancer = new OriginBalancer();
+    const origins = resolveOrigins(ENTRY);
+
+    balancer.order(origins);
+    balancer.order(origins);
+    expect(balancer.order(origins).map((origin) => origin.id)).toEqual(['secondary', 'primary']);
+  });
+
+  it('sends calls to healthy origins and falls back to unhealthy ones last', () => {
+    const balancer = new OriginBalancer();
+    const [primary, secondary] = resolveOrigins(ENTRY);
+    balancer.recordProbe(primary, { healthy: false, latencyMs: 2000, status: null }, 1_000);
+
+    expect(picks(balancer, [primary, secondary], 3)).toEqual(['secondary', 'secondary', 'secondary']);
+    expect(balancer.order([primary, secondary]).map((origin) => origin.id)).toEqual(['secondary', 'primary']);
+    expect(balancer.get(primary.breakerKey)).toEqual(expect.objectContaining({
+      healthy: false,
+      lastProbeAt: 1_000,
+      lastProbeStatus: null,
+    }));
+
+    balancer.recordProbe(primary, { healthy: true, latencyMs: 20, status: 200 });
+    expect(picks(balancer, [primary, secondary], 4)).toContain('primary');
+  });
+
+  it('averages probe and call latency', () => {
+    const balancer = new OriginBalancer();
+    const [primary] = resolveOrigins(ENTRY);
+    balancer.recordProbe(primary, { healthy: true, latencyMs: 100, status: 200 });
+    balancer.recordLatency(primary.breakerKey, 200);
+
+    expect(balancer.get(primary.breakerKey)?.latencyMs).toBe(120);
+  });
+});
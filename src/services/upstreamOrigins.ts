@@ -0,0 +1,155 @@
+/**
+ * upstreamOrigins.ts
+ *
+ * Load balancing over the origins of an API. An API may list several
+ * `origins` with weights; an API without them has its `base_url` as its only
+ * origin.
+ *
+ * Each call goes to an origin picked by smooth weighted round-robin among
+ * the origins that passed their last health probe (see
+ * workers/originHealthProbe.ts). The proxy fails over to the next origin in
+ * the returned order when an origin's circuit breaker is open. Origins that
+ * failed their last probe are tried only after every healthy one.
+ *
+ * Health and latency are kept per process.
+ */
+
+import type { ApiRegistryEntry, UpstreamOrigin } from '../types/gateway.js';
+
+/** Origin id of an API that has only a `base_url`. */
+export const DEFAULT_ORIGIN_ID = 'default';
+
+/** Weight of the newest latency sample in the moving average. */
+const LATENCY_SMOOTHING = 0.2;
+
+export interface ResolvedOrigin extends UpstreamOrigin {
+  apiId: string;
+  /**
+   * Key of the origin's circuit breaker. An API without `origins` keeps the
+   * API id as its single breaker key.
+   */
+  breakerKey: string;
+}
+
+export interface OriginHealth {
+  /** Result of the last probe; origins are healthy until probed. */
+  healthy: boolean;
+  /** Moving average of probe and proxied call latency in milliseconds. */
+  latencyMs: number | null;
+  /** Epoch milliseconds. */
+  lastProbeAt: number | null;
+  /** Status of the last probe; null when it got no response. */
+  lastProbeStatus: number | null;
+}
+
+export type OriginStatus = ResolvedOrigin & OriginHealth;
+
+export interface OriginProbeResult {
+  healthy: boolean;
+  latencyMs: number;
+  status: number | null;
+}
+
+export function originBreakerKey(apiId: string, originId: string): string {
+  return `${apiId}-origin-${originId}`;
+}
+
+/** The origins calls to `entry` are spread over. */
+export function resolveOrigins(entry: ApiRegistryEntry): ResolvedOrigin[] {
+  const apiId = String(entry.id);
+  if (!entry.origins?.length) {
+    return [{ apiId, id: DEFAULT_ORIGIN_ID, url: entry.base_url, weight: 1, breakerKey: apiId }];
+  }
+  return entry.origins.map((origin) => ({
+    ...origin,
+    apiId,
+    breakerKey: originBreakerKey(apiId, origin.id),
+  }));
+}
+
+export class OriginBalancer {
+  private readonly statuses = new Map<string, OriginStatus>();
+  /** Smooth weighted round-robin state, by breaker key. */
+  private readonly currentWeights = new Map<string, number>();
+
+  /**
+   * The order to try `origins` in for one call: the weighted round-robin pick
+   * among healthy origins, the other healthy origins by weight, then the
+   * unhealthy ones by weight.
+   */
+  order(origins: ResolvedOrigin[]): ResolvedOrigin[] {
+    for (const origin of origins) this.track(origin);
+
+    const byWeight = (a: ResolvedOrigin, b: ResolvedOrigin): number => b.weight - a.weight;
+    const healthy = origins.filter((origin) => this.statuses.get(origin.breakerKey)?.healthy !== false);
+    const unhealthy = origins.filter((origin) => !healthy.includes(origin)).sort(byWeight);
+
+    const pick = this.pick(healthy);
+    if (!pick) return unhealthy;
+    return [pick, ...healthy.filter((origin) => origin !== pick).sort(byWeight), ...unhealthy];
+  }
+
+  recordProbe(origin: ResolvedOrigin, result: OriginProbeResult, now: number = Date.now()): void {
+    const status = this.track(origin);
+    status.healthy = result.healthy;
+    status.lastProbeAt = now;
+    status.lastProbeStatus = result.status;
+    this.recordLatency(origin.breakerKey, result.latencyMs);
+  }
+
+  recordLatency(breakerKey: string, latencyMs: number): void {
+    const status = this.statuses.get(breakerKey);
+    if (!status) return;
+    status.latencyMs = status.latencyMs === null
+      ? latencyMs
+      : status.latencyMs + LATENCY_SMOOTHING * (latencyMs - status.latencyMs);
+  }
+
+  get(breakerKey: string): OriginStatus | undefined {
+    const status = this.statuses.get(breakerKey);
+    return status ? { ...status } : undefined;
+  }
+
+  reset(): void {
+    this.statuses.clear();
+    this.currentWeights.clear();
+  }
+
+  private track(origin: ResolvedOrigin): OriginStatus {
+    const existing = this.statuses.get(origin.breakerKey);
+    if (existing) {
+      // The registry entry may have changed the URL or weight since.
+      Object.assign(existing, origin);
+      return existing;
+    }
+    const status: OriginStatus = {
+      ...origin,
+      healthy: true,
+      latencyMs: null,
+      lastProbeAt: null,
+      lastProbeStatus: null,
+    };
+    this.statuses.set(origin.breakerKey, status);
+    return status;
+  }
+
+  /** Smooth weighted round-robin, as in nginx's upstream module. */
+  private pick(origins: ResolvedOrigin[]): ResolvedOrigin | undefined {
+    let best: ResolvedOrigin | undefined;
+    let bestWeight = -Infinity;
+    let totalWeight = 0;
+    for (const origin of origins) {
+      const current = (this.currentWeights.get(origin.breakerKey) ?? 0) + origin.weight;
+      this.currentWeights.set(origin.breakerKey, current);
+      totalWeight += origin.weight;
+      if (current > bestWeight) {
+        best = origin;
+        bestWeight = current;
+      }
+    }
+    if (best) this.currentWeights.set(best.breakerKey, bestWeight - totalWeight);
+    return best;
+  }
+}
+
+export const defaultOriginBalancer = new OriginBalancer();
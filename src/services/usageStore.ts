@@ -111,9 +111,9 @@ export class InMemoryUsageStore implements UsageAdminStore {
     return priorSnapshot;
   }
 
-  /** Retrieve all usage events that haven't been settled yet and have a non-zero price. */
+  /** Retrieve all live usage events that haven't been settled yet and have a non-zero price. */
   getUnsettledEvents(): UsageEvent[] {
-    return this.events.filter((e) => !e.settlementId && e.amountUsdc > 0);
+    return this.events.filter((e) => !e.settlementId && !e.test && e.amountUsdc > 0);
   }
 
   /** Mark a specific set of events as settled. */
@@ -156,7 +156,9 @@ interface UsageEventRow {
   endpoint_id: string;
   user_id: string;
   amount_usdc: string | number;
+  units: string | number | null;
   status_code: number;
+  test: boolean;
   created_at: Date | string;
   settlement_external_id: string | null;
 }
@@ -194,7 +196,9 @@ const mapUsageEventRow = (row: UsageEventRow): UsageEvent => ({
   endpointId: row.endpoint_id,
   userId: row.user_id,
   amountUsdc: toNumber(row.amount_usdc),
+  units: row.units === null ? undefined : toNumber(row.units),
   statusCode: row.status_code,
+  ...(row.test ? { test: true } : {}),
   timestamp: row.created_at instanceof Date ? row.created_at.toISOString() : new Date(row.created_at).toISOString(),
   settlementId: row.settlement_external_id ?? undefined,
 });
@@ -209,7 +213,9 @@ const usageEventSelect = `
     ue.endpoint_id,
     rl.developer_id AS user_id,
     ue.amount_usdc,
+    ue.units,
     ue.status_code,
+    ue.test,
     ue.created_at,
     s.external_id AS settlement_external_id
   FROM usage_events ue
@@ -242,14 +248,16 @@ export class PostgresUsageStore implements UsageAdminStore {
             api_key,
             developer_id,
             amount_usdc,
+            units,
             request_id,
             status_code,
+            test,
             created_at
           )
           VALUES ($1, $2, $3, $4, $5, (
             SELECT COALESCE(a.developer_id::text, '')
             FROM apis a WHERE a.id = $2 LIMIT 1
-          ), $6, $7, $8, $9)
+          ), $6, $7, $8, $9, $10, $11)
           ON CONFLICT (request_id, developer_id) DO NOTHING
           RETURNING id
         `,
@@ -260,8 +268,10 @@ export class PostgresUsageStore implements UsageAdminStore {
           event.apiKeyId,
           event.apiKey,
           event.amountUsdc,
+          event.units ?? null,
           event.requestId,
           event.statusCode,
+          event.test ?? false,
           event.timestamp,
         ],
       );
@@ -341,6 +351,7 @@ export class PostgresUsageStore implements UsageAdminStore {
       `
         ${usageEventSelect}
         WHERE rl.settlement_id IS NULL
+          AND NOT ue.test
           AND ue.amount_usdc > 0
         ORDER BY ue.created_at ASC, ue.id ASC
       `,
@@ -0,0 +1,199 @@
+import { newDb } from 'pg-mem';
+import {
+  Keypair,
+  Networks,
+  NotFoundError,
+  Transaction,
+  TransactionBuilder,
+  type Horizon,
+} from '@stellar/stellar-sdk';
+import {
+  InMemoryWalletChallengeStore,
+  PostgresWalletChallengeStore,
+  WalletAuthService,
+  type WalletAccountLoader,
+  type WalletAccountRecord,
+} from './walletAuth.js';
+import { AppError } from '../errors/index.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+const HOME_DOMAIN = 'callora.example';
+
+function createChallengePool(): PersistentRateLimiterPool {
+  const db = newDb({ noAstCoverageCheck: true });
+  db.public.none(`
+    CREATE TABLE wallet_auth_challenges (
+      nonce TEXT PRIMARY KEY,
+      account TEXT NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+  `);
+  const { Pool } = db.adapters.createPg();
+  return new Pool() as unknown as PersistentRateLimiterPool;
+}
+
+function signer(key: string, weight: number): Horizon.ServerApi.AccountRecordSigners {
+  return { key, weight, type: 'ed25519_public_key' } as Horizon.ServerApi.AccountRecordSigners;
+}
+
+function coSign(transaction: string, ...keypairs: Keypair[]): string {
+  const tx = TransactionBuilder.fromXDR(transaction, Networks.TESTNET) as Transaction;
+  for (const keypair of keypairs) tx.sign(keypair);
+  return tx.toXDR();
+}
+
+async function expectCode(promise: Promise<unknown>, code: string): Promise<void> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(AppError);
+  expect((error as AppError).code).toBe(code);
+  expect((error as AppError).statusCode).toBe(401);
+}
+
+describe('WalletAuthService', () => {
+  const serverKey = Keypair.random();
+  let client: Keypair;
+  let accounts: Map<string, WalletAccountRecord>;
+  let challenges: InMemoryWalletChallengeStore;
+  let now: Date;
+  let service: WalletAuthService;
+
+  const loader: WalletAccountLoader = {
+    loadAccount: async (accountId) => {
+      const record = accounts.get(accountId);
+      if (!record) throw new NotFoundError('Not Found', { status: 404 });
+      return record;
+    },
+  };
+
+  beforeEach(() => {
+    client = Keypair.random();
+    accounts = new Map();
+    challenges = new InMemoryWalletChallengeStore();
+    now = new Date();
+    service = new WalletAuthService({
+      signingKey: serverKey,
+      networkPassphrase: Networks.TESTNET,
+      homeDomain: HOME_DOMAIN,
+      accounts: loader,
+      challenges,
+      now: () => now,
+    });
+  });
+
+  it('issues a server-signed challenge for the account', async () => {
+    const challenge = await service.createChallenge(client.publicKey());
+    const tx = TransactionBuilder.fromXDR(challenge.transaction, Networks.TESTNET) as Transaction;
+
+    expect(challenge.networkPassphrase).toBe(Networks.TESTNET);
+    expect(tx.source).toBe(serverKey.publicKey());
+    expect(tx.operations[0]).toMatchObject({ type: 'manageData', name: `${HOME_DOMAIN} auth`, source: client.publicKey() });
+    expect(tx.signatures).toHaveLength(1);
+    expect(new Date(challenge.expiresAt).getTime()).toBe(Number(tx.timeBounds?.maxTime) * 1000);
+  });
+
+  it('signs in an account that is not on the ledger with its master key', async () => {
+    const { transaction } = await service.createChallenge(client.publicKey());
+
+    const login = await service.verify(coSign(transaction, client));
+
+    expect(login).toEqual({ account: client.publicKey(), signers: [client.publicKey()] });
+  });
+
+  it('refuses a challenge signed by another key', async () => {
+    const { transaction } = await service.createChallenge(client.publicKey());
+
+    await expectCode(service.verify(coSign(transaction, Keypair.random())), 'WALLET_SIGNATURE_INVALID');
+  });
+
+  it('refuses a replayed challenge', async () => {
+    const { transaction } = await service.createChallenge(client.publicKey());
+    const signed = coSign(transaction, client);
+
+    await service.verify(signed);
+    await expectCode(service.verify(signed), 'WALLET_CHALLENGE_USED');
+  });
+
+  it('keeps the challenge usable after a rejected signature', async () => {
+    const { transaction } = await service.createChallenge(client.publicKey());
+
+    await expectCode(service.verify(coSign(transaction, Keypair.random())), 'WALLET_SIGNATURE_INVALID');
+    await expect(service.verify(coSign(transaction, client))).resolves.toMatchObject({ account: client.publicKey() });
+  });
+
+  it('refuses a challenge this server did not issue', async () => {
+    const other = new WalletAuthService({
+      signingKey: Keypair.random(),
+      networkPassphrase: Networks.TESTNET,
+      homeDomain: HOME_DOMAIN,
+      accounts: loader,
+      challenges,
+    });
+    const { transaction } = await other.createChallenge(client.publicKey());
+
+    await expectCode(service.verify(coSign(transaction, client)), 'WALLET_CHALLENGE_INVALID');
+  });
+
+  it('refuses an expired challenge', async () => {
+    const { transaction, expiresAt } = await service.createChallenge(client.publicKey());
+    now = new Date(expiresAt);
+
+    await expectCode(service.verify(coSign(transaction, client)), 'WALLET_CHALLENGE_INVALID');
+  });
+
+  describe('multisig accounts', () => {
+    const cosigner = Keypair.random();
+
+    beforeEach(() => {
+      accounts.set(client.publicKey(), {
+        signers: [signer(client.publicKey(), 1), signer(cosigner.publicKey(), 1)],
+        thresholds: { med_threshold: 2 },
+      });
+    });
+
+    it('signs in once the medium threshold is met', async () => {
+      const { transaction } = await service.createChallenge(client.publicKey());
+
+      const login = await service.verify(coSign(transaction, client, cosigner));
+
+      expect(login.signers.sort()).toEqual([client.publicKey(), cosigner.publicKey()].sort());
+    });
+
+    it('refuses signatures below the threshold', async () => {
+      const { transaction } = await service.createChallenge(client.publicKey());
+
+      await expectCode(service.verify(coSign(transaction, client)), 'WALLET_SIGNATURE_INVALID');
+    });
+  });
+
+  it('surfaces Horizon errors other than a missing account', async () => {
+    const failing = new WalletAuthService({
+      signingKey: serverKey,
+      networkPassphrase: Networks.TESTNET,
+      homeDomain: HOME_DOMAIN,
+      accounts: { loadAccount: async () => { throw new Error('Horizon unavailable'); } },
+      challenges,
+    });
+    const { transaction } = await failing.createChallenge(client.publicKey());
+
+    await expect(failing.verify(coSign(transaction, client))).rejects.toThrow('Horizon unavailable');
+  });
+});
+
+describe('PostgresWalletChallengeStore', () => {
+  const account = Keypair.random().publicKey();
+
+  it('consumes a nonce once, for its account, before it expires', async () => {
+    const store = new PostgresWalletChallengeStore(createChallengePool());
+    // `issue` clears rows already expired by the database clock.
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + 300_000);
+
+    await store.issue('nonce-1', account, expiresAt);
+    await store.issue('nonce-2', account, expiresAt);
+
+    await expect(store.consume('nonce-1', Keypair.random().publicKey(), issuedAt)).resolves.toBe(false);
+    await expect(store.consume('nonce-1', account, issuedAt)).resolves.toBe(true);
+    await expect(store.consume('nonce-1', account, issuedAt)).resolves.toBe(false);
+    await expect(store.consume('nonce-2', account, expiresAt)).resolves.toBe(false);
+  });
+});
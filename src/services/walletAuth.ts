@@ -0,0 +1,309 @@
+/**
+ * Stellar SEP-10 web authentication for wallet sign-in.
+ *
+ *   1. `GET /auth/wallet/challenge?account=G…` — the server builds a
+ *      challenge transaction for the account: a `manage_data` operation named
+ *      `<home domain> auth` holding a random nonce, time bounds of
+ *      `challengeTtlSeconds`, and the server's signature.
+ *   2. The wallet adds signatures from the account's signers.
+ *   3. `POST /auth/wallet { transaction }` — the server checks its own
+ *      signature, the network, domains and time bounds, then the client
+ *      signatures. For an account that exists on the ledger, the signatures
+ *      must reach the account's medium threshold using the signers Horizon
+ *      reports. For an account that does not exist yet, only its master key
+ *      can sign. Every signature must come from a known signer.
+ *
+ * Each challenge can be used once: its nonce is recorded when it is issued
+ * and consumed on the first login that presents it.
+ *
+ * See https://github.com/stellar/stellar-protocol/blob/master/ecosystem/sep-0010.md
+ */
+
+import {
+  Horizon,
+  Keypair,
+  NotFoundError as HorizonNotFoundError,
+  WebAuth,
+} from '@stellar/stellar-sdk';
+import { UnauthorizedError } from '../errors/index.js';
+import type { PersistentRateLimiterPool } from './rateLimiter.js';
+
+/** How long a challenge may be signed and sent back, by default. */
+export const DEFAULT_WALLET_CHALLENGE_TTL_SECONDS = 300;
+
+/** The account details verification needs; `Horizon.Server#loadAccount` returns them. */
+export interface WalletAccountRecord {
+  signers: Horizon.ServerApi.AccountRecordSigners[];
+  thresholds: Pick<Horizon.HorizonApi.AccountThresholds, 'med_threshold'>;
+}
+
+/**
+ * Loads an account's signers and thresholds. Rejects with the SDK's
+ * `NotFoundError` when the account does not exist, as Horizon does.
+ */
+export interface WalletAccountLoader {
+  loadAccount(accountId: string): Promise<WalletAccountRecord>;
+}
+
+/**
+ * Remembers the nonces of issued challenges. `consume` is atomic: of any
+ * number of concurrent logins with the same challenge, exactly one succeeds.
+ */
+export interface WalletChallengeStore {
+  issue(nonce: string, account: string, expiresAt: Date): Promise<void>;
+  /** False when the nonce was not issued for the account, has expired or was already used. */
+  consume(nonce: string, account: string, now?: Date): Promise<boolean>;
+}
+
+/** How often the in-memory store sweeps expired challenges. */
+const PRUNE_INTERVAL_MS = 60_000;
+
+/** Single-instance store. Use the Postgres store when running several instances. */
+export class InMemoryWalletChallengeStore implements WalletChallengeStore {
+  private readonly challenges = new Map<string, { account: string; expiresAt: number }>();
+  private lastPrunedAt = 0;
+
+  async issue(nonce: string, account: string, expiresAt: Date): Promise<void> {
+    this.prune(Date.now());
+    this.challenges.set(nonce, { account, expiresAt: expiresAt.getTime() });
+  }
+
+  async consume(nonce: string, account: string, now: Date = new Date()): Promise<boolean> {
+    const challenge = this.challenges.get(nonce);
+    if (!challenge || challenge.account !== account) return false;
+
+    this.challenges.delete(nonce);
+    return challenge.expiresAt > now.getTime();
+  }
+
+  clear(): void {
+    this.challenges.clear();
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.expiresAt <= now) this.challenges.delete(nonce);
+    }
+  }
+}
+
+/** Nonces in `wallet_auth_challenges` (migration 0037), shared by every instance. */
+export class PostgresWalletChallengeStore implements WalletChallengeStore {
+  constructor(private readonly pool: PersistentRateLimiterPool) {}
+
+  async issue(nonce: string, account: string, expiresAt: Date): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      // Clearing expired challenges here keeps the table small.
+      await client.query('DELETE FROM wallet_auth_challenges WHERE expires_at <= NOW()');
+      await client.query(
+        'INSERT INTO wallet_auth_challenges (nonce, account, expires_at) VALUES ($1, $2, $3)',
+        [nonce, account, expiresAt],
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async consume(nonce: string, account: string, now: Date = new Date()): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      const deleted = await client.query<{ nonce: string }>(
+        `DELETE FROM wallet_auth_challenges
+         WHERE nonce = $1 AND account = $2 AND expires_at > $3
+         RETURNING nonce`,
+        [nonce, account, now],
+      );
+      return deleted.rows.length === 1;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export interface WalletAuthOptions {
+  /** The server's SEP-10 signing key. Wallets check challenges against its public key. */
+  signingKey: Keypair;
+  networkPassphrase: string;
+  /** Named in the challenge's first operation, `<home domain> auth`. */
+  homeDomain: string;
+  /** Host serving the auth endpoints. Defaults to the home domain. */
+  webAuthDomain?: string;
+  challengeTtlSeconds?: number;
+  accounts: WalletAccountLoader;
+  challenges: WalletChallengeStore;
+  now?: () => Date;
+}
+
+export interface WalletChallenge {
+  /** Base64 XDR of the server-signed challenge transaction. */
+  transaction: string;
+  networkPassphrase: string;
+  expiresAt: string;
+}
+
+export interface VerifiedWalletLogin {
+  /** The Stellar account that signed in. */
+  account: string;
+  /** Signers whose signatures were accepted, including the master key when it signed. */
+  signers: string[];
+}
+
+function invalidChallenge(message: string): UnauthorizedError {
+  return new UnauthorizedError(message, 'WALLET_CHALLENGE_INVALID');
+}
+
+export class WalletAuthService {
+  private readonly signingKey: Keypair;
+  private readonly networkPassphrase: string;
+  private readonly homeDomain: string;
+  private readonly webAuthDomain: string;
+  private readonly challengeTtlSeconds: number;
+  private readonly accounts: WalletAccountLoader;
+  private readonly challenges: WalletChallengeStore;
+  private readonly now: () => Date;
+
+  constructor(options: WalletAuthOptions) {
+    this.signingKey = options.signingKey;
+    this.networkPassphrase = options.networkPassphrase;
+    this.homeDomain = options.homeDomain;
+    this.webAuthDomain = options.webAuthDomain ?? options.homeDomain;
+    this.challengeTtlSeconds = options.challengeTtlSeconds ?? DEFAULT_WALLET_CHALLENGE_TTL_SECONDS;
+    this.accounts = options.accounts;
+    this.challenges = options.challenges;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** The key wallets should expect on challenges (`SIGNING_KEY` in stellar.toml). */
+  get serverAccountId(): string {
+    return this.signingKey.publicKey();
+  }
+
+  async createChallenge(account: string): Promise<WalletChallenge> {
+    const transaction = WebAuth.buildChallengeTx(
+      this.signingKey,
+      account,
+      this.homeDomain,
+      this.challengeTtlSeconds,
+      this.networkPassphrase,
+      this.webAuthDomain,
+    );
+    const { nonce, expiresAt } = this.read(transaction);
+    await this.challenges.issue(nonce, account, expiresAt);
+
+    return { transaction, networkPassphrase: this.networkPassphrase, expiresAt: expiresAt.toISOString() };
+  }
+
+  /**
+   * Checks a co-signed challenge and consumes its nonce. Throws
+   * `WALLET_CHALLENGE_INVALID` for a challenge this server did not issue
+   * (or that has expired), `WALLET_CHALLENGE_USED` for one already used,
+   * and `WALLET_SIGNATURE_INVALID` when the signatures fall short.
+   */
+  async verify(transaction: string): Promise<VerifiedWalletLogin> {
+    const { account, nonce, expiresAt } = this.read(transaction);
+    if (expiresAt.getTime() <= this.now().getTime()) {
+      throw invalidChallenge('The challenge has expired; request a new one');
+    }
+
+    const record = await this.loadAccount(account);
+    let signers: string[];
+    try {
+      signers = record
+        ? WebAuth.verifyChallengeTxThreshold(
+            transaction,
+            this.serverAccountId,
+            this.networkPassphrase,
+            record.thresholds.med_threshold,
+            record.signers,
+            this.homeDomain,
+            this.webAuthDomain,
+          )
+        : WebAuth.verifyChallengeTxSigners(
+            transaction,
+            this.serverAccountId,
+            this.networkPassphrase,
+            [account],
+            this.homeDomain,
+            this.webAuthDomain,
+          );
+    } catch (error) {
+      throw new UnauthorizedError(
+        `Challenge signatures rejected: ${(error as Error).message}`,
+        'WALLET_SIGNATURE_INVALID',
+      );
+    }
+
+    // Consumed only once the signatures check out, so a forged attempt
+    // cannot burn the legitimate wallet's challenge.
+    if (!(await this.challenges.consume(nonce, account, this.now()))) {
+      throw new UnauthorizedError(
+        'The challenge was already used or was not issued by this server',
+        'WALLET_CHALLENGE_USED',
+      );
+    }
+
+    return { account, signers };
+  }
+
+  private read(transaction: string): { account: string; nonce: string; expiresAt: Date } {
+    try {
+      const { tx, clientAccountID } = WebAuth.readChallengeTx(
+        transaction,
+        this.serverAccountId,
+        this.networkPassphrase,
+        this.homeDomain,
+        this.webAuthDomain,
+      );
+      const [first] = tx.operations;
+      const nonce = first.type === 'manageData' && first.value ? first.value.toString() : '';
+      const maxTime = Number(tx.timeBounds?.maxTime ?? 0);
+      if (!nonce || !maxTime) throw new Error('challenge has no nonce or time bounds');
+
+      return { account: clientAccountID, nonce, expiresAt: new Date(maxTime * 1000) };
+    } catch (error) {
+      throw invalidChallenge(`Invalid challenge transaction: ${(error as Error).message}`);
+    }
+  }
+
+  private async loadAccount(account: string): Promise<WalletAccountRecord | null> {
+    try {
+      return await this.accounts.loadAccount(account);
+    } catch (error) {
+      if (error instanceof HorizonNotFoundError) return null;
+      throw error;
+    }
+  }
+}
+
+export interface AppWalletAuthConfig {
+  signingSecret: string;
+  homeDomain: string;
+  webAuthDomain: string;
+  challengeTtlSeconds: number;
+}
+
+/**
+ * Wallet sign-in as configured by the `SEP10_*` variables, or `undefined`
+ * when no signing secret is set. Accounts are loaded from the active
+ * network's Horizon and nonces kept in Postgres.
+ */
+export function createConfiguredWalletAuthService(
+  config: AppWalletAuthConfig | undefined,
+  stellar: { networkPassphrase: string; horizonUrl: string },
+  pool: PersistentRateLimiterPool,
+): WalletAuthService | undefined {
+  if (!config) return undefined;
+
+  return new WalletAuthService({
+    signingKey: Keypair.fromSecret(config.signingSecret),
+    networkPassphrase: stellar.networkPassphrase,
+    homeDomain: config.homeDomain,
+    webAuthDomain: config.webAuthDomain,
+    challengeTtlSeconds: config.challengeTtlSeconds,
+    accounts: new Horizon.Server(stellar.horizonUrl),
+    challenges: new PostgresWalletChallengeStore(pool),
+  });
+}
@@ -8,7 +8,7 @@ describe('webhookCatalog', () => {
   describe('getWebhookCatalog', () => {
     it('returns all registered webhook events', () => {
       const catalog = getWebhookCatalog();
-      expect(catalog).toHaveLength(7);
+      expect(catalog).toHaveLength(9);
     });
 
     it('each entry has required fields', () => {
@@ -50,6 +50,18 @@ const catalog: WebhookEventEntry[] = [
     trigger: 'After a usage event is successfully persisted.',
     since: '0.0.1',
   },
+  {
+    event: 'api_key.spend_cap.reached',
+    description: 'An API key\'s spend crosses 80% or 100% of its daily or monthly budget.',
+    trigger: 'After a billed call that pushes the key\'s spend past a threshold percentage.',
+    since: '0.0.1',
+  },
+  {
+    event: 'api.version.deprecated',
+    description: 'A version of an API the developer subscribes to is deprecated with a sunset date.',
+    trigger: 'After the provider deprecates the version or moves its sunset date.',
+    since: '0.0.1',
+  },
 ];
 
 const catalogByEvent = new Map<WebhookEventType, WebhookEventEntry>(
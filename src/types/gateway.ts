@@ -1,5 +1,19 @@
 import type { RequestHandler } from 'express';
 import type { Awaitable } from './awaitable.js';
+import type { UpstreamCredentialResolver } from '../services/upstreamCredentials.js';
+import type { SubscriptionMeter } from '../services/subscriptionMetering.js';
+import type { PricingCallCounter } from '../services/endpointPricing.js';
+import type { BalanceHoldService } from '../services/balanceHolds.js';
+import type { ApiKeySpendCaps } from '../services/apiKeySpendCaps.js';
+import type { ApiKeyRepository } from '../repositories/apiKeyRepository.js';
+import type { RequestNonceStore } from '../services/requestSigning.js';
+import type { ResponseCacheStore } from '../services/responseCache.js';
+import type { OriginBalancer } from '../services/upstreamOrigins.js';
+import type { RetryBudget, UpstreamLatencyTracker } from '../services/proxyRetry.js';
+import type { SandboxService } from '../services/sandbox.js';
+import type { TransformRuleService } from '../services/transformRules.js';
+import type { ApiSpecService } from '../services/apiSpecs.js';
+import type { ApiVersionService, PinnedVersionLookup } from '../services/apiVersions.js';
 
 /** Represents a registered API key mapping to a developer and API. */
 export interface ApiKey {
@@ -7,7 +21,12 @@ export interface ApiKey {
   developerId: string;
   apiId: string;
   revoked?: boolean;
+  /** Plain-word and endpoint scopes (see apiKeyScopes.ts). */
+  scopes?: string[];
   tier?: string;
+  /** Optional USDC budgets per UTC day / month (see apiKeySpendCaps.ts). */
+  dailySpendLimitUsdc?: number | null;
+  monthlySpendLimitUsdc?: number | null;
 }
 
 /** A single recorded usage event from a proxied request. */
@@ -20,9 +39,11 @@ export interface UsageEvent {
   endpointId: string;
   userId: string;         // developerId of the caller
   amountUsdc: number;     // endpoint price charged
+  units?: number;         // upstream-reported units, for unit-priced endpoints
   statusCode: number;
   timestamp: string;      // ISO-8601
   settlementId?: string;  // ID of the settlement batch if paid out
+  test?: boolean;         // made with a test-mode key: never billed, settled or invoiced
 }
 
 /** Result of a billing deduction attempt. */
@@ -52,12 +73,96 @@ export interface RateLimitResult {
   retryAfterMs?: number;
 }
 
+/**
+ * How an endpoint's price depends on the consumer's call count in the billing
+ * period (calendar month, UTC):
+ *   - `flat`      — every call costs `priceUsdc`.
+ *   - `graduated` — each call is priced by the tier it falls in.
+ *   - `volume`    — every call in the period is priced at the tier reached.
+ */
+export type PricingModel = 'flat' | 'graduated' | 'volume';
+
+/** One price band. Tiers are ordered; the last one has `upTo: null`. */
+export interface PriceTier {
+  /** Inclusive upper bound on the period call count, or null for unbounded. */
+  upTo: number | null;
+  priceUsdc: number;
+}
+
+/**
+ * Per-unit pricing: the upstream reports how many units a call consumed
+ * (tokens, pages, rows) in a response header and the call is charged
+ * `units × priceUsdc`.
+ */
+export interface UnitPricing {
+  /** Price of one unit. */
+  priceUsdc: number;
+  /** Upper bound on units billed for one call; also sizes the pre-authorisation hold. */
+  maxUnitsPerCall: number;
+  /** Response header carrying the unit count. Defaults to `X-Callora-Units`. */
+  header?: string;
+}
+
+/**
+ * Gateway response caching for a `GET` endpoint (see responseCache.ts).
+ * Upstream `Cache-Control` can shorten the TTL or prevent storing, never
+ * extend it.
+ */
+export interface ResponseCachePolicy {
+  /** Longest a response is served from the cache. */
+  ttlSeconds: number;
+  /** Request headers whose values select separate cache entries. */
+  varyHeaders?: string[];
+  /** Price of a call served from the cache. Defaults to the endpoint's usual price. */
+  hitPriceUsdc?: number;
+}
+
+/**
+ * Metering for a streaming endpoint (see streamMetering.ts). WebSocket
+ * connections and event-stream responses are charged once per metering
+ * interval instead of per call; at least one price is set.
+ */
+export interface StreamPricing {
+  /** Price of one minute of connection, prorated to the interval. */
+  perMinuteUsdc?: number;
+  /** Price of one message, in either direction on a WebSocket. */
+  perMessageUsdc?: number;
+}
+
+/**
+ * Per-endpoint proxy limits (see endpointPolicy.ts). Unset fields fall back
+ * to the gateway-wide settings.
+ */
+export interface EndpointPolicy {
+  /** Upstream timeout; replaces `PROXY_TIMEOUT_MS`, longer or shorter. */
+  timeoutMs?: number;
+  /** Largest request body; at most `GATEWAY_BODY_LIMIT`. */
+  maxRequestBodyBytes?: number;
+  /** Largest upstream response body forwarded. */
+  maxResponseBytes?: number;
+  /** Methods accepted on the endpoint's path; others get `405`. */
+  allowedMethods?: string[];
+}
+
 /** Pricing for a single endpoint within an API. */
 export interface EndpointPricing {
   endpointId: string;
   /** Path pattern to match (e.g. "/data", "/translate"). Use "*" as default. */
   path: string;
+  /** HTTP method this price applies to. Omit to match any method. */
+  method?: string;
+  /** Flat price, and the first-tier price for tiered endpoints. */
   priceUsdc: number;
+  /** Defaults to `flat`. `graduated` and `volume` require `tiers`. */
+  pricingModel?: PricingModel;
+  tiers?: PriceTier[];
+  /** When set, calls are charged per upstream-reported unit instead. */
+  unitPricing?: UnitPricing;
+  /** When set, `GET` responses are cached by the gateway. */
+  cache?: ResponseCachePolicy;
+  policy?: EndpointPolicy;
+  /** When set, the endpoint accepts WebSocket and event-stream connections, billed per interval. */
+  streamPricing?: StreamPricing;
 }
 
 /** Interface for billing / credit deduction (e.g. Soroban). */
@@ -84,11 +189,39 @@ export interface UsageStore {
   markAsSettled(eventIds: string[], settlementId: string): Awaitable<void>;
 }
 
+/**
+ * One of several upstreams serving an API. Calls are spread over healthy
+ * origins by weight (see upstreamOrigins.ts).
+ */
+export interface UpstreamOrigin {
+  /** Unique within the API; letters, digits, `-` and `_`. */
+  id: string;
+  url: string;
+  /** Relative share of calls, a positive integer. */
+  weight: number;
+  /** Path the health probe requests. Default: `/`. */
+  healthPath?: string;
+}
+
+/**
+ * How the proxy retries an API's idempotent calls (see proxyRetry.ts).
+ * Unset fields fall back to the `PROXY_RETRY_*` settings.
+ */
+export interface ApiRetryPolicy {
+  /** Attempts per call including the first, at most 5. `1` turns retries off. */
+  maxAttempts?: number;
+  /** Send a second request when the first is slower than the API's p95 latency. */
+  hedge?: boolean;
+}
+
 /** A registered API with its upstream base URL and endpoint pricing. */
 export interface ApiRegistryEntry {
   id: string;
   slug: string;
   base_url: string;
+  /** When set, calls go to these instead of `base_url`. */
+  origins?: UpstreamOrigin[];
+  retry?: ApiRetryPolicy;
   developerId: string;
   endpoints: EndpointPricing[];
   created_at?: Date;
@@ -117,6 +250,8 @@ export interface ProxyConfig {
   recordableStatuses: (code: number) => boolean;
   /** Hostnames/IPs the gateway is allowed to contact for proxied APIs. */
   allowedHosts: string[];
+  /** Maximum request body forwarded upstream (Express size string, e.g. '1mb'). Default: '1mb'. */
+  maxBodySize: string;
 }
 
 /** Dependencies injected into the gateway router factory. */
@@ -141,6 +276,18 @@ export interface GatewayDeps {
    * Defaults to the shared singleton if omitted.
    */
   breakerRegistry?: import('../lib/circuitBreaker.js').BreakerRegistry;
+  /** Origin health and latency for the health endpoint. Defaults to the shared balancer. */
+  originBalancer?: OriginBalancer;
+  /**
+   * Enforces `subscriptions.metering_limit`. When omitted, calls are not
+   * counted against a monthly allowance.
+   */
+  subscriptionMeter?: SubscriptionMeter;
+  /**
+   * Enforces per-key daily / monthly USDC budgets and tracks spend-to-date.
+   * Defaults to the shared in-memory service the key listing reports from.
+   */
+  spendCaps?: ApiKeySpendCaps;
 }
 
 import type { CircuitBreakerStore } from '../lib/circuitBreaker.js';
@@ -165,11 +312,49 @@ export interface ProxyDeps {
   usageStore: UsageStore;
   registry: ApiRegistry;
   apiKeys?: Map<string, ApiKey>;
+  /**
+   * Keys issued through the key routes. Checked alongside `apiKeys`; accepted
+   * keys get their `lastUsedAt` updated. Defaults to the in-memory store.
+   */
+  apiKeyRepository?: ApiKeyRepository;
+  /** Nonces of accepted signed requests. Defaults to the in-memory store. */
+  requestNonceStore?: RequestNonceStore;
   authMiddleware?: RequestHandler;
   /** Per-user token-bucket rate limiter middleware (issue #870). Defaults to configured instance. */
   gatewayRateLimitMiddleware?: RequestHandler;
   proxyConfig?: Partial<ProxyConfig>;
   circuitBreakerStore?: CircuitBreakerStore;
+  /**
+   * Where the per-origin breakers are registered for the admin and health
+   * endpoints. Defaults to the shared singleton.
+   */
+  breakerRegistry?: import('../lib/circuitBreaker.js').BreakerRegistry;
+  /**
+   * Picks the origin for each call and tracks origin health and latency.
+   * Defaults to the shared balancer the health probe worker updates.
+   */
+  originBalancer?: OriginBalancer;
+  /** Limits retries and hedged requests per API. Defaults to the shared budget. */
+  retryBudget?: RetryBudget;
+  /** Recent upstream latency per API, which sets the hedge delay. Defaults to the shared tracker. */
+  latencyTracker?: UpstreamLatencyTracker;
+  /** How often open streams are billed and balance checked. Defaults to `STREAM_METERING_INTERVAL_MS`. */
+  streamMeteringIntervalMs?: number;
+  /** Fixtures and base URLs that answer test-mode keys. Defaults to the shared service. */
+  sandboxes?: SandboxService;
+  /** Per-key limit for test-mode keys. Defaults to `SANDBOX_RATE_LIMIT_*`. */
+  sandboxRateLimiter?: RateLimiter;
+  /** Provider request/response transform rules. Defaults to the shared service. */
+  transformRules?: TransformRuleService;
+  /** Provider OpenAPI documents calls are checked against. Defaults to the shared service. */
+  apiSpecs?: ApiSpecService;
+  /** Published versions answering `slug@version` and pinned calls. Defaults to the shared service. */
+  apiVersions?: ApiVersionService;
+  /**
+   * The version the caller's subscription is pinned to. When omitted, calls
+   * without `@version` are answered by the listing.
+   */
+  pinnedVersions?: PinnedVersionLookup;
   /**
    * Optional drain-state hook.  When set the router will reject new requests
    * with `503 Service Unavailable` once the server enters its shutdown drain
@@ -177,4 +362,35 @@ export interface ProxyDeps {
    * `createInFlightDrainTracker` (see `src/lifecycle/shutdown.ts`).
    */
   drainState?: ProxyDrainState;
+  /**
+   * Source of provider-managed upstream credentials injected into every
+   * proxied call.  Defaults to the shared `defaultUpstreamCredentialService`.
+   */
+  upstreamCredentials?: UpstreamCredentialResolver;
+  /**
+   * Enforces `subscriptions.metering_limit`. When omitted, calls are not
+   * counted against a monthly allowance.
+   */
+  subscriptionMeter?: SubscriptionMeter;
+  /**
+   * Counts each consumer's calls per endpoint and billing period so tiered
+   * endpoints are priced by the tier reached. Defaults to an in-memory counter.
+   */
+  pricingCounter?: PricingCallCounter;
+  /**
+   * Holds the most each in-flight call can cost against the caller's
+   * balance until it has been charged. Defaults to the shared in-memory
+   * service that `GET /api/credits` reports from.
+   */
+  balanceHolds?: BalanceHoldService;
+  /**
+   * Enforces per-key daily / monthly USDC budgets and tracks spend-to-date.
+   * Defaults to the shared in-memory service the key listing reports from.
+   */
+  spendCaps?: ApiKeySpendCaps;
+  /**
+   * Responses of endpoints with a cache policy. Defaults to the shared
+   * in-memory cache the purge endpoints clear.
+   */
+  responseCache?: ResponseCacheStore;
 }
@@ -665,7 +665,7 @@ import { requestIdMiddleware } from '../middleware/requestId.js';
 
 jest.mock('../middleware/adminAuth', () => ({
   adminAuth: jest.fn((_req: Request, _res: Response, next: NextFunction) => {
-    _res.locals = { ..._res.locals, adminActor: 'test-admin' };
+    _res.locals = { ..._res.locals, adminActor: 'test-admin', adminRole: 'super-admin' };
     next();
   }),
 }));
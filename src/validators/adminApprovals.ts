@@ -0,0 +1,21 @@
+/**
+ * Zod validation schemas for the change-request endpoints
+ * (`/api/admin/approvals`). Failures become the standard 400
+ * `VALIDATION_ERROR`.
+ */
+
+import { z } from 'zod';
+
+/** `GET /approvals` — optional status filter and page size. */
+export const adminApprovalListQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'executed', 'failed', 'rejected', 'expired']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/** `POST /approvals/:id/approve` and `/reject` — an optional note for the audit log. */
+export const adminApprovalDecisionSchema = z.object({
+  note: z.string().trim().min(1).max(1000).optional(),
+}).strict();
+
+export type AdminApprovalListQuery = z.infer<typeof adminApprovalListQuerySchema>;
+export type AdminApprovalDecisionInput = z.infer<typeof adminApprovalDecisionSchema>;
@@ -108,4 +108,234 @@ describe("apiRegistrationSchema", () => {
     expect(result.success).toBe(false);
     expect(result.error?.issues[0]?.path).toEqual(["endpoints"]);
   });
+
+  describe("tiered pricing", () => {
+    const withPricing = (pricing: unknown, price = "0.01") => ({
+      name: "Search API",
+      base_url: "https://api.search.example.com",
+      category: "search",
+      endpoints: [
+        {
+          path: "/search",
+          method: "GET",
+          price_per_call_usdc: price,
+          pricing,
+        },
+      ],
+    });
+
+    test("accepts graduated tiers ending in an unbounded tier", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPricing({
+          model: "graduated",
+          tiers: [
+            { up_to: 10000, price_usdc: "0.01" },
+            { up_to: null, price_usdc: "0.008" },
+          ],
+        }),
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    test("rejects tiers whose bounds do not increase", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPricing({
+          model: "volume",
+          tiers: [
+            { up_to: 100, price_usdc: "0.01" },
+            { up_to: 50, price_usdc: "0.008" },
+            { up_to: null, price_usdc: "0.005" },
+          ],
+        }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual([
+        "endpoints",
+        0,
+        "pricing",
+        "tiers",
+      ]);
+    });
+
+    test("rejects volume tiers whose price goes up", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPricing({
+          model: "volume",
+          tiers: [
+            { up_to: 100, price_usdc: "0.01" },
+            { up_to: null, price_usdc: "0.02" },
+          ],
+        }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.message).toBe(
+        "Volume tier 2 price must not exceed the price of tier 1",
+      );
+    });
+
+    test("requires price_per_call_usdc to match the first tier", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPricing(
+          {
+            model: "graduated",
+            tiers: [
+              { up_to: 10, price_usdc: "0.01" },
+              { up_to: null, price_usdc: "0.005" },
+            ],
+          },
+          "0.02",
+        ),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual([
+        "endpoints",
+        0,
+        "price_per_call_usdc",
+      ]);
+    });
+
+    test("accepts unit pricing priced per call at the unit price", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPricing(
+          {
+            model: "unit",
+            unit_price_usdc: "0.000002",
+            max_units_per_call: 8000,
+            units_header: "X-Tokens-Used",
+          },
+          "0.000002",
+        ),
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    test("requires a positive integer max_units_per_call", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPricing({ model: "unit", unit_price_usdc: "0.01", max_units_per_call: 0 }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual([
+        "endpoints",
+        0,
+        "pricing",
+        "max_units_per_call",
+      ]);
+    });
+
+    test("accepts stream pricing priced per call at the minute price", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPricing(
+          { model: "stream", per_minute_usdc: "0.05", per_message_usdc: "0.0001" },
+          "0.05",
+        ),
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    test("requires a minute or message price for stream pricing", () => {
+      const result = apiRegistrationSchema.safeParse(withPricing({ model: "stream" }));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["endpoints", 0, "pricing"]);
+    });
+  });
+
+  describe("response cache", () => {
+    const withCache = (cache: unknown, method = "GET") => ({
+      name: "Rates API",
+      base_url: "https://api.rates.example.com",
+      category: "finance",
+      endpoints: [
+        {
+          path: "/rates",
+          method,
+          price_per_call_usdc: "0.01",
+          cache,
+        },
+      ],
+    });
+
+    test("accepts a cache policy on a GET endpoint", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withCache({ ttl_seconds: 60, vary_headers: ["Accept-Language"], hit_price_usdc: "0.002" }),
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    test("rejects a cache policy on other methods", () => {
+      const result = apiRegistrationSchema.safeParse(withCache({ ttl_seconds: 60 }, "POST"));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["endpoints", 0, "cache"]);
+    });
+
+    test("rejects a hit price above the per-call price", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withCache({ ttl_seconds: 60, hit_price_usdc: "0.02" }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["endpoints", 0, "cache", "hit_price_usdc"]);
+    });
+
+    test("rejects varying by credentials", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withCache({ ttl_seconds: 60, vary_headers: ["Authorization"] }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["endpoints", 0, "cache", "vary_headers", 0]);
+    });
+  });
+
+  describe("endpoint policy", () => {
+    const withPolicy = (policy: unknown) => ({
+      name: "Files API",
+      base_url: "https://api.files.example.com",
+      category: "storage",
+      endpoints: [
+        {
+          path: "/uploads",
+          method: "POST",
+          price_per_call_usdc: "0.01",
+          policy,
+        },
+      ],
+    });
+
+    test("accepts timeout, size and method limits", () => {
+      const result = apiRegistrationSchema.safeParse(
+        withPolicy({
+          timeout_ms: 5000,
+          max_request_body_bytes: 1_048_576,
+          max_response_bytes: 65_536,
+          allowed_methods: ["POST", "PUT"],
+        }),
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    test("rejects allowed methods without the endpoint's method", () => {
+      const result = apiRegistrationSchema.safeParse(withPolicy({ allowed_methods: ["GET"] }));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["endpoints", 0, "policy", "allowed_methods"]);
+    });
+
+    test("rejects a timeout below 100 ms", () => {
+      const result = apiRegistrationSchema.safeParse(withPolicy({ timeout_ms: 50 }));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(["endpoints", 0, "policy", "timeout_ms"]);
+    });
+  });
 });
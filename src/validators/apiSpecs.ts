@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+/**
+ * The outline of an OpenAPI 3 document. The rest is checked when the
+ * document is compiled (see services/apiSpecs.ts).
+ */
+export const openApiDocumentSchema = z
+  .object({
+    openapi: z.string().regex(/^3\.[01]\.\d+$/, "openapi must be a 3.0.x or 3.1.x version"),
+    info: z.object({
+      title: z.string(),
+      version: z.string(),
+    }).passthrough(),
+    paths: z.record(
+      z.string().refine((path) => path.startsWith("/"), "Paths must start with /"),
+      z.record(z.string(), z.unknown()),
+    ),
+  })
+  .passthrough();
+
+export const saveApiSpecSchema = z.object({
+  document: openApiDocumentSchema,
+  /** The version the change was made against; 0 when the API had no document. */
+  baseVersion: z.number().int().min(0).optional(),
+});
+
+export type SaveApiSpecInput = z.infer<typeof saveApiSpecSchema>;
@@ -1,8 +1,128 @@
 import { z } from "zod";
 import { httpMethodEnum } from "../db/schema.js";
+import { validatePriceTiers } from "../services/endpointPricing.js";
+import { API_VERSION_PATTERN } from "../services/apiVersions.js";
 
 const pricePerCallUsdcPattern = /^(0|[1-9]\d*)(\.\d+)?$/;
 
+const priceUsdcSchema = z
+  .string()
+  .trim()
+  .refine(
+    (value) => pricePerCallUsdcPattern.test(value),
+    "Price must be a non-negative decimal string",
+  );
+
+const tieredPricingSchema = z
+  .object({
+    model: z.enum(["graduated", "volume"]),
+    tiers: z
+      .array(
+        z.object({
+          up_to: z.number().int().positive().nullable(),
+          price_usdc: priceUsdcSchema,
+        }),
+      )
+      .min(1, "At least one tier is required")
+      .max(20, "Cannot define more than 20 tiers"),
+  })
+  .superRefine((pricing, ctx) => {
+    const problem = validatePriceTiers(
+      pricing.tiers.map((tier) => ({
+        upTo: tier.up_to,
+        priceUsdc: Number(tier.price_usdc),
+      })),
+      pricing.model,
+    );
+    if (problem) {
+      ctx.addIssue({ code: "custom", path: ["tiers"], message: problem });
+    }
+  });
+
+const unitPricingSchema = z.object({
+  model: z.literal("unit"),
+  unit_price_usdc: priceUsdcSchema,
+  max_units_per_call: z
+    .number()
+    .int()
+    .positive()
+    .max(1_000_000_000, "Cannot bill more than 1000000000 units per call"),
+  units_header: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9-]+$/, "Units header must be a valid header name")
+    .max(64)
+    .optional(),
+});
+
+const streamPricingSchema = z
+  .object({
+    model: z.literal("stream"),
+    per_minute_usdc: priceUsdcSchema.optional(),
+    per_message_usdc: priceUsdcSchema.optional(),
+  })
+  .refine(
+    (pricing) => pricing.per_minute_usdc !== undefined || pricing.per_message_usdc !== undefined,
+    "A per-minute or per-message price is required",
+  );
+
+const endpointPricingSchema = z.discriminatedUnion("model", [
+  tieredPricingSchema,
+  unitPricingSchema,
+  streamPricingSchema,
+]);
+
+/** Headers the gateway strips or owns never select a cache entry. */
+const UNVARIABLE_HEADERS = new Set(["authorization", "x-api-key", "cookie", "host"]);
+
+const endpointCacheSchema = z.object({
+  ttl_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(86_400, "Responses cannot be cached for more than 86400 seconds"),
+  vary_headers: z
+    .array(
+      z
+        .string()
+        .trim()
+        .regex(/^[A-Za-z0-9-]+$/, "Vary headers must be valid header names")
+        .max(64)
+        .refine(
+          (name) => !UNVARIABLE_HEADERS.has(name.toLowerCase()),
+          "Cannot vary the cache by credentials or Host",
+        ),
+    )
+    .max(10, "Cannot vary the cache by more than 10 headers")
+    .optional(),
+  hit_price_usdc: priceUsdcSchema.optional(),
+});
+
+const MAX_ENDPOINT_BYTES = 1024 ** 3;
+
+const endpointPolicySchema = z.object({
+  timeout_ms: z
+    .number()
+    .int()
+    .min(100, "Timeout must be at least 100 ms")
+    .max(600_000, "Timeout cannot exceed 600000 ms")
+    .optional(),
+  max_request_body_bytes: z.number().int().positive().max(MAX_ENDPOINT_BYTES).optional(),
+  max_response_bytes: z.number().int().positive().max(MAX_ENDPOINT_BYTES).optional(),
+  allowed_methods: z
+    .array(z.enum(httpMethodEnum))
+    .min(1, "At least one method is required")
+    .refine((methods) => new Set(methods).size === methods.length, "Methods must not repeat")
+    .optional(),
+});
+
+/** The price listings show for one call: the first tier's, one unit's, or a stream's minute or message. */
+const listedPriceUsdc = (pricing: z.infer<typeof endpointPricingSchema>): number => {
+  if (pricing.model === "unit") return Number(pricing.unit_price_usdc);
+  if (pricing.model === "stream") return Number(pricing.per_minute_usdc ?? pricing.per_message_usdc);
+  return Number(pricing.tiers[0].price_usdc);
+};
+
 const apiEndpointRegistrationSchema = z.object({
   path: z
     .string()
@@ -17,8 +137,41 @@ const apiEndpointRegistrationSchema = z.object({
       (value) => pricePerCallUsdcPattern.test(value),
       "Price per call must be a non-negative decimal string",
     ),
+  pricing: endpointPricingSchema.optional(),
+  cache: endpointCacheSchema.optional(),
+  policy: endpointPolicySchema.optional(),
   description: z.string().trim().min(1).optional(),
-});
+}).refine(
+  (endpoint) =>
+    !endpoint.pricing ||
+    listedPriceUsdc(endpoint.pricing) === Number(endpoint.price_per_call_usdc),
+  {
+    path: ["price_per_call_usdc"],
+    message: "Price per call must equal the first tier price, the unit price or the stream price",
+  },
+).refine((endpoint) => !endpoint.cache || endpoint.pricing?.model !== "stream", {
+  path: ["cache"],
+  message: "Streaming endpoints cannot be cached",
+}).refine((endpoint) => !endpoint.cache || endpoint.method === "GET", {
+  path: ["cache"],
+  message: "Only GET endpoints can be cached",
+}).refine(
+  (endpoint) =>
+    endpoint.cache?.hit_price_usdc === undefined ||
+    Number(endpoint.cache.hit_price_usdc) <= Number(endpoint.price_per_call_usdc),
+  {
+    path: ["cache", "hit_price_usdc"],
+    message: "Cache hit price cannot exceed the price per call",
+  },
+).refine(
+  (endpoint) =>
+    !endpoint.policy?.allowed_methods ||
+    endpoint.policy.allowed_methods.includes(endpoint.method),
+  {
+    path: ["policy", "allowed_methods"],
+    message: "Allowed methods must include the endpoint's method",
+  },
+);
 
 export const apiRegistrationSchema = z.object({
   name: z.string().trim().min(1, "Name is required"),
@@ -45,3 +198,45 @@ export const bulkEndpointsSchema = z.object({
 });
 
 export type BulkEndpointsInput = z.infer<typeof bulkEndpointsSchema>;
+
+export const importEndpointsSchema = z.object({
+  /** An OpenAPI 3 document, as an object or as JSON or YAML text. */
+  document: z.union([
+    z.string().trim().min(1, "Document is required"),
+    z.record(z.string(), z.unknown()),
+  ]),
+  default_price_usdc: priceUsdcSchema,
+  /** Applies the changes; without it the import is only previewed. */
+  commit: z.boolean().optional(),
+});
+
+export type ImportEndpointsInput = z.infer<typeof importEndpointsSchema>;
+
+export const publishApiVersionSchema = z.object({
+  /** Called as `/v1/call/<slug>@<version>`. */
+  version: z
+    .string()
+    .trim()
+    .regex(
+      API_VERSION_PATTERN,
+      "Version must be 1-32 letters, digits, '.', '-' or '_', starting with a letter or digit",
+    ),
+  base_url: z.url({ protocol: /^https?$/ }),
+  endpoints: z
+    .array(apiEndpointRegistrationSchema)
+    .min(1, "At least one endpoint is required")
+    .max(
+      MAX_BULK_ENDPOINTS,
+      `Cannot publish more than ${MAX_BULK_ENDPOINTS} endpoints in a version`,
+    ),
+});
+
+export type PublishApiVersionBody = z.infer<typeof publishApiVersionSchema>;
+
+export const deprecateApiVersionSchema = z.object({
+  sunset_at: z.iso.datetime({ offset: true }),
+  /** The version consumers should move to. */
+  successor: z.string().trim().min(1).nullable().optional(),
+});
+
+export type DeprecateApiVersionBody = z.infer<typeof deprecateApiVersionSchema>;
@@ -12,7 +12,7 @@
  *     "code": "VALIDATION_ERROR",
  *     "message": "Request validation failed",
  *     "details": [
- *       { "field": "body.walletAddress", "message": "Wallet address is required", "code": "TOO_SMALL" }
+ *       { "field": "body.transaction", "message": "Transaction is required", "code": "TOO_SMALL" }
  *     ]
  *   },
  *   "requestId": "...",
@@ -21,28 +21,59 @@
  * ```
  */
 
+import { StrKey } from '@stellar/stellar-sdk';
 import { z } from 'zod';
 
 // ---------------------------------------------------------------------------
-// POST /auth/wallet
+// GET /auth/wallet/challenge  &  POST /auth/wallet
 // ---------------------------------------------------------------------------
 
+const stellarAccountSchema = z
+  .string()
+  .min(1, 'Account is required')
+  .refine((value) => StrKey.isValidEd25519PublicKey(value), 'Account must be a Stellar public key (G…)');
+
+/**
+ * Query schema for requesting a SEP-10 challenge.
+ *
+ * - `account` – the Stellar public key (G… address) that will sign in
+ */
+export const walletChallengeQuerySchema = z.object({
+  account: stellarAccountSchema,
+});
+
+export type WalletChallengeQuery = z.infer<typeof walletChallengeQuerySchema>;
+
 /**
  * Body schema for wallet-based login.
  *
- * All three fields are required non-empty strings:
- * - `walletAddress` – the Stellar public key (G… address) initiating the login
- * - `signature`     – the hex/base64 signature produced by the wallet
- * - `message`       – the exact message that was signed
+ * - `transaction` – the base64 XDR of the challenge from
+ *   `GET /auth/wallet/challenge`, co-signed by the wallet
  */
 export const walletLoginSchema = z.object({
-  walletAddress: z.string().min(1, 'Wallet address is required'),
-  signature: z.string().min(1, 'Signature is required'),
-  message: z.string().min(1, 'Message is required'),
+  transaction: z.string().min(1, 'Transaction is required'),
 });
 
 export type WalletLoginInput = z.infer<typeof walletLoginSchema>;
 
+// ---------------------------------------------------------------------------
+// GET /auth/sso/:provider/authorize  &  POST /auth/sso/:provider/callback
+// ---------------------------------------------------------------------------
+
+/**
+ * Body schema for completing an SSO login.
+ *
+ * - `code`  – the authorization code the identity provider redirected with
+ * - `state` – the state from `GET /auth/sso/:provider/authorize`, echoed back
+ *   by the identity provider
+ */
+export const ssoCallbackSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+  state: z.string().min(1, 'State is required'),
+});
+
+export type SsoCallbackInput = z.infer<typeof ssoCallbackSchema>;
+
 // ---------------------------------------------------------------------------
 // POST /auth/refresh  &  POST /auth/revoke
 // ---------------------------------------------------------------------------
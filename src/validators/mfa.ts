@@ -0,0 +1,27 @@
+/**
+ * Zod validation schemas for the MFA endpoints (`/api/mfa` and
+ * `/api/admin/mfa`). Failures become the standard 400 `VALIDATION_ERROR`.
+ */
+
+import { z } from 'zod';
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+/** `POST /mfa/enroll/confirm` — a code from the newly added authenticator. */
+export const mfaConfirmSchema = z.object({
+  code: totpCodeSchema,
+});
+
+/** `POST /mfa/verify` — a current code, or one of the recovery codes. */
+export const mfaVerifySchema = z
+  .object({
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).max(32).optional(),
+  })
+  .refine((body) => (body.code === undefined) !== (body.recoveryCode === undefined), {
+    message: 'Provide either code or recoveryCode',
+    path: [],
+  });
+
+export type MfaConfirmInput = z.infer<typeof mfaConfirmSchema>;
+export type MfaVerifyInput = z.infer<typeof mfaVerifySchema>;
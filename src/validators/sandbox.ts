@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/** RFC 7230 `token` — the characters allowed in a header field name. */
+const headerNamePattern = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Headers the gateway sets on every response, or that depend on how the
+ * body is framed. A fixture may not set them.
+ */
+const RESERVED_HEADER_NAMES = new Set([
+  "connection",
+  "content-length",
+  "transfer-encoding",
+  "x-request-id",
+]);
+
+export const sandboxBaseUrlSchema = z.object({
+  /** Null removes the base URL. */
+  baseUrl: z.string().trim().url("baseUrl must be a valid URL").nullable(),
+});
+
+export type SandboxBaseUrlInput = z.infer<typeof sandboxBaseUrlSchema>;
+
+export const sandboxFixtureSchema = z.object({
+  /** Omitted or null to answer every method. */
+  method: z
+    .enum(["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"])
+    .nullable()
+    .optional(),
+  path: z
+    .string()
+    .trim()
+    .max(512, "path must be at most 512 characters")
+    .refine((value) => value === "*" || value.startsWith("/"), "path must start with / or be *"),
+  status: z.number().int().min(200).max(599).default(200),
+  headers: z
+    .record(
+      z.string(),
+      z.string().max(4096).refine((value) => !/[\r\n]/.test(value), "Header values must not contain line breaks"),
+    )
+    .superRefine((headers, ctx) => {
+      for (const name of Object.keys(headers)) {
+        if (!headerNamePattern.test(name)) {
+          ctx.addIssue({ code: "custom", path: [name], message: "Header names must be valid HTTP header names" });
+        } else if (RESERVED_HEADER_NAMES.has(name.toLowerCase()) || name.toLowerCase().startsWith("x-callora-")) {
+          ctx.addIssue({ code: "custom", path: [name], message: `${name} is set by the gateway` });
+        }
+      }
+    })
+    .default({}),
+  /** A string is sent as is; anything else as JSON. */
+  body: z.unknown().optional().default(null),
+});
+
+export type SandboxFixtureBody = z.infer<typeof sandboxFixtureSchema>;
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { MAX_TRANSFORM_RULES } from "../services/transformRules.js";
+
+/** RFC 7230 `token` — the characters allowed in a header field name. */
+const headerNamePattern = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Headers the gateway owns in either direction. Rules that touch them would
+ * break framing, request tracing or authentication.
+ */
+const RESERVED_HEADER_NAMES = new Set([
+  "host",
+  "connection",
+  "keep-alive",
+  "upgrade",
+  "content-length",
+  "transfer-encoding",
+  "x-request-id",
+  "x-api-key",
+  "authorization",
+]);
+
+const headerName = z
+  .string()
+  .trim()
+  .regex(headerNamePattern, "Header names must be valid HTTP header names")
+  .transform((value) => value.toLowerCase())
+  .refine(
+    (value) => !RESERVED_HEADER_NAMES.has(value) && !value.startsWith("x-callora-"),
+    "Header is reserved by the gateway",
+  );
+
+const headerValue = z
+  .string()
+  .max(4096, "Header values must be at most 4096 characters")
+  .refine((value) => !/[\r\n]/.test(value), "Header values must not contain line breaks");
+
+const rulePath = z
+  .string()
+  .trim()
+  .max(512, "Paths must be at most 512 characters")
+  .refine((value) => value.startsWith("/"), "Paths must start with /")
+  .refine((value) => !/[?#]/.test(value), "Paths must not contain a query string or fragment");
+
+const headerRules = [
+  z.object({ type: z.literal("rename_header"), from: headerName, to: headerName }),
+  z.object({ type: z.literal("set_header"), name: headerName, value: headerValue }),
+  z.object({ type: z.literal("remove_header"), name: headerName }),
+] as const;
+
+export const requestTransformRuleSchema = z.discriminatedUnion("type", [
+  ...headerRules,
+  z.object({ type: z.literal("rewrite_path"), from: rulePath, to: rulePath }),
+  z.object({
+    type: z.literal("set_query"),
+    name: z.string().trim().min(1, "name is required").max(128),
+    value: z.string().max(2048),
+  }),
+]);
+
+export const responseTransformRuleSchema = z.discriminatedUnion("type", [
+  ...headerRules,
+  z.object({
+    type: z.literal("map_error"),
+    /** An exact status from 400 to 599, or `4xx` / `5xx`. */
+    upstreamStatus: z.union([z.number().int().min(400).max(599), z.enum(["4xx", "5xx"])]),
+    code: z
+      .string()
+      .regex(/^[A-Z][A-Z0-9_]{1,63}$/, "code must be UPPER_SNAKE_CASE"),
+    message: z.string().trim().min(1, "message is required").max(500),
+    /** Status sent to the caller; the upstream's when omitted. */
+    status: z.number().int().min(400).max(599).optional(),
+  }),
+]);
+
+export const transformRulesSchema = z.object({
+  request: z
+    .array(requestTransformRuleSchema)
+    .max(MAX_TRANSFORM_RULES, `At most ${MAX_TRANSFORM_RULES} request rules are allowed`)
+    .default([]),
+  response: z
+    .array(responseTransformRuleSchema)
+    .max(MAX_TRANSFORM_RULES, `At most ${MAX_TRANSFORM_RULES} response rules are allowed`)
+    .default([]),
+});
+
+export type TransformRulesInput = z.infer<typeof transformRulesSchema>;
+
+export const saveTransformRulesSchema = transformRulesSchema.extend({
+  /** The version the change was made against; 0 when the API had no rules. */
+  baseVersion: z.number().int().min(0).optional(),
+});
+
+export const rollbackTransformRulesSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+export const transformDryRunSchema = z.object({
+  /** Rules to try; the API's current rules when omitted. */
+  rules: transformRulesSchema.optional(),
+  request: z.object({
+    path: z.string().trim().max(2048).default("/"),
+    query: z.record(z.string(), z.string()).default({}),
+    headers: z.record(z.string(), z.string()).default({}),
+  }),
+  response: z
+    .object({
+      status: z.number().int().min(100).max(599),
+      headers: z.record(z.string(), z.string()).default({}),
+      body: z.unknown().optional(),
+    })
+    .optional(),
+});
+
+export type TransformDryRunInput = z.infer<typeof transformDryRunSchema>;
@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+/** RFC 7230 `token` — the characters allowed in a header field name. */
+const headerNamePattern = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Headers the gateway owns. Letting a provider credential overwrite these
+ * would break framing or request tracing.
+ */
+const RESERVED_HEADER_NAMES = new Set([
+  "host",
+  "connection",
+  "content-length",
+  "content-type",
+  "transfer-encoding",
+  "cookie",
+  "x-request-id",
+  "x-api-key",
+]);
+
+const secretValue = z
+  .string()
+  .min(1, "Secret must not be empty")
+  .max(4096, "Secret must be at most 4096 characters")
+  .refine((value) => !/[\r\n]/.test(value), "Secret must not contain line breaks");
+
+export const upstreamCredentialSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bearer"),
+    token: secretValue,
+  }),
+  z.object({
+    type: z.literal("header"),
+    headerName: z
+      .string()
+      .trim()
+      .regex(headerNamePattern, "headerName must be a valid HTTP header name")
+      .refine(
+        (value) =>
+          !RESERVED_HEADER_NAMES.has(value.toLowerCase()) &&
+          !value.toLowerCase().startsWith("x-callora-"),
+        "headerName is reserved by the gateway",
+      ),
+    value: secretValue,
+  }),
+  z.object({
+    type: z.literal("query"),
+    paramName: z.string().trim().min(1, "paramName is required").max(128),
+    value: secretValue,
+  }),
+  z.object({
+    type: z.literal("hmac"),
+    secret: secretValue,
+  }),
+]);
+
+export type UpstreamCredentialInput = z.infer<typeof upstreamCredentialSchema>;
+
+export const rotateUpstreamCredentialSchema = z.object({
+  secret: secretValue,
+});
+
+export type RotateUpstreamCredentialInput = z.infer<
+  typeof rotateUpstreamCredentialSchema
+>;
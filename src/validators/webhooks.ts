@@ -5,6 +5,8 @@ export const webhookManagementEvents = [
   'settlement_completed',
   'low_balance_alert',
   'usage_event.created',
+  'api_key.spend_cap.reached',
+  'api.version.deprecated',
 ] as const;
 
 export const webhookDeliveryEvents = [
@@ -6,7 +6,9 @@ export type WebhookEventType =
     | 'invoice_created'
     | 'usage.anomaly.detected'
     | 'fee_abstraction.executed'
-    | 'usage_event.created';
+    | 'usage_event.created'
+    | 'api_key.spend_cap.reached'
+    | 'api.version.deprecated';
 
 export interface RetryPolicy {
   maxRetries?: number;
@@ -114,6 +116,37 @@ export interface QuotaThresholdReachedData {
     usagePercent: number;
 }
 
+/** Fired when an API key's spend crosses 80% or 100% of a daily or monthly budget. */
+export interface ApiKeySpendCapReachedData {
+    apiKeyId: string;
+    apiId: string;
+    /** Budget window: the UTC calendar day or month. */
+    window: 'daily' | 'monthly';
+    /** The window's period: "YYYY-MM-DD" for daily, "YYYY-MM" for monthly. */
+    period: string;
+    /** Threshold percentage that was crossed: 80 | 100. */
+    threshold: 80 | 100;
+    /** USDC spent with the key in the window, including the triggering call. */
+    spentUsdc: number;
+    /** The key's budget for the window, in USDC. */
+    limitUsdc: number;
+}
+
+/** Fired to each subscriber when a provider deprecates a version of an API. */
+export interface ApiVersionDeprecatedData {
+    apiId: string;
+    /** The deprecated version, as called with `/v1/call/<slug>@<version>`. */
+    version: string;
+    /** ISO 8601 time the version was deprecated. */
+    deprecatedAt: string;
+    /** ISO 8601 time calls to the version start failing with 410. */
+    sunsetAt: string;
+    /** The version the provider asks consumers to move to, if any. */
+    successor: string | null;
+    /** Whether the subscriber's own subscription is pinned to the version. */
+    pinned: boolean;
+}
+
 /**
  * Fired when a new usage event is recorded for a developer's API call.
  * Contains the metered usage details for the request that was just processed.
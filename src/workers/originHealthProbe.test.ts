@@ -0,0 +1,93 @@
+import { logger } from '../logger.js';
+import { InMemoryApiRegistry } from '../data/apiRegistry.js';
+import { OriginBalancer } from '../services/upstreamOrigins.js';
+import type { ApiRegistryEntry } from '../types/gateway.js';
+import {
+  createOriginHealthProbeJob,
+  probeRegistryOrigins,
+} from './originHealthProbe.js';
+
+const MULTI_ORIGIN: ApiRegistryEntry = {
+  id: 'api_multi',
+  slug: 'multi',
+  base_url: 'http://localhost:7001',
+  developerId: 'dev_1',
+  endpoints: [],
+  origins: [
+    { id: 'up', url: 'http://localhost:7001', weight: 1, healthPath: '/healthz' },
+    { id: 'down', url: 'http://localhost:7002', weight: 1 },
+    { id: 'gone', url: 'http://localhost:7003', weight: 1 },
+  ],
+};
+
+const SINGLE_ORIGIN: ApiRegistryEntry = {
+  id: 'api_single',
+  slug: 'single',
+  base_url: 'http://localhost:7004',
+  developerId: 'dev_1',
+  endpoints: [],
+};
+
+const OPTIONS = { timeoutMs: 500, allowedHosts: ['localhost'] };
+
+describe('originHealthProbe', () => {
+  let originalFetch: typeof global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    fetchMock = jest.fn(async (url: string) => {
+      if (url === 'http://localhost:7001/healthz') return new Response('ok', { status: 200 });
+      if (url === 'http://localhost:7002/') return new Response('down', { status: 503 });
+      throw new TypeError('fetch failed');
+    });
+    global.fetch = fetchMock as unknown as typeof global.fetch;
+    jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('probes the origins of multi-origin APIs and records their health', async () => {
+    const balancer = new OriginBalancer();
+    const registry = new InMemoryApiRegistry([MULTI_ORIGIN, SINGLE_ORIGIN]);
+
+    const probed = await probeRegistryOrigins(registry, { ...OPTIONS, balancer });
+
+    expect(probed).toBe(3);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(balancer.get('api_multi-origin-up')).toEqual(
+      expect.objectContaining({ healthy: true, lastProbeStatus: 200 }),
+    );
+    expect(balancer.get('api_multi-origin-down')).toEqual(
+      expect.objectContaining({ healthy: false, lastProbeStatus: 503 }),
+    );
+    expect(balancer.get('api_multi-origin-gone')).toEqual(
+      expect.objectContaining({ healthy: false, lastProbeStatus: null }),
+    );
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs a probe round on start and stops cleanly', async () => {
+    const balancer = new OriginBalancer();
+    const job = createOriginHealthProbeJob(new InMemoryApiRegistry([MULTI_ORIGIN]), {
+      ...OPTIONS,
+      intervalMs: 60_000,
+      balancer,
+    });
+
+    job.start();
+    job.beginShutdown();
+    await job.awaitIdle();
+
+    expect(balancer.get('api_multi-origin-up')?.lastProbeAt).not.toBeNull();
+  });
+
+  it('rejects a non-positive interval', () => {
+    expect(() => createOriginHealthProbeJob(new InMemoryApiRegistry(), { ...OPTIONS, intervalMs: 0 }))
+      .toThrow('intervalMs must be a positive integer');
+  });
+});
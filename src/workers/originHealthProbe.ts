@@ -0,0 +1,169 @@
+import { logger } from "../logger.js";
+import { setGatewayUpstreamOriginHealthy } from "../metrics.js";
+import {
+  buildUpstreamTargetUrl,
+  validateResolvedUpstreamTarget,
+} from "../lib/upstreamTarget.js";
+import {
+  defaultOriginBalancer,
+  resolveOrigins,
+  type OriginBalancer,
+  type OriginProbeResult,
+  type ResolvedOrigin,
+} from "../services/upstreamOrigins.js";
+import type { ApiRegistry } from "../types/gateway.js";
+
+const REGISTRY_PAGE_SIZE = 100;
+
+export interface OriginHealthProbeJobOptions {
+  intervalMs: number;
+  /** Probes without a response within this are unhealthy. */
+  timeoutMs: number;
+  /** Hosts the gateway may contact, as for proxied calls. */
+  allowedHosts: string[];
+  balancer?: OriginBalancer;
+  logger?: Pick<typeof logger, "error" | "info" | "warn">;
+}
+
+export interface OriginHealthProbeJob {
+  start(): void;
+  stop(): void;
+  beginShutdown(): void;
+  awaitIdle(): Promise<void>;
+}
+
+/**
+ * Requests the origin's health path. Any response below 500 counts as
+ * healthy; 5xx responses, timeouts and connection errors do not.
+ */
+export async function probeOrigin(
+  origin: ResolvedOrigin,
+  options: Pick<OriginHealthProbeJobOptions, "timeoutMs" | "allowedHosts">,
+): Promise<OriginProbeResult> {
+  const startedAt = Date.now();
+  try {
+    const target = await validateResolvedUpstreamTarget(
+      buildUpstreamTargetUrl(origin.url, origin.healthPath ?? "/"),
+      { allowedHosts: options.allowedHosts },
+    );
+    const res = await fetch(target, {
+      method: "GET",
+      redirect: "manual",
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+    await res.body?.cancel();
+    return {
+      healthy: res.status < 500,
+      latencyMs: Date.now() - startedAt,
+      status: res.status,
+    };
+  } catch {
+    return { healthy: false, latencyMs: Date.now() - startedAt, status: null };
+  }
+}
+
+/**
+ * Probes every origin of every API in the registry that lists `origins`,
+ * and records the results. Returns the number of origins probed.
+ */
+export async function probeRegistryOrigins(
+  registry: ApiRegistry,
+  options: Omit<OriginHealthProbeJobOptions, "intervalMs">,
+): Promise<number> {
+  const balancer = options.balancer ?? defaultOriginBalancer;
+  const log = options.logger ?? logger;
+  const origins: ResolvedOrigin[] = [];
+
+  let cursor: string | null = null;
+  do {
+    const page = registry.list(cursor, REGISTRY_PAGE_SIZE);
+    for (const entry of page.entries) {
+      if (entry.origins?.length) origins.push(...resolveOrigins(entry));
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  await Promise.all(
+    origins.map(async (origin) => {
+      const result = await probeOrigin(origin, options);
+      const wasHealthy = balancer.get(origin.breakerKey)?.healthy ?? true;
+      balancer.recordProbe(origin, result);
+      setGatewayUpstreamOriginHealthy(origin.apiId, origin.id, result.healthy);
+      if (wasHealthy !== result.healthy) {
+        log.warn("[originHealthProbe] Origin health changed", {
+          apiId: origin.apiId,
+          originId: origin.id,
+          healthy: result.healthy,
+          status: result.status,
+        });
+      }
+    }),
+  );
+
+  return origins.length;
+}
+
+export function createOriginHealthProbeJob(
+  registry: ApiRegistry,
+  options: OriginHealthProbeJobOptions,
+): OriginHealthProbeJob {
+  const log = options.logger ?? logger;
+
+  if (!Number.isInteger(options.intervalMs) || options.intervalMs <= 0) {
+    throw new Error("intervalMs must be a positive integer");
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+  let accepting = true;
+  let running: Promise<void> | null = null;
+
+  const tick = async (): Promise<void> => {
+    if (!accepting || running) {
+      return;
+    }
+
+    running = (async () => {
+      try {
+        await probeRegistryOrigins(registry, { ...options, logger: log });
+      } catch (error) {
+        log.error("[originHealthProbe] Job failed", { error });
+      } finally {
+        running = null;
+      }
+    })();
+
+    await running;
+  };
+
+  return {
+    start() {
+      if (timer || !accepting) {
+        return;
+      }
+      void tick();
+      timer = setInterval(() => {
+        void tick();
+      }, options.intervalMs);
+    },
+
+    stop() {
+      if (!timer) {
+        return;
+      }
+      clearInterval(timer);
+      timer = null;
+    },
+
+    beginShutdown() {
+      accepting = false;
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+
+    async awaitIdle() {
+      await (running ?? Promise.resolve());
+    },
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * A minimal OpenID Connect provider for exercising SSO without a real IdP.
+ *
+ * Serves discovery, JWKS, `/authorize` and `/token`. `/authorize` signs the
+ * current user in at once and redirects back with a code; `/token` checks
+ * the PKCE verifier and returns an RS256 ID token carrying the login's nonce.
+ * `rotateKeys()` replaces the signing key so key rotation can be tested.
+ *
+ * Also runnable for local development: `npm run sso:stub-idp`.
+ */
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import type { Server } from 'node:http';
+import { createHash, generateKeyPairSync, randomBytes, type KeyObject } from 'node:crypto';
+
+export interface StubIdpUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export interface StubIdpOptions {
+  clientId: string;
+  clientSecret?: string;
+  user: StubIdpUser;
+  port?: number;
+}
+
+export interface StubIdp {
+  issuer: string;
+  /** Who `/authorize` signs in next. */
+  user: StubIdpUser;
+  /** Extra claims merged into the next ID tokens, e.g. a wrong `aud`. */
+  claimOverrides: Record<string, unknown>;
+  /** Count of JWKS requests served. */
+  jwksRequests: number;
+  rotateKeys(): void;
+  /** Runs `/authorize` the way a browser would, returning the redirect's code and state. */
+  authorize(authorizationUrl: string): Promise<{ code: string; state: string }>;
+  close(): Promise<void>;
+}
+
+interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  user: StubIdpUser;
+}
+
+function newSigningKey(): SigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid: randomBytes(8).toString('hex'), privateKey, publicKey };
+}
+
+export async function startStubIdp(options: StubIdpOptions): Promise<StubIdp> {
+  let key = newSigningKey();
+  const codes = new Map<string, IssuedCode>();
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  const idp: StubIdp = {
+    issuer: '',
+    user: options.user,
+    claimOverrides: {},
+    jwksRequests: 0,
+    rotateKeys: () => {
+      key = newSigningKey();
+    },
+    authorize: async (authorizationUrl) => {
+      const res = await fetch(authorizationUrl, { redirect: 'manual' });
+      const location = new URL(res.headers.get('location') ?? '');
+      return { code: location.searchParams.get('code') ?? '', state: location.searchParams.get('state') ?? '' };
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer: idp.issuer,
+      authorization_endpoint: `${idp.issuer}/authorize`,
+      token_endpoint: `${idp.issuer}/token`,
+      jwks_uri: `${idp.issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    idp.jwksRequests += 1;
+    res.json({ keys: [{ ...key.publicKey.export({ format: 'jwk' }), kid: key.kid, use: 'sig', alg: 'RS256' }] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, login_hint } =
+      req.query as Record<string, string | undefined>;
+    if (client_id !== options.clientId || !redirect_uri || code_challenge_method !== 'S256' || !code_challenge) {
+      res.status(400).json({ error: 'invalid_request' });
+      return;
+    }
+
+    // `login_hint` picks another user when the stub is run by hand.
+    const user = login_hint
+      ? { sub: createHash('sha256').update(login_hint).digest('hex').slice(0, 16), email: login_hint, email_verified: true }
+      : idp.user;
+    const code = randomBytes(16).toString('hex');
+    codes.set(code, { clientId: client_id, redirectUri: redirect_uri, codeChallenge: code_challenge, nonce, user });
+
+    const location = new URL(redirect_uri);
+    location.searchParams.set('code', code);
+    if (state) location.searchParams.set('state', state);
+    res.redirect(302, location.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    const { grant_type, code, redirect_uri, client_id, client_secret, code_verifier } = req.body as Record<string, string>;
+    const issued = codes.get(code);
+    codes.delete(code);
+
+    const verifierMatches = !!code_verifier
+      && createHash('sha256').update(code_verifier).digest('base64url') === issued?.codeChallenge;
+    if (
+      grant_type !== 'authorization_code'
+      || !issued
+      || issued.clientId !== client_id
+      || issued.redirectUri !== redirect_uri
+      || (options.clientSecret !== undefined && client_secret !== options.clientSecret)
+      || !verifierMatches
+    ) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = jwt.sign(
+      {
+        ...issued.user,
+        iss: idp.issuer,
+        aud: options.clientId,
+        iat: now,
+        exp: now + 300,
+        nonce: issued.nonce,
+        ...idp.claimOverrides,
+      },
+      key.privateKey,
+      { algorithm: 'RS256', keyid: key.kid },
+    );
+    res.json({ access_token: randomBytes(16).toString('hex'), token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(options.port ?? 0, () => resolve(listening));
+  });
+  const address = server.address();
+  idp.issuer = `http://localhost:${address && typeof address === 'object' ? address.port : options.port}`;
+  return idp;
+}
@@ -162,7 +162,7 @@ describe('admin usage inspection and reset endpoints', () => {
     expect(JSON.stringify(res.body)).not.toContain('secret-api-key');
     expect(logger.audit).toHaveBeenCalledWith(
       'READ_USAGE_AGGREGATE',
-      'admin-api-key',
+      'super-admin:admin-api-key',
       expect.objectContaining({ developerId: 'dev_001', totalEvents: 2 }),
     );
   });
@@ -183,7 +183,7 @@ describe('admin usage inspection and reset endpoints', () => {
     }));
     expect(logger.audit).toHaveBeenCalledWith(
       'RESET_USAGE_AGGREGATE',
-      'admin-api-key',
+      'super-admin:admin-api-key',
       expect.objectContaining({
         developerId: 'dev_001',
         priorValues: expect.objectContaining({ totalEvents: 2 }),
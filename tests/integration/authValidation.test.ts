@@ -2,7 +2,8 @@
  * Focused tests for auth request validation.
  *
  * Coverage:
- *  1. Unit tests for walletLoginSchema and refreshTokenSchema (Zod layer)
+ *  1. Unit tests for walletLoginSchema, walletChallengeQuerySchema and
+ *     refreshTokenSchema (Zod layer)
  *  2. Integration tests verifying that bodyValidator produces structured
  *     HTTP 400 responses with the expected error envelope shape when the
  *     auth routes receive invalid payloads.
@@ -13,7 +14,12 @@ import request from 'supertest';
 import express from 'express';
 import { errorHandler } from '../../src/middleware/errorHandler.js';
 import { bodyValidator } from '../../src/middleware/validate.js';
-import { walletLoginSchema, refreshTokenSchema } from '../../src/validators/auth.js';
+import { Keypair } from '@stellar/stellar-sdk';
+import {
+  walletChallengeQuerySchema,
+  walletLoginSchema,
+  refreshTokenSchema,
+} from '../../src/validators/auth.js';
 import { createAuthRoutes } from '../../src/routes/authRoutes.js';
 import { AuthController } from '../../src/controllers/authController.js';
 import { RefreshTokenService } from '../../src/services/refreshTokenService.js';
@@ -65,74 +71,40 @@ function buildApp() {
 // ---------------------------------------------------------------------------
 describe('walletLoginSchema', () => {
   it('accepts a valid payload', () => {
-    const result = walletLoginSchema.safeParse({
-      walletAddress: 'GDTEST123STELLAR',
-      signature: 'abc123sig',
-      message: 'Login to Callora',
-    });
+    const result = walletLoginSchema.safeParse({ transaction: 'AAAAAgAAAAB…' });
     expect(result.success).toBe(true);
   });
 
-  it('rejects when walletAddress is missing', () => {
-    const result = walletLoginSchema.safeParse({
-      signature: 'abc123sig',
-      message: 'Login to Callora',
-    });
+  it('rejects when transaction is missing', () => {
+    const result = walletLoginSchema.safeParse({});
     expect(result.success).toBe(false);
     if (!result.success) {
       const fields = result.error.issues.map((i) => i.path.join('.'));
-      expect(fields).toContain('walletAddress');
+      expect(fields).toContain('transaction');
     }
   });
 
-  it('rejects when walletAddress is an empty string', () => {
-    const result = walletLoginSchema.safeParse({
-      walletAddress: '',
-      signature: 'abc123sig',
-      message: 'Login to Callora',
-    });
+  it('rejects when transaction is an empty string', () => {
+    const result = walletLoginSchema.safeParse({ transaction: '' });
     expect(result.success).toBe(false);
   });
 
-  it('rejects when signature is missing', () => {
-    const result = walletLoginSchema.safeParse({
-      walletAddress: 'GDTEST123',
-      message: 'Login to Callora',
-    });
+  it('rejects non-string transaction', () => {
+    const result = walletLoginSchema.safeParse({ transaction: 12345 });
     expect(result.success).toBe(false);
-    if (!result.success) {
-      const fields = result.error.issues.map((i) => i.path.join('.'));
-      expect(fields).toContain('signature');
-    }
-  });
-
-  it('rejects when message is missing', () => {
-    const result = walletLoginSchema.safeParse({
-      walletAddress: 'GDTEST123',
-      signature: 'abc123sig',
-    });
-    expect(result.success).toBe(false);
-    if (!result.success) {
-      const fields = result.error.issues.map((i) => i.path.join('.'));
-      expect(fields).toContain('message');
-    }
   });
+});
 
-  it('rejects an empty object', () => {
-    const result = walletLoginSchema.safeParse({});
-    expect(result.success).toBe(false);
-    if (!result.success) {
-      expect(result.error.issues.length).toBeGreaterThanOrEqual(3);
-    }
+describe('walletChallengeQuerySchema', () => {
+  it('accepts a Stellar public key', () => {
+    const result = walletChallengeQuerySchema.safeParse({ account: Keypair.random().publicKey() });
+    expect(result.success).toBe(true);
   });
 
-  it('rejects non-string walletAddress', () => {
-    const result = walletLoginSchema.safeParse({
-      walletAddress: 12345,
-      signature: 'sig',
-      message: 'msg',
-    });
-    expect(result.success).toBe(false);
+  it('rejects anything else', () => {
+    expect(walletChallengeQuerySchema.safeParse({ account: 'GDTEST123STELLAR' }).success).toBe(false);
+    expect(walletChallengeQuerySchema.safeParse({ account: Keypair.random().secret() }).success).toBe(false);
+    expect(walletChallengeQuerySchema.safeParse({}).success).toBe(false);
   });
 });
 
@@ -184,43 +156,24 @@ describe('bodyValidator middleware — auth schemas', () => {
     beforeEach(() => { app = buildMiddlewareApp(walletLoginSchema); });
 
     it('passes through a valid body', async () => {
-      const res = await request(app).post('/test').send({
-        walletAddress: 'GDTEST123',
-        signature: 'sig',
-        message: 'msg',
-      });
+      const res = await request(app).post('/test').send({ transaction: 'AAAAAgAAAAB…' });
       expect(res.status).toBe(200);
       expect(res.body.ok).toBe(true);
     });
 
     it('returns 400 with VALIDATION_ERROR code for a missing field', async () => {
-      const res = await request(app).post('/test').send({
-        walletAddress: 'GDTEST123',
-        // signature missing
-        message: 'msg',
-      });
+      const res = await request(app).post('/test').send({});
       expect(res.status).toBe(400);
       // errorHandler wraps in error envelope
       expect(res.body.success).toBe(false);
       expect(res.body.error.code).toBe('VALIDATION_ERROR');
     });
 
-    it('includes field-level details for missing walletAddress', async () => {
-      const res = await request(app).post('/test').send({
-        signature: 'sig',
-        message: 'msg',
-      });
-      expect(res.status).toBe(400);
-      const details = res.body.error?.details ?? [];
-      const walletField = details.find((d: any) => d.field?.includes('walletAddress'));
-      expect(walletField).toBeDefined();
-    });
-
-    it('returns 400 for an empty body', async () => {
+    it('includes field-level details for missing transaction', async () => {
       const res = await request(app).post('/test').send({});
-      expect(res.status).toBe(400);
-      expect(res.body.error.code).toBe('VALIDATION_ERROR');
-      expect(res.body.error.details.length).toBeGreaterThanOrEqual(3);
+      const details = res.body.error?.details ?? [];
+      const transactionField = details.find((d: any) => d.field?.includes('transaction'));
+      expect(transactionField).toBeDefined();
     });
   });
 
@@ -273,56 +226,41 @@ describe('POST /auth/wallet — Zod validation (integration)', () => {
     expect(Array.isArray(res.body.error.details)).toBe(true);
   });
 
-  it('returns 400 when walletAddress is missing', async () => {
-    const res = await request(app)
-      .post('/auth/wallet')
-      .send({ signature: 'sig', message: 'msg' });
+  it('returns 400 when transaction is an empty string', async () => {
+    const res = await request(app).post('/auth/wallet').send({ transaction: '' });
     expect(res.status).toBe(400);
-    const details = res.body.error?.details ?? [];
-    const walletErr = details.find((d: any) => d.field?.includes('walletAddress'));
-    expect(walletErr).toBeDefined();
-    expect(walletErr.message).toBe('Wallet address is required');
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
   });
 
-  it('returns 400 when signature is missing', async () => {
-    const res = await request(app)
-      .post('/auth/wallet')
-      .send({ walletAddress: 'GDTEST', message: 'msg' });
-    expect(res.status).toBe(400);
-    const details = res.body.error?.details ?? [];
-    expect(details.find((d: any) => d.field?.includes('signature'))).toBeDefined();
+  it('returns requestId and timestamp in the error envelope', async () => {
+    const res = await request(app).post('/auth/wallet').send({});
+    expect(res.body.requestId).toBeDefined();
+    expect(res.body.timestamp).toBeDefined();
   });
 
-  it('returns 400 when message is missing', async () => {
-    const res = await request(app)
-      .post('/auth/wallet')
-      .send({ walletAddress: 'GDTEST', signature: 'sig' });
-    expect(res.status).toBe(400);
-    const details = res.body.error?.details ?? [];
-    expect(details.find((d: any) => d.field?.includes('message'))).toBeDefined();
+  it('passes Zod validation and reaches the controller (503 without wallet sign-in configured)', async () => {
+    const res = await request(app).post('/auth/wallet').send({ transaction: 'AAAAAgAAAAB…' });
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe('WALLET_AUTH_NOT_CONFIGURED');
   });
+});
 
-  it('returns 400 when walletAddress is an empty string', async () => {
-    const res = await request(app)
-      .post('/auth/wallet')
-      .send({ walletAddress: '', signature: 'sig', message: 'msg' });
+describe('GET /auth/wallet/challenge — Zod validation (integration)', () => {
+  let app: express.Express;
+  beforeEach(() => { app = buildApp(); });
+
+  it('returns 400 when account is not a Stellar public key', async () => {
+    const res = await request(app).get('/auth/wallet/challenge').query({ account: 'GDTEST' });
     expect(res.status).toBe(400);
     expect(res.body.error.code).toBe('VALIDATION_ERROR');
   });
 
-  it('returns requestId and timestamp in the error envelope', async () => {
-    const res = await request(app).post('/auth/wallet').send({});
-    expect(res.body.requestId).toBeDefined();
-    expect(res.body.timestamp).toBeDefined();
-  });
-
-  it('passes Zod validation and reaches the controller (which returns 401 for unimplemented login)', async () => {
+  it('reaches the controller for a valid account', async () => {
     const res = await request(app)
-      .post('/auth/wallet')
-      .send({ walletAddress: 'GDTEST', signature: 'sig', message: 'Login to Callora' });
-    // Validation passes → controller rejects with AUTH_NOT_IMPLEMENTED
-    expect(res.status).toBe(401);
-    expect(res.body.error?.code ?? res.body.code).toMatch(/AUTH_NOT_IMPLEMENTED|UNAUTHORIZED/);
+      .get('/auth/wallet/challenge')
+      .query({ account: Keypair.random().publicKey() });
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe('WALLET_AUTH_NOT_CONFIGURED');
   });
 });
 
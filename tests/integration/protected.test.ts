@@ -233,6 +233,7 @@ class StubApiRepository implements ApiRepository {
   async bulkCreateEndpoints() {
     return [];
   }
+  async applyEndpointChanges() {}
   async findRawById() {
     return null;
   }